@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/metatx/MinimalForwarder.sol"; 
+
+/**
+ * Trusted forwarder for AgriTrace meta-transactions.
+ * A farmer (or a custodial key held for them) signs a ForwardRequest off-chain; a relayer submits
+ * it through execute() and pays the gas, and AgriTrace sees the farmer as _msgSender().
+ * EIP-712 domain: name "MinimalForwarder", version "0.0.1".
+ */
+contract AgriTraceForwarder is MinimalForwarder {}
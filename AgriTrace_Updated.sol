@@ -1,11 +1,16 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
+// Build with solc 0.8.24 or later, optimizer on and viaIR enabled (Remix: Advanced Configurations >
+// "Use configuration file" with "viaIR": true). Without viaIR migrateBatch hits "stack too deep", and
+// 0.8.20 rejects the Ownable constructor reading ERC2771Context's immutable forwarder before it is set.
+pragma solidity ^0.8.24;
 
 import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/access/AccessControl.sol"; 
 import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/access/Ownable2Step.sol"; 
 import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/security/ReentrancyGuard.sol"; 
+import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/utils/cryptography/MerkleProof.sol"; 
+import "https://github.com/OpenZeppelin/openzeppelin-contracts/blob/v4.9.3/contracts/metatx/ERC2771Context.sol"; 
 
-contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
+contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard, ERC2771Context {
     bytes32 public constant FARMER_ROLE = keccak256("FARMER_ROLE");
     bytes32 public constant DISTRIBUTOR_ROLE = keccak256("DISTRIBUTOR_ROLE");
     bytes32 public constant RETAILER_ROLE = keccak256("RETAILER_ROLE");
@@ -56,11 +61,65 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
         string summary;
         CallStatus callStatus;      // Enum instead of string
         uint256 offTopicCount;
+        uint256 quantity;           // Harvest quantity in grams, minted to the farmer's balance
     }
 
+    // Merkle root of a set of off-chain supply chain transactions (content hashes as leaves)
+    struct MerkleAnchor {
+        address submitter;
+        uint256 anchoredAt;
+        uint256 leafCount;
+        string uri;
+    }
+
+    // Buyer funds held until delivery is confirmed
+    enum EscrowStatus { NONE, FUNDED, DELIVERED, RELEASED, REFUNDED }
+
+    struct Escrow {
+        uint256 batchId;
+        address buyer;
+        address seller;
+        uint256 amount;             // Wei locked by the buyer
+        uint256 quantity;           // Grams purchased
+        uint256 deadline;           // Refundable by anyone after this if still undelivered
+        uint256 deliveredAt;
+        bytes32 deliveryProof;      // Hash of the proof-of-delivery record
+        EscrowStatus status;
+    }
+
+    // How long a buyer has to confirm once delivery is recorded before the seller can claim payment
+    uint256 public constant CONFIRMATION_WINDOW = 3 days;
+    uint256 public constant MAX_ESCROW_DURATION = 60 days;
+    // How long after the confirmation window the seller has to get a delivered escrow released before the buyer may refund it
+    uint256 public constant RELEASE_GRACE_PERIOD = 30 days;
+
     uint256 public nextBatchId;
     mapping(uint256 => Batch) public batches;
     mapping(address => uint256) public reputation;
+    mapping(bytes32 => MerkleAnchor) public merkleAnchors;
+
+    // ERC-1155-style quantity ledger: batchId => holder => grams held
+    mapping(uint256 => mapping(address => uint256)) private _balances;
+    mapping(uint256 => uint256) public totalQuantity;
+    mapping(address => mapping(address => bool)) private _operatorApprovals;
+
+    uint256 public nextEscrowId;
+    mapping(uint256 => Escrow) public escrows;
+    // Wei per paise when pricing escrows; batch prices are the whole harvest in paise
+    uint256 public weiPerPaise;
+    // Grams of a holder's balance promised to open escrows; only their release can move them
+    mapping(uint256 => mapping(address => uint256)) public reservedQuantity;
+
+    // Where a batch re-registered by migrateBatch lived on the previous deployment
+    struct LegacyBatch {
+        uint256 chainId;
+        address contractAddress;
+        uint256 batchId;
+    }
+
+    mapping(uint256 => LegacyBatch) public migratedFrom;
+    // keccak256(chainId, contractAddress, batchId) of each legacy batch already migrated
+    mapping(bytes32 => bool) public legacyMigrated;
 
     // Events for blockchain transaction manager
     event BatchRegistered(uint256 indexed batchId, address indexed farmer, string crop, string ipfsHash, uint256 price);
@@ -69,9 +128,19 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
     event HarvestRecorded(uint256 indexed batchId, address indexed farmer, string crop, string variety, uint256 quantity, uint256 price, string ipfsHash);
     event Tipped(address indexed from, address indexed farmer, uint256 amount);
     event PriceUpdated(uint256 indexed batchId, uint256 newPrice);
+    event MerkleRootAnchored(bytes32 indexed root, address indexed submitter, uint256 leafCount, string uri);
+    event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value);
+    event ApprovalForAll(address indexed account, address indexed operator, bool approved);
+    event EscrowCreated(uint256 indexed escrowId, uint256 indexed batchId, address indexed buyer, address seller, uint256 amount, uint256 quantity, uint256 deadline);
+    event EscrowDelivered(uint256 indexed escrowId, uint256 indexed batchId, bytes32 deliveryProof);
+    event EscrowReleased(uint256 indexed escrowId, uint256 indexed batchId, address indexed seller, uint256 amount);
+    event EscrowRefunded(uint256 indexed escrowId, uint256 indexed batchId, address indexed buyer, uint256 amount);
+    event EscrowRateUpdated(uint256 weiPerPaise);
+    event BatchMigrated(uint256 indexed batchId, uint256 indexed legacyChainId, address indexed legacyContract, uint256 legacyBatchId);
 
-    constructor() {
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    // Calls relayed through the trusted forwarder (AgriTraceForwarder) are attributed to the signer of the request
+    constructor(address trustedForwarder) ERC2771Context(trustedForwarder) {
+        _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
     }
 
     /**
@@ -83,12 +152,13 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
         require(input.sowingDate > 0, "Invalid sowing date");
         require(input.harvestDate >= input.sowingDate, "Harvest date must be after sowing date");
         require(input.harvestDate <= block.timestamp, "Harvest date cannot be in the future");
+        require(input.quantity > 0, "Quantity must be greater than 0");
 
         uint256 batchId = nextBatchId++;
         Batch storage b = batches[batchId];
 
         b.id = batchId;
-        b.farmer = msg.sender;
+        b.farmer = _msgSender();
         b.crop = input.crop;
         b.variety = input.variety;
         b.harvestQuantity = input.harvestQuantity;
@@ -104,11 +174,15 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
         b.summary = input.summary;
         b.callStatus = input.callStatus;
         b.offTopicCount = input.offTopicCount;
-        b.currentOwner = msg.sender;
+        b.currentOwner = _msgSender();
 
-        reputation[msg.sender] += 1;
+        _balances[batchId][_msgSender()] = input.quantity;
+        totalQuantity[batchId] = input.quantity;
 
-        emit BatchRegistered(batchId, msg.sender, input.crop, input.ipfsHash, input.price);
+        reputation[_msgSender()] += 1;
+
+        emit BatchRegistered(batchId, _msgSender(), input.crop, input.ipfsHash, input.price);
+        emit TransferSingle(_msgSender(), address(0), _msgSender(), batchId, input.quantity);
     }
 
     /**
@@ -131,6 +205,7 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
 
     /**
      * Record purchase transaction (called by blockchain transaction manager)
+     * Moves only the purchased quantity (grams) from seller to buyer; the seller keeps the rest
      */
     function recordPurchase(
         uint256 batchId,
@@ -139,15 +214,101 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
         uint256 quantity,
         uint256 price
     ) external {
-        // Verify the batch exists and from is the current owner
-        require(batches[batchId].currentOwner == from, "Invalid current owner");
-        require(to != address(0), "Invalid recipient");
-        
-        // Update ownership
-        batches[batchId].currentOwner = to;
-        
+        require(
+            _msgSender() == from || _operatorApprovals[from][_msgSender()] || hasRole(DEFAULT_ADMIN_ROLE, _msgSender()),
+            "Not authorized to move seller balance"
+        );
+
+        _transferQuantity(batchId, from, to, quantity);
+
         emit PurchaseRecorded(batchId, from, to, quantity, price);
-        emit BatchOwnershipTransferred(batchId, from, to);
+    }
+
+    /**
+     * Move part of the caller's holding in a batch to another address
+     */
+    function transferQuantity(uint256 batchId, address to, uint256 quantity) external {
+        _transferQuantity(batchId, _msgSender(), to, quantity);
+    }
+
+    /**
+     * Let an operator (e.g. the marketplace) record purchases against the caller's balances
+     */
+    function setApprovalForAll(address operator, bool approved) external {
+        require(operator != _msgSender(), "Cannot approve self");
+        _operatorApprovals[_msgSender()][operator] = approved;
+        emit ApprovalForAll(_msgSender(), operator, approved);
+    }
+
+    function isApprovedForAll(address account, address operator) external view returns (bool) {
+        return _operatorApprovals[account][operator];
+    }
+
+    /**
+     * Quantity (grams) of a batch held by an account
+     */
+    function balanceOf(address account, uint256 batchId) external view returns (uint256) {
+        return _balances[batchId][account];
+    }
+
+    function balanceOfBatch(address[] calldata accounts, uint256[] calldata batchIds) external view returns (uint256[] memory) {
+        require(accounts.length == batchIds.length, "Length mismatch");
+        uint256[] memory result = new uint256[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            result[i] = _balances[batchIds[i]][accounts[i]];
+        }
+        return result;
+    }
+
+    /**
+     * Debit from, credit to. currentOwner only follows when the current owner sells out.
+     */
+    function _transferQuantity(uint256 batchId, address from, address to, uint256 quantity) internal {
+        Batch storage batch = batches[batchId];
+        require(batch.farmer != address(0), "Batch does not exist");
+        require(to != address(0), "Invalid recipient");
+        require(quantity > 0, "Quantity must be greater than 0");
+        require(_balances[batchId][from] - reservedQuantity[batchId][from] >= quantity, "Insufficient batch balance");
+
+        _balances[batchId][from] -= quantity;
+        _balances[batchId][to] += quantity;
+
+        emit TransferSingle(_msgSender(), from, to, batchId, quantity);
+
+        if (batch.currentOwner == from && _balances[batchId][from] == 0) {
+            batch.currentOwner = to;
+            emit BatchOwnershipTransferred(batchId, from, to);
+        }
+    }
+
+    /**
+     * Anchor the Merkle root of many off-chain transactions in one call
+     * @param root Sorted-pair keccak256 Merkle root of the transaction content hashes
+     * @param leafCount Number of transactions covered by the root
+     * @param uri Optional pointer (e.g. IPFS) to the anchored leaf list
+     */
+    function anchorMerkleRoot(bytes32 root, uint256 leafCount, string calldata uri) external {
+        require(
+            hasRole(DEFAULT_ADMIN_ROLE, _msgSender()) || hasRole(FARMER_ROLE, _msgSender()) ||
+            hasRole(DISTRIBUTOR_ROLE, _msgSender()) || hasRole(RETAILER_ROLE, _msgSender()),
+            "Not authorized to anchor"
+        );
+        require(root != bytes32(0), "Invalid root");
+        require(leafCount > 0, "Empty anchor");
+        require(merkleAnchors[root].anchoredAt == 0, "Root already anchored");
+
+        merkleAnchors[root] = MerkleAnchor(_msgSender(), block.timestamp, leafCount, uri);
+        emit MerkleRootAnchored(root, _msgSender(), leafCount, uri);
+    }
+
+    /**
+     * Check that a transaction content hash is included under an anchored root
+     */
+    function verifyAnchoredLeaf(bytes32 root, bytes32 leaf, bytes32[] calldata proof) external view returns (bool) {
+        if (merkleAnchors[root].anchoredAt == 0) {
+            return false;
+        }
+        return MerkleProof.verifyCalldata(proof, root, leaf);
     }
 
     /**
@@ -159,16 +320,11 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
     }
 
     /**
-     * Transfer batch ownership
+     * Transfer batch ownership (the caller's whole remaining quantity not reserved for escrows)
      */
     function transferBatch(uint256 batchId, address to) external {
-        Batch storage batch = batches[batchId];
-        require(batch.id != 0, "Batch does not exist");
-        require(batch.currentOwner == msg.sender, "Not current owner");
-        require(to != address(0), "Invalid recipient");
-
-        batch.currentOwner = to;
-        emit BatchOwnershipTransferred(batchId, msg.sender, to);
+        require(batches[batchId].currentOwner == _msgSender(), "Not current owner");
+        _transferQuantity(batchId, _msgSender(), to, _balances[batchId][_msgSender()] - reservedQuantity[batchId][_msgSender()]);
     }
 
     /**
@@ -177,7 +333,7 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
     function updatePrice(uint256 batchId, uint256 newPrice) external {
         Batch storage batch = batches[batchId];
         require(batch.id != 0, "Batch does not exist");
-        require(batch.currentOwner == msg.sender, "Not current owner");
+        require(batch.currentOwner == _msgSender(), "Not current owner");
         require(newPrice > 0, "Invalid price");
 
         batch.price = newPrice;
@@ -196,7 +352,196 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
         require(success, "Transfer failed");
 
         reputation[farmer] += msg.value / 1e15;
-        emit Tipped(msg.sender, farmer, msg.value);
+        emit Tipped(_msgSender(), farmer, msg.value);
+    }
+
+    /**
+     * Set the rupee/ETH rate escrows are priced at
+     */
+    function setEscrowRate(uint256 newWeiPerPaise) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newWeiPerPaise > 0, "Invalid rate");
+        weiPerPaise = newWeiPerPaise;
+        emit EscrowRateUpdated(newWeiPerPaise);
+    }
+
+    /**
+     * Least wei an escrow for `quantity` grams must lock: the batch's harvest price pro rata, rounded up
+     */
+    function minimumEscrowAmount(uint256 batchId, uint256 quantity) public view returns (uint256) {
+        uint256 total = totalQuantity[batchId];
+        require(total > 0, "Batch has no quantity");
+        return (batches[batchId].price * quantity * weiPerPaise + total - 1) / total;
+    }
+
+    /**
+     * Lock the purchase amount for a batch until the buyer confirms delivery, reserving the seller's quantity meanwhile
+     * @param timeout Seconds until an undelivered escrow can be refunded
+     */
+    function createEscrow(uint256 batchId, address seller, uint256 quantity, uint256 timeout) external payable returns (uint256) {
+        require(batches[batchId].farmer != address(0), "Batch does not exist");
+        require(msg.value > 0, "No ETH sent");
+        require(seller != address(0) && seller != _msgSender(), "Invalid seller");
+        require(quantity > 0, "Quantity must be greater than 0");
+        require(weiPerPaise > 0, "Escrow rate not set");
+        require(msg.value >= minimumEscrowAmount(batchId, quantity), "Escrow amount below batch price");
+        require(_balances[batchId][seller] - reservedQuantity[batchId][seller] >= quantity, "Seller does not hold this quantity");
+        require(timeout > 0 && timeout <= MAX_ESCROW_DURATION, "Invalid timeout");
+
+        reservedQuantity[batchId][seller] += quantity;
+        uint256 escrowId = nextEscrowId++;
+        escrows[escrowId] = Escrow({
+            batchId: batchId,
+            buyer: _msgSender(),
+            seller: seller,
+            amount: msg.value,
+            quantity: quantity,
+            deadline: block.timestamp + timeout,
+            deliveredAt: 0,
+            deliveryProof: bytes32(0),
+            status: EscrowStatus.FUNDED
+        });
+
+        emit EscrowCreated(escrowId, batchId, _msgSender(), seller, msg.value, quantity, block.timestamp + timeout);
+        return escrowId;
+    }
+
+    /**
+     * Record proof of delivery; starts the buyer's confirmation window
+     */
+    function recordDelivery(uint256 escrowId, bytes32 deliveryProof) external {
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.FUNDED, "Escrow not awaiting delivery");
+        require(_msgSender() == escrow.seller || hasRole(DEFAULT_ADMIN_ROLE, _msgSender()), "Not authorized");
+        require(deliveryProof != bytes32(0), "Invalid delivery proof");
+
+        escrow.status = EscrowStatus.DELIVERED;
+        escrow.deliveredAt = block.timestamp;
+        escrow.deliveryProof = deliveryProof;
+        emit EscrowDelivered(escrowId, escrow.batchId, deliveryProof);
+    }
+
+    /**
+     * Buyer confirms receipt against the proof of delivery; the funds go to the seller and the quantity to the buyer.
+     * Only after the seller (or an admin) recorded the delivery, so a buyer alone cannot move the seller's quantity.
+     */
+    function confirmDelivery(uint256 escrowId, bytes32 deliveryProof) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+        require(_msgSender() == escrow.buyer, "Only buyer can confirm");
+        require(escrow.status == EscrowStatus.DELIVERED, "Delivery not recorded");
+        require(escrow.deliveryProof == deliveryProof, "Delivery proof mismatch");
+
+        _releaseEscrow(escrowId);
+    }
+
+    /**
+     * Seller claims payment when the buyer has not responded within the confirmation window
+     */
+    function claimEscrowPayment(uint256 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.DELIVERED, "Delivery not recorded");
+        require(block.timestamp > escrow.deliveredAt + CONFIRMATION_WINDOW, "Confirmation window open");
+
+        _releaseEscrow(escrowId);
+    }
+
+    /**
+     * Refund the buyer: either party may cancel before delivery, the seller at any point before release,
+     * anyone once an undelivered escrow has passed its deadline, and the buyer once a delivered escrow
+     * has gone unreleased past the grace period
+     */
+    function refundEscrow(uint256 escrowId) external nonReentrant {
+        Escrow storage escrow = escrows[escrowId];
+        require(escrow.status == EscrowStatus.FUNDED || escrow.status == EscrowStatus.DELIVERED, "Escrow not active");
+
+        bool undelivered = escrow.status == EscrowStatus.FUNDED;
+        bool releaseStalled = !undelivered &&
+            block.timestamp > escrow.deliveredAt + CONFIRMATION_WINDOW + RELEASE_GRACE_PERIOD;
+        require(
+            _msgSender() == escrow.seller ||
+            ((undelivered || releaseStalled) && _msgSender() == escrow.buyer) ||
+            (undelivered && block.timestamp > escrow.deadline),
+            "Refund not allowed"
+        );
+
+        escrow.status = EscrowStatus.REFUNDED;
+        reservedQuantity[escrow.batchId][escrow.seller] -= escrow.quantity;
+        (bool success, ) = payable(escrow.buyer).call{value: escrow.amount}("");
+        require(success, "Refund failed");
+
+        emit EscrowRefunded(escrowId, escrow.batchId, escrow.buyer, escrow.amount);
+    }
+
+    /**
+     * Pay the seller and move the reserved quantity to the buyer, so a purchase needs no operator approval
+     */
+    function _releaseEscrow(uint256 escrowId) internal {
+        Escrow storage escrow = escrows[escrowId];
+        escrow.status = EscrowStatus.RELEASED;
+
+        reservedQuantity[escrow.batchId][escrow.seller] -= escrow.quantity;
+        _transferQuantity(escrow.batchId, escrow.seller, escrow.buyer, escrow.quantity);
+
+        (bool success, ) = payable(escrow.seller).call{value: escrow.amount}("");
+        require(success, "Release failed");
+
+        emit EscrowReleased(escrowId, escrow.batchId, escrow.seller, escrow.amount);
+    }
+
+    /**
+     * Re-register a batch from a previous deployment, keeping its farmer, current owner and holder balances.
+     * The legacy reference is stored so verifiers can follow the batch back to the old contract.
+     */
+    function migrateBatch(
+        BatchInput calldata input,
+        address farmer,
+        address currentOwner,
+        address[] calldata holders,
+        uint256[] calldata amounts,
+        LegacyBatch calldata legacy
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256) {
+        require(farmer != address(0) && currentOwner != address(0), "Invalid address");
+        require(holders.length == amounts.length, "Length mismatch");
+        require(legacy.contractAddress != address(0), "Invalid legacy contract");
+
+        bytes32 legacyKey = keccak256(abi.encode(legacy.chainId, legacy.contractAddress, legacy.batchId));
+        require(!legacyMigrated[legacyKey], "Batch already migrated");
+        legacyMigrated[legacyKey] = true;
+
+        uint256 batchId = nextBatchId++;
+        Batch storage b = batches[batchId];
+
+        b.id = batchId;
+        b.farmer = farmer;
+        b.crop = input.crop;
+        b.variety = input.variety;
+        b.harvestQuantity = input.harvestQuantity;
+        b.sowingDate = input.sowingDate;
+        b.harvestDate = input.harvestDate;
+        b.freshnessDuration = input.freshnessDuration;
+        b.grading = input.grading;
+        b.certification = input.certification;
+        b.labTest = input.labTest;
+        b.price = input.price;
+        b.ipfsHash = input.ipfsHash;
+        b.languageDetected = input.languageDetected;
+        b.summary = input.summary;
+        b.callStatus = input.callStatus;
+        b.offTopicCount = input.offTopicCount;
+        b.currentOwner = currentOwner;
+
+        uint256 total;
+        for (uint256 i = 0; i < holders.length; i++) {
+            require(holders[i] != address(0), "Invalid holder");
+            _balances[batchId][holders[i]] += amounts[i];
+            total += amounts[i];
+            emit TransferSingle(_msgSender(), address(0), holders[i], batchId, amounts[i]);
+        }
+        require(total == input.quantity, "Balances must add up to quantity");
+        totalQuantity[batchId] = total;
+
+        migratedFrom[batchId] = legacy;
+        emit BatchMigrated(batchId, legacy.chainId, legacy.contractAddress, legacy.batchId);
+        return batchId;
     }
 
     /**
@@ -225,4 +570,15 @@ contract AgriTrace is AccessControl, Ownable2Step, ReentrancyGuard {
                hasRole(DISTRIBUTOR_ROLE, account) || 
                hasRole(RETAILER_ROLE, account);
     }
+
+    /**
+     * Context and ERC2771Context both define the sender helpers; use the forwarder-aware versions
+     */
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
 }
@@ -0,0 +1,175 @@
+// Exercise the purchase escrow flow against AgriTrace deployed on a local dev chain (Anvil, Hardhat or Ganache node).
+//
+//   CONTRACT_ADDRESS=0x... node scripts/escrow-devchain-check.js
+//
+// RPC_URL defaults to http://127.0.0.1:8545. Accounts 0-3 of the node's default mnemonic act as
+// admin (the deployer), farmer, buyer and a third party.
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS;
+const DEV_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const { abi } = JSON.parse(readFileSync(new URL('../src/contracts/AgriTrace.json', import.meta.url), 'utf8'));
+
+const wallet = (provider, index) =>
+  ethers.HDNodeWallet.fromPhrase(DEV_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).connect(provider);
+
+const assert = (condition, message) => {
+  if (!condition) {
+    throw new Error(`❌ ${message}`);
+  }
+  console.log(`✅ ${message}`);
+};
+
+const rejects = async call => {
+  try {
+    await call();
+    return false;
+  } catch {
+    return true;
+  }
+};
+
+const escrowIdFrom = (contract, receipt) => {
+  const created = receipt.logs
+    .map(log => {
+      try {
+        return contract.interface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .find(parsed => parsed?.name === 'EscrowCreated');
+  return created.args.escrowId;
+};
+
+async function main() {
+  if (!CONTRACT_ADDRESS) {
+    throw new Error('Set CONTRACT_ADDRESS to the AgriTrace deployment on the dev chain');
+  }
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const wallets = [0, 1, 2, 3].map(i => wallet(provider, i));
+  // Nonces are tracked locally; some dev nodes (e.g. Ganache) report a stale pending nonce right after a mined tx
+  const [admin, farmer, buyer, stranger] = wallets.map(signer => new ethers.NonceManager(signer));
+  const [farmerAddress, buyerAddress] = [wallets[1].address, wallets[2].address];
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, abi, admin);
+
+  console.log('🔍 Using', { RPC_URL, CONTRACT_ADDRESS, chainId: (await provider.getNetwork()).chainId });
+
+  if (!(await contract.hasRole(await contract.FARMER_ROLE(), farmerAddress))) {
+    await (await contract.addFarmer(farmerAddress)).wait();
+  }
+  if ((await contract.weiPerPaise()) === 0n) {
+    // ₹250000 per ETH, the app's default VITE_ESCROW_INR_PER_ETH
+    await (await contract.setEscrowRate(40000000000n)).wait();
+  }
+
+  // Register a 100 kg batch owned by the farmer
+  const now = Math.floor(Date.now() / 1000);
+  const batchId = await contract.nextBatchId();
+  await (await contract.connect(farmer).registerBatch({
+    crop: 'Rice',
+    variety: 'Basmati',
+    harvestQuantity: '100',
+    sowingDate: now - 120 * 24 * 60 * 60,
+    harvestDate: now - 24 * 60 * 60,
+    freshnessDuration: 7,
+    grading: 1,
+    certification: 'Organic',
+    labTest: 'Passed',
+    price: 50,
+    ipfsHash: '',
+    languageDetected: 'en',
+    summary: 'Escrow dev-chain check',
+    callStatus: 2,
+    offTopicCount: 0,
+    quantity: 100000n
+  })).wait();
+  console.log('🔍 Registered batch', batchId.toString());
+
+  const amount = ethers.parseEther('0.01');
+  const proof = ethers.keccak256(ethers.toUtf8Bytes(`delivery-${batchId}-${now}`));
+
+  const minimum = await contract.minimumEscrowAmount(batchId, 10000n);
+  assert(
+    await rejects(() => contract.connect(buyer).createEscrow.staticCall(batchId, farmerAddress, 10000n, 3600, { value: minimum - 1n })),
+    'Escrow below the batch price rejected'
+  );
+
+  // 1. Lock -> seller records delivery -> buyer confirms -> seller is paid
+  const firstReceipt = await (await contract.connect(buyer).createEscrow(batchId, farmerAddress, 10000n, 3600, { value: amount })).wait();
+  const firstEscrowId = escrowIdFrom(contract, firstReceipt);
+  assert(Number((await contract.escrows(firstEscrowId)).status) === 1, 'Escrow funded');
+
+  assert(
+    await rejects(() => contract.connect(buyer).confirmDelivery.staticCall(firstEscrowId, proof)),
+    'Buyer cannot confirm before the seller records delivery'
+  );
+
+  await (await contract.connect(farmer).recordDelivery(firstEscrowId, proof)).wait();
+  assert(Number((await contract.escrows(firstEscrowId)).status) === 2, 'Delivery recorded');
+
+  assert(
+    await rejects(() => contract.connect(buyer).confirmDelivery.staticCall(firstEscrowId, ethers.id('wrong proof'))),
+    'Mismatched proof rejected'
+  );
+
+  const sellerBefore = await provider.getBalance(farmerAddress);
+  await (await contract.connect(buyer).confirmDelivery(firstEscrowId, proof)).wait();
+  assert(Number((await contract.escrows(firstEscrowId)).status) === 3, 'Escrow released');
+  assert((await provider.getBalance(farmerAddress)) - sellerBefore === amount, 'Seller received the escrowed amount');
+  assert((await contract.balanceOf(buyerAddress, batchId)) === 10000n, 'Escrowed quantity moved to the buyer');
+
+  // 2. Lock -> deadline passes without delivery -> anyone triggers the refund
+  const secondReceipt = await (await contract.connect(buyer).createEscrow(batchId, farmerAddress, 10000n, 60, { value: amount })).wait();
+  const secondEscrowId = escrowIdFrom(contract, secondReceipt);
+
+  await provider.send('evm_increaseTime', [61]);
+  await provider.send('evm_mine', []);
+
+  const buyerBefore = await provider.getBalance(buyerAddress);
+  await (await contract.connect(stranger).refundEscrow(secondEscrowId)).wait();
+  assert(Number((await contract.escrows(secondEscrowId)).status) === 4, 'Expired escrow refunded');
+  assert((await provider.getBalance(buyerAddress)) - buyerBefore === amount, 'Buyer received the refund');
+
+  // 3. Lock -> buyer cancels before delivery
+  const thirdReceipt = await (await contract.connect(buyer).createEscrow(batchId, farmerAddress, 10000n, 3600, { value: amount })).wait();
+  const thirdEscrowId = escrowIdFrom(contract, thirdReceipt);
+  await (await contract.connect(buyer).refundEscrow(thirdEscrowId)).wait();
+  assert(Number((await contract.escrows(thirdEscrowId)).status) === 4, 'Cancelled escrow refunded');
+
+  // 4. Lock reserves the quantity -> delivery recorded but never released -> buyer refunds after the grace period
+  const fourthReceipt = await (await contract.connect(buyer).createEscrow(batchId, farmerAddress, 10000n, 3600, { value: amount })).wait();
+  const fourthEscrowId = escrowIdFrom(contract, fourthReceipt);
+  assert((await contract.reservedQuantity(batchId, farmerAddress)) === 10000n, 'Escrowed quantity reserved');
+
+  const farmerBalance = await contract.balanceOf(farmerAddress, batchId);
+  assert(
+    await rejects(() => contract.connect(farmer).transferQuantity.staticCall(batchId, wallets[3].address, farmerBalance)),
+    'Seller cannot transfer reserved quantity away'
+  );
+
+  await (await contract.connect(farmer).recordDelivery(fourthEscrowId, proof)).wait();
+  assert(
+    await rejects(() => contract.connect(buyer).refundEscrow.staticCall(fourthEscrowId)),
+    'Buyer cannot refund a delivered escrow within the grace period'
+  );
+
+  const stallSeconds = Number((await contract.CONFIRMATION_WINDOW()) + (await contract.RELEASE_GRACE_PERIOD())) + 1;
+  await provider.send('evm_increaseTime', [stallSeconds]);
+  await provider.send('evm_mine', []);
+
+  await (await contract.connect(buyer).refundEscrow(fourthEscrowId)).wait();
+  assert(Number((await contract.escrows(fourthEscrowId)).status) === 4, 'Stalled delivered escrow refunded to buyer');
+  assert((await contract.reservedQuantity(batchId, farmerAddress)) === 0n, 'Reservation released on refund');
+
+  console.log('🎉 Escrow flow verified');
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+// Exercise gasless registration through AgriTraceForwarder against a local dev chain (Anvil or Hardhat node).
+//
+//   CONTRACT_ADDRESS=0x... FORWARDER_ADDRESS=0x... node scripts/relayer-devchain-check.js
+//
+// AgriTrace must be deployed with FORWARDER_ADDRESS as its trusted forwarder. RPC_URL defaults to
+// http://127.0.0.1:8545. Account 0 of the node's default mnemonic is the admin (the deployer),
+// account 2 receives a transfer and account 3 relays; the farmer is a fresh key that never holds ETH.
+import { ethers } from 'ethers';
+import { readFileSync } from 'fs';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS;
+const FORWARDER_ADDRESS = process.env.FORWARDER_ADDRESS;
+const DEV_MNEMONIC = 'test test test test test test test test test test test junk';
+
+const readAbi = file => JSON.parse(readFileSync(new URL(`../src/contracts/${file}`, import.meta.url), 'utf8')).abi;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+const wallet = (provider, index) =>
+  ethers.HDNodeWallet.fromPhrase(DEV_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`).connect(provider);
+
+const assert = (condition, message) => {
+  if (!condition) {
+    throw new Error(`❌ ${message}`);
+  }
+  console.log(`✅ ${message}`);
+};
+
+async function main() {
+  if (!CONTRACT_ADDRESS || !FORWARDER_ADDRESS) {
+    throw new Error('Set CONTRACT_ADDRESS and FORWARDER_ADDRESS to the dev chain deployments');
+  }
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const [admin, buyer, relayer] = [0, 2, 3].map(i => wallet(provider, i));
+  const farmer = ethers.Wallet.createRandom();
+  const agriTrace = new ethers.Contract(CONTRACT_ADDRESS, readAbi('AgriTrace.json'), admin);
+  const forwarder = new ethers.Contract(FORWARDER_ADDRESS, readAbi('AgriTraceForwarder.json'), relayer);
+  const { chainId } = await provider.getNetwork();
+  const domain = { name: 'MinimalForwarder', version: '0.0.1', chainId, verifyingContract: FORWARDER_ADDRESS };
+
+  console.log('🔍 Using', { RPC_URL, CONTRACT_ADDRESS, FORWARDER_ADDRESS, farmer: farmer.address });
+  assert(await agriTrace.isTrustedForwarder(FORWARDER_ADDRESS), 'AgriTrace trusts the forwarder');
+
+  await (await agriTrace.addFarmer(farmer.address)).wait();
+
+  // The farmer signs, the relayer submits and pays
+  const relay = async (method, args) => {
+    const request = {
+      from: farmer.address,
+      to: CONTRACT_ADDRESS,
+      value: 0n,
+      gas: 1500000n,
+      nonce: await forwarder.getNonce(farmer.address),
+      data: agriTrace.interface.encodeFunctionData(method, args)
+    };
+    const signature = await farmer.signTypedData(domain, FORWARD_REQUEST_TYPES, request);
+
+    const [success] = await forwarder.execute.staticCall(request, signature);
+    assert(success, `Relayed ${method} succeeds in simulation`);
+    await (await forwarder.execute(request, signature, { gasLimit: 1700000n })).wait();
+    return { request, signature };
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const batchId = await agriTrace.nextBatchId();
+  const registration = await relay('registerBatch', [{
+    crop: 'Wheat',
+    variety: 'Sharbati',
+    harvestQuantity: '50',
+    sowingDate: now - 120 * 24 * 60 * 60,
+    harvestDate: now - 24 * 60 * 60,
+    freshnessDuration: 30,
+    grading: 1,
+    certification: 'Organic',
+    labTest: 'Passed',
+    price: 2500,
+    ipfsHash: '',
+    languageDetected: 'hi',
+    summary: 'Relayer dev-chain check',
+    callStatus: 2,
+    offTopicCount: 0,
+    quantity: 50000n
+  }]);
+
+  const batch = await agriTrace.batches(batchId);
+  assert(batch.farmer === farmer.address, 'Batch is registered to the farmer, not the relayer');
+  assert((await agriTrace.balanceOf(farmer.address, batchId)) === 50000n, 'Harvest quantity minted to the farmer');
+  assert((await provider.getBalance(farmer.address)) === 0n, 'Farmer paid no gas');
+
+  assert(!(await forwarder.verify(registration.request, registration.signature)), 'Replayed request is rejected');
+
+  await relay('transferQuantity', [batchId, buyer.address, 20000n]);
+  assert((await agriTrace.balanceOf(buyer.address, batchId)) === 20000n, 'Relayed transfer credited the buyer');
+  assert((await agriTrace.balanceOf(farmer.address, batchId)) === 30000n, 'Relayed transfer debited the farmer');
+
+  console.log('🎉 Meta-transaction relay verified');
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Menu, X, Leaf, User, ShoppingCart, Shield, LogIn, LogOut, Wallet, Camera, Truck, Package, MapPin } from 'lucide-react';
+import { Menu, X, Leaf, User, ShoppingCart, Shield, LogIn, LogOut, Wallet, Camera, Truck, Package, MapPin, Network, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { PendingOperationsTray } from '@/features/blockchain/components/PendingOperationsTray';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
 import { logger } from '@/lib/logger';
 import { sanitizeError } from '@/lib/security';
 import {
@@ -18,7 +20,7 @@ export const Header = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [userType, setUserType] = useState<string | null>(null);
   const { user, profile, signOut } = useAuth();
-  const { isConnected, connectWallet, account, disconnectWallet } = useWeb3();
+  const { isConnected, connectWallet, account, disconnectWallet, switchNetwork, chainId, isSupportedNetwork } = useWeb3();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -130,16 +132,36 @@ export const Header = () => {
 
         {/* Desktop Auth & Actions */}
         <div className="hidden md:flex items-center space-x-4">
+          {/* Pending blockchain operations */}
+          <PendingOperationsTray />
+
           {/* Wallet Connection */}
           {isConnected ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
-                <Button variant="outline" size="sm" className="border-green-200 text-green-700">
-                  <Wallet className="mr-2 h-4 w-4" />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={isSupportedNetwork ? 'border-green-200 text-green-700' : 'border-orange-300 text-orange-700'}
+                >
+                  {isSupportedNetwork ? <Wallet className="mr-2 h-4 w-4" /> : <AlertTriangle className="mr-2 h-4 w-4" />}
                   {account?.substring(0, 6)}...{account?.substring(account.length - 4)}
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                  {chainId !== null && (networkRegistry.getNetworkByChainId(chainId)?.name || `Chain ${chainId}`)}
+                  {!isSupportedNetwork && ' · AgriTrace not deployed, read-only'}
+                </div>
+                {networkRegistry.getNetworks()
+                  .filter(network => network.deployment && network.chainId !== chainId)
+                  .map(network => (
+                    <DropdownMenuItem key={network.key} onClick={() => switchNetwork(network.key)}>
+                      <Network className="mr-2 h-4 w-4" />
+                      Switch to {network.name}
+                    </DropdownMenuItem>
+                  ))}
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={disconnectWallet}>
                   <LogOut className="mr-2 h-4 w-4" />
                   Disconnect Wallet
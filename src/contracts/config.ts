@@ -5,24 +5,86 @@ const getEnv = (key: keyof ImportMetaEnv, fallback?: string) => {
   throw new Error(`Missing required environment variable: ${key}`);
 };
 
-export const CONTRACT_ADDRESS = getEnv("VITE_CONTRACT_ADDRESS");
+export type NetworkKey = 'sepolia' | 'monad' | 'localhost';
 
-export const NETWORK_CONFIG = {
+/**
+ * AgriTrace (and optional forwarder) deployed on one chain
+ */
+export interface NetworkDeployment {
+  contractAddress: string;
+  // Block the contract was deployed in; the event indexer starts scanning here
+  deployBlock: number;
+  // AgriTraceForwarder trusted by the contract; empty when meta-transactions are not deployed
+  forwarderAddress: string;
+}
+
+export interface NetworkDefinition {
+  key: NetworkKey;
+  chainId: number;
+  name: string;
+  // Primary RPC first; the rest are used as fallbacks for reads
+  rpcUrls: string[];
+  blockExplorer: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // null when AgriTrace is not deployed on this chain; writes are refused there
+  deployment: NetworkDeployment | null;
+  isLocal?: boolean;
+}
+
+export const DEFAULT_NETWORK = getEnv("VITE_DEFAULT_NETWORK", "sepolia") as NetworkKey;
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// VITE_<NETWORK>_CONTRACT_ADDRESS etc.; the unprefixed VITE_CONTRACT_* variables still configure the default network
+const readDeployment = (key: NetworkKey, prefix: 'SEPOLIA' | 'MONAD' | 'LOCALHOST'): NetworkDeployment | null => {
+  const legacy = key === DEFAULT_NETWORK;
+  const contractAddress = getEnv(`VITE_${prefix}_CONTRACT_ADDRESS`, legacy ? getEnv("VITE_CONTRACT_ADDRESS", "") : "");
+  if (!contractAddress) {
+    return null;
+  }
+
+  return {
+    contractAddress,
+    deployBlock: Number(getEnv(`VITE_${prefix}_DEPLOY_BLOCK`, legacy ? getEnv("VITE_CONTRACT_DEPLOY_BLOCK", "0") : "0")),
+    forwarderAddress: getEnv(`VITE_${prefix}_FORWARDER_ADDRESS`, legacy ? getEnv("VITE_FORWARDER_ADDRESS", "") : "")
+  };
+};
+
+const ETH = { name: "Ethereum", symbol: "ETH", decimals: 18 };
+
+export const NETWORKS: Record<NetworkKey, NetworkDefinition> = {
   sepolia: {
+    key: "sepolia",
     chainId: 11155111,
     name: "Sepolia Testnet",
-    rpcUrl: getEnv("VITE_SEPOLIA_RPC_URL"),
-    blockExplorer: getEnv("VITE_SEPOLIA_EXPLORER", "https://sepolia.etherscan.io/")
+    rpcUrls: [getEnv("VITE_SEPOLIA_RPC_URL", ""), ...splitList(getEnv("VITE_SEPOLIA_RPC_FALLBACKS", ""))].filter(Boolean),
+    blockExplorer: getEnv("VITE_SEPOLIA_EXPLORER", "https://sepolia.etherscan.io/"),
+    nativeCurrency: ETH,
+    deployment: readDeployment("sepolia", "SEPOLIA")
   },
   monad: {
+    key: "monad",
     chainId: 10135,
     name: "Monad Testnet",
-    rpcUrl: getEnv("VITE_MONAD_RPC_URL"),
-    blockExplorer: getEnv("VITE_MONAD_EXPLORER", "https://testnet.monadexplorer.com/")
+    rpcUrls: [getEnv("VITE_MONAD_RPC_URL", ""), ...splitList(getEnv("VITE_MONAD_RPC_FALLBACKS", ""))].filter(Boolean),
+    blockExplorer: getEnv("VITE_MONAD_EXPLORER", "https://testnet.monadexplorer.com/"),
+    nativeCurrency: { name: "Monad", symbol: "MON", decimals: 18 },
+    deployment: readDeployment("monad", "MONAD")
+  },
+  localhost: {
+    key: "localhost",
+    chainId: 31337,
+    name: "Local Anvil",
+    rpcUrls: [getEnv("VITE_LOCALHOST_RPC_URL", "http://127.0.0.1:8545")],
+    blockExplorer: "",
+    nativeCurrency: ETH,
+    deployment: readDeployment("localhost", "LOCALHOST"),
+    isLocal: true
   }
 };
 
-export const DEFAULT_NETWORK = getEnv("VITE_DEFAULT_NETWORK", "sepolia");
+// Rate used to convert rupee order totals into the ETH a buyer locks in purchase escrow; keep in line with the contract's weiPerPaise
+export const ESCROW_INR_PER_ETH = Number(getEnv("VITE_ESCROW_INR_PER_ETH", "250000"));
 
 export const PINATA_CONFIG = {
   apiKey: getEnv("VITE_PINATA_API_KEY"),
@@ -8,9 +8,9 @@ import { ipfsManager } from '@/features/ipfs/utils/ipfsManager';
 import { logger } from '@/lib/logger';
 import { sanitizeError, sanitizeString, validateInteger, validateNumber } from '@/lib/security';
 import { uploadBatchMetadataToIPFS } from '@/features/ipfs/utils/ipfs';
-import { blockchainTransactionManager } from '@/features/blockchain/utils/blockchainTransactionManager';
-import { BatchInput, CONTRACT_ADDRESS } from '@/contracts/config';
-import AgriTraceABI from '@/contracts/AgriTrace.json';
+import { getContractInstance, getReadOnlyProvider } from '@/features/blockchain/utils/contractUtils';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import { BatchInput } from '@/contracts/config';
 import { 
   Package, 
   Calendar, 
@@ -31,12 +31,14 @@ import { useToast } from '@/components/ui/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useNavigate } from 'react-router-dom';
 import { MarketPriceDisplay } from '@/features/marketplace/components/MarketPriceDisplay';
+import { forwardContractService, BatchAllocation } from '@/features/marketplace/utils/forwardContractService';
+import { demandService } from '@/features/marketplace/utils/demandService';
 import { fetchSoilData } from '@/features/ai-services/services/iotSoilDataService';
 import { analyzeCropQualityFromSoil } from '@/features/ai-services/services/cropAnalysisService';
 
 export const BatchRegistration = () => {
   const { user, profile } = useAuth();
-  const { isConnected, connectWallet, account, provider, signer } = useWeb3();
+  const { isConnected, connectWallet, account, provider } = useWeb3();
   const { registerBatch, getNextBatchId, loading: contractLoading } = useContract();
   const [formData, setFormData] = useState({
     cropType: '',
@@ -388,6 +390,8 @@ export const BatchRegistration = () => {
         logger.debug('Batch registered event search', { found: Boolean(batchRegisteredEvent) });
         
         let extractedBatchId = null;
+        // False once a timestamp stands in for the on-chain ID, which must not be linked to the deployment
+        let idFromEvent = true;
         if (batchRegisteredEvent) {
           extractedBatchId = parseInt(batchRegisteredEvent.topics[1], 16);
           setBatchId(extractedBatchId);
@@ -395,41 +399,17 @@ export const BatchRegistration = () => {
           // Update the batch data with the real batch ID
           batchData.id = extractedBatchId;
           batchData.ipfsHash = certificateIpfsHash;
-          
-          // Record harvest transaction on blockchain
-          logger.debug('Recording harvest transaction on blockchain', { batchId: extractedBatchId });
-          if (signer) {
-            try {
-              blockchainTransactionManager.updateSigner(signer);
-              const harvestTransaction = await blockchainTransactionManager.recordHarvestTransaction(
-                extractedBatchId.toString(),
-                user?.id || '', // Farmer address
-                sanitizeString(formData.cropType, 100),
-                sanitizeString(formData.variety, 100),
-                validateNumber(formData.harvestQuantity, 0, Infinity, 0),
-                validateNumber(formData.pricePerKg, 0, Infinity, 0),
-                sanitizeString(certificateIpfsHash, 100)
-              );
-              logger.debug('Harvest transaction recorded', { batchId: extractedBatchId });
-            } catch (blockchainError) {
-              logger.error('Blockchain harvest transaction failed', blockchainError);
-              // Continue with database operations even if blockchain fails
-              logger.debug('Continuing with database operations despite blockchain error');
-            }
-          } else {
-            logger.debug('No signer available for blockchain transaction');
-          }
         } else {
           // Try to decode events using contract interface
           try {
-            const contract = new ethers.Contract(CONTRACT_ADDRESS, AgriTraceABI.abi, provider);
-            const decodedEvents = (receipt.logs || []).map((log: { topics: string[]; data: string; address: string }) => {
+            const contract = getContractInstance(provider ?? getReadOnlyProvider());
+            const decodedEvents = (receipt.logs || []).map((log: ethers.Log) => {
               try {
                 return contract.interface.parseLog(log);
               } catch (e) {
                 return null;
               }
-            }).filter((event): event is { name: string; args: { batchId: bigint } } => event !== null);
+            }).filter((event): event is ethers.LogDescription => event !== null);
             
             logger.debug('Decoded events', { count: decodedEvents.length });
             
@@ -449,9 +429,9 @@ export const BatchRegistration = () => {
                 ethers.id('BatchRegistered(uint256,address,string,string,uint256)')
               ];
               
-              let foundEvent: { topics: string[] } | null = null;
+              let foundEvent: ethers.Log | null = null;
               for (const sig of alternativeSignatures) {
-                foundEvent = receipt.logs.find((log: { topics: string[] }) => log.topics?.[0] === sig) || null;
+                foundEvent = receipt.logs.find((log: ethers.Log) => log.topics?.[0] === sig) || null;
                 if (foundEvent) break;
               }
               
@@ -464,6 +444,7 @@ export const BatchRegistration = () => {
               } else {
                 // Final fallback: use timestamp as temporary ID
                 extractedBatchId = Math.floor(Date.now() / 1000);
+                idFromEvent = false;
                 setBatchId(extractedBatchId);
                 logger.warn('Could not extract batch ID from any event, using timestamp as fallback', { batchId: extractedBatchId });
                 
@@ -476,6 +457,7 @@ export const BatchRegistration = () => {
             logger.error('Error decoding events', decodeError);
             // Final fallback: use timestamp as temporary ID
             extractedBatchId = Math.floor(Date.now() / 1000);
+            idFromEvent = false;
             setBatchId(extractedBatchId);
             logger.warn('Could not decode events, using timestamp as fallback', { batchId: extractedBatchId });
             
@@ -487,6 +469,7 @@ export const BatchRegistration = () => {
 
         // Step 5: Save to Supabase for local reference
         let insertedBatch: Tables<'batches'> | null = null;
+        let contractAllocations: BatchAllocation[] = [];
         let currentProfile: Tables<'profiles'> | null = profile || null;
         
         try {
@@ -568,6 +551,20 @@ export const BatchRegistration = () => {
           insertedBatch = batchResult;
           logger.debug('Batch inserted successfully', { batchId: insertedBatch.id, groupId });
 
+          if (idFromEvent && extractedBatchId !== null) {
+            try {
+              const chainId = networkRegistry.getActiveChainId();
+              await networkRegistry.linkBatch(insertedBatch.id, {
+                chainId,
+                contractAddress: networkRegistry.requireDeployment(chainId).contractAddress,
+                blockchainBatchId: extractedBatchId
+              });
+            } catch (linkError) {
+              logger.warn('Failed to link batch to deployment', linkError);
+              // History still reads from the active deployment without the link
+            }
+          }
+
           // Step 6: Add to marketplace table
           // Determine seller type based on user's role
           const sellerType = userType === 'distributor' ? 'distributor' : 'farmer';
@@ -616,6 +613,22 @@ export const BatchRegistration = () => {
             logger.warn('Marketplace insertion failed, but batch was created successfully');
           } else {
             logger.debug('Batch added to marketplace successfully', { marketplaceId: marketplaceResult?.id });
+
+            // Step 7: Allocate the harvest to the farmer's matching forward contracts
+            if (sellerType === 'farmer') {
+              try {
+                contractAllocations = (await forwardContractService.allocateBatch(insertedBatch.id)).allocations;
+              } catch (allocationError) {
+                logger.warn('Forward contract allocation failed, batch stays fully listed', allocationError);
+              }
+
+              // Step 8: Tell the farmer about open demand requests the batch can fill
+              try {
+                await demandService.notifyMatches(insertedBatch.id);
+              } catch (matchError) {
+                logger.warn('Demand request matching failed', matchError);
+              }
+            }
           }
         } catch (dbError) {
           logger.error('Failed to save to local database', dbError);
@@ -664,7 +677,10 @@ export const BatchRegistration = () => {
       setStep('complete');
       toast({
         title: "Batch registered successfully!",
-        description: `Your batch has been registered with Group ID: ${groupId}`,
+        description: `Your batch has been registered with Group ID: ${groupId}` +
+          (contractAllocations.length > 0
+            ? `. ${contractAllocations.reduce((sum, allocation) => sum + Number(allocation.quantity), 0)} kg allocated to ${contractAllocations.length} forward contract${contractAllocations.length === 1 ? '' : 's'}.`
+            : ''),
       });
 
       // Reset form
@@ -4,10 +4,11 @@
  */
 
 import { ipfsManager } from '@/features/ipfs/utils/ipfsManager';
-import { blockchainTransactionManager } from '@/features/blockchain/utils/blockchainTransactionManager';
+import { metaTransactionRelayer } from '@/features/blockchain/utils/metaTransactionRelayer';
+import { getContractInstance, hasRoleOnContract, toOnChainQuantity } from '@/features/blockchain/utils/contractUtils';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import { walletVaultService, type ConsentInput } from '@/features/wallet-vault/services/walletVaultService';
 import { supabase } from '@/integrations/supabase/client';
-import { CONTRACT_ADDRESS } from '@/contracts/config';
-import AgriTraceABI from '@/contracts/AgriTrace.json';
 import { ethers } from 'ethers';
 import type { BatchInput } from '@/contracts/config';
 import { logger } from '@/lib/logger';
@@ -27,13 +28,17 @@ export interface BatchRegistrationResult {
  * @param farmerName - Farmer's name
  * @param farmerLocation - Farmer's location (optional)
  * @param signer - Ethers signer for blockchain transactions (optional, will use provider if not provided)
+ * @param custodialConsent - Farmer's recorded consent for the helper to sign with their custodial wallet;
+ *   when given, the registration is signed with that wallet and relayed through the forwarder with
+ *   `signer` paying gas, so the batch is registered to the farmer's address
  */
 export async function registerBatchFromVoiceGenie(
   collectedData: any,
   farmerPhone: string,
   farmerName: string,
   farmerLocation?: string,
-  signer?: ethers.Signer | null
+  signer?: ethers.Signer | null,
+  custodialConsent?: ConsentInput | null
 ): Promise<BatchRegistrationResult> {
   logger.debug('Starting batch registration from VoiceGenie', { farmerPhone, farmerName });
 
@@ -41,6 +46,10 @@ export async function registerBatchFromVoiceGenie(
   const farmerProfile = await getOrCreateFarmerProfile(farmerPhone, farmerName, farmerLocation);
   logger.debug('Farmer profile retrieved', { farmerId: farmerProfile.id });
 
+  const farmerSigner = custodialConsent && farmerProfile.wallet_address && metaTransactionRelayer.isEnabled()
+    ? await walletVaultService.getSigner(farmerProfile.id, custodialConsent, signer?.provider)
+    : null;
+
   // Step 2: Generate harvest certificate and upload to Pinata
   const tempBatchId = Date.now().toString();
   const harvestData = {
@@ -173,7 +182,8 @@ export async function registerBatchFromVoiceGenie(
     languageDetected: frontendBatchInput.languageDetected,
     summary: frontendBatchInput.summary,
     callStatus: callStatusToEnum(frontendBatchInput.callStatus),
-    offTopicCount: BigInt(Math.floor(frontendBatchInput.offTopicCount || 0))
+    offTopicCount: BigInt(Math.floor(frontendBatchInput.offTopicCount || 0)),
+    quantity: toOnChainQuantity(parseFloat(collectedData.harvestQuantity))
   };
 
   // Step 3: Register on blockchain
@@ -187,41 +197,37 @@ export async function registerBatchFromVoiceGenie(
   });
   
   // Get provider and contract
-  if (!signer) {
+  if (!signer?.provider) {
     throw new Error('Signer required for blockchain registration. Please connect wallet.');
   }
+  const chainId = Number((await signer.provider.getNetwork()).chainId);
+  const { contractAddress } = networkRegistry.requireDeployment(chainId);
 
-  const contract = new ethers.Contract(CONTRACT_ADDRESS, AgriTraceABI.abi, signer);
-  
   try {
     // Step 3: Register on blockchain with converted types
-    const tx = await contract.registerBatch(contractBatchInput);
-    logger.debug('Transaction submitted', { hash: tx.hash });
-    
-    const receipt = await tx.wait();
+    let receipt;
+    if (farmerSigner && metaTransactionRelayer.isEnabled()) {
+      // The farmer's key signs the request and the helper's wallet relays it and pays gas
+      const farmerAddress = await farmerSigner.getAddress();
+      if (!(await hasRoleOnContract('FARMER_ROLE', farmerAddress, signer.provider))) {
+        throw new Error(`Farmer wallet ${farmerAddress} does not have FARMER_ROLE on the contract`);
+      }
+
+      const relayed = await metaTransactionRelayer.forward(farmerSigner, signer, 'registerBatch', [contractBatchInput]);
+      logger.debug('Registration relayed for farmer', { hash: relayed.transactionHash, farmer: farmerAddress });
+      receipt = relayed.receipt;
+    } else {
+      const contract = getContractInstance(signer.provider, signer, chainId);
+      const tx = await contract.registerBatch(contractBatchInput);
+      logger.debug('Transaction submitted', { hash: tx.hash });
+
+      receipt = await tx.wait();
+    }
     logger.debug('Blockchain transaction confirmed');
 
     // Extract batch ID from receipt
     const batchId = extractBatchIdFromReceipt(receipt);
     logger.debug('Extracted batch ID', { batchId });
-    
-    // Record harvest transaction on blockchain
-    try {
-      blockchainTransactionManager.updateSigner(signer);
-      await blockchainTransactionManager.recordHarvestTransaction(
-        batchId.toString(),
-        await signer.getAddress(),
-        collectedData.cropType,
-        collectedData.variety,
-        collectedData.harvestQuantity,
-        collectedData.pricePerKg,
-        ipfsHash
-      );
-      logger.debug('Harvest transaction recorded');
-    } catch (blockchainError) {
-      logger.warn('Failed to record harvest transaction', blockchainError);
-      // Continue even if this fails
-    }
 
     // Step 4: Save to database (after blockchain success)
     const batchData = {
@@ -262,6 +268,13 @@ export async function registerBatchFromVoiceGenie(
 
     logger.debug('Batch saved to database', { batchId: batch.id });
 
+    try {
+      await networkRegistry.linkBatch(batch.id, { chainId, contractAddress, blockchainBatchId: Number(batchId) });
+    } catch (linkError) {
+      logger.warn('Failed to link batch to deployment', linkError);
+      // Don't fail the whole process
+    }
+
     // Step 5: Add to marketplace
     const marketplaceData = {
       batch_id: batch.id,
@@ -305,6 +318,7 @@ interface FarmerProfile {
   phone: string;
   full_name: string;
   farm_location?: string | null;
+  wallet_address?: string | null;
   user_type: string;
   role: string;
   email: string;
@@ -329,7 +343,7 @@ async function getOrCreateFarmerProfile(
 
   if (existingProfile) {
     logger.debug('Found existing profile', { profileId: existingProfile.id });
-    return existingProfile as FarmerProfile;
+    return ensureCustodialWallet(existingProfile as FarmerProfile);
   }
 
   // Create profile without auth user (user_id will be NULL for VoiceGenie farmers)
@@ -363,7 +377,7 @@ async function getOrCreateFarmerProfile(
         .maybeSingle();
       if (existing) {
         logger.debug('Found existing profile after conflict', { profileId: existing.id });
-        return existing as FarmerProfile;
+        return ensureCustodialWallet(existing as FarmerProfile);
       }
     }
     logger.error('Error creating profile', profileError);
@@ -375,7 +389,25 @@ async function getOrCreateFarmerProfile(
   }
 
   logger.debug('Created new VoiceGenie profile', { profileId: newProfile.id });
-  return newProfile as FarmerProfile;
+  return ensureCustodialWallet(newProfile as FarmerProfile);
+}
+
+/**
+ * Give a phone-only farmer a custodial wallet so on-chain records carry their own address.
+ * Registration continues without one if the vault is unavailable.
+ */
+async function ensureCustodialWallet(profile: FarmerProfile): Promise<FarmerProfile> {
+  if (profile.wallet_address) {
+    return profile;
+  }
+
+  try {
+    const address = await walletVaultService.ensureWallet(profile.id);
+    return { ...profile, wallet_address: address };
+  } catch (error) {
+    logger.warn('Could not create custodial wallet for farmer', { profileId: profile.id, error: sanitizeError(error) });
+    return profile;
+  }
 }
 
 interface TransactionReceipt {
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, AlertTriangle, ArrowDown, Network } from 'lucide-react';
+import { networkRegistry, BatchChainLink } from '@/features/blockchain/utils/networkRegistry';
+import { contractMigrator } from '@/features/blockchain/utils/contractMigrator';
+import { logger } from '@/lib/logger';
+
+interface BatchDeploymentTrailProps {
+  batchId: string;
+}
+
+interface TrailEntry {
+  link: BatchChainLink;
+  // Migrated links are checked against the migratedFrom record on the new contract
+  verified: boolean | null;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/**
+ * Deployments a batch has lived on, with each migration checked against the new contract's on-chain record
+ */
+export const BatchDeploymentTrail: React.FC<BatchDeploymentTrailProps> = ({ batchId }) => {
+  const [entries, setEntries] = useState<TrailEntry[]>([]);
+
+  useEffect(() => {
+    loadTrail();
+  }, [batchId]);
+
+  const loadTrail = async () => {
+    try {
+      const links = await networkRegistry.getBatchLinks(batchId);
+      const checked = await Promise.all(links.map(async (link, index): Promise<TrailEntry> => {
+        if (link.source !== 'migrated') {
+          return { link, verified: null };
+        }
+        try {
+          const legacy = await contractMigrator.getLegacyReference({
+            chainId: link.chain_id,
+            contractAddress: link.contract_address,
+            blockchainBatchId: link.blockchain_batch_id
+          }, networkRegistry.getReadOnlyProvider(link.chain_id));
+          const previous = links.slice(0, index);
+          const verified = !!legacy && previous.some(candidate =>
+            candidate.chain_id === legacy.chainId &&
+            candidate.blockchain_batch_id === legacy.batchId &&
+            ethers.getAddress(candidate.contract_address) === ethers.getAddress(legacy.contractAddress)
+          );
+          return { link, verified };
+        } catch (error) {
+          logger.warn('Could not verify batch migration on-chain', { batchId, error });
+          return { link, verified: false };
+        }
+      }));
+      setEntries(checked);
+    } catch (error) {
+      logger.error('Error loading batch deployment trail:', error);
+      setEntries([]);
+    }
+  };
+
+  // A batch that never moved has nothing to show beyond its regular on-chain details
+  if (entries.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Network className="h-5 w-5" />
+          <span>Deployment History</span>
+        </CardTitle>
+        <CardDescription>
+          This batch was moved between AgriTrace contracts; its history above covers every deployment
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map(({ link, verified }, index) => (
+          <div key={link.id}>
+            {index > 0 && <ArrowDown className="h-4 w-4 mx-auto text-muted-foreground mb-2" />}
+            <div className="border rounded-lg p-3 flex items-center justify-between text-sm">
+              <div>
+                <p className="font-medium">
+                  {networkRegistry.getNetworkByChainId(link.chain_id)?.name || `Chain ${link.chain_id}`} · batch #{link.blockchain_batch_id}
+                </p>
+                <p className="font-mono text-xs text-muted-foreground">{shortAddress(link.contract_address)}</p>
+              </div>
+              {link.source === 'migrated' ? (
+                verified ? (
+                  <Badge className="bg-green-100 text-green-800" variant="secondary">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Migration verified on-chain
+                  </Badge>
+                ) : (
+                  <Badge className="bg-yellow-100 text-yellow-800" variant="secondary">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    Migration not verified
+                  </Badge>
+                )
+              ) : (
+                <Badge variant="outline">Registered</Badge>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
+import { queryKeys } from '@/lib/queryKeys';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, ExternalLink, CheckCircle, AlertCircle, Clock } from 'lucide-react';
-import { blockchainTransactionManager, BlockchainTransaction } from '@/features/blockchain/utils/blockchainTransactionManager';
+import { blockchainTransactionManager, BlockchainTransactionManager, BlockchainTransaction } from '@/features/blockchain/utils/blockchainTransactionManager';
+import { getReadOnlyProvider } from '@/features/blockchain/utils/contractUtils';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
 import { ethers } from 'ethers';
 
 interface BlockchainTransactionHistoryProps {
@@ -16,32 +20,28 @@ export const BlockchainTransactionHistory: React.FC<BlockchainTransactionHistory
   batchId,
   className = ''
 }) => {
-  const [transactions, setTransactions] = useState<BlockchainTransaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchTransactionHistory();
-  }, [batchId]);
-
-  const fetchTransactionHistory = async () => {
+  const fetchTransactionHistory = async (): Promise<BlockchainTransaction[]> => {
+    logger.debug('🔍 DEBUG: Fetching blockchain transaction history for batch:', batchId);
     try {
-      setLoading(true);
-      setError(null);
-      
-      logger.debug('🔍 DEBUG: Fetching blockchain transaction history for batch:', batchId);
-      const history = await blockchainTransactionManager.getBatchTransactionHistory(batchId);
-      
+      // History comes from the indexed chain_events table, so a wallet is not required to view it
+      const manager = blockchainTransactionManager || new BlockchainTransactionManager(getReadOnlyProvider());
+      const history = await manager.getBatchTransactionHistory(batchId);
+
       logger.debug('🔍 DEBUG: Blockchain transaction history:', history);
-      setTransactions(history);
+      return history;
     } catch (err) {
       logger.error('Error fetching blockchain transaction history:', err);
-      setError('Failed to fetch transaction history from blockchain');
-    } finally {
-      setLoading(false);
+      throw new Error('Failed to fetch transaction history from blockchain');
     }
   };
 
+  // Cached per batch so live contract events refresh it once they are indexed
+  const { data: transactions = [], isLoading: loading, error: queryError, refetch } = useQuery({
+    queryKey: queryKeys.batchHistory(batchId),
+    queryFn: fetchTransactionHistory
+  });
+  const error = queryError ? queryError.message : null;
+
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case 'HARVEST':
@@ -77,10 +77,11 @@ export const BlockchainTransactionHistory: React.FC<BlockchainTransactionHistory
     return new Date(timestamp).toLocaleString();
   };
 
-  const openTransactionInExplorer = (txHash: string) => {
-    // You can customize this URL based on your blockchain network
-    const explorerUrl = `https://megaeth.org/tx/${txHash}`;
-    window.open(explorerUrl, '_blank');
+  const openTransactionInExplorer = (tx: BlockchainTransaction) => {
+    const explorerUrl = networkRegistry.getExplorerTxUrl(tx.chainId ?? networkRegistry.getActiveChainId(), tx.transactionHash);
+    if (explorerUrl) {
+      window.open(explorerUrl, '_blank');
+    }
   };
 
   if (loading) {
@@ -117,7 +118,7 @@ export const BlockchainTransactionHistory: React.FC<BlockchainTransactionHistory
           <div className="text-center py-8">
             <AlertCircle className="h-8 w-8 mx-auto mb-2 text-red-600" />
             <p className="text-sm text-red-600 mb-4">{error}</p>
-            <Button onClick={fetchTransactionHistory} variant="outline" size="sm">
+            <Button onClick={() => refetch()} variant="outline" size="sm">
               Retry
             </Button>
           </div>
@@ -150,7 +151,7 @@ export const BlockchainTransactionHistory: React.FC<BlockchainTransactionHistory
             <CheckCircle className="h-5 w-5 text-green-600" />
             Blockchain Transaction History
           </CardTitle>
-          <Button onClick={fetchTransactionHistory} variant="outline" size="sm">
+          <Button onClick={() => refetch()} variant="outline" size="sm">
             Refresh
           </Button>
         </div>
@@ -170,12 +171,13 @@ export const BlockchainTransactionHistory: React.FC<BlockchainTransactionHistory
                   </Badge>
                   <span className="text-sm text-muted-foreground">
                     Block #{tx.blockNumber}
+                    {tx.chainId !== undefined && ` · ${networkRegistry.getNetworkByChainId(tx.chainId)?.name || `Chain ${tx.chainId}`}`}
                   </span>
                 </div>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => openTransactionInExplorer(tx.transactionHash)}
+                  onClick={() => openTransactionInExplorer(tx)}
                 >
                   <ExternalLink className="h-3 w-3 mr-1" />
                   View on Explorer
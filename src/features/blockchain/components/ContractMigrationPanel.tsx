@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, ArrowRight, DatabaseZap, RefreshCw } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { useAuth } from '@/contexts/AuthContext';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import {
+  contractMigrator,
+  ContractMigration,
+  BatchMigration,
+  BatchMigrationProgress
+} from '@/features/blockchain/utils/contractMigrator';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+const STATUS_STYLES: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  migrated: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-800'
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+const networkName = (chainId: number) => networkRegistry.getNetworkByChainId(chainId)?.name || `Chain ${chainId}`;
+
+/**
+ * Move every batch from a previous AgriTrace deployment to the connected network's deployment
+ */
+export const ContractMigrationPanel: React.FC = () => {
+  const { signer, isConnected, chainId, isSupportedNetwork } = useWeb3();
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [sourceChainId, setSourceChainId] = useState<string>(String(chainId ?? networkRegistry.getActiveChainId()));
+  const [sourceContract, setSourceContract] = useState('');
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<BatchMigrationProgress | null>(null);
+  const [migrations, setMigrations] = useState<ContractMigration[]>([]);
+  const [selected, setSelected] = useState<ContractMigration | null>(null);
+  const [batchRows, setBatchRows] = useState<BatchMigration[]>([]);
+
+  useEffect(() => {
+    loadMigrations();
+  }, []);
+
+  const loadMigrations = async () => {
+    try {
+      setMigrations(await contractMigrator.getMigrations());
+    } catch (error) {
+      logger.error('Error loading contract migrations', error);
+    }
+  };
+
+  const showMigration = async (migration: ContractMigration) => {
+    setSelected(migration);
+    try {
+      setBatchRows(await contractMigrator.getBatchMigrations(migration.id));
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not load batch mapping', description: sanitizeError(error) });
+    }
+  };
+
+  const handleMigrate = async (source: { chainId: number; contractAddress: string }) => {
+    if (!signer) return;
+
+    setRunning(true);
+    setProgress(null);
+    try {
+      const migration = await contractMigrator.migrate(signer, source, user?.email || profile?.id || 'admin', setProgress);
+      toast({
+        variant: migration.failed_count > 0 ? 'destructive' : 'default',
+        title: migration.failed_count > 0 ? 'Migration finished with failures' : 'Migration complete',
+        description: `${migration.migrated_count} migrated, ${migration.failed_count} failed. Run it again to retry failed batches.`
+      });
+      await loadMigrations();
+      await showMigration(migration);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Migration failed', description: sanitizeError(error) });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const target = chainId !== null ? networkRegistry.getDeployment(chainId) : null;
+  const sourceValid = ethers.isAddress(sourceContract);
+
+  return (
+    <Card className="govt-card shadow-large">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <DatabaseZap className="h-5 w-5" />
+              Contract Migration
+            </CardTitle>
+            <CardDescription>
+              Re-register every batch from a previous deployment on the connected network's contract, keeping owners and balances.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadMigrations} disabled={running}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(!isConnected || !isSupportedNetwork) && (
+          <p className="text-sm text-orange-700">Connect the admin wallet on the network that holds the new deployment.</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto_1fr] gap-3 items-end">
+          <div>
+            <Label>Source network</Label>
+            <Select value={sourceChainId} onValueChange={setSourceChainId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {networkRegistry.getNetworks().map(network => (
+                  <SelectItem key={network.key} value={String(network.chainId)}>{network.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="source-contract">Old contract address</Label>
+            <Input
+              id="source-contract"
+              placeholder="0x…"
+              value={sourceContract}
+              onChange={e => setSourceContract(e.target.value.trim())}
+            />
+          </div>
+          <ArrowRight className="h-5 w-5 mb-2 text-muted-foreground hidden md:block" />
+          <div className="text-sm">
+            <Label>Target</Label>
+            <p className="font-mono text-xs mt-2">
+              {target && chainId !== null ? `${networkName(chainId)} · ${shortAddress(target.contractAddress)}` : 'No deployment on connected network'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <Button
+            onClick={() => handleMigrate({ chainId: Number(sourceChainId), contractAddress: sourceContract })}
+            disabled={!isConnected || !target || !sourceValid || running}
+          >
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <DatabaseZap className="h-4 w-4 mr-2" />}
+            Start or resume migration
+          </Button>
+          {progress && (
+            <div className="flex-1 space-y-1">
+              <Progress value={progress.total > 0 ? ((progress.oldBatchId + 1) / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground font-mono">
+                Batch #{progress.oldBatchId} of {progress.total}: {progress.state}
+                {progress.newBatchId !== undefined && ` → #${progress.newBatchId}`}
+                {progress.transactionHash && ` · ${shortAddress(progress.transactionHash)}`}
+                {progress.error && <span className="text-red-600"> {progress.error}</span>}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Migrated</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {migrations.map(migration => (
+              <TableRow
+                key={migration.id}
+                className={`cursor-pointer ${selected?.id === migration.id ? 'bg-muted' : ''}`}
+                onClick={() => showMigration(migration)}
+              >
+                <TableCell className="text-xs">{migration.started_at ? new Date(migration.started_at).toLocaleString() : '—'}</TableCell>
+                <TableCell className="font-mono text-xs">{networkName(migration.source_chain_id)} · {shortAddress(migration.source_contract)}</TableCell>
+                <TableCell className="font-mono text-xs">{networkName(migration.target_chain_id)} · {shortAddress(migration.target_contract)}</TableCell>
+                <TableCell>{migration.migrated_count} / {migration.total_batches}{migration.failed_count > 0 && ` (${migration.failed_count} failed)`}</TableCell>
+                <TableCell><Badge className={STATUS_STYLES[migration.status] || ''} variant="secondary">{migration.status}</Badge></TableCell>
+              </TableRow>
+            ))}
+            {migrations.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">No migrations yet.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {selected && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Batch ID mapping</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Old ID</TableHead>
+                  <TableHead>New ID</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Transaction</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batchRows.map(row => {
+                  const url = row.transaction_hash ? networkRegistry.getExplorerTxUrl(selected.target_chain_id, row.transaction_hash) : null;
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-mono">#{row.old_batch_id}</TableCell>
+                      <TableCell className="font-mono">{row.new_batch_id !== null ? `#${row.new_batch_id}` : '—'}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[row.status] || ''} variant="secondary">{row.status}</Badge>
+                        {row.error && <span className="text-xs text-red-600 ml-2">{row.error}</span>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {row.transaction_hash
+                          ? url
+                            ? <a href={url} target="_blank" rel="noopener noreferrer" className="hover:text-primary">{shortAddress(row.transaction_hash)}</a>
+                            : shortAddress(row.transaction_hash)
+                          : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
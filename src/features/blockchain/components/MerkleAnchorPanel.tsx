@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { logger } from '@/lib/logger';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, Anchor } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { merkleAnchorService } from '@/features/blockchain/utils/merkleAnchorService';
+import { sanitizeError } from '@/lib/security';
+
+/**
+ * Shows how many transactions are waiting for an on-chain anchor and lets an operator anchor them now
+ */
+export const MerkleAnchorPanel: React.FC = () => {
+  const { signer, isConnected } = useWeb3();
+  const { toast } = useToast();
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [anchoring, setAnchoring] = useState(false);
+
+  useEffect(() => {
+    fetchPendingCount();
+  }, []);
+
+  const fetchPendingCount = async () => {
+    try {
+      const pending = await merkleAnchorService.getPendingTransactions();
+      setPendingCount(pending.length);
+    } catch (error) {
+      logger.error('Error fetching pending anchor count:', error);
+      setPendingCount(null);
+    }
+  };
+
+  const handleAnchor = async () => {
+    if (!signer) return;
+
+    setAnchoring(true);
+    try {
+      const result = await merkleAnchorService.anchorPendingTransactions(signer);
+      toast({
+        title: result ? 'Transactions anchored' : 'Nothing to anchor',
+        description: result
+          ? `${result.leafCount} transactions anchored in tx ${result.anchorTxHash.slice(0, 10)}...`
+          : 'All transactions are already anchored.'
+      });
+      await fetchPendingCount();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Anchoring failed', description: sanitizeError(error) });
+    } finally {
+      setAnchoring(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <span className="text-sm">Pending transaction anchors</span>
+        <Badge variant="secondary">{pendingCount ?? '-'}</Badge>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAnchor}
+        disabled={!isConnected || anchoring || !pendingCount}
+      >
+        {anchoring ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Anchor className="h-4 w-4 mr-1" />}
+        Anchor Now
+      </Button>
+    </div>
+  );
+};
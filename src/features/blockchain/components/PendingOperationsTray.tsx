@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/components/ui/use-toast';
+import { Activity, Loader2, Zap, X, ExternalLink } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { transactionTracker, BlockchainOperation } from '@/features/blockchain/utils/transactionTracker';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import { sanitizeError } from '@/lib/security';
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-green-100 text-green-800',
+  reverted: 'bg-red-100 text-red-800',
+  dropped: 'bg-gray-100 text-gray-800',
+  replaced: 'bg-yellow-100 text-yellow-800'
+};
+
+const PURPOSE_LABELS: Record<string, string> = {
+  registerBatch: 'Register batch',
+  transferBatch: 'Transfer batch',
+  transferQuantity: 'Transfer quantity',
+  setApprovalForAll: 'Operator approval',
+  updatePrice: 'Update price',
+  tipFarmer: 'Tip farmer',
+  migrateBatch: 'Migrate batch'
+};
+
+/**
+ * Header tray listing the connected account's pending and recent blockchain operations
+ */
+export const PendingOperationsTray: React.FC = () => {
+  const { signer, isConnected } = useWeb3();
+  const { toast } = useToast();
+  const [operations, setOperations] = useState<BlockchainOperation[]>([]);
+  const [speedingUp, setSpeedingUp] = useState<string | null>(null);
+
+  useEffect(() => transactionTracker.subscribe(setOperations), []);
+
+  const handleSpeedUp = async (operation: BlockchainOperation) => {
+    if (!signer) return;
+
+    setSpeedingUp(operation.id);
+    try {
+      const hash = await transactionTracker.speedUp(signer, operation);
+      toast({ title: 'Replacement sent', description: `Resent with higher gas: ${hash.slice(0, 10)}...` });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Speed up failed', description: sanitizeError(error) });
+    } finally {
+      setSpeedingUp(null);
+    }
+  };
+
+  if (!isConnected) {
+    return null;
+  }
+
+  const pendingCount = operations.filter(operation => operation.status === 'pending').length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Blockchain operations">
+          {pendingCount > 0 ? <Loader2 className="h-4 w-4 animate-spin" /> : <Activity className="h-4 w-4" />}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 rounded-full bg-primary text-primary-foreground text-[10px] h-4 min-w-4 px-1 flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-semibold text-sm">Blockchain operations</h4>
+          <span className="text-xs text-muted-foreground">{pendingCount} pending</span>
+        </div>
+        {operations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recent transactions.</p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {operations.map(operation => {
+              const url = networkRegistry.getExplorerTxUrl(operation.chain_id, operation.transaction_hash);
+              return (
+                <div key={operation.id} className="border rounded-md p-2 text-xs space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {PURPOSE_LABELS[operation.purpose] || operation.purpose}
+                      {operation.batch_id && <span className="text-muted-foreground"> · batch #{operation.batch_id}</span>}
+                    </span>
+                    <Badge className={STATUS_STYLES[operation.status] || ''} variant="secondary">{operation.status}</Badge>
+                  </div>
+                  <div className="flex items-center justify-between font-mono text-muted-foreground">
+                    <span>
+                      {operation.transaction_hash.slice(0, 10)}… · nonce {operation.nonce}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                      {operation.status !== 'pending' && (
+                        <button onClick={() => transactionTracker.dismiss(operation.id)} className="hover:text-primary" aria-label="Dismiss">
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  {operation.replaced_by_hash && (
+                    <p className="font-mono">Replaced by {operation.replaced_by_hash.slice(0, 10)}…</p>
+                  )}
+                  {operation.error && <p className="text-red-600">{operation.error}</p>}
+                  {operation.status === 'pending' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => handleSpeedUp(operation)}
+                      disabled={speedingUp !== null}
+                    >
+                      {speedingUp === operation.id ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Zap className="h-3 w-3 mr-1" />}
+                      Speed up
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
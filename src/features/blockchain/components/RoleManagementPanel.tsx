@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, RefreshCw, ShieldCheck, ShieldPlus, ShieldMinus, CheckCircle, XCircle } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { useAuth } from '@/contexts/AuthContext';
+import { getReadOnlyProvider } from '@/features/blockchain/utils/contractUtils';
+import {
+  roleManager,
+  RoleSyncEntry,
+  RoleSyncStatus,
+  RoleChange,
+  RoleChangeProgress,
+  ContractRole
+} from '@/features/blockchain/utils/roleManager';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+const STATUS_LABELS: Record<RoleSyncStatus, string> = {
+  in_sync: 'In sync',
+  missing_role: 'Missing role',
+  unexpected_role: 'Unexpected role',
+  no_wallet: 'No wallet',
+  unknown_holder: 'No profile'
+};
+
+const ROLE_LABELS: Record<ContractRole, string> = {
+  FARMER_ROLE: 'Farmer',
+  DISTRIBUTOR_ROLE: 'Distributor',
+  RETAILER_ROLE: 'Retailer'
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+const changeKey = (change: RoleChange) => `${change.action}:${change.role}:${change.address}`;
+
+/**
+ * Profiles compared with their on-chain roles, with single and bulk grant/revoke from the admin wallet
+ */
+export const RoleManagementPanel: React.FC = () => {
+  const { signer, isConnected } = useWeb3();
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<RoleSyncEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [mismatchesOnly, setMismatchesOnly] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<Record<string, RoleChangeProgress>>({});
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      setEntries(await roleManager.getRoleSyncReport(signer?.provider || getReadOnlyProvider()));
+      setSelected(new Set());
+    } catch (error) {
+      logger.error('Error loading role report', error);
+      toast({ variant: 'destructive', title: 'Could not load roles', description: sanitizeError(error) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyChanges = async (changes: RoleChange[]) => {
+    if (!signer || changes.length === 0) return;
+
+    setApplying(true);
+    try {
+      const results = await roleManager.applyChanges(
+        signer,
+        changes,
+        user?.email || profile?.id || 'admin',
+        (_, update) => setProgress(current => ({ ...current, [changeKey(update.change)]: update }))
+      );
+      const failed = results.filter(result => result.state === 'failed').length;
+      toast({
+        variant: failed > 0 ? 'destructive' : 'default',
+        title: failed > 0 ? 'Some role changes failed' : 'Roles updated',
+        description: `${results.length - failed} of ${results.length} change(s) confirmed on-chain`
+      });
+      await loadReport();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Role update failed', description: sanitizeError(error) });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const toggleSelected = (key: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const fixable = entries.filter(entry => roleManager.getFixes(entry).length > 0);
+  const inSyncCount = entries.filter(entry => entry.status === 'in_sync').length;
+  const visible = mismatchesOnly ? entries.filter(entry => entry.status !== 'in_sync') : entries;
+  const selectedChanges = entries
+    .filter(entry => selected.has(entry.key))
+    .flatMap(entry => roleManager.getFixes(entry));
+
+  const renderProgress = (change: RoleChange) => {
+    const state = progress[changeKey(change)];
+    if (!state) return null;
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-mono">
+        {state.state === 'confirmed' && <CheckCircle className="h-3 w-3 text-green-600" />}
+        {state.state === 'failed' && <XCircle className="h-3 w-3 text-red-600" />}
+        {(state.state === 'pending' || state.state === 'submitted') && <Loader2 className="h-3 w-3 animate-spin" />}
+        {state.transactionHash ? shortAddress(state.transactionHash) : state.state}
+        {state.error && <span className="text-red-600">{state.error}</span>}
+      </span>
+    );
+  };
+
+  return (
+    <Card className="govt-card shadow-large">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              On-chain Roles
+            </CardTitle>
+            <CardDescription>
+              Profiles compared with the roles their wallets hold on the contract.
+              {' '}{inSyncCount} in sync, {entries.length - inSyncCount} mismatched.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={mismatchesOnly} onCheckedChange={setMismatchesOnly} />
+              Mismatches only
+            </label>
+            <Button variant="outline" size="sm" onClick={loadReport} disabled={loading || applying}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => applyChanges(selectedChanges)}
+              disabled={!isConnected || applying || selectedChanges.length === 0}
+            >
+              {applying ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <ShieldPlus className="h-4 w-4 mr-1" />}
+              Apply {selectedChanges.length} change(s)
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!isConnected && (
+          <p className="text-sm text-orange-700 mb-4">Connect the contract admin wallet to grant or revoke roles.</p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={fixable.length > 0 && fixable.every(entry => selected.has(entry.key))}
+                  onCheckedChange={checked => setSelected(checked === true ? new Set(fixable.map(entry => entry.key)) : new Set())}
+                />
+              </TableHead>
+              <TableHead>Profile</TableHead>
+              <TableHead>Wallet</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead>On-chain</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map(entry => {
+              const fixes = roleManager.getFixes(entry);
+              return (
+                <TableRow key={entry.key}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(entry.key)}
+                      disabled={fixes.length === 0}
+                      onCheckedChange={checked => toggleSelected(entry.key, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{entry.name || 'Unknown'}</div>
+                    <div className="text-xs text-muted-foreground">{entry.userType || '—'}</div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.address ? shortAddress(entry.address) : '—'}</TableCell>
+                  <TableCell>{entry.expectedRole ? ROLE_LABELS[entry.expectedRole] : '—'}</TableCell>
+                  <TableCell className="space-x-1">
+                    {entry.onChainRoles.length > 0
+                      ? entry.onChainRoles.map(role => <Badge key={role} variant="outline">{ROLE_LABELS[role]}</Badge>)
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={entry.status === 'in_sync' ? 'secondary' : 'destructive'}>{STATUS_LABELS[entry.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="space-y-1">
+                    {fixes.map(change => (
+                      <div key={changeKey(change)} className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => applyChanges([change])}
+                          disabled={!isConnected || applying}
+                        >
+                          {change.action === 'grant'
+                            ? <ShieldPlus className="h-3 w-3 mr-1" />
+                            : <ShieldMinus className="h-3 w-3 mr-1" />}
+                          {change.action === 'grant' ? 'Grant' : 'Revoke'} {ROLE_LABELS[change.role]}
+                        </Button>
+                        {renderProgress(change)}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {visible.length === 0 && !loading && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-sm text-muted-foreground">
+                  {mismatchesOnly ? 'Every profile matches its on-chain roles.' : 'No profiles found.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
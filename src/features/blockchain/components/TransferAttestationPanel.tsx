@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, PenLine, CheckCircle, XCircle } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { useAuth } from '@/contexts/AuthContext';
+import { transactionManager } from '@/features/blockchain/utils/transactionManager';
+import {
+  transferAttestationService,
+  AttestationVerification,
+  ATTESTED_TRANSACTION_TYPES
+} from '@/features/blockchain/utils/transferAttestation';
+import { SupplyChainTransaction } from '@/types/transaction';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+interface TransferAttestationPanelProps {
+  batchId: string;
+}
+
+const UNVERIFIED: AttestationVerification = { status: 'unsigned', sellerVerified: false, buyerVerified: false, errors: [] };
+
+const formatSigner = (address?: string) => (address ? `${address.slice(0, 6)}…${address.slice(-4)}` : 'unknown');
+
+/**
+ * One-line summary of who signed a transfer, taken from the recovered signatures
+ */
+export const describeAttestation = (verification: AttestationVerification): string => {
+  switch (verification.status) {
+    case 'signed':
+      return `Signed by seller ${formatSigner(verification.sellerAddress)} and buyer ${formatSigner(verification.buyerAddress)}`;
+    case 'partial':
+      return verification.sellerVerified
+        ? `Signed by seller ${formatSigner(verification.sellerAddress)}, awaiting buyer ${formatSigner(verification.buyerAddress)}`
+        : verification.buyerVerified
+          ? `Signed by buyer ${formatSigner(verification.buyerAddress)}, awaiting seller ${formatSigner(verification.sellerAddress)}`
+          : 'Awaiting signatures';
+    case 'invalid':
+      return 'Signature check failed';
+    default:
+      return 'Not signed by either party';
+  }
+};
+
+/**
+ * Signed transfer attestations for a batch, with a sign action for a party that has not signed yet
+ */
+export const TransferAttestationPanel: React.FC<TransferAttestationPanelProps> = ({ batchId }) => {
+  const { signer, isConnected } = useWeb3();
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [transfers, setTransfers] = useState<SupplyChainTransaction[]>([]);
+  const [verifications, setVerifications] = useState<Record<string, AttestationVerification>>({});
+  const [signingId, setSigningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [batchId]);
+
+  const fetchTransfers = async () => {
+    try {
+      const stored = await transactionManager.getStoredTransactions(batchId);
+      const attested = stored.filter(transaction => ATTESTED_TRANSACTION_TYPES.includes(transaction.type));
+      setVerifications(Object.fromEntries(await Promise.all(
+        attested.map(async transaction => [transaction.transactionId, await transferAttestationService.verifyAttestation(transaction)])
+      )));
+      setTransfers(attested);
+    } catch (error) {
+      logger.error('Error fetching transfers for attestation:', error);
+      setTransfers([]);
+      setVerifications({});
+    }
+  };
+
+  const handleSign = async (transaction: SupplyChainTransaction, role: 'seller' | 'buyer') => {
+    if (!signer) return;
+
+    setSigningId(transaction.transactionId);
+    try {
+      await transferAttestationService.signTransfer(signer, transaction.transactionId, role);
+      toast({ title: 'Transfer signed', description: `Your ${role} attestation has been recorded.` });
+      await fetchTransfers();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Signing failed', description: sanitizeError(error) });
+    } finally {
+      setSigningId(null);
+    }
+  };
+
+  if (transfers.length === 0) {
+    return <p className="text-sm text-muted-foreground">No transfers recorded for this batch yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {transfers.map(transaction => {
+        const verification = verifications[transaction.transactionId] ?? UNVERIFIED;
+        const pendingRole = profile?.id ? transferAttestationService.getPendingRole(transaction, profile.id) : null;
+
+        return (
+          <div key={transaction.transactionId} className="border rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline">{transaction.type}</Badge>
+                <span>{transaction.quantity} kg · ₹{transaction.price}</span>
+              </div>
+              {verification.status === 'signed' ? (
+                <Badge className="bg-green-600">
+                  <CheckCircle className="h-3 w-3 mr-1" />
+                  Signed
+                </Badge>
+              ) : verification.status === 'invalid' ? (
+                <Badge variant="destructive">
+                  <XCircle className="h-3 w-3 mr-1" />
+                  Invalid
+                </Badge>
+              ) : (
+                <Badge variant="secondary">Awaiting signatures</Badge>
+              )}
+            </div>
+            <p className="mt-2 font-mono text-xs">{describeAttestation(verification)}</p>
+            {transaction.attestation?.ipfsHash && (
+              <p className="mt-1 font-mono text-xs text-muted-foreground break-all">
+                Attestation IPFS: {transaction.attestation.ipfsHash}
+              </p>
+            )}
+            {verification.errors.length > 0 && (
+              <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+                {verification.errors.map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+            {pendingRole && (
+              <Button
+                className="mt-2"
+                variant="outline"
+                size="sm"
+                onClick={() => handleSign(transaction, pendingRole)}
+                disabled={!isConnected || signingId !== null}
+              >
+                {signingId === transaction.transactionId
+                  ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  : <PenLine className="h-4 w-4 mr-1" />}
+                Sign as {pendingRole}
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,9 +1,15 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { logger } from '@/lib/logger';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESS, NETWORK_CONFIG, DEFAULT_NETWORK } from '@/contracts/config';
+import { useQueryClient } from '@tanstack/react-query';
+import { DEFAULT_NETWORK, NetworkDefinition } from '@/contracts/config';
 import AgriTraceABI from '@/contracts/AgriTrace.json';
 import { initializeBlockchainManager, clearBlockchainManager } from '@/features/blockchain/utils/blockchainTransactionManager';
+import { transactionTracker } from '@/features/blockchain/utils/transactionTracker';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import { contractEventSubscriber, LiveEventUpdate } from '@/features/blockchain/utils/contractEventSubscriber';
+import { queryKeys } from '@/lib/queryKeys';
+import { supabase } from '@/integrations/supabase/client';
 
 interface Web3ContextType {
   provider: ethers.BrowserProvider | null;
@@ -16,6 +22,9 @@ interface Web3ContextType {
   disconnectWallet: () => void;
   switchNetwork: (networkName: string) => Promise<void>;
   currentNetwork: string;
+  chainId: number | null;
+  // False while the wallet is on a chain without an AgriTrace deployment; contract is null then
+  isSupportedNetwork: boolean;
 }
 
 const Web3Context = createContext<Web3ContextType | undefined>(undefined);
@@ -28,6 +37,52 @@ export const useWeb3 = () => {
   return context;
 };
 
+/**
+ * Ask the wallet to switch to a registered network, adding it first if the wallet does not know it
+ */
+const requestChain = async (network: NetworkDefinition): Promise<boolean> => {
+  const chainIdHex = `0x${network.chainId.toString(16)}`;
+  try {
+    await window.ethereum.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: chainIdHex }],
+    });
+    logger.debug('Switched to', network.name);
+    return true;
+  } catch (switchError: any) {
+    // If the network doesn't exist, add it
+    if (switchError.code === 4902) {
+      try {
+        await window.ethereum.request({
+          method: 'wallet_addEthereumChain',
+          params: [
+            {
+              chainId: chainIdHex,
+              chainName: network.name,
+              rpcUrls: network.rpcUrls,
+              blockExplorerUrls: network.blockExplorer ? [network.blockExplorer] : undefined,
+              nativeCurrency: network.nativeCurrency,
+            },
+          ],
+        });
+        logger.debug('Added', network.name);
+        return true;
+      } catch (addError) {
+        logger.error('Error adding network:', addError);
+        alert(`Failed to add ${network.name}. Please add it manually in MetaMask:\n\nNetwork Name: ${network.name}\nRPC URL: ${network.rpcUrls[0] || ''}\nChain ID: ${network.chainId}\nCurrency Symbol: ${network.nativeCurrency.symbol}`);
+      }
+    } else if (switchError.code === -32002) {
+      logger.debug('Network switch request already pending, waiting...');
+      // Wait a bit for the pending request
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    } else {
+      logger.error('Network switch error:', switchError);
+      alert(`Failed to switch to ${network.name}. Please switch manually in MetaMask (Chain ID: ${network.chainId})`);
+    }
+    return false;
+  }
+};
+
 interface Web3ProviderProps {
   children: ReactNode;
 }
@@ -39,7 +94,9 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
   const [account, setAccount] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [currentNetwork, setCurrentNetwork] = useState(DEFAULT_NETWORK);
+  const [currentNetwork, setCurrentNetwork] = useState<string>(DEFAULT_NETWORK);
+  const [chainId, setChainId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
 
   const connectWallet = async () => {
     if (!window.ethereum) {
@@ -53,90 +110,55 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
       await window.ethereum.request({ method: 'eth_requestAccounts' });
       
       // Create provider and signer first
-      const web3Provider = new ethers.BrowserProvider(window.ethereum);
-      const web3Signer = await web3Provider.getSigner();
+      let web3Provider = new ethers.BrowserProvider(window.ethereum);
+      let web3Signer = await web3Provider.getSigner();
       const userAccount = await web3Signer.getAddress();
       
       // Check current network
-      const currentNetworkInfo = await web3Provider.getNetwork();
+      let currentNetworkInfo = await web3Provider.getNetwork();
       logger.debug('Current network:', currentNetworkInfo);
-      
-      // Check if we're on Sepolia Testnet (default)
-      const isSepolia = Number(currentNetworkInfo.chainId) === 11155111;
-      const isMonad = Number(currentNetworkInfo.chainId) === 10135;
-      logger.debug('Current chain ID:', currentNetworkInfo.chainId, 'Is Sepolia:', isSepolia, 'Is Monad:', isMonad);
-      
-      if (!isSepolia && !isMonad) {
-        logger.debug('Not on supported testnet, attempting to switch to Sepolia...');
-        try {
-          // First try to switch to Sepolia Testnet (more reliable)
-          await window.ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: '0xaa36a7' }], // 11155111 in hex (Sepolia Testnet)
-          });
-          logger.debug('Successfully switched to Sepolia Testnet');
-        } catch (switchError: any) {
-          logger.debug('Switch error:', switchError);
-          
-          // If the network doesn't exist, add it
-          if (switchError.code === 4902) {
-            logger.debug('Sepolia Testnet not found, adding it...');
-            try {
-              await window.ethereum.request({
-                method: 'wallet_addEthereumChain',
-                params: [
-                  {
-                    chainId: '0xaa36a7', // 11155111 in hex
-                    chainName: 'Sepolia Testnet',
-                    rpcUrls: [NETWORK_CONFIG.sepolia.rpcUrl],
-                    blockExplorerUrls: [NETWORK_CONFIG.sepolia.blockExplorer],
-                    nativeCurrency: {
-                      name: 'Ethereum',
-                      symbol: 'ETH',
-                      decimals: 18,
-                    },
-                  },
-                ],
-              });
-              logger.debug('Successfully added Sepolia Testnet');
-            } catch (addError: any) {
-              logger.error('Error adding Sepolia Testnet:', addError);
-              alert(`Failed to add Sepolia Testnet. Please add it manually in MetaMask:\n\nNetwork Name: ${NETWORK_CONFIG.sepolia.name}\nRPC URL: ${NETWORK_CONFIG.sepolia.rpcUrl}\nChain ID: ${NETWORK_CONFIG.sepolia.chainId}\nCurrency Symbol: ETH`);
-            }
-          } else if (switchError.code === -32002) {
-            logger.debug('Network switch request already pending, waiting...');
-            // Wait a bit and try again
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          } else {
-            logger.error('Network switch error:', switchError);
-            alert('Failed to switch to Sepolia Testnet. Please switch manually in MetaMask to Sepolia Testnet (Chain ID: 11155111)');
-          }
+
+      // Offer to switch to the default network when AgriTrace is not deployed on the wallet's chain
+      if (!networkRegistry.getDeployment(Number(currentNetworkInfo.chainId))) {
+        const fallback = networkRegistry.getNetwork(DEFAULT_NETWORK);
+        logger.debug('No deployment on chain', Number(currentNetworkInfo.chainId), 'attempting to switch to', DEFAULT_NETWORK);
+        if (fallback?.deployment && await requestChain(fallback)) {
+          // A BrowserProvider is bound to the chain it first saw, so start again on the new one
+          web3Provider = new ethers.BrowserProvider(window.ethereum);
+          web3Signer = await web3Provider.getSigner();
+          currentNetworkInfo = await web3Provider.getNetwork();
         }
-      } else {
-        logger.debug('Already on supported testnet:', isSepolia ? 'Sepolia' : 'Monad');
       }
-      
-      // Create contract instance
-      const contractInstance = new ethers.Contract(
-        CONTRACT_ADDRESS,
-        AgriTraceABI.abi,
-        web3Signer
-      );
-
-      // Get network info for display
-      const networkName = Object.keys(NETWORK_CONFIG).find(
-        key => NETWORK_CONFIG[key as keyof typeof NETWORK_CONFIG].chainId === Number(currentNetworkInfo.chainId)
-      ) || DEFAULT_NETWORK;
+
+      const connectedChainId = Number(currentNetworkInfo.chainId);
+      const network = networkRegistry.getNetworkByChainId(connectedChainId);
+      const deployment = networkRegistry.getDeployment(connectedChainId);
+      networkRegistry.setActiveChain(connectedChainId);
+
+      // Without a deployment there is no contract to write to; writes are refused until the wallet switches
+      const contractInstance = deployment
+        ? new ethers.Contract(deployment.contractAddress, AgriTraceABI.abi, web3Signer)
+        : null;
+
+      if (!deployment) {
+        logger.warn('AgriTrace is not deployed on the connected chain; writes are disabled', { chainId: connectedChainId });
+      }
 
       setProvider(web3Provider);
       setSigner(web3Signer);
       setContract(contractInstance);
       setAccount(userAccount);
       setIsConnected(true);
-      setCurrentNetwork(networkName);
+      setChainId(connectedChainId);
+      setCurrentNetwork(network?.key || `chain-${connectedChainId}`);
 
-      // Initialize blockchain manager with MetaMask provider
-      initializeBlockchainManager(web3Provider, web3Signer);
+      if (deployment) {
+        // Initialize blockchain manager with MetaMask provider
+        initializeBlockchainManager(web3Provider, web3Signer);
+      }
+
+      // Follow this account's submitted transactions until they are mined, dropped or replaced
+      transactionTracker.start(web3Provider, userAccount);
 
       // Listen for account changes
       window.ethereum.on('accountsChanged', (accounts: string[]) => {
@@ -144,6 +166,7 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
           disconnectWallet();
         } else {
           setAccount(accounts[0]);
+          transactionTracker.start(web3Provider, accounts[0]);
         }
       });
 
@@ -166,10 +189,13 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     setContract(null);
     setAccount(null);
     setIsConnected(false);
+    setChainId(null);
     setCurrentNetwork(DEFAULT_NETWORK);
+    networkRegistry.resetActiveChain();
     
     // Clear blockchain manager
     clearBlockchainManager();
+    transactionTracker.stop();
   };
 
   const switchNetwork = async (networkName: string) => {
@@ -178,41 +204,15 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
       return;
     }
 
-    const network = NETWORK_CONFIG[networkName as keyof typeof NETWORK_CONFIG];
+    const network = networkRegistry.getNetwork(networkName);
     if (!network) {
       alert('Network not supported');
       return;
     }
 
-    try {
-      await window.ethereum.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${network.chainId.toString(16)}` }],
-      });
-      setCurrentNetwork(networkName);
-    } catch (error: any) {
-      // If the network doesn't exist, add it
-      if (error.code === 4902) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_addEthereumChain',
-            params: [
-              {
-                chainId: `0x${network.chainId.toString(16)}`,
-                chainName: network.name,
-                rpcUrls: [network.rpcUrl],
-                blockExplorerUrls: [network.blockExplorer],
-              },
-            ],
-          });
-        } catch (addError) {
-          logger.error('Error adding network:', addError);
-          alert('Failed to add network');
-        }
-      } else {
-        logger.error('Error switching network:', error);
-        alert('Failed to switch network');
-      }
+    // The chainChanged listener reloads the page once the wallet has switched
+    if (await requestChain(network)) {
+      setCurrentNetwork(network.key);
     }
   };
 
@@ -234,6 +234,67 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     checkConnection();
   }, []);
 
+  // Push purchases, transfers and price changes into cached pages, with or without a wallet
+  useEffect(() => {
+    const handleUpdate = (update: LiveEventUpdate) => {
+      if (update.gap || update.events.length > 0) {
+        logger.debug('Live contract events', { chainId: update.chainId, count: update.events.length, gap: update.gap });
+        queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+        queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+      }
+      if (update.gap) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.allBatchHistory });
+      }
+    };
+
+    const unsubscribe = contractEventSubscriber.subscribe(handleUpdate);
+    contractEventSubscriber.start(chainId ?? networkRegistry.getActiveChainId());
+    return () => {
+      unsubscribe();
+      contractEventSubscriber.stop();
+    };
+  }, [chainId, queryClient]);
+
+  // purchase_batch sells without a chain event, so listing changes are followed in the database
+  useEffect(() => {
+    const subscription = supabase
+      .channel('marketplace_listings')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'marketplace' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+          queryClient.invalidateQueries({ queryKey: queryKeys.inventory });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
+  // History is read from chain_events; refresh a batch's history when the chain-indexer job adds to it
+  useEffect(() => {
+    const subscription = supabase
+      .channel('chain_events_history')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chain_events' },
+        payload => {
+          const batchId = (payload.new as { batch_id: number | null }).batch_id;
+          if (batchId !== null) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.batchHistory(Number(batchId)) });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [queryClient]);
+
   const value: Web3ContextType = {
     provider,
     signer,
@@ -245,6 +306,8 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     disconnectWallet,
     switchNetwork,
     currentNetwork,
+    chainId,
+    isSupportedNetwork: chainId === null || networkRegistry.getDeployment(chainId) !== null,
   };
 
   return (
@@ -0,0 +1,244 @@
+import { supabase } from '@/integrations/supabase/client';
+import { LineageGraph, LineageEdge } from '@/types/transaction';
+import { transactionManager } from './transactionManager';
+import { logger } from '@/lib/logger';
+import { sanitizeString, isValidUUID } from '@/lib/security';
+
+export interface SplitChildInput {
+  quantity: number;
+  grading?: string;
+  label?: string;
+}
+
+export interface MergeSourceInput {
+  batchId: string;
+  quantity: number;
+}
+
+export type RepackErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'INSUFFICIENT_QUANTITY'
+  | 'UNKNOWN';
+
+const REPACK_ERROR_CODES: RepackErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'INSUFFICIENT_QUANTITY'
+];
+
+/**
+ * Re-pack refused; no batch, transaction or listing was changed
+ */
+export class RepackError extends Error {
+  constructor(public readonly code: RepackErrorCode, message: string) {
+    super(message);
+    this.name = 'RepackError';
+  }
+}
+
+const toRepackError = (message: string): RepackError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && REPACK_ERROR_CODES.find(c => c === match[1]);
+  return code ? new RepackError(code, match[2]) : new RepackError('UNKNOWN', message);
+};
+
+/**
+ * Batch Lineage Manager
+ * Splits and merges batches through the split_batch and merge_batches database functions, which
+ * create the derived batches, PROCESSING transactions and lineage edges and reduce the source
+ * listings in one transaction, and builds the parent/child graph
+ */
+export class BatchLineageManager {
+  private static instance: BatchLineageManager;
+
+  private constructor() {}
+
+  public static getInstance(): BatchLineageManager {
+    if (!BatchLineageManager.instance) {
+      BatchLineageManager.instance = new BatchLineageManager();
+    }
+    return BatchLineageManager.instance;
+  }
+
+  /**
+   * Split part of a batch into child batches (e.g. by grade or pack size)
+   * Returns the IDs of the new child batches
+   */
+  public async splitBatch(
+    parentBatchId: string,
+    ownerProfileId: string,
+    children: SplitChildInput[]
+  ): Promise<string[]> {
+    if (!isValidUUID(parentBatchId) || !isValidUUID(ownerProfileId)) {
+      throw new RepackError('INVALID_REQUEST', 'Invalid batch or owner ID');
+    }
+    if (children.length === 0 || children.some(child => !(child.quantity > 0))) {
+      throw new RepackError('INVALID_REQUEST', 'Each child batch needs a quantity greater than 0');
+    }
+
+    const requested = children.reduce((sum, child) => sum + child.quantity, 0);
+    const chainHead = await this.getOwnedChainHead(parentBatchId, ownerProfileId, requested);
+
+    const { data, error } = await supabase.rpc('split_batch', {
+      p_batch_id: parentBatchId,
+      p_children: children.map(child => ({
+        quantity: child.quantity,
+        grading: sanitizeString(child.grading, 100) || null,
+        label: sanitizeString(child.label, 255) || null
+      })),
+      p_previous_hash: chainHead ?? null
+    });
+
+    if (error) {
+      logger.error('split_batch failed', error);
+      throw toRepackError(error.message);
+    }
+
+    const { childBatchIds } = data as unknown as { childBatchIds: string[] };
+    logger.debug('Split batch', { parentBatchId, childBatchIds });
+    return childBatchIds;
+  }
+
+  /**
+   * Merge quantities from several batches of the same crop into one consolidated lot
+   * Returns the ID of the merged batch
+   */
+  public async mergeBatches(
+    sources: MergeSourceInput[],
+    ownerProfileId: string,
+    options: { grading?: string; label?: string } = {}
+  ): Promise<string> {
+    if (!isValidUUID(ownerProfileId)) {
+      throw new RepackError('INVALID_REQUEST', 'Invalid owner ID');
+    }
+    if (sources.length < 2) {
+      throw new RepackError('INVALID_REQUEST', 'At least two batches are required to merge');
+    }
+    if (new Set(sources.map(source => source.batchId)).size !== sources.length) {
+      throw new RepackError('INVALID_REQUEST', 'Each batch can only be merged once');
+    }
+    if (sources.some(source => !isValidUUID(source.batchId) || !(source.quantity > 0))) {
+      throw new RepackError('INVALID_REQUEST', 'Each merged batch needs a valid ID and a quantity greater than 0');
+    }
+
+    const prepared: Array<{ batchId: string; quantity: number; previousHash: string | null }> = [];
+    for (const source of sources) {
+      const chainHead = await this.getOwnedChainHead(source.batchId, ownerProfileId, source.quantity);
+      prepared.push({ batchId: source.batchId, quantity: source.quantity, previousHash: chainHead ?? null });
+    }
+
+    const { data, error } = await supabase.rpc('merge_batches', {
+      p_sources: prepared,
+      p_grading: sanitizeString(options.grading, 100) || null,
+      p_label: sanitizeString(options.label, 255) || null
+    });
+
+    if (error) {
+      logger.error('merge_batches failed', error);
+      throw toRepackError(error.message);
+    }
+
+    const { batchId: mergedBatchId } = data as unknown as { batchId: string };
+    logger.debug('Merged batches', { parentBatchIds: sources.map(source => source.batchId), mergedBatchId });
+    return mergedBatchId;
+  }
+
+  /**
+   * Build the lineage graph around a batch: every ancestor back to the source harvests, plus derived children
+   */
+  public async getLineageGraph(batchId: string): Promise<LineageGraph> {
+    const edges: LineageEdge[] = [];
+    const edgeKeys = new Set<string>();
+    const batchIds = new Set<string>([batchId]);
+
+    const addEdges = (links: LineageEdge[]) => {
+      for (const link of links) {
+        const key = `${link.parentBatchId}:${link.childBatchId}`;
+        if (!edgeKeys.has(key)) {
+          edgeKeys.add(key);
+          edges.push(link);
+        }
+      }
+    };
+
+    try {
+      // Walk up to the source harvests
+      const queue = [batchId];
+      const visited = new Set<string>();
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        if (visited.has(current)) continue;
+        visited.add(current);
+
+        const parents = await transactionManager.getBatchLineageLinks(current, 'parents');
+        addEdges(parents);
+        for (const link of parents) {
+          batchIds.add(link.parentBatchId);
+          queue.push(link.parentBatchId);
+        }
+      }
+
+      // Walk down to batches re-packed from this one
+      const childQueue = [batchId];
+      const visitedChildren = new Set<string>();
+      while (childQueue.length > 0) {
+        const current = childQueue.shift()!;
+        if (visitedChildren.has(current)) continue;
+        visitedChildren.add(current);
+
+        const children = await transactionManager.getBatchLineageLinks(current, 'children');
+        addEdges(children);
+        for (const link of children) {
+          batchIds.add(link.childBatchId);
+          childQueue.push(link.childBatchId);
+        }
+      }
+
+      const { data: batches } = await supabase
+        .from('batches')
+        .select('id, crop_type, variety, grading, harvest_date')
+        .in('id', Array.from(batchIds));
+
+      const derivedIds = new Set(edges.map(edge => edge.childBatchId));
+      const nodes: LineageGraph['nodes'] = {};
+      for (const id of batchIds) {
+        const batch = batches?.find(row => row.id === id);
+        nodes[id] = {
+          batchId: id,
+          crop: batch?.crop_type || '',
+          variety: batch?.variety || '',
+          grading: batch?.grading || undefined,
+          harvestDate: batch?.harvest_date || undefined,
+          isSourceHarvest: !derivedIds.has(id)
+        };
+      }
+
+      const sourceHarvestIds = Array.from(visited).filter(id => nodes[id]?.isSourceHarvest);
+
+      return { rootBatchId: batchId, nodes, edges, sourceHarvestIds };
+    } catch (error) {
+      logger.error('Error building lineage graph', error);
+      return { rootBatchId: batchId, nodes: {}, edges: [], sourceHarvestIds: [batchId] };
+    }
+  }
+
+  /**
+   * Check the owner holds the quantity in the batch's transaction chain and return the chain head the
+   * re-pack links to. Holdings per owner live in the chain; the database re-checks the batch under lock.
+   */
+  private async getOwnedChainHead(batchId: string, ownerProfileId: string, quantity: number): Promise<string | undefined> {
+    const ownerKey = await transactionManager.findOwnerKey(batchId, ownerProfileId);
+    const chain = await transactionManager.getTransactionChain(batchId);
+    const owned = ownerKey ? chain.currentOwners[ownerKey].quantity : 0;
+    if (!ownerKey || owned < quantity) {
+      throw new RepackError('INSUFFICIENT_QUANTITY', `Insufficient quantity in batch ${batchId}. Owned: ${owned}kg, Requested: ${quantity}kg`);
+    }
+    return chain.transactions[chain.transactions.length - 1]?.ipfsHash;
+  }
+}
+
+// Export singleton instance
+export const batchLineageManager = BatchLineageManager.getInstance();
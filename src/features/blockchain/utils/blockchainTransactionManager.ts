@@ -1,8 +1,9 @@
 import { ethers } from 'ethers';
 import { logger } from '@/lib/logger';
-import { CONTRACT_ADDRESS } from '@/contracts/config';
-import AgriTraceABI from '@/contracts/AgriTrace.json';
 import { validateInteger } from '@/lib/security';
+import { chainEventIndexer } from './chainEventIndexer';
+import { getContractInstance, toOnChainQuantity, fromOnChainQuantity } from './contractUtils';
+import { networkRegistry } from './networkRegistry';
 
 export interface BlockchainTransaction {
   batchId: string;
@@ -15,6 +16,7 @@ export interface BlockchainTransaction {
   transactionHash: string;
   blockNumber: number;
   ipfsHash?: string;
+  chainId?: number;
 }
 
 export class BlockchainTransactionManager {
@@ -25,7 +27,7 @@ export class BlockchainTransactionManager {
   constructor(provider: ethers.Provider, signer?: ethers.Signer) {
     this.provider = provider;
     this.signer = signer || null;
-    this.contract = new ethers.Contract(CONTRACT_ADDRESS, AgriTraceABI.abi, signer || provider);
+    this.contract = getContractInstance(provider, signer);
   }
 
   /**
@@ -33,86 +35,7 @@ export class BlockchainTransactionManager {
    */
   updateSigner(signer: ethers.Signer) {
     this.signer = signer;
-    this.contract = new ethers.Contract(CONTRACT_ADDRESS, AgriTraceABI.abi, signer);
-  }
-
-  /**
-   * Record a harvest transaction on blockchain
-   */
-  async recordHarvestTransaction(
-    batchId: string,
-    farmerAddress: string,
-    cropType: string,
-    variety: string,
-    quantity: number,
-    price: number,
-    ipfsHash: string
-  ): Promise<BlockchainTransaction> {
-    if (!this.signer) {
-      throw new Error('Signer required for blockchain transactions');
-    }
-
-    logger.debug('🔍 DEBUG: Recording harvest transaction on blockchain:', {
-      batchId,
-      farmerAddress,
-      cropType,
-      variety,
-      quantity,
-      price,
-      ipfsHash
-    });
-
-    try {
-      // Validate batchId is a valid number (blockchain batch ID)
-      const numericBatchId = validateInteger(batchId, { min: 0 });
-      
-      const tx = await this.contract.recordHarvest(
-        numericBatchId,
-        farmerAddress,
-        cropType,
-        variety,
-        quantity,
-        price,
-        ipfsHash
-      );
-
-      const receipt = await tx.wait();
-      logger.debug('🔍 DEBUG: Harvest transaction receipt:', receipt);
-      
-      // Get block details for verification
-      const block = await this.provider.getBlock(receipt.blockNumber);
-      logger.debug('🔍 DEBUG: Block details for verification:', {
-        blockNumber: receipt.blockNumber,
-        blockHash: block?.hash,
-        timestamp: block?.timestamp,
-        gasUsed: receipt.gasUsed.toString(),
-        gasPrice: receipt.gasPrice?.toString(),
-        transactionHash: receipt.hash
-      });
-      
-      // Log verification info for Sepolia Explorer
-      logger.debug('🔍 VERIFICATION INFO - Sepolia Explorer:');
-      logger.debug(`Transaction Hash: ${receipt.hash}`);
-      logger.debug(`Block Number: ${receipt.blockNumber}`);
-      logger.debug(`Block Hash: ${block?.hash}`);
-      logger.debug(`Explorer URL: https://sepolia.etherscan.io/tx/${receipt.hash}`);
-
-      return {
-        batchId,
-        from: farmerAddress,
-        to: farmerAddress, // Farmer owns the crop initially
-        transactionType: 'HARVEST',
-        quantity,
-        price,
-        timestamp: new Date().toISOString(),
-        transactionHash: receipt.hash,
-        blockNumber: receipt.blockNumber,
-        ipfsHash
-      };
-    } catch (error) {
-      logger.error('Error recording harvest transaction:', error);
-      throw error;
-    }
+    this.contract = getContractInstance(this.provider, signer);
   }
 
   /**
@@ -152,10 +75,13 @@ export class BlockchainTransactionManager {
     });
 
     try {
-      // Use the actual blockchain batch ID
-      const tx = await this.contract.transferBatch(
+      // Move only the purchased quantity; the seller keeps the rest of the batch on-chain
+      const tx = await this.contract.recordPurchase(
         blockchainBatchId,
-        toAddress
+        fromAddress,
+        toAddress,
+        toOnChainQuantity(quantity),
+        BigInt(Math.floor(price))
       );
 
       const receipt = await tx.wait();
@@ -172,12 +98,12 @@ export class BlockchainTransactionManager {
         transactionHash: receipt.hash
       });
       
-      // Log verification info for Sepolia Explorer
-      logger.debug('🔍 VERIFICATION INFO - Sepolia Explorer:');
+      // Log verification info for the block explorer
+      logger.debug('🔍 VERIFICATION INFO - Block Explorer:');
       logger.debug(`Transaction Hash: ${receipt.hash}`);
       logger.debug(`Block Number: ${receipt.blockNumber}`);
       logger.debug(`Block Hash: ${block?.hash}`);
-      logger.debug(`Explorer URL: https://sepolia.etherscan.io/tx/${receipt.hash}`);
+      logger.debug(`Explorer URL: ${networkRegistry.getExplorerTxUrl(networkRegistry.getActiveChainId(), receipt.hash)}`);
 
       return {
         batchId,
@@ -197,60 +123,63 @@ export class BlockchainTransactionManager {
   }
 
   /**
-   * Get transaction history for a batch from blockchain
+   * Get transaction history for a batch from the indexed contract events, including deployments
+   * the batch was migrated from. Events appear once the chain-indexer job has picked them up.
    */
   async getBatchTransactionHistory(batchId: string): Promise<BlockchainTransaction[]> {
     logger.debug('🔍 DEBUG: Fetching transaction history for batch:', batchId);
 
     try {
-      // Get harvest events
-      const harvestFilter = this.contract.filters.BatchRegistered(batchId);
-      const harvestEvents = await this.contract.queryFilter(harvestFilter);
+      const numericBatchId = validateInteger(batchId, { min: 0 });
 
-      // Get purchase/transfer events
-      const purchaseFilter = this.contract.filters.PurchaseRecorded(batchId);
-      const purchaseEvents = await this.contract.queryFilter(purchaseFilter);
+      const chainId = networkRegistry.getActiveChainId();
+      const deployment = networkRegistry.getDeployment(chainId);
+      const events = deployment
+        ? await chainEventIndexer.getBatchEventsAcrossChains({
+          chainId,
+          contractAddress: deployment.contractAddress,
+          blockchainBatchId: numericBatchId
+        })
+        : [];
 
-      const transactions: BlockchainTransaction[] = [];
+      // recordPurchase also emits TransferSingle for the moved quantity; keep the purchase only.
+      // BatchOwnershipTransferred only marks the current owner selling out and is not a movement of its own.
+      const purchaseTxHashes = new Set(
+        events.filter(event => event.event_name === 'PurchaseRecorded').map(event => event.transaction_hash)
+      );
 
-      // Process harvest events
-      for (const event of harvestEvents) {
-        if (event.args) {
-          transactions.push({
-            batchId: event.args.batchId.toString(),
-            from: event.args.farmer,
-            to: event.args.farmer, // Farmer owns initially
-            transactionType: 'HARVEST',
-            quantity: Number(event.args.harvestQuantity),
-            price: Number(event.args.price),
-            timestamp: new Date().toISOString(),
-            transactionHash: event.transactionHash,
-            blockNumber: event.blockNumber,
-            ipfsHash: event.args.ipfsHash
-          });
+      const transactions: BlockchainTransaction[] = [];
+      for (const event of events) {
+        let transactionType: BlockchainTransaction['transactionType'];
+        if (event.event_name === 'BatchRegistered') {
+          transactionType = 'HARVEST';
+        } else if (event.event_name === 'PurchaseRecorded') {
+          transactionType = 'PURCHASE';
+        } else if (
+          event.event_name === 'TransferSingle' &&
+          event.from_address !== ethers.ZeroAddress &&
+          !purchaseTxHashes.has(event.transaction_hash)
+        ) {
+          transactionType = 'TRANSFER';
+        } else {
+          continue;
         }
-      }
 
-      // Process purchase events
-      for (const event of purchaseEvents) {
-        if (event.args) {
-          transactions.push({
-            batchId: event.args.batchId.toString(),
-            from: event.args.from,
-            to: event.args.to,
-            transactionType: 'PURCHASE',
-            quantity: Number(event.args.quantity),
-            price: Number(event.args.price),
-            timestamp: new Date().toISOString(),
-            transactionHash: event.transactionHash,
-            blockNumber: event.blockNumber
-          });
-        }
+        transactions.push({
+          batchId: String(event.batch_id),
+          from: event.from_address || '',
+          to: event.to_address || '',
+          transactionType,
+          quantity: Number(event.quantity) || 0,
+          price: Number(event.price) || 0,
+          timestamp: event.block_timestamp,
+          transactionHash: event.transaction_hash,
+          blockNumber: event.block_number,
+          ipfsHash: event.ipfs_hash || undefined,
+          chainId: event.chain_id
+        });
       }
 
-      // Sort by block number (chronological order)
-      transactions.sort((a, b) => a.blockNumber - b.blockNumber);
-
       logger.debug('🔍 DEBUG: Found transactions:', transactions);
       return transactions;
     } catch (error) {
@@ -259,6 +188,45 @@ export class BlockchainTransactionManager {
     }
   }
 
+  /**
+   * Quantity (kg) of a batch held by an address on-chain
+   */
+  async getBatchBalance(blockchainBatchId: number, address: string): Promise<number> {
+    try {
+      const balance = await this.contract.balanceOf(address, blockchainBatchId);
+      return fromOnChainQuantity(balance);
+    } catch (error) {
+      logger.error('Error getting batch balance:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Move part of the signer's holding in a batch to another address
+   */
+  async transferQuantity(blockchainBatchId: number, toAddress: string, quantity: number): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Signer required for blockchain transactions');
+    }
+
+    const tx = await this.contract.transferQuantity(blockchainBatchId, toAddress, toOnChainQuantity(quantity));
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Allow or revoke an operator recording purchases against the signer's balances
+   */
+  async setOperatorApproval(operator: string, approved: boolean): Promise<string> {
+    if (!this.signer) {
+      throw new Error('Signer required for blockchain transactions');
+    }
+
+    const tx = await this.contract.setApprovalForAll(operator, approved);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
   /**
    * Get current owner of a batch from blockchain
    */
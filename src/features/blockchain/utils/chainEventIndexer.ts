@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { networkRegistry, BatchDeploymentRef } from './networkRegistry';
+import { logger } from '@/lib/logger';
+
+export type ChainEventRow = Tables<'chain_events'>;
+
+/**
+ * Chain Event Indexer
+ * Reads contract events from the chain_events table, which the scheduled chain-indexer edge function
+ * fills with real block timestamps and rewinds on reorganisations. The app never scans logs itself.
+ * Each chain's events are read against its own deployment from the network registry.
+ */
+export class ChainEventIndexer {
+  private static instance: ChainEventIndexer;
+
+  private constructor() {}
+
+  public static getInstance(): ChainEventIndexer {
+    if (!ChainEventIndexer.instance) {
+      ChainEventIndexer.instance = new ChainEventIndexer();
+    }
+    return ChainEventIndexer.instance;
+  }
+
+  /**
+   * Indexed events for a blockchain batch ID on one deployment (the active chain's by default), oldest first
+   */
+  public async getBatchEvents(
+    blockchainBatchId: number,
+    chainId: number = networkRegistry.getActiveChainId(),
+    contractAddress?: string
+  ): Promise<ChainEventRow[]> {
+    const address = contractAddress ?? networkRegistry.getDeployment(chainId)?.contractAddress;
+    if (!address) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('chain_events')
+      .select('*')
+      .eq('batch_id', blockchainBatchId)
+      .eq('chain_id', chainId)
+      .eq('contract_address', address.toLowerCase())
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching indexed chain events', error);
+      throw new Error('Failed to fetch chain events');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Indexed events of a batch across every deployment it has lived on, ordered by block time
+   */
+  public async getBatchEventsAcrossChains(ref: BatchDeploymentRef): Promise<ChainEventRow[]> {
+    const deployments = await networkRegistry.getBatchDeployments(ref);
+    const events: ChainEventRow[] = [];
+
+    for (const deployment of deployments) {
+      events.push(...await this.getBatchEvents(deployment.blockchainBatchId, deployment.chainId, deployment.contractAddress));
+    }
+
+    return events.sort((a, b) =>
+      new Date(a.block_timestamp).getTime() - new Date(b.block_timestamp).getTime() || a.log_index - b.log_index
+    );
+  }
+
+  /**
+   * Indexed events of the given kinds across all batches on one deployment, oldest first
+   */
+  public async getEventsByName(eventNames: string[], chainId: number = networkRegistry.getActiveChainId()): Promise<ChainEventRow[]> {
+    const deployment = networkRegistry.getDeployment(chainId);
+    if (!deployment) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('chain_events')
+      .select('*')
+      .in('event_name', eventNames)
+      .eq('chain_id', chainId)
+      .eq('contract_address', deployment.contractAddress.toLowerCase())
+      .order('block_number', { ascending: true })
+      .order('log_index', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching indexed chain events', error);
+      throw new Error('Failed to fetch chain events');
+    }
+
+    return data || [];
+  }
+}
+
+// Export singleton instance
+export const chainEventIndexer = ChainEventIndexer.getInstance();
@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { getContractInstance } from '@/features/blockchain/utils/contractUtils';
+import { networkRegistry } from '@/features/blockchain/utils/networkRegistry';
+import { logger } from '@/lib/logger';
+
+export type LiveEventName = 'EscrowCreated' | 'TransferSingle' | 'BatchOwnershipTransferred' | 'PriceUpdated';
+
+export interface LiveContractEvent {
+  name: LiveEventName;
+  chainId: number;
+  blockchainBatchId: number;
+  from: string | null;
+  to: string | null;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface LiveEventUpdate {
+  chainId: number;
+  // Events seen for the first time
+  events: LiveContractEvent[];
+  // More blocks were missed than can be backfilled; everything derived from the chain is stale
+  gap: boolean;
+}
+
+type LiveEventListener = (update: LiveEventUpdate) => void;
+
+const LIVE_EVENTS: LiveEventName[] = ['EscrowCreated', 'TransferSingle', 'BatchOwnershipTransferred', 'PriceUpdated'];
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BLOCK_CHUNK_SIZE = 2000;
+// After a longer outage only this many blocks are replayed and listeners are told to refresh everything
+const MAX_BACKFILL_BLOCKS = 20000;
+
+/**
+ * Contract Event Subscriber
+ * Polls the active deployment for escrow, quantity transfer, ownership and price events and hands
+ * them to listeners so cached pages can refresh. The last processed block is kept per deployment: when the RPC is
+ * unreachable or the tab goes offline, the next successful poll replays every block missed since.
+ */
+export class ContractEventSubscriber {
+  private static instance: ContractEventSubscriber;
+  private listeners = new Set<LiveEventListener>();
+  private cursors = new Map<string, number>();
+  private chainId: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<void> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ContractEventSubscriber {
+    if (!ContractEventSubscriber.instance) {
+      ContractEventSubscriber.instance = new ContractEventSubscriber();
+    }
+    return ContractEventSubscriber.instance;
+  }
+
+  /**
+   * Follow a chain's deployment until stop() is called. Chains without a deployment are ignored.
+   */
+  public start(chainId: number): void {
+    this.stop();
+    if (!networkRegistry.getDeployment(chainId)) {
+      return;
+    }
+
+    this.chainId = chainId;
+    this.poll();
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    window.addEventListener('online', this.handleReconnect);
+    document.addEventListener('visibilitychange', this.handleReconnect);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    window.removeEventListener('online', this.handleReconnect);
+    document.removeEventListener('visibilitychange', this.handleReconnect);
+    this.chainId = null;
+  }
+
+  public subscribe(listener: LiveEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Browsers throttle timers in background tabs, so catch up as soon as the page is usable again
+  private handleReconnect = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.poll();
+    }
+  };
+
+  private poll(): void {
+    if (!this.polling && this.chainId !== null) {
+      this.polling = this.runPoll(this.chainId)
+        .catch(error => logger.warn('Live event poll failed; missed blocks will be replayed', error))
+        .finally(() => {
+          this.polling = null;
+        });
+    }
+  }
+
+  private async runPoll(chainId: number): Promise<void> {
+    const deployment = networkRegistry.requireDeployment(chainId);
+    const provider = networkRegistry.getReadOnlyProvider(chainId);
+    const key = `${chainId}:${deployment.contractAddress.toLowerCase()}`;
+    const head = await provider.getBlockNumber();
+    const last = this.cursors.get(key);
+
+    // First poll on this deployment: pages were just loaded from current data, so start from the head
+    if (last === undefined) {
+      this.cursors.set(key, head);
+      return;
+    }
+
+    const events: LiveContractEvent[] = [];
+    let gap = false;
+    if (head > last) {
+      let fromBlock = last + 1;
+      if (head - fromBlock + 1 > MAX_BACKFILL_BLOCKS) {
+        fromBlock = head - MAX_BACKFILL_BLOCKS + 1;
+        gap = true;
+        logger.warn('Live event backfill truncated', { chainId, missedFrom: last + 1, fromBlock });
+      }
+
+      const contract = getContractInstance(provider, undefined, chainId);
+      const topics = LIVE_EVENTS.map(name => contract.interface.getEvent(name)!.topicHash);
+
+      for (let start = fromBlock; start <= head; start += BLOCK_CHUNK_SIZE) {
+        const end = Math.min(start + BLOCK_CHUNK_SIZE - 1, head);
+        const logs = await provider.getLogs({
+          address: deployment.contractAddress,
+          fromBlock: start,
+          toBlock: end,
+          topics: [topics]
+        });
+        events.push(...logs.map(log => this.toLiveEvent(contract, log, chainId)).filter((event): event is LiveContractEvent => event !== null));
+        // Advance only past blocks that were read, so a failure part-way resumes from here
+        this.cursors.set(key, end);
+      }
+    }
+
+    if (events.length > 0 || gap) {
+      this.notify({ chainId, events, gap });
+    }
+  }
+
+  private toLiveEvent(contract: ethers.Contract, log: ethers.Log, chainId: number): LiveContractEvent | null {
+    const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return null;
+    }
+
+    const name = parsed.name as LiveEventName;
+    const { args } = parsed;
+    // An escrow moves quantity from the seller to the buyer once released
+    let from: string | null = null;
+    let to: string | null = null;
+    if (name === 'EscrowCreated') {
+      from = args.seller;
+      to = args.buyer;
+    } else if (name !== 'PriceUpdated') {
+      from = args.from;
+      to = args.to;
+    }
+
+    return {
+      name,
+      chainId,
+      // ERC-1155 transfers name the batch token id
+      blockchainBatchId: Number(name === 'TransferSingle' ? args.id : args.batchId),
+      from,
+      to,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber
+    };
+  }
+
+  private notify(update: LiveEventUpdate): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        logger.error('Live event listener failed', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const contractEventSubscriber = ContractEventSubscriber.getInstance();
@@ -0,0 +1,470 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Batch } from '@/contracts/config';
+import {
+  getBatchFromBlockchain,
+  getContractAt,
+  getContractInstance,
+  getReadOnlyProvider,
+  isLegacyDeployment,
+  convertBatchInputForContract,
+  toOnChainQuantity
+} from './contractUtils';
+import { networkRegistry, BatchDeploymentRef } from './networkRegistry';
+import { chainEventIndexer } from './chainEventIndexer';
+import { transactionTracker } from './transactionTracker';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+export type ContractMigration = Tables<'contract_migrations'>;
+export type BatchMigration = Tables<'batch_migrations'>;
+
+export interface MigrationSource {
+  chainId: number;
+  contractAddress: string;
+}
+
+export interface BatchMigrationProgress {
+  oldBatchId: number;
+  total: number;
+  state: 'reading' | 'submitted' | 'migrated' | 'failed' | 'skipped';
+  newBatchId?: number;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface LegacyBatchReference {
+  chainId: number;
+  contractAddress: string;
+  batchId: number;
+}
+
+interface HolderBalances {
+  holders: string[];
+  amounts: bigint[];
+  total: bigint;
+}
+
+/**
+ * Contract Migrator
+ * Moves every batch from a previous AgriTrace deployment to the active one. Each batch is read
+ * from the old contract and re-registered with migrateBatch, which keeps the farmer, current owner
+ * and holder balances and stores the legacy reference on-chain. The old-to-new ID mapping is kept
+ * in batch_migrations, batches point at the new ID and batch_chain_links records both deployments.
+ * A run that stopped or had failures resumes where it left off when started again.
+ */
+export class ContractMigrator {
+  private static instance: ContractMigrator;
+
+  private constructor() {}
+
+  public static getInstance(): ContractMigrator {
+    if (!ContractMigrator.instance) {
+      ContractMigrator.instance = new ContractMigrator();
+    }
+    return ContractMigrator.instance;
+  }
+
+  public async getMigrations(limit = 20): Promise<ContractMigration[]> {
+    const { data, error } = await supabase
+      .from('contract_migrations')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Error fetching contract migrations', error);
+      throw new Error('Failed to fetch contract migrations');
+    }
+
+    return data || [];
+  }
+
+  public async getBatchMigrations(migrationId: string): Promise<BatchMigration[]> {
+    const { data, error } = await supabase
+      .from('batch_migrations')
+      .select('*')
+      .eq('migration_id', migrationId)
+      .order('old_batch_id', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching batch migrations', error);
+      throw new Error('Failed to fetch batch migrations');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Migrate all batches from the source deployment to the deployment on the signer's chain
+   */
+  public async migrate(
+    signer: ethers.Signer,
+    source: MigrationSource,
+    actor: string,
+    onProgress?: (progress: BatchMigrationProgress) => void
+  ): Promise<ContractMigration> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+    if (!ethers.isAddress(source.contractAddress)) {
+      throw new Error('Invalid source contract address');
+    }
+
+    const targetChainId = Number((await signer.provider.getNetwork()).chainId);
+    const target = networkRegistry.requireDeployment(targetChainId);
+    const sourceAddress = ethers.getAddress(source.contractAddress);
+    if (targetChainId === source.chainId && ethers.getAddress(target.contractAddress) === sourceAddress) {
+      throw new Error('Source and target are the same deployment');
+    }
+
+    const targetContract = getContractInstance(signer.provider, signer, targetChainId);
+    const admin = await signer.getAddress();
+    if (!(await targetContract.hasRole(ethers.ZeroHash, admin))) {
+      throw new Error('Connected wallet is not an admin of the target contract');
+    }
+
+    const sourceProvider = source.chainId === targetChainId ? signer.provider : getReadOnlyProvider(source.chainId);
+    const sourceContract = getContractAt(sourceAddress, sourceProvider);
+    const legacySource = await isLegacyDeployment(sourceAddress, sourceProvider);
+    const total = Number(await sourceContract.nextBatchId());
+
+    const migration = await this.startOrResume(source.chainId, sourceAddress, targetChainId, target.contractAddress, actor, total);
+    const previous = await this.getBatchMigrations(migration.id);
+    const done = new Set(previous.filter(row => row.status !== 'failed').map(row => row.old_batch_id));
+    const batchIds = await this.getOffChainBatchIds({ chainId: source.chainId, contractAddress: sourceAddress }, previous);
+
+    let migrated = previous.filter(row => row.status === 'migrated').length;
+    let failed = 0;
+
+    for (let oldBatchId = 0; oldBatchId < total; oldBatchId++) {
+      if (done.has(oldBatchId)) continue;
+
+      const report = (update: Omit<BatchMigrationProgress, 'oldBatchId' | 'total'>) =>
+        onProgress?.({ oldBatchId, total, ...update });
+
+      report({ state: 'reading' });
+      const batchId = batchIds.get(oldBatchId) ?? null;
+      let transactionHash: string | undefined;
+
+      try {
+        const batch = await getBatchFromBlockchain(oldBatchId, sourceProvider, sourceAddress, legacySource);
+        if (!batch) {
+          await this.recordBatch(migration.id, { old_batch_id: oldBatchId, batch_id: batchId, status: 'skipped', error: 'Not found on source contract' });
+          report({ state: 'skipped' });
+          continue;
+        }
+
+        const balances = await this.getHolderBalances(sourceContract, legacySource, source.chainId, sourceAddress, oldBatchId, batch);
+        const input = {
+          ...convertBatchInputForContract({
+            crop: batch.crop,
+            variety: batch.variety,
+            harvestQuantity: batch.harvestQuantity,
+            sowingDate: batch.sowingDate,
+            harvestDate: batch.harvestDate,
+            freshnessDuration: batch.freshnessDuration,
+            grading: batch.grading,
+            certification: batch.certification,
+            labTest: batch.labTest,
+            price: batch.price,
+            ipfsHash: batch.ipfsHash,
+            languageDetected: batch.languageDetected,
+            summary: batch.summary,
+            callStatus: batch.callStatus,
+            offTopicCount: batch.offTopicCount
+          }),
+          quantity: balances.total
+        };
+        const legacy = { chainId: source.chainId, contractAddress: sourceAddress, batchId: oldBatchId };
+
+        const { tx, wait } = await transactionTracker.send(
+          () => targetContract.migrateBatch(input, batch.farmer, batch.currentOwner, balances.holders, balances.amounts, legacy),
+          { purpose: 'migrateBatch', batchId: oldBatchId }
+        );
+        transactionHash = tx.hash;
+        report({ state: 'submitted', transactionHash });
+
+        const receipt = await wait();
+        const newBatchId = this.extractNewBatchId(targetContract, receipt);
+
+        await this.recordBatch(migration.id, {
+          old_batch_id: oldBatchId,
+          new_batch_id: newBatchId,
+          batch_id: batchId,
+          status: 'migrated',
+          transaction_hash: transactionHash
+        });
+        if (batchId) {
+          await this.repointBatch(batchId, { chainId: source.chainId, contractAddress: sourceAddress, blockchainBatchId: oldBatchId }, {
+            chainId: targetChainId,
+            contractAddress: target.contractAddress,
+            blockchainBatchId: newBatchId
+          });
+        }
+
+        migrated += 1;
+        report({ state: 'migrated', newBatchId, transactionHash });
+      } catch (error) {
+        const message = sanitizeError(error);
+        logger.error('Batch migration failed', { oldBatchId, error });
+        failed += 1;
+        await this.recordBatch(migration.id, {
+          old_batch_id: oldBatchId,
+          batch_id: batchId,
+          status: 'failed',
+          transaction_hash: transactionHash ?? null,
+          error: message
+        });
+        report({ state: 'failed', transactionHash, error: message });
+      }
+
+      await this.updateMigration(migration.id, { migrated_count: migrated, failed_count: failed });
+    }
+
+    // A run with failures stays resumable; starting it again retries the failed batches
+    const finished = await this.updateMigration(migration.id, {
+      status: failed > 0 ? 'failed' : 'completed',
+      completed_at: new Date().toISOString(),
+      migrated_count: migrated,
+      failed_count: failed
+    });
+    await this.recordAudit(finished ?? migration, actor, failed > 0 ? 'failed' : 'success');
+    return finished ?? migration;
+  }
+
+  /**
+   * Legacy reference stored on-chain for a migrated batch, or null if the batch was registered there
+   */
+  public async getLegacyReference(ref: BatchDeploymentRef, provider: ethers.Provider): Promise<LegacyBatchReference | null> {
+    const contract = getContractAt(ref.contractAddress, provider);
+    const legacy = await contract.migratedFrom(ref.blockchainBatchId);
+    if (legacy.contractAddress === ethers.ZeroAddress) {
+      return null;
+    }
+    return {
+      chainId: Number(legacy.chainId),
+      contractAddress: legacy.contractAddress,
+      batchId: Number(legacy.batchId)
+    };
+  }
+
+  /**
+   * Holder balances of a legacy batch. Deployments before the quantity ledger only know the
+   * harvest quantity, which is credited to the current owner.
+   */
+  private async getHolderBalances(
+    sourceContract: ethers.Contract,
+    legacySource: boolean,
+    chainId: number,
+    contractAddress: string,
+    oldBatchId: number,
+    batch: Batch
+  ): Promise<HolderBalances> {
+    const total: bigint = legacySource ? 0n : await sourceContract.totalQuantity(oldBatchId);
+
+    if (total === 0n) {
+      const amount = toOnChainQuantity(parseFloat(batch.harvestQuantity) || 0);
+      return { holders: [batch.currentOwner], amounts: [amount], total: amount };
+    }
+
+    const candidates = new Set<string>([ethers.getAddress(batch.farmer), ethers.getAddress(batch.currentOwner)]);
+    const events = await chainEventIndexer.getBatchEvents(oldBatchId, chainId, contractAddress);
+    for (const event of events) {
+      if (event.event_name === 'TransferSingle' && event.to_address && event.to_address !== ethers.ZeroAddress) {
+        candidates.add(ethers.getAddress(event.to_address));
+      }
+    }
+
+    const holders: string[] = [];
+    const amounts: bigint[] = [];
+    let sum = 0n;
+    for (const holder of candidates) {
+      const balance: bigint = await sourceContract.balanceOf(holder, oldBatchId);
+      if (balance > 0n) {
+        holders.push(holder);
+        amounts.push(balance);
+        sum += balance;
+      }
+    }
+
+    if (sum !== total) {
+      throw new Error('Known holder balances do not add up to the batch total; index the source deployment first');
+    }
+    return { holders, amounts, total };
+  }
+
+  private extractNewBatchId(contract: ethers.Contract, receipt: ethers.TransactionReceipt): number {
+    const target = contract.target.toString().toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== target) continue;
+      const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === 'BatchMigrated') {
+        return Number(parsed.args.batchId);
+      }
+    }
+    throw new Error('BatchMigrated event not found in receipt');
+  }
+
+  /**
+   * Map source blockchain IDs to off-chain batches before any batch is repointed. Links for the
+   * source deployment win; otherwise the batch's stored blockchain ID is used. Batches this
+   * migration already moved are left out, since their stored ID now belongs to the target.
+   */
+  private async getOffChainBatchIds(source: MigrationSource, previous: BatchMigration[]): Promise<Map<number, string>> {
+    const moved = new Set(previous.filter(row => row.status === 'migrated' && row.batch_id).map(row => row.batch_id!));
+    const ids = new Map<number, string>();
+
+    const { data: batches, error } = await supabase
+      .from('batches')
+      .select('id, blockchain_id, blockchain_batch_id')
+      .or('blockchain_id.not.is.null,blockchain_batch_id.not.is.null');
+
+    if (error) {
+      logger.error('Error fetching batches for migration', error);
+      throw new Error('Failed to fetch batches');
+    }
+
+    for (const batch of batches || []) {
+      const onChainId = Number(batch.blockchain_id ?? batch.blockchain_batch_id);
+      if (!moved.has(batch.id) && Number.isInteger(onChainId)) {
+        ids.set(onChainId, batch.id);
+      }
+    }
+
+    const { data: links, error: linksError } = await supabase
+      .from('batch_chain_links')
+      .select('batch_id, blockchain_batch_id')
+      .eq('chain_id', source.chainId)
+      .eq('contract_address', source.contractAddress.toLowerCase());
+
+    if (linksError) {
+      logger.error('Error fetching batch chain links for migration', linksError);
+      throw new Error('Failed to fetch batch chain links');
+    }
+
+    for (const link of links || []) {
+      ids.set(link.blockchain_batch_id, link.batch_id);
+    }
+
+    return ids;
+  }
+
+  private async repointBatch(batchId: string, from: BatchDeploymentRef, to: BatchDeploymentRef): Promise<void> {
+    const { error } = await supabase
+      .from('batches')
+      .update({ blockchain_batch_id: to.blockchainBatchId, blockchain_id: String(to.blockchainBatchId) })
+      .eq('id', batchId);
+
+    if (error) {
+      logger.error('Error updating migrated batch', error);
+      throw new Error('Failed to update batch with its new blockchain ID');
+    }
+
+    await networkRegistry.linkBatch(batchId, from, 'registered');
+    await networkRegistry.linkBatch(batchId, to, 'migrated');
+  }
+
+  private async startOrResume(
+    sourceChainId: number,
+    sourceContract: string,
+    targetChainId: number,
+    targetContract: string,
+    actor: string,
+    total: number
+  ): Promise<ContractMigration> {
+    const route = {
+      source_chain_id: sourceChainId,
+      source_contract: sourceContract.toLowerCase(),
+      target_chain_id: targetChainId,
+      target_contract: targetContract.toLowerCase()
+    };
+
+    const { data: existing, error } = await supabase
+      .from('contract_migrations')
+      .select('*')
+      .match(route)
+      .neq('status', 'completed')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error looking up contract migration', error);
+      throw new Error('Failed to look up contract migration');
+    }
+
+    if (existing) {
+      logger.debug('Resuming contract migration', { migrationId: existing.id });
+      return (await this.updateMigration(existing.id, { status: 'running', total_batches: total, completed_at: null })) ?? existing;
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('contract_migrations')
+      .insert({ ...route, started_by: actor, total_batches: total })
+      .select()
+      .single();
+
+    if (insertError || !data) {
+      logger.error('Error creating contract migration', insertError);
+      throw new Error('Failed to start contract migration');
+    }
+
+    return data;
+  }
+
+  private async updateMigration(
+    migrationId: string,
+    fields: Partial<Pick<ContractMigration, 'status' | 'total_batches' | 'migrated_count' | 'failed_count' | 'completed_at'>>
+  ): Promise<ContractMigration | null> {
+    const { data, error } = await supabase
+      .from('contract_migrations')
+      .update(fields)
+      .eq('id', migrationId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to update contract migration', { migrationId, error });
+      return null;
+    }
+    return data;
+  }
+
+  private async recordBatch(
+    migrationId: string,
+    row: Pick<BatchMigration, 'old_batch_id' | 'status'> & Partial<Pick<BatchMigration, 'batch_id' | 'new_batch_id' | 'transaction_hash' | 'error'>>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('batch_migrations')
+      .upsert({ migration_id: migrationId, error: null, ...row }, { onConflict: 'migration_id,old_batch_id' });
+
+    if (error) {
+      logger.error('Error recording batch migration', error);
+      throw new Error('Failed to record batch migration');
+    }
+  }
+
+  private async recordAudit(migration: ContractMigration, actor: string, status: 'success' | 'failed'): Promise<void> {
+    const { error } = await supabase.rpc('record_audit_log', {
+      p_action: 'contract.migrate',
+      p_status: status,
+      p_details: {
+        actor,
+        migrationId: migration.id,
+        source: { chainId: migration.source_chain_id, contract: migration.source_contract },
+        target: { chainId: migration.target_chain_id, contract: migration.target_contract },
+        migrated: migration.migrated_count,
+        failed: migration.failed_count
+      }
+    });
+
+    if (error) {
+      logger.warn('Failed to record contract migration in audit log', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const contractMigrator = ContractMigrator.getInstance();
@@ -1,26 +1,224 @@
 import { ethers } from 'ethers';
 import { logger } from '@/lib/logger';
-import { CONTRACT_ADDRESS } from '@/contracts/config';
 import AgriTraceABI from '@/contracts/AgriTrace.json';
-import { Batch } from '@/contracts/config';
+import AgriTraceLegacyABI from '@/contracts/AgriTraceLegacy.json';
+import { Batch, BatchInput } from '@/contracts/config';
+import { networkRegistry } from './networkRegistry';
 
 /**
- * Get contract instance for direct use (outside React components)
+ * Get contract instance for direct use (outside React components).
+ * Uses the deployment on the given chain, or the active chain; throws when there is none.
  */
-export const getContractInstance = (provider: ethers.Provider, signer?: ethers.Signer) => {
+export const getContractInstance = (provider: ethers.Provider, signer?: ethers.Signer, chainId?: number) => {
   const contractSigner = signer || provider;
-  return new ethers.Contract(CONTRACT_ADDRESS, AgriTraceABI.abi, contractSigner);
+  const { contractAddress } = networkRegistry.requireDeployment(chainId);
+  return new ethers.Contract(contractAddress, AgriTraceABI.abi, contractSigner);
 };
 
 /**
- * Get batch data from blockchain (for use outside React components)
+ * AgriTrace at an explicit address, e.g. a previous deployment no longer in the network registry
  */
-export const getBatchFromBlockchain = async (
+export const getContractAt = (contractAddress: string, runner: ethers.ContractRunner) => {
+  return new ethers.Contract(contractAddress, AgriTraceABI.abi, runner);
+};
+
+/**
+ * A deployment from before the quantity ledger, whose batches getter returns the original struct layout
+ */
+export const getLegacyContractAt = (contractAddress: string, runner: ethers.ContractRunner) => {
+  return new ethers.Contract(contractAddress, AgriTraceLegacyABI.abi, runner);
+};
+
+/**
+ * Whether the deployment at an address predates the quantity ledger and must be read with the legacy ABI
+ */
+export const isLegacyDeployment = async (contractAddress: string, provider: ethers.Provider): Promise<boolean> => {
+  try {
+    await getContractAt(contractAddress, provider).totalQuantity(0);
+    return false;
+  } catch (error) {
+    // Legacy deployments have no totalQuantity function, so the call reverts
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+      return true;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Read-only provider for the active (or given) network, for pages that verify without a connected wallet
+ */
+export const getReadOnlyProvider = (chainId?: number): ethers.Provider => {
+  return networkRegistry.getReadOnlyProvider(chainId);
+};
+
+// On-chain batch balances are whole grams; off-chain quantities are kilograms
+const GRAMS_PER_KG = 1000;
+
+/**
+ * Convert a kilogram quantity to the contract's gram units
+ */
+export const toOnChainQuantity = (quantityKg: number): bigint => {
+  if (!Number.isFinite(quantityKg) || quantityKg < 0) {
+    throw new Error(`Invalid quantity: ${quantityKg}`);
+  }
+  return BigInt(Math.round(quantityKg * GRAMS_PER_KG));
+};
+
+/**
+ * Convert a contract gram amount back to kilograms
+ */
+export const fromOnChainQuantity = (grams: bigint | number): number => {
+  return Number(grams) / GRAMS_PER_KG;
+};
+
+/**
+ * Convert date string (YYYY-MM-DD) to Unix timestamp (uint256)
+ */
+function dateStringToTimestamp(dateString: string): number {
+  if (!dateString) {
+    throw new Error('Date string cannot be empty');
+  }
+  
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date string: ${dateString}`);
+  }
+  
+  // Return Unix timestamp in seconds (contract uses seconds, not milliseconds)
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Convert freshness duration string to uint96 number
+ */
+function freshnessDurationToNumber(duration: string | number): number {
+  if (typeof duration === 'number') {
+    if (duration < 0 || duration > 2**96 - 1) {
+      throw new Error(`Freshness duration out of range: ${duration}`);
+    }
+    return duration;
+  }
+  
+  const num = parseInt(duration, 10);
+  if (isNaN(num) || num < 0 || num > 2**96 - 1) {
+    throw new Error(`Invalid freshness duration: ${duration}`);
+  }
+  return num;
+}
+
+/**
+ * Convert grading string to enum number
+ * Grading enum: NONE=0, A=1, B=2, C=3, PREMIUM=4, STANDARD=5
+ */
+function gradingToEnum(grading: string): number {
+  const normalized = grading.trim().toUpperCase();
+  
+  switch (normalized) {
+    case 'NONE':
+    case '':
+      return 0;
+    case 'A':
+    case 'GRADE A':
+      return 1;
+    case 'B':
+    case 'GRADE B':
+      return 2;
+    case 'C':
+    case 'GRADE C':
+      return 3;
+    case 'PREMIUM':
+      return 4;
+    case 'STANDARD':
+      return 5;
+    default:
+      // Default to STANDARD if unknown
+      logger.warn(`Unknown grading value: ${grading}, defaulting to STANDARD (5)`);
+      return 5;
+  }
+}
+
+/**
+ * Convert call status string to enum number
+ * CallStatus enum: PENDING=0, ACTIVE=1, COMPLETED=2, CANCELLED=3
+ */
+function callStatusToEnum(callStatus: string): number {
+  const normalized = callStatus.trim().toUpperCase();
+  
+  switch (normalized) {
+    case 'PENDING':
+      return 0;
+    case 'ACTIVE':
+      return 1;
+    case 'COMPLETED':
+    case 'ENDED':
+      return 2;
+    case 'CANCELLED':
+      return 3;
+    default:
+      // Default to COMPLETED if unknown
+      logger.warn(`Unknown call status: ${callStatus}, defaulting to COMPLETED (2)`);
+      return 2;
+  }
+}
+
+/**
+ * Convert frontend BatchInput (with strings) to contract BatchInput (with numbers/enums)
+ */
+export function convertBatchInputForContract(input: BatchInput) {
+  return {
+    crop: input.crop,
+    variety: input.variety,
+    harvestQuantity: input.harvestQuantity,
+    sowingDate: dateStringToTimestamp(input.sowingDate), // Convert to Unix timestamp
+    harvestDate: dateStringToTimestamp(input.harvestDate), // Convert to Unix timestamp
+    freshnessDuration: freshnessDurationToNumber(input.freshnessDuration), // Convert to uint96
+    grading: gradingToEnum(input.grading), // Convert to enum number
+    certification: input.certification,
+    labTest: input.labTest,
+    price: BigInt(Math.floor(input.price)), // Ensure price is a BigInt for uint256
+    ipfsHash: input.ipfsHash,
+    languageDetected: input.languageDetected,
+    summary: input.summary,
+    callStatus: callStatusToEnum(input.callStatus), // Convert to enum number
+    offTopicCount: BigInt(Math.floor(input.offTopicCount || 0)), // Convert to BigInt for uint256
+    quantity: toOnChainQuantity(parseFloat(input.harvestQuantity) || 0) // Kilograms to grams, minted to the farmer
+  };
+}
+
+/**
+ * Quantity (kg) of a batch held by an address on-chain
+ */
+export const getBatchBalanceFromContract = async (
   batchId: number,
+  address: string,
   provider: ethers.Provider
-): Promise<Batch | null> => {
+): Promise<number> => {
   try {
     const contract = getContractInstance(provider);
+    const balance = await contract.balanceOf(address, batchId);
+    return fromOnChainQuantity(balance);
+  } catch (error) {
+    logger.error('Error fetching batch balance:', error);
+    return 0;
+  }
+};
+
+/**
+ * Get batch data from blockchain (for use outside React components).
+ * Reads the active deployment unless a contract address is given; pass legacy for a deployment
+ * from before the quantity ledger.
+ */
+export const getBatchFromBlockchain = async (
+  batchId: number,
+  provider: ethers.Provider,
+  contractAddress?: string,
+  legacy = false
+): Promise<Batch | null> => {
+  try {
+    const contract = contractAddress
+      ? (legacy ? getLegacyContractAt : getContractAt)(contractAddress, provider)
+      : getContractInstance(provider);
     
     // Check if batch exists by checking if the ID is not zero
     const batch = await contract.batches(batchId);
@@ -0,0 +1,219 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { SupplyChainTransaction } from '@/types/transaction';
+import { transactionManager } from './transactionManager';
+import { getContractInstance, getReadOnlyProvider } from './contractUtils';
+import { computeContentHash, getMerkleRoot, getMerkleProof, verifyMerkleProof } from './transactionHashing';
+import { logger } from '@/lib/logger';
+import { sanitizeError, sanitizeString } from '@/lib/security';
+
+type PendingTransactionRow = Pick<Tables<'transactions'>, 'transaction_id' | 'content_hash' | 'transaction_timestamp'>;
+
+export interface AnchorResult {
+  merkleRoot: string;
+  anchorTxHash: string;
+  blockNumber: number;
+  leafCount: number;
+}
+
+export interface AnchorVerificationResult {
+  isAnchored: boolean;
+  isValid: boolean;
+  merkleRoot?: string;
+  anchorTxHash?: string;
+  anchoredAt?: string;
+  errors: string[];
+}
+
+// Matches the merkle-anchor edge function, which anchors pending transactions on a schedule
+const MAX_LEAVES_PER_ANCHOR = 512;
+
+/**
+ * Merkle Anchor Service
+ * Lists hashed transactions that are not yet on-chain and verifies anchored ones. The merkle-anchor
+ * edge function anchors the queue on a schedule; anchorPendingTransactions is the operator's manual override.
+ */
+export class MerkleAnchorService {
+  private static instance: MerkleAnchorService;
+
+  private constructor() {}
+
+  public static getInstance(): MerkleAnchorService {
+    if (!MerkleAnchorService.instance) {
+      MerkleAnchorService.instance = new MerkleAnchorService();
+    }
+    return MerkleAnchorService.instance;
+  }
+
+  /**
+   * Hashed transactions waiting for an anchor, oldest first
+   */
+  public async getPendingTransactions(limit = MAX_LEAVES_PER_ANCHOR): Promise<PendingTransactionRow[]> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('transaction_id, content_hash, transaction_timestamp')
+      .not('content_hash', 'is', null)
+      .is('anchor_tx_hash', null)
+      .order('transaction_timestamp', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Error fetching pending transactions for anchoring', error);
+      throw new Error('Failed to fetch pending transactions');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Build a Merkle tree over all pending content hashes and write only the root on-chain
+   */
+  public async anchorPendingTransactions(signer: ethers.Signer): Promise<AnchorResult | null> {
+    try {
+      const pending = await this.getPendingTransactions();
+      if (pending.length === 0) {
+        return null;
+      }
+
+      const leaves = pending.map(row => row.content_hash!);
+      const merkleRoot = getMerkleRoot(leaves);
+
+      if (!signer.provider) {
+        throw new Error('Signer is not connected to a provider');
+      }
+
+      const contract = getContractInstance(signer.provider, signer);
+      const tx = await contract.anchorMerkleRoot(merkleRoot, leaves.length, '');
+      logger.debug('Merkle root anchor submitted', { merkleRoot, hash: tx.hash, leafCount: leaves.length });
+
+      const receipt = await tx.wait();
+      const network = await signer.provider.getNetwork();
+
+      const { error: anchorError } = await supabase
+        .from('merkle_anchors')
+        .insert({
+          merkle_root: merkleRoot,
+          anchor_tx_hash: receipt.hash,
+          chain_id: Number(network.chainId),
+          block_number: receipt.blockNumber,
+          leaf_count: leaves.length,
+          submitted_by: await signer.getAddress()
+        });
+
+      if (anchorError) {
+        logger.error('Error storing merkle anchor', anchorError);
+      }
+
+      // Store each transaction's proof so it can be checked on its own later
+      for (let leafIndex = 0; leafIndex < pending.length; leafIndex++) {
+        const { error } = await supabase
+          .from('transactions')
+          .update({
+            anchor_root: merkleRoot,
+            anchor_tx_hash: receipt.hash,
+            anchor_leaf_index: leafIndex,
+            anchor_proof: getMerkleProof(leaves, leafIndex)
+          })
+          .eq('transaction_id', pending[leafIndex].transaction_id);
+
+        if (error) {
+          logger.error('Error storing anchor proof', { transactionId: pending[leafIndex].transaction_id, error });
+        }
+      }
+
+      return {
+        merkleRoot,
+        anchorTxHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        leafCount: leaves.length
+      };
+    } catch (error) {
+      logger.error('Error anchoring pending transactions', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * Verify a transaction against its anchored root: content hash, Merkle proof, then the root on-chain
+   */
+  public async verifyAnchoredTransaction(
+    transactionId: string,
+    provider: ethers.Provider = getReadOnlyProvider()
+  ): Promise<AnchorVerificationResult> {
+    const errors: string[] = [];
+
+    try {
+      const transaction = await transactionManager.getTransaction(sanitizeString(transactionId, 100));
+      if (!transaction) {
+        return { isAnchored: false, isValid: false, errors: ['Transaction not found'] };
+      }
+
+      return await this.verifyTransactionAnchor(transaction, provider);
+    } catch (error) {
+      logger.error('Error verifying anchored transaction', error);
+      errors.push(sanitizeError(error));
+      return { isAnchored: false, isValid: false, errors };
+    }
+  }
+
+  /**
+   * Verify an already loaded transaction (e.g. a copy fetched from IPFS) against its anchor
+   */
+  public async verifyTransactionAnchor(
+    transaction: SupplyChainTransaction,
+    provider: ethers.Provider = getReadOnlyProvider()
+  ): Promise<AnchorVerificationResult> {
+    const errors: string[] = [];
+
+    if (!transaction.contentHash) {
+      return { isAnchored: false, isValid: false, errors: ['Transaction has no content hash'] };
+    }
+
+    if (!transaction.anchor) {
+      return { isAnchored: false, isValid: true, errors: ['Transaction is waiting to be anchored'] };
+    }
+
+    const { merkleRoot, anchorTxHash, siblings } = transaction.anchor;
+
+    if (computeContentHash(transaction) !== transaction.contentHash) {
+      errors.push('Transaction content does not match its content hash');
+    }
+
+    if (!verifyMerkleProof(transaction.contentHash, siblings, merkleRoot)) {
+      errors.push('Merkle proof does not lead to the anchored root');
+    }
+
+    let anchoredAt: string | undefined;
+    try {
+      const contract = getContractInstance(provider);
+      const anchor = await contract.merkleAnchors(merkleRoot);
+
+      if (Number(anchor.anchoredAt) === 0) {
+        errors.push('Merkle root is not anchored on-chain');
+      } else {
+        anchoredAt = new Date(Number(anchor.anchoredAt) * 1000).toISOString();
+
+        const included = await contract.verifyAnchoredLeaf(merkleRoot, transaction.contentHash, siblings);
+        if (!included) {
+          errors.push('Contract rejected the inclusion proof');
+        }
+      }
+    } catch (error) {
+      logger.warn('Could not read anchor from contract', error);
+      errors.push('Could not read anchored root from the blockchain');
+    }
+
+    return {
+      isAnchored: true,
+      isValid: errors.length === 0,
+      merkleRoot,
+      anchorTxHash,
+      anchoredAt,
+      errors
+    };
+  }
+}
+
+// Export singleton instance
+export const merkleAnchorService = MerkleAnchorService.getInstance();
@@ -0,0 +1,213 @@
+import { ethers } from 'ethers';
+import AgriTraceForwarderABI from '@/contracts/AgriTraceForwarder.json';
+import { getContractInstance } from './contractUtils';
+import { networkRegistry } from './networkRegistry';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+/**
+ * ERC-2771 forward request as signed by the farmer and executed by AgriTraceForwarder
+ */
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  nonce: bigint;
+  data: string;
+}
+
+export interface RelayResult {
+  transactionHash: string;
+  blockNumber: number;
+  from: string;
+  relayer: string;
+  receipt: ethers.TransactionReceipt;
+}
+
+const FORWARD_REQUEST_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+// MinimalForwarder's EIP-712 domain
+const FORWARDER_DOMAIN_NAME = 'MinimalForwarder';
+const FORWARDER_DOMAIN_VERSION = '0.0.1';
+
+// Extra gas for the forwarder's signature check and call overhead on top of the inner call
+const FORWARDER_GAS_OVERHEAD = 100000n;
+const FALLBACK_INNER_GAS = 1500000n;
+
+/**
+ * Meta-Transaction Relayer
+ * A farmer's key signs a ForwardRequest for an AgriTrace call; a relayer signer (helper desk wallet,
+ * service key or a dev-chain account) submits it through the trusted forwarder and pays the gas.
+ * The contract attributes the call to the farmer's address, so batches and transfers carry the real owner.
+ */
+export class MetaTransactionRelayer {
+  private static instance: MetaTransactionRelayer;
+
+  private constructor() {}
+
+  public static getInstance(): MetaTransactionRelayer {
+    if (!MetaTransactionRelayer.instance) {
+      MetaTransactionRelayer.instance = new MetaTransactionRelayer();
+    }
+    return MetaTransactionRelayer.instance;
+  }
+
+  /**
+   * True when the active network has a forwarder deployed
+   */
+  public isEnabled(): boolean {
+    return ethers.isAddress(this.getForwarderAddress());
+  }
+
+  /**
+   * Sign an AgriTrace call as the farmer and relay it in one step
+   */
+  public async forward(
+    farmerSigner: ethers.Signer,
+    relayerSigner: ethers.Signer,
+    method: string,
+    args: unknown[]
+  ): Promise<RelayResult> {
+    if (!relayerSigner.provider) {
+      throw new Error('Relayer signer is not connected to a provider');
+    }
+
+    const from = await farmerSigner.getAddress();
+    const data = getContractInstance(relayerSigner.provider).interface.encodeFunctionData(method, args);
+    const request = await this.buildRequest(relayerSigner.provider, from, data);
+    const signature = await this.signRequest(farmerSigner, request, relayerSigner.provider);
+
+    logger.debug('Relaying meta-transaction', { method, from, nonce: request.nonce.toString() });
+    return this.relay(relayerSigner, request, signature);
+  }
+
+  /**
+   * Build a forward request for the farmer, with the forwarder's current nonce and an estimated gas limit
+   */
+  public async buildRequest(provider: ethers.Provider, from: string, data: string): Promise<ForwardRequest> {
+    const forwarder = this.getForwarder(provider);
+    const nonce: bigint = await forwarder.getNonce(from);
+
+    const { contractAddress } = networkRegistry.requireDeployment();
+
+    let gas = FALLBACK_INNER_GAS;
+    try {
+      // Estimated as a direct call from the farmer, which is what the forwarder reproduces
+      gas = ((await provider.estimateGas({ from, to: contractAddress, data })) * 12n) / 10n;
+    } catch (error) {
+      logger.warn('Could not estimate relayed call gas, using fallback', { from, error });
+    }
+
+    return { from, to: contractAddress, value: 0n, gas, nonce, data };
+  }
+
+  /**
+   * EIP-712 signature of a forward request by the farmer's key
+   */
+  public async signRequest(farmerSigner: ethers.Signer, request: ForwardRequest, provider: ethers.Provider): Promise<string> {
+    const signerAddress = await farmerSigner.getAddress();
+    if (ethers.getAddress(signerAddress) !== ethers.getAddress(request.from)) {
+      throw new Error('Forward request must be signed by its sender');
+    }
+
+    return farmerSigner.signTypedData(await this.getDomain(provider), FORWARD_REQUEST_TYPES, request);
+  }
+
+  /**
+   * Submit a signed request through the forwarder; the relayer pays the gas
+   */
+  public async relay(relayerSigner: ethers.Signer, request: ForwardRequest, signature: string): Promise<RelayResult> {
+    if (!relayerSigner.provider) {
+      throw new Error('Relayer signer is not connected to a provider');
+    }
+
+    try {
+      const forwarder = this.getForwarder(relayerSigner.provider, relayerSigner);
+
+      if (!(await forwarder.verify(request, signature))) {
+        throw new Error('Forward request signature or nonce is invalid');
+      }
+
+      // The forwarder does not revert when the inner call fails, so simulate first to surface the reason
+      const [success, returnData]: [boolean, string] = await forwarder.execute.staticCall(request, signature);
+      if (!success) {
+        throw new Error(this.decodeRevert(relayerSigner.provider, returnData));
+      }
+
+      const tx = await forwarder.execute(request, signature, {
+        value: request.value,
+        gasLimit: request.gas + FORWARDER_GAS_OVERHEAD
+      });
+      logger.debug('Meta-transaction submitted', { hash: tx.hash, from: request.from });
+
+      const receipt: ethers.TransactionReceipt = await tx.wait();
+      const agriTrace = getContractInstance(relayerSigner.provider);
+      const emitted = receipt.logs.some(log => log.address.toLowerCase() === agriTrace.target.toString().toLowerCase());
+      if (!emitted) {
+        throw new Error('Relayed call did not execute on the AgriTrace contract');
+      }
+
+      return {
+        transactionHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        from: request.from,
+        relayer: await relayerSigner.getAddress(),
+        receipt
+      };
+    } catch (error) {
+      logger.error('Error relaying meta-transaction', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  private async getDomain(provider: ethers.Provider): Promise<ethers.TypedDataDomain> {
+    const network = await provider.getNetwork();
+    return {
+      name: FORWARDER_DOMAIN_NAME,
+      version: FORWARDER_DOMAIN_VERSION,
+      chainId: network.chainId,
+      verifyingContract: this.getForwarderAddress()
+    };
+  }
+
+  private getForwarder(provider: ethers.Provider, signer?: ethers.Signer): ethers.Contract {
+    if (!this.isEnabled()) {
+      throw new Error(`Meta-transactions are not configured on ${networkRegistry.getActiveNetwork()?.name || 'this network'}`);
+    }
+    return new ethers.Contract(this.getForwarderAddress(), AgriTraceForwarderABI.abi, signer || provider);
+  }
+
+  private getForwarderAddress(): string {
+    return networkRegistry.getDeployment()?.forwarderAddress ?? '';
+  }
+
+  private decodeRevert(provider: ethers.Provider, returnData: string): string {
+    try {
+      const parsed = getContractInstance(provider).interface.parseError(returnData);
+      if (parsed) {
+        return `Relayed call reverted: ${parsed.name}`;
+      }
+    } catch {
+      // Not a custom error; fall through to Error(string)
+    }
+
+    if (returnData.startsWith('0x08c379a0')) {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(returnData, 4));
+      return `Relayed call reverted: ${reason}`;
+    }
+    return 'Relayed call reverted';
+  }
+}
+
+// Export singleton instance
+export const metaTransactionRelayer = MetaTransactionRelayer.getInstance();
@@ -0,0 +1,203 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { NETWORKS, DEFAULT_NETWORK, NetworkDefinition, NetworkDeployment, NetworkKey } from '@/contracts/config';
+import { logger } from '@/lib/logger';
+
+export type BatchChainLink = Tables<'batch_chain_links'>;
+
+export interface BatchDeploymentRef {
+  chainId: number;
+  contractAddress: string;
+  blockchainBatchId: number;
+}
+
+/**
+ * Network Registry
+ * Resolves chain IDs to their AgriTrace deployment, explorer and RPC endpoints. The connected
+ * wallet's chain is the active one; without a wallet the default network is used. Chains with no
+ * deployment are known but read-only, so writes fail before a wallet prompt. Batches that moved
+ * between deployments are linked in batch_chain_links so their history can be read across chains.
+ */
+export class NetworkRegistry {
+  private static instance: NetworkRegistry;
+  private activeChainId: number = NETWORKS[DEFAULT_NETWORK]?.chainId ?? NETWORKS.sepolia.chainId;
+  private providers = new Map<number, ethers.Provider>();
+
+  private constructor() {}
+
+  public static getInstance(): NetworkRegistry {
+    if (!NetworkRegistry.instance) {
+      NetworkRegistry.instance = new NetworkRegistry();
+    }
+    return NetworkRegistry.instance;
+  }
+
+  public getNetworks(): NetworkDefinition[] {
+    return Object.values(NETWORKS);
+  }
+
+  public getNetwork(key: string): NetworkDefinition | null {
+    return NETWORKS[key as NetworkKey] ?? null;
+  }
+
+  public getNetworkByChainId(chainId: number): NetworkDefinition | null {
+    return this.getNetworks().find(network => network.chainId === chainId) ?? null;
+  }
+
+  public setActiveChain(chainId: number): void {
+    this.activeChainId = chainId;
+  }
+
+  public resetActiveChain(): void {
+    this.activeChainId = NETWORKS[DEFAULT_NETWORK]?.chainId ?? NETWORKS.sepolia.chainId;
+  }
+
+  public getActiveChainId(): number {
+    return this.activeChainId;
+  }
+
+  public getActiveNetwork(): NetworkDefinition | null {
+    return this.getNetworkByChainId(this.activeChainId);
+  }
+
+  public getDeployment(chainId: number = this.activeChainId): NetworkDeployment | null {
+    return this.getNetworkByChainId(chainId)?.deployment ?? null;
+  }
+
+  /**
+   * Deployment on a chain, or an error naming the chain when AgriTrace is not deployed there
+   */
+  public requireDeployment(chainId: number = this.activeChainId): NetworkDeployment {
+    const deployment = this.getDeployment(chainId);
+    if (!deployment) {
+      const network = this.getNetworkByChainId(chainId);
+      const supported = this.getNetworks().filter(candidate => candidate.deployment).map(candidate => candidate.name);
+      throw new Error(
+        `AgriTrace is not deployed on ${network?.name || `chain ${chainId}`}. Switch to ${supported.join(' or ') || 'a configured network'}.`
+      );
+    }
+    return deployment;
+  }
+
+  /**
+   * Read-only provider for a chain, falling back across its configured RPC URLs
+   */
+  public getReadOnlyProvider(chainId: number = this.activeChainId): ethers.Provider {
+    const cached = this.providers.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    const network = this.getNetworkByChainId(chainId);
+    if (!network || network.rpcUrls.length === 0) {
+      throw new Error(`No RPC URL configured for chain ${chainId}`);
+    }
+
+    const staticNetwork = ethers.Network.from(network.chainId);
+    const backends = network.rpcUrls.map(url => new ethers.JsonRpcProvider(url, staticNetwork, { staticNetwork }));
+    const provider = backends.length === 1
+      ? backends[0]
+      : new ethers.FallbackProvider(
+        backends.map((backend, index) => ({ provider: backend, priority: index + 1, stallTimeout: 2000 })),
+        staticNetwork,
+        { quorum: 1 }
+      );
+
+    this.providers.set(chainId, provider);
+    return provider;
+  }
+
+  public getExplorerTxUrl(chainId: number, transactionHash: string): string | null {
+    const explorer = this.getNetworkByChainId(chainId)?.blockExplorer;
+    return explorer ? `${explorer.replace(/\/$/, '')}/tx/${transactionHash}` : null;
+  }
+
+  /**
+   * Record where an off-chain batch lives on-chain. A batch registered on one deployment and
+   * migrated to another has one link per deployment.
+   */
+  public async linkBatch(
+    batchId: string,
+    ref: BatchDeploymentRef,
+    source: 'registered' | 'migrated' = 'registered'
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('batch_chain_links')
+      .upsert({
+        batch_id: batchId,
+        chain_id: ref.chainId,
+        contract_address: ref.contractAddress.toLowerCase(),
+        blockchain_batch_id: ref.blockchainBatchId,
+        source
+      }, {
+        onConflict: 'chain_id,contract_address,blockchain_batch_id',
+        // A registration link never overwrites the record of a migration
+        ignoreDuplicates: source === 'registered'
+      });
+
+    if (error) {
+      logger.error('Error linking batch to deployment', error);
+      throw new Error('Failed to link batch to deployment');
+    }
+  }
+
+  /**
+   * Deployment links of an off-chain batch, oldest first
+   */
+  public async getBatchLinks(batchId: string): Promise<BatchChainLink[]> {
+    const { data, error } = await supabase
+      .from('batch_chain_links')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching batch chain links', error);
+      throw new Error('Failed to fetch batch chain links');
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Every deployment a batch has lived on, oldest first. Accepts any one of its on-chain identities.
+   */
+  public async getBatchDeployments(ref: BatchDeploymentRef): Promise<BatchDeploymentRef[]> {
+    const { data: link, error } = await supabase
+      .from('batch_chain_links')
+      .select('batch_id')
+      .eq('chain_id', ref.chainId)
+      .eq('contract_address', ref.contractAddress.toLowerCase())
+      .eq('blockchain_batch_id', ref.blockchainBatchId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching batch chain link', error);
+      throw new Error('Failed to fetch batch chain link');
+    }
+    if (!link) {
+      return [ref];
+    }
+
+    const { data: links, error: linksError } = await supabase
+      .from('batch_chain_links')
+      .select('*')
+      .eq('batch_id', link.batch_id)
+      .order('created_at', { ascending: true });
+
+    if (linksError) {
+      logger.error('Error fetching batch chain links', linksError);
+      throw new Error('Failed to fetch batch chain links');
+    }
+
+    return (links || []).map(row => ({
+      chainId: row.chain_id,
+      contractAddress: row.contract_address,
+      blockchainBatchId: row.blockchain_batch_id
+    }));
+  }
+}
+
+// Export singleton instance
+export const networkRegistry = NetworkRegistry.getInstance();
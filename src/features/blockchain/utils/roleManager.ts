@@ -0,0 +1,267 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { getContractInstance } from './contractUtils';
+import { chainEventIndexer } from './chainEventIndexer';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+export type ContractRole = 'FARMER_ROLE' | 'DISTRIBUTOR_ROLE' | 'RETAILER_ROLE';
+
+export const CONTRACT_ROLES: ContractRole[] = ['FARMER_ROLE', 'DISTRIBUTOR_ROLE', 'RETAILER_ROLE'];
+
+// The on-chain role each profile type needs; helpers, admins and drivers hold none
+export const ROLE_FOR_USER_TYPE: Record<string, ContractRole> = {
+  farmer: 'FARMER_ROLE',
+  distributor: 'DISTRIBUTOR_ROLE',
+  retailer: 'RETAILER_ROLE'
+};
+
+export type RoleSyncStatus = 'in_sync' | 'missing_role' | 'unexpected_role' | 'no_wallet' | 'unknown_holder';
+
+export interface RoleSyncEntry {
+  key: string;
+  profileId: string | null;
+  name: string | null;
+  userType: string | null;
+  address: string | null;
+  expectedRole: ContractRole | null;
+  onChainRoles: ContractRole[];
+  missing: ContractRole[];
+  unexpected: ContractRole[];
+  status: RoleSyncStatus;
+}
+
+export interface RoleChange {
+  action: 'grant' | 'revoke';
+  role: ContractRole;
+  address: string;
+  profileId: string | null;
+}
+
+export interface RoleChangeProgress {
+  change: RoleChange;
+  state: 'pending' | 'submitted' | 'confirmed' | 'failed';
+  transactionHash?: string;
+  error?: string;
+}
+
+const roleHash = (role: ContractRole) => ethers.keccak256(ethers.toUtf8Bytes(role));
+
+/**
+ * Role Manager
+ * Compares each profile's user type and wallet with the roles it holds on the contract, lists
+ * holders the database does not know about (from indexed RoleGranted/RoleRevoked events), and
+ * grants or revokes roles from the admin's wallet. Every change is written to audit_logs.
+ */
+export class RoleManager {
+  private static instance: RoleManager;
+
+  private constructor() {}
+
+  public static getInstance(): RoleManager {
+    if (!RoleManager.instance) {
+      RoleManager.instance = new RoleManager();
+    }
+    return RoleManager.instance;
+  }
+
+  /**
+   * Role state of every profile, plus on-chain role holders with no matching profile
+   */
+  public async getRoleSyncReport(provider: ethers.Provider): Promise<RoleSyncEntry[]> {
+    try {
+      const contract = getContractInstance(provider);
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, user_type, wallet_address');
+
+      if (error) {
+        logger.error('Error fetching profiles for role sync', error);
+        throw new Error('Failed to fetch profiles');
+      }
+
+      const knownAddresses = new Set<string>();
+      const entries = await Promise.all((profiles || []).map(async profile => {
+        const userType = profile.user_type?.toLowerCase() || null;
+        const expectedRole = (userType && ROLE_FOR_USER_TYPE[userType]) || null;
+        const address = profile.wallet_address && ethers.isAddress(profile.wallet_address)
+          ? ethers.getAddress(profile.wallet_address)
+          : null;
+
+        if (address) {
+          knownAddresses.add(address);
+        }
+
+        const onChainRoles = address ? await this.getRolesOf(contract, address) : [];
+        return this.buildEntry(profile.id, profile.id, profile.full_name, userType, address, expectedRole, onChainRoles);
+      }));
+
+      const unknownHolders = await this.getUnknownHolders(contract, provider, knownAddresses);
+      return [...entries, ...unknownHolders];
+    } catch (error) {
+      logger.error('Error building role sync report', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * Grants and revokes that would bring an entry in line with its profile
+   */
+  public getFixes(entry: RoleSyncEntry): RoleChange[] {
+    if (!entry.address) {
+      return [];
+    }
+    return [
+      ...entry.missing.map(role => ({ action: 'grant' as const, role, address: entry.address!, profileId: entry.profileId })),
+      ...entry.unexpected.map(role => ({ action: 'revoke' as const, role, address: entry.address!, profileId: entry.profileId }))
+    ];
+  }
+
+  /**
+   * Apply role changes one transaction at a time from the admin's wallet, reporting each
+   * transaction as it is submitted and confirmed. A failed change does not stop the rest.
+   */
+  public async applyChanges(
+    signer: ethers.Signer,
+    changes: RoleChange[],
+    actor: string,
+    onProgress?: (index: number, progress: RoleChangeProgress) => void
+  ): Promise<RoleChangeProgress[]> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+
+    const contract = getContractInstance(signer.provider, signer);
+    const adminAddress = await signer.getAddress();
+    if (!(await contract.hasRole(ethers.ZeroHash, adminAddress))) {
+      throw new Error('Connected wallet is not a contract admin');
+    }
+
+    const chainId = Number((await signer.provider.getNetwork()).chainId);
+    const results: RoleChangeProgress[] = [];
+
+    for (const [index, change] of changes.entries()) {
+      const report = (progress: RoleChangeProgress) => {
+        results[index] = progress;
+        onProgress?.(index, progress);
+      };
+
+      report({ change, state: 'pending' });
+      let transactionHash: string | undefined;
+      try {
+        const tx = change.action === 'grant'
+          ? await contract.grantRole(roleHash(change.role), change.address)
+          : await contract.revokeRole(roleHash(change.role), change.address);
+        transactionHash = tx.hash;
+        report({ change, state: 'submitted', transactionHash });
+
+        await tx.wait();
+        report({ change, state: 'confirmed', transactionHash });
+        await this.recordAudit(change, actor, 'success', { chainId, transactionHash, admin: adminAddress });
+      } catch (error) {
+        const message = sanitizeError(error);
+        logger.error('Role change failed', { change, error });
+        report({ change, state: 'failed', transactionHash, error: message });
+        await this.recordAudit(change, actor, 'failed', { chainId, transactionHash, admin: adminAddress, error: message });
+      }
+    }
+
+    return results;
+  }
+
+  private async getRolesOf(contract: ethers.Contract, address: string): Promise<ContractRole[]> {
+    const held = await Promise.all(CONTRACT_ROLES.map(async role => {
+      try {
+        return (await contract.hasRole(roleHash(role), address)) as boolean;
+      } catch (error) {
+        logger.warn('Could not read role', { role, address, error });
+        return false;
+      }
+    }));
+    return CONTRACT_ROLES.filter((_, i) => held[i]);
+  }
+
+  /**
+   * Addresses holding a role on-chain that no profile claims. Candidates come from indexed role
+   * events and are confirmed against the contract, so a stale index cannot invent a holder.
+   */
+  private async getUnknownHolders(
+    contract: ethers.Contract,
+    provider: ethers.Provider,
+    knownAddresses: Set<string>
+  ): Promise<RoleSyncEntry[]> {
+    const chainId = Number((await provider.getNetwork()).chainId);
+    let events;
+    try {
+      events = await chainEventIndexer.getEventsByName(['RoleGranted', 'RoleRevoked'], chainId);
+    } catch (error) {
+      logger.warn('Role events unavailable; skipping unknown holder check', error);
+      return [];
+    }
+
+    const candidates = new Set<string>();
+    for (const event of events) {
+      if (event.event_name === 'RoleGranted' && event.to_address && ethers.isAddress(event.to_address)) {
+        candidates.add(ethers.getAddress(event.to_address));
+      }
+    }
+
+    const entries: RoleSyncEntry[] = [];
+    for (const address of candidates) {
+      if (knownAddresses.has(address)) continue;
+
+      const onChainRoles = await this.getRolesOf(contract, address);
+      if (onChainRoles.length > 0) {
+        entries.push(this.buildEntry(`address:${address}`, null, null, null, address, null, onChainRoles));
+      }
+    }
+    return entries;
+  }
+
+  private buildEntry(
+    key: string,
+    profileId: string | null,
+    name: string | null,
+    userType: string | null,
+    address: string | null,
+    expectedRole: ContractRole | null,
+    onChainRoles: ContractRole[]
+  ): RoleSyncEntry {
+    const missing = address && expectedRole && !onChainRoles.includes(expectedRole) ? [expectedRole] : [];
+    const unexpected = onChainRoles.filter(role => role !== expectedRole);
+
+    let status: RoleSyncStatus = 'in_sync';
+    if (!profileId) {
+      status = 'unknown_holder';
+    } else if (!address) {
+      status = expectedRole ? 'no_wallet' : 'in_sync';
+    } else if (missing.length > 0) {
+      status = 'missing_role';
+    } else if (unexpected.length > 0) {
+      status = 'unexpected_role';
+    }
+
+    return { key, profileId, name, userType, address, expectedRole, onChainRoles, missing, unexpected, status };
+  }
+
+  private async recordAudit(
+    change: RoleChange,
+    actor: string,
+    status: 'success' | 'failed',
+    details: Record<string, unknown>
+  ): Promise<void> {
+    // The audit row's user is taken from the session; the caller's label is kept in the details
+    const { error } = await supabase.rpc('record_audit_log', {
+      p_action: `role.${change.action}`,
+      p_status: status,
+      p_details: { role: change.role, address: change.address, profileId: change.profileId, actor, ...details }
+    });
+
+    if (error) {
+      logger.warn('Failed to record role change in audit log', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const roleManager = RoleManager.getInstance();
@@ -0,0 +1,157 @@
+import { ethers } from 'ethers';
+import { SupplyChainTransaction, TransactionInclusionProof } from '@/types/transaction';
+
+/**
+ * Transaction Hashing
+ * Canonical content hashes for supply chain transactions and Merkle proofs over a batch.
+ * Hashes use keccak256 and sorted-pair Merkle nodes so roots can be checked on-chain.
+ */
+
+type CanonicalValue = string | number | boolean | CanonicalValue[] | { [key: string]: CanonicalValue };
+
+/**
+ * Drop undefined/null values and sort object keys so the same data always serializes identically,
+ * whether it comes straight from the client or back out of a Postgres jsonb column
+ */
+function normalizeValue(value: unknown): CanonicalValue | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeValue(item) ?? '');
+  }
+
+  if (typeof value === 'object') {
+    const normalized: { [key: string]: CanonicalValue } = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const item = normalizeValue((value as Record<string, unknown>)[key]);
+      if (item !== undefined) {
+        normalized[key] = item;
+      }
+    }
+    return normalized;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+    return value;
+  }
+
+  return String(value);
+}
+
+/**
+ * Deterministic JSON serialization (sorted keys, no null/undefined fields)
+ */
+export function canonicalStringify(value: unknown): string {
+  return JSON.stringify(normalizeValue(value) ?? null);
+}
+
+/**
+ * Fields covered by the content hash. Storage pointers (IPFS, blockchain, anchoring)
+ * are attached after hashing and are not part of the content.
+ */
+function getHashedContent(transaction: SupplyChainTransaction): Record<string, unknown> {
+  return {
+    transactionId: transaction.transactionId,
+    type: transaction.type,
+    from: transaction.from,
+    to: transaction.to,
+    quantity: Number(transaction.quantity),
+    price: Number(transaction.price),
+    timestamp: new Date(transaction.timestamp).toISOString(),
+    previousTransactionHash: transaction.previousTransactionHash,
+    previousContentHash: transaction.previousContentHash,
+    batchId: transaction.batchId,
+    productDetails: transaction.productDetails,
+    metadata: transaction.metadata
+  };
+}
+
+/**
+ * Compute the content hash of a transaction, chained to its predecessor through previousContentHash
+ */
+export function computeContentHash(transaction: SupplyChainTransaction): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalStringify(getHashedContent(transaction))));
+}
+
+function hashPair(a: string, b: string): string {
+  // Sorted pairs keep proofs free of left/right flags (OpenZeppelin MerkleProof compatible)
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Build every level of a Merkle tree, leaves first. An odd node is carried up unchanged.
+ */
+export function buildMerkleLevels(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    return [];
+  }
+
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+
+  return levels;
+}
+
+/**
+ * Merkle root of a list of leaves (ZeroHash for an empty list)
+ */
+export function getMerkleRoot(leaves: string[]): string {
+  const levels = buildMerkleLevels(leaves);
+  return levels.length > 0 ? levels[levels.length - 1][0] : ethers.ZeroHash;
+}
+
+/**
+ * Sibling hashes needed to rebuild the root from the leaf at leafIndex
+ */
+export function getMerkleProof(leaves: string[], leafIndex: number): string[] {
+  const levels = buildMerkleLevels(leaves);
+  const siblings: string[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < levels.length - 1; level++) {
+    const nodes = levels[level];
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < nodes.length) {
+      siblings.push(nodes[siblingIndex]);
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return siblings;
+}
+
+/**
+ * Fold a leaf and its siblings back up to a root and compare
+ */
+export function verifyMerkleProof(leaf: string, siblings: string[], root: string): boolean {
+  const computed = siblings.reduce((node, sibling) => hashPair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Check a single transaction against its inclusion proof without the rest of the batch history.
+ * The transaction is re-hashed, so a copy edited after upload fails even with a valid proof.
+ */
+export function verifyInclusionProof(transaction: SupplyChainTransaction, proof: TransactionInclusionProof): boolean {
+  if (transaction.transactionId !== proof.transactionId) {
+    return false;
+  }
+
+  const contentHash = computeContentHash(transaction);
+  if (contentHash !== proof.contentHash) {
+    return false;
+  }
+
+  return verifyMerkleProof(contentHash, proof.siblings, proof.merkleRoot);
+}
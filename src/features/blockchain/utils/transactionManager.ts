@@ -1,9 +1,11 @@
 import { supabase } from '@/integrations/supabase/client';
-import { Tables } from '@/integrations/supabase/types';
+import { Json, Tables } from '@/integrations/supabase/types';
 import { ipfsService } from '@/features/ipfs/utils/ipfs';
-import { SupplyChainTransaction, TransactionChain, OwnershipRecord } from '@/types/transaction';
+import { SupplyChainTransaction, TransactionChain, OwnershipRecord, LineageEdge, TransactionInclusionProof, TransferAttestation } from '@/types/transaction';
 import { nameResolver } from '@/features/blockchain/utils/nameResolver';
 import { blockchainTransactionManager } from './blockchainTransactionManager';
+import { computeContentHash, getMerkleRoot, getMerkleProof } from './transactionHashing';
+import { toOnChainQuantity, fromOnChainQuantity } from './contractUtils';
 import { logger } from '@/lib/logger';
 import { sanitizeError, sanitizeString, isValidUUID } from '@/lib/security';
 
@@ -11,11 +13,14 @@ type TransactionRow = Tables<'transactions'>;
 type BatchRow = Tables<'batches'>;
 type ProfileRow = Tables<'profiles'>;
 type GroupFileRow = Tables<'group_files'>;
+type BatchLineageRow = Tables<'batch_lineage'>;
 
 type BatchWithProfile = BatchRow & {
   profiles?: Pick<ProfileRow, 'full_name' | 'farm_location'> | null;
 };
 
+type ContentHashCheck = { errors: string[]; merkleRoot?: string; proofs: TransactionInclusionProof[] };
+
 /**
  * TransactionType Enum - Replace hardcoded strings
  */
@@ -96,6 +101,9 @@ export class TransactionManager {
       
       // Generate unique transaction ID
       const transactionId = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // Chain the content hash to the latest hashed transaction of this batch
+      const previousContentHash = await this.getLatestContentHash(batchId);
       
       // Create transaction object with validated data
       const transaction: SupplyChainTransaction = {
@@ -111,9 +119,13 @@ export class TransactionManager {
         productDetails,
         metadata,
         ipfsHash: '', // Will be set after IPFS upload
-        blockchainHash: undefined
+        blockchainHash: undefined,
+        previousContentHash
       };
 
+      // Hash the content before upload so the IPFS copy carries the same hash as the database row
+      transaction.contentHash = computeContentHash(transaction);
+
       // Upload transaction to IPFS
       const transactionBlob = new Blob([JSON.stringify(transaction, null, 2)], {
         type: 'application/json'
@@ -165,7 +177,9 @@ export class TransactionManager {
           previous_transaction_hash: transaction.previousTransactionHash ?? null,
           ipfs_hash: transaction.ipfsHash,
           product_details: transaction.productDetails,
-          metadata: transaction.metadata ?? null,
+          metadata: (transaction.metadata ?? null) as Json,
+          content_hash: transaction.contentHash ?? null,
+          previous_content_hash: transaction.previousContentHash ?? null,
         } satisfies Tables<'transactions'>);
 
       if (error) {
@@ -691,15 +705,40 @@ export class TransactionManager {
           }
 
           availableQuantity -= transaction.quantity;
+        } else if (transaction.type === TransactionType.PROCESSING && transaction.metadata?.lineage) {
+          if (transaction.metadata.lineage.direction === 'IN') {
+            // Derived batch (split or merge) - opens like a harvest for the re-packing owner
+            currentOwners[transaction.to] = {
+              quantity: transaction.quantity,
+              lastTransaction: transaction.transactionId
+            };
+            totalQuantity = transaction.quantity;
+            availableQuantity = transaction.quantity;
+          } else {
+            // Quantity re-packed out of this batch into a derived batch
+            if (currentOwners[transaction.from]) {
+              currentOwners[transaction.from].quantity -= transaction.quantity;
+              if (currentOwners[transaction.from].quantity <= 0) {
+                delete currentOwners[transaction.from];
+              }
+            }
+
+            availableQuantity -= transaction.quantity;
+          }
         }
       }
 
+      const merkleLeaves = this.getMerkleLeaves(transactions);
+
       return {
         batchId,
         transactions,
         currentOwners,
         totalQuantity,
-        availableQuantity: Math.max(0, availableQuantity)
+        availableQuantity: Math.max(0, availableQuantity),
+        merkleRoot: merkleLeaves.length > 0
+          ? getMerkleRoot(merkleLeaves.map(tx => tx.contentHash!))
+          : undefined
       };
     } catch (error) {
       logger.error('Error building transaction chain', error);
@@ -707,6 +746,87 @@ export class TransactionManager {
     }
   }
 
+  /**
+   * Find the key a profile is tracked under in a batch's currentOwners
+   * Chain owners are keyed by resolved display names, so both the ID and the name are checked
+   */
+  public async findOwnerKey(batchId: string, ownerProfileId: string): Promise<string | null> {
+    try {
+      const chain = await this.getTransactionChain(batchId);
+
+      if (chain.currentOwners[ownerProfileId]) {
+        return ownerProfileId;
+      }
+
+      if (!isValidUUID(ownerProfileId)) {
+        return null;
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name, user_type')
+        .eq('id', ownerProfileId)
+        .single();
+
+      if (!profile) {
+        return null;
+      }
+
+      return [formatProfileName(profile), profile.full_name || '']
+        .find(key => key && chain.currentOwners[key]) ?? null;
+    } catch (error) {
+      logger.error('Error finding batch owner', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get quantity of a batch currently held by a profile
+   */
+  public async getOwnedQuantity(batchId: string, ownerProfileId: string): Promise<number> {
+    const ownerKey = await this.findOwnerKey(batchId, ownerProfileId);
+    if (!ownerKey) {
+      return 0;
+    }
+
+    const chain = await this.getTransactionChain(batchId);
+    return chain.currentOwners[ownerKey]?.quantity ?? 0;
+  }
+
+  /**
+   * Get lineage links for a batch from the batch_lineage table
+   * 'parents' returns the batches it was split or merged from, 'children' the batches derived from it
+   */
+  public async getBatchLineageLinks(batchId: string, direction: 'parents' | 'children'): Promise<LineageEdge[]> {
+    try {
+      const column = direction === 'parents' ? 'child_batch_id' : 'parent_batch_id';
+      const { data, error } = await supabase
+        .from('batch_lineage')
+        .select('*')
+        .eq(column, sanitizeString(batchId, 100))
+        .order('created_at', { ascending: true });
+
+      if (error || !data) {
+        if (error) {
+          logger.warn('Batch lineage not available', { batchId: sanitizeString(batchId, 100), error });
+        }
+        return [];
+      }
+
+      return data.map((row: BatchLineageRow) => ({
+        parentBatchId: row.parent_batch_id,
+        childBatchId: row.child_batch_id,
+        operation: row.operation as LineageEdge['operation'],
+        quantity: Number(row.quantity) || 0,
+        transactionId: row.transaction_id ?? '',
+        createdAt: row.created_at ?? ''
+      }));
+    } catch (error) {
+      logger.error('Error getting batch lineage links', error);
+      return [];
+    }
+  }
+
   /**
    * Get blockchain transaction history for a batch
    */
@@ -758,7 +878,8 @@ export class TransactionManager {
       const ownershipHistory: OwnershipRecord[] = [];
 
       for (const transaction of chain.transactions) {
-        if (transaction.type === TransactionType.HARVEST || transaction.type === TransactionType.PURCHASE || transaction.type === TransactionType.TRANSFER) {
+        const opensDerivedBatch = transaction.type === TransactionType.PROCESSING && transaction.metadata?.lineage?.direction === 'IN';
+        if (transaction.type === TransactionType.HARVEST || transaction.type === TransactionType.PURCHASE || transaction.type === TransactionType.TRANSFER || opensDerivedBatch) {
           // For all transactions, the "to" field becomes the owner
           ownershipHistory.push({
             owner: transaction.to,
@@ -777,6 +898,125 @@ export class TransactionManager {
     }
   }
 
+  /**
+   * Content hash of the most recent hashed transaction for a batch
+   */
+  private async getLatestContentHash(batchId: string): Promise<string | undefined> {
+    try {
+      const { data } = await supabase
+        .from('transactions')
+        .select('content_hash')
+        .eq('batch_id', batchId)
+        .not('content_hash', 'is', null)
+        .order('transaction_timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      return data?.content_hash ?? undefined;
+    } catch (error) {
+      logger.warn('Could not read previous content hash', { batchId: sanitizeString(batchId, 100), error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Hashed transactions in Merkle leaf order (timestamp, then transaction ID)
+   */
+  private getMerkleLeaves(transactions: SupplyChainTransaction[]): SupplyChainTransaction[] {
+    return transactions
+      .filter(tx => tx.contentHash)
+      .sort((a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+        a.transactionId.localeCompare(b.transactionId)
+      );
+  }
+
+  /**
+   * Transactions exactly as stored, without display-name resolution, so content hashes can be recomputed
+   */
+  public async getStoredTransactions(batchId: string): Promise<SupplyChainTransaction[]> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('transaction_timestamp', { ascending: true });
+
+    if (error || !data) {
+      return [];
+    }
+
+    return data.map((record: TransactionRow) => this.mapDatabaseToTransaction(record));
+  }
+
+  /**
+   * Get the Merkle inclusion proof for one transaction in its batch
+   */
+  public async getInclusionProof(transactionId: string): Promise<TransactionInclusionProof | null> {
+    try {
+      const transaction = await this.getTransaction(transactionId);
+      if (!transaction?.contentHash) {
+        return null;
+      }
+
+      const leaves = this.getMerkleLeaves(await this.getStoredTransactions(transaction.batchId));
+      return this.buildInclusionProofs(transaction.batchId, leaves).find(proof => proof.transactionId === transactionId) ?? null;
+    } catch (error) {
+      logger.error('Error building inclusion proof', error);
+      return null;
+    }
+  }
+
+  private buildInclusionProofs(batchId: string, leaves: SupplyChainTransaction[]): TransactionInclusionProof[] {
+    const hashes = leaves.map(tx => tx.contentHash!);
+    const merkleRoot = getMerkleRoot(hashes);
+
+    return leaves.map((tx, leafIndex) => ({
+      transactionId: tx.transactionId,
+      batchId,
+      contentHash: tx.contentHash!,
+      leafIndex,
+      siblings: getMerkleProof(hashes, leafIndex),
+      merkleRoot
+    }));
+  }
+
+  /**
+   * Recompute every stored content hash and check each one links to its predecessor
+   */
+  private async verifyContentHashes(batchId: string): Promise<ContentHashCheck> {
+    const stored = await this.getStoredTransactions(batchId);
+    const errors: string[] = [];
+    let previousContentHash: string | undefined;
+
+    for (const transaction of stored) {
+      if (!transaction.contentHash) {
+        // Rows written before content hashing are tolerated only ahead of the hashed chain
+        if (previousContentHash) {
+          errors.push(`Batch ${batchId}: Transaction ${transaction.transactionId} is missing its content hash`);
+        }
+        continue;
+      }
+
+      if (computeContentHash(transaction) !== transaction.contentHash) {
+        errors.push(`Batch ${batchId}: Transaction ${transaction.transactionId} does not match its content hash`);
+      }
+
+      if (transaction.previousContentHash !== previousContentHash) {
+        errors.push(`Batch ${batchId}: Transaction ${transaction.transactionId} is not linked to the previous content hash`);
+      }
+
+      previousContentHash = transaction.contentHash;
+    }
+
+    const leaves = this.getMerkleLeaves(stored);
+    if (leaves.length === 0) {
+      return { errors, proofs: [] };
+    }
+
+    const proofs = this.buildInclusionProofs(batchId, leaves);
+    return { errors, merkleRoot: proofs[0].merkleRoot, proofs };
+  }
+
   /**
    * Map database record to transaction object
    */
@@ -802,7 +1042,20 @@ export class TransactionManager {
         ? data.metadata as SupplyChainTransaction['metadata']
         : undefined),
       ipfsHash: data.ipfs_hash ?? '',
-      blockchainHash: data.blockchain_hash ?? undefined
+      blockchainHash: data.blockchain_hash ?? undefined,
+      contentHash: data.content_hash ?? undefined,
+      previousContentHash: data.previous_content_hash ?? undefined,
+      anchor: data.anchor_root && data.anchor_tx_hash
+        ? {
+            merkleRoot: data.anchor_root,
+            anchorTxHash: data.anchor_tx_hash,
+            leafIndex: data.anchor_leaf_index ?? 0,
+            siblings: Array.isArray(data.anchor_proof) ? (data.anchor_proof as string[]) : []
+          }
+        : undefined,
+      attestation: data.attestation && typeof data.attestation === 'object'
+        ? data.attestation as unknown as TransferAttestation
+        : undefined
     };
     
     return transaction;
@@ -810,57 +1063,131 @@ export class TransactionManager {
 
   /**
    * Verify transaction chain integrity
+   * Derived batches are verified back through every parent batch to the source harvests
    */
-  public async verifyTransactionChain(batchId: string): Promise<{ isValid: boolean; errors: string[] }> {
-    try {
-      const chain = await this.getTransactionChain(batchId);
-      const errors: string[] = [];
-
-      // Check if first transaction is HARVEST
-      if (chain.transactions.length === 0) {
-        errors.push('No transactions found');
-        return { isValid: false, errors };
-      }
-
-      if (chain.transactions[0].type !== TransactionType.HARVEST) {
-        errors.push('First transaction must be HARVEST');
-      }
-
-      // Check transaction linking
-      for (let i = 1; i < chain.transactions.length; i++) {
-        const current = chain.transactions[i];
-        const previous = chain.transactions[i - 1];
-        
-        if (current.previousTransactionHash !== previous.ipfsHash) {
-          errors.push(`Transaction ${current.transactionId} has incorrect previous hash`);
-        }
-      }
+  public async verifyTransactionChain(batchId: string): Promise<{
+    isValid: boolean;
+    errors: string[];
+    checkedBatchIds: string[];
+    merkleRoot?: string;
+    proofs: TransactionInclusionProof[];
+  }> {
+    const visited = new Set<string>();
+    const contentChecks = new Map<string, ContentHashCheck>();
 
-      // Check quantity consistency
-      let runningTotal = 0;
-      for (const transaction of chain.transactions) {
-        if (transaction.type === TransactionType.HARVEST) {
-          runningTotal = transaction.quantity;
-        } else if (transaction.type === TransactionType.PURCHASE || transaction.type === TransactionType.TRANSFER) {
-          runningTotal -= transaction.quantity;
-          if (runningTotal < 0) {
-            errors.push(`Transaction ${transaction.transactionId} exceeds available quantity`);
-          }
-        }
-      }
+    try {
+      const errors = await this.verifyBatchLineage(batchId, visited, contentChecks);
+      const { merkleRoot, proofs } = contentChecks.get(batchId) ?? { proofs: [] };
 
       return {
         isValid: errors.length === 0,
-        errors
+        errors,
+        checkedBatchIds: Array.from(visited),
+        merkleRoot,
+        proofs
       };
     } catch (error) {
       logger.error('Error verifying transaction chain', error);
       return {
         isValid: false,
-        errors: ['Failed to verify transaction chain']
+        errors: ['Failed to verify transaction chain'],
+        checkedBatchIds: Array.from(visited),
+        proofs: []
       };
     }
   }
+
+  /**
+   * Verify a single batch chain, then recurse into its parent batches. Each batch's content hash
+   * check is kept in contentChecks so the caller can reuse its Merkle root and proofs.
+   */
+  private async verifyBatchLineage(batchId: string, visited: Set<string>, contentChecks: Map<string, ContentHashCheck>): Promise<string[]> {
+    visited.add(batchId);
+
+    const chain = await this.getTransactionChain(batchId);
+    const errors: string[] = [];
+
+    if (chain.transactions.length === 0) {
+      errors.push(`Batch ${batchId}: No transactions found`);
+      return errors;
+    }
+
+    const root = chain.transactions[0];
+    const isDerivedBatch = root.type === TransactionType.PROCESSING && root.metadata?.lineage?.direction === 'IN';
+
+    // First transaction must be HARVEST, or the PROCESSING record that opened a split/merged batch
+    if (root.type !== TransactionType.HARVEST && !isDerivedBatch) {
+      errors.push(`Batch ${batchId}: First transaction must be HARVEST`);
+    }
+
+    // Check transaction linking
+    for (let i = 1; i < chain.transactions.length; i++) {
+      const current = chain.transactions[i];
+      const previous = chain.transactions[i - 1];
+
+      if (current.previousTransactionHash !== previous.ipfsHash) {
+        errors.push(`Batch ${batchId}: Transaction ${current.transactionId} has incorrect previous hash`);
+      }
+    }
+
+    // Check stored rows against their content hashes
+    const contentCheck = await this.verifyContentHashes(batchId);
+    contentChecks.set(batchId, contentCheck);
+    errors.push(...contentCheck.errors);
+
+    // Check quantity consistency
+    let runningTotal = 0;
+    for (const transaction of chain.transactions) {
+      const lineage = transaction.metadata?.lineage;
+
+      if (transaction.type === TransactionType.HARVEST || (transaction.type === TransactionType.PROCESSING && lineage?.direction === 'IN')) {
+        runningTotal = transaction.quantity;
+      } else if (
+        transaction.type === TransactionType.PURCHASE ||
+        transaction.type === TransactionType.TRANSFER ||
+        (transaction.type === TransactionType.PROCESSING && lineage?.direction === 'OUT')
+      ) {
+        runningTotal -= transaction.quantity;
+        if (runningTotal < 0) {
+          errors.push(`Batch ${batchId}: Transaction ${transaction.transactionId} exceeds available quantity`);
+        }
+      }
+    }
+
+    if (!isDerivedBatch) {
+      return errors;
+    }
+
+    // Walk the lineage graph: every parent must record the quantity it released into this batch
+    const parentLinks = await this.getBatchLineageLinks(batchId, 'parents');
+    if (parentLinks.length === 0) {
+      errors.push(`Batch ${batchId}: Derived batch has no recorded parent batches`);
+      return errors;
+    }
+
+    // Compared in whole grams, the contract's unit, so summed kilogram fractions do not drift
+    const linkedGrams = parentLinks.reduce((sum, link) => sum + toOnChainQuantity(link.quantity), 0n);
+    if (linkedGrams !== toOnChainQuantity(root.quantity)) {
+      errors.push(`Batch ${batchId}: Parent batches released ${fromOnChainQuantity(linkedGrams)} kg but batch opened with ${root.quantity} kg`);
+    }
+
+    for (const link of parentLinks) {
+      const parentChain = await this.getTransactionChain(link.parentBatchId);
+      const releaseTransaction = parentChain.transactions.find(tx => tx.transactionId === link.transactionId);
+
+      if (!releaseTransaction || releaseTransaction.metadata?.lineage?.direction !== 'OUT' || !releaseTransaction.metadata.lineage.childBatchIds.includes(batchId)) {
+        errors.push(`Batch ${batchId}: Parent batch ${link.parentBatchId} has no matching ${link.operation} record`);
+      } else if (toOnChainQuantity(releaseTransaction.quantity) !== toOnChainQuantity(link.quantity)) {
+        errors.push(`Batch ${batchId}: Parent batch ${link.parentBatchId} released ${releaseTransaction.quantity} kg, lineage records ${link.quantity} kg`);
+      }
+
+      if (!visited.has(link.parentBatchId)) {
+        errors.push(...await this.verifyBatchLineage(link.parentBatchId, visited, contentChecks));
+      }
+    }
+
+    return errors;
+  }
 }
 
 // Export singleton instance
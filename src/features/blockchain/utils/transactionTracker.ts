@@ -0,0 +1,341 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+export type BlockchainOperation = Tables<'blockchain_operations'>;
+export type OperationStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped' | 'replaced';
+
+export interface TrackOptions {
+  purpose: string;
+  batchId?: string | number | null;
+  replacesHash?: string;
+}
+
+type OperationsListener = (operations: BlockchainOperation[]) => void;
+
+const POLL_INTERVAL_MS = 15 * 1000;
+// A transaction the node has never seen, whose nonce is still free, is treated as dropped after this long
+const DROP_AFTER_MS = 30 * 60 * 1000;
+// Finished operations stay in the tray for this long
+const RECENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Replacement transactions must raise fees by at least 10%; bump a little more so nodes accept them
+const DEFAULT_BUMP_PERCENT = 20n;
+
+/**
+ * Transaction Tracker
+ * Every submitted contract transaction is stored in blockchain_operations with its purpose, batch and
+ * the fields needed to resend it. Pending rows are polled until they confirm, revert, drop or are
+ * replaced (a wallet speed-up or cancel reuses the nonce), so a pending operation survives a closed
+ * tab. A stuck transaction can be resent with the same nonce and bumped fees.
+ */
+export class TransactionTracker {
+  private static instance: TransactionTracker;
+  private listeners = new Set<OperationsListener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private provider: ethers.Provider | null = null;
+  private account: string | null = null;
+  private operations: BlockchainOperation[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): TransactionTracker {
+    if (!TransactionTracker.instance) {
+      TransactionTracker.instance = new TransactionTracker();
+    }
+    return TransactionTracker.instance;
+  }
+
+  /**
+   * Poll the account's pending operations on an interval until stop() is called
+   */
+  public start(provider: ethers.Provider, account: string): void {
+    this.stop();
+    this.provider = provider;
+    this.account = ethers.getAddress(account);
+    this.checkPending().catch(error => logger.warn('Initial transaction status check failed', error));
+    this.timer = setInterval(() => {
+      this.checkPending().catch(error => logger.warn('Transaction status check failed', error));
+    }, POLL_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.provider = null;
+    this.account = null;
+    this.operations = [];
+    this.notify();
+  }
+
+  public subscribe(listener: OperationsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.operations);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record a submitted transaction
+   */
+  public async track(tx: ethers.TransactionResponse, options: TrackOptions): Promise<void> {
+    const row: TablesInsert<'blockchain_operations'> = {
+      chain_id: Number(tx.chainId),
+      transaction_hash: tx.hash,
+      from_address: ethers.getAddress(tx.from),
+      to_address: tx.to,
+      nonce: tx.nonce,
+      data: tx.data,
+      value: tx.value.toString(),
+      gas_limit: tx.gasLimit.toString(),
+      gas_price: tx.gasPrice?.toString() ?? null,
+      max_fee_per_gas: tx.maxFeePerGas?.toString() ?? null,
+      max_priority_fee_per_gas: tx.maxPriorityFeePerGas?.toString() ?? null,
+      purpose: options.purpose,
+      batch_id: options.batchId != null ? String(options.batchId) : null,
+      replaces_hash: options.replacesHash ?? null
+    };
+
+    const { error } = await supabase
+      .from('blockchain_operations')
+      .upsert(row, { onConflict: 'transaction_hash', ignoreDuplicates: true });
+
+    if (error) {
+      // Tracking is best effort; the transaction itself has already been sent
+      logger.warn('Failed to record blockchain operation', { hash: tx.hash, error });
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Wait for a tracked transaction. A wallet speed-up resolves with the replacement's receipt;
+   * a cancel or a revert throws. Either way the stored status is updated.
+   */
+  public async waitForReceipt(tx: ethers.TransactionResponse, options: TrackOptions): Promise<ethers.TransactionReceipt> {
+    try {
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error('Transaction receipt not available');
+      }
+      await this.resolve(tx.hash, receipt.status === 1 ? 'confirmed' : 'reverted', { block_number: receipt.blockNumber });
+      return receipt;
+    } catch (error) {
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        await this.track(error.replacement, { ...options, replacesHash: tx.hash });
+        await this.resolve(tx.hash, 'replaced', { replaced_by_hash: error.replacement.hash });
+        await this.resolve(error.replacement.hash, error.receipt.status === 1 ? 'confirmed' : 'reverted', {
+          block_number: error.receipt.blockNumber
+        });
+
+        if (!error.cancelled && error.receipt.status === 1) {
+          logger.debug('Transaction was sped up', { original: tx.hash, replacement: error.replacement.hash });
+          return error.receipt;
+        }
+        throw new Error(error.cancelled ? 'Transaction was cancelled in the wallet' : 'Replacement transaction reverted');
+      }
+
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        await this.resolve(tx.hash, 'reverted', { error: sanitizeError(error) });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send and track a contract transaction, then wait for it
+   */
+  public async send(
+    submit: () => Promise<ethers.TransactionResponse>,
+    options: TrackOptions
+  ): Promise<{ tx: ethers.TransactionResponse; wait: () => Promise<ethers.TransactionReceipt> }> {
+    const tx = await submit();
+    await this.track(tx, options);
+    return { tx, wait: () => this.waitForReceipt(tx, options) };
+  }
+
+  /**
+   * Resend a pending operation with the same nonce and bumped fees
+   */
+  public async speedUp(signer: ethers.Signer, operation: BlockchainOperation, bumpPercent = DEFAULT_BUMP_PERCENT): Promise<string> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+    if (operation.status !== 'pending') {
+      throw new Error('Only pending transactions can be sped up');
+    }
+    if (ethers.getAddress(await signer.getAddress()) !== ethers.getAddress(operation.from_address)) {
+      throw new Error(`Connect ${operation.from_address} to speed up this transaction`);
+    }
+
+    const bump = (value: string | null, current: bigint | null): bigint | undefined => {
+      if (value === null && current === null) return undefined;
+      const bumped = (BigInt(value ?? '0') * (100n + bumpPercent)) / 100n;
+      return current !== null && current > bumped ? current : bumped;
+    };
+
+    try {
+      const feeData = await signer.provider.getFeeData();
+      const fees = operation.max_fee_per_gas !== null
+        ? {
+          maxFeePerGas: bump(operation.max_fee_per_gas, feeData.maxFeePerGas),
+          maxPriorityFeePerGas: bump(operation.max_priority_fee_per_gas, feeData.maxPriorityFeePerGas)
+        }
+        : { gasPrice: bump(operation.gas_price, feeData.gasPrice) };
+
+      const { tx } = await this.send(() => signer.sendTransaction({
+        to: operation.to_address,
+        data: operation.data,
+        value: BigInt(operation.value),
+        nonce: operation.nonce,
+        gasLimit: BigInt(operation.gas_limit),
+        chainId: operation.chain_id,
+        ...fees
+      }), {
+        purpose: operation.purpose,
+        batchId: operation.batch_id,
+        replacesHash: operation.transaction_hash
+      });
+
+      logger.debug('Sent replacement transaction', { original: operation.transaction_hash, replacement: tx.hash });
+      return tx.hash;
+    } catch (error) {
+      logger.error('Error speeding up transaction', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * Hide a finished operation from the tray
+   */
+  public dismiss(operationId: string): void {
+    this.operations = this.operations.filter(operation => operation.id !== operationId);
+    this.notify();
+  }
+
+  /**
+   * Check every pending operation of the current account against the chain
+   */
+  public async checkPending(): Promise<void> {
+    if (!this.provider || !this.account) return;
+
+    const provider = this.provider;
+    const chainId = Number((await provider.getNetwork()).chainId);
+    const { data: pending, error } = await supabase
+      .from('blockchain_operations')
+      .select('*')
+      .eq('chain_id', chainId)
+      .eq('from_address', this.account)
+      .eq('status', 'pending');
+
+    if (error) {
+      logger.warn('Failed to load pending blockchain operations', error);
+      return;
+    }
+
+    const latestNonce = pending && pending.length > 0 ? await provider.getTransactionCount(this.account, 'latest') : 0;
+
+    for (const operation of pending || []) {
+      try {
+        const receipt = await provider.getTransactionReceipt(operation.transaction_hash);
+        if (receipt) {
+          await this.resolve(operation.transaction_hash, receipt.status === 1 ? 'confirmed' : 'reverted', {
+            block_number: receipt.blockNumber
+          });
+          await this.resolveSiblings(operation);
+          continue;
+        }
+
+        // The nonce was used by another transaction (a speed-up or cancel from the wallet)
+        if (latestNonce > operation.nonce) {
+          const replacement = (pending || []).find(other =>
+            other.nonce === operation.nonce && other.transaction_hash !== operation.transaction_hash
+          );
+          await this.resolve(operation.transaction_hash, 'replaced', {
+            replaced_by_hash: replacement?.transaction_hash ?? null
+          });
+          continue;
+        }
+
+        const seen = await provider.getTransaction(operation.transaction_hash);
+        const age = Date.now() - new Date(operation.submitted_at ?? Date.now()).getTime();
+        if (!seen && age > DROP_AFTER_MS) {
+          await this.resolve(operation.transaction_hash, 'dropped', { error: 'Transaction is no longer known to the node' });
+        }
+      } catch (checkError) {
+        logger.warn('Could not check transaction status', { hash: operation.transaction_hash, error: checkError });
+      }
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Reload the account's pending and recently finished operations and notify subscribers
+   */
+  public async refresh(): Promise<void> {
+    if (!this.account) return;
+
+    const since = new Date(Date.now() - RECENT_WINDOW_MS).toISOString();
+    const { data, error } = await supabase
+      .from('blockchain_operations')
+      .select('*')
+      .eq('from_address', this.account)
+      .or(`status.eq.pending,submitted_at.gte.${since}`)
+      .order('submitted_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      logger.warn('Failed to load blockchain operations', error);
+      return;
+    }
+
+    this.operations = data || [];
+    this.notify();
+  }
+
+  private async resolve(
+    transactionHash: string,
+    status: OperationStatus,
+    fields: Partial<Pick<BlockchainOperation, 'block_number' | 'replaced_by_hash' | 'error'>> = {}
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('blockchain_operations')
+      .update({ status, ...fields, resolved_at: status === 'pending' ? null : now, updated_at: now })
+      .eq('transaction_hash', transactionHash);
+
+    if (error) {
+      logger.warn('Failed to update blockchain operation', { transactionHash, status, error });
+    }
+  }
+
+  // Once one transaction for a nonce is mined, every other pending one with that nonce was replaced by it
+  private async resolveSiblings(mined: BlockchainOperation): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('blockchain_operations')
+      .update({ status: 'replaced', replaced_by_hash: mined.transaction_hash, resolved_at: now, updated_at: now })
+      .eq('chain_id', mined.chain_id)
+      .eq('from_address', mined.from_address)
+      .eq('nonce', mined.nonce)
+      .eq('status', 'pending')
+      .neq('transaction_hash', mined.transaction_hash);
+
+    if (error) {
+      logger.warn('Failed to mark replaced blockchain operations', error);
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.operations);
+    }
+  }
+}
+
+// Export singleton instance
+export const transactionTracker = TransactionTracker.getInstance();
@@ -0,0 +1,316 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { ipfsService } from '@/features/ipfs/utils/ipfs';
+import {
+  SupplyChainTransaction,
+  TransferAttestation,
+  TransferAttestationMessage,
+  AttestationSignature
+} from '@/types/transaction';
+import { transactionManager } from './transactionManager';
+import { toOnChainQuantity } from './contractUtils';
+import { networkRegistry } from './networkRegistry';
+import { logger } from '@/lib/logger';
+import { sanitizeError, sanitizeString, isValidUUID } from '@/lib/security';
+
+export type AttestationRole = 'seller' | 'buyer';
+
+export interface AttestationVerification {
+  status: 'unsigned' | 'partial' | 'signed' | 'invalid';
+  sellerAddress?: string;
+  buyerAddress?: string;
+  sellerVerified: boolean;
+  buyerVerified: boolean;
+  errors: string[];
+}
+
+// Transaction types that move goods between two parties and need both signatures
+export const ATTESTED_TRANSACTION_TYPES: SupplyChainTransaction['type'][] = ['PURCHASE', 'TRANSFER', 'RETAIL'];
+
+const ATTESTATION_DOMAIN_NAME = 'AgriTrace';
+const ATTESTATION_DOMAIN_VERSION = '1';
+
+const ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  TransferAttestation: [
+    { name: 'transactionId', type: 'string' },
+    { name: 'batchId', type: 'string' },
+    { name: 'seller', type: 'address' },
+    { name: 'buyer', type: 'address' },
+    { name: 'quantity', type: 'uint256' },
+    { name: 'price', type: 'uint256' },
+    { name: 'previousHash', type: 'bytes32' }
+  ]
+};
+
+const PAISE_PER_RUPEE = 100;
+
+/**
+ * Transfer Attestation Service
+ * Seller and buyer each sign an EIP-712 attestation of a transfer (batch, quantity, price and the
+ * previous content hash) with their wallets. The signed attestation is stored on the transaction
+ * row and pinned to IPFS. Verification recovers the signer addresses from the signatures and
+ * checks them against the parties' wallets on record, rather than trusting addresses in the message.
+ */
+export class TransferAttestationService {
+  private static instance: TransferAttestationService;
+
+  private constructor() {}
+
+  public static getInstance(): TransferAttestationService {
+    if (!TransferAttestationService.instance) {
+      TransferAttestationService.instance = new TransferAttestationService();
+    }
+    return TransferAttestationService.instance;
+  }
+
+  /**
+   * Typed-data message for a transfer between two wallet addresses
+   */
+  public buildMessage(transaction: SupplyChainTransaction, seller: string, buyer: string): TransferAttestationMessage {
+    return {
+      transactionId: transaction.transactionId,
+      batchId: transaction.batchId,
+      seller: ethers.getAddress(seller),
+      buyer: ethers.getAddress(buyer),
+      quantity: toOnChainQuantity(Number(transaction.quantity)).toString(),
+      price: BigInt(Math.round(Number(transaction.price) * PAISE_PER_RUPEE)).toString(),
+      previousHash: transaction.previousContentHash ?? ethers.ZeroHash
+    };
+  }
+
+  /**
+   * Sign a transfer as its seller or buyer. The first signature fixes both party addresses from
+   * their profile wallets; the counterparty must later sign the same message from that address.
+   */
+  public async signTransfer(signer: ethers.Signer, transactionId: string, role: AttestationRole): Promise<TransferAttestation> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+
+    try {
+      const transaction = await transactionManager.getTransaction(sanitizeString(transactionId, 100));
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+      if (!ATTESTED_TRANSACTION_TYPES.includes(transaction.type)) {
+        throw new Error(`${transaction.type} transactions are not signed by two parties`);
+      }
+
+      const signerAddress = ethers.getAddress(await signer.getAddress());
+      const attestation = transaction.attestation ?? await this.createAttestation(signer, transaction, role, signerAddress);
+
+      if (attestation.message[role] !== signerAddress) {
+        throw new Error(`Connected wallet is not the ${role} of this transfer (${attestation.message[role]})`);
+      }
+
+      const signatureKey = role === 'seller' ? 'sellerSignature' : 'buyerSignature';
+      if (attestation[signatureKey]) {
+        return attestation;
+      }
+
+      const signature = await signer.signTypedData(attestation.domain, ATTESTATION_TYPES, attestation.message);
+      const signed: TransferAttestation = {
+        ...attestation,
+        [signatureKey]: { address: signerAddress, signature, signedAt: new Date().toISOString() } satisfies AttestationSignature
+      };
+
+      signed.ipfsHash = await this.uploadAttestation(transaction, signed) ?? attestation.ipfsHash;
+
+      const { error } = await supabase
+        .from('transactions')
+        .update({ attestation: signed as unknown as Json })
+        .eq('transaction_id', transaction.transactionId);
+
+      if (error) {
+        logger.error('Error storing transfer attestation', error);
+        throw new Error('Failed to store transfer attestation');
+      }
+
+      return signed;
+    } catch (error) {
+      logger.error('Error signing transfer attestation', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * Check the attestation message against the transaction and the parties' wallets on record,
+   * then recover both signers
+   */
+  public async verifyAttestation(transaction: SupplyChainTransaction): Promise<AttestationVerification> {
+    const attestation = transaction.attestation;
+    if (!attestation) {
+      return { status: 'unsigned', sellerVerified: false, buyerVerified: false, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const { message } = attestation;
+
+    try {
+      const expected = this.buildMessage(transaction, message.seller, message.buyer);
+      for (const field of ['transactionId', 'batchId', 'quantity', 'price', 'previousHash'] as const) {
+        if (expected[field].toLowerCase() !== String(message[field]).toLowerCase()) {
+          errors.push(`Signed ${field} does not match the transaction`);
+        }
+      }
+    } catch (error) {
+      errors.push(`Attestation message is malformed: ${sanitizeError(error)}`);
+    }
+
+    // A valid signature only proves who signed; the signer must also be the party the transaction names
+    const [sellerOnRecord, buyerOnRecord] = await Promise.all([
+      this.resolvePartyAddress(transaction.from),
+      this.resolvePartyAddress(transaction.to)
+    ]);
+    this.checkParty(message.seller, sellerOnRecord, 'seller', errors);
+    this.checkParty(message.buyer, buyerOnRecord, 'buyer', errors);
+
+    const sellerVerified = this.verifySignature(attestation, 'seller', errors);
+    const buyerVerified = this.verifySignature(attestation, 'buyer', errors);
+
+    let status: AttestationVerification['status'] = 'partial';
+    if (errors.length > 0) {
+      status = 'invalid';
+    } else if (sellerVerified && buyerVerified) {
+      status = 'signed';
+    }
+
+    return {
+      status,
+      sellerAddress: message.seller,
+      buyerAddress: message.buyer,
+      sellerVerified,
+      buyerVerified,
+      errors
+    };
+  }
+
+  /**
+   * Which side of a transfer the given profile still has to sign, if any
+   */
+  public getPendingRole(transaction: SupplyChainTransaction, profileId: string): AttestationRole | null {
+    if (!ATTESTED_TRANSACTION_TYPES.includes(transaction.type)) {
+      return null;
+    }
+
+    const attestation = transaction.attestation;
+    if (transaction.from === profileId && !attestation?.sellerSignature) {
+      return 'seller';
+    }
+    if (transaction.to === profileId && !attestation?.buyerSignature) {
+      return 'buyer';
+    }
+    return null;
+  }
+
+  private async createAttestation(
+    signer: ethers.Signer,
+    transaction: SupplyChainTransaction,
+    role: AttestationRole,
+    signerAddress: string
+  ): Promise<TransferAttestation> {
+    const [sellerProfileAddress, buyerProfileAddress] = await Promise.all([
+      this.resolvePartyAddress(transaction.from),
+      this.resolvePartyAddress(transaction.to)
+    ]);
+
+    // Both parties are fixed from their wallets on record, so neither side can name an address of its choosing
+    if (!sellerProfileAddress || !buyerProfileAddress) {
+      throw new Error(`The ${sellerProfileAddress ? 'buyer' : 'seller'} has no wallet address on record to attest with`);
+    }
+
+    const ownAddress = role === 'seller' ? sellerProfileAddress : buyerProfileAddress;
+    if (ownAddress !== signerAddress) {
+      throw new Error(`Connected wallet does not match the ${role}'s profile wallet (${ownAddress})`);
+    }
+
+    const network = await signer.provider!.getNetwork();
+    return {
+      domain: {
+        name: ATTESTATION_DOMAIN_NAME,
+        version: ATTESTATION_DOMAIN_VERSION,
+        chainId: Number(network.chainId),
+        verifyingContract: ethers.getAddress(networkRegistry.requireDeployment(Number(network.chainId)).contractAddress)
+      },
+      message: this.buildMessage(transaction, sellerProfileAddress, buyerProfileAddress)
+    };
+  }
+
+  /**
+   * Wallet address for a transaction party: either the address itself or the profile's wallet
+   */
+  private async resolvePartyAddress(identifier: string): Promise<string | null> {
+    if (ethers.isAddress(identifier)) {
+      return ethers.getAddress(identifier);
+    }
+    if (!isValidUUID(identifier)) {
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('wallet_address')
+      .eq('id', identifier)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Could not read party wallet address', { identifier, error });
+      return null;
+    }
+
+    return data?.wallet_address && ethers.isAddress(data.wallet_address) ? ethers.getAddress(data.wallet_address) : null;
+  }
+
+  private checkParty(signed: string, onRecord: string | null, role: AttestationRole, errors: string[]): void {
+    const label = role === 'seller' ? 'Seller' : 'Buyer';
+    if (!onRecord) {
+      errors.push(`${label} has no wallet address on record`);
+    } else if (!ethers.isAddress(signed) || ethers.getAddress(signed) !== onRecord) {
+      errors.push(`${label} address ${signed} is not the ${role}'s wallet on record (${onRecord})`);
+    }
+  }
+
+  private verifySignature(attestation: TransferAttestation, role: AttestationRole, errors: string[]): boolean {
+    const signed = role === 'seller' ? attestation.sellerSignature : attestation.buyerSignature;
+    if (!signed) {
+      return false;
+    }
+
+    try {
+      const recovered = ethers.verifyTypedData(attestation.domain, ATTESTATION_TYPES, attestation.message, signed.signature);
+      if (recovered !== ethers.getAddress(attestation.message[role])) {
+        errors.push(`${role === 'seller' ? 'Seller' : 'Buyer'} signature was made by ${recovered}, not ${attestation.message[role]}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      errors.push(`${role === 'seller' ? 'Seller' : 'Buyer'} signature is invalid`);
+      return false;
+    }
+  }
+
+  /**
+   * Pin the attestation to IPFS next to the transaction record; the database copy is kept if pinning fails
+   */
+  private async uploadAttestation(transaction: SupplyChainTransaction, attestation: TransferAttestation): Promise<string | undefined> {
+    try {
+      const blob = new Blob([JSON.stringify({ ...attestation, ipfsHash: undefined }, null, 2)], { type: 'application/json' });
+      const response = await ipfsService.uploadFile(blob, `attestation_${transaction.transactionId}.json`, {
+        name: `Attestation ${transaction.transactionId}`,
+        keyvalues: {
+          batchId: transaction.batchId,
+          type: 'ATTESTATION',
+          transactionId: transaction.transactionId
+        }
+      });
+      return response.IpfsHash;
+    } catch (error) {
+      logger.warn('Could not pin transfer attestation to IPFS', { transactionId: transaction.transactionId, error });
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const transferAttestationService = TransferAttestationService.getInstance();
@@ -47,6 +47,12 @@ export interface EnhancedBatchData {
   transactionHistory: SupplyChainTransaction[];
   currentQuantity: number;
   originalQuantity: number;
+  sourceHarvests?: Array<{
+    batchId: string;
+    crop: string;
+    variety: string;
+    harvestDate?: string;
+  }>;
 }
 
 /**
@@ -67,10 +73,10 @@ export async function generatePDFCertificate(batchData: EnhancedBatchData): Prom
     const pageHeight = doc.internal.pageSize.getHeight();
     
     // Government-style colors
-    const primaryColor = [0, 51, 102]; // Deep blue
-    const accentColor = [255, 215, 0]; // Gold
-    const textColor = [0, 0, 0]; // Black
-    const lightGray = [240, 240, 240]; // Light gray for backgrounds
+    const primaryColor: [number, number, number] = [0, 51, 102]; // Deep blue
+    const accentColor: [number, number, number] = [255, 215, 0]; // Gold
+    const textColor: [number, number, number] = [0, 0, 0]; // Black
+    const lightGray: [number, number, number] = [240, 240, 240]; // Light gray for backgrounds
   
   // Background pattern (subtle)
   doc.setFillColor(...lightGray);
@@ -221,6 +227,35 @@ export async function generatePDFCertificate(batchData: EnhancedBatchData): Prom
     });
   }
 
+  // Add source harvests for split/merged batches
+  if (batchData.sourceHarvests && batchData.sourceHarvests.length > 0) {
+    if (yPosition > pageHeight - 80) {
+      doc.addPage();
+      yPosition = 30;
+    }
+
+    yPosition += 10;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...primaryColor);
+    doc.text('SOURCE HARVESTS', 30, yPosition);
+    yPosition += 8;
+
+    doc.setDrawColor(...primaryColor);
+    doc.setLineWidth(1);
+    doc.line(30, yPosition, pageWidth - 30, yPosition);
+    yPosition += 10;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...textColor);
+    batchData.sourceHarvests.forEach((source, index) => {
+      const harvestDate = source.harvestDate ? new Date(source.harvestDate).toLocaleDateString('en-IN') : 'N/A';
+      doc.text(`${index + 1}. ${source.crop} ${source.variety} - Batch ${source.batchId} (harvested ${harvestDate})`, 35, yPosition);
+      yPosition += 5;
+    });
+  }
+
   // Add verification information
   yPosition += 10;
   doc.setFont('helvetica', 'bold');
@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import { logger } from '@/lib/logger';
 import { transactionManager } from '@/features/blockchain/utils/transactionManager';
+import { batchLineageManager } from '@/features/blockchain/utils/batchLineageManager';
 import { TransactionChain, CertificateData } from '@/types/transaction';
 
 /**
@@ -83,6 +84,7 @@ export class ImmutableCertificateGenerator {
 
     const firstTransaction = chain.transactions[0];
     const lastTransaction = chain.transactions[chain.transactions.length - 1];
+    const lineage = await batchLineageManager.getLineageGraph(chain.batchId);
 
     return {
       batchId: chain.batchId,
@@ -95,7 +97,8 @@ export class ImmutableCertificateGenerator {
       totalQuantity: chain.totalQuantity,
       availableQuantity: chain.availableQuantity,
       createdAt: firstTransaction.timestamp,
-      lastUpdated: lastTransaction.timestamp
+      lastUpdated: lastTransaction.timestamp,
+      lineage: lineage.edges.length > 0 ? lineage : undefined
     };
   }
 
@@ -108,10 +111,10 @@ export class ImmutableCertificateGenerator {
     const pageHeight = doc.internal.pageSize.getHeight();
     
     // Government-style colors
-    const primaryColor = [0, 51, 102]; // Deep blue
-    const accentColor = [255, 215, 0]; // Gold
-    const textColor = [0, 0, 0]; // Black
-    const lightGray = [240, 240, 240]; // Light gray for backgrounds
+    const primaryColor: [number, number, number] = [0, 51, 102]; // Deep blue
+    const accentColor: [number, number, number] = [255, 215, 0]; // Gold
+    const textColor: [number, number, number] = [0, 0, 0]; // Black
+    const lightGray: [number, number, number] = [240, 240, 240]; // Light gray for backgrounds
     
     // Background pattern (subtle)
     doc.setFillColor(...lightGray);
@@ -249,6 +252,64 @@ export class ImmutableCertificateGenerator {
       yPosition += 12;
     });
 
+    // Add lineage for split/merged batches
+    if (certificateData.lineage) {
+      const lineage = certificateData.lineage;
+
+      if (yPosition > pageHeight - 80) {
+        doc.addPage();
+        yPosition = 30;
+      }
+
+      yPosition += 15;
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor(...primaryColor);
+      doc.text('BATCH LINEAGE', 30, yPosition);
+      yPosition += 8;
+
+      doc.setDrawColor(...primaryColor);
+      doc.setLineWidth(1);
+      doc.line(30, yPosition, pageWidth - 30, yPosition);
+      yPosition += 10;
+
+      doc.setFontSize(9);
+      doc.setTextColor(...textColor);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Source Harvests:', 35, yPosition);
+      yPosition += 5;
+
+      doc.setFont('helvetica', 'normal');
+      lineage.sourceHarvestIds.forEach(sourceId => {
+        if (yPosition > pageHeight - 40) {
+          doc.addPage();
+          yPosition = 30;
+        }
+
+        const node = lineage.nodes[sourceId];
+        const harvestDate = node?.harvestDate ? new Date(node.harvestDate).toLocaleDateString('en-IN') : 'N/A';
+        doc.text(`${sourceId} - ${node?.crop || 'N/A'} ${node?.variety || ''} (harvested ${harvestDate})`, 40, yPosition);
+        yPosition += 4;
+      });
+
+      yPosition += 4;
+      doc.setFont('helvetica', 'bold');
+      doc.text('Splits & Merges:', 35, yPosition);
+      yPosition += 5;
+
+      doc.setFont('helvetica', 'normal');
+      lineage.edges.forEach(edge => {
+        if (yPosition > pageHeight - 40) {
+          doc.addPage();
+          yPosition = 30;
+        }
+
+        const marker = edge.childBatchId === lineage.rootBatchId ? ' (this batch)' : '';
+        doc.text(`${edge.operation}: ${edge.parentBatchId} -> ${edge.childBatchId}${marker} - ${edge.quantity} kg`, 40, yPosition);
+        yPosition += 4;
+      });
+    }
+
     // Add transaction history if available
     if (certificateData.transactionChain.length > 0) {
       // Check if we need a new page
@@ -99,6 +99,4222 @@ export const addInitialTransactionHashColumn = async (): Promise<void> => {
   }
 };
 
+/**
+ * Create batch_lineage table for split/merge parent-child links
+ */
+export const createBatchLineageTable = async (): Promise<void> => {
+  try {
+    logger.debug('Creating batch_lineage table...');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS batch_lineage (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        parent_batch_id UUID NOT NULL REFERENCES batches(id),
+        child_batch_id UUID NOT NULL REFERENCES batches(id),
+        operation VARCHAR(20) NOT NULL CHECK (operation IN ('SPLIT', 'MERGE')),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        transaction_id VARCHAR(255),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (parent_batch_id, child_batch_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_batch_lineage_parent ON batch_lineage(parent_batch_id);
+      CREATE INDEX IF NOT EXISTS idx_batch_lineage_child ON batch_lineage(child_batch_id);
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTableSQL });
+
+    if (error) {
+      logger.error('Error creating batch_lineage table:', error);
+      throw error;
+    }
+
+    logger.debug('batch_lineage table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create batch_lineage table');
+  }
+};
+
+/**
+ * Add content hash columns to transactions table for the hash-linked chain, plus transaction_content_hash,
+ * a port of computeContentHash so rows written by the database (purchases) are hashed as they are inserted
+ */
+export const addTransactionContentHashColumns = async (): Promise<void> => {
+  try {
+    logger.debug('Adding content hash columns to transactions table...');
+
+    const addColumnsSQL = `
+      ALTER TABLE transactions
+      ADD COLUMN IF NOT EXISTS content_hash VARCHAR(66),
+      ADD COLUMN IF NOT EXISTS previous_content_hash VARCHAR(66);
+      CREATE INDEX IF NOT EXISTS idx_transactions_content_hash ON transactions(content_hash);
+
+      -- keccak256 as used by ethers (original Keccak padding, not SHA3-256), over 64-bit lanes held as BIT(64)
+      CREATE OR REPLACE FUNCTION keccak256(p_data BYTEA) RETURNS BYTEA
+      LANGUAGE plpgsql
+      IMMUTABLE
+      STRICT
+      AS $$
+      DECLARE
+        v_round_constants CONSTANT TEXT[] := ARRAY[
+          '0000000000000001', '0000000000008082', '800000000000808a', '8000000080008000',
+          '000000000000808b', '0000000080000001', '8000000080008081', '8000000000008009',
+          '000000000000008a', '0000000000000088', '0000000080008009', '000000008000000a',
+          '000000008000808b', '800000000000008b', '8000000000008089', '8000000000008003',
+          '8000000000008002', '8000000000000080', '000000000000800a', '800000008000000a',
+          '8000000080008081', '8000000000008080', '0000000080000001', '8000000080008008'
+        ];
+        -- Rotation offsets indexed by x + 5y
+        v_rotations CONSTANT INTEGER[] := ARRAY[
+          0, 1, 62, 28, 27,
+          36, 44, 6, 55, 20,
+          3, 10, 43, 25, 39,
+          41, 45, 15, 21, 8,
+          18, 2, 61, 56, 14
+        ];
+        v_rate CONSTANT INTEGER := 136;
+        v_state BIT(64)[];
+        v_parity BIT(64)[];
+        v_rotated BIT(64)[];
+        v_mix BIT(64);
+        v_lane BIT(64);
+        v_padded BYTEA;
+        v_hex TEXT;
+        v_out TEXT := '';
+        v_offset INTEGER;
+        v_round INTEGER;
+        x INTEGER;
+        y INTEGER;
+        i INTEGER;
+        k INTEGER;
+      BEGIN
+        v_padded := p_data || '\\x01'::bytea;
+        WHILE length(v_padded) % v_rate <> 0 LOOP
+          v_padded := v_padded || '\\x00'::bytea;
+        END LOOP;
+        v_padded := set_byte(v_padded, length(v_padded) - 1, get_byte(v_padded, length(v_padded) - 1) | 128);
+
+        v_state := array_fill(B'0'::BIT(64), ARRAY[25]);
+
+        v_offset := 0;
+        WHILE v_offset < length(v_padded) LOOP
+          -- Absorb one block; lanes are little-endian
+          FOR i IN 0..(v_rate / 8 - 1) LOOP
+            v_hex := '';
+            FOR k IN REVERSE 7..0 LOOP
+              v_hex := v_hex || lpad(to_hex(get_byte(v_padded, v_offset + i * 8 + k)), 2, '0');
+            END LOOP;
+            v_state[i + 1] := v_state[i + 1] # ('x' || v_hex)::BIT(64);
+          END LOOP;
+
+          FOR v_round IN 1..24 LOOP
+            -- Theta
+            v_parity := array_fill(B'0'::BIT(64), ARRAY[5]);
+            FOR x IN 0..4 LOOP
+              v_parity[x + 1] := v_state[x + 1] # v_state[x + 6] # v_state[x + 11] # v_state[x + 16] # v_state[x + 21];
+            END LOOP;
+            FOR x IN 0..4 LOOP
+              v_lane := v_parity[(x + 1) % 5 + 1];
+              v_mix := v_parity[(x + 4) % 5 + 1] # ((v_lane << 1) | (v_lane >> 63));
+              FOR y IN 0..4 LOOP
+                v_state[x + 5 * y + 1] := v_state[x + 5 * y + 1] # v_mix;
+              END LOOP;
+            END LOOP;
+
+            -- Rho and pi
+            v_rotated := array_fill(B'0'::BIT(64), ARRAY[25]);
+            FOR x IN 0..4 LOOP
+              FOR y IN 0..4 LOOP
+                v_lane := v_state[x + 5 * y + 1];
+                k := v_rotations[x + 5 * y + 1];
+                v_rotated[y + 5 * ((2 * x + 3 * y) % 5) + 1] := (v_lane << k) | (v_lane >> (64 - k));
+              END LOOP;
+            END LOOP;
+
+            -- Chi
+            FOR y IN 0..4 LOOP
+              FOR x IN 0..4 LOOP
+                v_state[x + 5 * y + 1] := v_rotated[x + 5 * y + 1]
+                  # (~v_rotated[(x + 1) % 5 + 5 * y + 1] & v_rotated[(x + 2) % 5 + 5 * y + 1]);
+              END LOOP;
+            END LOOP;
+
+            -- Iota
+            v_state[1] := v_state[1] # ('x' || v_round_constants[v_round])::BIT(64);
+          END LOOP;
+
+          v_offset := v_offset + v_rate;
+        END LOOP;
+
+        -- Squeeze the first 32 bytes, again little-endian per lane
+        FOR i IN 1..4 LOOP
+          v_hex := lpad(to_hex(v_state[i]::BIGINT), 16, '0');
+          FOR k IN REVERSE 7..0 LOOP
+            v_out := v_out || substr(v_hex, k * 2 + 1, 2);
+          END LOOP;
+        END LOOP;
+
+        RETURN decode(v_out, 'hex');
+      END;
+      $$;
+
+      -- JSON text identical to canonicalStringify in transactionHashing.ts: sorted keys, nulls dropped
+      -- from objects and blanked in arrays, numbers without trailing zeros
+      CREATE OR REPLACE FUNCTION canonical_json(p_value JSONB) RETURNS TEXT
+      LANGUAGE plpgsql
+      IMMUTABLE
+      AS $$
+      DECLARE
+        v_number NUMERIC;
+      BEGIN
+        CASE jsonb_typeof(p_value)
+          WHEN 'object' THEN
+            RETURN '{' || COALESCE((
+              SELECT string_agg(to_json(e.key)::text || ':' || canonical_json(e.value), ',' ORDER BY e.key COLLATE "C")
+              FROM jsonb_each(p_value) e
+              WHERE jsonb_typeof(e.value) <> 'null'
+            ), '') || '}';
+          WHEN 'array' THEN
+            RETURN '[' || COALESCE((
+              SELECT string_agg(CASE WHEN jsonb_typeof(e.value) = 'null' THEN '""' ELSE canonical_json(e.value) END, ',' ORDER BY e.n)
+              FROM jsonb_array_elements(p_value) WITH ORDINALITY AS e(value, n)
+            ), '') || ']';
+          WHEN 'number' THEN
+            v_number := p_value::text::numeric;
+            IF v_number = trunc(v_number) THEN
+              RETURN trunc(v_number)::text;
+            END IF;
+            RETURN rtrim(v_number::text, '0');
+          ELSE
+            RETURN COALESCE(p_value::text, 'null');
+        END CASE;
+      END;
+      $$;
+
+      -- computeContentHash of a stored row, read the way transactionManager maps it
+      CREATE OR REPLACE FUNCTION transaction_content_hash(p_transaction transactions) RETURNS VARCHAR
+      LANGUAGE sql
+      STABLE
+      AS $$
+        SELECT '0x' || encode(keccak256(convert_to(canonical_json(jsonb_build_object(
+          'transactionId', p_transaction.transaction_id,
+          'type', p_transaction.type,
+          'from', p_transaction.from_address,
+          'to', p_transaction.to_address,
+          'quantity', p_transaction.quantity,
+          'price', p_transaction.price,
+          'timestamp', to_char(p_transaction.transaction_timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+          'previousTransactionHash', p_transaction.previous_transaction_hash,
+          'previousContentHash', p_transaction.previous_content_hash,
+          'batchId', p_transaction.batch_id,
+          'productDetails', CASE WHEN jsonb_typeof(p_transaction.product_details) IN ('object', 'array')
+            THEN p_transaction.product_details
+            ELSE jsonb_build_object('crop', '', 'variety', '', 'harvestDate', '') END,
+          'metadata', CASE WHEN jsonb_typeof(p_transaction.metadata) IN ('object', 'array')
+            THEN p_transaction.metadata END
+        )), 'UTF8')), 'hex');
+      $$;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: addColumnsSQL });
+
+    if (error) {
+      logger.error('Error adding content hash columns:', error);
+      throw error;
+    }
+
+    logger.debug('Content hash columns added successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to add content hash columns');
+  }
+};
+
+/**
+ * Create merkle_anchors table and anchor columns on transactions for on-chain root anchoring
+ */
+export const createMerkleAnchorsTable = async (): Promise<void> => {
+  try {
+    logger.debug('Creating merkle_anchors table...');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS merkle_anchors (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        merkle_root VARCHAR(66) NOT NULL UNIQUE,
+        anchor_tx_hash VARCHAR(66) NOT NULL,
+        chain_id INTEGER,
+        block_number BIGINT,
+        leaf_count INTEGER NOT NULL CHECK (leaf_count > 0),
+        submitted_by VARCHAR(42),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE transactions
+      ADD COLUMN IF NOT EXISTS anchor_root VARCHAR(66),
+      ADD COLUMN IF NOT EXISTS anchor_tx_hash VARCHAR(66),
+      ADD COLUMN IF NOT EXISTS anchor_leaf_index INTEGER,
+      ADD COLUMN IF NOT EXISTS anchor_proof JSONB;
+      CREATE INDEX IF NOT EXISTS idx_transactions_anchor_root ON transactions(anchor_root);
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTableSQL });
+
+    if (error) {
+      logger.error('Error creating merkle_anchors table:', error);
+      throw error;
+    }
+
+    logger.debug('merkle_anchors table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create merkle_anchors table');
+  }
+};
+
+/**
+ * Create chain_events and chain_indexer_cursors tables for the contract event indexer
+ */
+export const createChainEventsTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating chain_events tables...');
+
+    const createTablesSQL = `
+      CREATE TABLE IF NOT EXISTS chain_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        chain_id INTEGER NOT NULL,
+        contract_address VARCHAR(42) NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash VARCHAR(66) NOT NULL,
+        block_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+        transaction_hash VARCHAR(66) NOT NULL,
+        log_index INTEGER NOT NULL,
+        event_name VARCHAR(50) NOT NULL,
+        batch_id BIGINT,
+        from_address VARCHAR(42),
+        to_address VARCHAR(42),
+        quantity DECIMAL(18,2),
+        price DECIMAL(30,0),
+        amount VARCHAR(78),
+        ipfs_hash VARCHAR(255),
+        args JSONB,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (chain_id, transaction_hash, log_index)
+      );
+      CREATE INDEX IF NOT EXISTS idx_chain_events_batch ON chain_events(chain_id, batch_id);
+      CREATE INDEX IF NOT EXISTS idx_chain_events_block ON chain_events(chain_id, block_number);
+
+      CREATE TABLE IF NOT EXISTS chain_indexer_cursors (
+        chain_id INTEGER NOT NULL,
+        contract_address VARCHAR(42) NOT NULL,
+        last_block BIGINT NOT NULL,
+        last_block_hash VARCHAR(66),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (chain_id, contract_address)
+      );
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTablesSQL });
+
+    if (error) {
+      logger.error('Error creating chain_events tables:', error);
+      throw error;
+    }
+
+    logger.debug('chain_events tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create chain_events tables');
+  }
+};
+
+/**
+ * Schedule the chain-indexer edge function and make it the only writer of chain_events.
+ * pg_cron calls it every minute when the pg_cron and pg_net extensions are enabled; clients only read.
+ */
+export const scheduleChainIndexer = async (): Promise<void> => {
+  try {
+    logger.debug('Scheduling chain indexer...');
+
+    const scheduleChainIndexerSQL = `
+      -- Events are public chain data; only the chain-indexer job, running with the service role, writes them
+      ALTER TABLE chain_events ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS chain_events_read ON chain_events;
+      CREATE POLICY chain_events_read ON chain_events FOR SELECT USING (true);
+      ALTER TABLE chain_indexer_cursors ENABLE ROW LEVEL SECURITY;
+
+      -- Open history pages refresh when new events are indexed
+      DO $publication$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+          AND NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'chain_events'
+          ) THEN
+          ALTER PUBLICATION supabase_realtime ADD TABLE chain_events;
+        END IF;
+      END;
+      $publication$;
+
+      -- Call the chain-indexer function every minute. Needs the project_url and chain_indexer_secret vault
+      -- secrets; without pg_cron, schedule the function from the dashboard instead.
+      DO $schedule$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+          AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+          PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'chain-indexer';
+          PERFORM cron.schedule('chain-indexer', '* * * * *', $job$
+            SELECT net.http_post(
+              url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/chain-indexer',
+              headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'chain_indexer_secret')
+              ),
+              body := '{}'::jsonb
+            );
+          $job$);
+        END IF;
+      END;
+      $schedule$;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: scheduleChainIndexerSQL });
+
+    if (error) {
+      logger.error('Error scheduling chain indexer:', error);
+      throw error;
+    }
+
+    logger.debug('Chain indexer scheduled successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to schedule chain indexer');
+  }
+};
+
+/**
+ * Schedule the merkle-anchor edge function, the only place pending transactions are anchored on-chain
+ */
+export const scheduleMerkleAnchoring = async (): Promise<void> => {
+  try {
+    logger.debug('Scheduling Merkle anchoring...');
+
+    const scheduleMerkleAnchoringSQL = `
+      -- Call the merkle-anchor function every ten minutes. Needs the project_url and merkle_anchor_secret vault
+      -- secrets; without pg_cron, schedule the function from the dashboard instead.
+      DO $schedule$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+          AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+          PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'merkle-anchor';
+          PERFORM cron.schedule('merkle-anchor', '*/10 * * * *', $job$
+            SELECT net.http_post(
+              url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/merkle-anchor',
+              headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'merkle_anchor_secret')
+              ),
+              body := '{}'::jsonb
+            );
+          $job$);
+        END IF;
+      END;
+      $schedule$;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: scheduleMerkleAnchoringSQL });
+
+    if (error) {
+      logger.error('Error scheduling Merkle anchoring:', error);
+      throw error;
+    }
+
+    logger.debug('Merkle anchoring scheduled successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to schedule Merkle anchoring');
+  }
+};
+
+/**
+ * Create purchase_escrows table tracking on-chain escrow for each purchase
+ */
+export const createPurchaseEscrowsTable = async (): Promise<void> => {
+  try {
+    logger.debug('Creating purchase_escrows table...');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS purchase_escrows (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        escrow_id BIGINT NOT NULL,
+        chain_id INTEGER NOT NULL,
+        blockchain_batch_id BIGINT NOT NULL,
+        batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+        transaction_id VARCHAR(255),
+        delivery_request_id UUID,
+        buyer_id UUID NOT NULL,
+        seller_id UUID NOT NULL,
+        buyer_address VARCHAR(42) NOT NULL,
+        seller_address VARCHAR(42) NOT NULL,
+        amount_wei VARCHAR(78) NOT NULL,
+        amount_inr DECIMAL(12,2) NOT NULL,
+        quantity DECIMAL(10,2) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'funded' CHECK (status IN ('funded', 'delivered', 'released', 'refunded')),
+        deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+        delivery_proof_hash VARCHAR(66),
+        create_tx_hash VARCHAR(66) NOT NULL,
+        release_tx_hash VARCHAR(66),
+        refund_tx_hash VARCHAR(66),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (chain_id, escrow_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_purchase_escrows_batch ON purchase_escrows(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_purchase_escrows_transaction ON purchase_escrows(transaction_id);
+      CREATE INDEX IF NOT EXISTS idx_purchase_escrows_delivery ON purchase_escrows(delivery_request_id);
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTableSQL });
+
+    if (error) {
+      logger.error('Error creating purchase_escrows table:', error);
+      throw error;
+    }
+
+    logger.debug('purchase_escrows table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create purchase_escrows table');
+  }
+};
+
+/**
+ * Add attestation column to transactions table for the buyer's and seller's EIP-712 signatures
+ */
+export const addTransactionAttestationColumn = async (): Promise<void> => {
+  try {
+    logger.debug('Adding attestation column to transactions table...');
+
+    const addColumnSQL = `
+      ALTER TABLE transactions
+      ADD COLUMN IF NOT EXISTS attestation JSONB;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: addColumnSQL });
+
+    if (error) {
+      logger.error('Error adding attestation column:', error);
+      throw error;
+    }
+
+    logger.debug('Attestation column added successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to add attestation column');
+  }
+};
+
+/**
+ * Create farmer_wallets, wallet_signing_consents, staff_roles and audit_logs tables for the custodial wallet vault
+ * (key, consent and staff rows are only accessed by the wallet-vault edge function or the service role, so RLS has
+ * no client policies; audit logs are written by the service role or record_audit_log and read only by admins)
+ */
+export const createWalletVaultTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating wallet vault tables...');
+
+    const createTablesSQL = `
+      CREATE TABLE IF NOT EXISTS farmer_wallets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+        address VARCHAR(42) NOT NULL,
+        encrypted_private_key TEXT,
+        encryption_iv VARCHAR(32),
+        key_version INTEGER NOT NULL DEFAULT 1,
+        status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'handed_over')),
+        handed_over_to VARCHAR(42),
+        handed_over_at TIMESTAMP WITH TIME ZONE,
+        exported_at TIMESTAMP WITH TIME ZONE,
+        created_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_farmer_wallets_address ON farmer_wallets(address);
+      ALTER TABLE farmer_wallets ENABLE ROW LEVEL SECURITY;
+
+      CREATE TABLE IF NOT EXISTS wallet_signing_consents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+        consent_reference VARCHAR(500) NOT NULL,
+        consent_method VARCHAR(20) NOT NULL CHECK (consent_method IN ('voice_call', 'in_person', 'sms_otp', 'written')),
+        purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('sign_transactions', 'export', 'hand_over')),
+        granted_to UUID NOT NULL,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_wallet_signing_consents_profile ON wallet_signing_consents(profile_id);
+      ALTER TABLE wallet_signing_consents ENABLE ROW LEVEL SECURITY;
+
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        action VARCHAR(100) NOT NULL,
+        "user" VARCHAR(255),
+        status VARCHAR(20) NOT NULL DEFAULT 'success',
+        details JSONB,
+        timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at DESC);
+      ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+      -- Granted by an admin with the service role; profiles.user_type is chosen at signup and cannot gate the vault
+      CREATE TABLE IF NOT EXISTS staff_roles (
+        profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL CHECK (role IN ('helper', 'admin')),
+        granted_by UUID REFERENCES profiles(id),
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE staff_roles ENABLE ROW LEVEL SECURITY;
+
+      CREATE OR REPLACE FUNCTION has_staff_role(p_roles TEXT[]) RETURNS BOOLEAN
+      LANGUAGE sql
+      STABLE
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+        SELECT EXISTS (
+          SELECT 1 FROM staff_roles s
+          JOIN profiles p ON p.id = s.profile_id
+          WHERE p.user_id = auth.uid() AND s.revoked_at IS NULL AND s.role = ANY(p_roles)
+        );
+      $$;
+
+      DROP POLICY IF EXISTS audit_logs_admin_read ON audit_logs;
+      CREATE POLICY audit_logs_admin_read ON audit_logs FOR SELECT USING (has_staff_role(ARRAY['admin']));
+
+      -- Client-side admin tools log through here; the actor comes from the session, not the caller
+      CREATE OR REPLACE FUNCTION record_audit_log(p_action TEXT, p_status TEXT, p_details JSONB)
+      RETURNS UUID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_id UUID;
+      BEGIN
+        IF NOT has_staff_role(ARRAY['admin']) THEN
+          RAISE EXCEPTION 'NOT_AUTHORIZED: only admins can write audit logs';
+        END IF;
+        IF p_action IS NULL OR LENGTH(TRIM(p_action)) = 0 OR LENGTH(p_action) > 100 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: action is required (at most 100 characters)';
+        END IF;
+        IF p_status NOT IN ('success', 'failed') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: status must be success or failed';
+        END IF;
+
+        INSERT INTO audit_logs (action, "user", status, details)
+        VALUES (p_action, COALESCE(auth.jwt() ->> 'email', auth.uid()::text), p_status, p_details)
+        RETURNING id INTO v_id;
+
+        RETURN v_id;
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION has_staff_role(TEXT[]) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION has_staff_role(TEXT[]) TO authenticated;
+      REVOKE ALL ON FUNCTION record_audit_log(TEXT, TEXT, JSONB) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION record_audit_log(TEXT, TEXT, JSONB) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTablesSQL });
+
+    if (error) {
+      logger.error('Error creating wallet vault tables:', error);
+      throw error;
+    }
+
+    logger.debug('Wallet vault tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create wallet vault tables');
+  }
+};
+
+/**
+ * Create blockchain_operations table so submitted transactions are tracked until they confirm, revert, drop or are replaced
+ */
+export const createBlockchainOperationsTable = async (): Promise<void> => {
+  try {
+    logger.debug('Creating blockchain_operations table...');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS blockchain_operations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        chain_id INTEGER NOT NULL,
+        transaction_hash VARCHAR(66) NOT NULL UNIQUE,
+        from_address VARCHAR(42) NOT NULL,
+        to_address VARCHAR(42),
+        nonce INTEGER NOT NULL,
+        data TEXT NOT NULL DEFAULT '0x',
+        value VARCHAR(78) NOT NULL DEFAULT '0',
+        gas_limit VARCHAR(78) NOT NULL,
+        gas_price VARCHAR(78),
+        max_fee_per_gas VARCHAR(78),
+        max_priority_fee_per_gas VARCHAR(78),
+        purpose VARCHAR(50) NOT NULL,
+        batch_id VARCHAR(100),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'reverted', 'dropped', 'replaced')),
+        replaces_hash VARCHAR(66),
+        replaced_by_hash VARCHAR(66),
+        block_number BIGINT,
+        error TEXT,
+        submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        resolved_at TIMESTAMP WITH TIME ZONE,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_blockchain_operations_from_status ON blockchain_operations(from_address, status);
+      CREATE INDEX IF NOT EXISTS idx_blockchain_operations_nonce ON blockchain_operations(chain_id, from_address, nonce);
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTableSQL });
+
+    if (error) {
+      logger.error('Error creating blockchain_operations table:', error);
+      throw error;
+    }
+
+    logger.debug('blockchain_operations table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create blockchain_operations table');
+  }
+};
+
+/**
+ * Create batch_chain_links table linking each batch to every deployment it was registered on or migrated to
+ */
+export const createBatchChainLinksTable = async (): Promise<void> => {
+  try {
+    logger.debug('Creating batch_chain_links table...');
+
+    const createTableSQL = `
+      CREATE TABLE IF NOT EXISTS batch_chain_links (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        batch_id UUID NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+        chain_id INTEGER NOT NULL,
+        contract_address VARCHAR(42) NOT NULL,
+        blockchain_batch_id INTEGER NOT NULL,
+        source VARCHAR(20) NOT NULL DEFAULT 'registered' CHECK (source IN ('registered', 'migrated')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (chain_id, contract_address, blockchain_batch_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_batch_chain_links_batch ON batch_chain_links(batch_id);
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTableSQL });
+
+    if (error) {
+      logger.error('Error creating batch_chain_links table:', error);
+      throw error;
+    }
+
+    logger.debug('batch_chain_links table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create batch_chain_links table');
+  }
+};
+
+/**
+ * Create contract_migrations and batch_migrations tables recording each move to a new AgriTrace deployment and the old-to-new batch ID mapping
+ */
+export const createContractMigrationTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating contract migration tables...');
+
+    const createTablesSQL = `
+      CREATE TABLE IF NOT EXISTS contract_migrations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        source_chain_id INTEGER NOT NULL,
+        source_contract VARCHAR(42) NOT NULL,
+        target_chain_id INTEGER NOT NULL,
+        target_contract VARCHAR(42) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+        started_by TEXT,
+        total_batches INTEGER NOT NULL DEFAULT 0,
+        migrated_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        completed_at TIMESTAMP WITH TIME ZONE
+      );
+      CREATE INDEX IF NOT EXISTS idx_contract_migrations_route ON contract_migrations(source_chain_id, source_contract, target_chain_id, target_contract);
+
+      CREATE TABLE IF NOT EXISTS batch_migrations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        migration_id UUID NOT NULL REFERENCES contract_migrations(id) ON DELETE CASCADE,
+        batch_id UUID REFERENCES batches(id) ON DELETE SET NULL,
+        old_batch_id INTEGER NOT NULL,
+        new_batch_id INTEGER,
+        status VARCHAR(20) NOT NULL CHECK (status IN ('migrated', 'failed', 'skipped')),
+        transaction_hash VARCHAR(66),
+        error TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (migration_id, old_batch_id)
+      );
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTablesSQL });
+
+    if (error) {
+      logger.error('Error creating contract migration tables:', error);
+      throw error;
+    }
+
+    logger.debug('Contract migration tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create contract migration tables');
+  }
+};
+
+/**
+ * Create purchase_inspections and reputation_scores tables. Buyers record what they received against
+ * what was declared; reputation snapshots keep the inputs each score was computed from. Only
+ * compute_reputation writes scores, so a participant cannot set their own.
+ */
+export const createReputationTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating reputation tables...');
+
+    const createTablesSQL = `
+      CREATE TABLE IF NOT EXISTS purchase_inspections (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        delivery_request_id UUID NOT NULL UNIQUE,
+        transaction_id VARCHAR(100),
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        buyer_id UUID NOT NULL,
+        seller_id UUID NOT NULL,
+        declared_grading VARCHAR(50),
+        inspected_grading VARCHAR(50),
+        expected_quantity DECIMAL(10,2) NOT NULL CHECK (expected_quantity >= 0),
+        accepted_quantity DECIMAL(10,2) NOT NULL CHECK (accepted_quantity >= 0),
+        rejected_quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (rejected_quantity >= 0),
+        disputed_quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (disputed_quantity >= 0),
+        notes TEXT,
+        inspected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_purchase_inspections_seller ON purchase_inspections(seller_id);
+      ALTER TABLE purchase_inspections ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS purchase_inspections_party_read ON purchase_inspections;
+      CREATE POLICY purchase_inspections_party_read ON purchase_inspections FOR SELECT
+        USING (
+          buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+          OR seller_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        );
+      -- Only the buyer of a delivered order inspects it, against the seller, batch and quantity on the delivery
+      DROP POLICY IF EXISTS purchase_inspections_buyer_insert ON purchase_inspections;
+      CREATE POLICY purchase_inspections_buyer_insert ON purchase_inspections FOR INSERT
+        WITH CHECK (
+          buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+          AND EXISTS (
+            SELECT 1 FROM delivery_requests dr
+            WHERE dr.id = purchase_inspections.delivery_request_id
+              AND dr.status = 'delivered'
+              AND dr.batch_id = purchase_inspections.batch_id
+              AND dr.quantity_kg = purchase_inspections.expected_quantity
+              AND dr.destination_location->>'owner_id' = purchase_inspections.buyer_id::text
+              AND dr.source_location->>'owner_id' = purchase_inspections.seller_id::text
+          )
+        );
+
+      CREATE TABLE IF NOT EXISTS reputation_scores (
+        profile_id UUID PRIMARY KEY,
+        score INTEGER NOT NULL CHECK (score BETWEEN 0 AND 100),
+        breakdown JSONB NOT NULL,
+        algorithm_version INTEGER NOT NULL,
+        computed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      -- Scores are public; there are no write policies, compute_reputation stores them
+      ALTER TABLE reputation_scores ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS reputation_scores_read ON reputation_scores;
+      CREATE POLICY reputation_scores_read ON reputation_scores FOR SELECT USING (true);
+
+      CREATE OR REPLACE FUNCTION reputation_grade_rank(p_grading TEXT) RETURNS INTEGER
+      LANGUAGE sql
+      IMMUTABLE
+      AS $$
+        SELECT CASE UPPER(TRIM(p_grading))
+          WHEN 'PREMIUM' THEN 4
+          WHEN 'A' THEN 3 WHEN 'GRADE A' THEN 3
+          WHEN 'STANDARD' THEN 2 WHEN 'B' THEN 2 WHEN 'GRADE B' THEN 2
+          WHEN 'C' THEN 1 WHEN 'GRADE C' THEN 1
+        END
+      $$;
+
+      -- Every component starts as if it had 3 samples at a 0.5 rate, so one bad delivery does not
+      -- sink a new participant and one good one does not make them perfect. No samples: null value.
+      CREATE OR REPLACE FUNCTION reputation_component(p_successes NUMERIC, p_samples INTEGER, p_weight NUMERIC)
+      RETURNS JSONB
+      LANGUAGE sql
+      IMMUTABLE
+      AS $$
+        SELECT jsonb_build_object(
+          'value', CASE WHEN p_samples = 0 THEN NULL ELSE (p_successes + 0.5 * 3) / (p_samples + 3) END,
+          'samples', p_samples,
+          'weight', p_weight
+        )
+      $$;
+
+      -- Score a participant from delivery punctuality, buyer inspections and repeat purchases and
+      -- store the snapshot. Bump v_version with REPUTATION_ALGORITHM_VERSION when the rules change.
+      CREATE OR REPLACE FUNCTION compute_reputation(p_profile_id UUID) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_version CONSTANT INTEGER := 1;
+        v_judged INTEGER;
+        v_on_time INTEGER;
+        v_quantity_samples INTEGER;
+        v_intact NUMERIC;
+        v_grading_samples INTEGER;
+        v_grading_credit NUMERIC;
+        v_buyers INTEGER;
+        v_repeat_buyers INTEGER;
+        v_components JSONB;
+        v_component JSONB;
+        v_weighted NUMERIC := 0;
+        v_total_weight NUMERIC := 0;
+        v_score INTEGER;
+        v_now TIMESTAMPTZ := NOW();
+      BEGIN
+        IF p_profile_id IS NULL THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: profile is required';
+        END IF;
+
+        -- Drivers are judged on the deliveries they drove, sellers on the deliveries of what they sold
+        SELECT COUNT(*) FILTER (WHERE delivered_on_time IS NOT NULL), COUNT(*) FILTER (WHERE delivered_on_time)
+          INTO v_judged, v_on_time
+          FROM delivery_requests
+          WHERE status = 'delivered'
+            AND (
+              assigned_driver_id::text = p_profile_id::text
+              OR source_location->>'owner_id' = p_profile_id::text
+              OR COALESCE(source_location::jsonb->'owner_ids', '[]'::jsonb) ? p_profile_id::text
+            );
+
+        -- Share of each delivery the buyer neither rejected nor disputed
+        SELECT COUNT(*), COALESCE(SUM(1 - LEAST(1, (rejected_quantity + disputed_quantity) / expected_quantity)), 0)
+          INTO v_quantity_samples, v_intact
+          FROM purchase_inspections
+          WHERE seller_id = p_profile_id AND expected_quantity > 0;
+
+        -- Declared grade held up, or partial credit by how many grades it was overstated
+        SELECT COUNT(*), COALESCE(SUM(CASE WHEN inspected >= declared THEN 1 ELSE GREATEST(0, 1 - (declared - inspected) / 3.0) END), 0)
+          INTO v_grading_samples, v_grading_credit
+          FROM (
+            SELECT reputation_grade_rank(declared_grading) AS declared, reputation_grade_rank(inspected_grading) AS inspected
+            FROM purchase_inspections
+            WHERE seller_id = p_profile_id
+          ) graded
+          WHERE declared IS NOT NULL AND inspected IS NOT NULL;
+
+        SELECT COUNT(*), COUNT(*) FILTER (WHERE purchases > 1)
+          INTO v_buyers, v_repeat_buyers
+          FROM (
+            SELECT to_address, COUNT(*) AS purchases
+            FROM transactions
+            WHERE from_address = p_profile_id::text
+              AND type IN ('PURCHASE', 'RETAIL')
+              AND to_address ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$'
+              AND to_address <> p_profile_id::text
+            GROUP BY to_address
+          ) sales;
+
+        v_components := jsonb_build_object(
+          'onTimeDelivery', reputation_component(v_on_time, v_judged, 0.3),
+          'quantityIntegrity', reputation_component(v_intact, v_quantity_samples, 0.3),
+          'gradingAccuracy', reputation_component(v_grading_credit, v_grading_samples, 0.25),
+          'repeatPurchases', reputation_component(v_repeat_buyers, v_buyers, 0.15)
+        );
+
+        -- Components without history are left out and the remaining weights rescaled
+        FOR v_component IN SELECT value FROM jsonb_each(v_components) LOOP
+          IF v_component->>'value' IS NOT NULL THEN
+            v_weighted := v_weighted + (v_component->>'value')::NUMERIC * (v_component->>'weight')::NUMERIC;
+            v_total_weight := v_total_weight + (v_component->>'weight')::NUMERIC;
+          END IF;
+        END LOOP;
+
+        IF v_total_weight > 0 THEN
+          v_score := ROUND(v_weighted / v_total_weight * 100);
+          INSERT INTO reputation_scores (profile_id, score, breakdown, algorithm_version, computed_at)
+            VALUES (p_profile_id, v_score, v_components, v_version, v_now)
+            ON CONFLICT (profile_id) DO UPDATE
+              SET score = EXCLUDED.score,
+                  breakdown = EXCLUDED.breakdown,
+                  algorithm_version = EXCLUDED.algorithm_version,
+                  computed_at = EXCLUDED.computed_at;
+        END IF;
+
+        RETURN jsonb_build_object(
+          'profileId', p_profile_id,
+          'score', v_score,
+          'components', v_components,
+          'algorithmVersion', v_version,
+          'computedAt', v_now
+        );
+      END;
+      $$;
+      REVOKE ALL ON FUNCTION compute_reputation(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION compute_reputation(UUID) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createTablesSQL });
+
+    if (error) {
+      logger.error('Error creating reputation tables:', error);
+      throw error;
+    }
+
+    logger.debug('Reputation tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create reputation tables');
+  }
+};
+
+/**
+ * Create quantity_reservations table and the functions that place and release checkout holds.
+ * A hold takes kilograms out of a listing's available quantity until it is purchased, released or expires.
+ */
+export const createQuantityReservations = async (): Promise<void> => {
+  try {
+    logger.debug('Creating quantity_reservations table...');
+
+    const createReservationsSQL = `
+      CREATE TABLE IF NOT EXISTS quantity_reservations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        marketplace_id INTEGER NOT NULL REFERENCES marketplace(id) ON DELETE CASCADE,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        buyer_id UUID NOT NULL,
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'consumed', 'released', 'expired')),
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        purchase_receipt_id UUID,
+        -- Set on auction awards, accepted offers, forward contract allocations and accepted demand
+        -- quotes: the agreed price replaces the listing price
+        auction_id UUID,
+        offer_id UUID,
+        contract_id UUID,
+        quote_id UUID,
+        unit_price DECIMAL(10,2),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE quantity_reservations ADD COLUMN IF NOT EXISTS auction_id UUID;
+      ALTER TABLE quantity_reservations ADD COLUMN IF NOT EXISTS unit_price DECIMAL(10,2);
+      ALTER TABLE quantity_reservations ADD COLUMN IF NOT EXISTS offer_id UUID;
+      ALTER TABLE quantity_reservations ADD COLUMN IF NOT EXISTS contract_id UUID;
+      ALTER TABLE quantity_reservations ADD COLUMN IF NOT EXISTS quote_id UUID;
+      CREATE INDEX IF NOT EXISTS idx_quantity_reservations_held
+        ON quantity_reservations(marketplace_id, expires_at) WHERE status = 'held';
+      CREATE INDEX IF NOT EXISTS idx_quantity_reservations_buyer ON quantity_reservations(buyer_id);
+      ALTER TABLE quantity_reservations ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS quantity_reservations_buyer_read ON quantity_reservations;
+      CREATE POLICY quantity_reservations_buyer_read ON quantity_reservations FOR SELECT
+        USING (buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      -- Kilograms currently held per listing; exposes totals only, not who holds them
+      CREATE OR REPLACE VIEW marketplace_holds AS
+        SELECT marketplace_id, SUM(quantity) AS held_quantity
+        FROM quantity_reservations
+        WHERE status = 'held' AND expires_at > NOW()
+        GROUP BY marketplace_id;
+      GRANT SELECT ON marketplace_holds TO anon, authenticated;
+
+      CREATE OR REPLACE FUNCTION reserve_quantity(
+        p_batch_id UUID,
+        p_quantity NUMERIC,
+        p_hold_seconds INTEGER DEFAULT 600
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_buyer_id UUID;
+        v_listing marketplace%ROWTYPE;
+        v_held NUMERIC;
+        v_available NUMERIC;
+        v_reservation quantity_reservations%ROWTYPE;
+      BEGIN
+        IF p_quantity IS NULL OR p_quantity <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: quantity must be positive';
+        END IF;
+        IF p_hold_seconds IS NULL OR p_hold_seconds NOT BETWEEN 60 AND 1800 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: holds last between 1 and 30 minutes';
+        END IF;
+
+        SELECT id INTO v_buyer_id FROM profiles WHERE user_id = auth.uid();
+        IF v_buyer_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+
+        -- Holds and purchases on one listing queue behind this lock
+        SELECT * INTO v_listing FROM marketplace
+          WHERE batch_id = p_batch_id AND status = 'available'
+          ORDER BY created_at DESC
+          LIMIT 1
+          FOR UPDATE;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AVAILABLE: this batch is no longer for sale';
+        END IF;
+        IF v_listing.current_seller_id = v_buyer_id THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: you cannot reserve your own listing';
+        END IF;
+
+        UPDATE quantity_reservations SET status = 'expired', updated_at = NOW()
+          WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at <= NOW();
+
+        -- A buyer has at most one checkout hold per listing; changing the quantity replaces it.
+        -- Auction awards, accepted offers, contract allocations and accepted quotes are kept.
+        UPDATE quantity_reservations SET status = 'released', updated_at = NOW()
+          WHERE marketplace_id = v_listing.id AND buyer_id = v_buyer_id AND status = 'held'
+            AND auction_id IS NULL AND offer_id IS NULL AND contract_id IS NULL AND quote_id IS NULL;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO v_held FROM quantity_reservations
+          WHERE marketplace_id = v_listing.id AND status = 'held';
+        v_available := v_listing.quantity - v_held;
+        IF p_quantity > v_available THEN
+          RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg available', GREATEST(v_available, 0);
+        END IF;
+
+        INSERT INTO quantity_reservations (marketplace_id, batch_id, buyer_id, quantity, expires_at)
+          VALUES (v_listing.id, p_batch_id, v_buyer_id, p_quantity, NOW() + make_interval(secs => p_hold_seconds))
+          RETURNING * INTO v_reservation;
+
+        RETURN jsonb_build_object(
+          'reservationId', v_reservation.id,
+          'marketplaceId', v_listing.id,
+          'batchId', p_batch_id,
+          'quantity', v_reservation.quantity,
+          'expiresAt', v_reservation.expires_at,
+          'availableAfterHold', v_available - p_quantity
+        );
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION release_reservation(p_reservation_id UUID) RETURNS VOID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        UPDATE quantity_reservations SET status = 'released', updated_at = NOW()
+          WHERE id = p_reservation_id
+            AND status = 'held'
+            AND buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid());
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION reserve_quantity(UUID, NUMERIC, INTEGER) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION reserve_quantity(UUID, NUMERIC, INTEGER) TO authenticated;
+      REVOKE ALL ON FUNCTION release_reservation(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION release_reservation(UUID) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createReservationsSQL });
+
+    if (error) {
+      logger.error('Error creating quantity_reservations table:', error);
+      throw error;
+    }
+
+    logger.debug('quantity_reservations table created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create quantity_reservations table');
+  }
+};
+
+/**
+ * Create the purchase_batch function so a purchase moves ownership, reduces the listing, records the
+ * transaction and fills the buyer's inventory in one database transaction. Receipts are stored per
+ * buyer and client-supplied idempotency key, so a retried call returns the original receipt.
+ * The purchase consumes the buyer's unexpired hold from reserve_quantity. The transaction is content-hashed
+ * and chained to the batch's latest hash while the batch row is locked.
+ */
+export const createPurchaseProcedure = async (): Promise<void> => {
+  try {
+    logger.debug('Creating purchase_batch function...');
+
+    const createProcedureSQL = `
+      CREATE TABLE IF NOT EXISTS purchase_receipts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        idempotency_key VARCHAR(100) NOT NULL,
+        buyer_id UUID NOT NULL,
+        seller_id UUID,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        transaction_id VARCHAR(100) NOT NULL,
+        quantity DECIMAL(10,2) NOT NULL,
+        receipt JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (buyer_id, idempotency_key)
+      );
+      ALTER TABLE purchase_receipts ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS purchase_receipts_buyer_read ON purchase_receipts;
+      CREATE POLICY purchase_receipts_buyer_read ON purchase_receipts FOR SELECT
+        USING (buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      -- Open marketplace pages drop a listing as soon as it is sold
+      DO $publication$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+          AND NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'marketplace'
+          ) THEN
+          ALTER PUBLICATION supabase_realtime ADD TABLE marketplace;
+        END IF;
+      END;
+      $publication$;
+
+      DROP FUNCTION IF EXISTS purchase_batch(TEXT, UUID, NUMERIC, NUMERIC, TEXT);
+      -- The purchase itself. checkout_order buys its lines without a delivery fee and charges one for the order.
+      CREATE OR REPLACE FUNCTION purchase_reserved_batch(
+        p_idempotency_key TEXT,
+        p_batch_id UUID,
+        p_quantity NUMERIC,
+        p_unit_price NUMERIC,
+        p_delivery_address TEXT,
+        p_reservation_id UUID,
+        p_charge_delivery BOOLEAN
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_buyer profiles%ROWTYPE;
+        v_seller profiles%ROWTYPE;
+        v_batch batches%ROWTYPE;
+        v_listing marketplace%ROWTYPE;
+        v_existing purchase_receipts%ROWTYPE;
+        v_reservation quantity_reservations%ROWTYPE;
+        v_unit_price NUMERIC;
+        v_remaining NUMERIC;
+        v_subtotal NUMERIC;
+        v_delivery_fee NUMERIC;
+        v_total NUMERIC;
+        v_type TEXT;
+        v_transaction_id TEXT;
+        v_transaction transactions%ROWTYPE;
+        v_timestamp TIMESTAMPTZ;
+        v_previous_content_hash VARCHAR(66);
+        v_receipt_id UUID := gen_random_uuid();
+        v_receipt JSONB;
+      BEGIN
+        IF p_idempotency_key IS NULL OR length(p_idempotency_key) NOT BETWEEN 8 AND 100 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: an idempotency key of 8 to 100 characters is required';
+        END IF;
+        IF p_quantity IS NULL OR p_quantity <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: quantity must be positive';
+        END IF;
+        IF coalesce(trim(p_delivery_address), '') = '' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: a delivery address is required';
+        END IF;
+
+        SELECT * INTO v_buyer FROM profiles WHERE user_id = auth.uid();
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+
+        -- Concurrent retries of one key wait here, then see the first call's receipt
+        PERFORM pg_advisory_xact_lock(hashtext(v_buyer.id::text || ':' || p_idempotency_key));
+
+        SELECT * INTO v_existing FROM purchase_receipts
+          WHERE buyer_id = v_buyer.id AND idempotency_key = p_idempotency_key;
+        IF FOUND THEN
+          IF v_existing.batch_id <> p_batch_id OR v_existing.quantity <> p_quantity THEN
+            RAISE EXCEPTION 'IDEMPOTENCY_CONFLICT: this key was already used for a different purchase';
+          END IF;
+          RETURN v_existing.receipt || jsonb_build_object('replayed', true);
+        END IF;
+
+        SELECT * INTO v_batch FROM batches WHERE id = p_batch_id FOR UPDATE;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_FOUND: batch does not exist';
+        END IF;
+
+        SELECT * INTO v_listing FROM marketplace
+          WHERE batch_id = p_batch_id AND status = 'available'
+          ORDER BY created_at DESC
+          LIMIT 1
+          FOR UPDATE;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AVAILABLE: this batch is no longer for sale';
+        END IF;
+
+        SELECT * INTO v_reservation FROM quantity_reservations WHERE id = p_reservation_id FOR UPDATE;
+        IF NOT FOUND OR v_reservation.buyer_id <> v_buyer.id OR v_reservation.marketplace_id <> v_listing.id
+          OR v_reservation.status <> 'held' THEN
+          RAISE EXCEPTION 'RESERVATION_INVALID: reserve the quantity again before buying';
+        END IF;
+        IF v_reservation.expires_at <= NOW() THEN
+          UPDATE quantity_reservations SET status = 'expired', updated_at = NOW() WHERE id = v_reservation.id;
+          RAISE EXCEPTION 'RESERVATION_EXPIRED: your hold on this quantity has expired';
+        END IF;
+        IF v_reservation.quantity <> p_quantity THEN
+          RAISE EXCEPTION 'RESERVATION_INVALID: % kg is held but % kg was requested', v_reservation.quantity, p_quantity;
+        END IF;
+        IF v_listing.quantity < p_quantity THEN
+          RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg available', v_listing.quantity;
+        END IF;
+        IF v_batch.current_owner = v_buyer.id THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: you already own this batch';
+        END IF;
+        -- An auction award is bought at the winning bid
+        v_unit_price := COALESCE(v_reservation.unit_price, v_batch.price_per_kg);
+        IF p_unit_price IS NOT NULL AND v_unit_price IS DISTINCT FROM p_unit_price THEN
+          RAISE EXCEPTION 'PRICE_CHANGED: the price is now % per kg', v_unit_price;
+        END IF;
+
+        SELECT * INTO v_seller FROM profiles WHERE id = coalesce(v_batch.current_owner, v_batch.farmer_id);
+
+        v_remaining := v_listing.quantity - p_quantity;
+        v_subtotal := p_quantity * v_unit_price;
+        v_delivery_fee := CASE WHEN NOT p_charge_delivery OR v_subtotal > 1000 THEN 0 ELSE 50 END;
+        v_total := v_subtotal + v_delivery_fee;
+        v_type := CASE WHEN v_buyer.user_type = 'retailer' THEN 'RETAIL' ELSE 'PURCHASE' END;
+        v_transaction_id := 'TXN-' || replace(gen_random_uuid()::text, '-', '');
+
+        UPDATE batches
+          SET current_owner = v_buyer.id,
+              status = CASE WHEN v_remaining > 0 THEN 'available' ELSE 'sold' END
+          WHERE id = p_batch_id;
+
+        UPDATE marketplace
+          SET current_seller_id = v_buyer.id,
+              current_seller_type = coalesce(v_buyer.user_type, 'retailer'),
+              quantity = v_remaining,
+              status = CASE WHEN v_remaining > 0 THEN 'available' ELSE 'sold' END
+          WHERE id = v_listing.id;
+
+        -- Taken under the batch lock so timestamps follow the hash chain; millisecond precision as in JavaScript
+        v_timestamp := date_trunc('milliseconds', clock_timestamp());
+        SELECT content_hash INTO v_previous_content_hash FROM transactions
+          WHERE batch_id = p_batch_id::text AND content_hash IS NOT NULL
+          ORDER BY transaction_timestamp DESC
+          LIMIT 1;
+
+        INSERT INTO transactions (
+          transaction_id, batch_id, type, from_address, to_address, quantity, price,
+          transaction_timestamp, ipfs_hash, blockchain_hash, product_details, metadata, previous_content_hash
+        ) VALUES (
+          v_transaction_id, p_batch_id::text, v_type, coalesce(v_seller.id::text, 'unknown'), v_buyer.id::text,
+          p_quantity, v_total, v_timestamp, '', '',
+          jsonb_build_object(
+            'crop_type', v_batch.crop_type,
+            'variety', v_batch.variety,
+            'quantity', p_quantity,
+            'price_per_kg', v_unit_price
+          ),
+          jsonb_build_object(
+            'delivery_address', p_delivery_address,
+            'buyer_name', v_buyer.full_name,
+            'buyer_type', v_buyer.user_type,
+            'seller_name', v_seller.full_name,
+            'transactionType', v_type,
+            'receipt_id', v_receipt_id,
+            'auction_id', v_reservation.auction_id,
+            'offer_id', v_reservation.offer_id,
+            'contract_id', v_reservation.contract_id,
+            'quote_id', v_reservation.quote_id
+          ),
+          v_previous_content_hash
+        )
+        RETURNING * INTO v_transaction;
+
+        UPDATE transactions SET content_hash = transaction_content_hash(v_transaction)
+          WHERE transaction_id = v_transaction.transaction_id;
+
+        IF v_buyer.user_type = 'distributor' THEN
+          INSERT INTO distributor_inventory (distributor_id, marketplace_id, quantity_purchased, purchase_price, created_at)
+            VALUES (v_buyer.id, v_listing.id, p_quantity, v_total, NOW());
+        ELSIF v_buyer.user_type = 'retailer' THEN
+          INSERT INTO retailer_inventory (retailer_id, marketplace_id, quantity_purchased, purchase_price, created_at)
+            VALUES (v_buyer.id, v_listing.id, p_quantity, v_total, NOW());
+        END IF;
+
+        v_receipt := jsonb_build_object(
+          'receiptId', v_receipt_id,
+          'transactionId', v_transaction_id,
+          'transactionType', v_type,
+          'batchId', p_batch_id,
+          'marketplaceId', v_listing.id,
+          'sellerId', v_seller.id,
+          'buyerId', v_buyer.id,
+          'quantity', p_quantity,
+          'unitPrice', v_unit_price,
+          'subtotal', v_subtotal,
+          'deliveryFee', v_delivery_fee,
+          'total', v_total,
+          'remainingQuantity', v_remaining,
+          'purchasedAt', NOW()
+        );
+
+        INSERT INTO purchase_receipts (id, idempotency_key, buyer_id, seller_id, batch_id, transaction_id, quantity, receipt)
+          VALUES (v_receipt_id, p_idempotency_key, v_buyer.id, v_seller.id, p_batch_id, v_transaction_id, p_quantity, v_receipt);
+
+        UPDATE quantity_reservations
+          SET status = 'consumed', purchase_receipt_id = v_receipt_id, updated_at = NOW()
+          WHERE id = v_reservation.id;
+
+        RETURN v_receipt || jsonb_build_object('replayed', false);
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION purchase_batch(
+        p_idempotency_key TEXT,
+        p_batch_id UUID,
+        p_quantity NUMERIC,
+        p_unit_price NUMERIC,
+        p_delivery_address TEXT,
+        p_reservation_id UUID
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        RETURN purchase_reserved_batch(
+          p_idempotency_key, p_batch_id, p_quantity, p_unit_price, p_delivery_address, p_reservation_id, true
+        );
+      END;
+      $$;
+      REVOKE ALL ON FUNCTION purchase_reserved_batch(TEXT, UUID, NUMERIC, NUMERIC, TEXT, UUID, BOOLEAN) FROM PUBLIC;
+      REVOKE ALL ON FUNCTION purchase_batch(TEXT, UUID, NUMERIC, NUMERIC, TEXT, UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION purchase_batch(TEXT, UUID, NUMERIC, NUMERIC, TEXT, UUID) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createProcedureSQL });
+
+    if (error) {
+      logger.error('Error creating purchase_batch function:', error);
+      throw error;
+    }
+
+    logger.debug('purchase_batch function created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create purchase_batch function');
+  }
+};
+
+/**
+ * Create split_batch and merge_batches so a re-pack creates the derived batches, records the
+ * PROCESSING transactions and lineage edges, and reduces the source listings in one database
+ * transaction. Source batches are locked, so the same kilograms cannot be re-packed twice.
+ */
+export const createBatchRepackProcedures = async (): Promise<void> => {
+  try {
+    logger.debug('Creating batch re-pack functions...');
+
+    const createProceduresSQL = `
+      -- PROCESSING transaction of a re-pack, content-hashed and chained to the batch's latest hash while
+      -- the caller holds the batch lock. Its timestamp follows p_after so records of one call stay in order.
+      CREATE OR REPLACE FUNCTION record_lineage_transaction(
+        p_batch_id UUID,
+        p_owner_id UUID,
+        p_quantity NUMERIC,
+        p_product_details JSONB,
+        p_previous_hash TEXT,
+        p_metadata JSONB,
+        p_after TIMESTAMPTZ
+      ) RETURNS transactions
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_transaction transactions%ROWTYPE;
+        v_previous_content_hash VARCHAR(66);
+      BEGIN
+        SELECT content_hash INTO v_previous_content_hash FROM transactions
+          WHERE batch_id = p_batch_id::text AND content_hash IS NOT NULL
+          ORDER BY transaction_timestamp DESC
+          LIMIT 1;
+
+        INSERT INTO transactions (
+          transaction_id, batch_id, type, from_address, to_address, quantity, price, transaction_timestamp,
+          previous_transaction_hash, ipfs_hash, blockchain_hash, product_details, metadata, previous_content_hash
+        ) VALUES (
+          'TXN-' || replace(gen_random_uuid()::text, '-', ''), p_batch_id::text, 'PROCESSING',
+          p_owner_id::text, p_owner_id::text, p_quantity, 0,
+          GREATEST(date_trunc('milliseconds', clock_timestamp()), COALESCE(p_after + INTERVAL '1 millisecond', '-infinity')),
+          p_previous_hash, '', '', jsonb_strip_nulls(p_product_details), jsonb_strip_nulls(p_metadata), v_previous_content_hash
+        )
+        RETURNING * INTO v_transaction;
+
+        UPDATE transactions SET content_hash = transaction_content_hash(v_transaction)
+          WHERE transaction_id = v_transaction.transaction_id;
+
+        RETURN v_transaction;
+      END;
+      $$;
+
+      -- Take re-packed quantity off the owner's open listing of a batch, if there is one
+      CREATE OR REPLACE FUNCTION reduce_listed_quantity(p_batch_id UUID, p_owner_id UUID, p_quantity NUMERIC) RETURNS VOID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        UPDATE marketplace
+          SET quantity = GREATEST(quantity - p_quantity, 0),
+              status = CASE WHEN quantity - p_quantity > 0 THEN 'available' ELSE 'sold' END
+          WHERE id = (
+            SELECT id FROM marketplace
+              WHERE batch_id = p_batch_id AND status = 'available' AND current_seller_id = p_owner_id
+              ORDER BY created_at DESC
+              LIMIT 1
+              FOR UPDATE
+          );
+      END;
+      $$;
+
+      -- Split part of a batch the caller owns into child batches, e.g. by grade or pack size. Each child
+      -- is {quantity, grading?, label?}. Holdings per owner are checked against the transaction chain
+      -- before the call; here the batch may not release more than it was opened with.
+      CREATE OR REPLACE FUNCTION split_batch(p_batch_id UUID, p_children JSONB, p_previous_hash TEXT) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_owner_id UUID;
+        v_parent batches%ROWTYPE;
+        v_child JSONB;
+        v_child_id UUID;
+        v_quantity NUMERIC;
+        v_requested NUMERIC := 0;
+        v_repacked NUMERIC;
+        v_grading TEXT;
+        v_product_details JSONB;
+        v_release transactions%ROWTYPE;
+        v_opening transactions%ROWTYPE;
+        v_previous_hash TEXT := p_previous_hash;
+        v_child_ids JSONB := '[]'::jsonb;
+      BEGIN
+        SELECT id INTO v_owner_id FROM profiles WHERE user_id = auth.uid();
+        IF v_owner_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF jsonb_typeof(p_children) IS DISTINCT FROM 'array' OR jsonb_array_length(p_children) = 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: at least one child batch is required';
+        END IF;
+        FOR v_child IN SELECT value FROM jsonb_array_elements(p_children) LOOP
+          v_quantity := (v_child->>'quantity')::numeric;
+          IF v_quantity IS NULL OR v_quantity <= 0 THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: each child batch needs a quantity greater than 0';
+          END IF;
+          v_requested := v_requested + v_quantity;
+        END LOOP;
+
+        SELECT * INTO v_parent FROM batches WHERE id = p_batch_id FOR UPDATE;
+        IF NOT FOUND OR COALESCE(v_parent.current_owner, v_parent.farmer_id) IS DISTINCT FROM v_owner_id THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such batch';
+        END IF;
+        SELECT COALESCE(SUM(quantity), 0) INTO v_repacked FROM batch_lineage WHERE parent_batch_id = p_batch_id;
+        IF COALESCE(v_parent.harvest_quantity, 0) - v_repacked < v_requested THEN
+          RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg is left to re-pack', COALESCE(v_parent.harvest_quantity, 0) - v_repacked;
+        END IF;
+
+        v_product_details := jsonb_build_object(
+          'crop', COALESCE(v_parent.crop_type, ''),
+          'variety', COALESCE(v_parent.variety, ''),
+          'harvestDate', COALESCE(v_parent.harvest_date::text, ''),
+          'grading', v_parent.grading,
+          'certification', v_parent.certification
+        );
+
+        FOR v_child IN SELECT value FROM jsonb_array_elements(p_children) LOOP
+          v_quantity := (v_child->>'quantity')::numeric;
+          v_grading := COALESCE(NULLIF(left(trim(v_child->>'grading'), 100), ''), v_parent.grading);
+
+          INSERT INTO batches (
+            farmer_id, crop_type, variety, grading, sowing_date, harvest_date, harvest_quantity, price_per_kg,
+            freshness_duration, certification, status, current_owner, group_id
+          ) VALUES (
+            v_parent.farmer_id, v_parent.crop_type, v_parent.variety, v_grading, v_parent.sowing_date,
+            v_parent.harvest_date, v_quantity, v_parent.price_per_kg, v_parent.freshness_duration,
+            v_parent.certification, 'available', v_owner_id, NULL
+          ) RETURNING id INTO v_child_id;
+
+          v_release := record_lineage_transaction(p_batch_id, v_owner_id, v_quantity, v_product_details, v_previous_hash,
+            jsonb_build_object(
+              'processingDetails', 'Split ' || v_quantity || 'kg into batch ' || v_child_id,
+              'notes', NULLIF(left(trim(v_child->>'label'), 255), ''),
+              'lineage', jsonb_build_object('operation', 'SPLIT', 'direction', 'OUT',
+                'parentBatchIds', jsonb_build_array(p_batch_id), 'childBatchIds', jsonb_build_array(v_child_id))
+            ), v_opening.transaction_timestamp);
+          v_previous_hash := v_release.ipfs_hash;
+
+          v_opening := record_lineage_transaction(v_child_id, v_owner_id, v_quantity,
+            v_product_details || jsonb_build_object('grading', v_grading), v_release.ipfs_hash,
+            jsonb_build_object(
+              'processingDetails', 'Split from 1 batch',
+              'notes', NULLIF(left(trim(v_child->>'label'), 255), ''),
+              'lineage', jsonb_build_object('operation', 'SPLIT', 'direction', 'IN',
+                'parentBatchIds', jsonb_build_array(p_batch_id), 'childBatchIds', jsonb_build_array(v_child_id))
+            ), v_release.transaction_timestamp);
+
+          INSERT INTO batch_lineage (parent_batch_id, child_batch_id, operation, quantity, transaction_id)
+            VALUES (p_batch_id, v_child_id, 'SPLIT', v_quantity, v_release.transaction_id);
+
+          v_child_ids := v_child_ids || to_jsonb(v_child_id);
+        END LOOP;
+
+        PERFORM reduce_listed_quantity(p_batch_id, v_owner_id, v_requested);
+
+        RETURN jsonb_build_object('batchId', p_batch_id, 'childBatchIds', v_child_ids);
+      END;
+      $$;
+
+      -- Merge quantities from batches of one crop that the caller owns into one lot. Each source is
+      -- {batchId, quantity, previousHash?}. The lot takes the earliest harvest date, which keeps
+      -- freshness deadlines conservative, and the grading given or else the first source's.
+      CREATE OR REPLACE FUNCTION merge_batches(p_sources JSONB, p_grading TEXT, p_label TEXT) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_owner_id UUID;
+        v_source JSONB;
+        v_batch_id UUID;
+        v_batch batches%ROWTYPE;
+        v_first batches%ROWTYPE;
+        v_template batches%ROWTYPE;
+        v_quantity NUMERIC;
+        v_total NUMERIC := 0;
+        v_repacked NUMERIC;
+        v_grading TEXT;
+        v_label TEXT := NULLIF(left(trim(p_label), 255), '');
+        v_merged_id UUID;
+        v_parent_ids JSONB;
+        v_release transactions%ROWTYPE;
+        v_opening transactions%ROWTYPE;
+      BEGIN
+        SELECT id INTO v_owner_id FROM profiles WHERE user_id = auth.uid();
+        IF v_owner_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF jsonb_typeof(p_sources) IS DISTINCT FROM 'array' OR jsonb_array_length(p_sources) < 2 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: at least two batches are required to merge';
+        END IF;
+        SELECT jsonb_agg(value->'batchId') INTO v_parent_ids FROM jsonb_array_elements(p_sources);
+        IF (SELECT COUNT(DISTINCT value) FROM jsonb_array_elements(v_parent_ids)) <> jsonb_array_length(p_sources) THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: each batch can only be merged once';
+        END IF;
+
+        -- Locked in ID order so concurrent re-packs of the same batches cannot deadlock
+        FOR v_source IN SELECT value FROM jsonb_array_elements(p_sources) ORDER BY (value->>'batchId')::uuid LOOP
+          v_batch_id := (v_source->>'batchId')::uuid;
+          v_quantity := (v_source->>'quantity')::numeric;
+          IF v_quantity IS NULL OR v_quantity <= 0 THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: each merged batch needs a quantity greater than 0';
+          END IF;
+
+          SELECT * INTO v_batch FROM batches WHERE id = v_batch_id FOR UPDATE;
+          IF NOT FOUND OR COALESCE(v_batch.current_owner, v_batch.farmer_id) IS DISTINCT FROM v_owner_id THEN
+            RAISE EXCEPTION 'NOT_FOUND: you have no batch %', v_batch_id;
+          END IF;
+          SELECT COALESCE(SUM(quantity), 0) INTO v_repacked FROM batch_lineage WHERE parent_batch_id = v_batch_id;
+          IF COALESCE(v_batch.harvest_quantity, 0) - v_repacked < v_quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg of batch % is left to re-pack',
+              COALESCE(v_batch.harvest_quantity, 0) - v_repacked, v_batch_id;
+          END IF;
+
+          IF v_template.id IS NOT NULL AND lower(COALESCE(v_batch.crop_type, '')) <> lower(COALESCE(v_template.crop_type, '')) THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: only batches of the same crop can be merged';
+          END IF;
+          IF v_template.id IS NULL OR v_batch.harvest_date < v_template.harvest_date THEN
+            v_template := v_batch;
+          END IF;
+          IF v_batch_id = (p_sources->0->>'batchId')::uuid THEN
+            v_first := v_batch;
+          END IF;
+          v_total := v_total + v_quantity;
+        END LOOP;
+
+        v_grading := COALESCE(NULLIF(left(trim(p_grading), 100), ''), v_first.grading);
+
+        INSERT INTO batches (
+          farmer_id, crop_type, variety, grading, sowing_date, harvest_date, harvest_quantity, price_per_kg,
+          freshness_duration, certification, status, current_owner, group_id
+        ) VALUES (
+          NULL, v_template.crop_type, v_template.variety, v_grading, v_template.sowing_date,
+          v_template.harvest_date, v_total, v_template.price_per_kg, v_template.freshness_duration,
+          v_template.certification, 'available', v_owner_id, NULL
+        ) RETURNING id INTO v_merged_id;
+
+        FOR v_source IN SELECT value FROM jsonb_array_elements(p_sources) LOOP
+          v_batch_id := (v_source->>'batchId')::uuid;
+          v_quantity := (v_source->>'quantity')::numeric;
+          SELECT * INTO v_batch FROM batches WHERE id = v_batch_id;
+
+          v_release := record_lineage_transaction(v_batch_id, v_owner_id, v_quantity,
+            jsonb_build_object(
+              'crop', COALESCE(v_batch.crop_type, ''),
+              'variety', COALESCE(v_batch.variety, ''),
+              'harvestDate', COALESCE(v_batch.harvest_date::text, ''),
+              'grading', v_batch.grading,
+              'certification', v_batch.certification
+            ), v_source->>'previousHash',
+            jsonb_build_object(
+              'processingDetails', 'Merged ' || v_quantity || 'kg into batch ' || v_merged_id,
+              'notes', v_label,
+              'lineage', jsonb_build_object('operation', 'MERGE', 'direction', 'OUT',
+                'parentBatchIds', jsonb_build_array(v_batch_id), 'childBatchIds', jsonb_build_array(v_merged_id))
+            ), v_release.transaction_timestamp);
+
+          INSERT INTO batch_lineage (parent_batch_id, child_batch_id, operation, quantity, transaction_id)
+            VALUES (v_batch_id, v_merged_id, 'MERGE', v_quantity, v_release.transaction_id);
+          PERFORM reduce_listed_quantity(v_batch_id, v_owner_id, v_quantity);
+        END LOOP;
+
+        v_opening := record_lineage_transaction(v_merged_id, v_owner_id, v_total,
+          jsonb_build_object(
+            'crop', COALESCE(v_template.crop_type, ''),
+            'variety', COALESCE(v_template.variety, ''),
+            'harvestDate', COALESCE(v_template.harvest_date::text, ''),
+            'grading', v_grading,
+            'certification', v_template.certification
+          ), v_release.ipfs_hash,
+          jsonb_build_object(
+            'processingDetails', 'Merged from ' || jsonb_array_length(p_sources) || ' batches',
+            'notes', v_label,
+            'lineage', jsonb_build_object('operation', 'MERGE', 'direction', 'IN',
+              'parentBatchIds', v_parent_ids, 'childBatchIds', jsonb_build_array(v_merged_id))
+          ), v_release.transaction_timestamp);
+
+        RETURN jsonb_build_object('batchId', v_merged_id, 'parentBatchIds', v_parent_ids);
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION record_lineage_transaction(UUID, UUID, NUMERIC, JSONB, TEXT, JSONB, TIMESTAMPTZ) FROM PUBLIC;
+      REVOKE ALL ON FUNCTION reduce_listed_quantity(UUID, UUID, NUMERIC) FROM PUBLIC;
+      REVOKE ALL ON FUNCTION split_batch(UUID, JSONB, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION split_batch(UUID, JSONB, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION merge_batches(JSONB, TEXT, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION merge_batches(JSONB, TEXT, TEXT) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createProceduresSQL });
+
+    if (error) {
+      logger.error('Error creating batch re-pack functions:', error);
+      throw error;
+    }
+
+    logger.debug('Batch re-pack functions created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create batch re-pack functions');
+  }
+};
+
+/**
+ * Create listing_auctions, auction_bids and auction_notifications tables and the bidding functions.
+ * English auctions take rising public bids and extend when a bid lands near the end; sealed tenders
+ * keep bids hidden until close. Settling awards the winner a payment hold at the winning price,
+ * which they complete through purchase_batch like any other purchase.
+ */
+export const createAuctionTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating auction tables...');
+
+    const createAuctionTablesSQL = `
+      CREATE TABLE IF NOT EXISTS listing_auctions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        marketplace_id INTEGER NOT NULL REFERENCES marketplace(id) ON DELETE CASCADE,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        seller_id UUID NOT NULL,
+        mode VARCHAR(10) NOT NULL CHECK (mode IN ('english', 'sealed')),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        starting_price DECIMAL(10,2) NOT NULL CHECK (starting_price > 0),
+        reserve_price DECIMAL(10,2),
+        min_increment DECIMAL(10,2) NOT NULL DEFAULT 1 CHECK (min_increment > 0),
+        ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        -- English auctions: a bid within this many seconds of the end pushes the end back to now + this
+        extension_seconds INTEGER NOT NULL DEFAULT 300 CHECK (extension_seconds BETWEEN 0 AND 3600),
+        status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'awarded', 'no_sale', 'cancelled')),
+        winning_bid_id UUID,
+        award_reservation_id UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_auctions_open_listing
+        ON listing_auctions(marketplace_id) WHERE status = 'open';
+      CREATE INDEX IF NOT EXISTS idx_listing_auctions_seller ON listing_auctions(seller_id);
+
+      CREATE TABLE IF NOT EXISTS auction_bids (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        auction_id UUID NOT NULL REFERENCES listing_auctions(id) ON DELETE CASCADE,
+        bidder_id UUID NOT NULL,
+        amount_per_kg DECIMAL(10,2) NOT NULL CHECK (amount_per_kg > 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'outbid', 'won', 'lost')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_auction_bids_auction ON auction_bids(auction_id, amount_per_kg DESC);
+      CREATE INDEX IF NOT EXISTS idx_auction_bids_bidder ON auction_bids(bidder_id);
+
+      CREATE TABLE IF NOT EXISTS auction_notifications (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL,
+        auction_id UUID REFERENCES listing_auctions(id) ON DELETE CASCADE,
+        notification_type VARCHAR(20) NOT NULL CHECK (notification_type IN ('outbid', 'new_bid', 'won', 'lost', 'no_sale')),
+        message TEXT NOT NULL,
+        is_read BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_auction_notifications_profile ON auction_notifications(profile_id, created_at DESC);
+
+      ALTER TABLE listing_auctions ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS listing_auctions_read ON listing_auctions;
+      CREATE POLICY listing_auctions_read ON listing_auctions FOR SELECT USING (true);
+
+      -- Sealed bids stay private to their bidder until the tender closes, including from the seller
+      ALTER TABLE auction_bids ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS auction_bids_read ON auction_bids;
+      CREATE POLICY auction_bids_read ON auction_bids FOR SELECT USING (
+        bidder_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM listing_auctions a
+          WHERE a.id = auction_bids.auction_id AND (a.mode = 'english' OR a.status <> 'open')
+        )
+      );
+
+      ALTER TABLE auction_notifications ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS auction_notifications_owner_read ON auction_notifications;
+      CREATE POLICY auction_notifications_owner_read ON auction_notifications FOR SELECT
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+      DROP POLICY IF EXISTS auction_notifications_owner_update ON auction_notifications;
+      CREATE POLICY auction_notifications_owner_update ON auction_notifications FOR UPDATE
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      -- Auctions with listing details and bid totals; the leading bid of an open sealed tender is withheld
+      CREATE OR REPLACE VIEW auction_overview AS
+        SELECT
+          a.id, a.marketplace_id, a.batch_id, a.seller_id, a.mode, a.quantity, a.starting_price,
+          a.reserve_price, a.min_increment, a.ends_at, a.extension_seconds, a.status,
+          a.winning_bid_id, a.award_reservation_id, a.created_at,
+          b.crop_type, b.variety, b.grading,
+          p.full_name AS seller_name,
+          COUNT(ab.id) AS bid_count,
+          COUNT(DISTINCT ab.bidder_id) AS bidder_count,
+          CASE WHEN a.mode = 'english' OR a.status <> 'open' THEN MAX(ab.amount_per_kg) END AS highest_bid
+        FROM listing_auctions a
+        JOIN batches b ON b.id = a.batch_id
+        LEFT JOIN profiles p ON p.id = a.seller_id
+        LEFT JOIN auction_bids ab ON ab.auction_id = a.id
+        GROUP BY a.id, b.crop_type, b.variety, b.grading, p.full_name;
+      GRANT SELECT ON auction_overview TO anon, authenticated;
+
+      CREATE OR REPLACE FUNCTION create_auction(
+        p_batch_id UUID,
+        p_mode TEXT,
+        p_starting_price NUMERIC,
+        p_reserve_price NUMERIC,
+        p_min_increment NUMERIC,
+        p_ends_at TIMESTAMPTZ,
+        p_extension_seconds INTEGER
+      ) RETURNS UUID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_seller_id UUID;
+        v_listing marketplace%ROWTYPE;
+        v_auction_id UUID;
+      BEGIN
+        SELECT id INTO v_seller_id FROM profiles WHERE user_id = auth.uid();
+        IF v_seller_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF p_mode NOT IN ('english', 'sealed') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: mode must be english or sealed';
+        END IF;
+        IF p_starting_price IS NULL OR p_starting_price <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: starting price must be positive';
+        END IF;
+        IF p_reserve_price IS NOT NULL AND p_reserve_price < p_starting_price THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: reserve price cannot be below the starting price';
+        END IF;
+        IF p_ends_at IS NULL OR p_ends_at < NOW() + INTERVAL '5 minutes' OR p_ends_at > NOW() + INTERVAL '30 days' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: auctions run between 5 minutes and 30 days';
+        END IF;
+
+        SELECT * INTO v_listing FROM marketplace
+          WHERE batch_id = p_batch_id AND status = 'available'
+          ORDER BY created_at DESC
+          LIMIT 1
+          FOR UPDATE;
+        IF NOT FOUND OR v_listing.current_seller_id IS DISTINCT FROM v_seller_id THEN
+          RAISE EXCEPTION 'NOT_AVAILABLE: you have no open listing for this batch';
+        END IF;
+        IF EXISTS (
+          SELECT 1 FROM quantity_reservations
+          WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at > NOW()
+        ) THEN
+          RAISE EXCEPTION 'NOT_AVAILABLE: buyers are checking out this listing; try again shortly';
+        END IF;
+
+        -- Off the fixed-price market until the auction settles
+        UPDATE marketplace SET status = 'auction' WHERE id = v_listing.id;
+
+        INSERT INTO listing_auctions (
+          marketplace_id, batch_id, seller_id, mode, quantity, starting_price, reserve_price,
+          min_increment, ends_at, extension_seconds
+        ) VALUES (
+          v_listing.id, p_batch_id, v_seller_id, p_mode, v_listing.quantity, p_starting_price, p_reserve_price,
+          COALESCE(p_min_increment, 1), p_ends_at, CASE WHEN p_mode = 'english' THEN COALESCE(p_extension_seconds, 300) ELSE 0 END
+        ) RETURNING id INTO v_auction_id;
+
+        RETURN v_auction_id;
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION place_bid(p_auction_id UUID, p_amount_per_kg NUMERIC) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_bidder_id UUID;
+        v_auction listing_auctions%ROWTYPE;
+        v_leader auction_bids%ROWTYPE;
+        v_minimum NUMERIC;
+        v_bid_id UUID;
+        v_extended BOOLEAN := FALSE;
+      BEGIN
+        SELECT id INTO v_bidder_id FROM profiles WHERE user_id = auth.uid();
+        IF v_bidder_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+
+        SELECT * INTO v_auction FROM listing_auctions WHERE id = p_auction_id FOR UPDATE;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_FOUND: auction does not exist';
+        END IF;
+        IF v_auction.status <> 'open' OR v_auction.ends_at <= NOW() THEN
+          RAISE EXCEPTION 'AUCTION_CLOSED: bidding has ended';
+        END IF;
+        IF v_auction.seller_id = v_bidder_id THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: you cannot bid on your own auction';
+        END IF;
+
+        IF v_auction.mode = 'english' THEN
+          SELECT * INTO v_leader FROM auction_bids
+            WHERE auction_id = p_auction_id AND status = 'active'
+            ORDER BY amount_per_kg DESC, created_at
+            LIMIT 1;
+          v_minimum := CASE WHEN v_leader.id IS NULL THEN v_auction.starting_price
+                            ELSE v_leader.amount_per_kg + v_auction.min_increment END;
+          IF p_amount_per_kg IS NULL OR p_amount_per_kg < v_minimum THEN
+            RAISE EXCEPTION 'BID_TOO_LOW: bids must be at least % per kg', v_minimum;
+          END IF;
+
+          IF v_leader.id IS NOT NULL THEN
+            UPDATE auction_bids SET status = 'outbid', updated_at = NOW() WHERE id = v_leader.id;
+            IF v_leader.bidder_id <> v_bidder_id THEN
+              INSERT INTO auction_notifications (profile_id, auction_id, notification_type, message)
+                VALUES (v_leader.bidder_id, p_auction_id, 'outbid',
+                  format('You were outbid: the leading bid is now ₹%s/kg', p_amount_per_kg));
+            END IF;
+          END IF;
+
+          INSERT INTO auction_bids (auction_id, bidder_id, amount_per_kg)
+            VALUES (p_auction_id, v_bidder_id, p_amount_per_kg)
+            RETURNING id INTO v_bid_id;
+
+          IF v_auction.extension_seconds > 0
+            AND v_auction.ends_at - NOW() < make_interval(secs => v_auction.extension_seconds) THEN
+            UPDATE listing_auctions
+              SET ends_at = NOW() + make_interval(secs => extension_seconds), updated_at = NOW()
+              WHERE id = p_auction_id
+              RETURNING * INTO v_auction;
+            v_extended := TRUE;
+          END IF;
+        ELSE
+          IF p_amount_per_kg IS NULL OR p_amount_per_kg < v_auction.starting_price THEN
+            RAISE EXCEPTION 'BID_TOO_LOW: bids must be at least % per kg', v_auction.starting_price;
+          END IF;
+
+          -- One tender per bidder; bidding again revises it
+          UPDATE auction_bids SET amount_per_kg = p_amount_per_kg, updated_at = NOW()
+            WHERE auction_id = p_auction_id AND bidder_id = v_bidder_id AND status = 'active'
+            RETURNING id INTO v_bid_id;
+          IF v_bid_id IS NULL THEN
+            INSERT INTO auction_bids (auction_id, bidder_id, amount_per_kg)
+              VALUES (p_auction_id, v_bidder_id, p_amount_per_kg)
+              RETURNING id INTO v_bid_id;
+          END IF;
+        END IF;
+
+        INSERT INTO auction_notifications (profile_id, auction_id, notification_type, message)
+          VALUES (v_auction.seller_id, p_auction_id, 'new_bid',
+            CASE WHEN v_auction.mode = 'english'
+              THEN format('New bid of ₹%s/kg on your auction', p_amount_per_kg)
+              ELSE 'A sealed tender was submitted on your auction' END);
+
+        RETURN jsonb_build_object(
+          'bidId', v_bid_id,
+          'amountPerKg', p_amount_per_kg,
+          'endsAt', v_auction.ends_at,
+          'extended', v_extended
+        );
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION settle_auction(p_auction_id UUID) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_auction listing_auctions%ROWTYPE;
+        v_listing marketplace%ROWTYPE;
+        v_winner auction_bids%ROWTYPE;
+        v_reservation_id UUID;
+        v_payment_due TIMESTAMPTZ := NOW() + INTERVAL '48 hours';
+      BEGIN
+        IF auth.uid() IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: sign in to settle auctions';
+        END IF;
+
+        SELECT * INTO v_auction FROM listing_auctions WHERE id = p_auction_id FOR UPDATE;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_FOUND: auction does not exist';
+        END IF;
+
+        -- Already settled: report the outcome again
+        IF v_auction.status <> 'open' THEN
+          SELECT * INTO v_winner FROM auction_bids WHERE id = v_auction.winning_bid_id;
+          RETURN jsonb_build_object(
+            'auctionId', v_auction.id,
+            'status', v_auction.status,
+            'winnerId', v_winner.bidder_id,
+            'amountPerKg', v_winner.amount_per_kg,
+            'reservationId', v_auction.award_reservation_id
+          );
+        END IF;
+        IF v_auction.ends_at > NOW() THEN
+          RAISE EXCEPTION 'AUCTION_OPEN: bidding runs until %', v_auction.ends_at;
+        END IF;
+
+        SELECT * INTO v_listing FROM marketplace WHERE id = v_auction.marketplace_id FOR UPDATE;
+
+        SELECT * INTO v_winner FROM auction_bids
+          WHERE auction_id = p_auction_id AND status = 'active'
+            AND amount_per_kg >= COALESCE(v_auction.reserve_price, 0)
+          ORDER BY amount_per_kg DESC, created_at
+          LIMIT 1;
+
+        IF v_winner.id IS NULL THEN
+          UPDATE auction_bids SET status = 'lost', updated_at = NOW()
+            WHERE auction_id = p_auction_id AND status IN ('active', 'outbid');
+          UPDATE listing_auctions SET status = 'no_sale', updated_at = NOW() WHERE id = p_auction_id;
+          UPDATE marketplace SET status = 'available' WHERE id = v_auction.marketplace_id AND status = 'auction';
+
+          INSERT INTO auction_notifications (profile_id, auction_id, notification_type, message)
+            SELECT DISTINCT bidder_id, p_auction_id, 'no_sale', 'The auction closed without a bid at the reserve price'
+            FROM auction_bids WHERE auction_id = p_auction_id
+            UNION
+            SELECT v_auction.seller_id, p_auction_id, 'no_sale', 'Your auction closed without a bid at the reserve price; the listing is back at its fixed price';
+
+          RETURN jsonb_build_object('auctionId', v_auction.id, 'status', 'no_sale');
+        END IF;
+
+        UPDATE auction_bids SET status = 'won', updated_at = NOW() WHERE id = v_winner.id;
+        UPDATE auction_bids SET status = 'lost', updated_at = NOW()
+          WHERE auction_id = p_auction_id AND id <> v_winner.id AND status IN ('active', 'outbid');
+
+        -- The award is a hold at the winning price that the winner pays through purchase_batch
+        INSERT INTO quantity_reservations (
+          marketplace_id, batch_id, buyer_id, quantity, expires_at, auction_id, unit_price
+        ) VALUES (
+          v_auction.marketplace_id, v_auction.batch_id, v_winner.bidder_id,
+          LEAST(v_auction.quantity, v_listing.quantity), v_payment_due, v_auction.id, v_winner.amount_per_kg
+        ) RETURNING id INTO v_reservation_id;
+
+        UPDATE marketplace SET status = 'available' WHERE id = v_auction.marketplace_id AND status = 'auction';
+        UPDATE listing_auctions
+          SET status = 'awarded', winning_bid_id = v_winner.id, award_reservation_id = v_reservation_id, updated_at = NOW()
+          WHERE id = p_auction_id;
+
+        INSERT INTO auction_notifications (profile_id, auction_id, notification_type, message)
+          VALUES (v_winner.bidder_id, p_auction_id, 'won',
+            format('You won at ₹%s/kg. Complete the purchase by %s', v_winner.amount_per_kg, to_char(v_payment_due, 'DD Mon HH24:MI')));
+        INSERT INTO auction_notifications (profile_id, auction_id, notification_type, message)
+          SELECT DISTINCT bidder_id, p_auction_id, 'lost', 'The auction closed and your bid did not win'
+          FROM auction_bids WHERE auction_id = p_auction_id AND bidder_id <> v_winner.bidder_id;
+
+        RETURN jsonb_build_object(
+          'auctionId', v_auction.id,
+          'status', 'awarded',
+          'winnerId', v_winner.bidder_id,
+          'amountPerKg', v_winner.amount_per_kg,
+          'reservationId', v_reservation_id,
+          'paymentDueAt', v_payment_due
+        );
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION cancel_auction(p_auction_id UUID) RETURNS VOID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_auction listing_auctions%ROWTYPE;
+      BEGIN
+        SELECT * INTO v_auction FROM listing_auctions WHERE id = p_auction_id FOR UPDATE;
+        IF NOT FOUND OR v_auction.seller_id NOT IN (SELECT id FROM profiles WHERE user_id = auth.uid()) THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such auction';
+        END IF;
+        IF v_auction.status <> 'open' THEN
+          RAISE EXCEPTION 'AUCTION_CLOSED: the auction has already closed';
+        END IF;
+        IF EXISTS (SELECT 1 FROM auction_bids WHERE auction_id = p_auction_id) THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: auctions with bids cannot be cancelled';
+        END IF;
+
+        UPDATE listing_auctions SET status = 'cancelled', updated_at = NOW() WHERE id = p_auction_id;
+        UPDATE marketplace SET status = 'available' WHERE id = v_auction.marketplace_id AND status = 'auction';
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION create_auction(UUID, TEXT, NUMERIC, NUMERIC, NUMERIC, TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION create_auction(UUID, TEXT, NUMERIC, NUMERIC, NUMERIC, TIMESTAMPTZ, INTEGER) TO authenticated;
+      REVOKE ALL ON FUNCTION place_bid(UUID, NUMERIC) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION place_bid(UUID, NUMERIC) TO authenticated;
+      REVOKE ALL ON FUNCTION settle_auction(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION settle_auction(UUID) TO authenticated;
+      REVOKE ALL ON FUNCTION cancel_auction(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION cancel_auction(UUID) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createAuctionTablesSQL });
+
+    if (error) {
+      logger.error('Error creating auction tables:', error);
+      throw error;
+    }
+
+    logger.debug('Auction tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create auction tables');
+  }
+};
+
+/**
+ * Create listing_offers and offer_events tables and the negotiation functions. A buyer offers a
+ * price and quantity on a listing, and buyer and seller take turns countering until one side
+ * accepts, rejects, withdraws, or the offer expires. Every step is appended to offer_events.
+ * Acceptance places a hold at the agreed price that the buyer pays through purchase_batch.
+ */
+export const createOfferTables = async (): Promise<void> => {
+  try {
+    logger.debug('Creating offer tables...');
+
+    const createOfferTablesSQL = `
+      CREATE TABLE IF NOT EXISTS listing_offers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        marketplace_id INTEGER NOT NULL REFERENCES marketplace(id) ON DELETE CASCADE,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        buyer_id UUID NOT NULL,
+        seller_id UUID NOT NULL,
+        -- Terms currently on the table; earlier terms are in offer_events
+        price_per_kg DECIMAL(10,2) NOT NULL CHECK (price_per_kg > 0),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'rejected', 'withdrawn', 'expired')),
+        awaiting VARCHAR(10) NOT NULL DEFAULT 'seller' CHECK (awaiting IN ('buyer', 'seller')),
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        reservation_id UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_offers_open_buyer
+        ON listing_offers(marketplace_id, buyer_id) WHERE status = 'open';
+      CREATE INDEX IF NOT EXISTS idx_listing_offers_buyer ON listing_offers(buyer_id, updated_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_listing_offers_seller ON listing_offers(seller_id, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS offer_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        offer_id UUID NOT NULL REFERENCES listing_offers(id) ON DELETE CASCADE,
+        -- NULL when the system expired the offer
+        actor_id UUID,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('offer', 'counter', 'accept', 'reject', 'withdraw', 'expire')),
+        price_per_kg DECIMAL(10,2),
+        quantity DECIMAL(10,2),
+        message TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_offer_events_offer ON offer_events(offer_id, created_at);
+
+      -- Only the two parties see a negotiation. There are no write policies: changes go through the
+      -- functions below, so the event log is append-only.
+      ALTER TABLE listing_offers ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS listing_offers_party_read ON listing_offers;
+      CREATE POLICY listing_offers_party_read ON listing_offers FOR SELECT USING (
+        buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR seller_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+      );
+
+      ALTER TABLE offer_events ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS offer_events_party_read ON offer_events;
+      CREATE POLICY offer_events_party_read ON offer_events FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM listing_offers o
+          WHERE o.id = offer_events.offer_id
+            AND (o.buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+              OR o.seller_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+        )
+      );
+
+      -- Offers with listing details, party names and the checkout hold of accepted offers.
+      -- security_invoker keeps the listing_offers policy in force for readers of the view.
+      CREATE OR REPLACE VIEW offer_overview WITH (security_invoker = true) AS
+        SELECT
+          o.id, o.marketplace_id, o.batch_id, o.buyer_id, o.seller_id, o.price_per_kg, o.quantity,
+          o.status, o.awaiting, o.expires_at, o.reservation_id, o.created_at, o.updated_at,
+          b.crop_type, b.variety, b.price_per_kg AS list_price, m.quantity AS listed_quantity,
+          buyer.full_name AS buyer_name,
+          seller.full_name AS seller_name,
+          r.status AS hold_status,
+          r.expires_at AS hold_expires_at
+        FROM listing_offers o
+        JOIN batches b ON b.id = o.batch_id
+        JOIN marketplace m ON m.id = o.marketplace_id
+        LEFT JOIN profiles buyer ON buyer.id = o.buyer_id
+        LEFT JOIN profiles seller ON seller.id = o.seller_id
+        LEFT JOIN quantity_reservations r ON r.id = o.reservation_id;
+      GRANT SELECT ON offer_overview TO authenticated;
+
+      -- Mark the caller's lapsed open offers expired, recording each in the event log
+      CREATE OR REPLACE FUNCTION expire_offers() RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_count INTEGER;
+      BEGIN
+        WITH expired AS (
+          UPDATE listing_offers SET status = 'expired', updated_at = NOW()
+            WHERE status = 'open' AND expires_at <= NOW()
+              AND (buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+                OR seller_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+            RETURNING id, price_per_kg, quantity
+        )
+        INSERT INTO offer_events (offer_id, action, price_per_kg, quantity)
+          SELECT id, 'expire', price_per_kg, quantity FROM expired;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        RETURN v_count;
+      END;
+      $$;
+
+      CREATE OR REPLACE FUNCTION make_offer(
+        p_batch_id UUID,
+        p_price_per_kg NUMERIC,
+        p_quantity NUMERIC,
+        p_message TEXT DEFAULT NULL,
+        p_valid_hours INTEGER DEFAULT 24
+      ) RETURNS UUID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_buyer_id UUID;
+        v_listing marketplace%ROWTYPE;
+        v_offer_id UUID;
+      BEGIN
+        SELECT id INTO v_buyer_id FROM profiles WHERE user_id = auth.uid();
+        IF v_buyer_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR p_quantity IS NULL OR p_quantity <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: price and quantity must be positive';
+        END IF;
+        IF p_valid_hours IS NULL OR p_valid_hours NOT BETWEEN 1 AND 168 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: offers stay open between 1 hour and 7 days';
+        END IF;
+
+        SELECT * INTO v_listing FROM marketplace
+          WHERE batch_id = p_batch_id AND status = 'available'
+          ORDER BY created_at DESC
+          LIMIT 1;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AVAILABLE: this batch is no longer for sale';
+        END IF;
+        IF v_listing.current_seller_id = v_buyer_id THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: you cannot make an offer on your own listing';
+        END IF;
+        IF p_quantity > v_listing.quantity THEN
+          RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg is listed', v_listing.quantity;
+        END IF;
+
+        PERFORM expire_offers();
+        IF EXISTS (
+          SELECT 1 FROM listing_offers
+          WHERE marketplace_id = v_listing.id AND buyer_id = v_buyer_id AND status = 'open'
+        ) THEN
+          RAISE EXCEPTION 'OFFER_EXISTS: you already have an open offer on this listing';
+        END IF;
+
+        INSERT INTO listing_offers (marketplace_id, batch_id, buyer_id, seller_id, price_per_kg, quantity, expires_at)
+          VALUES (v_listing.id, p_batch_id, v_buyer_id, v_listing.current_seller_id, p_price_per_kg, p_quantity,
+            NOW() + make_interval(hours => p_valid_hours))
+          RETURNING id INTO v_offer_id;
+        INSERT INTO offer_events (offer_id, actor_id, action, price_per_kg, quantity, message)
+          VALUES (v_offer_id, v_buyer_id, 'offer', p_price_per_kg, p_quantity, NULLIF(trim(p_message), ''));
+
+        RETURN v_offer_id;
+      END;
+      $$;
+
+      -- p_action is accept, reject or counter for the party whose turn it is, or withdraw for the buyer.
+      -- Counters carry new terms; the other terms arguments are ignored.
+      CREATE OR REPLACE FUNCTION respond_to_offer(
+        p_offer_id UUID,
+        p_action TEXT,
+        p_price_per_kg NUMERIC DEFAULT NULL,
+        p_quantity NUMERIC DEFAULT NULL,
+        p_message TEXT DEFAULT NULL,
+        p_valid_hours INTEGER DEFAULT 24
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_actor_id UUID;
+        v_offer listing_offers%ROWTYPE;
+        v_role TEXT;
+        v_listing marketplace%ROWTYPE;
+        v_held NUMERIC;
+        v_reservation quantity_reservations%ROWTYPE;
+        v_checkout_due TIMESTAMPTZ := NOW() + INTERVAL '24 hours';
+      BEGIN
+        SELECT id INTO v_actor_id FROM profiles WHERE user_id = auth.uid();
+        IF v_actor_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF p_action NOT IN ('accept', 'reject', 'counter', 'withdraw') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: unknown action %', p_action;
+        END IF;
+
+        SELECT * INTO v_offer FROM listing_offers WHERE id = p_offer_id FOR UPDATE;
+        IF NOT FOUND OR v_actor_id NOT IN (v_offer.buyer_id, v_offer.seller_id) THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such offer';
+        END IF;
+        v_role := CASE WHEN v_actor_id = v_offer.buyer_id THEN 'buyer' ELSE 'seller' END;
+
+        IF v_offer.status = 'open' AND v_offer.expires_at <= NOW() THEN
+          UPDATE listing_offers SET status = 'expired', updated_at = NOW() WHERE id = p_offer_id;
+          INSERT INTO offer_events (offer_id, action, price_per_kg, quantity)
+            VALUES (p_offer_id, 'expire', v_offer.price_per_kg, v_offer.quantity);
+          -- Raising would roll the expiry back, so report it in the result instead
+          RETURN jsonb_build_object('offerId', p_offer_id, 'status', 'expired');
+        END IF;
+        IF v_offer.status <> 'open' THEN
+          RAISE EXCEPTION 'OFFER_CLOSED: this offer is already %', v_offer.status;
+        END IF;
+
+        IF p_action = 'withdraw' THEN
+          IF v_role <> 'buyer' THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: only the buyer can withdraw an offer';
+          END IF;
+          UPDATE listing_offers SET status = 'withdrawn', updated_at = NOW()
+            WHERE id = p_offer_id RETURNING * INTO v_offer;
+        ELSIF v_offer.awaiting <> v_role THEN
+          RAISE EXCEPTION 'NOT_YOUR_TURN: waiting for the other party to respond';
+        ELSIF p_action = 'reject' THEN
+          UPDATE listing_offers SET status = 'rejected', updated_at = NOW()
+            WHERE id = p_offer_id RETURNING * INTO v_offer;
+        ELSIF p_action = 'counter' THEN
+          IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR p_quantity IS NULL OR p_quantity <= 0 THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: a counter needs a positive price and quantity';
+          END IF;
+          IF p_valid_hours IS NULL OR p_valid_hours NOT BETWEEN 1 AND 168 THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: offers stay open between 1 hour and 7 days';
+          END IF;
+          UPDATE listing_offers
+            SET price_per_kg = p_price_per_kg, quantity = p_quantity,
+                awaiting = CASE WHEN v_role = 'buyer' THEN 'seller' ELSE 'buyer' END,
+                expires_at = NOW() + make_interval(hours => p_valid_hours), updated_at = NOW()
+            WHERE id = p_offer_id RETURNING * INTO v_offer;
+        ELSE
+          -- Accept: hold the agreed quantity at the agreed price for the buyer's checkout
+          SELECT * INTO v_listing FROM marketplace WHERE id = v_offer.marketplace_id FOR UPDATE;
+          IF NOT FOUND OR v_listing.status <> 'available' THEN
+            RAISE EXCEPTION 'NOT_AVAILABLE: this listing is no longer for sale';
+          END IF;
+          -- A purchase hands the listing to the buyer; the offer was agreed with the seller before that
+          IF v_listing.current_seller_id IS DISTINCT FROM v_offer.seller_id THEN
+            RAISE EXCEPTION 'NOT_AVAILABLE: this listing has changed hands since the offer was made';
+          END IF;
+
+          UPDATE quantity_reservations SET status = 'expired', updated_at = NOW()
+            WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at <= NOW();
+          SELECT COALESCE(SUM(quantity), 0) INTO v_held FROM quantity_reservations
+            WHERE marketplace_id = v_listing.id AND status = 'held';
+          IF v_offer.quantity > v_listing.quantity - v_held THEN
+            RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg available', GREATEST(v_listing.quantity - v_held, 0);
+          END IF;
+
+          INSERT INTO quantity_reservations (
+            marketplace_id, batch_id, buyer_id, quantity, expires_at, offer_id, unit_price
+          ) VALUES (
+            v_listing.id, v_offer.batch_id, v_offer.buyer_id, v_offer.quantity, v_checkout_due, v_offer.id, v_offer.price_per_kg
+          ) RETURNING * INTO v_reservation;
+
+          UPDATE listing_offers SET status = 'accepted', reservation_id = v_reservation.id, updated_at = NOW()
+            WHERE id = p_offer_id RETURNING * INTO v_offer;
+        END IF;
+
+        INSERT INTO offer_events (offer_id, actor_id, action, price_per_kg, quantity, message)
+          VALUES (p_offer_id, v_actor_id, p_action, v_offer.price_per_kg, v_offer.quantity, NULLIF(trim(p_message), ''));
+
+        RETURN jsonb_build_object(
+          'offerId', v_offer.id,
+          'status', v_offer.status,
+          'awaiting', v_offer.awaiting,
+          'pricePerKg', v_offer.price_per_kg,
+          'quantity', v_offer.quantity,
+          'expiresAt', v_offer.expires_at,
+          'reservationId', v_reservation.id,
+          'checkoutDueAt', CASE WHEN v_reservation.id IS NOT NULL THEN v_reservation.expires_at END
+        );
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION expire_offers() FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION expire_offers() TO authenticated;
+      REVOKE ALL ON FUNCTION make_offer(UUID, NUMERIC, NUMERIC, TEXT, INTEGER) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION make_offer(UUID, NUMERIC, NUMERIC, TEXT, INTEGER) TO authenticated;
+      REVOKE ALL ON FUNCTION respond_to_offer(UUID, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION respond_to_offer(UUID, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createOfferTablesSQL });
+
+    if (error) {
+      logger.error('Error creating offer tables:', error);
+      throw error;
+    }
+
+    logger.debug('Offer tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create offer tables');
+  }
+};
+
+/**
+ * Create purchase_orders and purchase_order_lines tables and the checkout_order function, which buys
+ * every line of a cart in one database transaction: all quantities and prices are checked together
+ * before anything is written, then each line goes through purchase_batch's purchase, and the order is
+ * charged one delivery fee. Delivery requests record
+ * the order and the value of goods they carry so pooled deliveries can split costs per seller.
+ */
+export const createOrderCheckout = async (): Promise<void> => {
+  try {
+    logger.debug('Creating order checkout tables...');
+
+    const createOrderCheckoutSQL = `
+      CREATE TABLE IF NOT EXISTS purchase_orders (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        idempotency_key VARCHAR(100) NOT NULL,
+        buyer_id UUID NOT NULL,
+        delivery_address TEXT NOT NULL,
+        -- The lines as requested, to tell a retry from a different order under the same key
+        request JSONB NOT NULL,
+        subtotal DECIMAL(12,2) NOT NULL,
+        delivery_fee DECIMAL(12,2) NOT NULL,
+        total DECIMAL(12,2) NOT NULL,
+        summary JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (buyer_id, idempotency_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS purchase_order_lines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        line_no INTEGER NOT NULL,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        marketplace_id INTEGER NOT NULL,
+        seller_id UUID,
+        quantity DECIMAL(10,2) NOT NULL,
+        unit_price DECIMAL(10,2) NOT NULL,
+        subtotal DECIMAL(12,2) NOT NULL,
+        transaction_id VARCHAR(100) NOT NULL,
+        receipt_id UUID NOT NULL,
+        UNIQUE (order_id, line_no)
+      );
+      CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_seller ON purchase_order_lines(seller_id);
+
+      ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS purchase_orders_buyer_read ON purchase_orders;
+      CREATE POLICY purchase_orders_buyer_read ON purchase_orders FOR SELECT
+        USING (buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS purchase_order_lines_party_read ON purchase_order_lines;
+      CREATE POLICY purchase_order_lines_party_read ON purchase_order_lines FOR SELECT USING (
+        seller_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM purchase_orders o
+          WHERE o.id = purchase_order_lines.order_id
+            AND o.buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        )
+      );
+
+      -- Deliveries created for an order carry the seller subtotal of the goods they move
+      ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES purchase_orders(id);
+      ALTER TABLE delivery_requests ADD COLUMN IF NOT EXISTS order_subtotal DECIMAL(12,2);
+
+      -- p_lines is a JSON array of {"batchId", "quantity", "unitPrice"}; unitPrice is the price the buyer was shown
+      CREATE OR REPLACE FUNCTION checkout_order(
+        p_idempotency_key TEXT,
+        p_lines JSONB,
+        p_delivery_address TEXT
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_buyer_id UUID;
+        v_existing purchase_orders%ROWTYPE;
+        v_line RECORD;
+        v_listing marketplace%ROWTYPE;
+        v_batch batches%ROWTYPE;
+        v_held NUMERIC;
+        v_problems TEXT[] := '{}';
+        v_price_changes TEXT[] := '{}';
+        v_reservation_id UUID;
+        v_receipt JSONB;
+        v_receipts JSONB := '[]'::jsonb;
+        v_order_id UUID := gen_random_uuid();
+        v_subtotal NUMERIC := 0;
+        v_delivery_fee NUMERIC;
+        v_summary JSONB;
+      BEGIN
+        IF p_idempotency_key IS NULL OR length(p_idempotency_key) NOT BETWEEN 8 AND 90 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: an idempotency key of 8 to 90 characters is required';
+        END IF;
+        IF p_lines IS NULL OR jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) NOT BETWEEN 1 AND 50 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: an order has between 1 and 50 lines';
+        END IF;
+        IF coalesce(trim(p_delivery_address), '') = '' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: a delivery address is required';
+        END IF;
+
+        SELECT id INTO v_buyer_id FROM profiles WHERE user_id = auth.uid();
+        IF v_buyer_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+
+        PERFORM pg_advisory_xact_lock(hashtext(v_buyer_id::text || ':order:' || p_idempotency_key));
+        SELECT * INTO v_existing FROM purchase_orders
+          WHERE buyer_id = v_buyer_id AND idempotency_key = p_idempotency_key;
+        IF FOUND THEN
+          IF v_existing.request <> p_lines THEN
+            RAISE EXCEPTION 'IDEMPOTENCY_CONFLICT: this key was already used for a different order';
+          END IF;
+          RETURN v_existing.summary || jsonb_build_object('replayed', true);
+        END IF;
+
+        IF EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_lines) l
+          GROUP BY l->>'batchId' HAVING COUNT(*) > 1
+        ) THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: each batch may appear only once in an order';
+        END IF;
+
+        -- Lock every listing first, in a fixed order so concurrent checkouts cannot deadlock,
+        -- and collect every shortfall so the buyer can fix the whole cart at once
+        FOR v_line IN
+          SELECT (l->>'batchId')::uuid AS batch_id, (l->>'quantity')::numeric AS quantity,
+                 (l->>'unitPrice')::numeric AS unit_price
+          FROM jsonb_array_elements(p_lines) l
+          ORDER BY 1
+        LOOP
+          IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: quantities must be positive';
+          END IF;
+
+          SELECT * INTO v_batch FROM batches WHERE id = v_line.batch_id;
+          SELECT * INTO v_listing FROM marketplace
+            WHERE batch_id = v_line.batch_id AND status = 'available'
+            ORDER BY created_at DESC
+            LIMIT 1
+            FOR UPDATE;
+          IF NOT FOUND THEN
+            v_problems := v_problems || format('%s is no longer for sale', coalesce(v_batch.crop_type, v_line.batch_id::text));
+            CONTINUE;
+          END IF;
+          IF v_listing.current_seller_id = v_buyer_id THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: you cannot buy your own listing';
+          END IF;
+
+          -- The buyer's own checkout holds on these listings are replaced by this order
+          UPDATE quantity_reservations SET status = 'released', updated_at = NOW()
+            WHERE marketplace_id = v_listing.id AND buyer_id = v_buyer_id AND status = 'held'
+              AND auction_id IS NULL AND offer_id IS NULL AND contract_id IS NULL AND quote_id IS NULL;
+          SELECT COALESCE(SUM(quantity), 0) INTO v_held FROM quantity_reservations
+            WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at > NOW();
+          IF v_line.quantity > v_listing.quantity - v_held THEN
+            v_problems := v_problems || format('%s: only %s kg available', v_batch.crop_type, GREATEST(v_listing.quantity - v_held, 0));
+          END IF;
+          IF v_line.unit_price IS NOT NULL AND v_batch.price_per_kg IS DISTINCT FROM v_line.unit_price THEN
+            v_price_changes := v_price_changes || format('%s is now %s per kg', v_batch.crop_type, v_batch.price_per_kg);
+          END IF;
+        END LOOP;
+
+        IF array_length(v_problems, 1) > 0 THEN
+          RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: %', array_to_string(v_problems, '; ');
+        END IF;
+        IF array_length(v_price_changes, 1) > 0 THEN
+          RAISE EXCEPTION 'PRICE_CHANGED: %', array_to_string(v_price_changes, '; ');
+        END IF;
+
+        -- Everything fits: buy line by line through the single-batch procedure, without its per-purchase
+        -- delivery fee. Any failure rolls back the lines already bought.
+        FOR v_line IN
+          SELECT ordinality AS line_no, (l->>'batchId')::uuid AS batch_id, (l->>'quantity')::numeric AS quantity,
+                 (l->>'unitPrice')::numeric AS unit_price
+          FROM jsonb_array_elements(p_lines) WITH ORDINALITY AS t(l, ordinality)
+        LOOP
+          SELECT * INTO v_listing FROM marketplace
+            WHERE batch_id = v_line.batch_id AND status = 'available'
+            ORDER BY created_at DESC
+            LIMIT 1;
+          INSERT INTO quantity_reservations (marketplace_id, batch_id, buyer_id, quantity, expires_at)
+            VALUES (v_listing.id, v_line.batch_id, v_buyer_id, v_line.quantity, NOW() + INTERVAL '5 minutes')
+            RETURNING id INTO v_reservation_id;
+
+          v_receipt := purchase_reserved_batch(
+            p_idempotency_key || ':' || v_line.line_no, v_line.batch_id, v_line.quantity,
+            v_line.unit_price, p_delivery_address, v_reservation_id, false
+          );
+          v_receipts := v_receipts || jsonb_build_array(v_receipt || jsonb_build_object('lineNo', v_line.line_no));
+          v_subtotal := v_subtotal + (v_receipt->>'subtotal')::numeric;
+        END LOOP;
+
+        -- One delivery fee for the whole order, on the same terms as a single purchase
+        v_delivery_fee := CASE WHEN v_subtotal > 1000 THEN 0 ELSE 50 END;
+
+        v_summary := jsonb_build_object(
+          'orderId', v_order_id,
+          'buyerId', v_buyer_id,
+          'lines', v_receipts,
+          'subtotal', v_subtotal,
+          'deliveryFee', v_delivery_fee,
+          'total', v_subtotal + v_delivery_fee,
+          'placedAt', NOW()
+        );
+
+        INSERT INTO purchase_orders (id, idempotency_key, buyer_id, delivery_address, request, subtotal, delivery_fee, total, summary)
+          VALUES (v_order_id, p_idempotency_key, v_buyer_id, p_delivery_address, p_lines,
+            v_subtotal, v_delivery_fee, v_subtotal + v_delivery_fee, v_summary);
+
+        INSERT INTO purchase_order_lines (
+          order_id, line_no, batch_id, marketplace_id, seller_id, quantity, unit_price, subtotal, transaction_id, receipt_id
+        )
+          SELECT v_order_id, (r->>'lineNo')::integer, (r->>'batchId')::uuid, (r->>'marketplaceId')::integer,
+                 (r->>'sellerId')::uuid, (r->>'quantity')::numeric, (r->>'unitPrice')::numeric,
+                 (r->>'subtotal')::numeric, r->>'transactionId', (r->>'receiptId')::uuid
+          FROM jsonb_array_elements(v_receipts) r;
+
+        RETURN v_summary || jsonb_build_object('replayed', false);
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION checkout_order(TEXT, JSONB, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION checkout_order(TEXT, JSONB, TEXT) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createOrderCheckoutSQL });
+
+    if (error) {
+      logger.error('Error creating order checkout tables:', error);
+      throw error;
+    }
+
+    logger.debug('Order checkout tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create order checkout tables');
+  }
+};
+
+/**
+ * Create forward_contracts and contract_allocations tables and the contract functions. A buyer and a
+ * farmer agree on crop, variety, grade, a quantity range and a price before sowing. Harvests the farmer
+ * registers inside the delivery window are allocated to matching contracts as holds at the contract
+ * price, which the buyer pays through purchase_batch. Settlement after the window charges the
+ * agreed penalty per kilogram short of the minimum.
+ */
+export const createForwardContracts = async (): Promise<void> => {
+  try {
+    logger.debug('Creating forward contract tables...');
+
+    const createForwardContractsSQL = `
+      CREATE TABLE IF NOT EXISTS forward_contracts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        buyer_id UUID NOT NULL,
+        farmer_id UUID NOT NULL,
+        proposed_by UUID NOT NULL,
+        crop_type VARCHAR(100) NOT NULL,
+        -- NULL variety or grading matches any harvest of the crop
+        variety VARCHAR(100),
+        grading VARCHAR(100),
+        min_quantity DECIMAL(10,2) NOT NULL CHECK (min_quantity > 0),
+        max_quantity DECIMAL(10,2) NOT NULL CHECK (max_quantity >= min_quantity),
+        price_per_kg DECIMAL(10,2) NOT NULL CHECK (price_per_kg > 0),
+        delivery_start DATE NOT NULL,
+        delivery_end DATE NOT NULL CHECK (delivery_end >= delivery_start),
+        shortfall_penalty_per_kg DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (shortfall_penalty_per_kg >= 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'proposed'
+          CHECK (status IN ('proposed', 'active', 'fulfilled', 'shortfall', 'rejected', 'cancelled', 'expired')),
+        -- Held for the buyer or already bought; only bought quantity counts towards fulfilment
+        allocated_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+        delivered_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+        penalty_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+        notes TEXT,
+        settled_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      ALTER TABLE forward_contracts ADD COLUMN IF NOT EXISTS delivered_quantity DECIMAL(10,2) NOT NULL DEFAULT 0;
+      CREATE INDEX IF NOT EXISTS idx_forward_contracts_farmer_open
+        ON forward_contracts(farmer_id, crop_type) WHERE status = 'active';
+      CREATE INDEX IF NOT EXISTS idx_forward_contracts_buyer ON forward_contracts(buyer_id, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS contract_allocations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        contract_id UUID NOT NULL REFERENCES forward_contracts(id) ON DELETE CASCADE,
+        batch_id UUID NOT NULL REFERENCES batches(id),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        price_per_kg DECIMAL(10,2) NOT NULL,
+        reservation_id UUID REFERENCES quantity_reservations(id),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (contract_id, batch_id)
+      );
+
+      -- Only the two parties see a contract; changes go through the functions below
+      ALTER TABLE forward_contracts ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS forward_contracts_party_read ON forward_contracts;
+      CREATE POLICY forward_contracts_party_read ON forward_contracts FOR SELECT USING (
+        buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+      );
+
+      ALTER TABLE contract_allocations ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS contract_allocations_party_read ON contract_allocations;
+      CREATE POLICY contract_allocations_party_read ON contract_allocations FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM forward_contracts c
+          WHERE c.id = contract_allocations.contract_id
+            AND (c.buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+              OR c.farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+        )
+      );
+
+      -- Recreated rather than replaced, since c.* gains a column before the party names
+      DROP VIEW IF EXISTS forward_contract_overview;
+      CREATE VIEW forward_contract_overview WITH (security_invoker = true) AS
+        SELECT c.*, buyer.full_name AS buyer_name, farmer.full_name AS farmer_name
+        FROM forward_contracts c
+        LEFT JOIN profiles buyer ON buyer.id = c.buyer_id
+        LEFT JOIN profiles farmer ON farmer.id = c.farmer_id;
+      GRANT SELECT ON forward_contract_overview TO authenticated;
+
+      -- Allocated harvests with the state of the buyer's payment hold
+      CREATE OR REPLACE VIEW contract_allocation_overview WITH (security_invoker = true) AS
+        SELECT
+          a.id, a.contract_id, a.batch_id, a.quantity, a.price_per_kg, a.reservation_id, a.created_at,
+          b.crop_type, b.variety, b.harvest_date,
+          r.status AS hold_status,
+          r.expires_at AS hold_expires_at
+        FROM contract_allocations a
+        JOIN batches b ON b.id = a.batch_id
+        LEFT JOIN quantity_reservations r ON r.id = a.reservation_id;
+      GRANT SELECT ON contract_allocation_overview TO authenticated;
+
+      -- The caller proposes to the other party: farmers propose to buyers and buyers to farmers
+      CREATE OR REPLACE FUNCTION propose_forward_contract(
+        p_counterparty_id UUID,
+        p_crop_type TEXT,
+        p_variety TEXT,
+        p_grading TEXT,
+        p_min_quantity NUMERIC,
+        p_max_quantity NUMERIC,
+        p_price_per_kg NUMERIC,
+        p_delivery_start DATE,
+        p_delivery_end DATE,
+        p_shortfall_penalty_per_kg NUMERIC DEFAULT 0,
+        p_notes TEXT DEFAULT NULL
+      ) RETURNS UUID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_caller profiles%ROWTYPE;
+        v_counterparty profiles%ROWTYPE;
+        v_contract_id UUID;
+      BEGIN
+        SELECT * INTO v_caller FROM profiles WHERE user_id = auth.uid();
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        SELECT * INTO v_counterparty FROM profiles WHERE id = p_counterparty_id;
+        IF NOT FOUND OR v_counterparty.id = v_caller.id THEN
+          RAISE EXCEPTION 'NOT_FOUND: no such counterparty';
+        END IF;
+        IF (v_caller.user_type = 'farmer') = (v_counterparty.user_type = 'farmer') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: a contract is between a farmer and a buyer';
+        END IF;
+        IF coalesce(trim(p_crop_type), '') = '' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: a crop is required';
+        END IF;
+        IF p_min_quantity IS NULL OR p_min_quantity <= 0 OR p_max_quantity IS NULL OR p_max_quantity < p_min_quantity THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: the quantity range must be positive with minimum at most maximum';
+        END IF;
+        IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR coalesce(p_shortfall_penalty_per_kg, 0) < 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: price must be positive and the penalty not negative';
+        END IF;
+        IF p_delivery_start IS NULL OR p_delivery_end IS NULL OR p_delivery_end < p_delivery_start
+          OR p_delivery_end < CURRENT_DATE THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: the delivery window must end on or after its start, and not in the past';
+        END IF;
+
+        INSERT INTO forward_contracts (
+          buyer_id, farmer_id, proposed_by, crop_type, variety, grading, min_quantity, max_quantity,
+          price_per_kg, delivery_start, delivery_end, shortfall_penalty_per_kg, notes
+        ) VALUES (
+          CASE WHEN v_caller.user_type = 'farmer' THEN v_counterparty.id ELSE v_caller.id END,
+          CASE WHEN v_caller.user_type = 'farmer' THEN v_caller.id ELSE v_counterparty.id END,
+          v_caller.id, trim(p_crop_type), NULLIF(trim(p_variety), ''), NULLIF(trim(p_grading), ''),
+          p_min_quantity, p_max_quantity, p_price_per_kg, p_delivery_start, p_delivery_end,
+          coalesce(p_shortfall_penalty_per_kg, 0), NULLIF(trim(p_notes), '')
+        ) RETURNING id INTO v_contract_id;
+
+        RETURN v_contract_id;
+      END;
+      $$;
+
+      -- The counterparty accepts or rejects a proposal; the proposer can cancel it until then
+      CREATE OR REPLACE FUNCTION respond_to_forward_contract(p_contract_id UUID, p_action TEXT) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_actor_id UUID;
+        v_contract forward_contracts%ROWTYPE;
+      BEGIN
+        SELECT id INTO v_actor_id FROM profiles WHERE user_id = auth.uid();
+        IF v_actor_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF p_action NOT IN ('accept', 'reject', 'cancel') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: unknown action %', p_action;
+        END IF;
+
+        SELECT * INTO v_contract FROM forward_contracts WHERE id = p_contract_id FOR UPDATE;
+        IF NOT FOUND OR v_actor_id NOT IN (v_contract.buyer_id, v_contract.farmer_id) THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such contract';
+        END IF;
+        IF v_contract.status <> 'proposed' THEN
+          RAISE EXCEPTION 'CONTRACT_CLOSED: this contract is already %', v_contract.status;
+        END IF;
+        IF (p_action = 'cancel') <> (v_actor_id = v_contract.proposed_by) THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: only the proposer can cancel, and only the other party can accept or reject';
+        END IF;
+        IF p_action = 'accept' AND v_contract.delivery_end < CURRENT_DATE THEN
+          RAISE EXCEPTION 'CONTRACT_CLOSED: the delivery window has already ended';
+        END IF;
+
+        UPDATE forward_contracts
+          SET status = CASE p_action WHEN 'accept' THEN 'active' WHEN 'reject' THEN 'rejected' ELSE 'cancelled' END,
+              updated_at = NOW()
+          WHERE id = p_contract_id
+          RETURNING * INTO v_contract;
+
+        RETURN jsonb_build_object('contractId', v_contract.id, 'status', v_contract.status);
+      END;
+      $$;
+
+      -- Keep a contract's totals in step with its holds: a hold that expires or is released hands its
+      -- quantity back to the contract, and a hold that purchase_batch consumes is delivered, which
+      -- fulfils an active contract once the maximum has been bought
+      CREATE OR REPLACE FUNCTION sync_contract_hold() RETURNS TRIGGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        IF NEW.status = 'consumed' THEN
+          UPDATE forward_contracts
+            SET delivered_quantity = delivered_quantity + NEW.quantity,
+                status = CASE WHEN status = 'active' AND delivered_quantity + NEW.quantity >= max_quantity
+                  THEN 'fulfilled' ELSE status END,
+                settled_at = CASE WHEN status = 'active' AND delivered_quantity + NEW.quantity >= max_quantity
+                  THEN NOW() ELSE settled_at END,
+                updated_at = NOW()
+            WHERE id = NEW.contract_id;
+        ELSE
+          UPDATE forward_contracts
+            SET allocated_quantity = GREATEST(allocated_quantity - NEW.quantity, 0),
+                updated_at = NOW()
+            WHERE id = NEW.contract_id;
+        END IF;
+        RETURN NEW;
+      END;
+      $$;
+
+      DROP TRIGGER IF EXISTS quantity_reservations_contract_hold ON quantity_reservations;
+      CREATE TRIGGER quantity_reservations_contract_hold
+        AFTER UPDATE OF status ON quantity_reservations
+        FOR EACH ROW
+        WHEN (NEW.contract_id IS NOT NULL AND OLD.status = 'held' AND NEW.status <> 'held')
+        EXECUTE FUNCTION sync_contract_hold();
+
+      -- Allocate a newly registered harvest to the farmer's active contracts that it matches, oldest
+      -- contract first, up to each contract's maximum. Each allocation holds the quantity on the listing
+      -- for the buyer at the contract price for seven days; the contract counts it as delivered only
+      -- once the buyer buys the hold. Calling it again for a batch adds nothing.
+      CREATE OR REPLACE FUNCTION allocate_batch_to_contracts(p_batch_id UUID) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_farmer_id UUID;
+        v_batch batches%ROWTYPE;
+        v_listing marketplace%ROWTYPE;
+        v_contract forward_contracts%ROWTYPE;
+        v_held NUMERIC;
+        v_free NUMERIC;
+        v_quantity NUMERIC;
+        v_reservation_id UUID;
+        v_allocations JSONB := '[]'::jsonb;
+      BEGIN
+        SELECT id INTO v_farmer_id FROM profiles WHERE user_id = auth.uid();
+        IF v_farmer_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+
+        SELECT * INTO v_batch FROM batches WHERE id = p_batch_id FOR UPDATE;
+        IF NOT FOUND OR v_batch.farmer_id <> v_farmer_id OR v_batch.current_owner <> v_farmer_id THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such harvest';
+        END IF;
+
+        SELECT * INTO v_listing FROM marketplace
+          WHERE batch_id = p_batch_id AND status = 'available'
+          ORDER BY created_at DESC
+          LIMIT 1
+          FOR UPDATE;
+        IF NOT FOUND THEN
+          RETURN jsonb_build_object('batchId', p_batch_id, 'allocations', v_allocations);
+        END IF;
+
+        UPDATE quantity_reservations SET status = 'expired', updated_at = NOW()
+          WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at <= NOW();
+        SELECT COALESCE(SUM(quantity), 0) INTO v_held FROM quantity_reservations
+          WHERE marketplace_id = v_listing.id AND status = 'held';
+        v_free := v_listing.quantity - v_held;
+
+        FOR v_contract IN
+          SELECT * FROM forward_contracts c
+            WHERE c.farmer_id = v_farmer_id
+              AND c.status = 'active'
+              AND lower(c.crop_type) = lower(v_batch.crop_type)
+              AND (c.variety IS NULL OR lower(c.variety) = lower(coalesce(v_batch.variety, '')))
+              AND (c.grading IS NULL OR lower(c.grading) = lower(coalesce(v_batch.grading, '')))
+              AND v_batch.harvest_date::date BETWEEN c.delivery_start AND c.delivery_end
+              AND c.allocated_quantity < c.max_quantity
+              AND NOT EXISTS (SELECT 1 FROM contract_allocations a WHERE a.contract_id = c.id AND a.batch_id = p_batch_id)
+            ORDER BY c.created_at
+            FOR UPDATE
+        LOOP
+          EXIT WHEN v_free <= 0;
+          v_quantity := LEAST(v_contract.max_quantity - v_contract.allocated_quantity, v_free);
+
+          INSERT INTO quantity_reservations (
+            marketplace_id, batch_id, buyer_id, quantity, expires_at, contract_id, unit_price
+          ) VALUES (
+            v_listing.id, p_batch_id, v_contract.buyer_id, v_quantity, NOW() + INTERVAL '7 days',
+            v_contract.id, v_contract.price_per_kg
+          ) RETURNING id INTO v_reservation_id;
+
+          INSERT INTO contract_allocations (contract_id, batch_id, quantity, price_per_kg, reservation_id)
+            VALUES (v_contract.id, p_batch_id, v_quantity, v_contract.price_per_kg, v_reservation_id);
+
+          UPDATE forward_contracts
+            SET allocated_quantity = allocated_quantity + v_quantity,
+                updated_at = NOW()
+            WHERE id = v_contract.id;
+
+          v_free := v_free - v_quantity;
+          v_allocations := v_allocations || jsonb_build_object(
+            'contractId', v_contract.id,
+            'buyerId', v_contract.buyer_id,
+            'quantity', v_quantity,
+            'pricePerKg', v_contract.price_per_kg,
+            'reservationId', v_reservation_id
+          );
+        END LOOP;
+
+        RETURN jsonb_build_object('batchId', p_batch_id, 'allocations', v_allocations);
+      END;
+      $$;
+
+      -- Close the caller's contracts whose delivery window has ended: proposals lapse, and active
+      -- contracts are fulfilled or charged the penalty for each kilogram bought short of the minimum.
+      -- A contract with a hold the buyer can still pay for is settled once that hold is bought or lapses.
+      CREATE OR REPLACE FUNCTION settle_forward_contracts() RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_count INTEGER;
+      BEGIN
+        UPDATE quantity_reservations r SET status = 'expired', updated_at = NOW()
+          FROM forward_contracts c
+          WHERE r.contract_id = c.id
+            AND r.status = 'held'
+            AND r.expires_at <= NOW()
+            AND (c.buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+              OR c.farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+        UPDATE forward_contracts c
+          SET status = CASE
+                WHEN status = 'proposed' THEN 'expired'
+                WHEN delivered_quantity >= min_quantity THEN 'fulfilled'
+                ELSE 'shortfall'
+              END,
+              penalty_amount = CASE
+                WHEN status = 'active' AND delivered_quantity < min_quantity
+                  THEN (min_quantity - delivered_quantity) * shortfall_penalty_per_kg
+                ELSE 0
+              END,
+              settled_at = NOW(),
+              updated_at = NOW()
+          WHERE status IN ('proposed', 'active')
+            AND delivery_end < CURRENT_DATE
+            AND NOT EXISTS (SELECT 1 FROM quantity_reservations r WHERE r.contract_id = c.id AND r.status = 'held')
+            AND (buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+              OR farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        RETURN v_count;
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION propose_forward_contract(UUID, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, DATE, DATE, NUMERIC, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION propose_forward_contract(UUID, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, DATE, DATE, NUMERIC, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION respond_to_forward_contract(UUID, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION respond_to_forward_contract(UUID, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION allocate_batch_to_contracts(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION allocate_batch_to_contracts(UUID) TO authenticated;
+      REVOKE ALL ON FUNCTION settle_forward_contracts() FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION settle_forward_contracts() TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createForwardContractsSQL });
+
+    if (error) {
+      logger.error('Error creating forward contract tables:', error);
+      throw error;
+    }
+
+    logger.debug('Forward contract tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create forward contract tables');
+  }
+};
+
+/**
+ * Create demand_requests, demand_quotes and demand_notifications tables and the demand functions.
+ * Buyers post what they need and farmers whose listed or upcoming harvests fit are notified. Farmers
+ * quote from a listed batch or from an upcoming harvest; accepting a listed-batch quote holds the
+ * quantity at the quoted price for purchase_batch, and accepting an upcoming-harvest quote opens a
+ * forward contract that the harvest is allocated to when it is registered.
+ */
+export const createDemandRequests = async (): Promise<void> => {
+  try {
+    logger.debug('Creating demand request tables...');
+
+    const createDemandRequestsSQL = `
+      CREATE TABLE IF NOT EXISTS demand_requests (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        buyer_id UUID NOT NULL,
+        crop_type VARCHAR(100) NOT NULL,
+        -- NULL variety or grading accepts any
+        variety VARCHAR(100),
+        grading VARCHAR(100),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        max_price_per_kg DECIMAL(10,2) NOT NULL CHECK (max_price_per_kg > 0),
+        delivery_location TEXT NOT NULL,
+        needed_by DATE NOT NULL,
+        notes TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'closed', 'expired')),
+        filled_quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_demand_requests_open ON demand_requests(crop_type, needed_by) WHERE status = 'open';
+      CREATE INDEX IF NOT EXISTS idx_demand_requests_buyer ON demand_requests(buyer_id, created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS demand_quotes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        request_id UUID NOT NULL REFERENCES demand_requests(id) ON DELETE CASCADE,
+        -- Copied from the request so the read policies need not look at demand_requests
+        buyer_id UUID NOT NULL,
+        farmer_id UUID NOT NULL,
+        -- A listed batch, or NULL for an upcoming harvest ready from available_from
+        batch_id UUID REFERENCES batches(id),
+        marketplace_id INTEGER REFERENCES marketplace(id),
+        available_from DATE,
+        price_per_kg DECIMAL(10,2) NOT NULL CHECK (price_per_kg > 0),
+        quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+        message TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'accepted', 'rejected', 'withdrawn', 'lapsed')),
+        reservation_id UUID REFERENCES quantity_reservations(id),
+        contract_id UUID REFERENCES forward_contracts(id),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_quotes_pending_farmer
+        ON demand_quotes(request_id, farmer_id) WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_demand_quotes_farmer ON demand_quotes(farmer_id, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS demand_notifications (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL,
+        request_id UUID REFERENCES demand_requests(id) ON DELETE CASCADE,
+        quote_id UUID REFERENCES demand_quotes(id) ON DELETE CASCADE,
+        notification_type VARCHAR(20) NOT NULL CHECK (notification_type IN ('match', 'quote', 'accepted', 'rejected')),
+        message TEXT NOT NULL,
+        is_read BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_demand_notifications_profile ON demand_notifications(profile_id, created_at DESC);
+      -- A farmer hears about each request once, however many of their batches fit it
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_demand_notifications_match
+        ON demand_notifications(profile_id, request_id) WHERE notification_type = 'match';
+
+      -- Open requests are a public board; closed ones stay visible to their buyer and to farmers who quoted
+      ALTER TABLE demand_requests ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS demand_requests_read ON demand_requests;
+      CREATE POLICY demand_requests_read ON demand_requests FOR SELECT USING (
+        status = 'open'
+        OR buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM demand_quotes q
+          WHERE q.request_id = demand_requests.id
+            AND q.farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        )
+      );
+
+      ALTER TABLE demand_quotes ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS demand_quotes_party_read ON demand_quotes;
+      CREATE POLICY demand_quotes_party_read ON demand_quotes FOR SELECT USING (
+        buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+        OR farmer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid())
+      );
+
+      ALTER TABLE demand_notifications ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS demand_notifications_owner_read ON demand_notifications;
+      CREATE POLICY demand_notifications_owner_read ON demand_notifications FOR SELECT
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+      DROP POLICY IF EXISTS demand_notifications_owner_update ON demand_notifications;
+      CREATE POLICY demand_notifications_owner_update ON demand_notifications FOR UPDATE
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      -- Requests with the buyer's name; pending_quotes counts only the quotes the reader may see
+      CREATE OR REPLACE VIEW demand_request_overview WITH (security_invoker = true) AS
+        SELECT
+          r.*,
+          buyer.full_name AS buyer_name,
+          (SELECT COUNT(*) FROM demand_quotes q WHERE q.request_id = r.id AND q.status = 'pending') AS pending_quotes
+        FROM demand_requests r
+        LEFT JOIN profiles buyer ON buyer.id = r.buyer_id;
+      GRANT SELECT ON demand_request_overview TO authenticated;
+
+      CREATE OR REPLACE VIEW demand_quote_overview WITH (security_invoker = true) AS
+        SELECT
+          q.id, q.request_id, q.buyer_id, q.farmer_id, q.batch_id, q.marketplace_id, q.available_from,
+          q.price_per_kg, q.quantity, q.message, q.status, q.reservation_id, q.contract_id,
+          q.created_at, q.updated_at,
+          r.crop_type, r.delivery_location, r.needed_by,
+          farmer.full_name AS farmer_name,
+          b.variety AS batch_variety, b.grading AS batch_grading, b.harvest_date,
+          res.status AS hold_status,
+          res.expires_at AS hold_expires_at
+        FROM demand_quotes q
+        JOIN demand_requests r ON r.id = q.request_id
+        LEFT JOIN profiles farmer ON farmer.id = q.farmer_id
+        LEFT JOIN batches b ON b.id = q.batch_id
+        LEFT JOIN quantity_reservations res ON res.id = q.reservation_id;
+      GRANT SELECT ON demand_quote_overview TO authenticated;
+
+      -- Whether a harvest meets a request: same crop, variety and grade where the request names them,
+      -- harvested by the date the goods are needed
+      CREATE OR REPLACE FUNCTION demand_fits(
+        p_request_crop TEXT, p_request_variety TEXT, p_request_grading TEXT, p_needed_by DATE,
+        p_batch_crop TEXT, p_batch_variety TEXT, p_batch_grading TEXT, p_harvest_date DATE
+      ) RETURNS BOOLEAN
+      LANGUAGE sql
+      IMMUTABLE
+      AS $$
+        SELECT lower(p_request_crop) = lower(p_batch_crop)
+          AND (p_request_variety IS NULL OR lower(p_request_variety) = lower(coalesce(p_batch_variety, '')))
+          AND (p_request_grading IS NULL OR lower(p_request_grading) = lower(coalesce(p_batch_grading, '')))
+          AND p_harvest_date <= p_needed_by;
+      $$;
+
+      -- Close the caller's lapsed requests, as buyer or as a farmer who quoted, and lapse their pending quotes
+      CREATE OR REPLACE FUNCTION expire_demand_requests() RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_profile_id UUID;
+        v_count INTEGER;
+      BEGIN
+        SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid();
+
+        WITH expired AS (
+          UPDATE demand_requests r SET status = 'expired', updated_at = NOW()
+            WHERE r.status = 'open' AND r.needed_by < CURRENT_DATE
+              AND (r.buyer_id = v_profile_id
+                OR EXISTS (SELECT 1 FROM demand_quotes q WHERE q.request_id = r.id AND q.farmer_id = v_profile_id))
+            RETURNING r.id
+        )
+        UPDATE demand_quotes SET status = 'lapsed', updated_at = NOW()
+          WHERE status = 'pending' AND request_id IN (SELECT id FROM expired);
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        RETURN v_count;
+      END;
+      $$;
+
+      -- Post a request and notify farmers with a listed batch, or a batch registered ahead of harvest, that fits it
+      CREATE OR REPLACE FUNCTION post_demand_request(
+        p_crop_type TEXT,
+        p_variety TEXT,
+        p_grading TEXT,
+        p_quantity NUMERIC,
+        p_max_price_per_kg NUMERIC,
+        p_delivery_location TEXT,
+        p_needed_by DATE,
+        p_notes TEXT DEFAULT NULL
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_buyer profiles%ROWTYPE;
+        v_request demand_requests%ROWTYPE;
+        v_notified INTEGER;
+      BEGIN
+        SELECT * INTO v_buyer FROM profiles WHERE user_id = auth.uid();
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF v_buyer.user_type = 'farmer' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: farmers respond to demand requests rather than post them';
+        END IF;
+        IF coalesce(trim(p_crop_type), '') = '' OR coalesce(trim(p_delivery_location), '') = '' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: a crop and a delivery location are required';
+        END IF;
+        IF p_quantity IS NULL OR p_quantity <= 0 OR p_max_price_per_kg IS NULL OR p_max_price_per_kg <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: quantity and maximum price must be positive';
+        END IF;
+        IF p_needed_by IS NULL OR p_needed_by < CURRENT_DATE THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: the needed-by date cannot be in the past';
+        END IF;
+
+        INSERT INTO demand_requests (
+          buyer_id, crop_type, variety, grading, quantity, max_price_per_kg, delivery_location, needed_by, notes
+        ) VALUES (
+          v_buyer.id, trim(p_crop_type), NULLIF(trim(p_variety), ''), NULLIF(trim(p_grading), ''), p_quantity,
+          p_max_price_per_kg, trim(p_delivery_location), p_needed_by, NULLIF(trim(p_notes), '')
+        ) RETURNING * INTO v_request;
+
+        INSERT INTO demand_notifications (profile_id, request_id, notification_type, message)
+          SELECT DISTINCT b.farmer_id, v_request.id, 'match',
+            format('%s needs %s kg of %s in %s by %s at up to ₹%s/kg',
+              coalesce(v_buyer.full_name, 'A buyer'), v_request.quantity, v_request.crop_type,
+              v_request.delivery_location, v_request.needed_by, v_request.max_price_per_kg)
+          FROM batches b
+          WHERE b.current_owner = b.farmer_id
+            AND b.farmer_id <> v_buyer.id
+            AND demand_fits(v_request.crop_type, v_request.variety, v_request.grading, v_request.needed_by,
+              b.crop_type, b.variety, b.grading, b.harvest_date::date)
+            AND (b.harvest_date::date > CURRENT_DATE
+              OR EXISTS (SELECT 1 FROM marketplace m WHERE m.batch_id = b.id AND m.status = 'available' AND m.quantity > 0))
+          ON CONFLICT (profile_id, request_id) WHERE notification_type = 'match' DO NOTHING;
+        GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+        RETURN jsonb_build_object('requestId', v_request.id, 'notifiedFarmers', v_notified);
+      END;
+      $$;
+
+      -- Notify the farmer of open requests that a batch they have just registered fits
+      CREATE OR REPLACE FUNCTION notify_demand_matches(p_batch_id UUID) RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_farmer_id UUID;
+        v_batch batches%ROWTYPE;
+        v_count INTEGER;
+      BEGIN
+        SELECT id INTO v_farmer_id FROM profiles WHERE user_id = auth.uid();
+        SELECT * INTO v_batch FROM batches WHERE id = p_batch_id;
+        IF NOT FOUND OR v_farmer_id IS NULL OR v_batch.farmer_id <> v_farmer_id THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such harvest';
+        END IF;
+
+        INSERT INTO demand_notifications (profile_id, request_id, notification_type, message)
+          SELECT v_farmer_id, r.id, 'match',
+            format('%s needs %s kg of %s in %s by %s at up to ₹%s/kg',
+              coalesce(buyer.full_name, 'A buyer'), r.quantity - r.filled_quantity, r.crop_type,
+              r.delivery_location, r.needed_by, r.max_price_per_kg)
+          FROM demand_requests r
+          LEFT JOIN profiles buyer ON buyer.id = r.buyer_id
+          WHERE r.status = 'open'
+            AND r.needed_by >= CURRENT_DATE
+            AND r.buyer_id <> v_farmer_id
+            AND demand_fits(r.crop_type, r.variety, r.grading, r.needed_by,
+              v_batch.crop_type, v_batch.variety, v_batch.grading, v_batch.harvest_date::date)
+          ON CONFLICT (profile_id, request_id) WHERE notification_type = 'match' DO NOTHING;
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        RETURN v_count;
+      END;
+      $$;
+
+      -- A farmer quotes from a listed batch (p_batch_id) or from an upcoming harvest (p_available_from)
+      CREATE OR REPLACE FUNCTION submit_demand_quote(
+        p_request_id UUID,
+        p_price_per_kg NUMERIC,
+        p_quantity NUMERIC,
+        p_batch_id UUID DEFAULT NULL,
+        p_available_from DATE DEFAULT NULL,
+        p_message TEXT DEFAULT NULL
+      ) RETURNS UUID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_farmer profiles%ROWTYPE;
+        v_request demand_requests%ROWTYPE;
+        v_batch batches%ROWTYPE;
+        v_listing marketplace%ROWTYPE;
+        v_quote_id UUID;
+      BEGIN
+        SELECT * INTO v_farmer FROM profiles WHERE user_id = auth.uid();
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF v_farmer.user_type IS DISTINCT FROM 'farmer' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: only farmers can quote on demand requests';
+        END IF;
+
+        SELECT * INTO v_request FROM demand_requests WHERE id = p_request_id;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_FOUND: no such demand request';
+        END IF;
+        IF v_request.status <> 'open' OR v_request.needed_by < CURRENT_DATE THEN
+          RAISE EXCEPTION 'REQUEST_CLOSED: this request is no longer taking quotes';
+        END IF;
+        IF p_price_per_kg IS NULL OR p_price_per_kg <= 0 OR p_quantity IS NULL OR p_quantity <= 0 THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: price and quantity must be positive';
+        END IF;
+        IF p_price_per_kg > v_request.max_price_per_kg THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: the buyer pays at most ₹% per kg', v_request.max_price_per_kg;
+        END IF;
+        IF p_quantity > v_request.quantity - v_request.filled_quantity THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: only % kg is still needed', v_request.quantity - v_request.filled_quantity;
+        END IF;
+
+        IF p_batch_id IS NOT NULL THEN
+          SELECT * INTO v_batch FROM batches WHERE id = p_batch_id;
+          IF NOT FOUND OR v_batch.farmer_id <> v_farmer.id OR v_batch.current_owner <> v_farmer.id THEN
+            RAISE EXCEPTION 'NOT_FOUND: you have no such harvest';
+          END IF;
+          IF NOT demand_fits(v_request.crop_type, v_request.variety, v_request.grading, v_request.needed_by,
+            v_batch.crop_type, v_batch.variety, v_batch.grading, v_batch.harvest_date::date) THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: this batch does not meet the request';
+          END IF;
+          SELECT * INTO v_listing FROM marketplace
+            WHERE batch_id = p_batch_id AND status = 'available'
+            ORDER BY created_at DESC
+            LIMIT 1;
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'NOT_AVAILABLE: this batch is not listed for sale';
+          END IF;
+          IF p_quantity > v_listing.quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg is listed', v_listing.quantity;
+          END IF;
+        ELSIF p_available_from IS NULL OR p_available_from > v_request.needed_by THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: an upcoming harvest must be ready by %', v_request.needed_by;
+        END IF;
+
+        PERFORM expire_demand_requests();
+        IF EXISTS (
+          SELECT 1 FROM demand_quotes WHERE request_id = p_request_id AND farmer_id = v_farmer.id AND status = 'pending'
+        ) THEN
+          RAISE EXCEPTION 'QUOTE_EXISTS: you already have a pending quote on this request';
+        END IF;
+
+        INSERT INTO demand_quotes (
+          request_id, buyer_id, farmer_id, batch_id, marketplace_id, available_from, price_per_kg, quantity, message
+        ) VALUES (
+          p_request_id, v_request.buyer_id, v_farmer.id, p_batch_id, v_listing.id,
+          CASE WHEN p_batch_id IS NULL THEN p_available_from END, p_price_per_kg, p_quantity, NULLIF(trim(p_message), '')
+        ) RETURNING id INTO v_quote_id;
+
+        INSERT INTO demand_notifications (profile_id, request_id, quote_id, notification_type, message)
+          VALUES (v_request.buyer_id, p_request_id, v_quote_id, 'quote',
+            format('%s quoted ₹%s/kg for %s kg of %s', coalesce(v_farmer.full_name, 'A farmer'),
+              p_price_per_kg, p_quantity, v_request.crop_type));
+
+        RETURN v_quote_id;
+      END;
+      $$;
+
+      -- p_action is accept or reject for the buyer, or withdraw for the farmer
+      CREATE OR REPLACE FUNCTION respond_to_demand_quote(p_quote_id UUID, p_action TEXT) RETURNS JSONB
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_actor_id UUID;
+        v_quote demand_quotes%ROWTYPE;
+        v_request demand_requests%ROWTYPE;
+        v_listing marketplace%ROWTYPE;
+        v_held NUMERIC;
+        v_reservation quantity_reservations%ROWTYPE;
+        v_contract_id UUID;
+      BEGIN
+        SELECT id INTO v_actor_id FROM profiles WHERE user_id = auth.uid();
+        IF v_actor_id IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: no profile for the signed-in user';
+        END IF;
+        IF p_action NOT IN ('accept', 'reject', 'withdraw') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: unknown action %', p_action;
+        END IF;
+
+        SELECT * INTO v_quote FROM demand_quotes WHERE id = p_quote_id FOR UPDATE;
+        IF NOT FOUND OR v_actor_id NOT IN (v_quote.buyer_id, v_quote.farmer_id) THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such quote';
+        END IF;
+        IF (p_action = 'withdraw') <> (v_actor_id = v_quote.farmer_id) THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: only the farmer can withdraw, and only the buyer can accept or reject';
+        END IF;
+        IF v_quote.status <> 'pending' THEN
+          RAISE EXCEPTION 'QUOTE_CLOSED: this quote is already %', v_quote.status;
+        END IF;
+
+        SELECT * INTO v_request FROM demand_requests WHERE id = v_quote.request_id FOR UPDATE;
+
+        IF p_action = 'withdraw' THEN
+          UPDATE demand_quotes SET status = 'withdrawn', updated_at = NOW() WHERE id = p_quote_id RETURNING * INTO v_quote;
+        ELSIF p_action = 'reject' THEN
+          UPDATE demand_quotes SET status = 'rejected', updated_at = NOW() WHERE id = p_quote_id RETURNING * INTO v_quote;
+          INSERT INTO demand_notifications (profile_id, request_id, quote_id, notification_type, message)
+            VALUES (v_quote.farmer_id, v_request.id, v_quote.id, 'rejected',
+              format('Your quote of ₹%s/kg for %s was declined', v_quote.price_per_kg, v_request.crop_type));
+        ELSE
+          IF v_request.status <> 'open' OR v_request.needed_by < CURRENT_DATE THEN
+            RAISE EXCEPTION 'REQUEST_CLOSED: this request is no longer open';
+          END IF;
+          IF v_quote.quantity > v_request.quantity - v_request.filled_quantity THEN
+            RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg is still needed', v_request.quantity - v_request.filled_quantity;
+          END IF;
+
+          IF v_quote.batch_id IS NOT NULL THEN
+            -- Listed batch: hold the quoted quantity at the quoted price for the buyer's checkout
+            SELECT * INTO v_listing FROM marketplace
+              WHERE batch_id = v_quote.batch_id AND status = 'available'
+              ORDER BY created_at DESC
+              LIMIT 1
+              FOR UPDATE;
+            IF NOT FOUND OR v_listing.current_seller_id <> v_quote.farmer_id THEN
+              RAISE EXCEPTION 'NOT_AVAILABLE: this batch is no longer for sale';
+            END IF;
+            UPDATE quantity_reservations SET status = 'expired', updated_at = NOW()
+              WHERE marketplace_id = v_listing.id AND status = 'held' AND expires_at <= NOW();
+            SELECT COALESCE(SUM(quantity), 0) INTO v_held FROM quantity_reservations
+              WHERE marketplace_id = v_listing.id AND status = 'held';
+            IF v_quote.quantity > v_listing.quantity - v_held THEN
+              RAISE EXCEPTION 'INSUFFICIENT_QUANTITY: only % kg available', GREATEST(v_listing.quantity - v_held, 0);
+            END IF;
+
+            INSERT INTO quantity_reservations (
+              marketplace_id, batch_id, buyer_id, quantity, expires_at, quote_id, unit_price
+            ) VALUES (
+              v_listing.id, v_quote.batch_id, v_quote.buyer_id, v_quote.quantity, NOW() + INTERVAL '24 hours',
+              v_quote.id, v_quote.price_per_kg
+            ) RETURNING * INTO v_reservation;
+          ELSE
+            -- Upcoming harvest: a forward contract the harvest is allocated to on registration
+            INSERT INTO forward_contracts (
+              buyer_id, farmer_id, proposed_by, crop_type, variety, grading, min_quantity, max_quantity,
+              price_per_kg, delivery_start, delivery_end, status, notes
+            ) VALUES (
+              v_quote.buyer_id, v_quote.farmer_id, v_quote.farmer_id, v_request.crop_type, v_request.variety,
+              v_request.grading, v_quote.quantity, v_quote.quantity, v_quote.price_per_kg,
+              LEAST(CURRENT_DATE, v_quote.available_from), v_request.needed_by, 'active',
+              format('Quote on demand request for %s in %s', v_request.crop_type, v_request.delivery_location)
+            ) RETURNING id INTO v_contract_id;
+          END IF;
+
+          UPDATE demand_quotes
+            SET status = 'accepted', reservation_id = v_reservation.id, contract_id = v_contract_id, updated_at = NOW()
+            WHERE id = p_quote_id RETURNING * INTO v_quote;
+
+          UPDATE demand_requests
+            SET filled_quantity = filled_quantity + v_quote.quantity,
+                status = CASE WHEN filled_quantity + v_quote.quantity >= quantity THEN 'filled' ELSE status END,
+                updated_at = NOW()
+            WHERE id = v_request.id RETURNING * INTO v_request;
+          IF v_request.status = 'filled' THEN
+            UPDATE demand_quotes SET status = 'lapsed', updated_at = NOW()
+              WHERE request_id = v_request.id AND status = 'pending';
+          END IF;
+
+          INSERT INTO demand_notifications (profile_id, request_id, quote_id, notification_type, message)
+            VALUES (v_quote.farmer_id, v_request.id, v_quote.id, 'accepted',
+              format('Your quote of ₹%s/kg for %s kg of %s was accepted', v_quote.price_per_kg, v_quote.quantity, v_request.crop_type));
+        END IF;
+
+        RETURN jsonb_build_object(
+          'quoteId', v_quote.id,
+          'status', v_quote.status,
+          'reservationId', v_reservation.id,
+          'checkoutDueAt', v_reservation.expires_at,
+          'contractId', v_contract_id
+        );
+      END;
+      $$;
+
+      -- The buyer stops taking quotes; pending quotes lapse and accepted ones stand
+      CREATE OR REPLACE FUNCTION close_demand_request(p_request_id UUID) RETURNS VOID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        UPDATE demand_requests SET status = 'closed', updated_at = NOW()
+          WHERE id = p_request_id AND status = 'open'
+            AND buyer_id IN (SELECT id FROM profiles WHERE user_id = auth.uid());
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'NOT_FOUND: you have no such open request';
+        END IF;
+        UPDATE demand_quotes SET status = 'lapsed', updated_at = NOW()
+          WHERE request_id = p_request_id AND status = 'pending';
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION expire_demand_requests() FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION expire_demand_requests() TO authenticated;
+      REVOKE ALL ON FUNCTION post_demand_request(TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, DATE, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION post_demand_request(TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, DATE, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION notify_demand_matches(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION notify_demand_matches(UUID) TO authenticated;
+      REVOKE ALL ON FUNCTION submit_demand_quote(UUID, NUMERIC, NUMERIC, UUID, DATE, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION submit_demand_quote(UUID, NUMERIC, NUMERIC, UUID, DATE, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION respond_to_demand_quote(UUID, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION respond_to_demand_quote(UUID, TEXT) TO authenticated;
+      REVOKE ALL ON FUNCTION close_demand_request(UUID) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION close_demand_request(UUID) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createDemandRequestsSQL });
+
+    if (error) {
+      logger.error('Error creating demand request tables:', error);
+      throw error;
+    }
+
+    logger.debug('Demand request tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create demand request tables');
+  }
+};
+
+/**
+ * Create the marketplace_listings view and search_marketplace function.
+ * Listings are searched, faceted and paged in the database instead of downloading every listing
+ * with its batch and seller: full-text prefix search over crop and variety, facets for grade,
+ * certification, district, price, freshness remaining and seller type, and keyset cursors for
+ * each sort order so pages stay stable while listings come and go.
+ */
+export const createMarketplaceSearch = async (): Promise<void> => {
+  try {
+    logger.debug('Creating marketplace search...');
+
+    const createMarketplaceSearchSQL = `
+      -- District of a stored farm_location: the "district" key of a JSON location, otherwise the part
+      -- before the state in a "locality, district, state [pincode]" address
+      CREATE OR REPLACE FUNCTION location_district(p_location TEXT) RETURNS TEXT
+      LANGUAGE plpgsql
+      IMMUTABLE
+      AS $$
+      DECLARE
+        v_address TEXT := p_location;
+        v_parts TEXT[];
+      BEGIN
+        IF p_location IS NULL OR btrim(p_location) = '' THEN
+          RETURN NULL;
+        END IF;
+
+        IF left(btrim(p_location), 1) = '{' THEN
+          BEGIN
+            IF p_location::jsonb ? 'district' THEN
+              RETURN NULLIF(initcap(btrim(p_location::jsonb->>'district')), '');
+            END IF;
+            v_address := p_location::jsonb->>'address';
+          EXCEPTION WHEN others THEN
+            v_address := p_location;
+          END;
+        END IF;
+
+        SELECT array_agg(part ORDER BY n) INTO v_parts
+        FROM (
+          SELECT btrim(regexp_replace(part, '[0-9]+', '', 'g')) AS part, n
+          FROM unnest(string_to_array(COALESCE(v_address, ''), ',')) WITH ORDINALITY AS t(part, n)
+        ) parts
+        WHERE part <> '';
+
+        IF v_parts IS NULL THEN
+          RETURN NULL;
+        END IF;
+        RETURN initcap(v_parts[GREATEST(array_length(v_parts, 1) - 1, 1)]);
+      END;
+      $$;
+
+      CREATE INDEX IF NOT EXISTS idx_batches_search
+        ON batches USING GIN (to_tsvector('simple', COALESCE(crop_type, '') || ' ' || COALESCE(variety, '')));
+      CREATE INDEX IF NOT EXISTS idx_batches_price_per_kg ON batches(price_per_kg);
+      CREATE INDEX IF NOT EXISTS idx_marketplace_available
+        ON marketplace(created_at DESC, id DESC) WHERE status = 'available' AND quantity > 0;
+
+      -- Available listings with their batch, seller and the quantity not held in other checkouts
+      CREATE OR REPLACE VIEW marketplace_listings WITH (security_invoker = true) AS
+        SELECT
+          m.id, m.batch_id, m.current_seller_id, m.current_seller_type, m.price, m.status, m.created_at,
+          m.quantity AS listed_quantity,
+          GREATEST(m.quantity - COALESCE(h.held_quantity, 0), 0) AS quantity,
+          b.crop_type, b.variety, b.grading, b.certification, b.harvest_date, b.freshness_duration,
+          CASE WHEN b.harvest_date IS NOT NULL AND b.freshness_duration IS NOT NULL
+            THEN (b.harvest_date::date + b.freshness_duration) - CURRENT_DATE
+          END AS freshness_remaining,
+          b.group_id, b.farmer_id, b.current_owner, b.price_per_kg, b.harvest_quantity,
+          seller.full_name AS seller_name, seller.user_type AS seller_user_type,
+          seller.farm_location, seller.wallet_address,
+          location_district(seller.farm_location) AS district,
+          to_tsvector('simple', COALESCE(b.crop_type, '') || ' ' || COALESCE(b.variety, '')) AS search_vector
+        FROM marketplace m
+        JOIN batches b ON b.id = m.batch_id
+        LEFT JOIN profiles seller ON seller.id = m.current_seller_id
+        LEFT JOIN marketplace_holds h ON h.marketplace_id = m.id
+        WHERE m.status = 'available' AND m.quantity > 0;
+      GRANT SELECT ON marketplace_listings TO anon, authenticated;
+
+      -- One page of listings plus facet counts. Each facet is counted with every other filter applied
+      -- so choosing a grade still shows how many listings each other grade has. Facets and totals are
+      -- only computed for the first page; later pages pass the opaque cursor from the previous one.
+      CREATE OR REPLACE FUNCTION search_marketplace(
+        p_query TEXT DEFAULT NULL,
+        p_grades TEXT[] DEFAULT NULL,
+        p_certifications TEXT[] DEFAULT NULL,
+        p_districts TEXT[] DEFAULT NULL,
+        p_seller_types TEXT[] DEFAULT NULL,
+        p_min_price NUMERIC DEFAULT NULL,
+        p_max_price NUMERIC DEFAULT NULL,
+        p_min_freshness_days INTEGER DEFAULT NULL,
+        p_farmer_id UUID DEFAULT NULL,
+        p_exclude_seller_id UUID DEFAULT NULL,
+        p_sort TEXT DEFAULT 'newest',
+        p_cursor TEXT DEFAULT NULL,
+        p_limit INTEGER DEFAULT 24
+      ) RETURNS JSONB
+      LANGUAGE plpgsql
+      STABLE
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+        v_asc BOOLEAN := p_sort = 'price_asc';
+        v_tsquery TSQUERY;
+        v_cursor JSONB;
+        v_cursor_key NUMERIC;
+        v_cursor_id BIGINT;
+        v_result JSONB;
+      BEGIN
+        IF p_sort IS NULL OR p_sort NOT IN ('newest', 'price_asc', 'price_desc', 'freshness') THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: Unknown sort order %', p_sort;
+        END IF;
+        IF p_min_price IS NOT NULL AND p_max_price IS NOT NULL AND p_min_price > p_max_price THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: Minimum price is above maximum price';
+        END IF;
+
+        p_grades := NULLIF(p_grades, '{}');
+        p_certifications := NULLIF(p_certifications, '{}');
+        p_districts := NULLIF(p_districts, '{}');
+        p_seller_types := NULLIF(p_seller_types, '{}');
+
+        -- Every word must prefix-match the crop or variety: "basm gra" finds "Basmati Grade A"
+        SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+          INTO v_tsquery
+          FROM regexp_split_to_table(
+            lower(regexp_replace(COALESCE(p_query, ''), '[^[:alnum:]]+', ' ', 'g')), ' '
+          ) AS word
+          WHERE word <> '';
+
+        IF p_cursor IS NOT NULL THEN
+          BEGIN
+            v_cursor := convert_from(decode(p_cursor, 'base64'), 'UTF8')::jsonb;
+            v_cursor_key := (v_cursor->>'k')::numeric;
+            v_cursor_id := (v_cursor->>'id')::bigint;
+          EXCEPTION WHEN others THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: Malformed cursor';
+          END;
+          IF v_cursor_key IS NULL OR v_cursor_id IS NULL THEN
+            RAISE EXCEPTION 'INVALID_REQUEST: Malformed cursor';
+          END IF;
+        END IF;
+
+        WITH scoped AS (
+          SELECT
+            l.*,
+            (CASE p_sort
+              WHEN 'newest' THEN EXTRACT(EPOCH FROM l.created_at)
+              WHEN 'freshness' THEN COALESCE(l.freshness_remaining, -1000000)
+              ELSE COALESCE(l.price_per_kg, 0)
+            END)::numeric AS sort_key,
+            (p_grades IS NULL OR l.grading = ANY(p_grades)) AS f_grade,
+            (p_certifications IS NULL OR l.certification = ANY(p_certifications)) AS f_certification,
+            (p_districts IS NULL OR l.district = ANY(p_districts)) AS f_district,
+            (p_seller_types IS NULL OR l.current_seller_type = ANY(p_seller_types)) AS f_seller_type,
+            ((p_min_price IS NULL OR l.price_per_kg >= p_min_price)
+              AND (p_max_price IS NULL OR l.price_per_kg <= p_max_price)) AS f_price,
+            (p_min_freshness_days IS NULL OR l.freshness_remaining >= p_min_freshness_days) AS f_freshness
+          FROM marketplace_listings l
+          WHERE l.quantity > 0
+            AND (v_tsquery IS NULL OR l.search_vector @@ v_tsquery)
+            AND (p_farmer_id IS NULL OR l.farmer_id = p_farmer_id)
+            AND (p_exclude_seller_id IS NULL OR l.current_seller_id IS DISTINCT FROM p_exclude_seller_id)
+        ),
+        matched AS (
+          SELECT * FROM scoped
+          WHERE f_grade AND f_certification AND f_district AND f_seller_type AND f_price AND f_freshness
+        ),
+        ordered AS (
+          SELECT
+            m.*,
+            ROW_NUMBER() OVER (ORDER BY
+              CASE WHEN v_asc THEN m.sort_key END ASC,
+              CASE WHEN NOT v_asc THEN m.sort_key END DESC,
+              CASE WHEN v_asc THEN m.id END ASC,
+              CASE WHEN NOT v_asc THEN m.id END DESC
+            ) AS rn
+          FROM matched m
+          WHERE v_cursor_id IS NULL
+            OR (v_asc AND (m.sort_key, m.id) > (v_cursor_key, v_cursor_id))
+            OR (NOT v_asc AND (m.sort_key, m.id) < (v_cursor_key, v_cursor_id))
+        )
+        SELECT jsonb_build_object(
+          'items', (
+            SELECT COALESCE(jsonb_agg(
+              to_jsonb(o) - ARRAY['search_vector', 'sort_key', 'rn', 'f_grade', 'f_certification', 'f_district',
+                'f_seller_type', 'f_price', 'f_freshness']
+              ORDER BY o.rn
+            ), '[]'::jsonb)
+            FROM ordered o WHERE o.rn <= v_limit
+          ),
+          'nextCursor', (
+            SELECT replace(encode(convert_to(jsonb_build_object('k', o.sort_key, 'id', o.id)::text, 'UTF8'), 'base64'), chr(10), '')
+            FROM ordered o
+            WHERE o.rn = v_limit AND EXISTS (SELECT 1 FROM ordered x WHERE x.rn = v_limit + 1)
+          ),
+          'total', CASE WHEN v_cursor_id IS NULL THEN (SELECT COUNT(*) FROM matched) END,
+          'farmers', CASE WHEN v_cursor_id IS NULL THEN (SELECT COUNT(DISTINCT farmer_id) FROM matched) END,
+          'averagePrice', CASE WHEN v_cursor_id IS NULL THEN (SELECT ROUND(AVG(price_per_kg), 2) FROM matched) END,
+          'totalQuantity', CASE WHEN v_cursor_id IS NULL THEN (SELECT COALESCE(SUM(quantity), 0) FROM matched) END,
+          'facets', CASE WHEN v_cursor_id IS NULL THEN jsonb_build_object(
+            'grades', (
+              SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value), '[]'::jsonb)
+              FROM (
+                SELECT grading AS value, COUNT(*) AS n FROM scoped
+                WHERE grading IS NOT NULL AND f_certification AND f_district AND f_seller_type AND f_price AND f_freshness
+                GROUP BY grading
+              ) f
+            ),
+            'certifications', (
+              SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value), '[]'::jsonb)
+              FROM (
+                SELECT certification AS value, COUNT(*) AS n FROM scoped
+                WHERE certification IS NOT NULL AND f_grade AND f_district AND f_seller_type AND f_price AND f_freshness
+                GROUP BY certification
+              ) f
+            ),
+            'districts', (
+              SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value), '[]'::jsonb)
+              FROM (
+                SELECT district AS value, COUNT(*) AS n FROM scoped
+                WHERE district IS NOT NULL AND f_grade AND f_certification AND f_seller_type AND f_price AND f_freshness
+                GROUP BY district
+              ) f
+            ),
+            'sellerTypes', (
+              SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value), '[]'::jsonb)
+              FROM (
+                SELECT current_seller_type AS value, COUNT(*) AS n FROM scoped
+                WHERE current_seller_type IS NOT NULL AND f_grade AND f_certification AND f_district AND f_price AND f_freshness
+                GROUP BY current_seller_type
+              ) f
+            ),
+            'price', (
+              SELECT jsonb_build_object('min', MIN(price_per_kg), 'max', MAX(price_per_kg)) FROM scoped
+              WHERE f_grade AND f_certification AND f_district AND f_seller_type AND f_freshness
+            ),
+            'freshness', (
+              SELECT jsonb_agg(jsonb_build_object(
+                'minDays', d,
+                'count', (
+                  SELECT COUNT(*) FROM scoped s
+                  WHERE s.freshness_remaining >= d
+                    AND s.f_grade AND s.f_certification AND s.f_district AND s.f_seller_type AND s.f_price
+                )
+              ) ORDER BY d)
+              FROM unnest(ARRAY[1, 3, 7, 14]) AS d
+            )
+          ) END
+        ) INTO v_result;
+
+        RETURN v_result;
+      END;
+      $$;
+
+      GRANT EXECUTE ON FUNCTION search_marketplace(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], NUMERIC, NUMERIC, INTEGER, UUID, UUID, TEXT, TEXT, INTEGER)
+        TO anon, authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createMarketplaceSearchSQL });
+
+    if (error) {
+      logger.error('Error creating marketplace search:', error);
+      throw error;
+    }
+
+    logger.debug('Marketplace search created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create marketplace search');
+  }
+};
+
+/**
+ * Create price watchlists and their alerts.
+ * Farmers watch a commodity's mandi price in a district and are alerted when the modal price crosses
+ * a threshold or moves more than a set percentage in a week; buyers watch for new listings under a
+ * target price per kg. Alerts are evaluated by the price-watch edge function, which pg_cron calls
+ * hourly when the pg_cron and pg_net extensions are enabled.
+ */
+export const createPriceWatchlists = async (): Promise<void> => {
+  try {
+    logger.debug('Creating price watchlist tables...');
+
+    const createPriceWatchlistsSQL = `
+      CREATE TABLE IF NOT EXISTS price_watches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+        watch_type VARCHAR(20) NOT NULL CHECK (watch_type IN ('mandi_price', 'listing')),
+        commodity VARCHAR(100) NOT NULL,
+        variety VARCHAR(100),
+        -- The mandi price is quoted per district; listing watches may narrow to a district
+        state VARCHAR(100),
+        district VARCHAR(100),
+        -- Mandi thresholds in ₹/quintal, as the mandi quotes them
+        above_price DECIMAL(10,2) CHECK (above_price > 0),
+        below_price DECIMAL(10,2) CHECK (below_price > 0),
+        weekly_change_pct DECIMAL(5,2) CHECK (weekly_change_pct > 0),
+        -- Listing target in ₹/kg, as listings are priced
+        target_price_per_kg DECIMAL(10,2) CHECK (target_price_per_kg > 0),
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        last_checked_at TIMESTAMP WITH TIME ZONE,
+        last_weekly_alert_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        CONSTRAINT price_watches_terms CHECK (
+          (watch_type = 'mandi_price' AND state IS NOT NULL AND district IS NOT NULL
+            AND (above_price IS NOT NULL OR below_price IS NOT NULL OR weekly_change_pct IS NOT NULL))
+          OR (watch_type = 'listing' AND target_price_per_kg IS NOT NULL)
+        )
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_watches_profile ON price_watches(profile_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_price_watches_mandi
+        ON price_watches(lower(commodity), lower(state), lower(district)) WHERE watch_type = 'mandi_price' AND is_active;
+
+      -- One modal price per commodity, district and day, kept to measure weekly moves
+      CREATE TABLE IF NOT EXISTS mandi_price_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        commodity VARCHAR(100) NOT NULL,
+        state VARCHAR(100) NOT NULL,
+        district VARCHAR(100) NOT NULL,
+        market VARCHAR(100),
+        min_price DECIMAL(10,2),
+        max_price DECIMAL(10,2),
+        modal_price DECIMAL(10,2) NOT NULL CHECK (modal_price > 0),
+        price_date DATE NOT NULL,
+        fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_mandi_price_snapshots_day
+        ON mandi_price_snapshots(lower(commodity), lower(state), lower(district), price_date);
+
+      CREATE TABLE IF NOT EXISTS price_alert_notifications (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        profile_id UUID NOT NULL,
+        watch_id UUID NOT NULL REFERENCES price_watches(id) ON DELETE CASCADE,
+        notification_type VARCHAR(20) NOT NULL
+          CHECK (notification_type IN ('price_above', 'price_below', 'weekly_move', 'new_listing')),
+        message TEXT NOT NULL,
+        -- ₹/quintal for mandi alerts, ₹/kg for listing alerts
+        price DECIMAL(10,2),
+        change_pct DECIMAL(6,2),
+        marketplace_id INTEGER REFERENCES marketplace(id) ON DELETE CASCADE,
+        is_read BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_price_alert_notifications_profile
+        ON price_alert_notifications(profile_id, created_at DESC);
+      -- A listing is announced to each watch once, however often the evaluation windows overlap
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_price_alert_notifications_listing
+        ON price_alert_notifications(watch_id, marketplace_id) WHERE marketplace_id IS NOT NULL;
+
+      ALTER TABLE price_watches ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS price_watches_owner ON price_watches;
+      CREATE POLICY price_watches_owner ON price_watches FOR ALL
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()))
+        WITH CHECK (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      ALTER TABLE mandi_price_snapshots ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS mandi_price_snapshots_read ON mandi_price_snapshots;
+      CREATE POLICY mandi_price_snapshots_read ON mandi_price_snapshots FOR SELECT TO authenticated USING (true);
+
+      ALTER TABLE price_alert_notifications ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS price_alert_notifications_owner_read ON price_alert_notifications;
+      CREATE POLICY price_alert_notifications_owner_read ON price_alert_notifications FOR SELECT
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+      DROP POLICY IF EXISTS price_alert_notifications_owner_update ON price_alert_notifications;
+      CREATE POLICY price_alert_notifications_owner_update ON price_alert_notifications FOR UPDATE
+        USING (profile_id IN (SELECT id FROM profiles WHERE user_id = auth.uid()));
+
+      -- Store a fetched mandi price and alert the watches on that commodity and district. Thresholds
+      -- fire when the price crosses them, not on every reading past them; a weekly move alerts at most
+      -- once a week per watch. Returns the number of alerts raised.
+      CREATE OR REPLACE FUNCTION record_mandi_price(
+        p_commodity TEXT,
+        p_state TEXT,
+        p_district TEXT,
+        p_market TEXT,
+        p_min_price NUMERIC,
+        p_max_price NUMERIC,
+        p_modal_price NUMERIC,
+        p_price_date DATE
+      ) RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_latest RECORD;
+        v_week_ago NUMERIC;
+        v_change NUMERIC;
+        v_label TEXT := initcap(p_commodity) || ' in ' || initcap(p_district) || ', ' || initcap(p_state);
+        v_watch RECORD;
+        v_count INTEGER := 0;
+      BEGIN
+        IF p_modal_price IS NULL OR p_modal_price <= 0 THEN
+          RAISE EXCEPTION 'INVALID_PRICE: modal price must be positive';
+        END IF;
+
+        -- The reading watchers last saw: earlier today's, otherwise the latest day before
+        SELECT modal_price, price_date INTO v_latest FROM mandi_price_snapshots
+          WHERE lower(commodity) = lower(p_commodity) AND lower(state) = lower(p_state)
+            AND lower(district) = lower(p_district)
+          ORDER BY price_date DESC LIMIT 1;
+
+        INSERT INTO mandi_price_snapshots (commodity, state, district, market, min_price, max_price, modal_price, price_date)
+          VALUES (p_commodity, p_state, p_district, p_market, p_min_price, p_max_price, p_modal_price, p_price_date)
+          ON CONFLICT ((lower(commodity)), (lower(state)), (lower(district)), price_date) DO UPDATE
+            SET market = EXCLUDED.market, min_price = EXCLUDED.min_price, max_price = EXCLUDED.max_price,
+                modal_price = EXCLUDED.modal_price, fetched_at = NOW();
+
+        UPDATE price_watches SET last_checked_at = NOW()
+          WHERE watch_type = 'mandi_price' AND is_active
+            AND lower(commodity) = lower(p_commodity) AND lower(state) = lower(p_state)
+            AND lower(district) = lower(p_district);
+
+        -- Nothing new: the same price again, or a stale day arriving after a later one
+        IF v_latest.price_date IS NOT NULL
+          AND (v_latest.price_date > p_price_date OR v_latest.modal_price = p_modal_price) THEN
+          RETURN 0;
+        END IF;
+
+        SELECT modal_price INTO v_week_ago FROM mandi_price_snapshots
+          WHERE lower(commodity) = lower(p_commodity) AND lower(state) = lower(p_state)
+            AND lower(district) = lower(p_district) AND price_date <= p_price_date - 7
+          ORDER BY price_date DESC LIMIT 1;
+        IF v_week_ago IS NOT NULL THEN
+          v_change := round((p_modal_price - v_week_ago) / v_week_ago * 100, 2);
+        END IF;
+
+        FOR v_watch IN
+          SELECT * FROM price_watches
+            WHERE watch_type = 'mandi_price' AND is_active
+              AND lower(commodity) = lower(p_commodity) AND lower(state) = lower(p_state)
+              AND lower(district) = lower(p_district)
+        LOOP
+          IF v_watch.above_price IS NOT NULL AND p_modal_price > v_watch.above_price
+            AND (v_latest.modal_price IS NULL OR v_latest.modal_price <= v_watch.above_price) THEN
+            INSERT INTO price_alert_notifications (profile_id, watch_id, notification_type, message, price)
+              VALUES (v_watch.profile_id, v_watch.id, 'price_above',
+                format('%s rose above ₹%s/quintal: now ₹%s', v_label, v_watch.above_price, p_modal_price),
+                p_modal_price);
+            v_count := v_count + 1;
+          END IF;
+
+          IF v_watch.below_price IS NOT NULL AND p_modal_price < v_watch.below_price
+            AND (v_latest.modal_price IS NULL OR v_latest.modal_price >= v_watch.below_price) THEN
+            INSERT INTO price_alert_notifications (profile_id, watch_id, notification_type, message, price)
+              VALUES (v_watch.profile_id, v_watch.id, 'price_below',
+                format('%s fell below ₹%s/quintal: now ₹%s', v_label, v_watch.below_price, p_modal_price),
+                p_modal_price);
+            v_count := v_count + 1;
+          END IF;
+
+          IF v_watch.weekly_change_pct IS NOT NULL AND v_change IS NOT NULL
+            AND abs(v_change) >= v_watch.weekly_change_pct
+            AND (v_watch.last_weekly_alert_at IS NULL OR v_watch.last_weekly_alert_at <= NOW() - INTERVAL '7 days') THEN
+            INSERT INTO price_alert_notifications (profile_id, watch_id, notification_type, message, price, change_pct)
+              VALUES (v_watch.profile_id, v_watch.id, 'weekly_move',
+                format('%s %s %s%% in a week: ₹%s to ₹%s/quintal', v_label,
+                  CASE WHEN v_change > 0 THEN 'rose' ELSE 'fell' END, abs(v_change), v_week_ago, p_modal_price),
+                p_modal_price, v_change);
+            UPDATE price_watches SET last_weekly_alert_at = NOW() WHERE id = v_watch.id;
+            v_count := v_count + 1;
+          END IF;
+        END LOOP;
+
+        RETURN v_count;
+      END;
+      $$;
+
+      -- Alert listing watches about listings posted since they were last checked at or under their
+      -- target price. The window overlaps the previous run so listings committed mid-run are not
+      -- missed; the unique index drops the repeats. Returns the number of alerts raised.
+      CREATE OR REPLACE FUNCTION evaluate_listing_watches() RETURNS INTEGER
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      DECLARE
+        v_count INTEGER;
+      BEGIN
+        WITH alerts AS (
+          INSERT INTO price_alert_notifications (profile_id, watch_id, notification_type, message, price, marketplace_id)
+            SELECT w.profile_id, w.id, 'new_listing',
+              format('%s%s listed at ₹%s/kg, %s kg from %s', l.crop_type, COALESCE(' - ' || l.variety, ''),
+                l.price_per_kg, l.quantity, COALESCE(l.seller_name, 'a seller')),
+              l.price_per_kg, l.id
+            FROM price_watches w
+            JOIN marketplace_listings l
+              ON lower(l.crop_type) = lower(w.commodity)
+              AND (w.variety IS NULL OR lower(l.variety) = lower(w.variety))
+              AND (w.district IS NULL OR lower(l.district) = lower(w.district))
+              AND l.price_per_kg <= w.target_price_per_kg
+              AND l.quantity > 0
+              AND l.current_seller_id <> w.profile_id
+              AND l.created_at > COALESCE(w.last_checked_at, w.created_at) - INTERVAL '10 minutes'
+            WHERE w.watch_type = 'listing' AND w.is_active
+            ON CONFLICT DO NOTHING
+            RETURNING 1
+        )
+        SELECT count(*) INTO v_count FROM alerts;
+
+        UPDATE price_watches SET last_checked_at = NOW() WHERE watch_type = 'listing' AND is_active;
+        RETURN v_count;
+      END;
+      $$;
+
+      -- Only the price-watch job, running with the service role, records prices and raises alerts
+      REVOKE ALL ON FUNCTION record_mandi_price(TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, DATE) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION record_mandi_price(TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, DATE) TO service_role;
+      REVOKE ALL ON FUNCTION evaluate_listing_watches() FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION evaluate_listing_watches() TO service_role;
+
+      -- Call the price-watch function hourly. Needs the project_url and price_watch_secret vault
+      -- secrets; without pg_cron, schedule the function from the dashboard instead.
+      DO $schedule$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+          AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+          PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'price-watch';
+          PERFORM cron.schedule('price-watch', '5 * * * *', $job$
+            SELECT net.http_post(
+              url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/price-watch',
+              headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'price_watch_secret')
+              ),
+              body := '{}'::jsonb
+            );
+          $job$);
+        END IF;
+      END;
+      $schedule$;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createPriceWatchlistsSQL });
+
+    if (error) {
+      logger.error('Error creating price watchlist tables:', error);
+      throw error;
+    }
+
+    logger.debug('Price watchlist tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create price watchlist tables');
+  }
+};
+
+/**
+ * Create the mandi price history store.
+ * mandi_price_snapshots, filled by the price-watch job, is the daily min/modal/max history per
+ * commodity and district. This adds mandi_markets, the markets people look up, so the job ingests
+ * them every day whether or not anyone has a price watch on them.
+ */
+export const createMandiPriceHistory = async (): Promise<void> => {
+  try {
+    logger.debug('Creating mandi price history tables...');
+
+    const createMandiPriceHistorySQL = `
+      CREATE TABLE IF NOT EXISTS mandi_markets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        commodity VARCHAR(100) NOT NULL,
+        state VARCHAR(100) NOT NULL,
+        district VARCHAR(100) NOT NULL,
+        last_requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_mandi_markets_key
+        ON mandi_markets(lower(commodity), lower(state), lower(district));
+      CREATE INDEX IF NOT EXISTS idx_mandi_markets_requested ON mandi_markets(last_requested_at DESC);
+
+      ALTER TABLE mandi_markets ENABLE ROW LEVEL SECURITY;
+      DROP POLICY IF EXISTS mandi_markets_read ON mandi_markets;
+      CREATE POLICY mandi_markets_read ON mandi_markets FOR SELECT TO authenticated USING (true);
+
+      -- Ask for a market to be ingested, or keep it ingested; markets nobody has looked at for
+      -- 180 days drop out of the job
+      CREATE OR REPLACE FUNCTION track_mandi_market(p_commodity TEXT, p_state TEXT, p_district TEXT) RETURNS VOID
+      LANGUAGE plpgsql
+      SECURITY DEFINER
+      SET search_path = public
+      AS $$
+      BEGIN
+        IF auth.uid() IS NULL THEN
+          RAISE EXCEPTION 'NOT_AUTHENTICATED: sign in to track mandi prices';
+        END IF;
+        IF COALESCE(trim(p_commodity), '') = '' OR COALESCE(trim(p_state), '') = '' OR COALESCE(trim(p_district), '') = '' THEN
+          RAISE EXCEPTION 'INVALID_REQUEST: commodity, state and district are required';
+        END IF;
+
+        INSERT INTO mandi_markets (commodity, state, district)
+          VALUES (left(trim(p_commodity), 100), left(trim(p_state), 100), left(trim(p_district), 100))
+          ON CONFLICT ((lower(commodity)), (lower(state)), (lower(district))) DO UPDATE
+            SET last_requested_at = NOW();
+      END;
+      $$;
+
+      REVOKE ALL ON FUNCTION track_mandi_market(TEXT, TEXT, TEXT) FROM PUBLIC;
+      GRANT EXECUTE ON FUNCTION track_mandi_market(TEXT, TEXT, TEXT) TO authenticated;
+    `;
+
+    const { error } = await (supabase as any).rpc('exec_sql', { sql: createMandiPriceHistorySQL });
+
+    if (error) {
+      logger.error('Error creating mandi price history tables:', error);
+      throw error;
+    }
+
+    logger.debug('Mandi price history tables created successfully');
+
+  } catch (error) {
+    logger.error('Database migration failed:', error);
+    throw new Error('Failed to create mandi price history tables');
+  }
+};
+
 /**
  * Run all database migrations
  */
@@ -108,6 +4324,30 @@ export const runDatabaseMigrations = async (): Promise<void> => {
     
     await createTransactionsTable();
     await addInitialTransactionHashColumn();
+    await createBatchLineageTable();
+    await addTransactionContentHashColumns();
+    await createMerkleAnchorsTable();
+    await createChainEventsTables();
+    await scheduleChainIndexer();
+    await scheduleMerkleAnchoring();
+    await createPurchaseEscrowsTable();
+    await addTransactionAttestationColumn();
+    await createWalletVaultTables();
+    await createBlockchainOperationsTable();
+    await createBatchChainLinksTable();
+    await createContractMigrationTables();
+    await createReputationTables();
+    await createQuantityReservations();
+    await createPurchaseProcedure();
+    await createBatchRepackProcedures();
+    await createAuctionTables();
+    await createOfferTables();
+    await createOrderCheckout();
+    await createForwardContracts();
+    await createDemandRequests();
+    await createMarketplaceSearch();
+    await createPriceWatchlists();
+    await createMandiPriceHistory();
     
     logger.debug('All database migrations completed successfully');
   } catch (error) {
@@ -7,6 +7,7 @@ import { useToast } from '@/components/ui/use-toast';
 import { harvestTransactionCreator } from '@/features/batch-registration/utils/harvestTransactionCreator';
 import { purchaseTransactionCreator } from '@/features/blockchain/utils/purchaseTransactionCreator';
 import { transactionManager } from '@/features/blockchain/utils/transactionManager';
+import { verifyInclusionProof } from '@/features/blockchain/utils/transactionHashing';
 import { immutableCertificateGenerator } from '@/features/certificate/utils/immutableCertificateGenerator';
 import { TestTube, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 
@@ -84,6 +85,18 @@ export const TransactionSystemTest: React.FC = () => {
       } else {
         addResult(`Transaction chain integrity check failed: ${verification.errors.join(', ')}`, true);
       }
+
+      // Test 7: Check one transaction against the batch Merkle root
+      if (verification.merkleRoot && verification.proofs.length > 0) {
+        addResult(`Test 7: Checking inclusion proof against root ${verification.merkleRoot.slice(0, 10)}...`);
+        const proof = verification.proofs[verification.proofs.length - 1];
+        const provenTransaction = await transactionManager.getTransaction(proof.transactionId);
+        if (provenTransaction && verifyInclusionProof(provenTransaction, proof)) {
+          addResult(`Inclusion proof verified for ${proof.transactionId} (${proof.siblings.length} sibling hashes)`);
+        } else {
+          addResult(`Inclusion proof failed for ${proof.transactionId}`, true);
+        }
+      }
       
       addResult('All tests completed successfully! 🎉');
       
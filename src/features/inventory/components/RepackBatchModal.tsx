@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/components/ui/use-toast';
+import { batchLineageManager } from '@/features/blockchain/utils/batchLineageManager';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+import { Split, Merge, Plus, Trash2, Loader2 } from 'lucide-react';
+
+export interface RepackInventoryItem {
+  id: string;
+  batchId: string;
+  crop: string;
+  variety: string;
+  quantity: number;
+}
+
+interface RepackBatchModalProps {
+  item: RepackInventoryItem | null;
+  inventory: RepackInventoryItem[];
+  ownerProfileId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRepackComplete: () => void;
+}
+
+interface SplitRow {
+  quantity: string;
+  grading: string;
+}
+
+export const RepackBatchModal: React.FC<RepackBatchModalProps> = ({
+  item,
+  inventory,
+  ownerProfileId,
+  isOpen,
+  onClose,
+  onRepackComplete
+}) => {
+  const [mode, setMode] = useState<'split' | 'merge'>('split');
+  const [splitRows, setSplitRows] = useState<SplitRow[]>([{ quantity: '', grading: '' }]);
+  const [mergeQuantities, setMergeQuantities] = useState<Record<string, string>>({});
+  const [mergeGrading, setMergeGrading] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (item) {
+      setMode('split');
+      setSplitRows([{ quantity: '', grading: '' }]);
+      setMergeQuantities({ [item.batchId]: String(item.quantity) });
+      setMergeGrading('');
+    }
+  }, [item]);
+
+  if (!item) return null;
+
+  // Only batches of the same crop can be consolidated into one lot
+  const mergeCandidates = inventory.filter(
+    candidate => candidate.batchId !== item.batchId && candidate.crop.toLowerCase() === item.crop.toLowerCase()
+  );
+
+  const splitTotal = splitRows.reduce((sum, row) => sum + (Number(row.quantity) || 0), 0);
+
+  const updateSplitRow = (index: number, field: keyof SplitRow, value: string) => {
+    setSplitRows(rows => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const toggleMergeCandidate = (candidate: RepackInventoryItem, checked: boolean) => {
+    setMergeQuantities(current => {
+      const next = { ...current };
+      if (checked) {
+        next[candidate.batchId] = String(candidate.quantity);
+      } else {
+        delete next[candidate.batchId];
+      }
+      return next;
+    });
+  };
+
+  const handleRepack = async () => {
+    if (!ownerProfileId) {
+      toast({ variant: 'destructive', title: 'Profile not found', description: 'Please sign in again.' });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (mode === 'split') {
+        const children = splitRows.map(row => ({
+          quantity: Number(row.quantity),
+          grading: row.grading.trim() || undefined
+        }));
+
+        if (splitTotal > item.quantity) {
+          throw new Error(`You only hold ${item.quantity} kg of this batch`);
+        }
+
+        const childBatchIds = await batchLineageManager.splitBatch(item.batchId, ownerProfileId, children);
+        toast({
+          title: 'Batch split',
+          description: `Created ${childBatchIds.length} new batch${childBatchIds.length === 1 ? '' : 'es'} from ${splitTotal} kg.`
+        });
+      } else {
+        const sources = Object.entries(mergeQuantities).map(([batchId, quantity]) => ({
+          batchId,
+          quantity: Number(quantity)
+        }));
+
+        const mergedBatchId = await batchLineageManager.mergeBatches(sources, ownerProfileId, {
+          grading: mergeGrading.trim() || undefined
+        });
+        toast({
+          title: 'Batches merged',
+          description: `Consolidated ${sources.length} batches into batch ${mergedBatchId.slice(0, 8)}.`
+        });
+      }
+
+      onRepackComplete();
+      onClose();
+    } catch (error) {
+      logger.error('Error re-packing batch:', error);
+      toast({ variant: 'destructive', title: 'Re-pack failed', description: sanitizeError(error) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !loading && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-pack {item.crop} - {item.variety}</DialogTitle>
+          <DialogDescription>
+            Split this lot by grade or pack size, or merge it with other lots of the same crop.
+            The new batches keep a traceable link to every source harvest.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant={mode === 'split' ? 'default' : 'outline'} size="sm" className="flex-1" onClick={() => setMode('split')}>
+            <Split className="h-4 w-4 mr-1" />
+            Split
+          </Button>
+          <Button
+            variant={mode === 'merge' ? 'default' : 'outline'}
+            size="sm"
+            className="flex-1"
+            onClick={() => setMode('merge')}
+            disabled={mergeCandidates.length === 0}
+          >
+            <Merge className="h-4 w-4 mr-1" />
+            Merge
+          </Button>
+        </div>
+
+        {mode === 'split' ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">Available: {item.quantity} kg</p>
+            {splitRows.map((row, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor={`split-quantity-${index}`}>Quantity (kg)</Label>
+                  <Input
+                    id={`split-quantity-${index}`}
+                    type="number"
+                    min="1"
+                    value={row.quantity}
+                    onChange={(e) => updateSplitRow(index, 'quantity', e.target.value)}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor={`split-grading-${index}`}>Grade</Label>
+                  <Input
+                    id={`split-grading-${index}`}
+                    placeholder="e.g. Premium"
+                    value={row.grading}
+                    onChange={(e) => updateSplitRow(index, 'grading', e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSplitRows(rows => rows.filter((_, i) => i !== index))}
+                  disabled={splitRows.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setSplitRows(rows => [...rows, { quantity: '', grading: '' }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Child Batch
+            </Button>
+            <p className="text-sm">Total: {splitTotal} kg</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {[item, ...mergeCandidates].map(candidate => (
+              <div key={candidate.batchId} className="flex items-center gap-3">
+                <Checkbox
+                  checked={candidate.batchId in mergeQuantities}
+                  disabled={candidate.batchId === item.batchId}
+                  onCheckedChange={(checked) => toggleMergeCandidate(candidate, checked === true)}
+                />
+                <span className="flex-1 text-sm">
+                  {candidate.variety} ({candidate.quantity} kg)
+                </span>
+                <Input
+                  type="number"
+                  min="1"
+                  max={candidate.quantity}
+                  className="w-24"
+                  value={mergeQuantities[candidate.batchId] ?? ''}
+                  disabled={!(candidate.batchId in mergeQuantities)}
+                  onChange={(e) => setMergeQuantities(current => ({ ...current, [candidate.batchId]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="merge-grading">Grade of merged lot</Label>
+              <Input
+                id="merge-grading"
+                placeholder="Leave empty to keep the current grade"
+                value={mergeGrading}
+                onChange={(e) => setMergeGrading(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleRepack} disabled={loading} className="w-full">
+          {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+          {mode === 'split' ? 'Split Batch' : 'Merge Batches'}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,12 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
 import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
 import { BatchDetailsModal } from '@/features/batch-registration/components/BatchDetailsModal';
+import { RepackBatchModal, RepackInventoryItem } from '@/features/inventory/components/RepackBatchModal';
 import { 
   Package, 
   MapPin, 
@@ -14,25 +17,20 @@ import {
   DollarSign,
   ShoppingCart,
   Eye,
+  Scissors,
   Loader2
 } from 'lucide-react';
 
 export const DistributorInventory = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [inventory, setInventory] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedBatch, setSelectedBatch] = useState<any>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [repackItem, setRepackItem] = useState<RepackInventoryItem | null>(null);
 
-  useEffect(() => {
-    fetchInventory();
-  }, [user]);
-
-  const fetchInventory = async () => {
+  const fetchInventory = async (): Promise<any[]> => {
     try {
-      setLoading(true);
-      
       // Get the distributor's profile ID
       logger.debug('🔍 DEBUG: Looking up profile for user ID:', user?.id);
       const { data: profile, error: profileError } = await supabase
@@ -43,17 +41,16 @@ export const DistributorInventory = () => {
 
       if (profileError) {
         logger.error('❌ Profile lookup error:', profileError);
-        setInventory([]);
-        return;
+        return [];
       }
 
       if (!profile) {
         logger.debug('❌ No profile found for distributor');
-        setInventory([]);
-        return;
+        return [];
       }
 
       logger.debug('🔍 DEBUG: Found profile:', profile);
+      setProfileId(profile.id);
 
       logger.debug('🔍 DEBUG: Fetching inventory for distributor profile ID:', profile.id);
       
@@ -65,8 +62,7 @@ export const DistributorInventory = () => {
 
       if (error) {
         logger.error('Error fetching inventory:', error);
-        setInventory([]);
-        return;
+        return [];
       }
 
       logger.debug('🔍 DEBUG: Raw distributor inventory data:', data);
@@ -133,15 +129,20 @@ export const DistributorInventory = () => {
       );
 
       logger.debug('🔍 DEBUG: Inventory with details:', inventoryWithDetails);
-      setInventory(inventoryWithDetails);
+      return inventoryWithDetails;
     } catch (error) {
       logger.error('Error fetching inventory:', error);
-      setInventory([]);
-    } finally {
-      setLoading(false);
+      return [];
     }
   };
 
+  // Cached under queryKeys.inventory so live purchase and transfer events refresh it
+  const { data: inventory = [], isLoading: loading, refetch: refetchInventory } = useQuery({
+    queryKey: [...queryKeys.inventory, user?.id],
+    queryFn: fetchInventory,
+    enabled: !!user
+  });
+
   const handleViewDetails = async (item: any) => {
     try {
       // ALWAYS fetch current owner from batch's current_owner field (source of truth)
@@ -223,6 +224,14 @@ export const DistributorInventory = () => {
     }
   };
 
+  const toRepackItem = (item: any): RepackInventoryItem => ({
+    id: item.id,
+    batchId: item.batch?.id || item.marketplace?.batch_id,
+    crop: item.marketplace?.crop_type || item.batch?.crop_type || '',
+    variety: item.marketplace?.variety || item.batch?.variety || '',
+    quantity: item.quantity_purchased || 0
+  });
+
   const handleAddToMarketplace = async (inventoryItem: any) => {
     try {
       // Get the distributor's profile ID first
@@ -285,7 +294,7 @@ export const DistributorInventory = () => {
       });
 
       // Refresh inventory
-      fetchInventory();
+      refetchInventory();
     } catch (error) {
       logger.error('Error adding to marketplace:', error);
       toast({
@@ -427,6 +436,16 @@ export const DistributorInventory = () => {
                       Add to Market
                     </Button>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setRepackItem(toRepackItem(item))}
+                    disabled={!item.batch?.id}
+                  >
+                    <Scissors className="h-4 w-4 mr-1" />
+                    Re-pack
+                  </Button>
                 </CardContent>
               </Card>
             ))
@@ -440,6 +459,16 @@ export const DistributorInventory = () => {
         onClose={() => setIsDetailsModalOpen(false)}
         batch={selectedBatch}
       />
+
+      {/* Split / Merge Modal */}
+      <RepackBatchModal
+        item={repackItem}
+        inventory={inventory.filter(entry => entry.batch?.id).map(toRepackItem)}
+        ownerProfileId={profileId}
+        isOpen={!!repackItem}
+        onClose={() => setRepackItem(null)}
+        onRepackComplete={refetchInventory}
+      />
     </div>
   );
 };
@@ -1,6 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
 import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,21 +22,11 @@ import {
 export const RetailerInventory = () => {
   const { user, profile } = useAuth();
   const { toast } = useToast();
-  const [inventory, setInventory] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedBatch, setSelectedBatch] = useState<any>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
 
-  useEffect(() => {
-    if (profile?.id) {
-      fetchInventory();
-    }
-  }, [profile]);
-
-  const fetchInventory = async () => {
+  const fetchInventory = async (): Promise<any[]> => {
     try {
-      setLoading(true);
-      
       logger.debug('🔍 DEBUG: Fetching retailer inventory for profile ID:', profile?.id);
       
       // First, get the retailer inventory records
@@ -46,16 +38,14 @@ export const RetailerInventory = () => {
 
       if (inventoryError) {
         logger.error('❌ Error fetching retailer inventory:', inventoryError);
-        setInventory([]);
-        return;
+        return [];
       }
 
       logger.debug('🔍 DEBUG: Raw retailer inventory data:', inventoryData);
 
       if (!inventoryData || inventoryData.length === 0) {
         logger.debug('🔍 DEBUG: No inventory records found');
-        setInventory([]);
-        return;
+        return [];
       }
 
       // Get marketplace IDs from inventory records
@@ -70,8 +60,7 @@ export const RetailerInventory = () => {
 
       if (marketplaceError) {
         logger.error('❌ Error fetching marketplace data:', marketplaceError);
-        setInventory([]);
-        return;
+        return [];
       }
 
       logger.debug('🔍 DEBUG: Marketplace data:', marketplaceData);
@@ -88,8 +77,7 @@ export const RetailerInventory = () => {
 
       if (batchError) {
         logger.error('❌ Error fetching batch data:', batchError);
-        setInventory([]);
-        return;
+        return [];
       }
 
       logger.debug('🔍 DEBUG: Batch data:', batchData);
@@ -161,15 +149,20 @@ export const RetailerInventory = () => {
       });
 
       logger.debug('🔍 DEBUG: Combined inventory data:', combinedData);
-      setInventory(combinedData || []);
+      return combinedData || [];
     } catch (error) {
       logger.error('❌ Error fetching inventory:', error);
-      setInventory([]);
-    } finally {
-      setLoading(false);
+      return [];
     }
   };
 
+  // Cached under queryKeys.inventory so live purchase and transfer events refresh it
+  const { data: inventory = [], isLoading: loading } = useQuery({
+    queryKey: [...queryKeys.inventory, profile?.id],
+    queryFn: fetchInventory,
+    enabled: !!profile?.id
+  });
+
   const handleViewDetails = async (item: any) => {
     try {
       // ALWAYS fetch current owner from batch's current_owner field (source of truth)
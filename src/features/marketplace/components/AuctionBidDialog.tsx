@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { Gavel, Loader2 } from 'lucide-react';
+import { auctionService, AuctionOverview, AuctionBid } from '@/features/marketplace/utils/auctionService';
+import { sanitizeError } from '@/lib/security';
+
+interface AuctionBidDialogProps {
+  auction: AuctionOverview;
+  myBid?: AuctionBid;
+  isOpen: boolean;
+  onClose: () => void;
+  onBid: () => void;
+}
+
+/**
+ * Place or raise a bid; for sealed tenders, submit or revise the buyer's single tender
+ */
+export const AuctionBidDialog: React.FC<AuctionBidDialogProps> = ({ auction, myBid, isOpen, onClose, onBid }) => {
+  const { toast } = useToast();
+  const minimum = auctionService.minimumBid(auction);
+  const [amount, setAmount] = useState(String(minimum));
+  const [saving, setSaving] = useState(false);
+  const sealed = auction.mode === 'sealed';
+  const value = parseFloat(amount);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const result = await auctionService.placeBid(auction.id!, value);
+      toast({
+        title: sealed ? 'Tender submitted' : 'Bid placed',
+        description: result.extended
+          ? `Late bid: the auction now ends at ${new Date(result.endsAt).toLocaleTimeString()}.`
+          : `₹${result.amountPerKg}/kg for ${auction.quantity} kg.`
+      });
+      onBid();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Bid not accepted', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            {sealed ? 'Sealed tender' : 'Bid'}: {auction.crop_type}{auction.variety ? ` - ${auction.variety}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            {auction.quantity} kg from {auction.seller_name || 'the seller'}.{' '}
+            {sealed
+              ? 'Other tenders stay hidden until close; the highest tender at or above the reserve wins.'
+              : auction.highest_bid !== null
+                ? `Leading bid ₹${auction.highest_bid}/kg.`
+                : 'No bids yet.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="bid-amount">Your price (₹/kg)</Label>
+          <Input id="bid-amount" type="number" min={minimum} step="0.5" value={amount} onChange={e => setAmount(e.target.value)} />
+          <p className="text-sm text-muted-foreground">
+            Minimum ₹{minimum}/kg. Lot value ₹{((value || 0) * (auction.quantity || 0)).toLocaleString()}.
+            {sealed && myBid && ` Your current tender is ₹${myBid.amount_per_kg}/kg.`}
+          </p>
+          {auction.reserve_price !== null && (
+            <p className="text-xs text-muted-foreground">The seller has set a reserve price.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !(value >= minimum)}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {sealed ? (myBid ? 'Revise tender' : 'Submit tender') : 'Place bid'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
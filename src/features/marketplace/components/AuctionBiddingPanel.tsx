@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Gavel, Clock, Bell, Trophy } from 'lucide-react';
+import { auctionService, formatTimeLeft, AuctionOverview, AuctionBid, AuctionAward } from '@/features/marketplace/utils/auctionService';
+import { AuctionBidDialog } from '@/features/marketplace/components/AuctionBidDialog';
+import { useAuctionNotifications } from '@/features/marketplace/hooks/useAuctionNotifications';
+import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { queryKeys } from '@/lib/queryKeys';
+
+interface AuctionBiddingPanelProps {
+  bidderId: string;
+}
+
+interface WonAuction {
+  award: AuctionAward;
+  auction: AuctionOverview;
+}
+
+/**
+ * Buyer's view of live auctions: bidding, outbid alerts, and paying for auctions won
+ */
+export const AuctionBiddingPanel: React.FC<AuctionBiddingPanelProps> = ({ bidderId }) => {
+  const queryClient = useQueryClient();
+  const { notifications, unreadCount, markAsRead } = useAuctionNotifications();
+  const [now, setNow] = useState(Date.now());
+  const [bidding, setBidding] = useState<AuctionOverview | null>(null);
+  const [paying, setPaying] = useState<WonAuction | null>(null);
+
+  const { data } = useQuery({
+    queryKey: [...queryKeys.auctions, 'bidder', bidderId],
+    queryFn: async () => {
+      const [auctions, myBids, awards] = await Promise.all([
+        auctionService.getOpenAuctions(),
+        auctionService.getBidderBids(bidderId),
+        auctionService.getPendingAwards(bidderId)
+      ]);
+      const awardAuctions = await auctionService.getAuctions(
+        awards.map(award => award.auction_id).filter((id): id is string => Boolean(id))
+      );
+      const won = awards
+        .map(award => ({ award, auction: awardAuctions.find(auction => auction.id === award.auction_id) }))
+        .filter((entry): entry is WonAuction => Boolean(entry.auction));
+      return { auctions: auctions.filter(auction => auction.seller_id !== bidderId), myBids, won };
+    },
+    refetchInterval: 15 * 1000
+  });
+  const auctions = data?.auctions ?? [];
+  const won = data?.won ?? [];
+  const myBids = new Map<string, AuctionBid>();
+  for (const bid of data?.myBids ?? []) {
+    // Newest first, so keep the first bid seen per auction
+    if (!myBids.has(bid.auction_id)) myBids.set(bid.auction_id, bid);
+  }
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Outbid and award notices change what this panel shows
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.auctions });
+  }, [notifications.length]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.auctions });
+
+  const bidStatus = (auction: AuctionOverview) => {
+    const bid = myBids.get(auction.id!);
+    if (!bid) return null;
+    if (auction.mode === 'sealed') return <Badge variant="outline">Your tender ₹{bid.amount_per_kg}/kg</Badge>;
+    return bid.status === 'active'
+      ? <Badge className="bg-green-100 text-green-800" variant="secondary">Leading at ₹{bid.amount_per_kg}/kg</Badge>
+      : <Badge className="bg-red-100 text-red-800" variant="secondary">Outbid</Badge>;
+  };
+
+  if (auctions.length === 0 && won.length === 0 && notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Gavel className="h-5 w-5" />
+              Live Auctions
+            </CardTitle>
+            <CardDescription>Bid on premium lots. Prices are per kg for the whole lot.</CardDescription>
+          </div>
+          {unreadCount > 0 && (
+            <Button size="sm" variant="outline" onClick={() => markAsRead()}>
+              <Bell className="h-4 w-4 mr-2" />
+              {unreadCount} new · mark read
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {notifications.filter(n => !n.is_read).slice(0, 5).map(notification => (
+          <div key={notification.id} className="flex items-center justify-between rounded-md bg-muted p-2 text-sm">
+            <span>{notification.message}</span>
+            <Button size="sm" variant="ghost" onClick={() => markAsRead(notification.id)}>Dismiss</Button>
+          </div>
+        ))}
+
+        {won.map(({ award, auction }) => (
+          <div key={award.id} className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 p-3 text-sm">
+            <span className="flex items-center gap-2">
+              <Trophy className="h-4 w-4 text-green-700" />
+              Won {award.quantity} kg of {auction.crop_type} at ₹{award.unit_price}/kg · pay within {formatTimeLeft(award.expires_at, now)}
+            </span>
+            <Button size="sm" onClick={() => setPaying({ award, auction })}>Complete purchase</Button>
+          </div>
+        ))}
+
+        {auctions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No auctions are running right now.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {auctions.map(auction => (
+              <div key={auction.id} className="rounded-md border p-4 space-y-2">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{auction.crop_type}{auction.variety ? ` - ${auction.variety}` : ''}</p>
+                    <p className="text-sm text-muted-foreground">{auction.seller_name} · {auction.quantity} kg{auction.grading ? ` · ${auction.grading}` : ''}</p>
+                  </div>
+                  <Badge variant="outline">{auction.mode === 'english' ? 'English' : 'Sealed'}</Badge>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {auction.mode === 'english'
+                      ? auction.highest_bid !== null ? `Leading ₹${auction.highest_bid}/kg` : `Opens at ₹${auction.starting_price}/kg`
+                      : `${auction.bid_count ?? 0} tenders · from ₹${auction.starting_price}/kg`}
+                  </span>
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Clock className="h-4 w-4" />
+                    {formatTimeLeft(auction.ends_at, now)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  {bidStatus(auction) ?? <span />}
+                  <Button size="sm" onClick={() => setBidding(auction)} disabled={auctionService.hasEnded(auction)}>
+                    {auction.mode === 'sealed' && myBids.has(auction.id!) ? 'Revise' : 'Bid'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {bidding && (
+        <AuctionBidDialog
+          auction={bidding}
+          myBid={myBids.get(bidding.id!)}
+          isOpen={!!bidding}
+          onClose={() => setBidding(null)}
+          onBid={refresh}
+        />
+      )}
+
+      {paying && (
+        <UltraSimplePurchaseModal
+          batch={{
+            id: paying.auction.batch_id || undefined,
+            batch_id: paying.auction.batch_id || undefined,
+            crop_type: paying.auction.crop_type || undefined,
+            variety: paying.auction.variety || undefined,
+            quantity: paying.award.quantity,
+            price_per_kg: paying.award.unit_price || undefined,
+            current_owner: paying.auction.seller_id || undefined,
+            profiles: { full_name: paying.auction.seller_name || undefined },
+            batches: {
+              id: paying.auction.batch_id || undefined,
+              crop_type: paying.auction.crop_type || undefined,
+              variety: paying.auction.variety || undefined,
+              current_owner: paying.auction.seller_id || undefined
+            }
+          }}
+          award={{
+            reservationId: paying.award.id,
+            quantity: paying.award.quantity,
+            unitPrice: paying.award.unit_price || 0,
+            expiresAt: paying.award.expires_at
+          }}
+          isOpen={!!paying}
+          onClose={() => setPaying(null)}
+          onPurchaseComplete={() => {
+            setPaying(null);
+            refresh();
+          }}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Gavel, Clock, ChevronDown, ChevronUp } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { auctionService, formatTimeLeft, AuctionOverview, AuctionBid } from '@/features/marketplace/utils/auctionService';
+import { CreateAuctionDialog, AuctionableListing } from '@/features/marketplace/components/CreateAuctionDialog';
+import { useAuctionNotifications } from '@/features/marketplace/hooks/useAuctionNotifications';
+import { queryKeys } from '@/lib/queryKeys';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+interface AuctionManagementPanelProps {
+  sellerId: string;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  open: { label: 'Bidding', className: 'bg-blue-100 text-blue-800' },
+  awarded: { label: 'Awarded', className: 'bg-green-100 text-green-800' },
+  no_sale: { label: 'No sale', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' }
+};
+
+const BID_STATUS_LABELS: Record<string, string> = {
+  active: 'Leading',
+  outbid: 'Outbid',
+  won: 'Won',
+  lost: 'Lost'
+};
+
+/**
+ * Seller's auctions: start one from an open listing, follow bids, and settle or cancel
+ */
+export const AuctionManagementPanel: React.FC<AuctionManagementPanelProps> = ({ sellerId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { notifications } = useAuctionNotifications();
+  const [now, setNow] = useState(Date.now());
+  const [auctioning, setAuctioning] = useState<AuctionableListing | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [bids, setBids] = useState<AuctionBid[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: [...queryKeys.auctions, 'seller', sellerId],
+    queryFn: async () => {
+      const [auctions, listings] = await Promise.all([
+        auctionService.getSellerAuctions(sellerId),
+        loadListings(sellerId)
+      ]);
+      return { auctions, listings };
+    },
+    refetchInterval: 30 * 1000
+  });
+  const auctions = data?.auctions ?? [];
+  const listings = data?.listings ?? [];
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // New bids arrive as notifications; refresh the figures when they do
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.auctions });
+    if (expanded) loadBids(expanded);
+  }, [notifications.length]);
+
+  const loadBids = async (auctionId: string) => {
+    try {
+      setBids(await auctionService.getBids(auctionId));
+    } catch (error) {
+      logger.error('Error loading bids', error);
+      setBids([]);
+    }
+  };
+
+  const toggleBids = (auctionId: string) => {
+    if (expanded === auctionId) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(auctionId);
+    setBids([]);
+    loadBids(auctionId);
+  };
+
+  const runAction = async (auctionId: string, action: () => Promise<unknown>, success: string) => {
+    setBusy(auctionId);
+    try {
+      await action();
+      toast({ title: success });
+      queryClient.invalidateQueries({ queryKey: queryKeys.auctions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreated = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.auctions });
+    queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          My Auctions
+        </CardTitle>
+        <CardDescription>
+          Sell scarce lots to the highest bidder. The winner pays through the normal checkout within 48 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {listings.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Open listings</p>
+            {listings.map(listing => (
+              <div key={listing.batchId} className="flex items-center justify-between rounded-md border p-3 text-sm">
+                <span>
+                  {listing.cropType}{listing.variety ? ` - ${listing.variety}` : ''} · {listing.quantity} kg at ₹{listing.pricePerKg}/kg
+                </span>
+                <Button size="sm" variant="outline" onClick={() => setAuctioning(listing)}>
+                  <Gavel className="h-4 w-4 mr-2" />
+                  Auction
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {auctions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No auctions yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {auctions.map(auction => (
+              <AuctionRow
+                key={auction.id}
+                auction={auction}
+                now={now}
+                busy={busy === auction.id}
+                expanded={expanded === auction.id}
+                bids={expanded === auction.id ? bids : []}
+                onToggleBids={() => toggleBids(auction.id!)}
+                onSettle={() => runAction(auction.id!, () => auctionService.settle(auction.id!), 'Auction settled')}
+                onCancel={() => runAction(auction.id!, () => auctionService.cancel(auction.id!), 'Auction cancelled')}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {auctioning && (
+        <CreateAuctionDialog
+          listing={auctioning}
+          isOpen={!!auctioning}
+          onClose={() => setAuctioning(null)}
+          onCreated={handleCreated}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface AuctionRowProps {
+  auction: AuctionOverview;
+  now: number;
+  busy: boolean;
+  expanded: boolean;
+  bids: AuctionBid[];
+  onToggleBids: () => void;
+  onSettle: () => void;
+  onCancel: () => void;
+}
+
+const AuctionRow: React.FC<AuctionRowProps> = ({ auction, now, busy, expanded, bids, onToggleBids, onSettle, onCancel }) => {
+  const status = STATUS_LABELS[auction.status || 'open'];
+  const ended = auction.ends_at !== null && new Date(auction.ends_at).getTime() <= now;
+  const sealedAndOpen = auction.mode === 'sealed' && auction.status === 'open';
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            {auction.crop_type}{auction.variety ? ` - ${auction.variety}` : ''}
+            <Badge variant="outline">{auction.mode === 'english' ? 'English' : 'Sealed'}</Badge>
+            <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {auction.quantity} kg · start ₹{auction.starting_price}/kg
+            {auction.reserve_price !== null && ` · reserve ₹${auction.reserve_price}/kg`}
+            {' · '}{auction.bid_count ?? 0} bids from {auction.bidder_count ?? 0} buyers
+            {!sealedAndOpen && auction.highest_bid !== null && ` · high ₹${auction.highest_bid}/kg`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {auction.status === 'open' && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {formatTimeLeft(auction.ends_at, now)}
+            </span>
+          )}
+          {auction.status === 'open' && ended && (
+            <Button size="sm" onClick={onSettle} disabled={busy}>Settle</Button>
+          )}
+          {auction.status === 'open' && !ended && !auction.bid_count && (
+            <Button size="sm" variant="outline" onClick={onCancel} disabled={busy}>Cancel</Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onToggleBids} disabled={sealedAndOpen}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            Bids
+          </Button>
+        </div>
+      </div>
+
+      {sealedAndOpen && (
+        <p className="text-xs text-muted-foreground">Sealed tenders are revealed when bidding closes.</p>
+      )}
+
+      {expanded && (
+        bids.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bids yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Price (₹/kg)</TableHead>
+                <TableHead>Lot value</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bids.map(bid => (
+                <TableRow key={bid.id}>
+                  <TableCell>₹{bid.amount_per_kg}</TableCell>
+                  <TableCell>₹{(bid.amount_per_kg * (auction.quantity || 0)).toLocaleString()}</TableCell>
+                  <TableCell>{new Date(bid.updated_at || bid.created_at || '').toLocaleString()}</TableCell>
+                  <TableCell>{BID_STATUS_LABELS[bid.status] || bid.status}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )
+      )}
+    </div>
+  );
+};
+
+// The seller's fixed-price listings that can still be put up for auction
+const loadListings = async (sellerId: string): Promise<AuctionableListing[]> => {
+  const { data, error } = await (supabase as any)
+    .from('marketplace')
+    .select('batch_id, quantity, batches(crop_type, variety, price_per_kg)')
+    .eq('current_seller_id', sellerId)
+    .eq('status', 'available')
+    .gt('quantity', 0);
+
+  if (error) {
+    logger.error('Error loading listings for auction', error);
+    return [];
+  }
+
+  return (data || []).map((item: {
+    batch_id: string;
+    quantity: number;
+    batches: { crop_type: string; variety: string | null; price_per_kg: number } | null;
+  }) => ({
+    batchId: item.batch_id,
+    cropType: item.batches?.crop_type || 'Crop',
+    variety: item.batches?.variety,
+    quantity: item.quantity,
+    pricePerKg: item.batches?.price_per_kg || 0
+  }));
+};
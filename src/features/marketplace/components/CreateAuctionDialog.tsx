@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Gavel, Loader2 } from 'lucide-react';
+import { auctionService, AuctionMode } from '@/features/marketplace/utils/auctionService';
+import { sanitizeError } from '@/lib/security';
+
+export interface AuctionableListing {
+  batchId: string;
+  cropType: string;
+  variety?: string | null;
+  quantity: number;
+  pricePerKg: number;
+}
+
+interface CreateAuctionDialogProps {
+  listing: AuctionableListing;
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const DURATIONS: { label: string; hours: number }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '6 hours', hours: 6 },
+  { label: '24 hours', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 }
+];
+
+/**
+ * Seller's form for turning a fixed-price listing into an English auction or sealed tender
+ */
+export const CreateAuctionDialog: React.FC<CreateAuctionDialogProps> = ({ listing, isOpen, onClose, onCreated }) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<AuctionMode>('english');
+  const [startingPrice, setStartingPrice] = useState(String(listing.pricePerKg || ''));
+  const [reservePrice, setReservePrice] = useState('');
+  const [minIncrement, setMinIncrement] = useState('1');
+  const [durationHours, setDurationHours] = useState('24');
+  const [extensionMinutes, setExtensionMinutes] = useState('5');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    const starting = parseFloat(startingPrice);
+    const reserve = reservePrice ? parseFloat(reservePrice) : null;
+    if (!(starting > 0) || (reserve !== null && !(reserve >= starting))) {
+      toast({ variant: 'destructive', title: 'Check prices', description: 'The reserve price cannot be below the starting price.' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await auctionService.createAuction({
+        batchId: listing.batchId,
+        mode,
+        startingPrice: starting,
+        reservePrice: reserve,
+        minIncrement: parseFloat(minIncrement) || 1,
+        endsAt: new Date(Date.now() + Number(durationHours) * 60 * 60 * 1000),
+        extensionSeconds: (parseInt(extensionMinutes) || 0) * 60
+      });
+      toast({
+        title: mode === 'english' ? 'Auction started' : 'Tender opened',
+        description: `${listing.quantity} kg of ${listing.cropType} is off the fixed-price market until bidding ends.`
+      });
+      onCreated();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not start auction', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Auction {listing.cropType}{listing.variety ? ` - ${listing.variety}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            {listing.quantity} kg, currently listed at ₹{listing.pricePerKg}/kg. Bids are per kg for the whole lot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Format</Label>
+            <Select value={mode} onValueChange={value => setMode(value as AuctionMode)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="english">English auction (open, rising bids)</SelectItem>
+                <SelectItem value="sealed">Sealed-bid tender (bids hidden until close)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="auction-starting-price">Starting price (₹/kg)</Label>
+              <Input id="auction-starting-price" type="number" min="0" value={startingPrice} onChange={e => setStartingPrice(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="auction-reserve-price">Reserve price (₹/kg)</Label>
+              <Input id="auction-reserve-price" type="number" min="0" placeholder="None" value={reservePrice} onChange={e => setReservePrice(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label>Ends after</Label>
+            <Select value={durationHours} onValueChange={setDurationHours}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {DURATIONS.map(duration => (
+                  <SelectItem key={duration.hours} value={String(duration.hours)}>{duration.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'english' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="auction-increment">Minimum raise (₹/kg)</Label>
+                <Input id="auction-increment" type="number" min="0" value={minIncrement} onChange={e => setMinIncrement(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="auction-extension">Extend on late bids (min)</Label>
+                <Input id="auction-extension" type="number" min="0" max="60" value={extensionMinutes} onChange={e => setExtensionMinutes(e.target.value)} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Start {mode === 'english' ? 'auction' : 'tender'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { Megaphone, Bell } from 'lucide-react';
+import { demandService, DemandRequest, DemandQuote } from '@/features/marketplace/utils/demandService';
+import { DemandQuoteDialog } from '@/features/marketplace/components/DemandQuoteDialog';
+import { queryKeys } from '@/lib/queryKeys';
+import { sanitizeError } from '@/lib/security';
+
+interface DemandBoardPanelProps {
+  farmerId: string;
+}
+
+const QUOTE_STATUS: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-800' },
+  lapsed: { label: 'Lapsed', className: 'bg-gray-100 text-gray-800' }
+};
+
+/**
+ * Farmer's view of the reverse marketplace: open buyer requests, those matched to the farmer's
+ * harvests first, and the quotes the farmer has sent
+ */
+export const DemandBoardPanel: React.FC<DemandBoardPanelProps> = ({ farmerId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quoting, setQuoting] = useState<DemandRequest | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: [...queryKeys.demand, 'farmer', farmerId],
+    queryFn: async () => {
+      const [requests, quotes, notifications] = await Promise.all([
+        demandService.getOpenRequests(),
+        demandService.getQuotes(farmerId),
+        demandService.getNotifications(farmerId)
+      ]);
+      return { requests, quotes, notifications };
+    },
+    refetchInterval: 60 * 1000
+  });
+  const quotes = (data?.quotes ?? []).filter(quote => quote.farmer_id === farmerId);
+  const unread = (data?.notifications ?? []).filter(notification => !notification.is_read);
+  const matched = new Set(
+    (data?.notifications ?? []).filter(notification => notification.notification_type === 'match').map(notification => notification.request_id)
+  );
+  const requests = (data?.requests ?? [])
+    .filter(request => request.buyer_id !== farmerId)
+    .sort((a, b) => Number(matched.has(b.id ?? '')) - Number(matched.has(a.id ?? '')));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.demand });
+  };
+
+  const handleWithdraw = async (quote: DemandQuote) => {
+    setBusy(quote.id);
+    try {
+      await demandService.withdraw(quote.id!);
+      toast({ title: 'Quote withdrawn' });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+      refresh();
+    }
+  };
+
+  const markRead = async () => {
+    try {
+      await demandService.markNotificationsRead(farmerId);
+    } finally {
+      refresh();
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              Buyer Demand
+            </CardTitle>
+            <CardDescription>Quote on what distributors and retailers are looking for.</CardDescription>
+          </div>
+          {unread.length > 0 && (
+            <Button size="sm" variant="outline" onClick={markRead}>
+              <Bell className="h-4 w-4 mr-2" />
+              {unread.length} new · mark read
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {unread.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {unread.slice(0, 5).map(notification => (
+              <li key={notification.id} className="text-muted-foreground">{notification.message}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          {requests.length === 0 && (
+            <p className="text-sm text-muted-foreground">No open demand requests right now.</p>
+          )}
+          {requests.map(request => {
+            const quoted = quotes.some(quote => quote.request_id === request.id && quote.status === 'pending');
+            return (
+              <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 font-medium">
+                    {(request.quantity || 0) - (request.filled_quantity || 0)} kg {request.crop_type}
+                    {request.variety ? ` - ${request.variety}` : ''}
+                    {request.grading && <Badge variant="outline">{request.grading}</Badge>}
+                    {matched.has(request.id ?? '') && <Badge className="bg-green-100 text-green-800">Matches your harvest</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {request.buyer_name || 'Buyer'} · {request.delivery_location} by {new Date(request.needed_by || '').toLocaleDateString()}
+                    {' · '}up to ₹{request.max_price_per_kg}/kg
+                  </p>
+                  {request.notes && <p className="text-xs text-muted-foreground italic">"{request.notes}"</p>}
+                </div>
+                <Button size="sm" onClick={() => setQuoting(request)} disabled={quoted}>
+                  {quoted ? 'Quoted' : 'Send quote'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {quotes.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">My quotes</h4>
+            <ul className="space-y-1 border-l pl-4 text-sm">
+              {quotes.map(quote => {
+                const status = QUOTE_STATUS[quote.status || 'pending'];
+                return (
+                  <li key={quote.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                      {quote.quantity} kg {quote.crop_type} at ₹{quote.price_per_kg}/kg for {quote.delivery_location}
+                      {quote.contract_id && <span className="text-muted-foreground"> · forward contract opened</span>}
+                      {quote.hold_status === 'consumed' && <span className="text-muted-foreground"> · purchased</span>}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+                      {quote.status === 'pending' && (
+                        <Button size="sm" variant="ghost" onClick={() => handleWithdraw(quote)} disabled={busy === quote.id}>
+                          Withdraw
+                        </Button>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      {quoting && (
+        <DemandQuoteDialog
+          request={quoting}
+          farmerId={farmerId}
+          isOpen={!!quoting}
+          onClose={() => setQuoting(null)}
+          onQuoted={refresh}
+        />
+      )}
+    </Card>
+  );
+};
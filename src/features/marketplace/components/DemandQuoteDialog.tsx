@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { demandService, DemandRequest } from '@/features/marketplace/utils/demandService';
+import { queryKeys } from '@/lib/queryKeys';
+import { sanitizeError } from '@/lib/security';
+
+interface DemandQuoteDialogProps {
+  request: DemandRequest;
+  farmerId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onQuoted: () => void;
+}
+
+const UPCOMING = 'upcoming';
+
+/**
+ * Quote on a demand request from a listed batch or from an upcoming harvest
+ */
+export const DemandQuoteDialog: React.FC<DemandQuoteDialogProps> = ({ request, farmerId, isOpen, onClose, onQuoted }) => {
+  const { toast } = useToast();
+  const stillNeeded = (request.quantity || 0) - (request.filled_quantity || 0);
+  const maxPrice = request.max_price_per_kg || 0;
+  const [source, setSource] = useState(UPCOMING);
+  const [price, setPrice] = useState(String(maxPrice || ''));
+  const [quantity, setQuantity] = useState(String(stillNeeded || ''));
+  const [availableFrom, setAvailableFrom] = useState('');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: batches = [] } = useQuery({
+    queryKey: [...queryKeys.demand, 'batches', farmerId, request.crop_type],
+    queryFn: () => demandService.getQuotableBatches(farmerId, request.crop_type || ''),
+    enabled: isOpen && Boolean(request.crop_type)
+  });
+
+  const pricePerKg = parseFloat(price);
+  const kilograms = parseFloat(quantity);
+  const upcoming = source === UPCOMING;
+  const valid = pricePerKg > 0 && pricePerKg <= maxPrice && kilograms > 0 && kilograms <= stillNeeded
+    && (!upcoming || Boolean(availableFrom && request.needed_by && availableFrom <= request.needed_by));
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await demandService.submitQuote({
+        requestId: request.id!,
+        pricePerKg,
+        quantity: kilograms,
+        batchId: upcoming ? undefined : source,
+        availableFrom: upcoming ? availableFrom : undefined,
+        message
+      });
+      toast({ title: 'Quote sent', description: 'The buyer is notified and can accept it.' });
+      onQuoted();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Quote not sent', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5" />
+            Quote: {request.crop_type}{request.variety ? ` - ${request.variety}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            {request.buyer_name || 'A buyer'} needs {stillNeeded} kg in {request.delivery_location} by{' '}
+            {new Date(request.needed_by || '').toLocaleDateString()} at up to ₹{maxPrice}/kg.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Supply from</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UPCOMING}>Upcoming harvest</SelectItem>
+                {batches.map(batch => (
+                  <SelectItem key={batch.id} value={batch.id}>
+                    {batch.crop_type}{batch.variety ? ` - ${batch.variety}` : ''} · {batch.grading} · {batch.harvest_quantity} kg
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              {upcoming
+                ? 'If accepted, a forward contract is opened and the harvest is allocated when you register it.'
+                : 'If accepted, the quantity is held for the buyer to purchase at your price.'}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="quote-price">Price (₹/kg)</Label>
+              <Input id="quote-price" type="number" min="0" max={maxPrice} step="0.5" value={price} onChange={e => setPrice(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="quote-quantity">Quantity (kg)</Label>
+              <Input id="quote-quantity" type="number" min="1" max={stillNeeded} value={quantity} onChange={e => setQuantity(e.target.value)} />
+            </div>
+          </div>
+          {upcoming && (
+            <div>
+              <Label htmlFor="quote-available">Ready from</Label>
+              <Input id="quote-available" type="date" max={request.needed_by || undefined} value={availableFrom} onChange={e => setAvailableFrom(e.target.value)} />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="quote-message">Note (optional)</Label>
+            <Textarea id="quote-message" rows={2} maxLength={500} value={message} onChange={e => setMessage(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send quote
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
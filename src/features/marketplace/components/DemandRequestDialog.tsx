@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Megaphone, Loader2 } from 'lucide-react';
+import { demandService } from '@/features/marketplace/utils/demandService';
+import { sanitizeError } from '@/lib/security';
+
+interface DemandRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPosted: () => void;
+}
+
+const ANY = 'any';
+
+/**
+ * Post a demand request: what is needed, where, by when and the most the buyer will pay
+ */
+export const DemandRequestDialog: React.FC<DemandRequestDialogProps> = ({ isOpen, onClose, onPosted }) => {
+  const { toast } = useToast();
+  const [cropType, setCropType] = useState('');
+  const [variety, setVariety] = useState('');
+  const [grading, setGrading] = useState(ANY);
+  const [quantity, setQuantity] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [location, setLocation] = useState('');
+  const [neededBy, setNeededBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const kilograms = parseFloat(quantity);
+  const pricePerKg = parseFloat(maxPrice);
+  const valid = Boolean(cropType.trim() && location.trim() && neededBy) && kilograms > 0 && pricePerKg > 0;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const result = await demandService.postRequest({
+        cropType,
+        variety,
+        grading: grading === ANY ? undefined : grading,
+        quantity: kilograms,
+        maxPricePerKg: pricePerKg,
+        deliveryLocation: location,
+        neededBy,
+        notes
+      });
+      toast({
+        title: 'Demand request posted',
+        description: result.notifiedFarmers > 0
+          ? `${result.notifiedFarmers} farmer${result.notifiedFarmers === 1 ? '' : 's'} with matching harvests notified.`
+          : 'Farmers will be notified as matching harvests are registered.'
+      });
+      onPosted();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Request not posted', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            Post demand request
+          </DialogTitle>
+          <DialogDescription>
+            Farmers whose listed or upcoming harvests fit are notified and can quote at or below your price.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="demand-crop">Crop</Label>
+              <Input id="demand-crop" value={cropType} onChange={e => setCropType(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="demand-variety">Variety</Label>
+              <Input id="demand-variety" placeholder="Any" value={variety} onChange={e => setVariety(e.target.value)} />
+            </div>
+            <div>
+              <Label>Grade</Label>
+              <Select value={grading} onValueChange={setGrading}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="Premium">Premium</SelectItem>
+                  <SelectItem value="Standard">Standard</SelectItem>
+                  <SelectItem value="Basic">Basic</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="demand-quantity">Quantity (kg)</Label>
+              <Input id="demand-quantity" type="number" min="1" value={quantity} onChange={e => setQuantity(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="demand-price">Up to (₹/kg)</Label>
+              <Input id="demand-price" type="number" min="0" step="0.5" value={maxPrice} onChange={e => setMaxPrice(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="demand-location">Deliver to</Label>
+              <Input id="demand-location" placeholder="e.g. Khordha" value={location} onChange={e => setLocation(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="demand-needed-by">Needed by</Label>
+              <Input id="demand-needed-by" type="date" value={neededBy} onChange={e => setNeededBy(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="demand-notes">Notes (optional)</Label>
+            <Textarea id="demand-notes" rows={2} maxLength={500} value={notes} onChange={e => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Post request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { Megaphone, Plus, Bell } from 'lucide-react';
+import { demandService, DemandRequest, DemandQuote } from '@/features/marketplace/utils/demandService';
+import { formatTimeLeft } from '@/features/marketplace/utils/auctionService';
+import { DemandRequestDialog } from '@/features/marketplace/components/DemandRequestDialog';
+import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { queryKeys } from '@/lib/queryKeys';
+import { sanitizeError } from '@/lib/security';
+
+interface DemandRequestsPanelProps {
+  buyerId: string;
+}
+
+const REQUEST_STATUS: Record<string, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-blue-100 text-blue-800' },
+  filled: { label: 'Filled', className: 'bg-green-100 text-green-800' },
+  closed: { label: 'Closed', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800' }
+};
+
+/**
+ * Buyer's demand requests: post what is needed, compare farmers' quotes, accept or reject them,
+ * and purchase accepted quotes on listed batches at the quoted price
+ */
+export const DemandRequestsPanel: React.FC<DemandRequestsPanelProps> = ({ buyerId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [posting, setPosting] = useState(false);
+  const [paying, setPaying] = useState<DemandQuote | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: [...queryKeys.demand, 'buyer', buyerId],
+    queryFn: async () => {
+      const [requests, quotes, notifications] = await Promise.all([
+        demandService.getMyRequests(buyerId),
+        demandService.getQuotes(buyerId),
+        demandService.getNotifications(buyerId)
+      ]);
+      return { requests, quotes, notifications };
+    },
+    refetchInterval: 30 * 1000
+  });
+  const requests = data?.requests ?? [];
+  const quotes = data?.quotes ?? [];
+  const unread = (data?.notifications ?? []).filter(notification => !notification.is_read);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.demand });
+    queryClient.invalidateQueries({ queryKey: queryKeys.forwardContracts });
+    queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+  };
+
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string, description?: string) => {
+    setBusy(id);
+    try {
+      await action();
+      toast({ title: success, description });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+      refresh();
+    }
+  };
+
+  const handleAccept = (quote: DemandQuote) => runAction(
+    quote.id!,
+    () => demandService.accept(quote.id!),
+    'Quote accepted',
+    quote.batch_id
+      ? 'The quantity is held for you for 24 hours at the quoted price.'
+      : 'A forward contract is open; the harvest is allocated to you when the farmer registers it.'
+  );
+
+  const markRead = async () => {
+    try {
+      await demandService.markNotificationsRead(buyerId);
+    } finally {
+      refresh();
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              My Demand Requests
+            </CardTitle>
+            <CardDescription>Tell farmers what you need; matching farmers are notified and send quotes.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {unread.length > 0 && (
+              <Button size="sm" variant="outline" onClick={markRead}>
+                <Bell className="h-4 w-4 mr-2" />
+                {unread.length} new · mark read
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => setPosting(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New request
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.length === 0 && (
+          <p className="text-sm text-muted-foreground">You have not posted any demand requests.</p>
+        )}
+        {requests.map(request => (
+          <RequestRow
+            key={request.id}
+            request={request}
+            quotes={quotes.filter(quote => quote.request_id === request.id)}
+            busyId={busy}
+            onClose={() => runAction(request.id!, () => demandService.closeRequest(request.id!), 'Request closed')}
+            onAccept={handleAccept}
+            onReject={quote => runAction(quote.id!, () => demandService.reject(quote.id!), 'Quote rejected')}
+            onCheckout={setPaying}
+          />
+        ))}
+      </CardContent>
+
+      {posting && (
+        <DemandRequestDialog isOpen={posting} onClose={() => setPosting(false)} onPosted={refresh} />
+      )}
+
+      {paying && (
+        <UltraSimplePurchaseModal
+          batch={{
+            id: paying.batch_id || undefined,
+            batch_id: paying.batch_id || undefined,
+            crop_type: paying.crop_type || undefined,
+            variety: paying.batch_variety || undefined,
+            quantity: paying.quantity || undefined,
+            price_per_kg: paying.price_per_kg || undefined,
+            current_owner: paying.farmer_id || undefined,
+            profiles: { full_name: paying.farmer_name || undefined },
+            batches: {
+              id: paying.batch_id || undefined,
+              crop_type: paying.crop_type || undefined,
+              variety: paying.batch_variety || undefined,
+              current_owner: paying.farmer_id || undefined
+            }
+          }}
+          award={{
+            source: 'quote',
+            reservationId: paying.reservation_id!,
+            quantity: paying.quantity || 0,
+            unitPrice: paying.price_per_kg || 0,
+            expiresAt: paying.hold_expires_at!
+          }}
+          isOpen={!!paying}
+          onClose={() => setPaying(null)}
+          onPurchaseComplete={() => {
+            setPaying(null);
+            refresh();
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface RequestRowProps {
+  request: DemandRequest;
+  quotes: DemandQuote[];
+  busyId: string | null;
+  onClose: () => void;
+  onAccept: (quote: DemandQuote) => void;
+  onReject: (quote: DemandQuote) => void;
+  onCheckout: (quote: DemandQuote) => void;
+}
+
+const RequestRow: React.FC<RequestRowProps> = ({ request, quotes, busyId, onClose, onAccept, onReject, onCheckout }) => {
+  const status = REQUEST_STATUS[request.status || 'open'];
+  const filled = request.filled_quantity || 0;
+  const total = request.quantity || 0;
+  const open = request.status === 'open';
+  const pending = quotes.filter(quote => quote.status === 'pending').sort((a, b) => (a.price_per_kg || 0) - (b.price_per_kg || 0));
+  const accepted = quotes.filter(quote => quote.status === 'accepted');
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            {total} kg {request.crop_type}{request.variety ? ` - ${request.variety}` : ''}
+            {request.grading && <Badge variant="outline">{request.grading}</Badge>}
+            <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            In {request.delivery_location} by {new Date(request.needed_by || '').toLocaleDateString()} at up to ₹{request.max_price_per_kg}/kg
+          </p>
+        </div>
+        {open && (
+          <Button size="sm" variant="ghost" onClick={onClose} disabled={busyId === request.id}>Close request</Button>
+        )}
+      </div>
+
+      <Progress value={total > 0 ? Math.min(100, (filled / total) * 100) : 0} />
+      <p className="text-xs text-muted-foreground">{filled} of {total} kg covered by accepted quotes</p>
+
+      {(pending.length > 0 || accepted.length > 0) && (
+        <ul className="space-y-1 border-l pl-4 text-sm">
+          {[...pending, ...accepted].map(quote => (
+            <li key={quote.id} className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                <span className="font-medium">{quote.farmer_name || 'Farmer'}</span>: {quote.quantity} kg at ₹{quote.price_per_kg}/kg
+                <span className="text-muted-foreground">
+                  {' · '}{quote.batch_id
+                    ? `listed batch${quote.batch_grading ? `, ${quote.batch_grading}` : ''}`
+                    : `harvest ready from ${new Date(quote.available_from || '').toLocaleDateString()}`}
+                </span>
+                {quote.message && <span className="block text-muted-foreground italic">"{quote.message}"</span>}
+              </span>
+              <span className="flex items-center gap-2">
+                {quote.status === 'pending' && open && (
+                  <>
+                    <Button size="sm" onClick={() => onAccept(quote)} disabled={busyId === quote.id}>Accept</Button>
+                    <Button size="sm" variant="outline" onClick={() => onReject(quote)} disabled={busyId === quote.id}>Reject</Button>
+                  </>
+                )}
+                {quote.status === 'accepted' && quote.contract_id && (
+                  <Badge variant="outline">Forward contract</Badge>
+                )}
+                {quote.status === 'accepted' && demandService.canCheckout(quote) && (
+                  <Button size="sm" onClick={() => onCheckout(quote)}>
+                    Checkout · {formatTimeLeft(quote.hold_expires_at, Date.now())} left
+                  </Button>
+                )}
+                {quote.status === 'accepted' && quote.hold_status === 'consumed' && (
+                  <Badge variant="outline">Purchased</Badge>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {open && pending.length === 0 && accepted.length === 0 && (
+        <p className="text-xs text-muted-foreground">No quotes yet.</p>
+      )}
+    </div>
+  );
+};
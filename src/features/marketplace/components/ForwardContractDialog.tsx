@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { FileSignature, Loader2 } from 'lucide-react';
+import { forwardContractService } from '@/features/marketplace/utils/forwardContractService';
+import { sanitizeError } from '@/lib/security';
+
+interface ForwardContractDialogProps {
+  userType: string | null | undefined;
+  isOpen: boolean;
+  onClose: () => void;
+  onProposed: () => void;
+}
+
+const ANY = 'any';
+
+/**
+ * Propose a forward contract: crop, grade, quantity range, price, delivery window and shortfall penalty
+ */
+export const ForwardContractDialog: React.FC<ForwardContractDialogProps> = ({ userType, isOpen, onClose, onProposed }) => {
+  const { toast } = useToast();
+  const isFarmer = userType === 'farmer';
+  const [counterpartyId, setCounterpartyId] = useState('');
+  const [cropType, setCropType] = useState('');
+  const [variety, setVariety] = useState('');
+  const [grading, setGrading] = useState(ANY);
+  const [minQuantity, setMinQuantity] = useState('');
+  const [maxQuantity, setMaxQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [deliveryStart, setDeliveryStart] = useState('');
+  const [deliveryEnd, setDeliveryEnd] = useState('');
+  const [penalty, setPenalty] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: counterparties = [] } = useQuery({
+    queryKey: ['contract-counterparties', userType],
+    queryFn: () => forwardContractService.getCounterparties(userType),
+    enabled: isOpen
+  });
+
+  const min = parseFloat(minQuantity);
+  const max = parseFloat(maxQuantity);
+  const pricePerKg = parseFloat(price);
+  const penaltyPerKg = parseFloat(penalty) || 0;
+  const valid = Boolean(counterpartyId && cropType.trim() && deliveryStart && deliveryEnd)
+    && min > 0 && max >= min && pricePerKg > 0 && penaltyPerKg >= 0 && deliveryEnd >= deliveryStart;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await forwardContractService.propose({
+        counterpartyId,
+        cropType,
+        variety,
+        grading: grading === ANY ? undefined : grading,
+        minQuantity: min,
+        maxQuantity: max,
+        pricePerKg,
+        deliveryStart,
+        deliveryEnd,
+        shortfallPenaltyPerKg: penaltyPerKg,
+        notes
+      });
+      toast({ title: 'Contract proposed', description: 'It becomes binding once the other party accepts.' });
+      onProposed();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Contract not proposed', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Propose forward contract
+          </DialogTitle>
+          <DialogDescription>
+            Harvests {isFarmer ? 'you register' : 'the farmer registers'} with a harvest date inside the delivery window
+            are allocated to the contract automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>{isFarmer ? 'Buyer' : 'Farmer'}</Label>
+            <Select value={counterpartyId} onValueChange={setCounterpartyId}>
+              <SelectTrigger><SelectValue placeholder={isFarmer ? 'Choose a buyer' : 'Choose a farmer'} /></SelectTrigger>
+              <SelectContent>
+                {counterparties.map(party => (
+                  <SelectItem key={party.id} value={party.id}>
+                    {party.full_name || 'Unnamed'}{isFarmer && party.user_type ? ` (${party.user_type})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="contract-crop">Crop</Label>
+              <Input id="contract-crop" value={cropType} onChange={e => setCropType(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contract-variety">Variety</Label>
+              <Input id="contract-variety" placeholder="Any" value={variety} onChange={e => setVariety(e.target.value)} />
+            </div>
+            <div>
+              <Label>Grade</Label>
+              <Select value={grading} onValueChange={setGrading}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="Premium">Premium</SelectItem>
+                  <SelectItem value="Standard">Standard</SelectItem>
+                  <SelectItem value="Basic">Basic</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="contract-min">Min (kg)</Label>
+              <Input id="contract-min" type="number" min="1" value={minQuantity} onChange={e => setMinQuantity(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contract-max">Max (kg)</Label>
+              <Input id="contract-max" type="number" min="1" value={maxQuantity} onChange={e => setMaxQuantity(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contract-price">Price (₹/kg)</Label>
+              <Input id="contract-price" type="number" min="0" step="0.5" value={price} onChange={e => setPrice(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="contract-start">Delivery from</Label>
+              <Input id="contract-start" type="date" value={deliveryStart} onChange={e => setDeliveryStart(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contract-end">Delivery until</Label>
+              <Input id="contract-end" type="date" value={deliveryEnd} onChange={e => setDeliveryEnd(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="contract-penalty">Penalty (₹/kg short)</Label>
+              <Input id="contract-penalty" type="number" min="0" step="0.5" value={penalty} onChange={e => setPenalty(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="contract-notes">Notes (optional)</Label>
+            <Textarea id="contract-notes" rows={2} maxLength={500} value={notes} onChange={e => setNotes(e.target.value)} />
+          </div>
+          {min > 0 && pricePerKg > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Contract value ₹{(min * pricePerKg).toLocaleString()}
+              {max > min && ` to ₹${(max * pricePerKg).toLocaleString()}`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Propose contract
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
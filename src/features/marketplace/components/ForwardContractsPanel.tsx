@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import { FileSignature, Plus } from 'lucide-react';
+import {
+  forwardContractService,
+  ForwardContract,
+  ContractAllocation,
+  ContractParty
+} from '@/features/marketplace/utils/forwardContractService';
+import { ForwardContractDialog } from '@/features/marketplace/components/ForwardContractDialog';
+import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { queryKeys } from '@/lib/queryKeys';
+import { sanitizeError } from '@/lib/security';
+
+interface ForwardContractsPanelProps {
+  profileId: string;
+  userType: string | null | undefined;
+}
+
+interface PayingAllocation {
+  contract: ForwardContract;
+  allocation: ContractAllocation;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  proposed: { label: 'Proposed', className: 'bg-blue-100 text-blue-800' },
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' },
+  fulfilled: { label: 'Fulfilled', className: 'bg-green-100 text-green-800' },
+  shortfall: { label: 'Shortfall', className: 'bg-red-100 text-red-800' },
+  rejected: { label: 'Rejected', className: 'bg-gray-100 text-gray-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800' }
+};
+
+/**
+ * The signed-in user's forward contracts: proposals to answer, fulfilment against the agreed range,
+ * harvests allocated so far, shortfall penalties, and checkout of allocations at the contract price
+ */
+export const ForwardContractsPanel: React.FC<ForwardContractsPanelProps> = ({ profileId, userType }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [proposing, setProposing] = useState(false);
+  const [paying, setPaying] = useState<PayingAllocation | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: [...queryKeys.forwardContracts, profileId],
+    queryFn: async () => {
+      const contracts = await forwardContractService.getContracts(profileId);
+      const allocations = await forwardContractService.getAllocations(
+        contracts.map(contract => contract.id).filter((id): id is string => Boolean(id))
+      );
+      return { contracts, allocations };
+    },
+    refetchInterval: 60 * 1000
+  });
+  const contracts = data?.contracts ?? [];
+  const allocations = data?.allocations ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.forwardContracts });
+    queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+  };
+
+  const runAction = async (contractId: string, action: () => Promise<unknown>, success: string) => {
+    setBusy(contractId);
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+      refresh();
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              Forward Contracts
+            </CardTitle>
+            <CardDescription>
+              Agree supply before harvest. Matching harvests are allocated automatically when the farmer registers them.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setProposing(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New contract
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contracts.length === 0 && (
+          <p className="text-sm text-muted-foreground">No forward contracts yet.</p>
+        )}
+        {contracts.map(contract => (
+          <ContractRow
+            key={contract.id}
+            contract={contract}
+            party={forwardContractService.partyOf(contract, profileId)}
+            isProposer={contract.proposed_by === profileId}
+            allocations={allocations.filter(allocation => allocation.contract_id === contract.id)}
+            busy={busy === contract.id}
+            onAccept={() => runAction(contract.id!, () => forwardContractService.accept(contract.id!), 'Contract accepted')}
+            onReject={() => runAction(contract.id!, () => forwardContractService.reject(contract.id!), 'Contract rejected')}
+            onCancel={() => runAction(contract.id!, () => forwardContractService.cancel(contract.id!), 'Proposal cancelled')}
+            onCheckout={allocation => setPaying({ contract, allocation })}
+          />
+        ))}
+      </CardContent>
+
+      {proposing && (
+        <ForwardContractDialog
+          userType={userType}
+          isOpen={proposing}
+          onClose={() => setProposing(false)}
+          onProposed={refresh}
+        />
+      )}
+
+      {paying && (
+        <UltraSimplePurchaseModal
+          batch={{
+            id: paying.allocation.batch_id || undefined,
+            batch_id: paying.allocation.batch_id || undefined,
+            crop_type: paying.allocation.crop_type || undefined,
+            variety: paying.allocation.variety || undefined,
+            quantity: paying.allocation.quantity || undefined,
+            price_per_kg: paying.allocation.price_per_kg || undefined,
+            current_owner: paying.contract.farmer_id || undefined,
+            profiles: { full_name: paying.contract.farmer_name || undefined },
+            batches: {
+              id: paying.allocation.batch_id || undefined,
+              crop_type: paying.allocation.crop_type || undefined,
+              variety: paying.allocation.variety || undefined,
+              current_owner: paying.contract.farmer_id || undefined
+            }
+          }}
+          award={{
+            source: 'contract',
+            reservationId: paying.allocation.reservation_id!,
+            quantity: paying.allocation.quantity || 0,
+            unitPrice: paying.allocation.price_per_kg || 0,
+            expiresAt: paying.allocation.hold_expires_at!
+          }}
+          isOpen={!!paying}
+          onClose={() => setPaying(null)}
+          onPurchaseComplete={() => {
+            setPaying(null);
+            refresh();
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface ContractRowProps {
+  contract: ForwardContract;
+  party: ContractParty | null;
+  isProposer: boolean;
+  allocations: ContractAllocation[];
+  busy: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onCancel: () => void;
+  onCheckout: (allocation: ContractAllocation) => void;
+}
+
+const ContractRow: React.FC<ContractRowProps> = ({
+  contract,
+  party,
+  isProposer,
+  allocations,
+  busy,
+  onAccept,
+  onReject,
+  onCancel,
+  onCheckout
+}) => {
+  const status = STATUS_LABELS[contract.status || 'proposed'];
+  const counterpart = party === 'buyer' ? contract.farmer_name : contract.buyer_name;
+  const allocated = contract.allocated_quantity || 0;
+  const delivered = contract.delivered_quantity || 0;
+  const max = contract.max_quantity || 0;
+  const shortfall = forwardContractService.shortfallOf(contract);
+  const tracking = contract.status === 'active' || contract.status === 'fulfilled' || contract.status === 'shortfall';
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            {contract.crop_type}{contract.variety ? ` - ${contract.variety}` : ''}
+            {contract.grading && <Badge variant="outline">{contract.grading}</Badge>}
+            <Badge variant="outline">{party === 'buyer' ? 'Buying' : 'Supplying'}</Badge>
+            <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {contract.min_quantity}–{contract.max_quantity} kg at ₹{contract.price_per_kg}/kg
+            {' · '}delivery {new Date(contract.delivery_start || '').toLocaleDateString()} to {new Date(contract.delivery_end || '').toLocaleDateString()}
+            {counterpart && ` · with ${counterpart}`}
+          </p>
+          {(contract.shortfall_penalty_per_kg ?? 0) > 0 && (
+            <p className="text-xs text-muted-foreground">Penalty ₹{contract.shortfall_penalty_per_kg}/kg below the minimum</p>
+          )}
+          {contract.notes && <p className="text-xs text-muted-foreground italic">"{contract.notes}"</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {contract.status === 'proposed' && !isProposer && (
+            <>
+              <Button size="sm" onClick={onAccept} disabled={busy}>Accept</Button>
+              <Button size="sm" variant="outline" onClick={onReject} disabled={busy}>Reject</Button>
+            </>
+          )}
+          {contract.status === 'proposed' && isProposer && (
+            <>
+              <span className="text-sm text-muted-foreground">Awaiting reply</span>
+              <Button size="sm" variant="ghost" onClick={onCancel} disabled={busy}>Cancel</Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {tracking && (
+        <div className="space-y-1">
+          <Progress value={max > 0 ? Math.min(100, (delivered / max) * 100) : 0} />
+          <p className="text-xs text-muted-foreground">
+            {delivered} of {max} kg bought
+            {allocated > delivered && ` · ${allocated - delivered} kg on hold`}
+            {shortfall > 0 && contract.status === 'active' && ` · ${shortfall} kg to reach the minimum`}
+            {contract.status === 'shortfall' && ` · ${shortfall} kg short, penalty ₹${(contract.penalty_amount || 0).toLocaleString()}`}
+          </p>
+        </div>
+      )}
+
+      {allocations.length > 0 && (
+        <ul className="space-y-1 border-l pl-4 text-sm">
+          {allocations.map(allocation => (
+            <li key={allocation.id} className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                {allocation.quantity} kg from harvest of {new Date(allocation.harvest_date || '').toLocaleDateString()}
+                <span className="text-muted-foreground">
+                  {' · '}{allocation.hold_status === 'consumed' ? 'paid' : forwardContractService.canCheckout(allocation) ? 'awaiting payment' : 'hold lapsed'}
+                </span>
+              </span>
+              {party === 'buyer' && forwardContractService.canCheckout(allocation) && (
+                <Button size="sm" onClick={() => onCheckout(allocation)}>Checkout</Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
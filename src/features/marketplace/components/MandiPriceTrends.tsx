@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Loader2, WifiOff } from 'lucide-react';
+import { mandiPriceHistoryService, MandiMarket } from '@/features/marketplace/utils/mandiPriceHistoryService';
+import { summarizeWindow, monthlySeasonality, forecastPrices } from '@/features/marketplace/utils/priceForecast';
+import { formatPrice } from '@/features/marketplace/utils/marketPriceAPI';
+import { queryKeys } from '@/lib/queryKeys';
+
+const WINDOWS = [30, 90, 365];
+const FORECAST_DAYS = 14;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const chartConfig: ChartConfig = {
+  modal: { label: 'Modal', color: 'hsl(var(--primary))' },
+  range: { label: 'Min – max', color: 'hsl(var(--muted-foreground))' },
+  forecast: { label: 'Forecast', color: '#d97706' },
+  band80: { label: '80% band', color: '#f59e0b' },
+  band95: { label: '95% band', color: '#fcd34d' }
+};
+
+interface ChartRow {
+  date: string;
+  modal?: number;
+  range?: [number, number];
+  forecast?: number;
+  band80?: [number, number];
+  band95?: [number, number];
+}
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+
+/**
+ * Stored mandi price history for a market: 30, 90 and 365-day charts, seasonality by month and a
+ * two-week forecast with confidence bands. Works from stored history alone.
+ */
+export const MandiPriceTrends: React.FC<MandiMarket> = ({ commodity, state, district }) => {
+  const [days, setDays] = useState(WINDOWS[0]);
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: [...queryKeys.mandiHistory, commodity.toLowerCase(), state.toLowerCase(), district.toLowerCase()],
+    queryFn: () => mandiPriceHistoryService.getHistory({ commodity, state, district }),
+    staleTime: 60 * 60 * 1000
+  });
+  const points = useMemo(() => history?.points ?? [], [history]);
+
+  const summary = useMemo(() => summarizeWindow(points, days), [points, days]);
+  const seasonality = useMemo(() => monthlySeasonality(points), [points]);
+  const forecast = useMemo(() => forecastPrices(points, FORECAST_DAYS), [points]);
+
+  const rows = useMemo<ChartRow[]>(() => {
+    const past: ChartRow[] = summary.points.map(point => ({
+      date: point.date,
+      modal: point.modal,
+      range: [point.min ?? point.modal, point.max ?? point.modal]
+    }));
+    if (!forecast || past.length === 0) return past;
+
+    // Start the forecast line and bands at the last reading so they join the history
+    const last = past[past.length - 1];
+    past[past.length - 1] = { ...last, forecast: last.modal, band80: [last.modal!, last.modal!], band95: [last.modal!, last.modal!] };
+    return [
+      ...past,
+      ...forecast.points.map(point => ({
+        date: point.date,
+        forecast: point.modal,
+        band80: [point.lower80, point.upper80] as [number, number],
+        band95: [point.lower95, point.upper95] as [number, number]
+      }))
+    ];
+  }, [summary, forecast]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading price history...
+      </div>
+    );
+  }
+
+  if (points.length === 0) {
+    return (
+      <p className="text-xs sm:text-sm text-gray-500 text-center">
+        No stored price history for {commodity} in {district} yet. Prices are recorded daily from now on.
+      </p>
+    );
+  }
+
+  const nextWeek = forecast?.points[6];
+
+  return (
+    <div className="bg-gray-50 rounded-lg border border-gray-300 p-4 sm:p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold text-sm sm:text-base text-gray-900">Price History &amp; Forecast</h4>
+        <div className="flex items-center gap-2">
+          {history?.fromCache && (
+            <Badge variant="outline" className="text-xs">
+              <WifiOff className="h-3 w-3 mr-1" />
+              Offline · saved {new Date(history.savedAt || '').toLocaleDateString('en-IN')}
+            </Badge>
+          )}
+          <Tabs value={String(days)} onValueChange={value => setDays(Number(value))}>
+            <TabsList>
+              {WINDOWS.map(window => (
+                <TabsTrigger key={window} value={String(window)}>{window}d</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center text-xs">
+        <div>
+          <div className="text-gray-500">Average</div>
+          <div className="font-semibold text-gray-900">{summary.average !== null ? formatPrice(Math.round(summary.average)) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Low</div>
+          <div className="font-semibold text-gray-900">{summary.low !== null ? formatPrice(summary.low) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">High</div>
+          <div className="font-semibold text-gray-900">{summary.high !== null ? formatPrice(summary.high) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Change</div>
+          <div className={`font-semibold ${(summary.changePct ?? 0) >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+            {summary.changePct !== null ? `${summary.changePct > 0 ? '+' : ''}${summary.changePct}%` : '—'}
+          </div>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <ComposedChart data={rows} margin={{ left: 4, right: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis width={48} tickLine={false} axisLine={false} domain={['auto', 'auto']} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={value => shortDate(String(value))} />} />
+          <Area dataKey="range" stroke="none" fill="var(--color-range)" fillOpacity={0.15} isAnimationActive={false} />
+          <Area dataKey="band95" stroke="none" fill="var(--color-band95)" fillOpacity={0.25} isAnimationActive={false} />
+          <Area dataKey="band80" stroke="none" fill="var(--color-band80)" fillOpacity={0.3} isAnimationActive={false} />
+          <Line dataKey="modal" stroke="var(--color-modal)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line dataKey="forecast" stroke="var(--color-forecast)" strokeWidth={2} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ChartContainer>
+
+      {forecast && nextWeek ? (
+        <p className="text-xs text-gray-600">
+          <span className="font-medium">Next week:</span> about {formatPrice(Math.round(nextWeek.modal))}, likely
+          between {formatPrice(Math.round(nextWeek.lower80))} and {formatPrice(Math.round(nextWeek.upper80))} (80%).
+          A trend projection from past prices, not a guarantee.
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">A forecast needs at least two weeks of stored prices.</p>
+      )}
+
+      {seasonality && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700">Seasonality (modal price vs. the year's average)</p>
+          <div className="grid grid-cols-6 sm:grid-cols-12 gap-1 text-center text-xs">
+            {MONTHS.map((label, month) => {
+              const entry = seasonality.find(item => item.month === month);
+              const pct = entry ? Math.round((entry.index - 1) * 100) : null;
+              return (
+                <div
+                  key={label}
+                  className={`rounded border p-1 ${pct === null ? 'text-gray-400' : pct >= 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+                  title={entry ? `${entry.samples} days of prices` : 'No prices stored for this month'}
+                >
+                  <div>{label}</div>
+                  <div className="font-semibold">{pct === null ? '—' : `${pct > 0 ? '+' : ''}${pct}%`}</div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
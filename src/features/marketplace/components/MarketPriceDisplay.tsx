@@ -21,8 +21,9 @@ import {
   getPriceSuggestions, 
   formatPrice, 
   getPriceRangeText,
-  type MarketPriceData 
+  type PriceSuggestions
 } from '@/features/marketplace/utils/marketPriceAPI';
+import { MandiPriceTrends } from '@/features/marketplace/components/MandiPriceTrends';
 
 interface MarketPriceDisplayProps {
   cropType: string;
@@ -41,12 +42,7 @@ export const MarketPriceDisplay: React.FC<MarketPriceDisplayProps> = ({
   onPriceSelect,
   className = ''
 }) => {
-  const [priceData, setPriceData] = useState<{
-    minPrice: number;
-    maxPrice: number;
-    averagePrice: number;
-    suggestions: MarketPriceData[];
-  } | null>(null);
+  const [priceData, setPriceData] = useState<PriceSuggestions | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
@@ -74,6 +70,11 @@ export const MarketPriceDisplay: React.FC<MarketPriceDisplayProps> = ({
           description: `No current market prices found for ${cropType}${variety ? ` (${variety})` : ''}`,
           variant: "destructive",
         });
+      } else if (data.source === 'history') {
+        toast({
+          title: "Showing Stored Price",
+          description: `Live mandi prices are unavailable; showing the latest stored price for ${cropType}`,
+        });
       } else {
         toast({
           title: "Price Data Updated",
@@ -173,6 +174,11 @@ export const MarketPriceDisplay: React.FC<MarketPriceDisplayProps> = ({
               Please check back later or set your price based on local market conditions.
             </AlertDescription>
           </Alert>
+          {state && district && (
+            <div className="mt-4">
+              <MandiPriceTrends commodity={cropType} state={state} district={district} />
+            </div>
+          )}
           <Button 
             onClick={fetchPrices} 
             variant="outline" 
@@ -343,6 +349,11 @@ export const MarketPriceDisplay: React.FC<MarketPriceDisplayProps> = ({
         </div>
         )}
 
+        {/* Stored history, trends and forecast */}
+        {state && district && (
+          <MandiPriceTrends commodity={cropType} state={state} district={district} />
+        )}
+
         {/* Quick Price Selection */}
         {onPriceSelect && (
           <div className="bg-gray-50 rounded-lg border border-gray-300 p-4">
@@ -395,6 +406,9 @@ export const MarketPriceDisplay: React.FC<MarketPriceDisplayProps> = ({
           )}
           <div className="text-xs text-gray-500 text-center px-2 break-words">
             <span className="font-medium">Data Source:</span> Government of India - Ministry of Agriculture and Farmers Welfare
+            {priceData.source === 'history' && (
+              <span> (latest stored price, {new Date(priceData.suggestions[0].price_date).toLocaleDateString('en-IN')})</span>
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import {
+  MarketplaceFilters,
+  MarketplaceFacets,
+  MarketplaceSort,
+  FacetCount,
+  MARKETPLACE_SORTS,
+  hasActiveFilters
+} from '@/features/marketplace/utils/marketplaceSearchService';
+import { useDebounce } from '@/hooks/useDebounce';
+import { sanitizeString } from '@/lib/security';
+
+interface MarketplaceFilterBarProps {
+  filters: MarketplaceFilters;
+  facets: MarketplaceFacets | null;
+  onChange: (patch: Partial<MarketplaceFilters>) => void;
+  onClear: () => void;
+  placeholder?: string;
+  // Pages scoped to one seller type have nothing to choose between
+  showSellerTypes?: boolean;
+}
+
+const ANY = 'any';
+
+/**
+ * Search box, sort order and facet filters shared by the marketplace pages
+ */
+export const MarketplaceFilterBar: React.FC<MarketplaceFilterBarProps> = ({
+  filters,
+  facets,
+  onChange,
+  onClear,
+  placeholder = 'Search by crop or variety...',
+  showSellerTypes = true
+}) => {
+  const [query, setQuery] = useState(filters.query);
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? '');
+  const debouncedQuery = useDebounce(query, 500);
+
+  // Follow the URL when it changes underneath, e.g. on clear or back navigation
+  useEffect(() => setQuery(filters.query), [filters.query]);
+  useEffect(() => setMinPrice(filters.minPrice?.toString() ?? ''), [filters.minPrice]);
+  useEffect(() => setMaxPrice(filters.maxPrice?.toString() ?? ''), [filters.maxPrice]);
+
+  // Only typing, not URL changes, is pushed back into the filters
+  const latest = useRef({ query: filters.query, onChange });
+  latest.current = { query: filters.query, onChange };
+  useEffect(() => {
+    if (debouncedQuery !== latest.current.query) {
+      latest.current.onChange({ query: debouncedQuery });
+    }
+  }, [debouncedQuery]);
+
+  const commitPrice = () => {
+    const min = minPrice.trim() === '' ? undefined : Math.max(0, Number(minPrice));
+    const max = maxPrice.trim() === '' ? undefined : Math.max(0, Number(maxPrice));
+    if (min !== filters.minPrice || max !== filters.maxPrice) {
+      onChange({
+        minPrice: Number.isFinite(min) ? min : undefined,
+        maxPrice: Number.isFinite(max) ? max : undefined
+      });
+    }
+  };
+
+  const toggle = (key: 'grades' | 'certifications' | 'districts' | 'sellerTypes', value: string) => {
+    const selected = filters[key];
+    onChange({ [key]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value] });
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder={placeholder}
+              value={query}
+              onChange={(e) => setQuery(sanitizeString(e.target.value, 100))}
+              className="pl-10"
+            />
+          </div>
+          <Select value={filters.sort} onValueChange={value => onChange({ sort: value as MarketplaceSort })}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MARKETPLACE_SORTS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasActiveFilters(filters) && (
+            <Button variant="ghost" onClick={onClear}>
+              <X className="h-4 w-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          <FacetGroup
+            label="Grade"
+            counts={facets?.grades}
+            selected={filters.grades}
+            onToggle={value => toggle('grades', value)}
+          />
+          <FacetGroup
+            label="Certification"
+            counts={facets?.certifications}
+            selected={filters.certifications}
+            onToggle={value => toggle('certifications', value)}
+          />
+          <FacetGroup
+            label="District"
+            counts={facets?.districts}
+            selected={filters.districts}
+            onToggle={value => toggle('districts', value)}
+          />
+          {showSellerTypes && (
+            <FacetGroup
+              label="Seller"
+              counts={facets?.sellerTypes}
+              selected={filters.sellerTypes}
+              onToggle={value => toggle('sellerTypes', value)}
+            />
+          )}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Price (₹/kg)</p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder={facets?.price.min != null ? `${facets.price.min}` : 'Min'}
+                value={minPrice}
+                onChange={e => setMinPrice(e.target.value)}
+                onBlur={commitPrice}
+                onKeyDown={e => e.key === 'Enter' && commitPrice()}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min="0"
+                placeholder={facets?.price.max != null ? `${facets.price.max}` : 'Max'}
+                value={maxPrice}
+                onChange={e => setMaxPrice(e.target.value)}
+                onBlur={commitPrice}
+                onKeyDown={e => e.key === 'Enter' && commitPrice()}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Freshness remaining</p>
+            <Select
+              value={filters.minFreshnessDays?.toString() ?? ANY}
+              onValueChange={value => onChange({ minFreshnessDays: value === ANY ? undefined : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                {(facets?.freshness ?? []).map(bucket => (
+                  <SelectItem key={bucket.minDays} value={bucket.minDays.toString()}>
+                    {bucket.minDays}+ day{bucket.minDays === 1 ? '' : 's'} ({bucket.count})
+                  </SelectItem>
+                ))}
+                {filters.minFreshnessDays !== undefined
+                  && !facets?.freshness.some(bucket => bucket.minDays === filters.minFreshnessDays) && (
+                  <SelectItem value={filters.minFreshnessDays.toString()}>{filters.minFreshnessDays}+ days</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+interface FacetGroupProps {
+  label: string;
+  counts: FacetCount[] | undefined;
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ label, counts = [], selected, onToggle }) => {
+  // Keep chosen values visible, even with no matches left, so they can be switched off
+  const options = [
+    ...counts,
+    ...selected.filter(value => !counts.some(count => count.value === value)).map(value => ({ value, count: 0 }))
+  ];
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">{label}</p>
+      {options.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No options</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {options.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={selected.includes(option.value) ? 'default' : 'outline'}
+              onClick={() => onToggle(option.value)}
+            >
+              <span className="capitalize">{option.value}</span>
+              <span className="ml-1 text-xs opacity-70">{option.count}</span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
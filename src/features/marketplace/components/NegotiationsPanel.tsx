@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { HandCoins, Clock, ChevronDown, ChevronUp } from 'lucide-react';
+import { offerService, OfferOverview, OfferEvent, OfferParty, OfferTerms } from '@/features/marketplace/utils/offerService';
+import { formatTimeLeft } from '@/features/marketplace/utils/auctionService';
+import { OfferTermsDialog } from '@/features/marketplace/components/OfferTermsDialog';
+import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { queryKeys } from '@/lib/queryKeys';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+interface NegotiationsPanelProps {
+  profileId: string;
+}
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  open: { label: 'Negotiating', className: 'bg-blue-100 text-blue-800' },
+  accepted: { label: 'Accepted', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+  withdrawn: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-800' },
+  expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800' }
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  offer: 'offered',
+  counter: 'countered',
+  accept: 'accepted',
+  reject: 'rejected',
+  withdraw: 'withdrew',
+  expire: 'expired'
+};
+
+/**
+ * The signed-in user's offers on listings, as buyer or seller: respond in turn, review the
+ * full history, and check out accepted offers at the agreed price
+ */
+export const NegotiationsPanel: React.FC<NegotiationsPanelProps> = ({ profileId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [history, setHistory] = useState<OfferEvent[]>([]);
+  const [countering, setCountering] = useState<OfferOverview | null>(null);
+  const [paying, setPaying] = useState<OfferOverview | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const { data: offers = [] } = useQuery({
+    queryKey: [...queryKeys.offers, profileId],
+    queryFn: () => offerService.getOffers(profileId),
+    refetchInterval: 30 * 1000
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadHistory = async (offerId: string) => {
+    try {
+      setHistory(await offerService.getHistory(offerId));
+    } catch (error) {
+      logger.error('Error loading offer history', error);
+      setHistory([]);
+    }
+  };
+
+  const toggleHistory = (offerId: string) => {
+    if (expanded === offerId) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(offerId);
+    setHistory([]);
+    loadHistory(offerId);
+  };
+
+  const refresh = (offerId: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.offers });
+    queryClient.invalidateQueries({ queryKey: queryKeys.marketplace });
+    if (expanded === offerId) loadHistory(offerId);
+  };
+
+  const runAction = async (offerId: string, action: () => Promise<unknown>, success: string) => {
+    setBusy(offerId);
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+      refresh(offerId);
+    }
+  };
+
+  const handleCounter = async (terms: OfferTerms) => {
+    if (!countering?.id) return;
+    const offerId = countering.id;
+    await offerService.counter(offerId, terms);
+    toast({ title: 'Counter-offer sent' });
+    refresh(offerId);
+  };
+
+  if (offers.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HandCoins className="h-5 w-5" />
+          Offers
+        </CardTitle>
+        <CardDescription>
+          Negotiate price and quantity with the other party. Accepted offers hold the stock for 24 hours at the agreed price.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {offers.map(offer => (
+          <OfferRow
+            key={offer.id}
+            offer={offer}
+            party={offerService.partyOf(offer, profileId)}
+            now={now}
+            busy={busy === offer.id}
+            expanded={expanded === offer.id}
+            history={expanded === offer.id ? history : []}
+            onToggleHistory={() => toggleHistory(offer.id!)}
+            onAccept={() => runAction(offer.id!, () => offerService.accept(offer.id!), 'Offer accepted')}
+            onReject={() => runAction(offer.id!, () => offerService.reject(offer.id!), 'Offer rejected')}
+            onWithdraw={() => runAction(offer.id!, () => offerService.withdraw(offer.id!), 'Offer withdrawn')}
+            onCounter={() => setCountering(offer)}
+            onCheckout={() => setPaying(offer)}
+          />
+        ))}
+      </CardContent>
+
+      {countering && (
+        <OfferTermsDialog
+          title={`Counter: ${countering.crop_type}${countering.variety ? ` - ${countering.variety}` : ''}`}
+          description={`Currently ₹${countering.price_per_kg}/kg for ${countering.quantity} kg. The other party can accept, reject or counter again.`}
+          initialPrice={countering.price_per_kg || 0}
+          initialQuantity={countering.quantity || 0}
+          maxQuantity={countering.listed_quantity || countering.quantity || 0}
+          listPrice={countering.list_price}
+          submitLabel="Send counter-offer"
+          isOpen={!!countering}
+          onClose={() => setCountering(null)}
+          onSubmit={handleCounter}
+        />
+      )}
+
+      {paying && (
+        <UltraSimplePurchaseModal
+          batch={{
+            id: paying.batch_id || undefined,
+            batch_id: paying.batch_id || undefined,
+            crop_type: paying.crop_type || undefined,
+            variety: paying.variety || undefined,
+            quantity: paying.quantity || undefined,
+            price_per_kg: paying.price_per_kg || undefined,
+            current_owner: paying.seller_id || undefined,
+            profiles: { full_name: paying.seller_name || undefined },
+            batches: {
+              id: paying.batch_id || undefined,
+              crop_type: paying.crop_type || undefined,
+              variety: paying.variety || undefined,
+              current_owner: paying.seller_id || undefined
+            }
+          }}
+          award={{
+            source: 'offer',
+            reservationId: paying.reservation_id!,
+            quantity: paying.quantity || 0,
+            unitPrice: paying.price_per_kg || 0,
+            expiresAt: paying.hold_expires_at!
+          }}
+          isOpen={!!paying}
+          onClose={() => setPaying(null)}
+          onPurchaseComplete={() => {
+            const offerId = paying.id!;
+            setPaying(null);
+            refresh(offerId);
+          }}
+        />
+      )}
+    </Card>
+  );
+};
+
+interface OfferRowProps {
+  offer: OfferOverview;
+  party: OfferParty | null;
+  now: number;
+  busy: boolean;
+  expanded: boolean;
+  history: OfferEvent[];
+  onToggleHistory: () => void;
+  onAccept: () => void;
+  onReject: () => void;
+  onWithdraw: () => void;
+  onCounter: () => void;
+  onCheckout: () => void;
+}
+
+const OfferRow: React.FC<OfferRowProps> = ({
+  offer,
+  party,
+  now,
+  busy,
+  expanded,
+  history,
+  onToggleHistory,
+  onAccept,
+  onReject,
+  onWithdraw,
+  onCounter,
+  onCheckout
+}) => {
+  const status = STATUS_LABELS[offer.status || 'open'];
+  const open = offer.status === 'open' && offer.expires_at !== null && new Date(offer.expires_at).getTime() > now;
+  const myTurn = open && offer.awaiting === party;
+  const counterpart = party === 'buyer' ? offer.seller_name : offer.buyer_name;
+
+  const actorLabel = (event: OfferEvent) => {
+    if (!event.actor_id) return 'Offer';
+    const name = event.actor_id === offer.buyer_id ? offer.buyer_name : offer.seller_name;
+    return name || (event.actor_id === offer.buyer_id ? 'Buyer' : 'Seller');
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            {offer.crop_type}{offer.variety ? ` - ${offer.variety}` : ''}
+            <Badge variant="outline">{party === 'buyer' ? 'Buying' : 'Selling'}</Badge>
+            <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {offer.quantity} kg at ₹{offer.price_per_kg}/kg
+            {offer.list_price !== null && ` (listed ₹${offer.list_price}/kg)`}
+            {counterpart && ` · with ${counterpart}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {open && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {myTurn ? 'Your turn' : 'Awaiting reply'} · {formatTimeLeft(offer.expires_at, now)}
+            </span>
+          )}
+          {myTurn && (
+            <>
+              <Button size="sm" onClick={onAccept} disabled={busy}>Accept</Button>
+              <Button size="sm" variant="outline" onClick={onCounter} disabled={busy}>Counter</Button>
+              <Button size="sm" variant="outline" onClick={onReject} disabled={busy}>Reject</Button>
+            </>
+          )}
+          {open && party === 'buyer' && (
+            <Button size="sm" variant="ghost" onClick={onWithdraw} disabled={busy}>Withdraw</Button>
+          )}
+          {party === 'buyer' && offerService.canCheckout(offer) && (
+            <Button size="sm" onClick={onCheckout}>
+              Checkout · {formatTimeLeft(offer.hold_expires_at, now)} left
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={onToggleHistory}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            History
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <ol className="space-y-1 border-l pl-4 text-sm">
+          {history.map(event => (
+            <li key={event.id}>
+              <span className="font-medium">{actorLabel(event)}</span> {EVENT_LABELS[event.action] || event.action}
+              {(event.action === 'offer' || event.action === 'counter') && ` ₹${event.price_per_kg}/kg for ${event.quantity} kg`}
+              <span className="text-muted-foreground"> · {new Date(event.created_at || '').toLocaleString()}</span>
+              {event.message && <p className="text-muted-foreground italic">"{event.message}"</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
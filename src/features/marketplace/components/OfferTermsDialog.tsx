@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { OfferTerms } from '@/features/marketplace/utils/offerService';
+import { sanitizeError } from '@/lib/security';
+
+interface OfferTermsDialogProps {
+  title: string;
+  description: string;
+  initialPrice: number;
+  initialQuantity: number;
+  maxQuantity: number;
+  listPrice?: number | null;
+  submitLabel: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (terms: OfferTerms) => Promise<void>;
+}
+
+const VALIDITY_OPTIONS: { label: string; hours: number }[] = [
+  { label: '6 hours', hours: 6 },
+  { label: '24 hours', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '7 days', hours: 168 }
+];
+
+/**
+ * Price, quantity and note for an opening offer or a counter-offer
+ */
+export const OfferTermsDialog: React.FC<OfferTermsDialogProps> = ({
+  title,
+  description,
+  initialPrice,
+  initialQuantity,
+  maxQuantity,
+  listPrice,
+  submitLabel,
+  isOpen,
+  onClose,
+  onSubmit
+}) => {
+  const { toast } = useToast();
+  const [price, setPrice] = useState(String(initialPrice || ''));
+  const [quantity, setQuantity] = useState(String(initialQuantity || ''));
+  const [message, setMessage] = useState('');
+  const [validHours, setValidHours] = useState('24');
+  const [saving, setSaving] = useState(false);
+  const pricePerKg = parseFloat(price);
+  const kilograms = parseFloat(quantity);
+  const valid = pricePerKg > 0 && kilograms > 0 && kilograms <= maxQuantity;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await onSubmit({ pricePerKg, quantity: kilograms, message, validHours: Number(validHours) });
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Offer not sent', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="offer-price">Price (₹/kg)</Label>
+              <Input id="offer-price" type="number" min="0" step="0.5" value={price} onChange={e => setPrice(e.target.value)} />
+              {listPrice ? (
+                <p className="text-xs text-muted-foreground mt-1">Listed at ₹{listPrice}/kg</p>
+              ) : null}
+            </div>
+            <div>
+              <Label htmlFor="offer-quantity">Quantity (kg)</Label>
+              <Input id="offer-quantity" type="number" min="1" max={maxQuantity} value={quantity} onChange={e => setQuantity(e.target.value)} />
+              <p className="text-xs text-muted-foreground mt-1">Up to {maxQuantity} kg</p>
+            </div>
+          </div>
+          <div>
+            <Label>Valid for</Label>
+            <Select value={validHours} onValueChange={setValidHours}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {VALIDITY_OPTIONS.map(option => (
+                  <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="offer-message">Note (optional)</Label>
+            <Textarea id="offer-message" rows={2} maxLength={500} value={message} onChange={e => setMessage(e.target.value)} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Total ₹{((pricePerKg || 0) * (kilograms || 0)).toLocaleString()}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
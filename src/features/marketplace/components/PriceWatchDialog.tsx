@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { BellPlus, Loader2 } from 'lucide-react';
+import { priceWatchService, PriceWatchType } from '@/features/marketplace/utils/priceWatchService';
+import { sanitizeError } from '@/lib/security';
+
+interface PriceWatchDialogProps {
+  profileId: string;
+  watchType: PriceWatchType;
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+const toNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Create a price watch: a mandi price alert for a commodity and district, or an alert for new
+ * listings at or under a target price
+ */
+export const PriceWatchDialog: React.FC<PriceWatchDialogProps> = ({ profileId, watchType, isOpen, onClose, onCreated }) => {
+  const { toast } = useToast();
+  const [commodity, setCommodity] = useState('');
+  const [variety, setVariety] = useState('');
+  const [state, setState] = useState('');
+  const [district, setDistrict] = useState('');
+  const [abovePrice, setAbovePrice] = useState('');
+  const [belowPrice, setBelowPrice] = useState('');
+  const [weeklyChange, setWeeklyChange] = useState('');
+  const [targetPrice, setTargetPrice] = useState('');
+  const [saving, setSaving] = useState(false);
+  const mandi = watchType === 'mandi_price';
+  const valid = mandi
+    ? Boolean(commodity.trim() && state.trim() && district.trim())
+      && [abovePrice, belowPrice, weeklyChange].some(value => toNumber(value) !== undefined)
+    : Boolean(commodity.trim()) && toNumber(targetPrice) !== undefined;
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      if (mandi) {
+        await priceWatchService.watchMandiPrice(profileId, {
+          commodity,
+          state,
+          district,
+          abovePrice: toNumber(abovePrice),
+          belowPrice: toNumber(belowPrice),
+          weeklyChangePct: toNumber(weeklyChange)
+        });
+      } else {
+        await priceWatchService.watchListings(profileId, {
+          commodity,
+          variety,
+          district,
+          targetPricePerKg: toNumber(targetPrice)!
+        });
+      }
+      toast({ title: 'Price watch added', description: 'Prices are checked every hour; alerts appear in the app.' });
+      onCreated();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Watch not added', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellPlus className="h-5 w-5" />
+            {mandi ? 'Watch a mandi price' : 'Watch for listings'}
+          </DialogTitle>
+          <DialogDescription>
+            {mandi
+              ? 'Get alerted when the modal price crosses a threshold or moves sharply within a week.'
+              : 'Get alerted when a new listing appears at or under your target price.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="watch-commodity">{mandi ? 'Commodity' : 'Crop'}</Label>
+              <Input id="watch-commodity" placeholder="e.g. Rice" value={commodity} onChange={e => setCommodity(e.target.value)} />
+            </div>
+            {mandi ? (
+              <div>
+                <Label htmlFor="watch-state">State</Label>
+                <Input id="watch-state" placeholder="e.g. Odisha" value={state} onChange={e => setState(e.target.value)} />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="watch-variety">Variety</Label>
+                <Input id="watch-variety" placeholder="Any" value={variety} onChange={e => setVariety(e.target.value)} />
+              </div>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="watch-district">District</Label>
+            <Input
+              id="watch-district"
+              placeholder={mandi ? 'e.g. Khordha' : 'Any'}
+              value={district}
+              onChange={e => setDistrict(e.target.value)}
+            />
+          </div>
+          {mandi ? (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="watch-above">Above (₹/quintal)</Label>
+                <Input id="watch-above" type="number" min="0" value={abovePrice} onChange={e => setAbovePrice(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="watch-below">Below (₹/quintal)</Label>
+                <Input id="watch-below" type="number" min="0" value={belowPrice} onChange={e => setBelowPrice(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="watch-weekly">Weekly move (%)</Label>
+                <Input id="watch-weekly" type="number" min="0" step="0.5" value={weeklyChange} onChange={e => setWeeklyChange(e.target.value)} />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="watch-target">At or under (₹/kg)</Label>
+              <Input id="watch-target" type="number" min="0" step="0.5" value={targetPrice} onChange={e => setTargetPrice(e.target.value)} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving || !valid}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add watch
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { Bell, BellRing, Plus, Trash2 } from 'lucide-react';
+import { priceWatchService, PriceWatch, PriceWatchType } from '@/features/marketplace/utils/priceWatchService';
+import { PriceWatchDialog } from '@/features/marketplace/components/PriceWatchDialog';
+import { usePriceAlerts } from '@/features/marketplace/hooks/usePriceAlerts';
+import { queryKeys } from '@/lib/queryKeys';
+import { sanitizeError } from '@/lib/security';
+
+interface PriceWatchlistPanelProps {
+  profileId: string;
+  // Farmers watch mandi prices; buyers watch for listings under a target price
+  watchType: PriceWatchType;
+}
+
+const describeWatch = (watch: PriceWatch): string => {
+  if (watch.watch_type === 'listing') {
+    const where = watch.district ? ` in ${watch.district}` : '';
+    return `${watch.commodity}${watch.variety ? ` - ${watch.variety}` : ''}${where} at or under ₹${watch.target_price_per_kg}/kg`;
+  }
+
+  const conditions = [
+    watch.above_price !== null && `above ₹${watch.above_price}`,
+    watch.below_price !== null && `below ₹${watch.below_price}`,
+    watch.weekly_change_pct !== null && `moves ${watch.weekly_change_pct}% in a week`
+  ].filter(Boolean);
+  return `${watch.commodity} in ${watch.district}, ${watch.state}: ${conditions.join(', ')} (₹/quintal)`;
+};
+
+/**
+ * The viewer's price watches and the alerts the hourly price-watch job has raised for them
+ */
+export const PriceWatchlistPanel: React.FC<PriceWatchlistPanelProps> = ({ profileId, watchType }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { notifications, unreadCount, markAsRead } = usePriceAlerts();
+
+  const { data: watches = [] } = useQuery({
+    queryKey: [...queryKeys.priceWatches, profileId],
+    queryFn: () => priceWatchService.getWatches(profileId)
+  });
+  const shown = watches.filter(watch => watch.watch_type === watchType);
+  const shownIds = new Set(shown.map(watch => watch.id));
+  const alerts = notifications.filter(notification => shownIds.has(notification.watch_id)).slice(0, 5);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.priceWatches });
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusy(id);
+    try {
+      await action();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Action failed', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+      refresh();
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              {watchType === 'mandi_price' ? 'Mandi Price Alerts' : 'Listing Price Alerts'}
+            </CardTitle>
+            <CardDescription>
+              {watchType === 'mandi_price'
+                ? 'Watch mandi prices for your crops; prices are checked every hour.'
+                : 'Hear about new listings under your target price as soon as they are posted.'}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {unreadCount > 0 && (
+              <Button size="sm" variant="outline" onClick={() => markAsRead()}>
+                <Bell className="h-4 w-4 mr-2" />
+                {unreadCount} new · mark read
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New watch
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {shown.length === 0 && (
+          <p className="text-sm text-muted-foreground">You are not watching any prices.</p>
+        )}
+        {shown.map(watch => (
+          <div key={watch.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">{describeWatch(watch)}</p>
+              <p className="text-xs text-muted-foreground">
+                {watch.last_checked_at
+                  ? `Last checked ${new Date(watch.last_checked_at).toLocaleString()}`
+                  : 'Not checked yet'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {!watch.is_active && <Badge variant="outline">Paused</Badge>}
+              <Switch
+                checked={watch.is_active}
+                disabled={busy === watch.id}
+                onCheckedChange={checked => runAction(watch.id, () => priceWatchService.setActive(watch.id, checked))}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy === watch.id}
+                onClick={() => runAction(watch.id, () => priceWatchService.deleteWatch(watch.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {alerts.length > 0 && (
+          <div className="space-y-1 pt-2">
+            <p className="text-sm font-medium">Recent alerts</p>
+            <ul className="space-y-1 border-l pl-4 text-sm">
+              {alerts.map(alert => (
+                <li key={alert.id} className={alert.is_read ? 'text-muted-foreground' : undefined}>
+                  {alert.message}
+                  <span className="text-xs text-muted-foreground"> · {new Date(alert.created_at || '').toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      {adding && (
+        <PriceWatchDialog
+          profileId={profileId}
+          watchType={watchType}
+          isOpen={adding}
+          onClose={() => setAdding(false)}
+          onCreated={refresh}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { auctionService, AuctionNotification } from '@/features/marketplace/utils/auctionService';
+import { logger } from '@/lib/logger';
+
+const TOAST_TITLES: Record<string, string> = {
+  outbid: 'You were outbid',
+  won: 'Auction won',
+  new_bid: 'New bid'
+};
+
+/**
+ * Auction notifications for the signed-in profile, kept live with a realtime subscription.
+ * Outbid, win and new-bid notices also pop up as toasts when they arrive.
+ */
+export function useAuctionNotifications() {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<AuctionNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadNotifications = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setNotifications(await auctionService.getNotifications(profile.id));
+    } catch (error) {
+      logger.error('Error loading auction notifications', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    loadNotifications();
+    const subscription = supabase
+      .channel(`auction_notifications_${profile.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'auction_notifications',
+          filter: `profile_id=eq.${profile.id}`,
+        },
+        payload => {
+          const notification = payload.new as AuctionNotification;
+          const title = TOAST_TITLES[notification.notification_type];
+          if (title) {
+            toast({ title, description: notification.message });
+          }
+          loadNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [profile?.id, loadNotifications, toast]);
+
+  const markAsRead = async (notificationId?: string) => {
+    if (!profile?.id) return;
+
+    try {
+      await auctionService.markNotificationsRead(profile.id, notificationId);
+      loadNotifications();
+    } catch (error) {
+      logger.error('Error marking auction notifications read', error);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.is_read).length,
+    loading,
+    refresh: loadNotifications,
+    markAsRead,
+  };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useInfiniteQuery, keepPreviousData } from '@tanstack/react-query';
+import {
+  marketplaceSearchService,
+  MarketplaceFilters,
+  SearchScope,
+  DEFAULT_FILTERS,
+  filtersFromParams,
+  filtersToParams,
+  toMarketplaceItem
+} from '@/features/marketplace/utils/marketplaceSearchService';
+import { queryKeys } from '@/lib/queryKeys';
+
+/**
+ * Marketplace search with its filters kept in the URL, so a filtered view can be shared or reloaded.
+ * Pass a null scope to hold off searching until the page knows what the viewer may see.
+ */
+export function useMarketplaceSearch(scope: SearchScope | null) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+
+  const updateFilters = useCallback((patch: Partial<MarketplaceFilters>) => {
+    setSearchParams(current => filtersToParams({ ...filtersFromParams(current), ...patch }, current), { replace: true });
+  }, [setSearchParams]);
+
+  const clearFilters = useCallback(() => {
+    setSearchParams(current => filtersToParams(DEFAULT_FILTERS, current), { replace: true });
+  }, [setSearchParams]);
+
+  // Cached under queryKeys.marketplace so live purchase and price events refresh it
+  const query = useInfiniteQuery({
+    queryKey: [...queryKeys.marketplace, 'search', scope, filters],
+    queryFn: ({ pageParam }) => marketplaceSearchService.search(filters, scope ?? {}, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled: scope !== null,
+    // Keep showing the last results while a new filter loads instead of blanking the page
+    placeholderData: keepPreviousData,
+    // Checkout holds come and go without chain events
+    refetchInterval: 60 * 1000
+  });
+
+  const items = useMemo(
+    () => (query.data?.pages ?? []).flatMap(page => page.items).map(toMarketplaceItem),
+    [query.data]
+  );
+  const first = query.data?.pages[0];
+
+  return {
+    filters,
+    updateFilters,
+    clearFilters,
+    items,
+    total: first?.total ?? 0,
+    farmers: first?.farmers ?? 0,
+    averagePrice: first?.averagePrice ?? 0,
+    totalQuantity: first?.totalQuantity ?? 0,
+    facets: first?.facets ?? null,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+    refetch: query.refetch
+  };
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { priceWatchService, PriceAlertNotification } from '@/features/marketplace/utils/priceWatchService';
+import { logger } from '@/lib/logger';
+
+const TOAST_TITLES: Record<string, string> = {
+  price_above: 'Price above your alert',
+  price_below: 'Price below your alert',
+  weekly_move: 'Big weekly price move',
+  new_listing: 'New listing under your price'
+};
+
+/**
+ * Price watch alerts for the signed-in profile, kept live with a realtime subscription.
+ * Alerts raised by the scheduled price-watch job also pop up as toasts when they arrive.
+ */
+export function usePriceAlerts() {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<PriceAlertNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadNotifications = useCallback(async () => {
+    if (!profile?.id) return;
+
+    try {
+      setNotifications(await priceWatchService.getNotifications(profile.id));
+    } catch (error) {
+      logger.error('Error loading price alerts', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (!profile?.id) return;
+
+    loadNotifications();
+    const subscription = supabase
+      .channel(`price_alert_notifications_${profile.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'price_alert_notifications',
+          filter: `profile_id=eq.${profile.id}`,
+        },
+        payload => {
+          const notification = payload.new as PriceAlertNotification;
+          const title = TOAST_TITLES[notification.notification_type];
+          if (title) {
+            toast({ title, description: notification.message });
+          }
+          loadNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [profile?.id, loadNotifications, toast]);
+
+  const markAsRead = async (notificationId?: string) => {
+    if (!profile?.id) return;
+
+    try {
+      await priceWatchService.markNotificationsRead(profile.id, notificationId);
+      loadNotifications();
+    } catch (error) {
+      logger.error('Error marking price alerts read', error);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.is_read).length,
+    loading,
+    refresh: loadNotifications,
+    markAsRead,
+  };
+}
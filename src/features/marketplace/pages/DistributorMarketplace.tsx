@@ -1,123 +1,40 @@
-import { useState, useEffect } from 'react';
-import { logger } from '@/lib/logger';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Input } from '@/components/ui/input';
 import { 
-  Search, 
   Package, 
   MapPin, 
   Calendar, 
   Award, 
   ShoppingCart,
   Eye,
-  Filter,
-  Truck
+  Truck,
+  TrendingUp
 } from 'lucide-react';
 import { BatchDetailsModal } from '@/features/batch-registration/components/BatchDetailsModal';
 import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { ReputationBadge } from '@/features/reputation/components/ReputationBreakdown';
+import { useReputations } from '@/features/reputation/hooks/useReputations';
+import { AuctionBiddingPanel } from '@/features/marketplace/components/AuctionBiddingPanel';
+import { ForwardContractsPanel } from '@/features/marketplace/components/ForwardContractsPanel';
+import { DemandRequestsPanel } from '@/features/marketplace/components/DemandRequestsPanel';
+import { PriceWatchlistPanel } from '@/features/marketplace/components/PriceWatchlistPanel';
+import { MarketplaceFilterBar } from '@/features/marketplace/components/MarketplaceFilterBar';
+import { useMarketplaceSearch } from '@/features/marketplace/hooks/useMarketplaceSearch';
+import { MarketplaceItem, hasActiveFilters } from '@/features/marketplace/utils/marketplaceSearchService';
 
 export const DistributorMarketplace = () => {
-  const { user } = useAuth();
-  const [batches, setBatches] = useState<any[]>([]);
-  const [filteredBatches, setFilteredBatches] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedBatch, setSelectedBatch] = useState<any>(null);
+  const { profile } = useAuth();
+  const [selectedBatch, setSelectedBatch] = useState<MarketplaceItem | null>(null);
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
+  // Listings from distributors only
+  const search = useMarketplaceSearch({ sellerTypes: ['distributor'] });
+  const { items: filteredBatches, filters, isLoading: loading } = search;
+  const reputations = useReputations(filteredBatches.map(item => item.current_seller_id));
 
-  useEffect(() => {
-    fetchBatches();
-  }, []);
-
-  useEffect(() => {
-    filterBatches();
-  }, [batches, searchTerm]);
-
-  const fetchBatches = async () => {
-    try {
-      setLoading(true);
-      // Fetch from marketplace table to get proper structure (same as Marketplace page)
-      const { data: marketplaceData, error: marketplaceError } = await supabase
-        .from('marketplace')
-        .select(`
-          *,
-          batches!inner(*),
-          profiles!marketplace_current_seller_id_fkey(*)
-        `)
-        .eq('current_seller_type', 'distributor')
-        .eq('status', 'available')
-        .gt('quantity', 0)
-        .order('created_at', { ascending: false });
-
-      if (marketplaceError) {
-        logger.error('Error fetching marketplace data:', marketplaceError);
-        // Fallback to direct batch fetch
-        const { data: batchData, error: batchError } = await supabase
-          .from('batches')
-          .select(`
-            *,
-            profiles!batches_current_owner_fkey(*)
-          `)
-          .eq('status', 'available')
-          .order('created_at', { ascending: false });
-
-        if (batchError) throw batchError;
-        
-        // Structure to match marketplace format
-        const structuredBatches = (batchData || []).map(batch => ({
-          id: `marketplace-${batch.id}`,
-          batch_id: batch.id,
-          current_seller_id: batch.current_owner,
-          current_seller_type: 'distributor',
-          price: batch.price_per_kg * batch.harvest_quantity,
-          quantity: batch.harvest_quantity,
-          status: batch.status,
-          created_at: batch.created_at,
-          profiles: batch.profiles,
-          batches: batch
-        }));
-        
-        setBatches(structuredBatches);
-        return;
-      }
-
-      // Structure data the same way Marketplace does
-      const structuredData = (marketplaceData || []).map(item => ({
-        ...item,
-        profiles: item.profiles,
-        batches: item.batches
-      }));
-
-      setBatches(structuredData);
-    } catch (error) {
-      logger.error('Error fetching distributor batches:', error);
-      setBatches([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filterBatches = () => {
-    if (!searchTerm) {
-      setFilteredBatches(batches);
-      return;
-    }
-
-    const filtered = batches.filter(item => {
-      const batch = item.batches || item;
-      return batch.crop_type?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        batch.variety?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.profiles?.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.profiles?.farm_location?.toLowerCase().includes(searchTerm.toLowerCase());
-    });
-    setFilteredBatches(filtered);
-  };
-
-  const handleBuyNow = (batch: any) => {
+  const handleBuyNow = (batch: MarketplaceItem) => {
     setSelectedBatch(batch);
     setShowPurchaseModal(true);
   };
@@ -125,7 +42,7 @@ export const DistributorMarketplace = () => {
   const handlePurchaseComplete = () => {
     setShowPurchaseModal(false);
     setSelectedBatch(null);
-    fetchBatches(); // Refresh the list
+    search.refetch(); // Refresh the list
   };
 
   if (loading) {
@@ -154,23 +71,20 @@ export const DistributorMarketplace = () => {
         </div>
 
         {/* Search and Filter */}
-        <div className="flex flex-col md:flex-row gap-4">
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-            <Input
-              placeholder="Search by crop, variety, distributor, or location..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-          <Button variant="outline" className="flex items-center gap-2">
-            <Filter className="h-4 w-4" />
-            Filter
-          </Button>
-        </div>
+        <MarketplaceFilterBar
+          filters={filters}
+          facets={search.facets}
+          onChange={search.updateFilters}
+          onClear={search.clearFilters}
+          showSellerTypes={false}
+        />
       </div>
 
+      {profile?.id && <AuctionBiddingPanel bidderId={profile.id} />}
+      {profile?.id && <ForwardContractsPanel profileId={profile.id} userType={profile.user_type} />}
+      {profile?.id && <DemandRequestsPanel buyerId={profile.id} />}
+      {profile?.id && <PriceWatchlistPanel profileId={profile.id} watchType="listing" />}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <Card>
@@ -181,7 +95,7 @@ export const DistributorMarketplace = () => {
               </div>
               <div>
                 <p className="text-sm text-gray-600">Available Batches</p>
-                <p className="text-2xl font-bold">{filteredBatches.length}</p>
+                <p className="text-2xl font-bold">{search.total}</p>
               </div>
             </div>
           </CardContent>
@@ -196,7 +110,7 @@ export const DistributorMarketplace = () => {
               <div>
                 <p className="text-sm text-gray-600">Active Distributors</p>
                 <p className="text-2xl font-bold">
-                  {new Set(filteredBatches.map(item => item.current_seller_id || (item.batches || item).current_owner)).size}
+                  {new Set(filteredBatches.map(item => item.current_seller_id)).size}
                 </p>
               </div>
             </div>
@@ -207,19 +121,11 @@ export const DistributorMarketplace = () => {
           <CardContent className="p-6">
             <div className="flex items-center gap-4">
               <div className="p-2 bg-purple-100 rounded-lg">
-                <Award className="h-5 w-5 text-purple-600" />
+                <TrendingUp className="h-5 w-5 text-purple-600" />
               </div>
               <div>
-                <p className="text-sm text-gray-600">Avg Quality Score</p>
-                <p className="text-2xl font-bold">
-                  {filteredBatches.length > 0 
-                    ? Math.round(filteredBatches.reduce((sum, item) => {
-                        const batch = item.batches || item;
-                        return sum + (item.quality_score || batch.quality_score || 0);
-                      }, 0) / filteredBatches.length)
-                    : 0
-                  }
-                </p>
+                <p className="text-sm text-gray-600">Average Price</p>
+                <p className="text-2xl font-bold">₹{Math.round(search.averagePrice)}/kg</p>
               </div>
             </div>
           </CardContent>
@@ -229,7 +135,7 @@ export const DistributorMarketplace = () => {
       {/* Batches Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredBatches.map((item) => {
-          const batch = item.batches || item;
+          const batch = item.batches;
           return (
             <Card key={item.id || batch.id} className="hover:shadow-lg transition-shadow">
               <CardHeader>
@@ -247,6 +153,7 @@ export const DistributorMarketplace = () => {
                   <div className="flex items-center text-sm">
                     <Truck className="h-4 w-4 mr-2 text-muted-foreground" />
                     <span>From: {item.profiles?.full_name ? `${item.profiles.user_type ? item.profiles.user_type.charAt(0).toUpperCase() + item.profiles.user_type.slice(1) : ''} - ${item.profiles.full_name}`.trim() : 'Unknown Distributor'}</span>
+                    <span className="ml-2"><ReputationBadge reputation={reputations.get(item.current_seller_id)} /></span>
                   </div>
                   <div className="flex items-center text-sm">
                     <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
@@ -254,7 +161,7 @@ export const DistributorMarketplace = () => {
                   </div>
                   <div className="flex items-center text-sm">
                     <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>Harvested: {new Date(batch.harvest_date).toLocaleDateString()}</span>
+                    <span>Harvested: {batch.harvest_date ? new Date(batch.harvest_date).toLocaleDateString() : 'Unknown'}</span>
                   </div>
                 </div>
 
@@ -262,10 +169,10 @@ export const DistributorMarketplace = () => {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <Award className="h-4 w-4 text-yellow-500" />
-                    <span className="text-sm">Quality: {item.quality_score || batch.quality_score || 'Standard'}</span>
+                    <span className="text-sm">Quality: {batch.grading || 'Standard'}</span>
                   </div>
                   <div className="text-right">
-                    <div className="text-lg font-bold text-primary">₹{batch.price_per_kg || (item.price / (item.quantity || 1))}/kg</div>
+                    <div className="text-lg font-bold text-primary">₹{batch.price_per_kg || ((item.price || 0) / (item.quantity || 1))}/kg</div>
                     <div className="text-sm text-muted-foreground">{item.quantity || batch.harvest_quantity} kg available</div>
                   </div>
                 </div>
@@ -296,12 +203,20 @@ export const DistributorMarketplace = () => {
         })}
       </div>
 
+      {search.hasNextPage && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={() => search.fetchNextPage()} disabled={search.isFetchingNextPage}>
+            {search.isFetchingNextPage ? 'Loading...' : `Load more (${filteredBatches.length} of ${search.total})`}
+          </Button>
+        </div>
+      )}
+
       {filteredBatches.length === 0 && (
         <div className="text-center py-12">
           <Package className="h-12 w-12 mx-auto mb-4 text-gray-300" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No batches found</h3>
           <p className="text-gray-500">
-            {searchTerm ? 'Try adjusting your search terms' : 'No distributor batches available at the moment'}
+            {hasActiveFilters(filters) ? 'Try adjusting your filters' : 'No distributor batches available at the moment'}
           </p>
         </div>
       )}
@@ -19,15 +19,22 @@ import {
 } from 'lucide-react';
 import { BatchDetailsModal } from '@/features/batch-registration/components/BatchDetailsModal';
 import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { ReputationBadge } from '@/features/reputation/components/ReputationBreakdown';
+import { useReputations } from '@/features/reputation/hooks/useReputations';
+import { AuctionManagementPanel } from '@/features/marketplace/components/AuctionManagementPanel';
+import { ForwardContractsPanel } from '@/features/marketplace/components/ForwardContractsPanel';
+import { DemandBoardPanel } from '@/features/marketplace/components/DemandBoardPanel';
+import { PriceWatchlistPanel } from '@/features/marketplace/components/PriceWatchlistPanel';
 
 export const FarmerMarketplace = () => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [batches, setBatches] = useState<any[]>([]);
   const [filteredBatches, setFilteredBatches] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedBatch, setSelectedBatch] = useState<any>(null);
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
+  const reputations = useReputations(batches.map(batch => batch.current_owner));
 
   useEffect(() => {
     fetchBatches();
@@ -127,6 +134,11 @@ export const FarmerMarketplace = () => {
         </div>
       </div>
 
+      {profile?.user_type === 'farmer' && <AuctionManagementPanel sellerId={profile.id} />}
+      {profile?.id && <ForwardContractsPanel profileId={profile.id} userType={profile.user_type} />}
+      {profile?.id && <DemandBoardPanel farmerId={profile.id} />}
+      {profile?.id && <PriceWatchlistPanel profileId={profile.id} watchType="mandi_price" />}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <Card>
@@ -198,6 +210,7 @@ export const FarmerMarketplace = () => {
                 <div className="flex items-center text-sm">
                   <Package className="h-4 w-4 mr-2 text-muted-foreground" />
                   <span>{batch.profiles?.full_name || 'Unknown Farmer'}</span>
+                  <span className="ml-2"><ReputationBadge reputation={reputations.get(batch.current_owner)} /></span>
                 </div>
                 <div className="flex items-center text-sm">
                   <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
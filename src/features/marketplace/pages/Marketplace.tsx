@@ -1,23 +1,29 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { BatchDetailsModal } from '@/features/batch-registration/components/BatchDetailsModal';
 import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { ReputationBadge } from '@/features/reputation/components/ReputationBreakdown';
+import { useReputations } from '@/features/reputation/hooks/useReputations';
+import { offerService, OfferTerms } from '@/features/marketplace/utils/offerService';
+import { OfferTermsDialog } from '@/features/marketplace/components/OfferTermsDialog';
+import { NegotiationsPanel } from '@/features/marketplace/components/NegotiationsPanel';
+import { MarketplaceFilterBar } from '@/features/marketplace/components/MarketplaceFilterBar';
+import { useMarketplaceSearch } from '@/features/marketplace/hooks/useMarketplaceSearch';
+import { MarketplaceItem, hasActiveFilters } from '@/features/marketplace/utils/marketplaceSearchService';
+import { DemandRequestsPanel } from '@/features/marketplace/components/DemandRequestsPanel';
+import { DemandBoardPanel } from '@/features/marketplace/components/DemandBoardPanel';
+import { PriceWatchlistPanel } from '@/features/marketplace/components/PriceWatchlistPanel';
 import { BatchQuantityDisplay } from '@/features/batch-registration/components/BatchQuantityDisplay';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { useAuth } from '@/contexts/AuthContext';
-import { logger } from '@/lib/logger';
 import { sanitizeError, sanitizeString } from '@/lib/security';
-import { useDebounce } from '@/hooks/useDebounce';
-import { Tables } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
 import { 
-  Search, 
   Filter, 
   MapPin, 
   Calendar, 
@@ -28,48 +34,20 @@ import {
   Package,
   TrendingUp,
   CheckCircle,
-  ExternalLink
+  ExternalLink,
+  HandCoins
 } from 'lucide-react';
 
-interface MarketplaceItem {
-  id: string;
-  batch_id: string;
-  current_seller_id: string;
-  current_seller_type: string;
-  price: number;
-  quantity: number;
-  status: string;
-  created_at: string;
-  profiles?: Tables<'profiles'> | null;
-  batches?: Tables<'batches'> | null;
-}
-
-type BatchItem = MarketplaceItem & {
-  crop_type?: string | null;
-  variety?: string | null;
-  harvest_date?: string | null;
-  group_id?: string | null;
-  farmer_id?: string | null;
-  current_owner?: string | null;
-  price_per_kg?: number | null;
-  harvest_quantity?: number | null;
-  full_name?: string | null;
-  farm_location?: string | null;
-  wallet_address?: string | null;
-};
+type BatchItem = MarketplaceItem;
 
 export const Marketplace = () => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('all');
-  const [selectedLocation, setSelectedLocation] = useState('all');
-  const [batches, setBatches] = useState<BatchItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedBatch, setSelectedBatch] = useState<BatchItem | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [isPurchaseModalOpen, setIsPurchaseModalOpen] = useState(false);
-  const [farmerCount, setFarmerCount] = useState(0);
+  const [offerBatch, setOfferBatch] = useState<BatchItem | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { user, profile } = useAuth();
   
   // Get user type from profile data (preferred) or user metadata (fallback)
@@ -92,169 +70,12 @@ export const Marketplace = () => {
     }
   }
 
-  // Debounce search term for performance
-  const debouncedSearchTerm = useDebounce(searchTerm, 500);
-
-  useEffect(() => {
-    fetchBatches();
-  }, []);
-
-  const fetchBatches = useCallback(async () => {
-    try {
-      setLoading(true);
-      
-      // Use marketplace table (the main one you want to use)
-      // Filter by status='available' and quantity > 0 at database level
-      const { data: marketplaceData, error: marketplaceError } = await supabase
-        .from('marketplace')
-        .select('*')
-        .eq('status', 'available')
-        .gt('quantity', 0) // Only get items with quantity > 0
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (marketplaceError) {
-        logger.error('Marketplace query error', marketplaceError);
-        setBatches([]);
-        return;
-      }
-
-      logger.debug('Marketplace data fetched', { count: marketplaceData?.length || 0 });
-      
-      // Get batches data
-      const batchIds = marketplaceData?.map(item => item.batch_id).filter((id): id is string => Boolean(id)) || [];
-      
-      if (batchIds.length === 0) {
-        logger.debug('No batch IDs found in marketplace');
-        setBatches([]);
-        setFarmerCount(0);
-        setLoading(false);
-        return;
-      }
-
-      const { data: batchesData, error: batchesError } = await supabase
-        .from('batches')
-        .select('id, crop_type, variety, harvest_date, group_id, farmer_id, current_owner, price_per_kg, harvest_quantity')
-        .in('id', batchIds);
-
-      if (batchesError) {
-        logger.error('Batches query error', batchesError);
-      }
-
-      // Get profiles data for sellers
-      const sellerIds = marketplaceData?.map(item => item.current_seller_id).filter((id): id is string => Boolean(id)) || [];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('id, full_name, farm_location, wallet_address')
-        .in('id', sellerIds);
-
-      // Combine the data with proper types
-      const data: BatchItem[] = (marketplaceData || []).map(marketplaceItem => {
-        const batch = batchesData?.find(b => b.id === marketplaceItem.batch_id);
-        const profile = profilesData?.find(p => p.id === marketplaceItem.current_seller_id);
-        
-        return {
-          id: marketplaceItem.id || '',
-          batch_id: marketplaceItem.batch_id || '',
-          current_seller_id: marketplaceItem.current_seller_id || '',
-          current_seller_type: marketplaceItem.current_seller_type || 'farmer',
-          price: marketplaceItem.price || 0,
-          quantity: marketplaceItem.quantity || 0,
-          status: marketplaceItem.status || 'available',
-          created_at: marketplaceItem.created_at || new Date().toISOString(),
-          profiles: profile || null,
-          batches: batch || null,
-          crop_type: batch?.crop_type || null,
-          variety: batch?.variety || null,
-          harvest_date: batch?.harvest_date || null,
-          group_id: batch?.group_id || null,
-          farmer_id: batch?.farmer_id || null,
-          current_owner: batch?.current_owner || null,
-          price_per_kg: batch?.price_per_kg || null,
-          harvest_quantity: batch?.harvest_quantity || null,
-          full_name: profile?.full_name || null,
-          farm_location: profile?.farm_location || null,
-          wallet_address: profile?.wallet_address || null,
-        };
-      });
-
-      logger.debug('Marketplace items processed', { count: data.length });
-      
-      // Calculate farmer count (unique farmers)
-      const uniqueFarmers = new Set(data.map(item => item.farmer_id).filter((id): id is string => Boolean(id)));
-      setFarmerCount(uniqueFarmers.size);
-      
-      // Filter based on user type
-      let filteredData = data || [];
-      
-      logger.debug('User type filter', { userType, dataCount: data.length });
-      
-      if (userType === 'farmer') {
-        // Farmers see their own products - need to match with profile ID
-        // First get the farmer's profile ID
-        const { data: farmerProfile } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('user_id', user?.id)
-          .maybeSingle();
-
-        if (farmerProfile?.id) {
-          filteredData = data.filter(item => item.farmer_id === farmerProfile.id);
-        } else {
-          filteredData = [];
-        }
-      } else if (userType === 'distributor') {
-        // Distributors see all farmer products (not their own purchases)
-        filteredData = data.filter(item => 
-          item.current_seller_type === 'farmer' || item.current_seller_type === 'distributor'
-        );
-      }
-      
-      logger.debug('Filtered marketplace data', { userType, count: filteredData.length });
-      
-      setBatches(filteredData);
-    } catch (error) {
-      logger.error('Error fetching batches', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to load marketplace. Please try again.",
-      });
-      setBatches([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [user, profile, userType, toast]);
-
-  // Filter batches based on search and filters
-  const filteredBatches = batches.filter(batch => {
-    // Search filter (debounced)
-    if (debouncedSearchTerm) {
-      const searchLower = debouncedSearchTerm.toLowerCase();
-      const matchesSearch = 
-        batch.crop_type?.toLowerCase().includes(searchLower) ||
-        batch.variety?.toLowerCase().includes(searchLower) ||
-        batch.full_name?.toLowerCase().includes(searchLower) ||
-        batch.farm_location?.toLowerCase().includes(searchLower);
-      
-      if (!matchesSearch) return false;
-    }
-    
-    // Category filter
-    if (selectedCategory !== 'all') {
-      if (selectedCategory === 'crop' && !batch.crop_type) return false;
-      // Add more category filters as needed
-    }
-    
-    // Location filter
-    if (selectedLocation !== 'all') {
-      if (!batch.farm_location?.toLowerCase().includes(selectedLocation.toLowerCase())) {
-        return false;
-      }
-    }
-    
-    return true;
-  });
+  // Farmers see their own harvests; everyone else sees every available listing
+  const search = useMarketplaceSearch(
+    userType === 'farmer' ? (profile?.id ? { farmerId: profile.id } : null) : {}
+  );
+  const { items: batches, filters, isLoading: loading, refetch } = search;
+  const reputations = useReputations(batches.map(batch => batch.current_seller_id));
 
   const handleViewDetails = (batch: BatchItem) => {
     setSelectedBatch(batch);
@@ -266,9 +87,16 @@ export const Marketplace = () => {
     setIsPurchaseModalOpen(true);
   };
 
+  const handleMakeOffer = async (terms: OfferTerms) => {
+    if (!offerBatch) return;
+    await offerService.makeOffer({ batchId: offerBatch.batch_id, ...terms });
+    toast({ title: 'Offer sent', description: 'The seller can accept, reject or counter it.' });
+    queryClient.invalidateQueries({ queryKey: queryKeys.offers });
+  };
+
   const handlePurchaseComplete = () => {
     setIsPurchaseModalOpen(false);
-    fetchBatches(); // Refresh marketplace
+    refetch(); // Refresh marketplace
   };
 
   if (loading) {
@@ -294,6 +122,14 @@ export const Marketplace = () => {
           </p>
         </div>
 
+        {profile?.id && <NegotiationsPanel profileId={profile.id} />}
+        {profile?.id && (profile.user_type === 'farmer'
+          ? <DemandBoardPanel farmerId={profile.id} />
+          : <DemandRequestsPanel buyerId={profile.id} />)}
+        {profile?.id && (
+          <PriceWatchlistPanel profileId={profile.id} watchType={profile.user_type === 'farmer' ? 'mandi_price' : 'listing'} />
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
           <Card>
@@ -301,7 +137,7 @@ export const Marketplace = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Total Products</p>
-                  <p className="text-2xl font-bold">{filteredBatches.length}</p>
+                  <p className="text-2xl font-bold">{search.total}</p>
                 </div>
                 <Package className="h-8 w-8 text-muted-foreground" />
               </div>
@@ -312,7 +148,7 @@ export const Marketplace = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground">Active Farmers</p>
-                  <p className="text-2xl font-bold">{farmerCount}</p>
+                  <p className="text-2xl font-bold">{search.farmers}</p>
                 </div>
                 <Leaf className="h-8 w-8 text-muted-foreground" />
               </div>
@@ -324,9 +160,7 @@ export const Marketplace = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Average Price</p>
                   <p className="text-2xl font-bold">
-                    ₹{filteredBatches.length > 0 
-                      ? Math.round(filteredBatches.reduce((sum, b) => sum + (b.price_per_kg || 0), 0) / filteredBatches.length)
-                      : 0}/kg
+                    ₹{Math.round(search.averagePrice)}/kg
                   </p>
                 </div>
                 <TrendingUp className="h-8 w-8 text-muted-foreground" />
@@ -336,54 +170,22 @@ export const Marketplace = () => {
         </div>
 
         {/* Filters */}
-        <Card className="mb-6">
-          <CardContent className="p-4">
-            <div className="flex flex-col md:flex-row gap-4">
-              <div className="flex-1">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-                  <Input
-                    placeholder="Search by crop, variety, farmer, or location..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(sanitizeString(e.target.value, 100))}
-                    className="pl-10"
-                  />
-                </div>
-              </div>
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-                <SelectTrigger className="w-full md:w-[200px]">
-                  <SelectValue placeholder="Category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
-                  <SelectItem value="crop">Crops</SelectItem>
-                  <SelectItem value="vegetables">Vegetables</SelectItem>
-                  <SelectItem value="fruits">Fruits</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={selectedLocation} onValueChange={setSelectedLocation}>
-                <SelectTrigger className="w-full md:w-[200px]">
-                  <SelectValue placeholder="Location" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Locations</SelectItem>
-                  <SelectItem value="odisha">Odisha</SelectItem>
-                  <SelectItem value="west bengal">West Bengal</SelectItem>
-                  <SelectItem value="bihar">Bihar</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </CardContent>
-        </Card>
+        <MarketplaceFilterBar
+          filters={filters}
+          facets={search.facets}
+          onChange={search.updateFilters}
+          onClear={search.clearFilters}
+          showSellerTypes={userType !== 'farmer'}
+        />
 
         {/* Results */}
-        {filteredBatches.length === 0 ? (
+        {batches.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <Package className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
               <h3 className="text-xl font-semibold mb-2">No Products Found</h3>
               <p className="text-muted-foreground">
-                {searchTerm || selectedCategory !== 'all' || selectedLocation !== 'all'
+                {hasActiveFilters(filters)
                   ? "Try adjusting your filters"
                   : "No products available in the marketplace at the moment"}
               </p>
@@ -391,7 +193,7 @@ export const Marketplace = () => {
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredBatches.map((batch) => (
+            {batches.map((batch) => (
               <Card key={batch.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader>
                   <div className="flex items-start justify-between">
@@ -409,6 +211,7 @@ export const Marketplace = () => {
                     <div className="flex items-center text-sm text-muted-foreground">
                       <User className="h-4 w-4 mr-2" />
                       <span>{batch.full_name || 'Unknown Farmer'}</span>
+                      <span className="ml-2"><ReputationBadge reputation={reputations.get(batch.current_seller_id)} /></span>
                     </div>
                     {batch.farm_location && (
                       <div className="flex items-center text-sm text-muted-foreground">
@@ -442,6 +245,18 @@ export const Marketplace = () => {
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
+                      {userType !== 'farmer' && batch.current_seller_id !== profile?.id && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setOfferBatch(batch)}
+                          className="flex-1"
+                          disabled={!batch.quantity || batch.quantity <= 0}
+                        >
+                          <HandCoins className="h-4 w-4 mr-2" />
+                          Offer
+                        </Button>
+                      )}
                       {userType !== 'farmer' && (
                         <Button
                           size="sm"
@@ -461,6 +276,14 @@ export const Marketplace = () => {
           </div>
         )}
 
+        {search.hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={() => search.fetchNextPage()} disabled={search.isFetchingNextPage}>
+              {search.isFetchingNextPage ? 'Loading...' : `Load more (${batches.length} of ${search.total})`}
+            </Button>
+          </div>
+        )}
+
         {/* Modals */}
         {selectedBatch && (
           <>
@@ -477,6 +300,20 @@ export const Marketplace = () => {
             />
           </>
         )}
+        {offerBatch && (
+          <OfferTermsDialog
+            title={`Offer: ${offerBatch.crop_type || 'Crop'}${offerBatch.variety ? ` - ${offerBatch.variety}` : ''}`}
+            description={`Propose your price to ${offerBatch.full_name || 'the seller'}. Once accepted, the price is locked for checkout.`}
+            initialPrice={offerBatch.price_per_kg || 0}
+            initialQuantity={offerBatch.quantity || 0}
+            maxQuantity={offerBatch.quantity || 0}
+            listPrice={offerBatch.price_per_kg}
+            submitLabel="Send offer"
+            isOpen={!!offerBatch}
+            onClose={() => setOfferBatch(null)}
+            onSubmit={handleMakeOffer}
+          />
+        )}
       </div>
     </ErrorBoundary>
   );
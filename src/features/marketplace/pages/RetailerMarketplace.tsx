@@ -1,37 +1,29 @@
-import React, { useState, useEffect } from 'react';
-import { logger } from '@/lib/logger';
+import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Package, ShoppingCart, MapPin, Calendar, Award, Eye, Plus, User, History, FileText, Download } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
 import { Link } from 'react-router-dom';
 import { UltraSimplePurchaseModal } from '@/features/purchase/components/UltraSimplePurchaseModal';
+import { CartSheet } from '@/features/purchase/components/CartSheet';
+import { DemandRequestsPanel } from '@/features/marketplace/components/DemandRequestsPanel';
+import { PriceWatchlistPanel } from '@/features/marketplace/components/PriceWatchlistPanel';
+import { MarketplaceFilterBar } from '@/features/marketplace/components/MarketplaceFilterBar';
+import { useMarketplaceSearch } from '@/features/marketplace/hooks/useMarketplaceSearch';
+import { MarketplaceItem, hasActiveFilters } from '@/features/marketplace/utils/marketplaceSearchService';
+import { useCart } from '@/features/purchase/hooks/useCart';
+import { ReputationBadge } from '@/features/reputation/components/ReputationBreakdown';
+import { useReputations } from '@/features/reputation/hooks/useReputations';
 import { BatchDetailsModal } from '@/features/batch-registration/components/BatchDetailsModal';
 
-interface DistributorBatch {
-  id: string;
-  crop_type: string;
-  variety: string;
-  harvest_quantity: number;
-  price_per_kg: number;
-  harvest_date: string;
-  certification_level: string;
-  status: string;
-  current_owner: string;
-  farmer_id: string;
-  profiles?: {
-    full_name: string;
-    farm_location: string;
-  };
-}
-
 export const RetailerMarketplace = () => {
-  const { user } = useAuth();
-  const [batches, setBatches] = useState<DistributorBatch[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selectedBatch, setSelectedBatch] = useState<DistributorBatch | null>(null);
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const cart = useCart(profile?.id);
+  const [showCart, setShowCart] = useState(false);
+  const [selectedBatch, setSelectedBatch] = useState<MarketplaceItem | null>(null);
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   
@@ -53,80 +45,15 @@ export const RetailerMarketplace = () => {
     }
   }
 
-  useEffect(() => {
-    fetchDistributorBatches();
-  }, []);
-
-  const fetchDistributorBatches = async () => {
-    try {
-      setLoading(true);
-      logger.debug(`🔍 DEBUG: Fetching batches available in distributor-retailer marketplace...`);
-      
-      // Get batches that are available in distributor-retailer marketplace
-      const { data, error } = await supabase
-        .from('marketplace')
-        .select(`
-          *,
-          batches!inner(*)
-        `)
-        .eq('current_seller_type', 'distributor')
-        .eq('status', 'available')
-        .gt('quantity', 0) // Ensure quantity > 0
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (error) {
-        logger.error('Database error:', error);
-        setBatches([]);
-        return;
-      }
-
-      logger.debug(`Found ${data?.length || 0} batches in distributor-retailer marketplace:`, data);
-
-      // Extract batch data and filter for distributor-owned batches
-      let distributorBatches = data?.map(item => item.batches).filter(batch => {
-        // Only show batches owned by distributors (not farmers)
-        const isDistributorOwned = batch.current_owner && batch.current_owner !== batch.farmer_id;
-        logger.debug(`🔍 DEBUG: Batch ${batch.id} - current_owner: ${batch.current_owner}, farmer_id: ${batch.farmer_id}, isDistributorOwned: ${isDistributorOwned}`);
-        return isDistributorOwned;
-      }) || [];
-      
-      logger.debug(`🔍 DEBUG: Found ${distributorBatches.length} distributor-owned batches after filtering`);
-      
-      // If user is a distributor, also filter out their own products from the marketplace
-      if (userType === 'distributor') {
-        distributorBatches = distributorBatches.filter(batch => batch.current_owner !== user?.id);
-      }
-
-      logger.debug(`Found ${distributorBatches.length} distributor-owned batches for retailer marketplace`);
+  // Listings from distributors, without a distributor's own
+  const search = useMarketplaceSearch({
+    sellerTypes: ['distributor'],
+    excludeSellerId: userType === 'distributor' ? profile?.id : undefined
+  });
+  const { items: batches, filters, isLoading: loading } = search;
+  const reputations = useReputations(batches.map(batch => batch.current_seller_id));
 
-      // Get profiles for the current owners (distributors)
-      if (distributorBatches.length > 0) {
-        const ownerIds = [...new Set(distributorBatches.map(batch => batch.current_owner).filter(Boolean))];
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('id, full_name, farm_location')
-          .in('id', ownerIds);
-
-        // Merge profile data with batches
-        const batchesWithProfiles = distributorBatches.map(batch => ({
-          ...batch,
-          profiles: profiles?.find(p => p.id === batch.current_owner) || null
-        }));
-
-        setBatches(batchesWithProfiles);
-      } else {
-        setBatches([]);
-      }
-    } catch (error) {
-      logger.error('Error fetching distributor batches:', error);
-      setBatches([]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const getCertificationColor = (level: string) => {
+  const getCertificationColor = (level?: string) => {
     switch (level) {
       case 'Premium':
         return 'bg-gradient-to-r from-yellow-500 to-yellow-600 text-white';
@@ -139,7 +66,7 @@ export const RetailerMarketplace = () => {
     }
   };
 
-  const handlePurchase = (batch: DistributorBatch) => {
+  const handlePurchase = (batch: MarketplaceItem) => {
     setSelectedBatch(batch);
     setShowPurchaseModal(true);
   };
@@ -148,29 +75,25 @@ export const RetailerMarketplace = () => {
     setShowPurchaseModal(false);
     setSelectedBatch(null);
     // Refresh the marketplace
-    fetchDistributorBatches();
+    search.refetch();
   };
 
-  const handleViewDetails = (batch: DistributorBatch) => {
-    // Structure data the same way Marketplace does - with nested batches structure
-    // This ensures consistent UI rendering across all pages
-    const batchData = {
-      id: batch.id,
-      batch_id: batch.id,
-      current_seller_id: batch.current_owner,
-      current_seller_type: 'distributor',
-      price: batch.price_per_kg * batch.harvest_quantity,
-      quantity: batch.harvest_quantity,
-      status: batch.status,
-      created_at: batch.created_at || new Date().toISOString(),
-      profiles: batch.profiles,
-      batches: {
-        ...batch,
-        profiles: batch.profiles
-      }
-    };
-    
-    setSelectedBatch(batchData as any);
+  const handleAddToCart = (batch: MarketplaceItem) => {
+    cart.addLine({
+      batchId: batch.batch_id,
+      sellerId: batch.current_seller_id,
+      sellerName: batch.full_name || 'Distributor',
+      cropType: batch.crop_type || 'Crop',
+      variety: batch.variety,
+      unitPrice: batch.price_per_kg || 0,
+      quantity: batch.quantity,
+      available: batch.quantity
+    });
+    toast({ title: 'Added to cart', description: `${batch.crop_type} from ${batch.full_name || 'Distributor'}` });
+  };
+
+  const handleViewDetails = (batch: MarketplaceItem) => {
+    setSelectedBatch(batch);
     setIsDetailsModalOpen(true);
   };
 
@@ -188,6 +111,13 @@ export const RetailerMarketplace = () => {
           </p>
         </div>
         <div className="flex gap-2">
+          {profile?.id && (
+            <Button variant="outline" onClick={() => setShowCart(true)}>
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Cart
+              {cart.lines.length > 0 && <Badge className="ml-2">{cart.lines.length}</Badge>}
+            </Button>
+          )}
           <Button asChild>
             <Link to={userType === 'distributor' ? '/distributor-inventory' : '/retailer-inventory'}>
               <Package className="h-4 w-4 mr-2" />
@@ -197,6 +127,17 @@ export const RetailerMarketplace = () => {
         </div>
       </div>
 
+      {profile?.id && <DemandRequestsPanel buyerId={profile.id} />}
+      {profile?.id && <PriceWatchlistPanel profileId={profile.id} watchType="listing" />}
+
+      <MarketplaceFilterBar
+        filters={filters}
+        facets={search.facets}
+        onChange={search.updateFilters}
+        onClear={search.clearFilters}
+        showSellerTypes={false}
+      />
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <Card>
@@ -205,7 +146,7 @@ export const RetailerMarketplace = () => {
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{batches.length}</div>
+            <div className="text-2xl font-bold">{search.total}</div>
             <p className="text-xs text-muted-foreground">From distributors</p>
           </CardContent>
         </Card>
@@ -216,7 +157,7 @@ export const RetailerMarketplace = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {batches.reduce((sum, batch) => sum + batch.harvest_quantity, 0)} kg
+              {search.totalQuantity} kg
             </div>
             <p className="text-xs text-muted-foreground">Available for purchase</p>
           </CardContent>
@@ -228,7 +169,7 @@ export const RetailerMarketplace = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              ₹{batches.length > 0 ? Math.min(...batches.map(b => b.price_per_kg)) : 0} - ₹{batches.length > 0 ? Math.max(...batches.map(b => b.price_per_kg)) : 0}
+              ₹{search.facets?.price.min ?? 0} - ₹{search.facets?.price.max ?? 0}
             </div>
             <p className="text-xs text-muted-foreground">Per kg</p>
           </CardContent>
@@ -251,8 +192,8 @@ export const RetailerMarketplace = () => {
                     <CardTitle className="text-lg">{batch.crop_type}</CardTitle>
                     <CardDescription>{batch.variety}</CardDescription>
                   </div>
-                  <Badge className={getCertificationColor(batch.certification_level)}>
-                    {batch.certification_level}
+                  <Badge className={getCertificationColor(batch.certification)}>
+                    {batch.certification || 'Uncertified'}
                   </Badge>
                 </div>
               </CardHeader>
@@ -260,26 +201,27 @@ export const RetailerMarketplace = () => {
                 <div className="space-y-2">
                   <div className="flex items-center text-sm">
                     <Package className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>{batch.harvest_quantity} kg available</span>
+                    <span>{batch.quantity} kg available</span>
                   </div>
                   <div className="flex items-center text-sm">
                     <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>From: {batch.profiles?.full_name || 'Distributor'}</span>
+                    <span>From: {batch.full_name || 'Distributor'}{batch.district ? `, ${batch.district}` : ''}</span>
+                    <span className="ml-2"><ReputationBadge reputation={reputations.get(batch.current_seller_id)} /></span>
                   </div>
                   <div className="flex items-center text-sm">
                     <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>Harvested: {new Date(batch.harvest_date).toLocaleDateString()}</span>
+                    <span>Harvested: {batch.harvest_date ? new Date(batch.harvest_date).toLocaleDateString() : 'Unknown'}</span>
                   </div>
                 </div>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <Award className="h-4 w-4 text-yellow-500" />
-                    <span className="text-sm">Quality: {batch.certification_level}</span>
+                    <span className="text-sm">Quality: {batch.grading || 'Standard'}</span>
                   </div>
                   <div className="text-right">
-                    <div className="text-lg font-bold text-primary">₹{batch.price_per_kg}/kg</div>
+                    <div className="text-lg font-bold text-primary">₹{batch.price_per_kg || 0}/kg</div>
                     <div className="text-sm text-muted-foreground">
-                      Total: ₹{(batch.price_per_kg * batch.harvest_quantity).toLocaleString()}
+                      Total: ₹{((batch.price_per_kg || 0) * batch.quantity).toLocaleString()}
                     </div>
                   </div>
                 </div>
@@ -293,6 +235,16 @@ export const RetailerMarketplace = () => {
                     <Eye className="h-4 w-4 mr-2" />
                     View Details
                   </Button>
+                  {profile?.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleAddToCart(batch)}
+                      title="Add to cart"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button 
                     size="sm" 
                     className="flex-1 gradient-primary"
@@ -310,7 +262,11 @@ export const RetailerMarketplace = () => {
         <div className="text-center py-12">
           <Package className="h-12 w-12 mx-auto mb-4 text-gray-300" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No Products Available</h3>
-          <p className="text-gray-500">No distributor products are available for purchase at the moment.</p>
+          <p className="text-gray-500">
+            {hasActiveFilters(filters)
+              ? 'No distributor products match these filters.'
+              : 'No distributor products are available for purchase at the moment.'}
+          </p>
           <Button asChild className="mt-6">
             <Link to="/dashboard">
               <Package className="h-4 w-4 mr-2" />
@@ -320,6 +276,14 @@ export const RetailerMarketplace = () => {
         </div>
       )}
 
+      {search.hasNextPage && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={() => search.fetchNextPage()} disabled={search.isFetchingNextPage}>
+            {search.isFetchingNextPage ? 'Loading...' : `Load more (${batches.length} of ${search.total})`}
+          </Button>
+        </div>
+      )}
+
       {/* Batch Details Modal - Using same component as everywhere else */}
       <BatchDetailsModal
         batch={selectedBatch}
@@ -340,6 +304,14 @@ export const RetailerMarketplace = () => {
           onPurchaseComplete={handlePurchaseSuccess}
         />
       )}
+
+      {/* Cart */}
+      <CartSheet
+        cart={cart}
+        isOpen={showCart}
+        onClose={() => setShowCart(false)}
+        onCheckoutComplete={() => search.refetch()}
+      />
     </div>
   );
 };
@@ -0,0 +1,342 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/security';
+
+export type AuctionMode = 'english' | 'sealed';
+export type AuctionStatus = 'open' | 'awarded' | 'no_sale' | 'cancelled';
+export type AuctionOverview = Tables<'auction_overview'>;
+export type AuctionBid = Tables<'auction_bids'>;
+export type AuctionNotification = Tables<'auction_notifications'>;
+export type AuctionAward = Tables<'quantity_reservations'>;
+
+export interface CreateAuctionParams {
+  batchId: string;
+  mode: AuctionMode;
+  startingPrice: number;
+  reservePrice?: number | null;
+  minIncrement?: number;
+  endsAt: Date;
+  // English auctions only: late bids push the end back by this many seconds
+  extensionSeconds?: number;
+}
+
+export interface BidResult {
+  bidId: string;
+  amountPerKg: number;
+  endsAt: string;
+  extended: boolean;
+}
+
+export interface SettlementResult {
+  auctionId: string;
+  status: AuctionStatus;
+  winnerId?: string | null;
+  amountPerKg?: number | null;
+  reservationId?: string | null;
+  paymentDueAt?: string;
+}
+
+export type AuctionErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'NOT_AVAILABLE'
+  | 'AUCTION_CLOSED'
+  | 'AUCTION_OPEN'
+  | 'BID_TOO_LOW'
+  | 'UNKNOWN';
+
+const AUCTION_ERROR_CODES: AuctionErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'NOT_AVAILABLE',
+  'AUCTION_CLOSED',
+  'AUCTION_OPEN',
+  'BID_TOO_LOW'
+];
+
+/**
+ * Auction action refused by the database; nothing was written
+ */
+export class AuctionError extends Error {
+  constructor(public readonly code: AuctionErrorCode, message: string) {
+    super(message);
+    this.name = 'AuctionError';
+  }
+}
+
+const toAuctionError = (message: string): AuctionError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && AUCTION_ERROR_CODES.find(c => c === match[1]);
+  return code ? new AuctionError(code, match[2]) : new AuctionError('UNKNOWN', message);
+};
+
+/**
+ * Compact countdown such as "2d 4h", "3h 12m" or "45s"
+ */
+export const formatTimeLeft = (endsAt: string | null, now: number = Date.now()): string => {
+  if (!endsAt) return '';
+  const seconds = Math.max(0, Math.floor((new Date(endsAt).getTime() - now) / 1000));
+  if (seconds === 0) return 'Ended';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+/**
+ * Auction Service
+ * English auctions and sealed-bid tenders on marketplace listings. Bidding rules live in the
+ * database functions; this wraps them and reads auction state. Auctions are settled lazily by
+ * whoever next looks at them after the end time, since there is no scheduler.
+ */
+export class AuctionService {
+  private static instance: AuctionService;
+
+  private constructor() {}
+
+  public static getInstance(): AuctionService {
+    if (!AuctionService.instance) {
+      AuctionService.instance = new AuctionService();
+    }
+    return AuctionService.instance;
+  }
+
+  /**
+   * Put the seller's open listing for a batch up for auction. Returns the auction ID.
+   */
+  public async createAuction(params: CreateAuctionParams): Promise<string> {
+    if (!isValidUUID(params.batchId)) {
+      throw new AuctionError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+
+    const { data, error } = await supabase.rpc('create_auction', {
+      p_batch_id: params.batchId,
+      p_mode: params.mode,
+      p_starting_price: params.startingPrice,
+      p_reserve_price: params.reservePrice ?? null,
+      p_min_increment: params.minIncrement ?? 1,
+      p_ends_at: params.endsAt.toISOString(),
+      p_extension_seconds: params.extensionSeconds ?? 300
+    });
+
+    if (error) {
+      logger.error('create_auction failed', error);
+      throw toAuctionError(error.message);
+    }
+    return data;
+  }
+
+  public async placeBid(auctionId: string, amountPerKg: number): Promise<BidResult> {
+    const { data, error } = await supabase.rpc('place_bid', {
+      p_auction_id: auctionId,
+      p_amount_per_kg: amountPerKg
+    });
+
+    if (error) {
+      logger.warn('place_bid failed', error);
+      throw toAuctionError(error.message);
+    }
+    return data as unknown as BidResult;
+  }
+
+  /**
+   * Close an auction whose end time has passed. Safe to repeat; later calls return the same outcome.
+   */
+  public async settle(auctionId: string): Promise<SettlementResult> {
+    const { data, error } = await supabase.rpc('settle_auction', { p_auction_id: auctionId });
+
+    if (error) {
+      logger.warn('settle_auction failed', error);
+      throw toAuctionError(error.message);
+    }
+    return data as unknown as SettlementResult;
+  }
+
+  /**
+   * Withdraw an auction that has no bids; the listing returns to its fixed price
+   */
+  public async cancel(auctionId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_auction', { p_auction_id: auctionId });
+
+    if (error) {
+      logger.warn('cancel_auction failed', error);
+      throw toAuctionError(error.message);
+    }
+  }
+
+  /**
+   * Open auctions, soonest ending first. Auctions found past their end are settled on the way.
+   */
+  public async getOpenAuctions(): Promise<AuctionOverview[]> {
+    const { data, error } = await supabase
+      .from('auction_overview')
+      .select('*')
+      .eq('status', 'open')
+      .order('ends_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error loading open auctions', error);
+      throw error;
+    }
+
+    const auctions = data || [];
+    await this.settleEnded(auctions);
+    return auctions.filter(auction => !this.hasEnded(auction));
+  }
+
+  public async getSellerAuctions(sellerId: string): Promise<AuctionOverview[]> {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('auction_overview')
+        .select('*')
+        .eq('seller_id', sellerId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error loading seller auctions', error);
+        throw error;
+      }
+      return data || [];
+    };
+
+    const auctions = await load();
+    // Reload so settled auctions show their outcome
+    return (await this.settleEnded(auctions)) ? load() : auctions;
+  }
+
+  public async getAuctions(auctionIds: string[]): Promise<AuctionOverview[]> {
+    if (auctionIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('auction_overview')
+      .select('*')
+      .in('id', auctionIds);
+
+    if (error) {
+      logger.error('Error loading auctions', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Bids the caller may see: all bids of English auctions and closed tenders, otherwise only their own
+   */
+  public async getBids(auctionId: string): Promise<AuctionBid[]> {
+    const { data, error } = await supabase
+      .from('auction_bids')
+      .select('*')
+      .eq('auction_id', auctionId)
+      .order('amount_per_kg', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error loading auction bids', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async getBidderBids(bidderId: string): Promise<AuctionBid[]> {
+    const { data, error } = await supabase
+      .from('auction_bids')
+      .select('*')
+      .eq('bidder_id', bidderId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      logger.error('Error loading bidder bids', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Unpaid auction wins: the payment holds created when the buyer's auctions settled
+   */
+  public async getPendingAwards(buyerId: string): Promise<AuctionAward[]> {
+    const { data, error } = await supabase
+      .from('quantity_reservations')
+      .select('*')
+      .eq('buyer_id', buyerId)
+      .eq('status', 'held')
+      .not('auction_id', 'is', null)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      logger.error('Error loading auction awards', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async getNotifications(profileId: string): Promise<AuctionNotification[]> {
+    const { data, error } = await supabase
+      .from('auction_notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      logger.error('Error loading auction notifications', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async markNotificationsRead(profileId: string, notificationId?: string): Promise<void> {
+    let query = supabase
+      .from('auction_notifications')
+      .update({ is_read: true })
+      .eq('profile_id', profileId)
+      .eq('is_read', false);
+    if (notificationId) {
+      query = query.eq('id', notificationId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      logger.error('Error marking auction notifications read', error);
+      throw error;
+    }
+  }
+
+  public hasEnded(auction: Pick<AuctionOverview, 'ends_at'>): boolean {
+    return auction.ends_at !== null && new Date(auction.ends_at).getTime() <= Date.now();
+  }
+
+  // Lowest bid the auction accepts next; sealed tenders only require the starting price
+  public minimumBid(auction: AuctionOverview): number {
+    const starting = Number(auction.starting_price) || 0;
+    if (auction.mode !== 'english' || auction.highest_bid === null) {
+      return starting;
+    }
+    return Number(auction.highest_bid) + (Number(auction.min_increment) || 1);
+  }
+
+  // Returns whether any auction was settled
+  private async settleEnded(auctions: AuctionOverview[]): Promise<boolean> {
+    const ended = auctions.filter(auction => auction.status === 'open' && auction.id && this.hasEnded(auction));
+    for (const auction of ended) {
+      try {
+        await this.settle(auction.id!);
+      } catch (error) {
+        logger.warn('Could not settle ended auction', { auctionId: auction.id, error });
+      }
+    }
+    return ended.length > 0;
+  }
+}
+
+// Export singleton instance
+export const auctionService = AuctionService.getInstance();
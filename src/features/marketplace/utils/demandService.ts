@@ -0,0 +1,326 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export type DemandStatus = 'open' | 'filled' | 'closed' | 'expired';
+export type QuoteStatus = 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'lapsed';
+export type QuoteAction = 'accept' | 'reject' | 'withdraw';
+export type DemandRequest = Tables<'demand_request_overview'>;
+export type DemandQuote = Tables<'demand_quote_overview'>;
+export type DemandNotification = Tables<'demand_notifications'>;
+export type QuotableBatch = Pick<Tables<'batches'>, 'id' | 'crop_type' | 'variety' | 'grading' | 'harvest_date' | 'harvest_quantity'>;
+
+export interface PostDemandParams {
+  cropType: string;
+  variety?: string;
+  grading?: string;
+  quantity: number;
+  maxPricePerKg: number;
+  deliveryLocation: string;
+  // ISO date (YYYY-MM-DD)
+  neededBy: string;
+  notes?: string;
+}
+
+export interface PostDemandResult {
+  requestId: string;
+  notifiedFarmers: number;
+}
+
+export interface SubmitQuoteParams {
+  requestId: string;
+  pricePerKg: number;
+  quantity: number;
+  // A listed batch, or omitted for an upcoming harvest ready from availableFrom
+  batchId?: string;
+  availableFrom?: string;
+  message?: string;
+}
+
+export interface QuoteResponse {
+  quoteId: string;
+  status: QuoteStatus;
+  reservationId?: string | null;
+  checkoutDueAt?: string | null;
+  contractId?: string | null;
+}
+
+export type DemandErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'NOT_AVAILABLE'
+  | 'INSUFFICIENT_QUANTITY'
+  | 'REQUEST_CLOSED'
+  | 'QUOTE_EXISTS'
+  | 'QUOTE_CLOSED'
+  | 'UNKNOWN';
+
+const DEMAND_ERROR_CODES: DemandErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'NOT_AVAILABLE',
+  'INSUFFICIENT_QUANTITY',
+  'REQUEST_CLOSED',
+  'QUOTE_EXISTS',
+  'QUOTE_CLOSED'
+];
+
+/**
+ * Demand request or quote step refused by the database; nothing was changed
+ */
+export class DemandError extends Error {
+  constructor(public readonly code: DemandErrorCode, message: string) {
+    super(message);
+    this.name = 'DemandError';
+  }
+}
+
+const toDemandError = (message: string): DemandError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && DEMAND_ERROR_CODES.find(c => c === match[1]);
+  return code ? new DemandError(code, match[2]) : new DemandError('UNKNOWN', message);
+};
+
+/**
+ * Demand Service
+ * The reverse marketplace: buyers post what they need and farmers with fitting harvests are notified
+ * and quote. Accepting a quote on a listed batch holds it at the quoted price for the normal purchase
+ * flow; accepting a quote on an upcoming harvest opens a forward contract for it.
+ */
+export class DemandService {
+  private static instance: DemandService;
+
+  private constructor() {}
+
+  public static getInstance(): DemandService {
+    if (!DemandService.instance) {
+      DemandService.instance = new DemandService();
+    }
+    return DemandService.instance;
+  }
+
+  public async postRequest(params: PostDemandParams): Promise<PostDemandResult> {
+    const { data, error } = await supabase.rpc('post_demand_request', {
+      p_crop_type: sanitizeString(params.cropType, 100),
+      p_variety: params.variety ? sanitizeString(params.variety, 100) : null,
+      p_grading: params.grading ? sanitizeString(params.grading, 100) : null,
+      p_quantity: params.quantity,
+      p_max_price_per_kg: params.maxPricePerKg,
+      p_delivery_location: sanitizeString(params.deliveryLocation, 200),
+      p_needed_by: params.neededBy,
+      p_notes: params.notes ? sanitizeString(params.notes, 500) : null
+    });
+
+    if (error) {
+      logger.warn('post_demand_request failed', error);
+      throw toDemandError(error.message);
+    }
+    return data as unknown as PostDemandResult;
+  }
+
+  public async closeRequest(requestId: string): Promise<void> {
+    const { error } = await supabase.rpc('close_demand_request', { p_request_id: requestId });
+
+    if (error) {
+      logger.warn('close_demand_request failed', error);
+      throw toDemandError(error.message);
+    }
+  }
+
+  /**
+   * The buyer's own requests, newest first. Lapsed requests are expired first.
+   */
+  public async getMyRequests(buyerId: string): Promise<DemandRequest[]> {
+    await this.expireLapsed();
+
+    const { data, error } = await supabase
+      .from('demand_request_overview')
+      .select('*')
+      .eq('buyer_id', buyerId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      logger.error('Error loading demand requests', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Requests still taking quotes, soonest needed first
+   */
+  public async getOpenRequests(): Promise<DemandRequest[]> {
+    await this.expireLapsed();
+
+    const { data, error } = await supabase
+      .from('demand_request_overview')
+      .select('*')
+      .eq('status', 'open')
+      .gte('needed_by', new Date().toISOString().slice(0, 10))
+      .order('needed_by', { ascending: true })
+      .limit(100);
+
+    if (error) {
+      logger.error('Error loading open demand requests', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Quotes the caller made or received, most recently changed first
+   */
+  public async getQuotes(profileId: string): Promise<DemandQuote[]> {
+    const { data, error } = await supabase
+      .from('demand_quote_overview')
+      .select('*')
+      .or(`buyer_id.eq.${profileId},farmer_id.eq.${profileId}`)
+      .order('updated_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      logger.error('Error loading demand quotes', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * The farmer's unsold batches of a crop that a quote could be made from
+   */
+  public async getQuotableBatches(farmerId: string, cropType: string): Promise<QuotableBatch[]> {
+    const { data, error } = await supabase
+      .from('batches')
+      .select('id, crop_type, variety, grading, harvest_date, harvest_quantity')
+      .eq('farmer_id', farmerId)
+      .eq('current_owner', farmerId)
+      .eq('status', 'available')
+      .ilike('crop_type', cropType)
+      .order('harvest_date', { ascending: false });
+
+    if (error) {
+      logger.error('Error loading batches to quote from', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Quote on a request. Returns the quote ID.
+   */
+  public async submitQuote(params: SubmitQuoteParams): Promise<string> {
+    if (params.batchId && !isValidUUID(params.batchId)) {
+      throw new DemandError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+
+    const { data, error } = await supabase.rpc('submit_demand_quote', {
+      p_request_id: params.requestId,
+      p_price_per_kg: params.pricePerKg,
+      p_quantity: params.quantity,
+      p_batch_id: params.batchId ?? null,
+      p_available_from: params.batchId ? null : params.availableFrom ?? null,
+      p_message: params.message ? sanitizeString(params.message, 500) : null
+    });
+
+    if (error) {
+      logger.warn('submit_demand_quote failed', error);
+      throw toDemandError(error.message);
+    }
+    return data;
+  }
+
+  /**
+   * Accept a quote: a checkout hold for a listed batch, or a forward contract for an upcoming harvest
+   */
+  public async accept(quoteId: string): Promise<QuoteResponse> {
+    return this.respond(quoteId, 'accept');
+  }
+
+  public async reject(quoteId: string): Promise<QuoteResponse> {
+    return this.respond(quoteId, 'reject');
+  }
+
+  public async withdraw(quoteId: string): Promise<QuoteResponse> {
+    return this.respond(quoteId, 'withdraw');
+  }
+
+  /**
+   * Tell the farmer about open requests a newly registered batch fits. Returns how many.
+   */
+  public async notifyMatches(batchId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('notify_demand_matches', { p_batch_id: batchId });
+
+    if (error) {
+      logger.warn('notify_demand_matches failed', error);
+      throw toDemandError(error.message);
+    }
+    return data;
+  }
+
+  public async getNotifications(profileId: string): Promise<DemandNotification[]> {
+    const { data, error } = await supabase
+      .from('demand_notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      logger.error('Error loading demand notifications', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async markNotificationsRead(profileId: string, notificationId?: string): Promise<void> {
+    let query = supabase
+      .from('demand_notifications')
+      .update({ is_read: true })
+      .eq('profile_id', profileId)
+      .eq('is_read', false);
+    if (notificationId) {
+      query = query.eq('id', notificationId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      logger.error('Error marking demand notifications read', error);
+      throw error;
+    }
+  }
+
+  // Accepted listed-batch quotes the buyer can still pay for at the quoted price
+  public canCheckout(quote: DemandQuote): boolean {
+    return quote.status === 'accepted'
+      && quote.hold_status === 'held'
+      && quote.hold_expires_at !== null
+      && new Date(quote.hold_expires_at).getTime() > Date.now();
+  }
+
+  private async expireLapsed(): Promise<void> {
+    const { error } = await supabase.rpc('expire_demand_requests');
+    if (error) {
+      logger.warn('Could not expire lapsed demand requests', error);
+    }
+  }
+
+  private async respond(quoteId: string, action: QuoteAction): Promise<QuoteResponse> {
+    const { data, error } = await supabase.rpc('respond_to_demand_quote', {
+      p_quote_id: quoteId,
+      p_action: action
+    });
+
+    if (error) {
+      logger.warn('respond_to_demand_quote failed', { action, error });
+      throw toDemandError(error.message);
+    }
+    return data as unknown as QuoteResponse;
+  }
+}
+
+// Export singleton instance
+export const demandService = DemandService.getInstance();
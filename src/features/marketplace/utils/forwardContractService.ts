@@ -0,0 +1,246 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export type ContractStatus = 'proposed' | 'active' | 'fulfilled' | 'shortfall' | 'rejected' | 'cancelled' | 'expired';
+export type ContractParty = 'buyer' | 'farmer';
+export type ContractAction = 'accept' | 'reject' | 'cancel';
+export type ForwardContract = Tables<'forward_contract_overview'>;
+export type ContractAllocation = Tables<'contract_allocation_overview'>;
+
+export interface ProposeContractParams {
+  counterpartyId: string;
+  cropType: string;
+  variety?: string;
+  grading?: string;
+  minQuantity: number;
+  maxQuantity: number;
+  pricePerKg: number;
+  // ISO dates (YYYY-MM-DD) bounding the harvest dates that count towards the contract
+  deliveryStart: string;
+  deliveryEnd: string;
+  shortfallPenaltyPerKg?: number;
+  notes?: string;
+}
+
+export interface BatchAllocation {
+  contractId: string;
+  buyerId: string;
+  quantity: number;
+  pricePerKg: number;
+  reservationId: string;
+}
+
+export interface BatchAllocationResult {
+  batchId: string;
+  allocations: BatchAllocation[];
+}
+
+export interface ContractCounterparty {
+  id: string;
+  full_name: string | null;
+  user_type: string | null;
+}
+
+export type ContractErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'CONTRACT_CLOSED'
+  | 'UNKNOWN';
+
+const CONTRACT_ERROR_CODES: ContractErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'CONTRACT_CLOSED'
+];
+
+/**
+ * Contract step refused by the database; the contract is unchanged
+ */
+export class ContractError extends Error {
+  constructor(public readonly code: ContractErrorCode, message: string) {
+    super(message);
+    this.name = 'ContractError';
+  }
+}
+
+const toContractError = (message: string): ContractError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && CONTRACT_ERROR_CODES.find(c => c === match[1]);
+  return code ? new ContractError(code, match[2]) : new ContractError('UNKNOWN', message);
+};
+
+/**
+ * Forward Contract Service
+ * Pre-harvest agreements between a buyer and a farmer on crop, grade, a quantity range and price.
+ * Harvests registered inside the delivery window are allocated to matching contracts as holds at the
+ * contract price, which the buyer pays through the normal purchase flow; only bought holds count
+ * towards the contract, and lapsed holds free their quantity again. Contracts are settled once the
+ * window ends, with the agreed penalty on any shortfall below the minimum.
+ */
+export class ForwardContractService {
+  private static instance: ForwardContractService;
+
+  private constructor() {}
+
+  public static getInstance(): ForwardContractService {
+    if (!ForwardContractService.instance) {
+      ForwardContractService.instance = new ForwardContractService();
+    }
+    return ForwardContractService.instance;
+  }
+
+  /**
+   * Propose a contract to a farmer (as buyer) or to a buyer (as farmer). Returns the contract ID.
+   */
+  public async propose(params: ProposeContractParams): Promise<string> {
+    if (!isValidUUID(params.counterpartyId)) {
+      throw new ContractError('INVALID_REQUEST', 'Choose who the contract is with');
+    }
+
+    const { data, error } = await supabase.rpc('propose_forward_contract', {
+      p_counterparty_id: params.counterpartyId,
+      p_crop_type: sanitizeString(params.cropType, 100),
+      p_variety: params.variety ? sanitizeString(params.variety, 100) : null,
+      p_grading: params.grading ? sanitizeString(params.grading, 100) : null,
+      p_min_quantity: params.minQuantity,
+      p_max_quantity: params.maxQuantity,
+      p_price_per_kg: params.pricePerKg,
+      p_delivery_start: params.deliveryStart,
+      p_delivery_end: params.deliveryEnd,
+      p_shortfall_penalty_per_kg: params.shortfallPenaltyPerKg ?? 0,
+      p_notes: params.notes ? sanitizeString(params.notes, 500) : null
+    });
+
+    if (error) {
+      logger.warn('propose_forward_contract failed', error);
+      throw toContractError(error.message);
+    }
+    return data;
+  }
+
+  public async accept(contractId: string): Promise<ContractStatus> {
+    return this.respond(contractId, 'accept');
+  }
+
+  public async reject(contractId: string): Promise<ContractStatus> {
+    return this.respond(contractId, 'reject');
+  }
+
+  public async cancel(contractId: string): Promise<ContractStatus> {
+    return this.respond(contractId, 'cancel');
+  }
+
+  /**
+   * The caller's contracts as buyer or farmer, most recently changed first.
+   * Contracts whose delivery window has ended are settled first so status and penalties are current.
+   */
+  public async getContracts(profileId: string): Promise<ForwardContract[]> {
+    const { error: settleError } = await supabase.rpc('settle_forward_contracts');
+    if (settleError) {
+      logger.warn('Could not settle ended contracts', settleError);
+    }
+
+    const { data, error } = await supabase
+      .from('forward_contract_overview')
+      .select('*')
+      .or(`buyer_id.eq.${profileId},farmer_id.eq.${profileId}`)
+      .order('updated_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      logger.error('Error loading forward contracts', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Harvests allocated to the given contracts, oldest first
+   */
+  public async getAllocations(contractIds: string[]): Promise<ContractAllocation[]> {
+    if (contractIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('contract_allocation_overview')
+      .select('*')
+      .in('contract_id', contractIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error loading contract allocations', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Allocate a harvest the farmer has just listed to their matching active contracts
+   */
+  public async allocateBatch(batchId: string): Promise<BatchAllocationResult> {
+    if (!isValidUUID(batchId)) {
+      throw new ContractError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+
+    const { data, error } = await supabase.rpc('allocate_batch_to_contracts', { p_batch_id: batchId });
+
+    if (error) {
+      logger.warn('allocate_batch_to_contracts failed', error);
+      throw toContractError(error.message);
+    }
+    return data as unknown as BatchAllocationResult;
+  }
+
+  /**
+   * Profiles a contract can be proposed to: buyers for a farmer, farmers for anyone else
+   */
+  public async getCounterparties(userType: string | null | undefined): Promise<ContractCounterparty[]> {
+    let query = supabase.from('profiles').select('id, full_name, user_type');
+    query = userType === 'farmer' ? query.neq('user_type', 'farmer') : query.eq('user_type', 'farmer');
+
+    const { data, error } = await query.order('full_name').limit(200);
+
+    if (error) {
+      logger.error('Error loading contract counterparties', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public partyOf(contract: ForwardContract, profileId: string): ContractParty | null {
+    if (contract.buyer_id === profileId) return 'buyer';
+    if (contract.farmer_id === profileId) return 'farmer';
+    return null;
+  }
+
+  // Kilograms still to be bought to reach the contract minimum
+  public shortfallOf(contract: ForwardContract): number {
+    return Math.max(0, (contract.min_quantity || 0) - (contract.delivered_quantity || 0));
+  }
+
+  // Allocations the buyer can still pay for at the contract price
+  public canCheckout(allocation: ContractAllocation): boolean {
+    return allocation.hold_status === 'held'
+      && allocation.hold_expires_at !== null
+      && new Date(allocation.hold_expires_at).getTime() > Date.now();
+  }
+
+  private async respond(contractId: string, action: ContractAction): Promise<ContractStatus> {
+    const { data, error } = await supabase.rpc('respond_to_forward_contract', {
+      p_contract_id: contractId,
+      p_action: action
+    });
+
+    if (error) {
+      logger.warn('respond_to_forward_contract failed', { action, error });
+      throw toContractError(error.message);
+    }
+    return (data as unknown as { status: ContractStatus }).status;
+  }
+}
+
+// Export singleton instance
+export const forwardContractService = ForwardContractService.getInstance();
@@ -0,0 +1,126 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/lib/logger';
+import { safeJsonParse, sanitizeString } from '@/lib/security';
+import { PricePoint } from '@/features/marketplace/utils/priceForecast';
+
+export interface MandiMarket {
+  commodity: string;
+  state: string;
+  district: string;
+}
+
+export interface MandiPriceHistory {
+  points: PricePoint[];
+  // The market where the latest price was taken, when the mandi named one
+  market: string | null;
+  // Served from this device's copy because the database could not be reached
+  fromCache: boolean;
+  savedAt: string | null;
+}
+
+interface CachedHistory {
+  points: PricePoint[];
+  market: string | null;
+  savedAt: string;
+}
+
+// Three years covers the 365-day chart and gives seasonality more than one year to average over
+const HISTORY_DAYS = 3 * 365;
+
+const cacheKey = (market: MandiMarket) =>
+  `mandi_history_${[market.commodity, market.state, market.district].map(part => part.trim().toLowerCase()).join('_')}`;
+
+// ilike without wildcards: an exact, case-insensitive match
+const exactly = (value: string) => sanitizeString(value, 100).trim().replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Mandi Price History Service
+ * Daily min/modal/max prices per commodity and district, ingested by the scheduled price-watch job.
+ * The last history loaded for each market is kept on the device so charts still work offline.
+ */
+export class MandiPriceHistoryService {
+  private static instance: MandiPriceHistoryService;
+
+  private constructor() {}
+
+  public static getInstance(): MandiPriceHistoryService {
+    if (!MandiPriceHistoryService.instance) {
+      MandiPriceHistoryService.instance = new MandiPriceHistoryService();
+    }
+    return MandiPriceHistoryService.instance;
+  }
+
+  /**
+   * Have the scheduled job ingest this market daily. Best effort: looking up a price never fails on it.
+   */
+  public async trackMarket(market: MandiMarket): Promise<void> {
+    const { error } = await supabase.rpc('track_mandi_market', {
+      p_commodity: sanitizeString(market.commodity, 100),
+      p_state: sanitizeString(market.state, 100),
+      p_district: sanitizeString(market.district, 100)
+    });
+
+    if (error) {
+      logger.warn('track_mandi_market failed', error);
+    }
+  }
+
+  /**
+   * Stored daily prices for a market, oldest first. Falls back to this device's last copy when the
+   * database cannot be reached; an empty history means none has been ingested yet.
+   */
+  public async getHistory(market: MandiMarket): Promise<MandiPriceHistory> {
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    try {
+      const { data, error } = await supabase
+        .from('mandi_price_snapshots')
+        .select('price_date, min_price, modal_price, max_price, market')
+        .ilike('commodity', exactly(market.commodity))
+        .ilike('state', exactly(market.state))
+        .ilike('district', exactly(market.district))
+        .gte('price_date', since)
+        .order('price_date', { ascending: true });
+
+      if (error) throw error;
+
+      const rows = data || [];
+      const history: CachedHistory = {
+        points: rows.map(row => ({
+          date: row.price_date,
+          min: row.min_price,
+          modal: row.modal_price,
+          max: row.max_price
+        })),
+        market: rows.length > 0 ? rows[rows.length - 1].market : null,
+        savedAt: new Date().toISOString()
+      };
+      this.saveCache(market, history);
+      return { ...history, fromCache: false };
+    } catch (error) {
+      const cached = this.loadCache(market);
+      if (!cached) {
+        logger.error('Error loading mandi price history', error);
+        throw error;
+      }
+      logger.warn('Using cached mandi price history', error);
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  private saveCache(market: MandiMarket, history: CachedHistory): void {
+    try {
+      localStorage.setItem(cacheKey(market), JSON.stringify(history));
+    } catch (error) {
+      // Storage full or unavailable; the next load simply needs the network
+      logger.warn('Could not cache mandi price history', error);
+    }
+  }
+
+  private loadCache(market: MandiMarket): CachedHistory | null {
+    return safeJsonParse<CachedHistory | null>(localStorage.getItem(cacheKey(market)) || 'null', null);
+  }
+}
+
+// Export singleton instance
+export const mandiPriceHistoryService = MandiPriceHistoryService.getInstance();
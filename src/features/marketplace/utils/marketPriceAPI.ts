@@ -1,5 +1,7 @@
-/**
 import { logger } from '@/lib/logger';
+import { mandiPriceHistoryService, MandiMarket } from '@/features/marketplace/utils/mandiPriceHistoryService';
+
+/**
  * Mandi Price API integration for current agricultural commodity prices
  * API: https://agriinfoextractor.onrender.com/api/mandi/price
  */
@@ -134,134 +136,65 @@ export async function fetchMarketPrices(options: {
   }
 }
 
+export interface PriceSuggestions {
+  minPrice: number;
+  maxPrice: number;
+  averagePrice: number;
+  suggestions: MarketPriceData[];
+  // Today's price from the mandi API, or the latest stored price when the API has none
+  source: 'live' | 'history';
+}
+
 /**
- * Fallback market data for common crops when API is unavailable
+ * Latest stored price for the market, from the history the price-watch job ingests
  */
-const FALLBACK_MARKET_DATA: Record<string, MarketPriceData[]> = {
-  'Rice': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Rice',
-      variety: 'Basmati',
-      grade: 'A',
-      min_price: 2500,
-      max_price: 3200,
-      modal_price: 2850,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-    {
-      state: 'Odisha',
-      district: 'Cuttack',
-      market: 'Cuttack',
-      commodity: 'Rice',
-      variety: 'Basmati',
-      grade: 'A',
-      min_price: 2400,
-      max_price: 3100,
-      modal_price: 2750,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-    {
-      state: 'Odisha',
-      district: 'Puri',
-      market: 'Puri',
-      commodity: 'Rice',
-      variety: 'Sona Masuri',
-      grade: 'A',
-      min_price: 2200,
-      max_price: 2800,
-      modal_price: 2500,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-  'Wheat': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Wheat',
-      variety: 'Durum',
-      grade: 'A',
-      min_price: 2000,
-      max_price: 2500,
-      modal_price: 2250,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-  'Maize': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Maize',
-      variety: 'Hybrid',
-      grade: 'A',
-      min_price: 1800,
-      max_price: 2200,
-      modal_price: 2000,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-  'Tomato': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Tomato',
-      variety: 'Hybrid',
-      grade: 'A',
-      min_price: 1500,
-      max_price: 2500,
-      modal_price: 2000,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-  'Onion': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Onion',
-      variety: 'Red',
-      grade: 'A',
-      min_price: 1200,
-      max_price: 1800,
-      modal_price: 1500,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-  'Potato': [
-    {
-      state: 'Odisha',
-      district: 'Khordha',
-      market: 'Bhubaneswar',
-      commodity: 'Potato',
-      variety: 'Kufri',
-      grade: 'A',
-      min_price: 800,
-      max_price: 1200,
-      modal_price: 1000,
-      price_date: new Date().toISOString().split('T')[0],
-    },
-  ],
-};
+async function getStoredSuggestions(market: MandiMarket | null): Promise<PriceSuggestions> {
+  const empty: PriceSuggestions = { minPrice: 0, maxPrice: 0, averagePrice: 0, suggestions: [], source: 'history' };
+  if (!market) return empty;
+
+  try {
+    const history = await mandiPriceHistoryService.getHistory(market);
+    const latest = history.points[history.points.length - 1];
+    if (!latest) return empty;
+
+    return {
+      minPrice: Math.round(latest.min ?? latest.modal),
+      maxPrice: Math.round(latest.max ?? latest.modal),
+      averagePrice: Math.round(latest.modal),
+      suggestions: [{
+        state: market.state,
+        district: market.district,
+        market: history.market || market.district,
+        commodity: market.commodity,
+        min_price: latest.min ?? latest.modal,
+        max_price: latest.max ?? latest.modal,
+        modal_price: latest.modal,
+        price_date: latest.date,
+      }],
+      source: 'history',
+    };
+  } catch (error) {
+    logger.error('❌ Error loading stored mandi prices:', error);
+    return empty;
+  }
+}
 
 /**
- * Get price suggestions for a specific crop and variety
+ * Get price suggestions for a specific crop and variety. Uses today's mandi price when the API has
+ * one, otherwise the latest stored price for the market.
  */
 export async function getPriceSuggestions(
   cropType: string,
   variety?: string,
   state?: string,
   district?: string
-): Promise<{
-  minPrice: number;
-  maxPrice: number;
-  averagePrice: number;
-  suggestions: MarketPriceData[];
-}> {
+): Promise<PriceSuggestions> {
+  const market = state && district ? { commodity: cropType, state, district } : null;
+  if (market) {
+    // Looking a market up is what gets it into the daily ingestion
+    void mandiPriceHistoryService.trackMarket(market);
+  }
+
   try {
     const response = await fetchMarketPrices({
       commodity: cropType,
@@ -271,105 +204,25 @@ export async function getPriceSuggestions(
       limit: 20,
     });
 
-    // If API returns no data, use fallback data
-    if (response.records.length === 0) {
-      logger.debug('🔄 Using fallback market data for:', cropType);
-      const fallbackData = FALLBACK_MARKET_DATA[cropType] || [];
-      
-      if (fallbackData.length === 0) {
-        return {
-          minPrice: 0,
-          maxPrice: 0,
-          averagePrice: 0,
-          suggestions: [],
-        };
-      }
-
-      // Filter by variety if specified
-      const filteredData = variety 
-        ? fallbackData.filter(item => item.variety.toLowerCase().includes(variety.toLowerCase()))
-        : fallbackData;
-
-      if (filteredData.length === 0) {
-        return {
-          minPrice: 0,
-          maxPrice: 0,
-          averagePrice: 0,
-          suggestions: fallbackData,
-        };
-      }
-
-      const prices = filteredData.map(record => record.modal_price);
-      const minPrice = Math.min(...prices);
-      const maxPrice = Math.max(...prices);
-      const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
+    if (response.records.length > 0) {
+      // The API returns a single record with its own min, max and modal prices; modal is the most
+      // common price, so it stands in for the average
+      const record = response.records[0];
+      logger.debug('📊 Using API prices directly:', record);
 
       return {
-        minPrice: Math.round(minPrice),
-        maxPrice: Math.round(maxPrice),
-        averagePrice: Math.round(averagePrice),
-        suggestions: filteredData,
-      };
-    }
-
-    // Use the actual min_price, max_price, and modal_price from API response
-    // The API already provides these values, so use them directly
-    if (response.records.length === 0) {
-      return {
-        minPrice: 0,
-        maxPrice: 0,
-        averagePrice: 0,
+        minPrice: Math.round(record.min_price || 0),
+        maxPrice: Math.round(record.max_price || 0),
+        averagePrice: Math.round(record.modal_price || 0),
         suggestions: response.records,
+        source: 'live',
       };
     }
-
-    // Get the first record (API returns single record)
-    const record = response.records[0];
-    
-    // Use the actual min_price, max_price from the API response
-    const minPrice = record.min_price || 0;
-    const maxPrice = record.max_price || 0;
-    const modalPrice = record.modal_price || 0;
-    
-    // Use modal_price as averagePrice (since API doesn't provide average, modal is the most common price)
-    const averagePrice = modalPrice;
-
-    logger.debug('📊 Using API prices directly:', { minPrice, maxPrice, modalPrice, averagePrice });
-
-    return {
-      minPrice: Math.round(minPrice),
-      maxPrice: Math.round(maxPrice),
-      averagePrice: Math.round(averagePrice),
-      suggestions: response.records,
-    };
   } catch (error) {
-    logger.error('❌ Error getting price suggestions:', error);
-    
-    // Use fallback data on error
-    logger.debug('🔄 Using fallback market data due to error for:', cropType);
-    const fallbackData = FALLBACK_MARKET_DATA[cropType] || [];
-    
-    if (fallbackData.length === 0) {
-      return {
-        minPrice: 0,
-        maxPrice: 0,
-        averagePrice: 0,
-        suggestions: [],
-      };
-    }
-
-    const prices = fallbackData.map(record => record.modal_price);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const averagePrice = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-
-    return {
-      minPrice: Math.round(minPrice),
-      maxPrice: Math.round(maxPrice),
-      averagePrice: Math.round(averagePrice),
-      suggestions: fallbackData,
-    };
+    logger.warn('🔄 Live mandi price unavailable, using stored history:', error);
   }
+
+  return getStoredSuggestions(market);
 }
 
 /**
@@ -0,0 +1,294 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { sanitizeString } from '@/lib/security';
+
+export type MarketplaceSort = 'newest' | 'price_asc' | 'price_desc' | 'freshness';
+export type MarketplaceListing = Omit<Tables<'marketplace_listings'>, 'search_vector'>;
+
+export const MARKETPLACE_SORTS: { value: MarketplaceSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'freshness', label: 'Freshest first' }
+];
+
+export interface MarketplaceFilters {
+  query: string;
+  grades: string[];
+  certifications: string[];
+  districts: string[];
+  sellerTypes: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minFreshnessDays?: number;
+  sort: MarketplaceSort;
+}
+
+/**
+ * What a page is allowed to show regardless of the user's filters
+ */
+export interface SearchScope {
+  // Only this farmer's harvests
+  farmerId?: string;
+  // Only these seller types; the user's seller type filter narrows within them
+  sellerTypes?: string[];
+  // Hide the viewer's own listings
+  excludeSellerId?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface MarketplaceFacets {
+  grades: FacetCount[];
+  certifications: FacetCount[];
+  districts: FacetCount[];
+  sellerTypes: FacetCount[];
+  price: { min: number | null; max: number | null };
+  freshness: { minDays: number; count: number }[];
+}
+
+export interface MarketplacePage {
+  items: MarketplaceListing[];
+  nextCursor: string | null;
+  // Totals and facets come with the first page only
+  total: number | null;
+  farmers: number | null;
+  averagePrice: number | null;
+  totalQuantity: number | null;
+  facets: MarketplaceFacets | null;
+}
+
+/**
+ * A listing in the nested shape the batch details and purchase modals read. A type alias rather than
+ * an interface so it fits the purchase modal's Record<string, unknown> batch prop.
+ */
+export type MarketplaceItem = {
+  id: number;
+  batch_id: string;
+  current_seller_id: string;
+  current_seller_type: string;
+  price?: number;
+  quantity: number;
+  status: string;
+  created_at: string;
+  crop_type?: string;
+  variety?: string;
+  grading?: string;
+  certification?: string;
+  harvest_date?: string;
+  freshness_remaining?: number;
+  group_id?: string;
+  farmer_id?: string;
+  current_owner?: string;
+  price_per_kg?: number;
+  harvest_quantity?: number;
+  full_name?: string;
+  farm_location?: string;
+  district?: string;
+  wallet_address?: string;
+  profiles: {
+    id?: string;
+    full_name?: string;
+    user_type?: string;
+    farm_location?: string;
+    wallet_address?: string;
+  };
+  batches: {
+    id: string;
+    crop_type?: string;
+    variety?: string;
+    grading?: string;
+    certification?: string;
+    harvest_date?: string;
+    group_id?: string;
+    farmer_id?: string;
+    current_owner?: string;
+    price_per_kg?: number;
+    harvest_quantity?: number;
+    status: string;
+  };
+};
+
+export const DEFAULT_FILTERS: MarketplaceFilters = {
+  query: '',
+  grades: [],
+  certifications: [],
+  districts: [],
+  sellerTypes: [],
+  sort: 'newest'
+};
+
+// URL parameter for each filter; list filters repeat the parameter once per value
+const PARAMS = {
+  query: 'q',
+  grades: 'grade',
+  certifications: 'cert',
+  districts: 'district',
+  sellerTypes: 'seller',
+  minPrice: 'min',
+  maxPrice: 'max',
+  minFreshnessDays: 'fresh',
+  sort: 'sort'
+} as const;
+
+const PAGE_SIZE = 24;
+
+const toNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const toList = (values: string[]): string[] =>
+  [...new Set(values.map(value => sanitizeString(value, 100)).filter(Boolean))];
+
+export const filtersFromParams = (params: URLSearchParams): MarketplaceFilters => {
+  const sort = params.get(PARAMS.sort);
+  return {
+    query: sanitizeString(params.get(PARAMS.query) || '', 100),
+    grades: toList(params.getAll(PARAMS.grades)),
+    certifications: toList(params.getAll(PARAMS.certifications)),
+    districts: toList(params.getAll(PARAMS.districts)),
+    sellerTypes: toList(params.getAll(PARAMS.sellerTypes)),
+    minPrice: toNumber(params.get(PARAMS.minPrice)),
+    maxPrice: toNumber(params.get(PARAMS.maxPrice)),
+    minFreshnessDays: toNumber(params.get(PARAMS.minFreshnessDays)),
+    sort: MARKETPLACE_SORTS.some(option => option.value === sort) ? sort as MarketplaceSort : DEFAULT_FILTERS.sort
+  };
+};
+
+/**
+ * Write filters into a copy of the current parameters, leaving parameters that are not filters alone
+ */
+export const filtersToParams = (filters: MarketplaceFilters, current: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(current);
+  Object.values(PARAMS).forEach(name => params.delete(name));
+
+  if (filters.query.trim()) params.set(PARAMS.query, filters.query.trim());
+  filters.grades.forEach(value => params.append(PARAMS.grades, value));
+  filters.certifications.forEach(value => params.append(PARAMS.certifications, value));
+  filters.districts.forEach(value => params.append(PARAMS.districts, value));
+  filters.sellerTypes.forEach(value => params.append(PARAMS.sellerTypes, value));
+  if (filters.minPrice !== undefined) params.set(PARAMS.minPrice, String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set(PARAMS.maxPrice, String(filters.maxPrice));
+  if (filters.minFreshnessDays !== undefined) params.set(PARAMS.minFreshnessDays, String(filters.minFreshnessDays));
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set(PARAMS.sort, filters.sort);
+  return params;
+};
+
+export const hasActiveFilters = (filters: MarketplaceFilters): boolean =>
+  Boolean(filters.query.trim())
+  || filters.grades.length > 0
+  || filters.certifications.length > 0
+  || filters.districts.length > 0
+  || filters.sellerTypes.length > 0
+  || filters.minPrice !== undefined
+  || filters.maxPrice !== undefined
+  || filters.minFreshnessDays !== undefined;
+
+export const toMarketplaceItem = (listing: MarketplaceListing): MarketplaceItem => {
+  const batch = {
+    id: listing.batch_id || '',
+    crop_type: listing.crop_type ?? undefined,
+    variety: listing.variety ?? undefined,
+    grading: listing.grading ?? undefined,
+    certification: listing.certification ?? undefined,
+    harvest_date: listing.harvest_date ?? undefined,
+    group_id: listing.group_id ?? undefined,
+    farmer_id: listing.farmer_id ?? undefined,
+    current_owner: listing.current_owner ?? undefined,
+    price_per_kg: listing.price_per_kg ?? undefined,
+    harvest_quantity: listing.harvest_quantity ?? undefined,
+    status: listing.status || 'available'
+  };
+
+  return {
+    ...batch,
+    id: listing.id || 0,
+    batch_id: batch.id,
+    current_seller_id: listing.current_seller_id || '',
+    current_seller_type: listing.current_seller_type || 'farmer',
+    price: listing.price ?? undefined,
+    quantity: listing.quantity || 0,
+    created_at: listing.created_at || new Date().toISOString(),
+    freshness_remaining: listing.freshness_remaining ?? undefined,
+    full_name: listing.seller_name ?? undefined,
+    farm_location: listing.farm_location ?? undefined,
+    district: listing.district ?? undefined,
+    wallet_address: listing.wallet_address ?? undefined,
+    profiles: {
+      id: listing.current_seller_id ?? undefined,
+      full_name: listing.seller_name ?? undefined,
+      user_type: listing.seller_user_type ?? undefined,
+      farm_location: listing.farm_location ?? undefined,
+      wallet_address: listing.wallet_address ?? undefined
+    },
+    batches: batch
+  };
+};
+
+/**
+ * Marketplace Search Service
+ * Searches available listings in the database: full-text over crop and variety, facet counts,
+ * and keyset cursor pagination for each sort order
+ */
+export class MarketplaceSearchService {
+  private static instance: MarketplaceSearchService;
+
+  private constructor() {}
+
+  public static getInstance(): MarketplaceSearchService {
+    if (!MarketplaceSearchService.instance) {
+      MarketplaceSearchService.instance = new MarketplaceSearchService();
+    }
+    return MarketplaceSearchService.instance;
+  }
+
+  /**
+   * One page of listings. Pass the previous page's nextCursor to continue; facets and totals are
+   * only returned without a cursor.
+   */
+  public async search(
+    filters: MarketplaceFilters,
+    scope: SearchScope = {},
+    cursor: string | null = null
+  ): Promise<MarketplacePage> {
+    const { data, error } = await supabase.rpc('search_marketplace', {
+      p_query: filters.query.trim() || null,
+      p_grades: filters.grades.length > 0 ? filters.grades : null,
+      p_certifications: filters.certifications.length > 0 ? filters.certifications : null,
+      p_districts: filters.districts.length > 0 ? filters.districts : null,
+      p_seller_types: this.sellerTypesWithin(filters.sellerTypes, scope.sellerTypes),
+      p_min_price: filters.minPrice ?? null,
+      p_max_price: filters.maxPrice ?? null,
+      p_min_freshness_days: filters.minFreshnessDays ?? null,
+      p_farmer_id: scope.farmerId ?? null,
+      p_exclude_seller_id: scope.excludeSellerId ?? null,
+      p_sort: filters.sort,
+      p_cursor: cursor,
+      p_limit: PAGE_SIZE
+    });
+
+    if (error) {
+      logger.error('search_marketplace failed', error);
+      throw error;
+    }
+    return data as unknown as MarketplacePage;
+  }
+
+  // The user's seller type filter narrowed to what the scope allows
+  private sellerTypesWithin(selected: string[], allowed?: string[]): string[] | null {
+    if (!allowed) {
+      return selected.length > 0 ? selected : null;
+    }
+    const within = selected.filter(type => allowed.includes(type));
+    return within.length > 0 ? within : allowed;
+  }
+}
+
+// Export singleton instance
+export const marketplaceSearchService = MarketplaceSearchService.getInstance();
@@ -0,0 +1,218 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export type OfferStatus = 'open' | 'accepted' | 'rejected' | 'withdrawn' | 'expired';
+export type OfferParty = 'buyer' | 'seller';
+export type OfferAction = 'accept' | 'reject' | 'counter' | 'withdraw';
+export type OfferOverview = Tables<'offer_overview'>;
+export type OfferEvent = Tables<'offer_events'>;
+
+export interface MakeOfferParams {
+  batchId: string;
+  pricePerKg: number;
+  quantity: number;
+  message?: string;
+  validHours?: number;
+}
+
+export interface OfferTerms {
+  pricePerKg: number;
+  quantity: number;
+  message?: string;
+  validHours?: number;
+}
+
+export interface OfferResponse {
+  offerId: string;
+  status: OfferStatus;
+  awaiting?: OfferParty;
+  pricePerKg?: number;
+  quantity?: number;
+  expiresAt?: string;
+  reservationId?: string | null;
+  checkoutDueAt?: string | null;
+}
+
+export type OfferErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'NOT_AVAILABLE'
+  | 'INSUFFICIENT_QUANTITY'
+  | 'OFFER_EXISTS'
+  | 'OFFER_CLOSED'
+  | 'OFFER_EXPIRED'
+  | 'NOT_YOUR_TURN'
+  | 'UNKNOWN';
+
+const OFFER_ERROR_CODES: OfferErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'NOT_AVAILABLE',
+  'INSUFFICIENT_QUANTITY',
+  'OFFER_EXISTS',
+  'OFFER_CLOSED',
+  'NOT_YOUR_TURN'
+];
+
+/**
+ * Negotiation step refused by the database; the offer is unchanged
+ */
+export class OfferError extends Error {
+  constructor(public readonly code: OfferErrorCode, message: string) {
+    super(message);
+    this.name = 'OfferError';
+  }
+}
+
+const toOfferError = (message: string): OfferError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && OFFER_ERROR_CODES.find(c => c === match[1]);
+  return code ? new OfferError(code, match[2]) : new OfferError('UNKNOWN', message);
+};
+
+/**
+ * Offer Service
+ * Price negotiation on marketplace listings. The buyer opens with a price and quantity and the
+ * parties take turns until one accepts or the offer closes. Turn-taking, expiry and the audit
+ * log are enforced by the database functions; acceptance leaves a hold at the agreed price that
+ * the buyer pays through the normal purchase flow.
+ */
+export class OfferService {
+  private static instance: OfferService;
+
+  private constructor() {}
+
+  public static getInstance(): OfferService {
+    if (!OfferService.instance) {
+      OfferService.instance = new OfferService();
+    }
+    return OfferService.instance;
+  }
+
+  /**
+   * Open a negotiation on the listing for a batch. Returns the offer ID.
+   */
+  public async makeOffer(params: MakeOfferParams): Promise<string> {
+    if (!isValidUUID(params.batchId)) {
+      throw new OfferError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+
+    const { data, error } = await supabase.rpc('make_offer', {
+      p_batch_id: params.batchId,
+      p_price_per_kg: params.pricePerKg,
+      p_quantity: params.quantity,
+      p_message: params.message ? sanitizeString(params.message, 500) : null,
+      p_valid_hours: params.validHours ?? 24
+    });
+
+    if (error) {
+      logger.warn('make_offer failed', error);
+      throw toOfferError(error.message);
+    }
+    return data;
+  }
+
+  /**
+   * Accept the terms on the table. For the seller this places the buyer's checkout hold.
+   */
+  public async accept(offerId: string, message?: string): Promise<OfferResponse> {
+    return this.respond(offerId, 'accept', undefined, message);
+  }
+
+  public async reject(offerId: string, message?: string): Promise<OfferResponse> {
+    return this.respond(offerId, 'reject', undefined, message);
+  }
+
+  public async counter(offerId: string, terms: OfferTerms): Promise<OfferResponse> {
+    return this.respond(offerId, 'counter', terms, terms.message);
+  }
+
+  public async withdraw(offerId: string, message?: string): Promise<OfferResponse> {
+    return this.respond(offerId, 'withdraw', undefined, message);
+  }
+
+  /**
+   * The caller's negotiations as buyer or seller, most recently active first.
+   * Lapsed offers are expired first so their status and audit trail are current.
+   */
+  public async getOffers(profileId: string): Promise<OfferOverview[]> {
+    const { error: expireError } = await supabase.rpc('expire_offers');
+    if (expireError) {
+      logger.warn('Could not expire lapsed offers', expireError);
+    }
+
+    const { data, error } = await supabase
+      .from('offer_overview')
+      .select('*')
+      .or(`buyer_id.eq.${profileId},seller_id.eq.${profileId}`)
+      .order('updated_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      logger.error('Error loading offers', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Every step of a negotiation, oldest first
+   */
+  public async getHistory(offerId: string): Promise<OfferEvent[]> {
+    const { data, error } = await supabase
+      .from('offer_events')
+      .select('*')
+      .eq('offer_id', offerId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error loading offer history', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public partyOf(offer: OfferOverview, profileId: string): OfferParty | null {
+    if (offer.buyer_id === profileId) return 'buyer';
+    if (offer.seller_id === profileId) return 'seller';
+    return null;
+  }
+
+  // Accepted offers the buyer can still pay for at the agreed price
+  public canCheckout(offer: OfferOverview): boolean {
+    return offer.status === 'accepted'
+      && offer.hold_status === 'held'
+      && offer.hold_expires_at !== null
+      && new Date(offer.hold_expires_at).getTime() > Date.now();
+  }
+
+  private async respond(offerId: string, action: OfferAction, terms?: OfferTerms, message?: string): Promise<OfferResponse> {
+    const { data, error } = await supabase.rpc('respond_to_offer', {
+      p_offer_id: offerId,
+      p_action: action,
+      p_price_per_kg: terms?.pricePerKg ?? null,
+      p_quantity: terms?.quantity ?? null,
+      p_message: message ? sanitizeString(message, 500) : null,
+      p_valid_hours: terms?.validHours ?? 24
+    });
+
+    if (error) {
+      logger.warn('respond_to_offer failed', { action, error });
+      throw toOfferError(error.message);
+    }
+
+    // The database records a lapsed offer as expired instead of raising, so the expiry is kept
+    const response = data as unknown as OfferResponse;
+    if (response.status === 'expired') {
+      throw new OfferError('OFFER_EXPIRED', 'This offer expired before you responded');
+    }
+    return response;
+  }
+}
+
+// Export singleton instance
+export const offerService = OfferService.getInstance();
@@ -0,0 +1,194 @@
+/**
+ * Trend, seasonality and forecast over a daily mandi price history. Pure functions over stored
+ * prices, so they work the same offline from cached history.
+ */
+
+export interface PricePoint {
+  // ISO date (YYYY-MM-DD)
+  date: string;
+  min: number | null;
+  modal: number;
+  max: number | null;
+}
+
+export interface WindowSummary {
+  days: number;
+  points: PricePoint[];
+  average: number | null;
+  low: number | null;
+  high: number | null;
+  // Modal price change from the first to the last day in the window, in percent
+  changePct: number | null;
+}
+
+export interface MonthIndex {
+  // 0 = January
+  month: number;
+  // Modal price in this month relative to its year's average; 1.1 is 10% above
+  index: number;
+  samples: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  modal: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface PriceForecast {
+  points: ForecastPoint[];
+  // Smoothing parameters picked by fit; exposed for display
+  alpha: number;
+  beta: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_FORECAST_DAYS = 14;
+const MIN_SEASONAL_DAYS = 60;
+const DAMPING = 0.95;
+const ALPHAS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETAS = [0.01, 0.05, 0.1, 0.2, 0.3];
+const Z80 = 1.2816;
+const Z95 = 1.96;
+
+const toDay = (date: string): number => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+const fromDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+/**
+ * One point per calendar day from the first to the last reading, carrying the last known price
+ * over days the mandi did not report
+ */
+export function fillDailySeries(points: PricePoint[]): PricePoint[] {
+  const sorted = [...points].sort((a, b) => toDay(a.date) - toDay(b.date));
+  if (sorted.length === 0) return [];
+
+  const byDay = new Map(sorted.map(point => [toDay(point.date), point]));
+  const filled: PricePoint[] = [];
+  let last = sorted[0];
+  for (let day = toDay(sorted[0].date); day <= toDay(sorted[sorted.length - 1].date); day += DAY_MS) {
+    last = byDay.get(day) ?? last;
+    filled.push({ ...last, date: fromDay(day) });
+  }
+  return filled;
+}
+
+/**
+ * Readings in the last `days` days up to the latest reading, with their range and change
+ */
+export function summarizeWindow(points: PricePoint[], days: number): WindowSummary {
+  const sorted = [...points].sort((a, b) => toDay(a.date) - toDay(b.date));
+  const end = sorted.length > 0 ? toDay(sorted[sorted.length - 1].date) : 0;
+  const inWindow = sorted.filter(point => toDay(point.date) > end - days * DAY_MS);
+  const modals = inWindow.map(point => point.modal);
+  const first = inWindow[0]?.modal;
+  const last = inWindow[inWindow.length - 1]?.modal;
+
+  return {
+    days,
+    points: inWindow,
+    average: modals.length > 0 ? round(mean(modals)!) : null,
+    low: modals.length > 0 ? Math.min(...inWindow.map(point => point.min ?? point.modal)) : null,
+    high: modals.length > 0 ? Math.max(...inWindow.map(point => point.max ?? point.modal)) : null,
+    changePct: first && last && inWindow.length > 1 ? round(((last - first) / first) * 100) : null
+  };
+}
+
+/**
+ * Average modal price by calendar month relative to the average of its year, so a rising trend
+ * across years does not read as seasonality. Null until there are two months of history.
+ */
+export function monthlySeasonality(points: PricePoint[]): MonthIndex[] | null {
+  if (points.length < MIN_SEASONAL_DAYS) return null;
+
+  const yearAverages = new Map<number, number>();
+  const byYear = new Map<number, number[]>();
+  points.forEach(point => {
+    const year = new Date(toDay(point.date)).getUTCFullYear();
+    byYear.set(year, [...(byYear.get(year) ?? []), point.modal]);
+  });
+  byYear.forEach((values, year) => yearAverages.set(year, mean(values)!));
+
+  const ratios = new Map<number, number[]>();
+  points.forEach(point => {
+    const date = new Date(toDay(point.date));
+    const ratio = point.modal / yearAverages.get(date.getUTCFullYear())!;
+    ratios.set(date.getUTCMonth(), [...(ratios.get(date.getUTCMonth()) ?? []), ratio]);
+  });
+  if (ratios.size < 2) return null;
+
+  return [...ratios.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([month, values]) => ({ month, index: round(mean(values)!), samples: values.length }));
+}
+
+interface HoltFit {
+  level: number;
+  trend: number;
+  sse: number;
+}
+
+// One-step-ahead damped Holt smoothing; the fit's squared errors pick the parameters
+function holt(series: number[], alpha: number, beta: number): HoltFit {
+  const warmup = Math.min(7, series.length - 1);
+  let level = series[0];
+  let trend = (series[warmup] - series[0]) / warmup;
+  let sse = 0;
+
+  for (let t = 1; t < series.length; t++) {
+    const predicted = level + DAMPING * trend;
+    const error = series[t] - predicted;
+    sse += error * error;
+    const nextLevel = alpha * series[t] + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * DAMPING * trend;
+    level = nextLevel;
+  }
+  return { level, trend, sse };
+}
+
+/**
+ * Short-horizon modal price forecast with 80% and 95% bands, from damped-trend exponential
+ * smoothing over the daily series. Null until there are two weeks of history.
+ */
+export function forecastPrices(points: PricePoint[], horizon = 14): PriceForecast | null {
+  const daily = fillDailySeries(points);
+  if (points.length < MIN_FORECAST_DAYS || daily.length < MIN_FORECAST_DAYS) return null;
+
+  const series = daily.map(point => point.modal);
+  let best = { alpha: ALPHAS[0], beta: BETAS[0], fit: holt(series, ALPHAS[0], BETAS[0]) };
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => {
+    const fit = holt(series, alpha, beta);
+    if (fit.sse < best.fit.sse) best = { alpha, beta, fit };
+  }));
+
+  const { alpha, beta, fit } = best;
+  const sigma = Math.sqrt(fit.sse / (series.length - 1));
+  const lastDay = toDay(daily[daily.length - 1].date);
+  const forecast: ForecastPoint[] = [];
+  let damping = 0;
+  let variance = 0;
+
+  for (let h = 1; h <= horizon; h++) {
+    damping += DAMPING ** h;
+    // Forecast error variance grows with each step the level and trend are carried forward
+    variance += h === 1 ? 1 : (alpha * (1 + (h - 1) * beta)) ** 2;
+    const modal = fit.level + damping * fit.trend;
+    const spread = sigma * Math.sqrt(variance);
+    forecast.push({
+      date: fromDay(lastDay + h * DAY_MS),
+      modal: round(Math.max(modal, 0)),
+      lower80: round(Math.max(modal - Z80 * spread, 0)),
+      upper80: round(modal + Z80 * spread),
+      lower95: round(Math.max(modal - Z95 * spread, 0)),
+      upper95: round(modal + Z95 * spread)
+    });
+  }
+
+  return { points: forecast, alpha, beta };
+}
@@ -0,0 +1,188 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { sanitizeString } from '@/lib/security';
+
+export type PriceWatchType = 'mandi_price' | 'listing';
+export type PriceWatch = Tables<'price_watches'>;
+export type PriceAlertNotification = Tables<'price_alert_notifications'>;
+
+/**
+ * Alert on a commodity's mandi modal price in a district. Prices are ₹/quintal, as the mandi quotes them.
+ */
+export interface MandiWatchParams {
+  commodity: string;
+  state: string;
+  district: string;
+  abovePrice?: number;
+  belowPrice?: number;
+  // Alert when the price moves this many percent either way within a week
+  weeklyChangePct?: number;
+}
+
+/**
+ * Alert on new marketplace listings at or under a target price per kg
+ */
+export interface ListingWatchParams {
+  commodity: string;
+  variety?: string;
+  district?: string;
+  targetPricePerKg: number;
+}
+
+const optionalText = (value: string | undefined, maxLength: number): string | null => {
+  const text = value ? sanitizeString(value, maxLength).trim() : '';
+  return text || null;
+};
+
+const positive = (value: number | undefined): number | null =>
+  value !== undefined && Number.isFinite(value) && value > 0 ? value : null;
+
+/**
+ * Price Watch Service
+ * Watchlists evaluated by the scheduled price-watch job: mandi price thresholds and weekly moves for
+ * farmers, new listings under a target price for buyers. Alerts arrive as price alert notifications.
+ */
+export class PriceWatchService {
+  private static instance: PriceWatchService;
+
+  private constructor() {}
+
+  public static getInstance(): PriceWatchService {
+    if (!PriceWatchService.instance) {
+      PriceWatchService.instance = new PriceWatchService();
+    }
+    return PriceWatchService.instance;
+  }
+
+  public async getWatches(profileId: string): Promise<PriceWatch[]> {
+    const { data, error } = await supabase
+      .from('price_watches')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error loading price watches', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async watchMandiPrice(profileId: string, params: MandiWatchParams): Promise<PriceWatch> {
+    const commodity = optionalText(params.commodity, 100);
+    const state = optionalText(params.state, 100);
+    const district = optionalText(params.district, 100);
+    const abovePrice = positive(params.abovePrice);
+    const belowPrice = positive(params.belowPrice);
+    const weeklyChangePct = positive(params.weeklyChangePct);
+
+    if (!commodity || !state || !district) {
+      throw new Error('Commodity, state and district are required');
+    }
+    if (abovePrice === null && belowPrice === null && weeklyChangePct === null) {
+      throw new Error('Set a price threshold or a weekly change to watch for');
+    }
+    if (abovePrice !== null && belowPrice !== null && belowPrice >= abovePrice) {
+      throw new Error('The lower threshold must be below the upper one');
+    }
+
+    return this.insert({
+      profile_id: profileId,
+      watch_type: 'mandi_price',
+      commodity,
+      state,
+      district,
+      above_price: abovePrice,
+      below_price: belowPrice,
+      weekly_change_pct: weeklyChangePct
+    });
+  }
+
+  public async watchListings(profileId: string, params: ListingWatchParams): Promise<PriceWatch> {
+    const commodity = optionalText(params.commodity, 100);
+    const targetPricePerKg = positive(params.targetPricePerKg);
+
+    if (!commodity || targetPricePerKg === null) {
+      throw new Error('Crop and a target price are required');
+    }
+
+    return this.insert({
+      profile_id: profileId,
+      watch_type: 'listing',
+      commodity,
+      variety: optionalText(params.variety, 100),
+      district: optionalText(params.district, 100),
+      target_price_per_kg: targetPricePerKg
+    });
+  }
+
+  /**
+   * Pause or resume a watch. Paused watches keep their settings but raise no alerts.
+   */
+  public async setActive(watchId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('price_watches')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', watchId);
+
+    if (error) {
+      logger.error('Error updating price watch', error);
+      throw error;
+    }
+  }
+
+  public async deleteWatch(watchId: string): Promise<void> {
+    const { error } = await supabase.from('price_watches').delete().eq('id', watchId);
+
+    if (error) {
+      logger.error('Error deleting price watch', error);
+      throw error;
+    }
+  }
+
+  public async getNotifications(profileId: string): Promise<PriceAlertNotification[]> {
+    const { data, error } = await supabase
+      .from('price_alert_notifications')
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      logger.error('Error loading price alerts', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async markNotificationsRead(profileId: string, notificationId?: string): Promise<void> {
+    let query = supabase
+      .from('price_alert_notifications')
+      .update({ is_read: true })
+      .eq('profile_id', profileId)
+      .eq('is_read', false);
+    if (notificationId) {
+      query = query.eq('id', notificationId);
+    }
+
+    const { error } = await query;
+    if (error) {
+      logger.error('Error marking price alerts read', error);
+      throw error;
+    }
+  }
+
+  private async insert(watch: TablesInsert<'price_watches'>): Promise<PriceWatch> {
+    const { data, error } = await supabase.from('price_watches').insert(watch).select('*').single();
+
+    if (error) {
+      logger.error('Error creating price watch', error);
+      throw error;
+    }
+    return data;
+  }
+}
+
+// Export singleton instance
+export const priceWatchService = PriceWatchService.getInstance();
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/components/ui/use-toast';
+import { ShoppingCart, Trash2, Loader2, MapPin } from 'lucide-react';
+import { Cart } from '@/features/purchase/hooks/useCart';
+import { orderService } from '@/features/purchase/utils/orderService';
+import { logger } from '@/lib/logger';
+import { sanitizeError } from '@/lib/security';
+
+interface CartSheetProps {
+  cart: Cart;
+  isOpen: boolean;
+  onClose: () => void;
+  onCheckoutComplete: () => void;
+}
+
+/**
+ * Cart review and single checkout: lines grouped by seller with subtotals, one delivery address
+ * for the whole order, and one delivery request per pickup location once the order is placed
+ */
+export const CartSheet: React.FC<CartSheetProps> = ({ cart, isOpen, onClose, onCheckoutComplete }) => {
+  const { toast } = useToast();
+  const [address, setAddress] = useState('');
+  const [placing, setPlacing] = useState(false);
+  // Kept across retries so a repeated click after a timeout cannot place the order twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+  const invalid = cart.lines.some(line => !(line.quantity > 0) || line.quantity > line.available);
+  // One delivery fee per order, free above ₹1000 as for a single purchase
+  const deliveryFee = cart.total > 1000 ? 0 : 50;
+
+  const handleCheckout = async () => {
+    if (!address.trim()) {
+      toast({ variant: 'destructive', title: 'Address required', description: 'Please enter a delivery address.' });
+      return;
+    }
+
+    setPlacing(true);
+    try {
+      const order = await orderService.checkout({
+        idempotencyKey,
+        lines: cart.lines.map(line => ({ batchId: line.batchId, quantity: line.quantity, unitPrice: line.unitPrice })),
+        deliveryAddress: address
+      });
+
+      let deliveries = 0;
+      if (!order.replayed) {
+        try {
+          deliveries = (await orderService.createDeliveries(order, address)).length;
+        } catch (deliveryError) {
+          logger.warn('Order placed but delivery requests were not created', deliveryError);
+        }
+      }
+
+      toast({
+        title: 'Order placed',
+        description: `${order.lines.length} items for ₹${order.total.toLocaleString()}` +
+          (deliveries > 0 ? ` · ${deliveries} delivery request${deliveries === 1 ? '' : 's'} created` : '')
+      });
+      cart.clear();
+      setIdempotencyKey(crypto.randomUUID());
+      onCheckoutComplete();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Checkout failed', description: sanitizeError(error) });
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={open => !open && onClose()}>
+      <SheetContent className="flex flex-col sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5" />
+            Cart
+          </SheetTitle>
+          <SheetDescription>
+            All items are checked and bought together. Each pickup location gets its own delivery request.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          {cart.sellerGroups.length === 0 && (
+            <p className="text-sm text-muted-foreground">Your cart is empty.</p>
+          )}
+          {cart.sellerGroups.map(group => (
+            <div key={group.sellerId} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between font-medium">
+                <span>{group.sellerName}</span>
+                <span>₹{group.subtotal.toLocaleString()}</span>
+              </div>
+              {group.lines.map(line => (
+                <div key={line.batchId} className="flex items-center gap-2 text-sm">
+                  <div className="flex-1">
+                    <p>{line.cropType}{line.variety ? ` - ${line.variety}` : ''}</p>
+                    <p className="text-xs text-muted-foreground">₹{line.unitPrice}/kg · up to {line.available} kg</p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="1"
+                    max={line.available}
+                    className="w-24"
+                    value={line.quantity}
+                    onChange={e => cart.updateQuantity(line.batchId, parseFloat(e.target.value) || 0)}
+                  />
+                  <span className="text-xs text-muted-foreground">kg</span>
+                  <Button size="icon" variant="ghost" onClick={() => cart.removeLine(line.batchId)} disabled={placing}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {cart.lines.length > 0 && (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="cart-address" className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                Delivery address
+              </Label>
+              <Input id="cart-address" value={address} onChange={e => setAddress(e.target.value)} />
+            </div>
+            <Separator />
+            <div className="flex items-center justify-between text-sm">
+              <span>Goods total</span>
+              <span>₹{cart.total.toLocaleString()}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span>Delivery</span>
+              <span>{deliveryFee === 0 ? 'Free' : `₹${deliveryFee}`}</span>
+            </div>
+            <div className="flex items-center justify-between font-semibold">
+              <span>Total</span>
+              <span>₹{(cart.total + deliveryFee).toLocaleString()}</span>
+            </div>
+            {invalid && (
+              <p className="text-sm text-destructive">Each quantity must be above zero and within what is listed.</p>
+            )}
+          </div>
+        )}
+
+        <SheetFooter className="pt-4">
+          <Button onClick={handleCheckout} disabled={placing || invalid || cart.lines.length === 0} className="w-full">
+            {placing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Place order
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, Lock, Unlock, RotateCcw, ShieldCheck } from 'lucide-react';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { escrowService, PurchaseEscrow } from '@/features/purchase/utils/escrowService';
+import { sanitizeError } from '@/lib/security';
+
+interface EscrowStatusPanelProps {
+  escrow: PurchaseEscrow;
+  viewerProfileId?: string | null;
+  readOnly?: boolean;
+  onChange?: (escrow: PurchaseEscrow) => void;
+}
+
+export const getEscrowStatusLabel = (escrow: PurchaseEscrow): string => {
+  if (escrowService.isExpired(escrow)) {
+    return 'Refundable (expired)';
+  }
+
+  switch (escrow.status) {
+    case 'funded':
+      return 'Funds locked';
+    case 'delivered':
+      return 'Awaiting buyer confirmation';
+    case 'released':
+      return 'Paid to seller';
+    case 'refunded':
+      return 'Refunded to buyer';
+    default:
+      return escrow.status;
+  }
+};
+
+export const getEscrowStatusClass = (status: string): string => {
+  switch (status) {
+    case 'funded':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'delivered':
+      return 'bg-blue-100 text-blue-800';
+    case 'released':
+      return 'bg-green-100 text-green-800';
+    case 'refunded':
+      return 'bg-gray-100 text-gray-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+/**
+ * Escrow state of a purchase with the actions available to the viewer (buyer or seller)
+ */
+export const EscrowStatusPanel: React.FC<EscrowStatusPanelProps> = ({
+  escrow: initialEscrow,
+  viewerProfileId,
+  readOnly = false,
+  onChange
+}) => {
+  const { signer, isConnected } = useWeb3();
+  const { toast } = useToast();
+  const [escrow, setEscrow] = useState<PurchaseEscrow>(initialEscrow);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [releaseStalled, setReleaseStalled] = useState(false);
+
+  useEffect(() => {
+    setEscrow(initialEscrow);
+    escrowService.syncWithChain(initialEscrow).then(setEscrow);
+    escrowService.isReleaseStalled(initialEscrow).then(setReleaseStalled);
+  }, [initialEscrow]);
+
+  const isBuyer = !!viewerProfileId && viewerProfileId === escrow.buyer_id;
+  const isSeller = !!viewerProfileId && viewerProfileId === escrow.seller_id;
+  const isActive = escrow.status === 'funded' || escrow.status === 'delivered';
+  const expired = escrowService.isExpired(escrow);
+
+  const runAction = async (
+    action: string,
+    run: (signer: ethers.Signer) => Promise<PurchaseEscrow | null | void>,
+    successMessage: string
+  ) => {
+    if (!signer) {
+      toast({ variant: 'destructive', title: 'Wallet not connected', description: 'Please connect your wallet first.' });
+      return;
+    }
+
+    setPendingAction(action);
+    try {
+      const updated = await run(signer);
+      if (updated) {
+        setEscrow(updated);
+        onChange?.(updated);
+      }
+      toast({ title: successMessage });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Escrow action failed', description: sanitizeError(error) });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const actionIcon = (action: string, Icon: React.ElementType) =>
+    pendingAction === action ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Icon className="h-4 w-4 mr-1" />;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Escrow</span>
+        </div>
+        <Badge className={getEscrowStatusClass(escrow.status)}>{getEscrowStatusLabel(escrow)}</Badge>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <span className="text-muted-foreground">Amount</span>
+        <span className="text-right">
+          ₹{Number(escrow.amount_inr).toFixed(2)} ({Number(ethers.formatEther(escrow.amount_wei)).toFixed(6)} ETH)
+        </span>
+        <span className="text-muted-foreground">Quantity</span>
+        <span className="text-right">{escrow.quantity} kg</span>
+        {isActive && (
+          <>
+            <span className="text-muted-foreground">Refundable after</span>
+            <span className="text-right">{new Date(escrow.deadline).toLocaleString()}</span>
+          </>
+        )}
+      </div>
+
+      {!readOnly && isActive && (
+        <div className="flex flex-wrap gap-2">
+          {isBuyer && escrow.status === 'delivered' && (
+            <Button
+              size="sm"
+              disabled={!isConnected || !!pendingAction}
+              onClick={() => runAction('confirm', s => escrowService.confirmDelivery(s, escrow), 'Payment released to seller')}
+            >
+              {actionIcon('confirm', ShieldCheck)}
+              Confirm Delivery
+            </Button>
+          )}
+          {isSeller && escrow.status === 'delivered' && (
+            <>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!isConnected || !!pendingAction}
+                onClick={() => runAction('record', s => escrowService.recordDeliveryOnChain(s, escrow), 'Delivery recorded on-chain')}
+              >
+                {actionIcon('record', ShieldCheck)}
+                Record Delivery On-Chain
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!isConnected || !!pendingAction}
+                onClick={() => runAction('claim', s => escrowService.claimPayment(s, escrow), 'Payment claimed')}
+              >
+                {actionIcon('claim', Unlock)}
+                Claim Payment
+              </Button>
+            </>
+          )}
+          {((isBuyer && (escrow.status === 'funded' || releaseStalled)) || isSeller || expired) && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!isConnected || !!pendingAction}
+              onClick={() => runAction('refund', s => escrowService.refund(s, escrow), 'Buyer refunded')}
+            >
+              {actionIcon('refund', RotateCcw)}
+              {isSeller ? 'Refund Buyer' : expired && !isBuyer ? 'Trigger Refund' : 'Cancel & Refund'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
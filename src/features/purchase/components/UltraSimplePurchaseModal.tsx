@@ -12,14 +12,20 @@ import { purchaseTransactionCreator } from '@/features/blockchain/utils/purchase
 import { ipfsManager } from '@/features/ipfs/utils/ipfsManager';
 import { logger } from '@/lib/logger';
 import { sanitizeError, sanitizeString } from '@/lib/security';
-import { blockchainTransactionManager } from '@/features/blockchain/utils/blockchainTransactionManager';
 import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { escrowService, PurchaseEscrow } from '@/features/purchase/utils/escrowService';
+import { transferAttestationService } from '@/features/blockchain/utils/transferAttestation';
+import { purchaseService, PurchaseError, PurchaseReceipt } from '@/features/purchase/utils/purchaseService';
+import { useQuantityReservation } from '@/features/purchase/hooks/useQuantityReservation';
+import { ethers } from 'ethers';
 import { 
   ShoppingCart, 
   Package, 
   MapPin, 
   DollarSign,
-  CheckCircle
+  CheckCircle,
+  Loader2,
+  Timer
 } from 'lucide-react';
 
 interface UltraSimplePurchaseModalProps {
@@ -52,21 +58,49 @@ interface UltraSimplePurchaseModalProps {
   isOpen: boolean;
   onClose: () => void;
   onPurchaseComplete: () => void;
+  // Buy at an agreed price (auction win, accepted offer or forward contract allocation): the quantity
+  // and price are fixed by the award hold instead of a new checkout hold
+  award?: AwardedHold;
 }
 
+export interface AwardedHold {
+  source?: 'auction' | 'offer' | 'contract' | 'quote';
+  reservationId: string;
+  quantity: number;
+  unitPrice: number;
+  expiresAt: string;
+}
+
+// Batch UUID for database updates: batches.id (nested) > batch_id > id, but only if id is a UUID
+// and not the marketplace integer ID
+const resolveBatchId = (batch: UltraSimplePurchaseModalProps['batch']): string | undefined => {
+  const batchId = batch.batches?.id || batch.batch_id;
+  if (batchId) {
+    return batchId;
+  }
+  if (typeof batch.id === 'string' && (batch.id.includes('-') || batch.id.length === 36)) {
+    return batch.id;
+  }
+  return undefined;
+};
+
 export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> = ({ 
   batch, 
   isOpen, 
   onClose, 
-  onPurchaseComplete 
+  onPurchaseComplete,
+  award
 }) => {
   const { user, profile } = useAuth();
   const { toast } = useToast();
-  const { signer, account } = useWeb3();
+  const { signer } = useWeb3();
+  // One key per opening of the modal, so retrying the same purchase cannot buy twice
+  const idempotencyKey = React.useMemo(() => crypto.randomUUID(), [isOpen, batch?.id]);
+  const lockedEscrow = React.useRef<{ key: string; escrow: PurchaseEscrow } | null>(null);
 
   if (!batch || !isOpen) return null;
 
-  const handlePurchase = async (quantity: number, address: string) => {
+  const handlePurchase = async (quantity: number, address: string, reservationId: string) => {
     if (!user) {
       toast({
         variant: "destructive",
@@ -94,65 +128,20 @@ export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> =
     }
 
     try {
-      logger.debug('Price calculation inputs', {
-        batchPrice: batch.price,
-        batchQuantity: batch.quantity,
-        requestedQuantity: quantity
-      });
-      
-      // Try to get price and quantity from different possible sources
-      // Based on the actual batch object structure, use price_per_kg and harvest_quantity
-      const batchPrice = batch.price_per_kg || batch.price || batch.batches?.price_per_kg || batch.batches?.price || batch.batches?.total_price;
-      const batchQuantity = batch.harvest_quantity || batch.quantity || batch.batches?.harvest_quantity || batch.batches?.quantity;
-      
-      logger.debug('Price and quantity resolved', {
-        batchPrice,
-        batchQuantity,
-        priceSource: batch.price ? 'batch.price' : batch.batches?.price_per_kg ? 'batch.batches.price_per_kg' : 'fallback',
-        quantitySource: batch.quantity ? 'batch.quantity' : batch.batches?.harvest_quantity ? 'batch.batches.harvest_quantity' : 'fallback'
-      });
-      
-      // Use marketplace price and quantity directly
-      const unitPrice = Math.round(batchPrice / batchQuantity);
+      // Same per-kg price the form shows; the purchase procedure refuses it if the batch price has changed since
+      const unitPrice = Number(award?.unitPrice ?? batch.price_per_kg ?? batch.batches?.price_per_kg);
+      if (!Number.isFinite(unitPrice) || unitPrice <= 0) {
+        throw new Error(`Invalid price: ${unitPrice}`);
+      }
+
       const totalPrice = quantity * unitPrice;
       const deliveryFee = totalPrice > 1000 ? 0 : 50;
       const finalTotal = totalPrice + deliveryFee;
 
-      // Validate that we have valid price and quantity
-      if (isNaN(batchPrice) || isNaN(batchQuantity) || batchPrice <= 0 || batchQuantity <= 0) {
-        throw new Error(`Invalid price or quantity: price=${batchPrice}, quantity=${batchQuantity}`);
-      }
-      
-      logger.debug('Price calculation results', {
-        unitPrice,
-        totalPrice,
-        deliveryFee,
-        finalTotal
-      });
-
-      // Check if enough quantity is available
-      if (quantity > batch.quantity) {
-        throw new Error(`Only ${batch.quantity} kg available, but you requested ${quantity} kg`);
-      }
-
       // Use the new purchase function
       logger.debug('Processing marketplace purchase');
       
-      // Get the correct batch ID for database updates (this should be the batch UUID)
-      // Priority: batches.id (nested) > batch_id > id (but only if it's a UUID, not marketplace integer ID)
-      let batchId = batch.batches?.id || batch.batch_id;
-      
-      // If batch.id exists and looks like a UUID (contains hyphens), use it
-      // Otherwise, it might be the marketplace integer ID, so don't use it
-      if (!batchId && batch.id) {
-        if (typeof batch.id === 'string' && batch.id.includes('-')) {
-          // Looks like a UUID
-          batchId = batch.id;
-        } else if (typeof batch.id === 'string' && batch.id.length === 36) {
-          // UUID format without checking hyphens
-          batchId = batch.id;
-        }
-      }
+      const batchId = resolveBatchId(batch);
       
       logger.debug('🔍 DEBUG: Batch ID determination:', {
         'batch.batches?.id': batch.batches?.id,
@@ -166,689 +155,329 @@ export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> =
         throw new Error('No valid batch UUID found. Cannot proceed with purchase.');
       }
       
-      // Get the marketplace ID for inventory
-      // Since this batch object is from the batches table, we need to find the corresponding marketplace record
-      let marketplaceId = null;
-      
-      try {
-        const { data: marketplaceRecord } = await supabase
-          .from('marketplace')
-          .select('id')
-          .eq('batch_id', batchId)
-          .single();
-        
-        marketplaceId = marketplaceRecord?.id;
-        logger.debug('🔍 DEBUG: Found marketplace record:', marketplaceRecord);
-        logger.debug('🔍 DEBUG: Using marketplace ID for inventory:', marketplaceId);
-      } catch (error) {
-        logger.warn('🔍 DEBUG: Could not find marketplace record for batch:', batchId, error);
-      }
-      
-      if (!batchId) {
-        throw new Error('No valid batch ID found for update');
-      }
-      
-      if (!marketplaceId) {
-        logger.warn('🔍 DEBUG: No marketplace ID found, skipping inventory creation');
-      }
-
-      // Get current marketplace quantity before purchase
-      let currentMarketplaceQuantity = batch.quantity || batch.batches?.quantity || batch.batches?.harvest_quantity || 0;
-      const remainingQuantity = currentMarketplaceQuantity - quantity;
-      
-      logger.debug('🔍 DEBUG: Quantity calculation:', {
-        currentQuantity: currentMarketplaceQuantity,
-        purchaseQuantity: quantity,
-        remainingQuantity: remainingQuantity,
-        batch_quantity: batch.quantity,
-        batches_quantity: batch.batches?.quantity,
-        batches_harvest_quantity: batch.batches?.harvest_quantity
-      });
-
-      // Update the batch ownership directly - use the actual batch UUID
-      // batchId should be the UUID from batches table, not marketplace ID
-      logger.debug('🔍 DEBUG: Updating batch ownership:', {
-        batchId,
-        newOwner: profile?.id,
-        newOwnerName: profile?.full_name,
-        newOwnerType: profile?.user_type,
-        status: remainingQuantity > 0 ? 'available' : 'sold',
-        oldOwner: batch.current_owner || batch.batches?.current_owner
-      });
-      
-      // Get the current owner BEFORE update (this is the seller)
+      // Get the current owner BEFORE purchase (this is the seller)
       const sellerId = batch.batches?.current_owner || batch.current_owner || batch.farmer_id || batch.batches?.farmer_id;
-      logger.debug('🔍 DEBUG: Seller ID (current owner before purchase):', sellerId);
-      
-      const { data: updatedBatch, error: updateError } = await supabase
-        .from('batches')
-        .update({ 
-          current_owner: profile?.id,
-          status: remainingQuantity > 0 ? 'available' : 'sold'
-        })
-        .eq('id', batchId)
-        .select('id, current_owner, status, harvest_quantity')
-        .single();
 
-      if (updateError) {
-        logger.error('❌ Batch ownership update failed:', updateError);
-        throw new Error(`Purchase failed: ${updateError.message}`);
-      }
+      // Lock the order total in escrow before ownership changes; it is released when the buyer confirms delivery
+      // A retry after a failed or timed-out attempt reuses the escrow already locked for this key
+      let escrow: PurchaseEscrow | null = lockedEscrow.current?.key === idempotencyKey ? lockedEscrow.current.escrow : null;
+      if (!escrow && signer && sellerId && profile?.id) {
+        const { data: escrowBatch } = await supabase
+          .from('batches')
+          .select('blockchain_id, blockchain_batch_id')
+          .eq('id', batchId)
+          .single();
+        const { data: sellerWallet } = await supabase
+          .from('profiles')
+          .select('wallet_address')
+          .eq('id', String(sellerId))
+          .single();
 
-      if (updatedBatch) {
-        logger.debug('✅ Batch ownership updated successfully:', {
-          batchId: updatedBatch.id,
-          oldOwner: sellerId,
-          newOwner: updatedBatch.current_owner,
-          newOwnerProfileId: profile?.id,
-          status: updatedBatch.status,
-          match: updatedBatch.current_owner === profile?.id ? '✅ MATCH' : '❌ MISMATCH'
+        const escrowBlockchainBatchId = escrowBatch?.blockchain_id ?? escrowBatch?.blockchain_batch_id;
+        if (escrowBlockchainBatchId != null && sellerWallet?.wallet_address) {
+          escrow = await escrowService.lockPurchaseFunds(signer, {
+            batchId,
+            blockchainBatchId: Number(escrowBlockchainBatchId),
+            buyerId: profile.id,
+            sellerId: String(sellerId),
+            sellerAddress: sellerWallet.wallet_address,
+            quantity,
+            amountInr: finalTotal
+          });
+          lockedEscrow.current = { key: idempotencyKey, escrow };
+          toast({
+            title: "Funds locked in escrow",
+            description: "Payment is released to the seller once you confirm delivery.",
+          });
+        } else {
+          logger.warn('Skipping escrow: batch is not on-chain or seller has no wallet', { batchId, sellerId });
+        }
+      }
+      
+      // Ownership, listing quantity, transaction record and inventory are written in one database transaction
+      let receipt: PurchaseReceipt;
+      try {
+        receipt = await purchaseService.purchaseBatch({
+          idempotencyKey,
+          batchId,
+          quantity,
+          deliveryAddress: address,
+          unitPrice,
+          reservationId
         });
-        
-        // Verify the update actually worked
-        if (updatedBatch.current_owner !== profile?.id) {
-          logger.error('❌ CRITICAL: Ownership update did not match! Expected:', profile?.id, 'Got:', updatedBatch.current_owner);
-          throw new Error('Ownership update verification failed. Please try again.');
+      } catch (purchaseError) {
+        // Nothing was written, so hand the escrowed funds back
+        if (purchaseError instanceof PurchaseError && escrow && signer) {
+          try {
+            await escrowService.refund(signer, escrow);
+            lockedEscrow.current = null;
+          } catch (refundError) {
+            logger.error('Escrow refund after refused purchase failed', refundError);
+          }
         }
-      } else {
-        logger.warn('⚠️ Batch update returned no data - ownership may not have updated');
-        throw new Error('Batch update returned no data');
+        throw purchaseError;
       }
 
-      // Update marketplace quantity and status
-      // If all quantity is purchased, mark as sold, otherwise reduce quantity
-      interface MarketplaceUpdateData {
-        current_seller_id?: string;
-        current_seller_type?: string;
-        status?: string;
-        quantity?: number;
-      }
-      const marketplaceUpdateData: MarketplaceUpdateData = {
-        current_seller_id: profile?.id,
-        current_seller_type: profile?.user_type || (profile?.full_name?.toLowerCase().includes('distributor') ? 'distributor' : 'retailer')
-      };
+      const transactionId = receipt.transactionId;
+      const transactionType = receipt.transactionType;
+      logger.debug('Purchase receipt', receipt);
 
-      if (remainingQuantity <= 0) {
-        // All quantity sold - mark as sold
-        marketplaceUpdateData.status = 'sold';
-        marketplaceUpdateData.quantity = 0;
-        logger.debug('🔍 DEBUG: All quantity purchased, marking marketplace as sold');
-      } else {
-        // Reduce quantity, keep as available
-        marketplaceUpdateData.status = 'available';
-        marketplaceUpdateData.quantity = remainingQuantity;
-        logger.debug('🔍 DEBUG: Reducing marketplace quantity to:', remainingQuantity);
+      if (escrow) {
+        await escrowService.attachPurchase(escrow.id, { transactionId });
       }
 
-      // Find marketplace record by batch_id (not batch.id which might be marketplace ID)
-      const { error: marketplaceError } = await supabase
-        .from('marketplace')
-        .update(marketplaceUpdateData)
-        .eq('batch_id', batchId);
-
-      if (marketplaceError) {
-        logger.warn('Failed to update marketplace:', marketplaceError);
-        // Try alternative: update by marketplace ID if batch.id is marketplace ID
-        if (batch.id && typeof batch.id === 'number') {
-          const { error: altMarketplaceError } = await supabase
-            .from('marketplace')
-            .update(marketplaceUpdateData)
-            .eq('id', batch.id);
-          
-          if (altMarketplaceError) {
-            logger.warn('Failed to update marketplace by ID:', altMarketplaceError);
-          } else {
-            logger.debug('✅ Marketplace updated by ID');
-          }
+      // The buyer signs the transfer now; the seller countersigns from the verification page
+      if (signer) {
+        try {
+          await transferAttestationService.signTransfer(signer, transactionId, 'buyer');
+        } catch (attestationError) {
+          logger.warn('⚠️ Transfer attestation was not signed by the buyer:', attestationError);
         }
-        // Don't fail the purchase for this
-      } else {
-        logger.debug('✅ Marketplace updated successfully:', marketplaceUpdateData);
       }
 
-      logger.debug('🔍 DEBUG: Purchase successful!');
-      logger.debug('🔍 DEBUG: Profile data:', profile);
-      logger.debug('🔍 DEBUG: User type:', profile?.user_type);
-
-      // Determine transaction type based on buyer's role
-      const isDistributor = profile?.user_type === 'distributor' || 
-                           profile?.full_name?.toLowerCase().includes('distributor');
-      const isRetailer = profile?.user_type === 'retailer' || 
-                        profile?.full_name?.toLowerCase().includes('retailer');
-      
-      // Use RETAIL type when retailer buys from distributor, PURCHASE otherwise
-      const transactionType = isRetailer ? 'RETAIL' : 'PURCHASE';
-      
-      logger.debug('🔍 DEBUG: Transaction type determined:', {
-        user_type: profile?.user_type,
-        full_name: profile?.full_name,
-        isDistributor,
-        isRetailer,
-        transactionType
-      });
-
-      // Create transaction record in transactions table
-      // Use the sellerId we captured BEFORE the ownership update
-      interface TransactionResult {
-        id?: string;
-        transaction_id?: string;
-      }
-      let transactionResult: TransactionResult | null = null;
+      // Purchase certificate for the batch group. The on-chain quantity moves to the buyer when the escrow releases.
       try {
-        const transactionId = `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        // sellerId was already captured above before ownership update
+        logger.debug('🔍 DEBUG: Generating purchase certificate...');
         
-        logger.debug('🔍 DEBUG: Transaction creation details:', {
-          batchId,
-          sellerId, // This is the OLD owner (who we bought FROM)
-          buyerId: profile?.id, // This is the NEW owner (who bought it)
-          transactionType,
-          updatedBatchCurrentOwner: updatedBatch?.current_owner // Should match buyerId
-        });
+        // CRITICAL: Fetch group_id from database to ensure we use the correct group
+        // This ensures purchase certificates are added to the same group as harvest certificate
+        let groupId = batch.group_id || batch.batches?.group_id;
         
-        const transactionData = {
-          transaction_id: transactionId,
-          batch_id: batchId.toString(),
-          type: transactionType,
-          from_address: sellerId || 'unknown',
-          to_address: profile?.id || 'unknown',
-          quantity: quantity,
-          price: finalTotal,
-          transaction_timestamp: new Date().toISOString(),
-          ipfs_hash: '', // Will be updated after certificate generation
-          blockchain_hash: '', // Will be updated after blockchain transaction
-          product_details: {
-            crop_type: batch.crop_type || batch.batches?.crop_type,
-            variety: batch.variety || batch.batches?.variety,
-            quantity: quantity,
-            price_per_kg: unitPrice
-          },
-          metadata: {
-            delivery_address: address,
-            buyer_name: profile?.full_name,
-            buyer_type: profile?.user_type,
-            seller_name: batch.profiles?.full_name || batch.batches?.profiles?.full_name,
-            transactionType: transactionType
+        // If group_id not in batch object, fetch from database
+        if (!groupId && batchId) {
+          logger.debug('🔍 DEBUG: Group ID not in batch object, fetching from database...');
+          try {
+            const { data: batchData, error: batchFetchError } = await supabase
+              .from('batches')
+              .select('group_id')
+              .eq('id', batchId)
+              .single();
+            
+            if (!batchFetchError && batchData?.group_id) {
+              groupId = batchData.group_id;
+              logger.debug('✅ Fetched group_id from database:', groupId);
+            } else {
+              logger.error('❌ Failed to fetch group_id from database:', batchFetchError);
+            }
+          } catch (fetchError) {
+            logger.error('❌ Error fetching group_id:', fetchError);
           }
-        };
-
-        const { data: transactionDataResult, error: transactionError } = await supabase
-          .from('transactions')
-          .insert(transactionData)
-          .select()
-          .single();
-
-        if (transactionError) {
-          logger.warn('⚠️ Failed to create transaction record:', transactionError);
-          // Create a fallback transaction result object
-          transactionResult = { id: transactionId };
-        } else {
-          transactionResult = transactionDataResult;
-          logger.debug('✅ Transaction record created:', transactionResult);
         }
-      } catch (transactionCreateError) {
-        logger.warn('⚠️ Error creating transaction record:', transactionCreateError);
-        // Create a fallback transaction result with generated ID
-        transactionResult = { 
-          id: `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` 
-        };
-      }
-
-      // Note: isDistributor and isRetailer are already defined above for transaction type
-      logger.debug('🔍 DEBUG: User type check:', {
-        user_type: profile?.user_type,
-        full_name: profile?.full_name,
-        isDistributor,
-        isRetailer
-      });
-      
-      if (isDistributor && marketplaceId) {
-        const inventoryData = {
-          distributor_id: profile.id,
-          marketplace_id: marketplaceId, // Use the marketplace table's integer ID
-          quantity_purchased: quantity,
-          purchase_price: finalTotal,
-          created_at: new Date().toISOString()
-        };
         
-        logger.debug('🔍 DEBUG: Distributor inventory data before insert:', inventoryData);
-        logger.debug('🔍 DEBUG: Batch object keys:', Object.keys(batch));
-        logger.debug('🔍 DEBUG: Batch.id type:', typeof batch.id, 'value:', batch.id);
-        logger.debug('🔍 DEBUG: Full batch object structure:', JSON.stringify(batch, null, 2));
-
-        logger.debug('🔍 DEBUG: Creating distributor inventory entry:', inventoryData);
-
-        const { data: inventoryResult, error: inventoryError } = await supabase
-          .from('distributor_inventory')
-          .insert(inventoryData)
-          .select()
-          .single();
-
-        if (inventoryError) {
-          logger.error('❌ Distributor inventory creation error:', inventoryError);
-          logger.error('❌ Inventory data that failed:', inventoryData);
-        } else {
-          logger.debug('✅ Distributor inventory entry created successfully:', inventoryResult);
-        }
-      } else if (isDistributor && !marketplaceId) {
-        logger.debug('⚠️ Skipping distributor inventory creation - no marketplace ID found');
-      } else if (isRetailer && marketplaceId) {
-        const inventoryData = {
-          retailer_id: profile.id,
-          marketplace_id: marketplaceId, // Use the marketplace table's integer ID
-          quantity_purchased: quantity,
-          purchase_price: finalTotal,
-          created_at: new Date().toISOString()
-        };
+        logger.debug('🔍 DEBUG: Group ID lookup:', {
+          batchGroupId: batch.group_id,
+          batchBatchesGroupId: batch.batches?.group_id,
+          finalGroupId: groupId,
+          batchId: batchId
+        });
         
-        logger.debug('🔍 DEBUG: Inventory data before insert:', inventoryData);
-        logger.debug('🔍 DEBUG: Batch object keys:', Object.keys(batch));
-        logger.debug('🔍 DEBUG: Batch.id type:', typeof batch.id, 'value:', batch.id);
-        logger.debug('🔍 DEBUG: Full batch object structure:', JSON.stringify(batch, null, 2));
-
-        logger.debug('🔍 DEBUG: Creating retailer inventory entry:', inventoryData);
-
-        const { data: inventoryResult, error: inventoryError } = await supabase
-          .from('retailer_inventory')
-          .insert(inventoryData)
-          .select()
-          .single();
-
-        if (inventoryError) {
-          logger.error('❌ Retailer inventory creation error:', inventoryError);
-          logger.error('❌ Inventory data that failed:', inventoryData);
+        if (!groupId) {
+          logger.error('❌ CRITICAL: No group ID found for batch! Cannot add purchase certificate to group.');
+          logger.error('🔍 DEBUG: Batch object keys:', Object.keys(batch));
+          logger.error('🔍 DEBUG: Batch object:', batch);
+          logger.error('🔍 DEBUG: Batch ID:', batchId);
+          toast({
+            variant: "destructive",
+            title: "Certificate Upload Failed",
+            description: "Could not find group ID for this batch. Purchase completed but certificate not uploaded.",
+          });
+          // Don't return - continue with purchase even if certificate fails
         } else {
-          logger.debug('✅ Retailer inventory entry created successfully:', inventoryResult);
-        }
-      } else if (isRetailer && !marketplaceId) {
-        logger.debug('⚠️ Skipping retailer inventory creation - no marketplace ID found');
-      } else {
-        logger.debug('🔍 DEBUG: No inventory creation - user type check failed');
-        logger.debug('🔍 DEBUG: User type:', profile?.user_type);
-        logger.debug('🔍 DEBUG: Full name:', profile?.full_name);
-        logger.debug('🔍 DEBUG: Is distributor:', isDistributor);
-        logger.debug('🔍 DEBUG: Is retailer:', isRetailer);
-        logger.debug('🔍 DEBUG: Profile object:', profile);
-      }
-
-      // Record transaction on blockchain (optional)
-      if (signer && blockchainTransactionManager && account) {
+        
+        // Resolve seller and buyer names from profile IDs for display
+        let sellerName = 'Unknown Seller';
+        let buyerName = 'Unknown Buyer';
+        
         try {
-          blockchainTransactionManager.updateSigner(signer);
-          // Get seller's wallet address from the batch data
-          let sellerWalletAddress = batch.profiles?.wallet_address;
-          
-          // If wallet address is not available, try to fetch it from the seller's profile
-          if (!sellerWalletAddress) {
-            logger.debug('🔍 DEBUG: Seller wallet address not found in batch, fetching from profile...');
-            
-            // Try to get seller ID from different sources
-            const sellerId = batch.current_owner || batch.current_seller_id || batch.farmer_id;
-            logger.debug('🔍 DEBUG: Seller ID for wallet lookup:', sellerId);
+          if (sellerId) {
+            const { data: sellerProfile } = await supabase
+              .from('profiles')
+              .select('full_name, user_type')
+              .eq('id', sellerId)
+              .single();
             
-            if (sellerId) {
-              try {
-                const { data: sellerProfile } = await supabase
-                  .from('profiles')
-                  .select('wallet_address, full_name, email')
-                  .eq('id', sellerId)
-                  .single();
-                
-                sellerWalletAddress = sellerProfile?.wallet_address;
-                logger.debug('🔍 DEBUG: Fetched seller profile:', sellerProfile);
-                logger.debug('🔍 DEBUG: Seller wallet address from profile:', sellerWalletAddress);
-                
-                // If still no wallet address, try to use a default or generate one
-                if (!sellerWalletAddress) {
-                  logger.warn('🔍 DEBUG: Seller has no wallet address in profile, using fallback...');
-                  // Generate a placeholder wallet address for demo purposes
-                  // In production, you would want to prompt the seller to connect their wallet
-                  sellerWalletAddress = `0x${sellerId.replace(/-/g, '').substring(0, 40)}`;
-                  logger.debug('🔍 DEBUG: Generated placeholder wallet address:', sellerWalletAddress);
-                }
-              } catch (error) {
-                logger.warn('🔍 DEBUG: Could not fetch seller profile:', error);
-                // Use a default wallet address for demo purposes
-                sellerWalletAddress = '0x0000000000000000000000000000000000000000';
-                logger.debug('🔍 DEBUG: Using default wallet address due to error:', sellerWalletAddress);
-              }
-            } else {
-              logger.warn('🔍 DEBUG: No seller ID found for wallet lookup');
-              // Use a default wallet address for demo purposes
-              sellerWalletAddress = '0x0000000000000000000000000000000000000000';
-              logger.debug('🔍 DEBUG: Using default wallet address:', sellerWalletAddress);
+            if (sellerProfile?.full_name) {
+              sellerName = `${sellerProfile.user_type ? sellerProfile.user_type.charAt(0).toUpperCase() + sellerProfile.user_type.slice(1) : ''} - ${sellerProfile.full_name}`.trim();
+              if (sellerName.startsWith(' - ')) sellerName = sellerName.substring(3);
             }
           }
-          
-          logger.debug('🔍 DEBUG: Seller wallet address sources:', {
-            batchProfilesWalletAddress: batch.profiles?.wallet_address,
-            batchBatchesProfilesWalletAddress: batch.batches?.profiles?.wallet_address,
-            batchCurrentSellerId: batch.current_seller_id,
-            batchCurrentOwner: batch.current_owner,
-            batchFarmerId: batch.farmer_id,
-            finalSellerWalletAddress: sellerWalletAddress
-          });
-          
-          logger.debug('🔍 DEBUG: Wallet address check:', {
-            batchProfiles: batch.profiles,
-            sellerWalletAddress,
-            account,
-            batchCurrentSellerId: batch.current_seller_id
-          });
-          
-          // CRITICAL: Get blockchainBatchId from batch object or database
-          // This must be the actual blockchain batch ID from registration, not the database UUID
-          let blockchainBatchId: number | null = null;
-          
-          // Try to get from batch object first
-          blockchainBatchId = batch.blockchain_id || batch.batches?.blockchain_id || batch.blockchain_batch_id || batch.batches?.blockchain_batch_id || null;
-          
-          // If not in batch object, fetch from database
-          if (!blockchainBatchId && batchId) {
-            try {
-              const { data: batchData, error: batchFetchError } = await supabase
-                .from('batches')
-                .select('blockchain_id, blockchain_batch_id')
-                .eq('id', batchId)
-                .single();
-              
-              if (!batchFetchError && batchData) {
-                blockchainBatchId = batchData.blockchain_id || batchData.blockchain_batch_id || null;
-                logger.debug('✅ Fetched blockchainBatchId from database:', blockchainBatchId);
-              } else {
-                logger.warn('⚠️ Failed to fetch blockchainBatchId from database:', batchFetchError);
-              }
-            } catch (fetchError) {
-              logger.warn('⚠️ Error fetching blockchainBatchId:', fetchError);
+        } catch (e) {
+          logger.warn('Could not resolve seller name:', e);
+          sellerName = batch.profiles?.full_name || batch.batches?.profiles?.full_name || 'Unknown Seller';
+        }
+        
+        try {
+          if (profile?.id) {
+            const { data: buyerProfile } = await supabase
+              .from('profiles')
+              .select('full_name, user_type')
+              .eq('id', profile.id)
+              .single();
+            
+            if (buyerProfile?.full_name) {
+              buyerName = `${buyerProfile.user_type ? buyerProfile.user_type.charAt(0).toUpperCase() + buyerProfile.user_type.slice(1) : ''} - ${buyerProfile.full_name}`.trim();
+              if (buyerName.startsWith(' - ')) buyerName = buyerName.substring(3);
             }
           }
-          
-          // Validate that we have valid Ethereum addresses and blockchainBatchId
-          if (!sellerWalletAddress || !account) {
-            logger.warn('🔍 DEBUG: Missing wallet addresses for blockchain transaction');
-            logger.warn('🔍 DEBUG: sellerWalletAddress:', sellerWalletAddress);
-            logger.warn('🔍 DEBUG: account:', account);
-            logger.warn('🔍 DEBUG: Skipping blockchain transaction, continuing with database transaction');
-            // Don't return - continue with the purchase without blockchain transaction
-          } else if (!blockchainBatchId || !Number.isInteger(Number(blockchainBatchId))) {
-            logger.warn('⚠️ Missing or invalid blockchainBatchId for blockchain transaction');
-            logger.warn('⚠️ blockchainBatchId:', blockchainBatchId);
-            logger.warn('⚠️ Skipping blockchain transaction - batch may not be registered on blockchain yet');
-            // Don't return - continue with the purchase without blockchain transaction
-          } else {
-            logger.debug('🔍 DEBUG: Blockchain transaction addresses:', {
-              seller: sellerWalletAddress,
-              buyer: account,
-              batchId: batchId,
-              blockchainBatchId: blockchainBatchId
-            });
+        } catch (e) {
+          logger.warn('Could not resolve buyer name:', e);
+          buyerName = profile?.full_name || 'Unknown Buyer';
+        }
+        
+        const purchaseData = {
+          batchId: batchId.toString(), // Use the validated batch ID
+          from: sellerId || 'Unknown Seller', // Store seller ID (UUID) for proper resolution
+          to: profile?.id || 'Unknown Buyer', // Store buyer ID (UUID) for proper resolution
+          quantity: quantity,
+          pricePerKg: Math.round(receipt.total / quantity),
+          timestamp: new Date().toISOString(),
+          sellerName: sellerName, // Store resolved name for display
+          buyerName: buyerName // Store resolved name for display
+        };
+        
+        logger.debug('Purchase data', { purchaseData, groupId, sellerId, sellerName, buyerId: profile?.id, buyerName });
+        
+        const purchaseCertificateResult = await ipfsManager.uploadPurchaseCertificate(
+          sanitizeString(groupId, 100),
+          {
+            batchId: sanitizeString(purchaseData.batchId, 100),
+            from: sanitizeString(sellerId || '', 255),
+            to: sanitizeString(profile?.id || '', 255),
+            quantity: purchaseData.quantity,
+            pricePerKg: purchaseData.pricePerKg,
+            timestamp: purchaseData.timestamp,
+            sellerName: sanitizeString(sellerName, 255),
+            buyerName: sanitizeString(buyerName, 255)
+          }
+        );
+        
+          if (purchaseCertificateResult) {
+            logger.debug('Purchase certificate uploaded', { groupId, ipfsHash: purchaseCertificateResult.ipfsHash });
             
-            const blockchainTransaction = await blockchainTransactionManager.recordPurchaseTransaction(
-              batchId, // Database UUID (string)
-              sellerWalletAddress, // From current seller (Ethereum address)
-              account, // To buyer (current wallet address)
-              quantity,
-              finalTotal,
-              Number(blockchainBatchId), // CRITICAL: Actual blockchain batch ID (number) from registration
-              'PURCHASE'
-            );
-            logger.debug('🔍 DEBUG: Blockchain transaction recorded:', blockchainTransaction);
+            // Note: storeFileReference is automatically called by uploadFileToGroup
+            // So the transaction is already stored in group_files table
+            toast({
+              title: "Purchase Certificate Added",
+              description: `Purchase certificate added to group ${groupId.substring(0, 8)}... for complete traceability.`,
+            });
+          } else {
+            logger.error('❌ CRITICAL: Purchase certificate upload failed!');
+            logger.error('❌ Group ID:', groupId);
+            logger.error('❌ Batch ID:', batchId);
             
-            // Generate and upload purchase certificate to the same group
-            try {
-              logger.debug('🔍 DEBUG: Generating purchase certificate...');
-              
-              // CRITICAL: Fetch group_id from database to ensure we use the correct group
-              // This ensures purchase certificates are added to the same group as harvest certificate
-              let groupId = batch.group_id || batch.batches?.group_id;
-              
-              // If group_id not in batch object, fetch from database
-              if (!groupId && batchId) {
-                logger.debug('🔍 DEBUG: Group ID not in batch object, fetching from database...');
-                try {
-                  const { data: batchData, error: batchFetchError } = await supabase
-                    .from('batches')
-                    .select('group_id')
-                    .eq('id', batchId)
-                    .single();
-                  
-                  if (!batchFetchError && batchData?.group_id) {
-                    groupId = batchData.group_id;
-                    logger.debug('✅ Fetched group_id from database:', groupId);
-                  } else {
-                    logger.error('❌ Failed to fetch group_id from database:', batchFetchError);
-                  }
-                } catch (fetchError) {
-                  logger.error('❌ Error fetching group_id:', fetchError);
-                }
-              }
-              
-              logger.debug('🔍 DEBUG: Group ID lookup:', {
-                batchGroupId: batch.group_id,
-                batchBatchesGroupId: batch.batches?.group_id,
-                finalGroupId: groupId,
-                batchId: batchId
-              });
-              
-              if (!groupId) {
-                logger.error('❌ CRITICAL: No group ID found for batch! Cannot add purchase certificate to group.');
-                logger.error('🔍 DEBUG: Batch object keys:', Object.keys(batch));
-                logger.error('🔍 DEBUG: Batch object:', batch);
-                logger.error('🔍 DEBUG: Batch ID:', batchId);
-                toast({
-                  variant: "destructive",
-                  title: "Certificate Upload Failed",
-                  description: "Could not find group ID for this batch. Purchase completed but certificate not uploaded.",
-                });
-                // Don't return - continue with purchase even if certificate fails
-              } else {
-              
-              // Resolve seller and buyer names from profile IDs for display
-              let sellerName = 'Unknown Seller';
-              let buyerName = 'Unknown Buyer';
-              
+            // Even if certificate upload failed, store transaction record in group_files for traceability
+            if (groupId) {
               try {
-                if (sellerId) {
-                  const { data: sellerProfile } = await supabase
-                    .from('profiles')
-                    .select('full_name, user_type')
-                    .eq('id', sellerId)
-                    .single();
-                  
-                  if (sellerProfile?.full_name) {
-                    sellerName = `${sellerProfile.user_type ? sellerProfile.user_type.charAt(0).toUpperCase() + sellerProfile.user_type.slice(1) : ''} - ${sellerProfile.full_name}`.trim();
-                    if (sellerName.startsWith(' - ')) sellerName = sellerName.substring(3);
-                  }
-                }
-              } catch (e) {
-                logger.warn('Could not resolve seller name:', e);
-                sellerName = batch.profiles?.full_name || batch.batches?.profiles?.full_name || 'Unknown Seller';
-              }
-              
-              try {
-                if (profile?.id) {
-                  const { data: buyerProfile } = await supabase
-                    .from('profiles')
-                    .select('full_name, user_type')
-                    .eq('id', profile.id)
-                    .single();
-                  
-                  if (buyerProfile?.full_name) {
-                    buyerName = `${buyerProfile.user_type ? buyerProfile.user_type.charAt(0).toUpperCase() + buyerProfile.user_type.slice(1) : ''} - ${buyerProfile.full_name}`.trim();
-                    if (buyerName.startsWith(' - ')) buyerName = buyerName.substring(3);
-                  }
-                }
-              } catch (e) {
-                logger.warn('Could not resolve buyer name:', e);
-                buyerName = profile?.full_name || 'Unknown Buyer';
-              }
-              
-              const purchaseData = {
-                batchId: batchId.toString(), // Use the validated batch ID
-                from: sellerId || 'Unknown Seller', // Store seller ID (UUID) for proper resolution
-                to: profile?.id || 'Unknown Buyer', // Store buyer ID (UUID) for proper resolution
-                quantity: quantity,
-                pricePerKg: Math.round(finalTotal / quantity),
-                timestamp: new Date().toISOString(),
-                sellerName: sellerName, // Store resolved name for display
-                buyerName: buyerName // Store resolved name for display
-              };
-              
-              logger.debug('Purchase data', { purchaseData, groupId, sellerId, sellerName, buyerId: profile?.id, buyerName });
-              
-              const purchaseCertificateResult = await ipfsManager.uploadPurchaseCertificate(
-                sanitizeString(groupId, 100),
-                {
-                  batchId: sanitizeString(purchaseData.batchId, 100),
-                  from: sanitizeString(sellerId || '', 255),
-                  to: sanitizeString(profile?.id || '', 255),
-                  quantity: purchaseData.quantity,
-                  pricePerKg: purchaseData.pricePerKg,
-                  timestamp: purchaseData.timestamp,
-                  sellerName: sanitizeString(sellerName, 255),
-                  buyerName: sanitizeString(buyerName, 255)
-                }
-              );
-              
-                if (purchaseCertificateResult) {
-                  logger.debug('Purchase certificate uploaded', { groupId, ipfsHash: purchaseCertificateResult.ipfsHash });
-                  
-                  // Note: storeFileReference is automatically called by uploadFileToGroup
-                  // So the transaction is already stored in group_files table
-                  toast({
-                    title: "Purchase Certificate Added",
-                    description: `Purchase certificate added to group ${groupId.substring(0, 8)}... for complete traceability.`,
-                  });
-                } else {
-                  logger.error('❌ CRITICAL: Purchase certificate upload failed!');
-                  logger.error('❌ Group ID:', groupId);
-                  logger.error('❌ Batch ID:', batchId);
-                  
-                  // Even if certificate upload failed, store transaction record in group_files for traceability
-                  if (groupId) {
-                    try {
-                      const groupFileData = {
-                        group_id: groupId,
-                        file_name: `purchase_transaction_${batchId}_${Date.now()}.json`,
-                        ipfs_hash: '', // No certificate hash if upload failed
-                        file_size: 0,
-                        transaction_type: transactionType,
-                        batch_id: batchId,
-                        metadata: JSON.stringify({
-                          keyvalues: {
-                            batchId: batchId.toString(),
-                            transactionType: transactionType,
-                            from: sellerId,
-                            to: profile?.id,
-                            quantity: quantity.toString(),
-                            price: finalTotal.toString(),
-                            timestamp: new Date().toISOString(),
-                            farmerName: sellerName,
-                            buyerName: buyerName,
-                            fromId: sellerId,
-                            toId: profile?.id,
-                            pricePerKg: Math.round(finalTotal / quantity).toString(),
-                            certificateUploadFailed: true
-                          }
-                        }),
-                        created_at: new Date().toISOString()
-                      };
-                      
-                      const { error: groupFileError } = await supabase
-                        .from('group_files')
-                        .insert(groupFileData);
-                      
-                      if (groupFileError) {
-                        logger.error('❌ Failed to store purchase transaction in group_files:', groupFileError);
-                      } else {
-                        logger.debug('✅ Purchase transaction stored in group_files (without certificate)');
-                      }
-                    } catch (groupFileErr) {
-                      logger.error('❌ Error storing purchase transaction in group_files:', groupFileErr);
+                const groupFileData = {
+                  group_id: groupId,
+                  file_name: `purchase_transaction_${batchId}_${Date.now()}.json`,
+                  ipfs_hash: '', // No certificate hash if upload failed
+                  file_size: 0,
+                  transaction_type: transactionType,
+                  batch_id: batchId,
+                  metadata: JSON.stringify({
+                    keyvalues: {
+                      batchId: batchId.toString(),
+                      transactionType: transactionType,
+                      from: sellerId,
+                      to: profile?.id,
+                      quantity: quantity.toString(),
+                      price: receipt.total.toString(),
+                      timestamp: new Date().toISOString(),
+                      farmerName: sellerName,
+                      buyerName: buyerName,
+                      fromId: sellerId,
+                      toId: profile?.id,
+                      pricePerKg: Math.round(receipt.total / quantity).toString(),
+                      certificateUploadFailed: true
                     }
-                  }
-                  
-                  toast({
-                    variant: "destructive",
-                    title: "Certificate Upload Failed",
-                    description: "Purchase completed but certificate upload failed. Transaction recorded in database.",
-                  });
-                }
-              }
-              
-              // Update transaction record with IPFS hash and blockchain hash if available
-              if (transactionResult?.id || transactionResult?.transaction_id) {
-                try {
-                  interface TransactionUpdateData {
-                    ipfs_hash?: string;
-                    blockchain_hash?: string;
-                  }
-                  const updateData: TransactionUpdateData = {};
-                  if (purchaseCertificateResult?.ipfsHash) {
-                    updateData.ipfs_hash = purchaseCertificateResult.ipfsHash;
-                  }
-                  if (blockchainTransaction?.transactionHash) {
-                    updateData.blockchain_hash = blockchainTransaction.transactionHash;
-                  }
-                  
-                  if (Object.keys(updateData).length > 0) {
-                    const updateField = transactionResult.id ? 'id' : 'transaction_id';
-                    const updateValue = transactionResult.id || transactionResult.transaction_id;
-                    
-                    await supabase
-                      .from('transactions')
-                      .update(updateData)
-                      .eq(updateField, updateValue);
-                    
-                    logger.debug('✅ Transaction record updated with IPFS and blockchain hashes');
-                  }
-                } catch (updateError) {
-                  logger.warn('⚠️ Failed to update transaction record:', updateError);
-                }
-              }
-              
-              // Generate QR code for the purchase transaction
-              // Use transactionResult.id if available, otherwise use a generated ID
-              const transactionIdForQR = transactionResult?.id || 
-                                        transactionResult?.transaction_id || 
-                                        `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-              
-              if (transactionIdForQR) {
-              try {
-                const { generateTransactionReceiptQR } = await import('@/features/qr-code/utils/qrCodeGenerator');
-                const qrCodeDataURL = await generateTransactionReceiptQR({
-                    transactionId: transactionIdForQR,
-                    batchId: batchId.toString(),
-                  from: batch.profiles?.full_name || 'Unknown Seller',
-                  to: profile?.full_name || 'Unknown Buyer',
-                  quantity: quantity,
-                  price: finalTotal,
-                  timestamp: new Date().toISOString(),
-                    ipfsHash: purchaseCertificateResult?.ipfsHash || undefined,
-                    blockchainHash: blockchainTransaction?.transactionHash || undefined
-                });
+                  }),
+                  created_at: new Date().toISOString()
+                };
                 
-                logger.debug('✅ QR code generated for purchase transaction');
+                const { error: groupFileError } = await supabase
+                  .from('group_files')
+                  .insert(groupFileData);
                 
-                // Store QR code in localStorage for later access
-                  localStorage.setItem(`purchase_qr_${transactionIdForQR}`, qrCodeDataURL);
-              } catch (qrError) {
-                logger.error('❌ QR code generation failed:', qrError);
-                // Continue even if QR code generation fails
+                if (groupFileError) {
+                  logger.error('❌ Failed to store purchase transaction in group_files:', groupFileError);
+                } else {
+                  logger.debug('✅ Purchase transaction stored in group_files (without certificate)');
                 }
-              } else {
-                logger.warn('⚠️ Skipping QR code generation: no transaction ID available');
+              } catch (groupFileErr) {
+                logger.error('❌ Error storing purchase transaction in group_files:', groupFileErr);
               }
-            } catch (certError) {
-              logger.error('❌ Purchase certificate generation failed:', certError);
-              logger.warn('⚠️ Purchase will continue without certificate');
-              // Continue even if certificate generation fails - don't throw
             }
+            
+            toast({
+              variant: "destructive",
+              title: "Certificate Upload Failed",
+              description: "Purchase completed but certificate upload failed. Transaction recorded in database.",
+            });
+          }
+        }
+        
+        // Update transaction record with IPFS hash and blockchain hash if available
+        {
+          try {
+            interface TransactionUpdateData {
+              ipfs_hash?: string;
+              blockchain_hash?: string;
+            }
+            const updateData: TransactionUpdateData = {};
+            if (purchaseCertificateResult?.ipfsHash) {
+              updateData.ipfs_hash = purchaseCertificateResult.ipfsHash;
+            }
+            if (escrow?.create_tx_hash) {
+              updateData.blockchain_hash = escrow.create_tx_hash;
+            }
+            
+            if (Object.keys(updateData).length > 0) {
+              await supabase
+                .from('transactions')
+                .update(updateData)
+                .eq('transaction_id', transactionId);
+              
+              logger.debug('✅ Transaction record updated with IPFS and blockchain hashes');
+            }
+          } catch (updateError) {
+            logger.warn('⚠️ Failed to update transaction record:', updateError);
+          }
+        }
+        
+        // Generate QR code for the purchase transaction
+        const transactionIdForQR = transactionId;
+        
+        if (transactionIdForQR) {
+        try {
+          const { generateTransactionReceiptQR } = await import('@/features/qr-code/utils/qrCodeGenerator');
+          const qrCodeDataURL = await generateTransactionReceiptQR({
+              transactionId: transactionIdForQR,
+              batchId: batchId.toString(),
+            from: batch.profiles?.full_name || 'Unknown Seller',
+            to: profile?.full_name || 'Unknown Buyer',
+            quantity: quantity,
+            price: receipt.total,
+            timestamp: receipt.purchasedAt,
+              ipfsHash: purchaseCertificateResult?.ipfsHash || undefined,
+              blockchainHash: escrow?.create_tx_hash || undefined
+          });
+          
+          logger.debug('✅ QR code generated for purchase transaction');
+          
+          // Store QR code in localStorage for later access
+            localStorage.setItem(`purchase_qr_${transactionIdForQR}`, qrCodeDataURL);
+        } catch (qrError) {
+          logger.error('❌ QR code generation failed:', qrError);
+          // Continue even if QR code generation fails
           }
-        } catch (blockchainError) {
-          logger.error('🔍 DEBUG: Blockchain transaction failed:', blockchainError);
-          // Continue even if blockchain fails
+        } else {
+          logger.warn('⚠️ Skipping QR code generation: no transaction ID available');
         }
+      } catch (certError) {
+        logger.error('❌ Purchase certificate generation failed:', certError);
+        logger.warn('⚠️ Purchase will continue without certificate');
+        // Continue even if certificate generation fails - don't throw
       }
 
       // Create delivery request
@@ -905,8 +534,8 @@ export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> =
           .single();
 
         if (batchDetails) {
-          await createDeliveryRequest({
-            transactionId: transactionResult?.id,
+          const deliveryRequest = await createDeliveryRequest({
+            transactionId,
             batchId: batchId,
             sourceLocation,
             destinationLocation,
@@ -915,6 +544,10 @@ export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> =
             freshnessDuration: batchDetails.freshness_duration || 7,
           });
           logger.debug('✅ Delivery request created');
+
+          if (escrow) {
+            await escrowService.attachPurchase(escrow.id, { deliveryRequestId: deliveryRequest.id });
+          }
         }
       } catch (deliveryError) {
         logger.warn('⚠️ Failed to create delivery request:', deliveryError);
@@ -952,8 +585,11 @@ export const UltraSimplePurchaseModal: React.FC<UltraSimplePurchaseModalProps> =
 
         <PurchaseForm 
           batch={batch} 
+          batchId={resolveBatchId(batch)}
+          award={award}
           onPurchase={handlePurchase} 
           onClose={onClose}
+          escrowEnabled={!!signer}
         />
       </DialogContent>
     </Dialog>
@@ -969,13 +605,20 @@ const PurchaseForm: React.FC<{
     price_per_kg?: number;
     batches?: Record<string, unknown> & { crop_type?: string; variety?: string };
   };
-  onPurchase: (quantity: number, address: string) => void;
+  batchId?: string;
+  award?: AwardedHold;
+  onPurchase: (quantity: number, address: string, reservationId: string) => void;
   onClose: () => void;
-}> = ({ batch, onPurchase, onClose }) => {
-  const [quantity, setQuantity] = React.useState(1);
+  escrowEnabled?: boolean;
+}> = ({ batch, batchId, award, onPurchase, onClose, escrowEnabled = false }) => {
+  const [quantity, setQuantity] = React.useState(award?.quantity ?? 1);
   const [address, setAddress] = React.useState('');
+  // Awards are already held, so no checkout hold is placed for them
+  const hold = useQuantityReservation(award ? undefined : batchId, quantity);
+  const reservationId = award ? award.reservationId : hold.reservation?.reservationId;
+  const canPurchase = award ? new Date(award.expiresAt).getTime() > Date.now() : hold.ready;
 
-  const unitPrice = batch.price_per_kg;
+  const unitPrice = award?.unitPrice ?? batch.price_per_kg;
   const totalPrice = quantity * unitPrice;
   const deliveryFee = totalPrice > 1000 ? 0 : 50;
   const finalTotal = totalPrice + deliveryFee;
@@ -1030,11 +673,37 @@ const PurchaseForm: React.FC<{
               max={batch.quantity}
               value={quantity}
               onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+              disabled={!!award}
               className="mt-1"
             />
             <p className="text-sm text-muted-foreground mt-1">
               Available: {batch.quantity} kg
             </p>
+            <div className="flex items-center gap-2 text-sm mt-2">
+              {award ? (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Timer className="h-3 w-3" />
+                  {award.source === 'offer' ? 'Agreed price' : award.source === 'contract' ? 'Contract price' : award.source === 'quote' ? 'Quoted price' : 'Auction win at'} ₹{award.unitPrice}/kg, payable until {new Date(award.expiresAt).toLocaleString()}
+                </span>
+              ) : hold.reserving ? (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Holding {quantity} kg…
+                </span>
+              ) : hold.error ? (
+                <span className="text-destructive">{hold.error}</span>
+              ) : hold.expired ? (
+                <>
+                  <span className="text-destructive">Your hold has expired.</span>
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={hold.renew}>Hold again</Button>
+                </>
+              ) : hold.reservation ? (
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Timer className="h-3 w-3" />
+                  {hold.reservation.quantity} kg held for you for {Math.floor(hold.secondsLeft / 60)}:{String(hold.secondsLeft % 60).padStart(2, '0')}
+                </span>
+              ) : null}
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -1051,6 +720,12 @@ const PurchaseForm: React.FC<{
               <span>Total:</span>
               <span className="text-green-600">₹{finalTotal}</span>
             </div>
+            {escrowEnabled && finalTotal > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {Number(ethers.formatEther(escrowService.inrToWei(finalTotal))).toFixed(6)} ETH will be held in escrow
+                until you confirm delivery, and refunded if the order is cancelled or not delivered in time.
+              </p>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1083,8 +758,8 @@ const PurchaseForm: React.FC<{
           Cancel
         </Button>
         <Button 
-          onClick={() => onPurchase(quantity, address)}
-          disabled={!address.trim()}
+          onClick={() => reservationId && onPurchase(quantity, address, reservationId)}
+          disabled={!address.trim() || !canPurchase || !reservationId}
           className="flex-1"
         >
           <ShoppingCart className="h-4 w-4 mr-2" />
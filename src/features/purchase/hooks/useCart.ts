@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { safeJsonParse } from '@/lib/security';
+
+export interface CartLine {
+  batchId: string;
+  sellerId: string;
+  sellerName: string;
+  cropType: string;
+  variety?: string;
+  unitPrice: number;
+  quantity: number;
+  // Listed quantity when the line was added; checkout re-validates against the live listing
+  available: number;
+}
+
+export interface SellerGroup {
+  sellerId: string;
+  sellerName: string;
+  lines: CartLine[];
+  subtotal: number;
+}
+
+const storageKey = (profileId: string) => `cart_${profileId}`;
+
+/**
+ * Buyer's cart, kept in localStorage per profile so it survives reloads.
+ * One line per batch; adding a batch again raises its quantity up to what is listed.
+ */
+export function useCart(profileId: string | undefined) {
+  const [lines, setLines] = useState<CartLine[]>([]);
+
+  useEffect(() => {
+    setLines(profileId ? safeJsonParse<CartLine[]>(localStorage.getItem(storageKey(profileId)) || '[]', []) : []);
+  }, [profileId]);
+
+  const save = useCallback((update: (current: CartLine[]) => CartLine[]) => {
+    setLines(current => {
+      const next = update(current);
+      if (profileId) localStorage.setItem(storageKey(profileId), JSON.stringify(next));
+      return next;
+    });
+  }, [profileId]);
+
+  const addLine = useCallback((line: CartLine) => {
+    save(current => {
+      const existing = current.find(item => item.batchId === line.batchId);
+      if (!existing) return [...current, { ...line, quantity: Math.min(line.quantity, line.available) }];
+      return current.map(item => item.batchId === line.batchId
+        ? { ...line, quantity: Math.min(item.quantity + line.quantity, line.available) }
+        : item);
+    });
+  }, [save]);
+
+  const updateQuantity = useCallback((batchId: string, quantity: number) => {
+    save(current => current.map(item => item.batchId === batchId ? { ...item, quantity } : item));
+  }, [save]);
+
+  const removeLine = useCallback((batchId: string) => {
+    save(current => current.filter(item => item.batchId !== batchId));
+  }, [save]);
+
+  const clear = useCallback(() => save(() => []), [save]);
+
+  const sellerGroups: SellerGroup[] = [];
+  for (const line of lines) {
+    let group = sellerGroups.find(g => g.sellerId === line.sellerId);
+    if (!group) {
+      group = { sellerId: line.sellerId, sellerName: line.sellerName, lines: [], subtotal: 0 };
+      sellerGroups.push(group);
+    }
+    group.lines.push(line);
+    group.subtotal += line.quantity * line.unitPrice;
+  }
+
+  const total = sellerGroups.reduce((sum, group) => sum + group.subtotal, 0);
+
+  return { lines, sellerGroups, total, addLine, updateQuantity, removeLine, clear };
+}
+
+export type Cart = ReturnType<typeof useCart>;
@@ -0,0 +1,73 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useDebounce } from '@/hooks/useDebounce';
+import { reservationService, QuantityReservation } from '@/features/purchase/utils/reservationService';
+import { sanitizeError } from '@/lib/security';
+
+/**
+ * Keeps a checkout hold on the requested quantity while the purchase form is open.
+ * The hold follows quantity changes, counts down to its expiry and is released on unmount.
+ */
+export function useQuantityReservation(batchId: string | undefined, quantity: number) {
+  const [reservation, setReservation] = useState<QuantityReservation | null>(null);
+  const [reserving, setReserving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [attempt, setAttempt] = useState(0);
+  const debouncedQuantity = useDebounce(quantity, 400);
+  // Latest hold the server may still have, even after a failed re-reservation left the UI without one
+  const heldId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!batchId || !(debouncedQuantity > 0)) return;
+
+    let cancelled = false;
+    setReserving(true);
+    reservationService.reserve(batchId, debouncedQuantity)
+      .then(result => {
+        heldId.current = result.reservationId;
+        if (!cancelled) {
+          setReservation(result);
+          setError(null);
+        }
+      })
+      .catch(reserveError => {
+        if (!cancelled) {
+          setReservation(null);
+          setError(sanitizeError(reserveError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setReserving(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [batchId, debouncedQuantity, attempt]);
+
+  useEffect(() => {
+    if (!reservation) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.round((new Date(reservation.expiresAt).getTime() - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [reservation]);
+
+  useEffect(() => () => {
+    if (heldId.current) {
+      reservationService.release(heldId.current);
+    }
+  }, []);
+
+  const renew = useCallback(() => setAttempt(current => current + 1), []);
+
+  const expired = reservation !== null && secondsLeft === 0;
+  // Only a live hold for exactly the quantity on screen can be purchased
+  const ready = reservation !== null && !expired && !reserving && reservation.quantity === quantity;
+
+  return { reservation, reserving, error, secondsLeft, expired, ready, renew };
+}
@@ -0,0 +1,385 @@
+import { ethers } from 'ethers';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { ESCROW_INR_PER_ETH } from '@/contracts/config';
+import { getContractInstance, getReadOnlyProvider, toOnChainQuantity } from '@/features/blockchain/utils/contractUtils';
+import { canonicalStringify } from '@/features/blockchain/utils/transactionHashing';
+import { logger } from '@/lib/logger';
+import { sanitizeError, isValidUUID } from '@/lib/security';
+
+export type PurchaseEscrow = Tables<'purchase_escrows'>;
+export type EscrowStatus = 'funded' | 'delivered' | 'released' | 'refunded';
+
+export interface LockEscrowParams {
+  batchId: string;
+  blockchainBatchId: number;
+  buyerId: string;
+  sellerId: string;
+  sellerAddress: string;
+  quantity: number;
+  amountInr: number;
+  timeoutSeconds?: number;
+}
+
+export interface DeliveryProofData {
+  signature?: string;
+  photos?: string[];
+  location?: { lat: number; lng: number } | null;
+  timestamp: string;
+}
+
+// Undelivered escrows become refundable after this long
+const DEFAULT_ESCROW_TIMEOUT_SECONDS = 14 * 24 * 60 * 60;
+
+// Contract EscrowStatus enum: NONE, FUNDED, DELIVERED, RELEASED, REFUNDED
+const ON_CHAIN_STATUS: Record<number, EscrowStatus | null> = {
+  0: null,
+  1: 'funded',
+  2: 'delivered',
+  3: 'released',
+  4: 'refunded'
+};
+
+/**
+ * Escrow Service
+ * Buyers lock the order total in the contract at purchase time. Completing a delivery stores a
+ * proof-of-delivery hash; once the seller records it on-chain, the buyer's confirmation against that
+ * hash releases the funds to the seller and moves the purchased quantity to the buyer. Cancellation or an expired deadline
+ * refunds the buyer.
+ */
+export class EscrowService {
+  private static instance: EscrowService;
+
+  private constructor() {}
+
+  public static getInstance(): EscrowService {
+    if (!EscrowService.instance) {
+      EscrowService.instance = new EscrowService();
+    }
+    return EscrowService.instance;
+  }
+
+  /**
+   * Convert a rupee amount to the wei locked in escrow
+   */
+  public inrToWei(amountInr: number): bigint {
+    if (!Number.isFinite(amountInr) || amountInr <= 0) {
+      throw new Error(`Invalid escrow amount: ${amountInr}`);
+    }
+    return ethers.parseEther((amountInr / ESCROW_INR_PER_ETH).toFixed(18));
+  }
+
+  /**
+   * Lock the buyer's funds on-chain and record the escrow
+   */
+  public async lockPurchaseFunds(signer: ethers.Signer, params: LockEscrowParams): Promise<PurchaseEscrow> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+    if (!ethers.isAddress(params.sellerAddress)) {
+      throw new Error('Seller has no valid wallet address for escrow');
+    }
+
+    try {
+      const contract = getContractInstance(signer.provider, signer);
+      const quantity = toOnChainQuantity(params.quantity);
+      // The contract rejects less than the batch's own price for this quantity
+      const minimumWei: bigint = await contract.minimumEscrowAmount(params.blockchainBatchId, quantity);
+      const offeredWei = this.inrToWei(params.amountInr);
+      const amountWei = offeredWei > minimumWei ? offeredWei : minimumWei;
+
+      const tx = await contract.createEscrow(
+        params.blockchainBatchId,
+        params.sellerAddress,
+        quantity,
+        params.timeoutSeconds ?? DEFAULT_ESCROW_TIMEOUT_SECONDS,
+        { value: amountWei }
+      );
+      logger.debug('Escrow submitted', { hash: tx.hash, batchId: params.batchId });
+
+      const receipt = await tx.wait();
+      const created = receipt.logs
+        .map((log: ethers.Log) => {
+          try {
+            return contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+          } catch {
+            return null;
+          }
+        })
+        .find((parsed: ethers.LogDescription | null) => parsed?.name === 'EscrowCreated');
+
+      if (!created) {
+        throw new Error('Escrow transaction did not emit EscrowCreated');
+      }
+
+      const network = await signer.provider.getNetwork();
+      const { data, error } = await supabase
+        .from('purchase_escrows')
+        .insert({
+          escrow_id: Number(created.args.escrowId),
+          chain_id: Number(network.chainId),
+          blockchain_batch_id: params.blockchainBatchId,
+          batch_id: params.batchId,
+          buyer_id: params.buyerId,
+          seller_id: params.sellerId,
+          buyer_address: (await signer.getAddress()).toLowerCase(),
+          seller_address: params.sellerAddress.toLowerCase(),
+          amount_wei: amountWei.toString(),
+          amount_inr: params.amountInr,
+          quantity: params.quantity,
+          status: 'funded',
+          deadline: new Date(Number(created.args.deadline) * 1000).toISOString(),
+          create_tx_hash: receipt.hash
+        })
+        .select()
+        .single();
+
+      if (error || !data) {
+        // Funds are locked on-chain either way; the row can be rebuilt from the EscrowCreated event
+        logger.error('Error storing escrow record', { error, escrowId: Number(created.args.escrowId) });
+        throw new Error('Funds were locked but the escrow record could not be saved');
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Error locking purchase funds', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * Link an escrow to the purchase transaction and delivery request created after it
+   */
+  public async attachPurchase(
+    escrowRecordId: string,
+    links: { transactionId?: string; deliveryRequestId?: string }
+  ): Promise<void> {
+    const update: Partial<PurchaseEscrow> = { updated_at: new Date().toISOString() };
+    if (links.transactionId) update.transaction_id = links.transactionId;
+    if (links.deliveryRequestId) update.delivery_request_id = links.deliveryRequestId;
+
+    const { error } = await supabase
+      .from('purchase_escrows')
+      .update(update)
+      .eq('id', escrowRecordId);
+
+    if (error) {
+      logger.error('Error linking escrow to purchase', error);
+    }
+  }
+
+  /**
+   * Hash of a proof-of-delivery record; the buyer confirms against this value on-chain
+   */
+  public computeDeliveryProofHash(deliveryRequestId: string, proof: DeliveryProofData): string {
+    return ethers.keccak256(ethers.toUtf8Bytes(canonicalStringify({
+      deliveryRequestId,
+      signature: proof.signature,
+      photos: proof.photos,
+      location: proof.location,
+      timestamp: proof.timestamp
+    })));
+  }
+
+  /**
+   * Called when a delivery is completed: stores the proof hash so the buyer can confirm
+   */
+  public async recordDeliveryProof(deliveryRequestId: string, proof: DeliveryProofData): Promise<PurchaseEscrow | null> {
+    const escrow = await this.getEscrowByDeliveryRequest(deliveryRequestId);
+    if (!escrow || escrow.status !== 'funded') {
+      return escrow;
+    }
+
+    const deliveryProofHash = this.computeDeliveryProofHash(deliveryRequestId, proof);
+    return this.updateEscrow(escrow.id, { status: 'delivered', delivery_proof_hash: deliveryProofHash });
+  }
+
+  /**
+   * Buyer confirms receipt; the contract pays the seller once the seller has recorded the delivery on-chain
+   */
+  public async confirmDelivery(signer: ethers.Signer, escrow: PurchaseEscrow): Promise<PurchaseEscrow | null> {
+    if (escrow.status !== 'delivered' || !escrow.delivery_proof_hash) {
+      throw new Error('Delivery has not been completed yet');
+    }
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+
+    const onChain = await getContractInstance(signer.provider).escrows(escrow.escrow_id);
+    if (ON_CHAIN_STATUS[Number(onChain.status)] !== 'delivered') {
+      throw new Error('The seller has not recorded this delivery on-chain yet');
+    }
+
+    const receipt = await this.send(signer, 'confirmDelivery', [escrow.escrow_id, escrow.delivery_proof_hash]);
+    return this.updateEscrow(escrow.id, { status: 'released', release_tx_hash: receipt.hash });
+  }
+
+  /**
+   * Seller records the delivery on-chain, which starts the buyer's confirmation window
+   */
+  public async recordDeliveryOnChain(signer: ethers.Signer, escrow: PurchaseEscrow): Promise<void> {
+    if (!escrow.delivery_proof_hash) {
+      throw new Error('Delivery has not been completed yet');
+    }
+
+    await this.send(signer, 'recordDelivery', [escrow.escrow_id, escrow.delivery_proof_hash]);
+  }
+
+  /**
+   * Seller collects payment once the buyer's confirmation window has passed
+   */
+  public async claimPayment(signer: ethers.Signer, escrow: PurchaseEscrow): Promise<PurchaseEscrow | null> {
+    const receipt = await this.send(signer, 'claimEscrowPayment', [escrow.escrow_id]);
+    return this.updateEscrow(escrow.id, { status: 'released', release_tx_hash: receipt.hash });
+  }
+
+  /**
+   * Cancel and refund the buyer (buyer or seller before delivery, seller any time, anyone after the deadline,
+   * buyer when a delivered escrow has gone unreleased past the grace period)
+   */
+  public async refund(signer: ethers.Signer, escrow: PurchaseEscrow): Promise<PurchaseEscrow | null> {
+    const receipt = await this.send(signer, 'refundEscrow', [escrow.escrow_id]);
+    return this.updateEscrow(escrow.id, { status: 'refunded', refund_tx_hash: receipt.hash });
+  }
+
+  public async getEscrowByTransaction(transactionId: string): Promise<PurchaseEscrow | null> {
+    return this.findEscrow('transaction_id', transactionId);
+  }
+
+  public async getEscrowByDeliveryRequest(deliveryRequestId: string): Promise<PurchaseEscrow | null> {
+    if (!isValidUUID(deliveryRequestId)) {
+      return null;
+    }
+    return this.findEscrow('delivery_request_id', deliveryRequestId);
+  }
+
+  public async getBatchEscrows(batchId: string): Promise<PurchaseEscrow[]> {
+    if (!isValidUUID(batchId)) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('purchase_escrows')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error fetching batch escrows', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Pick up releases and refunds made outside the app (e.g. a refund claimed after the deadline)
+   */
+  public async syncWithChain(
+    escrow: PurchaseEscrow,
+    provider: ethers.Provider = getReadOnlyProvider(escrow.chain_id)
+  ): Promise<PurchaseEscrow> {
+    if (escrow.status === 'released' || escrow.status === 'refunded') {
+      return escrow;
+    }
+
+    try {
+      const contract = getContractInstance(provider, undefined, escrow.chain_id);
+      const onChain = await contract.escrows(escrow.escrow_id);
+      const status = ON_CHAIN_STATUS[Number(onChain.status)];
+
+      if (status === 'released' || status === 'refunded') {
+        return (await this.updateEscrow(escrow.id, { status })) || escrow;
+      }
+    } catch (error) {
+      logger.warn('Could not read escrow from contract', { escrowId: escrow.escrow_id, error });
+    }
+
+    return escrow;
+  }
+
+  /**
+   * True once a delivered escrow has gone unreleased past the contract's grace period, so the buyer may refund it
+   */
+  public async isReleaseStalled(
+    escrow: PurchaseEscrow,
+    provider: ethers.Provider = getReadOnlyProvider(escrow.chain_id)
+  ): Promise<boolean> {
+    if (escrow.status !== 'delivered') {
+      return false;
+    }
+
+    try {
+      const contract = getContractInstance(provider, undefined, escrow.chain_id);
+      const [onChain, confirmationWindow, gracePeriod] = await Promise.all([
+        contract.escrows(escrow.escrow_id),
+        contract.CONFIRMATION_WINDOW(),
+        contract.RELEASE_GRACE_PERIOD()
+      ]);
+
+      return ON_CHAIN_STATUS[Number(onChain.status)] === 'delivered' &&
+        Date.now() / 1000 > Number(onChain.deliveredAt + confirmationWindow + gracePeriod);
+    } catch (error) {
+      logger.warn('Could not read escrow from contract', { escrowId: escrow.escrow_id, error });
+      return false;
+    }
+  }
+
+  /**
+   * True once an undelivered escrow can be refunded by anyone
+   */
+  public isExpired(escrow: PurchaseEscrow): boolean {
+    return escrow.status === 'funded' && new Date(escrow.deadline).getTime() < Date.now();
+  }
+
+  private async send(signer: ethers.Signer, method: string, args: unknown[]): Promise<ethers.TransactionReceipt> {
+    if (!signer.provider) {
+      throw new Error('Signer is not connected to a provider');
+    }
+
+    try {
+      const contract = getContractInstance(signer.provider, signer);
+      const tx = await contract[method](...args);
+      return await tx.wait();
+    } catch (error) {
+      logger.error(`Error calling ${method} on escrow`, error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  private async findEscrow(column: 'transaction_id' | 'delivery_request_id', value: string): Promise<PurchaseEscrow | null> {
+    const { data, error } = await supabase
+      .from('purchase_escrows')
+      .select('*')
+      .eq(column, value)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching escrow', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  private async updateEscrow(id: string, update: Partial<PurchaseEscrow>): Promise<PurchaseEscrow | null> {
+    const { data, error } = await supabase
+      .from('purchase_escrows')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error updating escrow record', error);
+      return null;
+    }
+
+    return data;
+  }
+}
+
+// Export singleton instance
+export const escrowService = EscrowService.getInstance();
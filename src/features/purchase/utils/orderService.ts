@@ -0,0 +1,193 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toPurchaseError, PurchaseError, PurchaseReceipt } from '@/features/purchase/utils/purchaseService';
+import { createDeliveryRequest } from '@/features/truck-pooling/services/deliveryService';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export interface OrderLineRequest {
+  batchId: string;
+  quantity: number;
+  // Price the buyer was shown; checkout is refused if any batch price has changed since
+  unitPrice?: number | null;
+}
+
+export interface CheckoutOrderParams {
+  idempotencyKey: string;
+  lines: OrderLineRequest[];
+  deliveryAddress: string;
+}
+
+export type OrderLineReceipt = PurchaseReceipt & { lineNo: number };
+
+export interface OrderReceipt {
+  orderId: string;
+  buyerId: string;
+  lines: OrderLineReceipt[];
+  subtotal: number;
+  deliveryFee: number;
+  total: number;
+  placedAt: string;
+  // True when the key had already been used and the original order was returned
+  replayed: boolean;
+}
+
+export interface SellerSubtotal {
+  sellerId: string | null;
+  lines: OrderLineReceipt[];
+  quantityKg: number;
+  subtotal: number;
+}
+
+interface SourceLocation {
+  lat: number;
+  lng: number;
+  address: string;
+  ownerId: string;
+  ownerIds?: string[];
+}
+
+/**
+ * Order Service
+ * Checks out a multi-batch cart through the checkout_order database function, which validates
+ * every line together and buys them all or none. Afterwards the goods are grouped by pickup
+ * location into one delivery request each, carrying the per-seller subtotals into truck pooling.
+ * On-chain escrow and purchase certificates remain part of single-batch checkout.
+ */
+export class OrderService {
+  private static instance: OrderService;
+
+  private constructor() {}
+
+  public static getInstance(): OrderService {
+    if (!OrderService.instance) {
+      OrderService.instance = new OrderService();
+    }
+    return OrderService.instance;
+  }
+
+  /**
+   * Buy every line of the order. Throws PurchaseError listing all lines that do not fit.
+   */
+  public async checkout(params: CheckoutOrderParams): Promise<OrderReceipt> {
+    if (params.lines.length === 0) {
+      throw new PurchaseError('INVALID_REQUEST', 'The cart is empty');
+    }
+    if (params.lines.some(line => !isValidUUID(line.batchId))) {
+      throw new PurchaseError('INVALID_REQUEST', 'Invalid batch ID in cart');
+    }
+
+    const { data, error } = await supabase.rpc('checkout_order', {
+      p_idempotency_key: params.idempotencyKey,
+      p_lines: params.lines.map(line => ({
+        batchId: line.batchId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice ?? null
+      })),
+      p_delivery_address: sanitizeString(params.deliveryAddress, 500)
+    });
+
+    if (error) {
+      logger.warn('checkout_order failed', error);
+      throw toPurchaseError(error.message);
+    }
+
+    return data as unknown as OrderReceipt;
+  }
+
+  /**
+   * Order lines grouped by seller, with the kilograms and value each seller supplies
+   */
+  public getSellerSubtotals(order: OrderReceipt): SellerSubtotal[] {
+    const bySeller = new Map<string, SellerSubtotal>();
+    for (const line of order.lines) {
+      const key = line.sellerId || 'unknown';
+      const group = bySeller.get(key) || { sellerId: line.sellerId, lines: [], quantityKg: 0, subtotal: 0 };
+      group.lines.push(line);
+      group.quantityKg += Number(line.quantity);
+      group.subtotal += Number(line.subtotal);
+      bySeller.set(key, group);
+    }
+    return [...bySeller.values()];
+  }
+
+  /**
+   * Create one delivery request per pickup location. Each request carries its heaviest line as
+   * the main batch and the other lines as pooled batches whose share of the delivery cost follows
+   * their share of the goods value. Returns the delivery request IDs; a failed location is logged
+   * and skipped, as the goods are already bought.
+   */
+  public async createDeliveries(order: OrderReceipt, deliveryAddress: string): Promise<string[]> {
+    const sellers = this.getSellerSubtotals(order);
+    const sellerIds = sellers.map(seller => seller.sellerId).filter((id): id is string => Boolean(id));
+    const batchIds = order.lines.map(line => line.batchId);
+
+    const [{ data: sellerProfiles }, { data: batchDetails }] = await Promise.all([
+      supabase.from('profiles').select('id, farm_location').in('id', sellerIds),
+      supabase.from('batches').select('id, harvest_date, freshness_duration').in('id', batchIds)
+    ]);
+
+    // Sellers sharing a pickup address share a truck stop. A seller with no farm location has no
+    // address to share, so their goods get a request of their own.
+    const byLocation = new Map<string, { source: SourceLocation; lines: OrderLineReceipt[] }>();
+    for (const seller of sellers) {
+      const profile = sellerProfiles?.find(p => p.id === seller.sellerId);
+      const source = parseLocation(profile?.farm_location, seller.sellerId || '');
+      const key = profile?.farm_location
+        ? `address:${source.address.trim().toLowerCase()}`
+        : `seller:${seller.sellerId || 'unknown'}`;
+      const group = byLocation.get(key) || { source, lines: [] };
+      group.lines.push(...seller.lines);
+      byLocation.set(key, group);
+    }
+
+    const deliveryIds: string[] = [];
+    for (const { source, lines } of byLocation.values()) {
+      const [main, ...pooled] = [...lines].sort((a, b) => Number(b.quantity) - Number(a.quantity));
+      const groupSubtotal = lines.reduce((sum, line) => sum + Number(line.subtotal), 0);
+      const details = batchDetails?.find(b => b.id === main.batchId);
+      const ownerIds = [...new Set(lines.map(line => line.sellerId).filter((id): id is string => Boolean(id)))];
+
+      try {
+        const delivery = await createDeliveryRequest({
+          transactionId: main.transactionId,
+          batchId: main.batchId,
+          sourceLocation: { ...source, ownerId: main.sellerId || source.ownerId, ownerIds },
+          destinationLocation: { lat: 0, lng: 0, address: deliveryAddress, ownerId: order.buyerId },
+          quantityKg: Number(main.quantity),
+          harvestDate: details?.harvest_date || new Date().toISOString(),
+          freshnessDuration: Math.min(
+            ...lines.map(line => batchDetails?.find(b => b.id === line.batchId)?.freshness_duration || 7)
+          ),
+          orderId: order.orderId,
+          orderSubtotal: groupSubtotal,
+          pooledBatches: pooled.map(line => ({
+            batchId: line.batchId,
+            quantityKg: Number(line.quantity),
+            contributionPercentage: groupSubtotal > 0 ? (Number(line.subtotal) / groupSubtotal) * 100 : 0
+          }))
+        });
+        deliveryIds.push(delivery.id);
+      } catch (error) {
+        logger.warn('Could not create delivery request for order pickup', { orderId: order.orderId, source: source.address, error });
+      }
+    }
+
+    return deliveryIds;
+  }
+}
+
+// Seller locations are stored either as JSON with coordinates or as a plain address
+const parseLocation = (stored: string | null | undefined, ownerId: string): SourceLocation => {
+  if (!stored) {
+    return { lat: 0, lng: 0, address: 'Unknown', ownerId };
+  }
+  try {
+    const parsed = JSON.parse(stored);
+    return { lat: parsed.lat || 0, lng: parsed.lng || 0, address: parsed.address || stored, ownerId };
+  } catch {
+    return { lat: 0, lng: 0, address: stored, ownerId };
+  }
+};
+
+// Export singleton instance
+export const orderService = OrderService.getInstance();
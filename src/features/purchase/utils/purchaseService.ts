@@ -0,0 +1,146 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export interface PurchaseReceipt {
+  receiptId: string;
+  transactionId: string;
+  transactionType: 'PURCHASE' | 'RETAIL';
+  batchId: string;
+  marketplaceId: number;
+  sellerId: string | null;
+  buyerId: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  deliveryFee: number;
+  total: number;
+  remainingQuantity: number;
+  purchasedAt: string;
+  // True when the key had already been used and the original receipt was returned
+  replayed: boolean;
+}
+
+export interface PurchaseBatchParams {
+  idempotencyKey: string;
+  batchId: string;
+  quantity: number;
+  deliveryAddress: string;
+  // Price the buyer was shown; the purchase is refused if the batch price has changed since
+  unitPrice?: number | null;
+  // Unexpired hold from reservationService.reserve for exactly this quantity
+  reservationId: string;
+}
+
+export type PurchaseErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_AUTHENTICATED'
+  | 'NOT_FOUND'
+  | 'NOT_AVAILABLE'
+  | 'INSUFFICIENT_QUANTITY'
+  | 'PRICE_CHANGED'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'RESERVATION_INVALID'
+  | 'RESERVATION_EXPIRED'
+  | 'UNKNOWN';
+
+const PURCHASE_ERROR_CODES: PurchaseErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_AUTHENTICATED',
+  'NOT_FOUND',
+  'NOT_AVAILABLE',
+  'INSUFFICIENT_QUANTITY',
+  'PRICE_CHANGED',
+  'IDEMPOTENCY_CONFLICT',
+  'RESERVATION_INVALID',
+  'RESERVATION_EXPIRED'
+];
+
+/**
+ * Purchase or hold refused by the database; nothing was written
+ */
+export class PurchaseError extends Error {
+  constructor(public readonly code: PurchaseErrorCode, message: string) {
+    super(message);
+    this.name = 'PurchaseError';
+  }
+}
+
+// The procedures raise messages of the form "CODE: human readable detail"
+export const toPurchaseError = (message: string): PurchaseError => {
+  const match = /^([A-Z_]+):\s*(.*)$/.exec(message);
+  const code = match && PURCHASE_ERROR_CODES.find(c => c === match[1]);
+  return code ? new PurchaseError(code, match[2]) : new PurchaseError('UNKNOWN', message);
+};
+
+/**
+ * Purchase Service
+ * Runs a purchase through the purchase_batch database function, which checks the listing, moves
+ * ownership, records the transaction and fills the buyer's inventory in one transaction. Calls
+ * carry a client-generated idempotency key so a retry after a timeout returns the first receipt
+ * instead of buying twice.
+ */
+export class PurchaseService {
+  private static instance: PurchaseService;
+
+  private constructor() {}
+
+  public static getInstance(): PurchaseService {
+    if (!PurchaseService.instance) {
+      PurchaseService.instance = new PurchaseService();
+    }
+    return PurchaseService.instance;
+  }
+
+  /**
+   * Buy part or all of a listed batch. Throws PurchaseError when the purchase is refused.
+   */
+  public async purchaseBatch(params: PurchaseBatchParams): Promise<PurchaseReceipt> {
+    if (!isValidUUID(params.batchId)) {
+      throw new PurchaseError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+    if (!Number.isFinite(params.quantity) || params.quantity <= 0) {
+      throw new PurchaseError('INVALID_REQUEST', 'Quantity must be positive');
+    }
+
+    const { data, error } = await supabase.rpc('purchase_batch', {
+      p_idempotency_key: params.idempotencyKey,
+      p_batch_id: params.batchId,
+      p_quantity: params.quantity,
+      p_unit_price: params.unitPrice ?? null,
+      p_delivery_address: sanitizeString(params.deliveryAddress),
+      p_reservation_id: params.reservationId
+    });
+
+    if (error) {
+      logger.error('purchase_batch failed', error);
+      throw toPurchaseError(error.message);
+    }
+
+    const receipt = data as unknown as PurchaseReceipt;
+    logger.debug('Purchase completed', { transactionId: receipt.transactionId, replayed: receipt.replayed });
+    return receipt;
+  }
+
+  /**
+   * Receipt already issued for this key, if any. Used to skip steps that must only happen once,
+   * such as locking escrow, when a purchase is retried.
+   */
+  public async getReceipt(idempotencyKey: string): Promise<PurchaseReceipt | null> {
+    const { data, error } = await supabase
+      .from('purchase_receipts')
+      .select('receipt')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error loading purchase receipt', error);
+      throw error;
+    }
+
+    return data ? { ...(data.receipt as unknown as PurchaseReceipt), replayed: true } : null;
+  }
+}
+
+// Export singleton instance
+export const purchaseService = PurchaseService.getInstance();
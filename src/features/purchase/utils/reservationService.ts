@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toPurchaseError, PurchaseError } from '@/features/purchase/utils/purchaseService';
+import { logger } from '@/lib/logger';
+import { isValidUUID } from '@/lib/security';
+
+export interface QuantityReservation {
+  reservationId: string;
+  marketplaceId: number;
+  batchId: string;
+  quantity: number;
+  expiresAt: string;
+  // Listing quantity left for other buyers while this hold stands
+  availableAfterHold: number;
+}
+
+// How long checkout keeps kilograms aside for the buyer
+export const RESERVATION_HOLD_SECONDS = 10 * 60;
+
+/**
+ * Reservation Service
+ * Places short holds on listing quantity while a buyer is in checkout, so two buyers cannot both
+ * buy the same kilograms. Holds expire on their own; purchase_batch only accepts a live hold.
+ */
+export class ReservationService {
+  private static instance: ReservationService;
+
+  private constructor() {}
+
+  public static getInstance(): ReservationService {
+    if (!ReservationService.instance) {
+      ReservationService.instance = new ReservationService();
+    }
+    return ReservationService.instance;
+  }
+
+  /**
+   * Hold quantity on a batch's listing, replacing any hold this buyer already has on it.
+   * Throws PurchaseError when not enough unheld quantity remains.
+   */
+  public async reserve(batchId: string, quantity: number): Promise<QuantityReservation> {
+    if (!isValidUUID(batchId)) {
+      throw new PurchaseError('INVALID_REQUEST', 'Invalid batch ID');
+    }
+
+    const { data, error } = await supabase.rpc('reserve_quantity', {
+      p_batch_id: batchId,
+      p_quantity: quantity,
+      p_hold_seconds: RESERVATION_HOLD_SECONDS
+    });
+
+    if (error) {
+      logger.warn('reserve_quantity failed', error);
+      throw toPurchaseError(error.message);
+    }
+
+    return data as unknown as QuantityReservation;
+  }
+
+  /**
+   * Give held quantity back, e.g. when checkout is closed. Failures only delay availability until expiry.
+   */
+  public async release(reservationId: string): Promise<void> {
+    const { error } = await supabase.rpc('release_reservation', { p_reservation_id: reservationId });
+    if (error) {
+      logger.warn('Error releasing reservation; it will expire on its own', error);
+    }
+  }
+
+  /**
+   * Kilograms currently held on each listing, keyed by marketplace ID
+   */
+  public async getHeldQuantities(marketplaceIds: number[]): Promise<Map<number, number>> {
+    const held = new Map<number, number>();
+    if (marketplaceIds.length === 0) {
+      return held;
+    }
+
+    const { data, error } = await supabase
+      .from('marketplace_holds')
+      .select('marketplace_id, held_quantity')
+      .in('marketplace_id', marketplaceIds);
+
+    if (error) {
+      logger.warn('Error loading held quantities', error);
+      return held;
+    }
+
+    for (const row of data || []) {
+      if (row.marketplace_id !== null) {
+        held.set(row.marketplace_id, Number(row.held_quantity) || 0);
+      }
+    }
+    return held;
+  }
+}
+
+// Export singleton instance
+export const reservationService = ReservationService.getInstance();
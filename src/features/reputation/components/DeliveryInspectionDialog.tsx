@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, ClipboardCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { DeliveryRequest } from '@/features/truck-pooling/services/deliveryService';
+import { reputationService, declaredGradingOf } from '@/features/reputation/utils/reputationService';
+import { logger } from '@/lib/logger';
+import { safeJsonParse, sanitizeError } from '@/lib/security';
+
+const GRADES = ['Premium', 'Grade A', 'Grade B', 'Grade C', 'Standard'];
+
+interface DeliveryInspectionDialogProps {
+  delivery: DeliveryRequest;
+  buyerId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+// Locations are JSONB but older rows were stored as strings
+export const locationOwnerId = (location: DeliveryRequest['source_location'] | string): string | undefined => {
+  const parsed = typeof location === 'string'
+    ? safeJsonParse<{ owner_id?: string }>(location, {})
+    : location;
+  return parsed?.owner_id;
+};
+
+/**
+ * Buyer's check of a delivered order: grade found and any rejected or disputed quantity
+ */
+export const DeliveryInspectionDialog: React.FC<DeliveryInspectionDialogProps> = ({
+  delivery,
+  buyerId,
+  isOpen,
+  onClose,
+  onRecorded
+}) => {
+  const { toast } = useToast();
+  const [declaredGrading, setDeclaredGrading] = useState<string | null>(null);
+  const [inspectedGrading, setInspectedGrading] = useState('');
+  const [rejected, setRejected] = useState('0');
+  const [disputed, setDisputed] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    supabase
+      .from('batches')
+      .select('grading')
+      .eq('id', delivery.batch_id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          logger.warn('Could not load declared grading', error);
+        }
+        const declared = declaredGradingOf(data?.grading);
+        setDeclaredGrading(declared);
+        setInspectedGrading(current => current || declared || '');
+      });
+  }, [isOpen, delivery.batch_id]);
+
+  const handleSubmit = async () => {
+    const sellerId = locationOwnerId(delivery.source_location);
+    if (!sellerId) {
+      toast({ variant: 'destructive', title: 'Seller unknown', description: 'This delivery has no seller on record.' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await reputationService.recordInspection({
+        deliveryRequestId: delivery.id,
+        transactionId: delivery.transaction_id != null ? String(delivery.transaction_id) : null,
+        batchId: delivery.batch_id,
+        buyerId,
+        sellerId,
+        declaredGrading,
+        inspectedGrading: inspectedGrading || null,
+        expectedQuantity: delivery.quantity_kg,
+        rejectedQuantity: parseFloat(rejected) || 0,
+        disputedQuantity: parseFloat(disputed) || 0,
+        notes
+      });
+      toast({ title: 'Inspection recorded', description: "The seller's trust score has been updated." });
+      onRecorded();
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not record inspection', description: sanitizeError(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Inspect delivery
+          </DialogTitle>
+          <DialogDescription>
+            {delivery.quantity_kg} kg delivered. Declared grade: {declaredGrading || 'not stated'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Grade found on inspection</Label>
+            <Select value={inspectedGrading} onValueChange={setInspectedGrading}>
+              <SelectTrigger><SelectValue placeholder="Select grade" /></SelectTrigger>
+              <SelectContent>
+                {GRADES.map(grade => (
+                  <SelectItem key={grade} value={grade}>{grade}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="rejected-quantity">Rejected (kg)</Label>
+              <Input id="rejected-quantity" type="number" min="0" value={rejected} onChange={e => setRejected(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="disputed-quantity">Disputed (kg)</Label>
+              <Input id="disputed-quantity" type="number" min="0" value={disputed} onChange={e => setDisputed(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="inspection-notes">Notes</Label>
+            <Textarea id="inspection-notes" value={notes} onChange={e => setNotes(e.target.value)} placeholder="Shortfall, damage, moisture…" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record inspection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import { ShieldCheck } from 'lucide-react';
+import { ReputationBreakdown, ReputationComponentKey } from '@/features/reputation/utils/reputationService';
+
+const COMPONENT_LABELS: Record<ReputationComponentKey, { label: string; unit: string }> = {
+  onTimeDelivery: { label: 'On-time delivery', unit: 'deliveries' },
+  quantityIntegrity: { label: 'Quantity accepted', unit: 'inspections' },
+  gradingAccuracy: { label: 'Grading accuracy', unit: 'inspections' },
+  repeatPurchases: { label: 'Repeat buyers', unit: 'buyers' }
+};
+
+const scoreColor = (score: number) =>
+  score >= 75 ? 'bg-green-100 text-green-800' : score >= 50 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+
+interface ReputationBreakdownListProps {
+  reputation: ReputationBreakdown;
+}
+
+/**
+ * Per-component reputation rates with their sample sizes
+ */
+export const ReputationBreakdownList: React.FC<ReputationBreakdownListProps> = ({ reputation }) => (
+  <div className="space-y-3">
+    {(Object.keys(COMPONENT_LABELS) as ReputationComponentKey[]).map(key => {
+      const component = reputation.components[key];
+      return (
+        <div key={key} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span>{COMPONENT_LABELS[key].label}</span>
+            <span className="text-muted-foreground">
+              {component.value === null
+                ? 'No history'
+                : `${Math.round(component.value * 100)}% · ${component.samples} ${COMPONENT_LABELS[key].unit}`}
+            </span>
+          </div>
+          <Progress value={component.value === null ? 0 : component.value * 100} className="h-1.5" />
+        </div>
+      );
+    })}
+    <p className="text-xs text-muted-foreground">
+      Weighted {(Object.keys(COMPONENT_LABELS) as ReputationComponentKey[])
+        .map(key => `${COMPONENT_LABELS[key].label.toLowerCase()} ${Math.round(reputation.components[key].weight * 100)}%`)
+        .join(', ')}. Updated {new Date(reputation.computedAt).toLocaleString()}.
+    </p>
+  </div>
+);
+
+interface ReputationBadgeProps {
+  reputation?: ReputationBreakdown | null;
+}
+
+/**
+ * Compact trust score for listings; hover for the breakdown
+ */
+export const ReputationBadge: React.FC<ReputationBadgeProps> = ({ reputation }) => {
+  if (!reputation || reputation.score === null) {
+    return <Badge variant="outline" className="text-xs">New seller</Badge>;
+  }
+
+  return (
+    <HoverCard>
+      <HoverCardTrigger asChild>
+        <Badge variant="secondary" className={`text-xs cursor-help ${scoreColor(reputation.score)}`}>
+          <ShieldCheck className="h-3 w-3 mr-1" />
+          Trust {reputation.score}/100
+        </Badge>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <ReputationBreakdownList reputation={reputation} />
+      </HoverCardContent>
+    </HoverCard>
+  );
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { reputationService, ReputationBreakdown } from '@/features/reputation/utils/reputationService';
+import { logger } from '@/lib/logger';
+
+/**
+ * Trust scores for the sellers on a listing page, keyed by profile ID
+ */
+export function useReputations(profileIds: (string | null | undefined)[]) {
+  const [reputations, setReputations] = useState<Map<string, ReputationBreakdown>>(new Map());
+  const key = Array.from(new Set(profileIds.filter((id): id is string => Boolean(id)))).sort().join(',');
+
+  useEffect(() => {
+    if (!key) return;
+
+    let cancelled = false;
+    reputationService.getReputations(key.split(','))
+      .then(result => {
+        if (!cancelled) setReputations(result);
+      })
+      .catch(error => logger.error('Error loading seller reputations', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return reputations;
+}
@@ -0,0 +1,235 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { logger } from '@/lib/logger';
+import { isValidUUID, sanitizeString } from '@/lib/security';
+
+export type PurchaseInspection = Tables<'purchase_inspections'>;
+
+export type ReputationComponentKey = 'onTimeDelivery' | 'quantityIntegrity' | 'gradingAccuracy' | 'repeatPurchases';
+
+export interface ReputationComponent {
+  // Smoothed rate between 0 and 1, or null when there is no history to judge
+  value: number | null;
+  samples: number;
+  weight: number;
+}
+
+export interface ReputationBreakdown {
+  profileId: string;
+  // 0-100, or null when none of the components has any history
+  score: number | null;
+  components: Record<ReputationComponentKey, ReputationComponent>;
+  algorithmVersion: number;
+  computedAt: string;
+}
+
+export interface RecordInspectionParams {
+  deliveryRequestId: string;
+  transactionId?: string | null;
+  batchId: string;
+  buyerId: string;
+  sellerId: string;
+  declaredGrading: string | null;
+  inspectedGrading: string | null;
+  expectedQuantity: number;
+  rejectedQuantity: number;
+  disputedQuantity: number;
+  notes?: string;
+}
+
+// Bump with v_version in compute_reputation whenever weights, smoothing or component rules change,
+// so stored scores are recomputed
+export const REPUTATION_ALGORITHM_VERSION = 1;
+
+// Stored scores older than this are recomputed on read
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+// batches.grading may carry a legacy purchase history suffix
+export const declaredGradingOf = (grading: string | null | undefined): string | null => {
+  const declared = grading?.split('| Purchase History:')[0].trim();
+  return declared || null;
+};
+
+/**
+ * Reputation Service
+ * Computes trust scores for farmers, distributors and drivers from delivery punctuality, buyer
+ * inspections (rejected or disputed quantities and grading accuracy) and repeat purchases.
+ * Scores are snapshotted in reputation_scores with their breakdown and algorithm version.
+ * The on-chain tip reputation is separate and unchanged.
+ */
+export class ReputationService {
+  private static instance: ReputationService;
+
+  private constructor() {}
+
+  public static getInstance(): ReputationService {
+    if (!ReputationService.instance) {
+      ReputationService.instance = new ReputationService();
+    }
+    return ReputationService.instance;
+  }
+
+  /**
+   * Reputation of one participant, recomputed when the stored snapshot is missing or stale
+   */
+  public async getReputation(profileId: string, forceRefresh = false): Promise<ReputationBreakdown> {
+    if (!forceRefresh) {
+      const [stored] = await this.getStoredScores([profileId]);
+      if (stored && !this.isStale(stored)) {
+        return stored;
+      }
+    }
+    return this.computeForProfile(profileId);
+  }
+
+  /**
+   * Reputations for a set of participants keyed by profile ID, for listings
+   */
+  public async getReputations(profileIds: string[]): Promise<Map<string, ReputationBreakdown>> {
+    const ids = Array.from(new Set(profileIds.filter(isValidUUID)));
+    const result = new Map<string, ReputationBreakdown>();
+    if (ids.length === 0) {
+      return result;
+    }
+
+    for (const stored of await this.getStoredScores(ids)) {
+      if (!this.isStale(stored)) {
+        result.set(stored.profileId, stored);
+      }
+    }
+
+    for (const profileId of ids.filter(id => !result.has(id))) {
+      try {
+        result.set(profileId, await this.computeForProfile(profileId));
+      } catch (error) {
+        logger.warn('Could not compute reputation', { profileId, error });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Score a participant's history and store the snapshot. Runs in the database (compute_reputation)
+   * so clients can neither write scores nor need read access to everyone's inspections.
+   */
+  public async computeForProfile(profileId: string): Promise<ReputationBreakdown> {
+    if (!isValidUUID(profileId)) {
+      throw new Error('Invalid profile ID');
+    }
+
+    const { data, error } = await supabase.rpc('compute_reputation', { p_profile_id: profileId });
+    if (error || !data) {
+      logger.error('Error computing reputation:', error);
+      throw new Error('Failed to compute reputation');
+    }
+
+    return data as unknown as ReputationBreakdown;
+  }
+
+  /**
+   * Record the buyer's inspection of a delivery and rescore the seller
+   */
+  public async recordInspection(params: RecordInspectionParams): Promise<PurchaseInspection> {
+    const { expectedQuantity, rejectedQuantity, disputedQuantity } = params;
+    if (![params.deliveryRequestId, params.batchId, params.buyerId, params.sellerId].every(isValidUUID)) {
+      throw new Error('Invalid inspection reference');
+    }
+    if (params.buyerId === params.sellerId) {
+      throw new Error('A seller cannot inspect their own delivery');
+    }
+    if ([expectedQuantity, rejectedQuantity, disputedQuantity].some(value => !Number.isFinite(value) || value < 0)) {
+      throw new Error('Quantities must be zero or more');
+    }
+    if (rejectedQuantity + disputedQuantity > expectedQuantity) {
+      throw new Error('Rejected and disputed quantities cannot exceed the delivered quantity');
+    }
+
+    const row: TablesInsert<'purchase_inspections'> = {
+      delivery_request_id: params.deliveryRequestId,
+      transaction_id: params.transactionId ?? null,
+      batch_id: params.batchId,
+      buyer_id: params.buyerId,
+      seller_id: params.sellerId,
+      declared_grading: params.declaredGrading,
+      inspected_grading: params.inspectedGrading,
+      expected_quantity: expectedQuantity,
+      accepted_quantity: expectedQuantity - rejectedQuantity - disputedQuantity,
+      rejected_quantity: rejectedQuantity,
+      disputed_quantity: disputedQuantity,
+      notes: params.notes ? sanitizeString(params.notes, 1000) : null
+    };
+
+    const { data, error } = await supabase
+      .from('purchase_inspections')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error recording inspection:', error);
+      throw new Error(error.code === '23505' ? 'This delivery has already been inspected' : 'Failed to record inspection');
+    }
+
+    try {
+      await this.computeForProfile(params.sellerId);
+    } catch (scoreError) {
+      logger.warn('Could not rescore seller after inspection', scoreError);
+    }
+
+    return data;
+  }
+
+  /**
+   * Inspections already recorded for a set of deliveries, keyed by delivery request ID
+   */
+  public async getInspections(deliveryRequestIds: string[]): Promise<Map<string, PurchaseInspection>> {
+    const result = new Map<string, PurchaseInspection>();
+    if (deliveryRequestIds.length === 0) {
+      return result;
+    }
+
+    const { data, error } = await supabase
+      .from('purchase_inspections')
+      .select('*')
+      .in('delivery_request_id', deliveryRequestIds);
+
+    if (error) {
+      logger.error('Error fetching inspections:', error);
+      throw new Error('Failed to fetch inspections');
+    }
+
+    for (const inspection of data || []) {
+      result.set(inspection.delivery_request_id, inspection);
+    }
+    return result;
+  }
+
+  private async getStoredScores(profileIds: string[]): Promise<ReputationBreakdown[]> {
+    const { data, error } = await supabase
+      .from('reputation_scores')
+      .select('*')
+      .in('profile_id', profileIds);
+
+    if (error) {
+      logger.warn('Failed to load stored reputation scores', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      profileId: row.profile_id,
+      score: row.score,
+      components: row.breakdown as unknown as ReputationBreakdown['components'],
+      algorithmVersion: row.algorithm_version,
+      computedAt: row.computed_at ?? new Date(0).toISOString()
+    }));
+  }
+
+  private isStale(breakdown: ReputationBreakdown): boolean {
+    return breakdown.algorithmVersion !== REPUTATION_ALGORITHM_VERSION ||
+      Date.now() - new Date(breakdown.computedAt).getTime() > STALE_AFTER_MS;
+  }
+}
+
+// Export singleton instance
+export const reputationService = ReputationService.getInstance();
@@ -8,6 +8,8 @@ import { transactionManager } from '@/features/blockchain/utils/transactionManag
 import { immutableCertificateGenerator } from '@/features/certificate/utils/immutableCertificateGenerator';
 import { TransactionChain, SupplyChainTransaction } from '@/types/transaction';
 import { supabase } from '@/integrations/supabase/client';
+import { escrowService, PurchaseEscrow } from '@/features/purchase/utils/escrowService';
+import { EscrowStatusPanel } from '@/features/purchase/components/EscrowStatusPanel';
 import { 
   Download, 
   Users, 
@@ -30,6 +32,7 @@ export const ImmutableSupplyChainDisplay: React.FC<ImmutableSupplyChainDisplayPr
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState(false);
   const [batchCurrentOwner, setBatchCurrentOwner] = useState<string | null>(null);
+  const [escrows, setEscrows] = useState<PurchaseEscrow[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -142,6 +145,7 @@ export const ImmutableSupplyChainDisplay: React.FC<ImmutableSupplyChainDisplayPr
 
     if (batchId) {
       loadTransactionChain();
+      escrowService.getBatchEscrows(batchId).then(setEscrows);
     }
   }, [batchId, toast]);
 
@@ -395,6 +399,26 @@ export const ImmutableSupplyChainDisplay: React.FC<ImmutableSupplyChainDisplayPr
         </CardContent>
       </Card>
 
+      {/* Escrowed Payments */}
+      {escrows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Escrowed Payments
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {escrows.map((escrow, index) => (
+              <div key={escrow.id}>
+                {index > 0 && <Separator className="mb-4" />}
+                <EscrowStatusPanel escrow={escrow} readOnly />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Certificate Download */}
       <Card>
         <CardHeader>
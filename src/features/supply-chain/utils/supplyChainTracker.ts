@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { SupplyChainTransaction, EnhancedBatchData } from '@/features/certificate/utils/certificateGenerator';
 import { createUpdatedCertificate } from '@/features/ipfs/utils/ipfsRealityCheck';
+import { batchLineageManager } from '@/features/blockchain/utils/batchLineageManager';
 
 /**
  * Store a new supply chain transaction
@@ -255,6 +256,17 @@ export const getEnhancedBatchData = async (batchId: string): Promise<EnhancedBat
       }
     }
 
+    // Trace split/merged batches back to every source harvest
+    const lineage = await batchLineageManager.getLineageGraph(batchId);
+    const sourceHarvests = lineage.edges.length > 0
+      ? lineage.sourceHarvestIds.map(sourceId => ({
+          batchId: sourceId,
+          crop: lineage.nodes[sourceId]?.crop || '',
+          variety: lineage.nodes[sourceId]?.variety || '',
+          harvestDate: lineage.nodes[sourceId]?.harvestDate
+        }))
+      : undefined;
+
     // Convert to enhanced batch data format
     const enhancedBatch: EnhancedBatchData = {
       id: batch.blockchain_id || batch.blockchain_batch_id || parseInt(batchId),
@@ -277,7 +289,8 @@ export const getEnhancedBatchData = async (batchId: string): Promise<EnhancedBat
       currentOwner: currentOwner,
       transactionHistory,
       currentQuantity: currentQuantity,
-      originalQuantity: batch.harvest_quantity || 0
+      originalQuantity: batch.harvest_quantity || 0,
+      sourceHarvests
     };
 
     return enhancedBatch;
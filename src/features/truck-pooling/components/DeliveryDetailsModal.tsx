@@ -19,6 +19,9 @@ import {
 import { DeliveryRequest, completeDelivery, getDeliveryBatches } from '@/features/truck-pooling/services/deliveryService';
 import { toast } from '@/hooks/use-toast';
 import { DeliveryMap } from './DeliveryMap';
+import { useAuth } from '@/contexts/AuthContext';
+import { escrowService, PurchaseEscrow } from '@/features/purchase/utils/escrowService';
+import { EscrowStatusPanel } from '@/features/purchase/components/EscrowStatusPanel';
 
 interface DeliveryDetailsModalProps {
   delivery: DeliveryRequest;
@@ -37,6 +40,8 @@ export const DeliveryDetailsModal: React.FC<DeliveryDetailsModalProps> = ({
   const [podPhotos, setPodPhotos] = useState<string[]>([]);
   const [podSignature, setPodSignature] = useState<string>('');
   const [deliveryBatches, setDeliveryBatches] = useState<any[]>([]);
+  const [escrow, setEscrow] = useState<PurchaseEscrow | null>(null);
+  const { profile } = useAuth();
 
   const formatAddress = (location: any) => {
     if (typeof location === 'string') {
@@ -143,6 +148,13 @@ export const DeliveryDetailsModal: React.FC<DeliveryDetailsModalProps> = ({
     }
   }, [delivery.id, isOpen]);
 
+  // Load escrow for the purchase behind this delivery
+  useEffect(() => {
+    if (isOpen) {
+      escrowService.getEscrowByDeliveryRequest(delivery.id).then(setEscrow);
+    }
+  }, [delivery.id, delivery.status, isOpen]);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -360,6 +372,15 @@ export const DeliveryDetailsModal: React.FC<DeliveryDetailsModalProps> = ({
             </Card>
           </div>
 
+          {/* Escrow */}
+          {escrow && (
+            <Card>
+              <CardContent className="pt-6">
+                <EscrowStatusPanel escrow={escrow} viewerProfileId={profile?.id} onChange={setEscrow} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Proof of Delivery Section */}
           {delivery.status === 'in_transit' && (
             <Card>
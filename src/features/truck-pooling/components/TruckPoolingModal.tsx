@@ -201,6 +201,9 @@ export const TruckPoolingModal: React.FC<TruckPoolingModalProps> = ({
                           <div className="flex items-center gap-1 text-sm text-muted-foreground">
                             <DollarSign className="h-4 w-4" />
                             <span>₹{batch.delivery_fee?.toFixed(2) || '0.00'}</span>
+                            {batch.order_subtotal != null && (
+                              <span className="ml-2">· Goods ₹{Number(batch.order_subtotal).toLocaleString()}</span>
+                            )}
                           </div>
                         </div>
                         
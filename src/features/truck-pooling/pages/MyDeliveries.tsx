@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUserDeliveryRequests } from '@/features/truck-pooling/hooks/useDeliveryRequests';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,16 +11,41 @@ import {
   DollarSign,
   Loader2,
   CheckCircle,
+  ClipboardCheck,
   Truck
 } from 'lucide-react';
 import { DeliveryDetailsModal } from '@/features/truck-pooling/components/DeliveryDetailsModal';
 import { DeliveryRequest } from '@/features/truck-pooling/services/deliveryService';
+import { DeliveryInspectionDialog, locationOwnerId } from '@/features/reputation/components/DeliveryInspectionDialog';
+import { reputationService, PurchaseInspection } from '@/features/reputation/utils/reputationService';
+import { logger } from '@/lib/logger';
 
 export const MyDeliveries = () => {
   const { profile } = useAuth();
   const { deliveries, loading } = useUserDeliveryRequests();
   const [selectedDelivery, setSelectedDelivery] = useState<DeliveryRequest | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [inspections, setInspections] = useState<Map<string, PurchaseInspection>>(new Map());
+  const [inspecting, setInspecting] = useState<DeliveryRequest | null>(null);
+
+  useEffect(() => {
+    loadInspections();
+  }, [deliveries]);
+
+  const loadInspections = async () => {
+    try {
+      setInspections(await reputationService.getInspections(deliveries.map(delivery => delivery.id)));
+    } catch (error) {
+      logger.error('Error loading delivery inspections', error);
+    }
+  };
+
+  // Only the buyer inspects, once the goods have arrived
+  const canInspect = (delivery: DeliveryRequest) =>
+    delivery.status === 'delivered' &&
+    !!profile &&
+    locationOwnerId(delivery.destination_location) === profile.id &&
+    !inspections.has(delivery.id);
 
   const formatAddress = (location: any) => {
     if (typeof location === 'string') {
@@ -151,6 +176,21 @@ export const MyDeliveries = () => {
                       )}
                     </Badge>
                   )}
+                  {inspections.has(delivery.id) && (
+                    <Badge variant="outline">
+                      <ClipboardCheck className="h-3 w-3 mr-1" /> Inspected
+                    </Badge>
+                  )}
+                  {canInspect(delivery) && (
+                    <Button
+                      size="sm"
+                      onClick={() => setInspecting(delivery)}
+                      className="w-full"
+                    >
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      Inspect Delivery
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -177,6 +217,16 @@ export const MyDeliveries = () => {
           onUpdate={() => {}}
         />
       )}
+
+      {inspecting && profile && (
+        <DeliveryInspectionDialog
+          delivery={inspecting}
+          buyerId={profile.id}
+          isOpen={!!inspecting}
+          onClose={() => setInspecting(null)}
+          onRecorded={loadInspections}
+        />
+      )}
     </div>
   );
 };
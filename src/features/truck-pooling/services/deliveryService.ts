@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { logger } from '@/lib/logger';
 import { safeJsonParse, sanitizeError, validateInteger } from '@/lib/security';
+import { escrowService } from '@/features/purchase/utils/escrowService';
 
 export interface DeliveryRequest {
   id: string;
@@ -11,6 +12,8 @@ export interface DeliveryRequest {
     lng: number;
     address: string;
     owner_id: string;
+    // Every seller with goods on the request, when several share the pickup
+    owner_ids?: string[];
   };
   destination_location: {
     lat: number;
@@ -41,6 +44,9 @@ export interface DeliveryRequest {
     lng: number;
   };
   buyer_confirmation?: boolean;
+  // Set when the delivery was created by a multi-batch order checkout
+  order_id?: string;
+  order_subtotal?: number;
   created_at: string;
   updated_at: string;
   batches?: Record<string, unknown>;
@@ -55,6 +61,7 @@ export interface CreateDeliveryRequestParams {
     lng: number;
     address: string;
     ownerId: string;
+    ownerIds?: string[];
   };
   destinationLocation: {
     lat: number;
@@ -65,6 +72,18 @@ export interface CreateDeliveryRequestParams {
   quantityKg: number;
   harvestDate: string;
   freshnessDuration: number;
+  orderId?: string;
+  // Value of the goods on this request, including pooled lines
+  orderSubtotal?: number;
+  // Further batches from the same source travelling on this request
+  pooledBatches?: PooledBatch[];
+}
+
+export interface PooledBatch {
+  batchId: string;
+  quantityKg: number;
+  // Share of the delivery cost, in percent of the whole request
+  contributionPercentage: number;
 }
 
 /**
@@ -150,8 +169,10 @@ export async function createDeliveryRequest(
     const deadline = calculateDeliveryDeadline(params.harvestDate, params.freshnessDuration);
     const urgencyScore = calculateUrgencyScore(deadline);
 
-    // Calculate delivery fee
-    const deliveryFee = calculateDeliveryFee(distance, params.quantityKg, urgencyScore);
+    // Calculate delivery fee on the full load, including pooled batches
+    const pooledBatches = params.pooledBatches || [];
+    const totalWeightKg = pooledBatches.reduce((sum, pooled) => sum + pooled.quantityKg, params.quantityKg);
+    const deliveryFee = calculateDeliveryFee(distance, totalWeightKg, urgencyScore);
 
     // Create delivery request
     logger.debug('Creating delivery request', {
@@ -178,14 +199,27 @@ export async function createDeliveryRequest(
     const insertData = {
       transaction_id: transactionIdNum,
       batch_id: params.batchId,
-      source_location: params.sourceLocation,
-      destination_location: params.destinationLocation,
+      source_location: {
+        lat: params.sourceLocation.lat,
+        lng: params.sourceLocation.lng,
+        address: params.sourceLocation.address,
+        owner_id: params.sourceLocation.ownerId,
+        ...(params.sourceLocation.ownerIds ? { owner_ids: params.sourceLocation.ownerIds } : {}),
+      },
+      destination_location: {
+        lat: params.destinationLocation.lat,
+        lng: params.destinationLocation.lng,
+        address: params.destinationLocation.address,
+        owner_id: params.destinationLocation.ownerId,
+      },
       quantity_kg: params.quantityKg,
       delivery_deadline: deadline.toISOString(),
       urgency_score: urgencyScore,
       delivery_fee: deliveryFee,
       status: 'pending',
-      payment_status: 'pending',
+      payment_status: pooledBatches.length > 0 ? 'split_pending' : 'pending',
+      order_id: params.orderId || null,
+      order_subtotal: params.orderSubtotal ?? null,
     };
 
     logger.debug('Inserting delivery request data');
@@ -203,6 +237,30 @@ export async function createDeliveryRequest(
 
     logger.debug('Delivery request created successfully', { id: data.id });
 
+    if (pooledBatches.length > 0) {
+      const { error: pooledError } = await supabase
+        .from('delivery_batches')
+        .insert(pooledBatches.map(pooled => ({
+          delivery_request_id: data.id,
+          batch_id: pooled.batchId,
+          quantity_kg: pooled.quantityKg,
+          owner_contribution_percentage: pooled.contributionPercentage,
+        })));
+
+      if (pooledError) {
+        logger.error('Error adding pooled batches to delivery request', pooledError);
+        // Without its pooled batches the request would under-charge and under-load the truck; remove it
+        const { error: cleanupError } = await supabase
+          .from('delivery_requests')
+          .delete()
+          .eq('id', data.id);
+        if (cleanupError) {
+          logger.error('Error removing incomplete delivery request', { id: data.id, cleanupError });
+        }
+        throw pooledError;
+      }
+    }
+
     // Notify available drivers
     await notifyDrivers(data.id);
 
@@ -213,6 +271,24 @@ export async function createDeliveryRequest(
   }
 }
 
+/**
+ * Kilograms carried as pooled batches on each delivery request, on top of its own quantity
+ */
+async function getPooledLoadKg(deliveryRequestIds: string[]): Promise<Map<string, number>> {
+  const load = new Map<string, number>();
+  if (deliveryRequestIds.length === 0) return load;
+
+  const { data } = await supabase
+    .from('delivery_batches')
+    .select('delivery_request_id, quantity_kg')
+    .in('delivery_request_id', deliveryRequestIds);
+
+  for (const row of data || []) {
+    load.set(row.delivery_request_id, (load.get(row.delivery_request_id) || 0) + parseFloat(row.quantity_kg.toString()));
+  }
+  return load;
+}
+
 /**
  * Notify available drivers about a new delivery request
  */
@@ -227,7 +303,8 @@ export async function notifyDrivers(deliveryRequestId: string): Promise<void> {
 
     if (!deliveryRequest) return;
 
-    const sourceLocation = deliveryRequest.source_location as any;
+    const pooledLoad = await getPooledLoadKg([deliveryRequestId]);
+    const loadKg = parseFloat(deliveryRequest.quantity_kg.toString()) + (pooledLoad.get(deliveryRequestId) || 0);
     
     // Find available drivers using driver_profiles table (separate from profiles)
     // Only notify drivers who have completed registration (have vehicle_type)
@@ -241,7 +318,7 @@ export async function notifyDrivers(deliveryRequestId: string): Promise<void> {
       `)
       .eq('is_available', true)
       .not('vehicle_type', 'is', null) // Only fully registered drivers
-      .gte('vehicle_capacity_kg', deliveryRequest.quantity_kg);
+      .gte('vehicle_capacity_kg', loadKg);
 
     if (!drivers || drivers.length === 0) {
       logger.warn('No available drivers found for delivery request', { deliveryRequestId });
@@ -255,7 +332,7 @@ export async function notifyDrivers(deliveryRequestId: string): Promise<void> {
       driver_id: driver.profile_id, // Use profile_id from driver_profiles
       delivery_request_id: deliveryRequestId,
       notification_type: 'new_delivery',
-      message: `New delivery request available: ${deliveryRequest.quantity_kg}kg`,
+      message: `New delivery request available: ${loadKg}kg`,
       is_read: false,
     }));
 
@@ -395,15 +472,17 @@ export async function completeDelivery(
       ? new Date() <= new Date(delivery.delivery_deadline)
       : true;
 
+    const podTimestamp = new Date().toISOString();
+
     const { error } = await supabase
       .from('delivery_requests')
       .update({
         status: 'delivered',
-        delivered_at: new Date().toISOString(),
+        delivered_at: podTimestamp,
         pod_signature: podData.signature,
         pod_photos: podData.photos,
         pod_location: podData.location,
-        pod_timestamp: new Date().toISOString(),
+        pod_timestamp: podTimestamp,
         delivered_on_time: deliveredOnTime,
         updated_at: new Date().toISOString(),
       })
@@ -411,6 +490,13 @@ export async function completeDelivery(
 
     if (error) throw error;
 
+    // Proof of delivery unlocks the buyer's escrow confirmation
+    try {
+      await escrowService.recordDeliveryProof(deliveryRequestId, { ...podData, timestamp: podTimestamp });
+    } catch (escrowError) {
+      logger.error('Error recording delivery proof on escrow:', escrowError);
+    }
+
     // Mark driver as available again in driver_profiles table
     const { data: deliveryRequest } = await supabase
       .from('delivery_requests')
@@ -481,6 +567,29 @@ async function calculateAndCreateSplitPayments(deliveryRequestId: string): Promi
           });
         }
       }
+
+      // Percentages are shares of the whole load, so what is left belongs to the request's own batch
+      const pooledPercentage = deliveryBatches.reduce(
+        (sum, db) => sum + (db.owner_contribution_percentage || 0),
+        0
+      );
+      if (pooledPercentage > 0 && pooledPercentage < 100) {
+        const { data: mainBatch } = await supabase
+          .from('batches')
+          .select('current_owner')
+          .eq('id', delivery.batch_id)
+          .single();
+
+        if (mainBatch?.current_owner) {
+          await supabase.from('delivery_payments').insert({
+            delivery_request_id: deliveryRequestId,
+            batch_id: delivery.batch_id,
+            owner_id: mainBatch.current_owner,
+            amount: (delivery.delivery_fee || 0) * ((100 - pooledPercentage) / 100),
+            payment_status: 'pending',
+          });
+        }
+      }
     } else {
       // Single batch delivery
       const { data: batch } = await supabase
@@ -681,7 +790,7 @@ export async function findCompatibleBatches(
     // Get all pending deliveries
     const { data: allPendingDeliveries, error: compatibleError } = await supabase
       .from('delivery_requests')
-      .select('id, batch_id, quantity_kg, source_location, destination_location, delivery_fee, urgency_score')
+      .select('id, batch_id, quantity_kg, source_location, destination_location, delivery_fee, urgency_score, order_subtotal')
       .eq('status', 'pending')
       .neq('id', deliveryRequestId);
 
@@ -690,6 +799,9 @@ export async function findCompatibleBatches(
       return [];
     }
 
+    // Order deliveries bring their pooled lines along, so they need room for those too
+    const pooledLoad = await getPooledLoadKg((allPendingDeliveries || []).map((delivery: any) => delivery.id));
+
     // Filter by same destination and exclude existing batches
     // Compare by lat/lng for more reliable matching (within 0.001 degrees ≈ 111 meters)
     const compatibleDeliveries = (allPendingDeliveries || [])
@@ -711,7 +823,7 @@ export async function findCompatibleBatches(
           deliveryLng = deliveryDest.lng;
         }
         
-        const quantity = parseFloat(delivery.quantity_kg.toString());
+        const quantity = parseFloat(delivery.quantity_kg.toString()) + (pooledLoad.get(delivery.id) || 0);
         const latDiff = Math.abs((currentDestLat || 0) - (deliveryLat || 0));
         const lngDiff = Math.abs((currentDestLng || 0) - (deliveryLng || 0));
         const isSameDestination = latDiff <= 0.001 && lngDiff <= 0.001; // Same location within 111m
@@ -739,10 +851,11 @@ export async function findCompatibleBatches(
           batch_id: delivery.batch_id,
           crop_type: batch?.crop_type || 'Unknown',
           variety: batch?.variety || 'N/A',
-          quantity_kg: parseFloat(delivery.quantity_kg.toString()),
+          quantity_kg: parseFloat(delivery.quantity_kg.toString()) + (pooledLoad.get(delivery.id) || 0),
           source_location: delivery.source_location,
           delivery_fee: delivery.delivery_fee,
           urgency_score: delivery.urgency_score,
+          order_subtotal: delivery.order_subtotal,
           owner_id: batch?.current_owner,
         };
       })
@@ -844,10 +957,20 @@ export async function addBatchToDelivery(
       throw new Error('Batch already in this delivery');
     }
 
+    // Batches pooled on the added delivery by an order checkout move with it
+    const { data: carriedBatches } = await supabase
+      .from('delivery_batches')
+      .select('id, quantity_kg')
+      .eq('delivery_request_id', batchDeliveryId);
+    const carriedQuantity = (carriedBatches || []).reduce(
+      (sum: number, cb: any) => sum + parseFloat(cb.quantity_kg.toString()),
+      0
+    );
+
     // Calculate new total quantity and update delivery fee
     const currentQuantity = parseFloat(delivery.quantity_kg.toString());
     const newQuantity = parseFloat(batchDelivery.quantity_kg.toString());
-    const totalQuantity = currentQuantity + newQuantity;
+    const totalQuantity = currentQuantity + newQuantity + carriedQuantity;
 
     // Recalculate delivery fee based on total weight
     // Simple calculation: base fee + (distance * rate) + (weight * rate)
@@ -870,6 +993,17 @@ export async function addBatchToDelivery(
       throw addBatchError;
     }
 
+    if (carriedBatches && carriedBatches.length > 0) {
+      const { error: carryError } = await supabase
+        .from('delivery_batches')
+        .update({ delivery_request_id: deliveryRequestId })
+        .in('id', carriedBatches.map((cb: any) => cb.id));
+
+      if (carryError) {
+        throw carryError;
+      }
+    }
+
     // Update delivery request with new total
     const { error: updateError } = await supabase
       .from('delivery_requests')
@@ -928,7 +1062,7 @@ export async function addBatchToDelivery(
       driver_id: driverId,
       delivery_request_id: deliveryRequestId,
       notification_type: 'batch_added',
-      message: `Added ${newQuantity}kg batch to your delivery. Total: ${totalQuantity}kg`,
+      message: `Added ${newQuantity + carriedQuantity}kg to your delivery. Total: ${totalQuantity}kg`,
       is_read: false,
     });
   } catch (error) {
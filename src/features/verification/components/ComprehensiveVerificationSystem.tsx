@@ -20,6 +20,9 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { parseQRCodeData } from '@/features/qr-code/utils/qrCodeUtils';
+import { transactionManager } from '@/features/blockchain/utils/transactionManager';
+import { transferAttestationService, AttestationVerification } from '@/features/blockchain/utils/transferAttestation';
+import { describeAttestation } from '@/features/blockchain/components/TransferAttestationPanel';
 
 interface VerificationResult {
   isValid: boolean;
@@ -45,6 +48,7 @@ export const ComprehensiveVerificationSystem: React.FC<ComprehensiveVerification
   const [loading, setLoading] = useState(false);
   const [batchDetails, setBatchDetails] = useState<any>(null);
   const [transactionHistory, setTransactionHistory] = useState<any[]>([]);
+  const [attestations, setAttestations] = useState<Record<string, AttestationVerification>>({});
   const { toast } = useToast();
 
   useEffect(() => {
@@ -59,6 +63,7 @@ export const ComprehensiveVerificationSystem: React.FC<ComprehensiveVerification
       setVerificationResult(null);
       setBatchDetails(null);
       setTransactionHistory([]);
+      setAttestations({});
 
       // Try to parse as JSON first (structured QR data)
       let parsedData;
@@ -361,6 +366,14 @@ export const ComprehensiveVerificationSystem: React.FC<ComprehensiveVerification
       if (!transError && transactions) {
         setTransactionHistory(transactions);
       }
+
+      // Parties are shown by the wallets that signed each transfer
+      const stored = await transactionManager.getStoredTransactions(batchId);
+      setAttestations(Object.fromEntries(await Promise.all(
+        stored
+          .filter(transaction => transaction.attestation)
+          .map(async transaction => [transaction.transactionId, await transferAttestationService.verifyAttestation(transaction)])
+      )));
     } catch (error) {
       logger.error('Error fetching batch details:', error);
     }
@@ -492,6 +505,11 @@ export const ComprehensiveVerificationSystem: React.FC<ComprehensiveVerification
                       <p className="text-gray-600">
                         {transaction.quantity} kg - ₹{transaction.price}
                       </p>
+                      {attestations[transaction.transaction_id] && (
+                        <p className={`text-xs font-mono ${attestations[transaction.transaction_id].status === 'invalid' ? 'text-red-600' : 'text-gray-600'}`}>
+                          {describeAttestation(attestations[transaction.transaction_id])}
+                        </p>
+                      )}
                     </div>
                     <Badge variant="outline">
                       {new Date(transaction.created_at).toLocaleDateString()}
@@ -20,13 +20,19 @@ import {
   User,
   MapPin,
   Upload,
-  QrCode
+  QrCode,
+  Link2,
+  PenLine
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { getIPFSFileUrl } from '@/features/ipfs/utils/ipfs';
 import { logger } from '@/lib/logger';
 import { sanitizeString, validateInteger, isValidUUID, sanitizeError } from '@/lib/security';
+import { transactionManager } from '@/features/blockchain/utils/transactionManager';
+import { merkleAnchorService, AnchorVerificationResult } from '@/features/blockchain/utils/merkleAnchorService';
+import { TransferAttestationPanel } from '@/features/blockchain/components/TransferAttestationPanel';
+import { BatchDeploymentTrail } from '@/features/blockchain/components/BatchDeploymentTrail';
 
 interface CertificateData {
   id: string;
@@ -39,6 +45,12 @@ interface CertificateData {
   createdAt: string;
 }
 
+interface AnchorCheck {
+  transactionId: string;
+  transactionType: string;
+  result: AnchorVerificationResult;
+}
+
 interface BatchData {
   id: string;
   crop_type: string;
@@ -59,6 +71,7 @@ export const UnifiedVerificationSystem: React.FC = () => {
   const [batchData, setBatchData] = useState<BatchData | null>(null);
   const [certificates, setCertificates] = useState<CertificateData[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [anchorChecks, setAnchorChecks] = useState<AnchorCheck[]>([]);
   const { toast } = useToast();
 
 
@@ -90,6 +103,7 @@ export const UnifiedVerificationSystem: React.FC = () => {
     setError(null);
     setBatchData(null);
     setCertificates([]);
+    setAnchorChecks([]);
 
     try {
       let groupId: string | null = null;
@@ -215,6 +229,10 @@ export const UnifiedVerificationSystem: React.FC = () => {
       setBatchData(batchInfo);
       setCertificates(certificateList);
 
+      if (batchInfo) {
+        loadAnchorChecks(batchInfo.id);
+      }
+
       toast({
         title: "Verification successful!",
         description: `Found ${certificateList.length} certificate(s) for Group ID: ${groupId}`,
@@ -234,6 +252,27 @@ export const UnifiedVerificationSystem: React.FC = () => {
     }
   };
 
+  /**
+   * Check each hashed transaction of the batch against its Merkle root anchored on-chain
+   */
+  const loadAnchorChecks = async (batchId: string) => {
+    try {
+      const chain = await transactionManager.getTransactionChain(batchId);
+      const checks = await Promise.all(
+        chain.transactions
+          .filter(transaction => transaction.contentHash)
+          .map(async transaction => ({
+            transactionId: transaction.transactionId,
+            transactionType: transaction.type,
+            result: await merkleAnchorService.verifyAnchoredTransaction(transaction.transactionId)
+          }))
+      );
+      setAnchorChecks(checks);
+    } catch (error) {
+      logger.warn('Could not check on-chain anchors', error);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -519,6 +558,85 @@ export const UnifiedVerificationSystem: React.FC = () => {
         </Card>
       )}
 
+      {/* On-Chain Anchors */}
+      {anchorChecks.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Link2 className="h-5 w-5" />
+              <span>On-Chain Anchors</span>
+            </CardTitle>
+            <CardDescription>
+              Each transaction is checked against the Merkle root written to the blockchain
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {anchorChecks.map(check => (
+                <div key={check.transactionId} className="border rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{check.transactionType}</Badge>
+                      <span className="font-mono text-xs">{check.transactionId}</span>
+                    </div>
+                    {!check.result.isAnchored ? (
+                      <Badge variant="secondary">Pending anchor</Badge>
+                    ) : check.result.isValid ? (
+                      <Badge className="bg-green-600">
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Anchored
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <XCircle className="h-3 w-3 mr-1" />
+                        Mismatch
+                      </Badge>
+                    )}
+                  </div>
+                  {check.result.isAnchored && (
+                    <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-muted-foreground">
+                      <p className="font-mono break-all">Root: {check.result.merkleRoot}</p>
+                      <p className="font-mono break-all">Anchor tx: {check.result.anchorTxHash}</p>
+                      {check.result.anchoredAt && (
+                        <p>Anchored: {new Date(check.result.anchoredAt).toLocaleString()}</p>
+                      )}
+                    </div>
+                  )}
+                  {check.result.isAnchored && check.result.errors.length > 0 && (
+                    <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+                      {check.result.errors.map(message => (
+                        <li key={message}>{message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Signed Transfers */}
+      {batchData && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <PenLine className="h-5 w-5" />
+              <span>Signed Transfers</span>
+            </CardTitle>
+            <CardDescription>
+              Seller and buyer are identified by the wallets that signed each transfer, not by profile names
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TransferAttestationPanel batchId={batchData.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Deployments the batch moved across */}
+      {batchData && <BatchDeploymentTrail batchId={batchData.id} />}
+
       {/* Certificates List */}
       {certificates.length > 0 && (
         <Card>
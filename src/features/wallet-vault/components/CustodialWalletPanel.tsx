@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { Loader2, KeyRound, Search, ArrowRightLeft, Download, Ban } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import {
+  walletVaultService,
+  WalletVaultStatus,
+  ConsentMethod,
+  ConsentPurpose
+} from '../services/walletVaultService';
+import { logger } from '@/lib/logger';
+import { sanitizeError, isValidPhone } from '@/lib/security';
+
+interface FarmerLookup {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+}
+
+const CONSENT_METHOD_LABELS: Record<ConsentMethod, string> = {
+  voice_call: 'Voice call',
+  in_person: 'In person',
+  sms_otp: 'SMS OTP',
+  written: 'Written form'
+};
+
+const CONSENT_PURPOSE_LABELS: Record<ConsentPurpose, string> = {
+  sign_transactions: 'Sign transactions',
+  export: 'Export key',
+  hand_over: 'Hand over to own wallet'
+};
+
+/**
+ * Helper desk view of a farmer's custodial wallet: record or revoke consent, export the key
+ * once, or hand the wallet over to an address the farmer controls
+ */
+export const CustodialWalletPanel: React.FC = () => {
+  const { signer, isConnected } = useWeb3();
+  const { toast } = useToast();
+  const [phone, setPhone] = useState('');
+  const [farmer, setFarmer] = useState<FarmerLookup | null>(null);
+  const [status, setStatus] = useState<WalletVaultStatus | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [consentReference, setConsentReference] = useState('');
+  const [consentMethod, setConsentMethod] = useState<ConsentMethod>('voice_call');
+  const [consentPurpose, setConsentPurpose] = useState<ConsentPurpose>('sign_transactions');
+  const [newAddress, setNewAddress] = useState('');
+  const [exportedKey, setExportedKey] = useState<string | null>(null);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    try {
+      await action();
+    } catch (error) {
+      logger.error(`Custodial wallet ${label} failed`, error);
+      toast({ variant: 'destructive', title: 'Wallet vault', description: sanitizeError(error) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const refresh = async (profileId: string) => {
+    setStatus(await walletVaultService.getStatus(profileId));
+  };
+
+  const handleLookup = () => run('lookup', async () => {
+    if (!isValidPhone(phone)) {
+      throw new Error('Enter a valid phone number');
+    }
+    const normalizedPhone = phone.startsWith('+91') ? phone : `+91${phone}`;
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('phone', normalizedPhone)
+      .limit(1)
+      .maybeSingle();
+
+    if (error || !data) {
+      throw new Error('No farmer profile with this phone number');
+    }
+    const found = data as unknown as FarmerLookup;
+    setFarmer(found);
+    setExportedKey(null);
+    await refresh(found.id);
+  });
+
+  const handleCreate = () => run('create', async () => {
+    if (!farmer) return;
+    const address = await walletVaultService.ensureWallet(farmer.id);
+    toast({ title: 'Custodial wallet ready', description: address });
+    await refresh(farmer.id);
+  });
+
+  const handleRecordConsent = () => run('consent', async () => {
+    if (!farmer) return;
+    await walletVaultService.recordConsent(farmer.id, {
+      reference: consentReference,
+      method: consentMethod,
+      purpose: consentPurpose,
+      // Export and hand-over are one-off actions, so their consent is short-lived
+      expiresInHours: consentPurpose === 'sign_transactions' ? 24 : 1
+    });
+    setConsentReference('');
+    toast({ title: 'Consent recorded', description: CONSENT_PURPOSE_LABELS[consentPurpose] });
+    await refresh(farmer.id);
+  });
+
+  const handleRevoke = (consentId: string) => run('revoke', async () => {
+    if (!farmer) return;
+    await walletVaultService.revokeConsent(consentId);
+    await refresh(farmer.id);
+  });
+
+  const wallet = status?.wallet;
+  const consents = status?.consents ?? [];
+
+  const findConsent = (purpose: ConsentPurpose) => consents.find(consent => consent.purpose === purpose);
+
+  const handleExport = () => run('export', async () => {
+    const consent = findConsent('export');
+    if (!farmer || !consent) {
+      throw new Error('Record the farmer\'s consent to export first');
+    }
+    const { privateKey } = await walletVaultService.exportKey(farmer.id, consent.id);
+    setExportedKey(privateKey);
+    await refresh(farmer.id);
+  });
+
+  const handleHandOver = () => run('handOver', async () => {
+    const consent = findConsent('hand_over');
+    if (!farmer || !consent) {
+      throw new Error('Record the farmer\'s consent to hand over first');
+    }
+    if (!signer) {
+      throw new Error('Connect a wallet to pay gas for moving the farmer\'s batches');
+    }
+    const result = await walletVaultService.handOver(farmer.id, consent.id, newAddress, signer);
+    toast({
+      title: 'Wallet handed over',
+      description: `${result.movedBatches.length} batch balance(s) moved to ${result.address}.${result.ethSweep ? ' Remaining ETH was moved too.' : ''}`
+    });
+    setNewAddress('');
+    await refresh(farmer.id);
+  });
+
+  return (
+    <Card className="govt-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Farmer Wallets
+        </CardTitle>
+        <CardDescription>
+          Custodial wallets for farmers who register by phone. Signing, export and hand-over need the farmer's recorded consent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input placeholder="Farmer phone number" value={phone} onChange={e => setPhone(e.target.value)} />
+          <Button variant="outline" onClick={handleLookup} disabled={busy !== null}>
+            {busy === 'lookup' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        {farmer && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{farmer.full_name || farmer.phone}</span>
+              {wallet ? (
+                <Badge variant={wallet.status === 'active' ? 'default' : 'secondary'}>
+                  {wallet.status === 'active' ? 'Custodial' : 'Self-custody'}
+                </Badge>
+              ) : (
+                <Button size="sm" onClick={handleCreate} disabled={busy !== null}>
+                  Create wallet
+                </Button>
+              )}
+            </div>
+
+            {wallet && (
+              <div className="text-xs font-mono break-all space-y-1">
+                <p>Address: {wallet.status === 'active' ? wallet.address : wallet.handedOverTo}</p>
+                {wallet.exportedAt && <p className="text-orange-600">Key exported {new Date(wallet.exportedAt).toLocaleString()}</p>}
+                {wallet.handedOverAt && <p>Handed over {new Date(wallet.handedOverAt).toLocaleString()} (was {wallet.address})</p>}
+              </div>
+            )}
+
+            {wallet?.status === 'active' && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <div className="md:col-span-3">
+                    <Label htmlFor="consent-reference">Consent reference</Label>
+                    <Input
+                      id="consent-reference"
+                      placeholder="Call ID, recording link or form number"
+                      value={consentReference}
+                      onChange={e => setConsentReference(e.target.value)}
+                    />
+                  </div>
+                  <Select value={consentMethod} onValueChange={value => setConsentMethod(value as ConsentMethod)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONSENT_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={consentPurpose} onValueChange={value => setConsentPurpose(value as ConsentPurpose)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONSENT_PURPOSE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleRecordConsent} disabled={busy !== null || !consentReference.trim()}>
+                    Record consent
+                  </Button>
+                </div>
+
+                {consents.length > 0 && (
+                  <div className="space-y-2">
+                    {consents.map(consent => (
+                      <div key={consent.id} className="flex items-center justify-between border rounded p-2 text-xs">
+                        <div>
+                          <Badge variant="outline" className="mr-2">{CONSENT_PURPOSE_LABELS[consent.purpose]}</Badge>
+                          {CONSENT_METHOD_LABELS[consent.consent_method]} · {consent.consent_reference} · until{' '}
+                          {new Date(consent.expires_at).toLocaleString()}
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(consent.id)} disabled={busy !== null}>
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Button variant="outline" onClick={handleExport} disabled={busy !== null || !findConsent('export')}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export key
+                  </Button>
+                  <Input
+                    placeholder="Farmer's own wallet address (0x…)"
+                    value={newAddress}
+                    onChange={e => setNewAddress(e.target.value)}
+                  />
+                  <Button
+                    onClick={handleHandOver}
+                    disabled={busy !== null || !findConsent('hand_over') || !ethers.isAddress(newAddress) || !isConnected}
+                  >
+                    {busy === 'handOver' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowRightLeft className="h-4 w-4 mr-2" />}
+                    Hand over
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {exportedKey && (
+              <Alert className="border-orange-200 bg-orange-50">
+                <AlertDescription className="text-orange-800 space-y-2">
+                  <p><strong>Shown once.</strong> Read this key to the farmer or import it into their wallet app, then close it.</p>
+                  <p className="font-mono text-xs break-all">{exportedKey}</p>
+                  <Button size="sm" variant="outline" onClick={() => setExportedKey(null)}>Done</Button>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
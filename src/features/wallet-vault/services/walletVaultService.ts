@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { metaTransactionRelayer } from '@/features/blockchain/utils/metaTransactionRelayer';
+import { getContractInstance } from '@/features/blockchain/utils/contractUtils';
+import { CustodialSigner } from '../utils/custodialSigner';
+import { logger } from '@/lib/logger';
+import { sanitizeError, sanitizeString, isValidUUID } from '@/lib/security';
+
+export type ConsentMethod = 'voice_call' | 'in_person' | 'sms_otp' | 'written';
+export type ConsentPurpose = 'sign_transactions' | 'export' | 'hand_over';
+
+export interface CustodialWallet {
+  address: string;
+  status: 'active' | 'handed_over';
+  keyVersion: number;
+  handedOverTo: string | null;
+  handedOverAt: string | null;
+  exportedAt: string | null;
+  createdAt: string;
+}
+
+export interface SigningConsent {
+  id: string;
+  consent_reference: string;
+  consent_method: ConsentMethod;
+  purpose: ConsentPurpose;
+  granted_to: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface WalletVaultStatus {
+  wallet: CustodialWallet | null;
+  consents: SigningConsent[];
+}
+
+export interface ConsentInput {
+  reference: string;
+  method: ConsentMethod;
+  purpose?: ConsentPurpose;
+  expiresInHours?: number;
+}
+
+export interface HandOverResult {
+  previousAddress: string;
+  address: string;
+  movedBatches: Array<{ blockchainBatchId: number; transactionHash: string }>;
+  // Remaining ETH the vault moved from the custodial address, if there was any worth the fee
+  ethSweep: { transactionHash: string; amount: string } | null;
+}
+
+const WALLET_VAULT_FUNCTION = 'wallet-vault';
+
+/**
+ * Wallet Vault Service
+ * Client for the wallet-vault edge function, which holds encrypted keys for farmers registered by
+ * phone. Helpers create a wallet per farmer, record the farmer's consent (call ID, form number) and
+ * sign on the farmer's behalf through a CustodialSigner bound to that consent. A farmer can later
+ * export the key or move to a self-custody wallet, after which the vault no longer holds a key.
+ */
+export class WalletVaultService {
+  private static instance: WalletVaultService;
+
+  private constructor() {}
+
+  public static getInstance(): WalletVaultService {
+    if (!WalletVaultService.instance) {
+      WalletVaultService.instance = new WalletVaultService();
+    }
+    return WalletVaultService.instance;
+  }
+
+  public async getStatus(profileId: string): Promise<WalletVaultStatus> {
+    return this.invoke<WalletVaultStatus>('status', { profileId: this.requireUUID(profileId, 'profile') });
+  }
+
+  /**
+   * Custodial wallet address for a farmer, generating the key on first use
+   */
+  public async ensureWallet(profileId: string): Promise<string> {
+    const result = await this.invoke<{ address: string; created: boolean }>('create', {
+      profileId: this.requireUUID(profileId, 'profile')
+    });
+    if (result.created) {
+      logger.debug('Created custodial wallet', { profileId, address: result.address });
+    }
+    return result.address;
+  }
+
+  public async recordConsent(profileId: string, consent: ConsentInput): Promise<SigningConsent> {
+    const reference = sanitizeString(consent.reference, 500);
+    if (!reference) {
+      throw new Error('A consent reference is required to sign for a farmer');
+    }
+
+    return this.invoke<SigningConsent>('recordConsent', {
+      profileId: this.requireUUID(profileId, 'profile'),
+      consentReference: reference,
+      consentMethod: consent.method,
+      purpose: consent.purpose ?? 'sign_transactions',
+      expiresInHours: consent.expiresInHours ?? 24
+    });
+  }
+
+  public async revokeConsent(consentId: string): Promise<void> {
+    await this.invoke('revokeConsent', { consentId: this.requireUUID(consentId, 'consent') });
+  }
+
+  public async signTypedData(
+    profileId: string,
+    consentId: string,
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    message: Record<string, unknown>
+  ): Promise<{ address: string; signature: string }> {
+    return this.invoke('signTypedData', { profileId, consentId, domain, types, message });
+  }
+
+  /**
+   * Record consent and return a signer that signs for the farmer under it
+   */
+  public async getSigner(profileId: string, consent: ConsentInput, provider?: ethers.Provider | null): Promise<CustodialSigner> {
+    const address = await this.ensureWallet(profileId);
+    const recorded = await this.recordConsent(profileId, { ...consent, purpose: consent.purpose ?? 'sign_transactions' });
+    return new CustodialSigner(this, profileId, address, recorded.id, provider);
+  }
+
+  /**
+   * Reveal the farmer's private key once; needs a recorded consent with purpose 'export'
+   */
+  public async exportKey(profileId: string, consentId: string): Promise<{ address: string; privateKey: string }> {
+    return this.invoke('export', { profileId: this.requireUUID(profileId, 'profile'), consentId });
+  }
+
+  /**
+   * Move the farmer to a self-custody wallet: every batch balance held by the custodial address is
+   * relayed to the new address and the farmer role granted to it first. The vault then checks the
+   * chain, sweeps any ETH, destroys the key and repoints the profile.
+   */
+  public async handOver(
+    profileId: string,
+    consentId: string,
+    newAddress: string,
+    relayerSigner: ethers.Signer
+  ): Promise<HandOverResult> {
+    if (!ethers.isAddress(newAddress)) {
+      throw new Error('Enter a valid wallet address to hand over to');
+    }
+    if (!relayerSigner.provider) {
+      throw new Error('Relayer signer is not connected to a provider');
+    }
+
+    try {
+      const { wallet } = await this.getStatus(profileId);
+      if (!wallet || wallet.status !== 'active') {
+        throw new Error('Farmer has no active custodial wallet');
+      }
+
+      const custodial = new CustodialSigner(this, profileId, wallet.address, consentId, relayerSigner.provider);
+      const movedBatches: HandOverResult['movedBatches'] = [];
+
+      const contract = getContractInstance(relayerSigner.provider);
+      for (const blockchainBatchId of await this.getHeldBatchIds(profileId)) {
+        const balance: bigint = await contract.balanceOf(wallet.address, blockchainBatchId);
+        if (balance === 0n) continue;
+
+        // The key is destroyed on hand-over, so a balance that cannot be moved now would be stranded
+        if (!metaTransactionRelayer.isEnabled()) {
+          throw new Error('Meta-transactions must be configured to move batch balances before hand-over');
+        }
+
+        const relayed = await metaTransactionRelayer.forward(
+          custodial,
+          relayerSigner,
+          'transferQuantity',
+          [blockchainBatchId, ethers.getAddress(newAddress), balance]
+        );
+        movedBatches.push({ blockchainBatchId, transactionHash: relayed.transactionHash });
+      }
+
+      // The vault refuses to destroy the key while the new address lacks the farmer role
+      const farmerRole = await contract.FARMER_ROLE();
+      if ((await contract.hasRole(farmerRole, wallet.address)) && !(await contract.hasRole(farmerRole, newAddress))) {
+        if (!(await contract.hasRole(ethers.ZeroHash, await relayerSigner.getAddress()))) {
+          throw new Error('An admin must grant the farmer role to the new address before hand-over');
+        }
+        const granted = await getContractInstance(relayerSigner.provider, relayerSigner).addFarmer(ethers.getAddress(newAddress));
+        await granted.wait();
+      }
+
+      const result = await this.invoke<Omit<HandOverResult, 'movedBatches'>>('handOver', {
+        profileId,
+        consentId,
+        newAddress: ethers.getAddress(newAddress)
+      });
+
+      return { ...result, movedBatches };
+    } catch (error) {
+      logger.error('Error handing over custodial wallet', error);
+      throw new Error(sanitizeError(error));
+    }
+  }
+
+  /**
+   * On-chain ids of batches the farmer registered or currently owns
+   */
+  private async getHeldBatchIds(profileId: string): Promise<number[]> {
+    const { data, error } = await supabase
+      .from('batches')
+      .select('blockchain_batch_id')
+      .or(`farmer_id.eq.${profileId},current_owner.eq.${profileId}`)
+      .not('blockchain_batch_id', 'is', null);
+
+    if (error) {
+      logger.error('Error fetching farmer batches for hand-over', error);
+      throw new Error('Failed to load farmer batches');
+    }
+
+    return [...new Set((data || []).map(row => row.blockchain_batch_id as number))];
+  }
+
+  private requireUUID(id: string, label: string): string {
+    if (!isValidUUID(id)) {
+      throw new Error(`Invalid ${label} ID`);
+    }
+    return id;
+  }
+
+  private async invoke<T>(action: string, payload: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke(WALLET_VAULT_FUNCTION, {
+      body: { action, ...payload }
+    });
+
+    if (error) {
+      let message = error.message;
+      if (error instanceof FunctionsHttpError) {
+        try {
+          const body = await error.context.json();
+          message = body?.error || message;
+        } catch {
+          // Non-JSON error body; keep the generic message
+        }
+      }
+      logger.error(`Wallet vault ${action} failed`, { message });
+      throw new Error(message);
+    }
+
+    return data as T;
+  }
+}
+
+// Export singleton instance
+export const walletVaultService = WalletVaultService.getInstance();
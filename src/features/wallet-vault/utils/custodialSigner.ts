@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import type { WalletVaultService } from '../services/walletVaultService';
+
+/**
+ * Signer for a farmer's custodial wallet. The key stays in the wallet-vault edge function; typed data
+ * (forward requests, transfer attestations) is signed there against the consent this signer is bound to.
+ * It cannot send transactions itself, so it is meant to be paired with the meta-transaction relayer.
+ */
+export class CustodialSigner extends ethers.AbstractSigner {
+  constructor(
+    private readonly vault: WalletVaultService,
+    public readonly profileId: string,
+    public readonly address: string,
+    public readonly consentId: string,
+    provider?: ethers.Provider | null
+  ) {
+    super(provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): CustodialSigner {
+    return new CustodialSigner(this.vault, this.profileId, this.address, this.consentId, provider);
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    // Resolve ENS names and normalise bigints so the vault signs exactly what the caller encoded
+    const populated = await ethers.TypedDataEncoder.resolveNames(domain, types, value, async name => {
+      const resolved = await this.resolveName(name);
+      if (!resolved) {
+        throw new Error(`Could not resolve ${name}`);
+      }
+      return resolved;
+    });
+    const payload = ethers.TypedDataEncoder.getPayload(populated.domain, types, populated.value);
+
+    const { address, signature } = await this.vault.signTypedData(
+      this.profileId,
+      this.consentId,
+      payload.domain,
+      types,
+      payload.message
+    );
+
+    if (ethers.getAddress(address) !== ethers.getAddress(this.address)) {
+      throw new Error('Wallet vault signed with a different key than expected');
+    }
+    return signature;
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error('Custodial wallets only sign typed data');
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new Error('Custodial wallets cannot send transactions; relay them through the forwarder');
+  }
+}
@@ -5,119 +5,8 @@ import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
 import { BatchInput, Batch } from '@/contracts/config';
 import { useToast } from '@/components/ui/use-toast';
 import { sanitizeError } from '@/lib/security';
-
-/**
- * Convert date string (YYYY-MM-DD) to Unix timestamp (uint256)
- */
-function dateStringToTimestamp(dateString: string): number {
-  if (!dateString) {
-    throw new Error('Date string cannot be empty');
-  }
-  
-  const date = new Date(dateString);
-  if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date string: ${dateString}`);
-  }
-  
-  // Return Unix timestamp in seconds (contract uses seconds, not milliseconds)
-  return Math.floor(date.getTime() / 1000);
-}
-
-/**
- * Convert freshness duration string to uint96 number
- */
-function freshnessDurationToNumber(duration: string | number): number {
-  if (typeof duration === 'number') {
-    if (duration < 0 || duration > 2**96 - 1) {
-      throw new Error(`Freshness duration out of range: ${duration}`);
-    }
-    return duration;
-  }
-  
-  const num = parseInt(duration, 10);
-  if (isNaN(num) || num < 0 || num > 2**96 - 1) {
-    throw new Error(`Invalid freshness duration: ${duration}`);
-  }
-  return num;
-}
-
-/**
- * Convert grading string to enum number
- * Grading enum: NONE=0, A=1, B=2, C=3, PREMIUM=4, STANDARD=5
- */
-function gradingToEnum(grading: string): number {
-  const normalized = grading.trim().toUpperCase();
-  
-  switch (normalized) {
-    case 'NONE':
-    case '':
-      return 0;
-    case 'A':
-    case 'GRADE A':
-      return 1;
-    case 'B':
-    case 'GRADE B':
-      return 2;
-    case 'C':
-    case 'GRADE C':
-      return 3;
-    case 'PREMIUM':
-      return 4;
-    case 'STANDARD':
-      return 5;
-    default:
-      // Default to STANDARD if unknown
-      logger.warn(`Unknown grading value: ${grading}, defaulting to STANDARD (5)`);
-      return 5;
-  }
-}
-
-/**
- * Convert call status string to enum number
- * CallStatus enum: PENDING=0, ACTIVE=1, COMPLETED=2, CANCELLED=3
- */
-function callStatusToEnum(callStatus: string): number {
-  const normalized = callStatus.trim().toUpperCase();
-  
-  switch (normalized) {
-    case 'PENDING':
-      return 0;
-    case 'ACTIVE':
-      return 1;
-    case 'COMPLETED':
-    case 'ENDED':
-      return 2;
-    case 'CANCELLED':
-      return 3;
-    default:
-      // Default to COMPLETED if unknown
-      logger.warn(`Unknown call status: ${callStatus}, defaulting to COMPLETED (2)`);
-      return 2;
-  }
-}
-
-/**
- * Convert frontend BatchInput (with strings) to contract BatchInput (with numbers/enums)
- */
-function convertBatchInputForContract(input: BatchInput) {
-  return {
-    crop: input.crop,
-    variety: input.variety,
-    harvestQuantity: input.harvestQuantity,
-    sowingDate: dateStringToTimestamp(input.sowingDate), // Convert to Unix timestamp
-    harvestDate: dateStringToTimestamp(input.harvestDate), // Convert to Unix timestamp
-    freshnessDuration: freshnessDurationToNumber(input.freshnessDuration), // Convert to uint96
-    grading: gradingToEnum(input.grading), // Convert to enum number
-    certification: input.certification,
-    labTest: input.labTest,
-    price: BigInt(Math.floor(input.price)), // Ensure price is a BigInt for uint256
-    ipfsHash: input.ipfsHash,
-    languageDetected: input.languageDetected,
-    summary: input.summary,
-    callStatus: callStatusToEnum(input.callStatus), // Convert to enum number
-    offTopicCount: BigInt(Math.floor(input.offTopicCount || 0)) // Convert to BigInt for uint256
-  };
-}
+import { toOnChainQuantity, fromOnChainQuantity, convertBatchInputForContract } from '@/features/blockchain/utils/contractUtils';
+import { transactionTracker } from '@/features/blockchain/utils/transactionTracker';
 
 export const useContract = () => {
   const { contract, signer, isConnected } = useWeb3();
@@ -148,13 +37,16 @@ export const useContract = () => {
         callStatus: contractBatchInput.callStatus
       });
       
-      const tx = await contract.registerBatch(contractBatchInput);
+      const { wait } = await transactionTracker.send(
+        () => contract.registerBatch(contractBatchInput),
+        { purpose: 'registerBatch' }
+      );
       toast({
         title: "Transaction submitted",
         description: "Waiting for confirmation...",
       });
 
-      const receipt = await tx.wait();
+      const receipt = await wait();
       toast({
         title: "Batch registered successfully!",
         description: `Transaction hash: ${receipt.hash}`,
@@ -257,13 +149,16 @@ export const useContract = () => {
 
     setLoading(true);
     try {
-      const tx = await contract.transferBatch(batchId, to);
+      const { wait } = await transactionTracker.send(
+        () => contract.transferBatch(batchId, to),
+        { purpose: 'transferBatch', batchId }
+      );
       toast({
         title: "Transaction submitted",
         description: "Waiting for confirmation...",
       });
 
-      const receipt = await tx.wait();
+      const receipt = await wait();
       toast({
         title: "Batch transferred successfully!",
         description: `Transaction hash: ${receipt.hash}`,
@@ -284,6 +179,97 @@ export const useContract = () => {
     }
   }, [contract, isConnected, toast]);
 
+  const transferQuantity = useCallback(async (batchId: number, to: string, quantity: number) => {
+    if (!contract || !isConnected) {
+      toast({
+        variant: "destructive",
+        title: "Wallet not connected",
+        description: "Please connect your wallet first.",
+      });
+      return null;
+    }
+
+    setLoading(true);
+    try {
+      const { wait } = await transactionTracker.send(
+        () => contract.transferQuantity(batchId, to, toOnChainQuantity(quantity)),
+        { purpose: 'transferQuantity', batchId }
+      );
+      toast({
+        title: "Transaction submitted",
+        description: "Waiting for confirmation...",
+      });
+
+      const receipt = await wait();
+      toast({
+        title: "Quantity transferred successfully!",
+        description: `Transaction hash: ${receipt.hash}`,
+      });
+
+      return receipt;
+    } catch (error: unknown) {
+      logger.error('Error transferring batch quantity', error);
+      const errorMessage = error instanceof Error ? error.message : sanitizeError(error);
+      toast({
+        variant: "destructive",
+        title: "Transfer failed",
+        description: errorMessage || "Please try again later.",
+      });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [contract, isConnected, toast]);
+
+  const setOperatorApproval = useCallback(async (operator: string, approved: boolean) => {
+    if (!contract || !isConnected) {
+      toast({
+        variant: "destructive",
+        title: "Wallet not connected",
+        description: "Please connect your wallet first.",
+      });
+      return null;
+    }
+
+    setLoading(true);
+    try {
+      const { wait } = await transactionTracker.send(
+        () => contract.setApprovalForAll(operator, approved),
+        { purpose: 'setApprovalForAll' }
+      );
+      const receipt = await wait();
+      toast({
+        title: approved ? "Operator approved" : "Operator approval revoked",
+        description: `Transaction hash: ${receipt.hash}`,
+      });
+
+      return receipt;
+    } catch (error: unknown) {
+      logger.error('Error updating operator approval', error);
+      const errorMessage = error instanceof Error ? error.message : sanitizeError(error);
+      toast({
+        variant: "destructive",
+        title: "Approval failed",
+        description: errorMessage || "Please try again later.",
+      });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [contract, isConnected, toast]);
+
+  const getBatchBalance = useCallback(async (batchId: number, address: string): Promise<number> => {
+    if (!contract) return 0;
+
+    try {
+      const balance = await contract.balanceOf(address, batchId);
+      return fromOnChainQuantity(balance);
+    } catch (error: unknown) {
+      logger.error('Error fetching batch balance', error);
+      return 0;
+    }
+  }, [contract]);
+
   const updatePrice = useCallback(async (batchId: number, newPrice: number) => {
     if (!contract || !isConnected) {
       toast({
@@ -296,13 +282,16 @@ export const useContract = () => {
 
     setLoading(true);
     try {
-      const tx = await contract.updatePrice(batchId, BigInt(Math.floor(newPrice)));
+      const { wait } = await transactionTracker.send(
+        () => contract.updatePrice(batchId, BigInt(Math.floor(newPrice))),
+        { purpose: 'updatePrice', batchId }
+      );
       toast({
         title: "Transaction submitted",
         description: "Waiting for confirmation...",
       });
 
-      const receipt = await tx.wait();
+      const receipt = await wait();
       toast({
         title: "Price updated successfully!",
         description: `Transaction hash: ${receipt.hash}`,
@@ -338,13 +327,16 @@ export const useContract = () => {
       // Convert amount to Wei (assuming amount is in ETH)
       const amountInWei = ethers.parseEther(amount.toString());
       
-      const tx = await contract.tipFarmer(farmerAddress, { value: amountInWei });
+      const { wait } = await transactionTracker.send(
+        () => contract.tipFarmer(farmerAddress, { value: amountInWei }),
+        { purpose: 'tipFarmer' }
+      );
       toast({
         title: "Transaction submitted",
         description: "Waiting for confirmation...",
       });
 
-      const receipt = await tx.wait();
+      const receipt = await wait();
       toast({
         title: "Tip sent successfully!",
         description: `Transaction hash: ${receipt.hash}`,
@@ -394,6 +386,9 @@ export const useContract = () => {
     getBatch,
     getNextBatchId,
     transferBatch,
+    transferQuantity,
+    setOperatorApproval,
+    getBatchBalance,
     updatePrice,
     tipFarmer,
     hasRole,
@@ -12,109 +12,1511 @@ export type Database = {
   }
   public: {
     Tables: {
+      auction_bids: {
+        Row: {
+          id: string
+          auction_id: string
+          bidder_id: string
+          amount_per_kg: number
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          auction_id: string
+          bidder_id: string
+          amount_per_kg: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          auction_id?: string
+          bidder_id?: string
+          amount_per_kg?: number
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      auction_notifications: {
+        Row: {
+          id: string
+          profile_id: string
+          auction_id: string | null
+          notification_type: string
+          message: string
+          is_read: boolean | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          auction_id?: string | null
+          notification_type: string
+          message: string
+          is_read?: boolean | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          auction_id?: string | null
+          notification_type?: string
+          message?: string
+          is_read?: boolean | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audit_logs: {
+        Row: {
+          id: string
+          action: string
+          user: string | null
+          status: string
+          details: Json | null
+          timestamp: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          action: string
+          user?: string | null
+          status?: string
+          details?: Json | null
+          timestamp?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          action?: string
+          user?: string | null
+          status?: string
+          details?: Json | null
+          timestamp?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      batch_chain_links: {
+        Row: {
+          batch_id: string
+          blockchain_batch_id: number
+          chain_id: number
+          contract_address: string
+          created_at: string | null
+          id: string
+          source: string
+        }
+        Insert: {
+          batch_id: string
+          blockchain_batch_id: number
+          chain_id: number
+          contract_address: string
+          created_at?: string | null
+          id?: string
+          source?: string
+        }
+        Update: {
+          batch_id?: string
+          blockchain_batch_id?: number
+          chain_id?: number
+          contract_address?: string
+          created_at?: string | null
+          id?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      batch_lineage: {
+        Row: {
+          id: string
+          parent_batch_id: string
+          child_batch_id: string
+          operation: string
+          quantity: number
+          transaction_id: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          parent_batch_id: string
+          child_batch_id: string
+          operation: string
+          quantity: number
+          transaction_id?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          parent_batch_id?: string
+          child_batch_id?: string
+          operation?: string
+          quantity?: number
+          transaction_id?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_lineage_parent_batch_id_fkey"
+            columns: ["parent_batch_id"]
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_lineage_child_batch_id_fkey"
+            columns: ["child_batch_id"]
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      batch_migrations: {
+        Row: {
+          batch_id: string | null
+          created_at: string | null
+          error: string | null
+          id: string
+          migration_id: string
+          new_batch_id: number | null
+          old_batch_id: number
+          status: string
+          transaction_hash: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          migration_id: string
+          new_batch_id?: number | null
+          old_batch_id: number
+          status: string
+          transaction_hash?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          migration_id?: string
+          new_batch_id?: number | null
+          old_batch_id?: number
+          status?: string
+          transaction_hash?: string | null
+        }
+        Relationships: []
+      }
       batches: {
         Row: {
           id: string
-          group_id: string | null
-          farmer_id: string | null
-          user_id: string | null
-          crop_type: string | null
-          variety: string | null
-          grading: string | null
-          harvest_date: string | null
+          group_id: string | null
+          farmer_id: string | null
+          user_id: string | null
+          crop_type: string | null
+          variety: string | null
+          grading: string | null
+          harvest_date: string | null
+          sowing_date: string | null
+          harvest_quantity: number | null
+          price_per_kg: number | null
+          freshness_duration: number | null
+          certification: string | null
+          status: string | null
+          current_owner: string | null
+          blockchain_id: string | null
+          blockchain_batch_id: number | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          group_id?: string | null
+          farmer_id?: string | null
+          user_id?: string | null
+          crop_type?: string | null
+          variety?: string | null
+          grading?: string | null
+          harvest_date?: string | null
+          sowing_date?: string | null
+          harvest_quantity?: number | null
+          price_per_kg?: number | null
+          freshness_duration?: number | null
+          certification?: string | null
+          status?: string | null
+          current_owner?: string | null
+          blockchain_id?: string | null
+          blockchain_batch_id?: number | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          group_id?: string | null
+          farmer_id?: string | null
+          user_id?: string | null
+          crop_type?: string | null
+          variety?: string | null
+          grading?: string | null
+          harvest_date?: string | null
+          sowing_date?: string | null
+          harvest_quantity?: number | null
+          price_per_kg?: number | null
+          freshness_duration?: number | null
+          certification?: string | null
+          status?: string | null
+          current_owner?: string | null
+          blockchain_id?: string | null
+          blockchain_batch_id?: number | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_farmer_id_fkey"
+            columns: ["farmer_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batches_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          }
+        ]
+      }
+      blockchain_operations: {
+        Row: {
+          id: string
+          chain_id: number
+          transaction_hash: string
+          from_address: string
+          to_address: string | null
+          nonce: number
+          data: string
+          value: string
+          gas_limit: string
+          gas_price: string | null
+          max_fee_per_gas: string | null
+          max_priority_fee_per_gas: string | null
+          purpose: string
+          batch_id: string | null
+          status: string
+          replaces_hash: string | null
+          replaced_by_hash: string | null
+          block_number: number | null
+          error: string | null
+          submitted_at: string | null
+          resolved_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          chain_id: number
+          transaction_hash: string
+          from_address: string
+          to_address?: string | null
+          nonce: number
+          data?: string
+          value?: string
+          gas_limit: string
+          gas_price?: string | null
+          max_fee_per_gas?: string | null
+          max_priority_fee_per_gas?: string | null
+          purpose: string
+          batch_id?: string | null
+          status?: string
+          replaces_hash?: string | null
+          replaced_by_hash?: string | null
+          block_number?: number | null
+          error?: string | null
+          submitted_at?: string | null
+          resolved_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          chain_id?: number
+          transaction_hash?: string
+          from_address?: string
+          to_address?: string | null
+          nonce?: number
+          data?: string
+          value?: string
+          gas_limit?: string
+          gas_price?: string | null
+          max_fee_per_gas?: string | null
+          max_priority_fee_per_gas?: string | null
+          purpose?: string
+          batch_id?: string | null
+          status?: string
+          replaces_hash?: string | null
+          replaced_by_hash?: string | null
+          block_number?: number | null
+          error?: string | null
+          submitted_at?: string | null
+          resolved_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      chain_events: {
+        Row: {
+          id: string
+          chain_id: number
+          contract_address: string
+          block_number: number
+          block_hash: string
+          block_timestamp: string
+          transaction_hash: string
+          log_index: number
+          event_name: string
+          batch_id: number | null
+          from_address: string | null
+          to_address: string | null
+          quantity: number | null
+          price: number | null
+          amount: string | null
+          ipfs_hash: string | null
+          args: Json | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          chain_id: number
+          contract_address: string
+          block_number: number
+          block_hash: string
+          block_timestamp: string
+          transaction_hash: string
+          log_index: number
+          event_name: string
+          batch_id?: number | null
+          from_address?: string | null
+          to_address?: string | null
+          quantity?: number | null
+          price?: number | null
+          amount?: string | null
+          ipfs_hash?: string | null
+          args?: Json | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          chain_id?: number
+          contract_address?: string
+          block_number?: number
+          block_hash?: string
+          block_timestamp?: string
+          transaction_hash?: string
+          log_index?: number
+          event_name?: string
+          batch_id?: number | null
+          from_address?: string | null
+          to_address?: string | null
+          quantity?: number | null
+          price?: number | null
+          amount?: string | null
+          ipfs_hash?: string | null
+          args?: Json | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      chain_indexer_cursors: {
+        Row: {
+          chain_id: number
+          contract_address: string
+          last_block: number
+          last_block_hash: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          chain_id: number
+          contract_address: string
+          last_block: number
+          last_block_hash?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          chain_id?: number
+          contract_address?: string
+          last_block?: number
+          last_block_hash?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      contract_allocations: {
+        Row: {
+          id: string
+          contract_id: string
+          batch_id: string
+          quantity: number
+          price_per_kg: number
+          reservation_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          contract_id: string
+          batch_id: string
+          quantity: number
+          price_per_kg: number
+          reservation_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          contract_id?: string
+          batch_id?: string
+          quantity?: number
+          price_per_kg?: number
+          reservation_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      contract_migrations: {
+        Row: {
+          completed_at: string | null
+          failed_count: number
+          id: string
+          migrated_count: number
+          source_chain_id: number
+          source_contract: string
+          started_at: string | null
+          started_by: string | null
+          status: string
+          target_chain_id: number
+          target_contract: string
+          total_batches: number
+        }
+        Insert: {
+          completed_at?: string | null
+          failed_count?: number
+          id?: string
+          migrated_count?: number
+          source_chain_id: number
+          source_contract: string
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          target_chain_id: number
+          target_contract: string
+          total_batches?: number
+        }
+        Update: {
+          completed_at?: string | null
+          failed_count?: number
+          id?: string
+          migrated_count?: number
+          source_chain_id?: number
+          source_contract?: string
+          started_at?: string | null
+          started_by?: string | null
+          status?: string
+          target_chain_id?: number
+          target_contract?: string
+          total_batches?: number
+        }
+        Relationships: []
+      }
+      demand_notifications: {
+        Row: {
+          id: string
+          profile_id: string
+          request_id: string | null
+          quote_id: string | null
+          notification_type: string
+          message: string
+          is_read: boolean | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          request_id?: string | null
+          quote_id?: string | null
+          notification_type: string
+          message: string
+          is_read?: boolean | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          request_id?: string | null
+          quote_id?: string | null
+          notification_type?: string
+          message?: string
+          is_read?: boolean | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      demand_quotes: {
+        Row: {
+          id: string
+          request_id: string
+          buyer_id: string
+          farmer_id: string
+          batch_id: string | null
+          marketplace_id: number | null
+          available_from: string | null
+          price_per_kg: number
+          quantity: number
+          message: string | null
+          status: string
+          reservation_id: string | null
+          contract_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          buyer_id: string
+          farmer_id: string
+          batch_id?: string | null
+          marketplace_id?: number | null
+          available_from?: string | null
+          price_per_kg: number
+          quantity: number
+          message?: string | null
+          status?: string
+          reservation_id?: string | null
+          contract_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          buyer_id?: string
+          farmer_id?: string
+          batch_id?: string | null
+          marketplace_id?: number | null
+          available_from?: string | null
+          price_per_kg?: number
+          quantity?: number
+          message?: string | null
+          status?: string
+          reservation_id?: string | null
+          contract_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      demand_requests: {
+        Row: {
+          id: string
+          buyer_id: string
+          crop_type: string
+          variety: string | null
+          grading: string | null
+          quantity: number
+          max_price_per_kg: number
+          delivery_location: string
+          needed_by: string
+          notes: string | null
+          status: string
+          filled_quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          buyer_id: string
+          crop_type: string
+          variety?: string | null
+          grading?: string | null
+          quantity: number
+          max_price_per_kg: number
+          delivery_location: string
+          needed_by: string
+          notes?: string | null
+          status?: string
+          filled_quantity?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          buyer_id?: string
+          crop_type?: string
+          variety?: string | null
+          grading?: string | null
+          quantity?: number
+          max_price_per_kg?: number
+          delivery_location?: string
+          needed_by?: string
+          notes?: string | null
+          status?: string
+          filled_quantity?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      farmer_wallets: {
+        Row: {
+          id: string
+          profile_id: string
+          address: string
+          encrypted_private_key: string | null
+          encryption_iv: string | null
+          key_version: number
+          status: string
+          handed_over_to: string | null
+          handed_over_at: string | null
+          exported_at: string | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          address: string
+          encrypted_private_key?: string | null
+          encryption_iv?: string | null
+          key_version?: number
+          status?: string
+          handed_over_to?: string | null
+          handed_over_at?: string | null
+          exported_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          address?: string
+          encrypted_private_key?: string | null
+          encryption_iv?: string | null
+          key_version?: number
+          status?: string
+          handed_over_to?: string | null
+          handed_over_at?: string | null
+          exported_at?: string | null
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      forward_contracts: {
+        Row: {
+          id: string
+          buyer_id: string
+          farmer_id: string
+          proposed_by: string
+          crop_type: string
+          variety: string | null
+          grading: string | null
+          min_quantity: number
+          max_quantity: number
+          price_per_kg: number
+          delivery_start: string
+          delivery_end: string
+          shortfall_penalty_per_kg: number
+          status: string
+          allocated_quantity: number
+          delivered_quantity: number
+          penalty_amount: number
+          notes: string | null
+          settled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          buyer_id: string
+          farmer_id: string
+          proposed_by: string
+          crop_type: string
+          variety?: string | null
+          grading?: string | null
+          min_quantity: number
+          max_quantity: number
+          price_per_kg: number
+          delivery_start: string
+          delivery_end: string
+          shortfall_penalty_per_kg?: number
+          status?: string
+          allocated_quantity?: number
+          delivered_quantity?: number
+          penalty_amount?: number
+          notes?: string | null
+          settled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          buyer_id?: string
+          farmer_id?: string
+          proposed_by?: string
+          crop_type?: string
+          variety?: string | null
+          grading?: string | null
+          min_quantity?: number
+          max_quantity?: number
+          price_per_kg?: number
+          delivery_start?: string
+          delivery_end?: string
+          shortfall_penalty_per_kg?: number
+          status?: string
+          allocated_quantity?: number
+          delivered_quantity?: number
+          penalty_amount?: number
+          notes?: string | null
+          settled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      group_files: {
+        Row: {
+          id: string
+          batch_id: string | null
+          group_id: string | null
+          transaction_type: string | null
+          metadata: Json | string | null
+          ipfs_hash: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          batch_id?: string | null
+          group_id?: string | null
+          transaction_type?: string | null
+          metadata?: Json | string | null
+          ipfs_hash?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          batch_id?: string | null
+          group_id?: string | null
+          transaction_type?: string | null
+          metadata?: Json | string | null
+          ipfs_hash?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      listing_auctions: {
+        Row: {
+          id: string
+          marketplace_id: number
+          batch_id: string
+          seller_id: string
+          mode: string
+          quantity: number
+          starting_price: number
+          reserve_price: number | null
+          min_increment: number
+          ends_at: string
+          extension_seconds: number
+          status: string
+          winning_bid_id: string | null
+          award_reservation_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          marketplace_id: number
+          batch_id: string
+          seller_id: string
+          mode: string
+          quantity: number
+          starting_price: number
+          reserve_price?: number | null
+          min_increment?: number
+          ends_at: string
+          extension_seconds?: number
+          status?: string
+          winning_bid_id?: string | null
+          award_reservation_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          marketplace_id?: number
+          batch_id?: string
+          seller_id?: string
+          mode?: string
+          quantity?: number
+          starting_price?: number
+          reserve_price?: number | null
+          min_increment?: number
+          ends_at?: string
+          extension_seconds?: number
+          status?: string
+          winning_bid_id?: string | null
+          award_reservation_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      listing_offers: {
+        Row: {
+          id: string
+          marketplace_id: number
+          batch_id: string
+          buyer_id: string
+          seller_id: string
+          price_per_kg: number
+          quantity: number
+          status: string
+          awaiting: string
+          expires_at: string
+          reservation_id: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          marketplace_id: number
+          batch_id: string
+          buyer_id: string
+          seller_id: string
+          price_per_kg: number
+          quantity: number
+          status?: string
+          awaiting?: string
+          expires_at: string
+          reservation_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          marketplace_id?: number
+          batch_id?: string
+          buyer_id?: string
+          seller_id?: string
+          price_per_kg?: number
+          quantity?: number
+          status?: string
+          awaiting?: string
+          expires_at?: string
+          reservation_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      mandi_markets: {
+        Row: {
+          commodity: string
+          created_at: string | null
+          district: string
+          id: string
+          last_requested_at: string
+          state: string
+        }
+        Insert: {
+          commodity: string
+          created_at?: string | null
+          district: string
+          id?: string
+          last_requested_at?: string
+          state: string
+        }
+        Update: {
+          commodity?: string
+          created_at?: string | null
+          district?: string
+          id?: string
+          last_requested_at?: string
+          state?: string
+        }
+        Relationships: []
+      }
+      mandi_price_snapshots: {
+        Row: {
+          commodity: string
+          district: string
+          fetched_at: string | null
+          id: string
+          market: string | null
+          max_price: number | null
+          min_price: number | null
+          modal_price: number
+          price_date: string
+          state: string
+        }
+        Insert: {
+          commodity: string
+          district: string
+          fetched_at?: string | null
+          id?: string
+          market?: string | null
+          max_price?: number | null
+          min_price?: number | null
+          modal_price: number
+          price_date: string
+          state: string
+        }
+        Update: {
+          commodity?: string
+          district?: string
+          fetched_at?: string | null
+          id?: string
+          market?: string | null
+          max_price?: number | null
+          min_price?: number | null
+          modal_price?: number
+          price_date?: string
+          state?: string
+        }
+        Relationships: []
+      }
+      merkle_anchors: {
+        Row: {
+          id: string
+          merkle_root: string
+          anchor_tx_hash: string
+          chain_id: number | null
+          block_number: number | null
+          leaf_count: number
+          submitted_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          merkle_root: string
+          anchor_tx_hash: string
+          chain_id?: number | null
+          block_number?: number | null
+          leaf_count: number
+          submitted_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          merkle_root?: string
+          anchor_tx_hash?: string
+          chain_id?: number | null
+          block_number?: number | null
+          leaf_count?: number
+          submitted_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      offer_events: {
+        Row: {
+          id: string
+          offer_id: string
+          actor_id: string | null
+          action: string
+          price_per_kg: number | null
+          quantity: number | null
+          message: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          offer_id: string
+          actor_id?: string | null
+          action: string
+          price_per_kg?: number | null
+          quantity?: number | null
+          message?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          offer_id?: string
+          actor_id?: string | null
+          action?: string
+          price_per_kg?: number | null
+          quantity?: number | null
+          message?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
+      price_alert_notifications: {
+        Row: {
+          change_pct: number | null
+          created_at: string | null
+          id: string
+          is_read: boolean | null
+          marketplace_id: number | null
+          message: string
+          notification_type: string
+          price: number | null
+          profile_id: string
+          watch_id: string
+        }
+        Insert: {
+          change_pct?: number | null
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          marketplace_id?: number | null
+          message: string
+          notification_type: string
+          price?: number | null
+          profile_id: string
+          watch_id: string
+        }
+        Update: {
+          change_pct?: number | null
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          marketplace_id?: number | null
+          message?: string
+          notification_type?: string
+          price?: number | null
+          profile_id?: string
+          watch_id?: string
+        }
+        Relationships: []
+      }
+      price_watches: {
+        Row: {
+          above_price: number | null
+          below_price: number | null
+          commodity: string
+          created_at: string | null
+          district: string | null
+          id: string
+          is_active: boolean
+          last_checked_at: string | null
+          last_weekly_alert_at: string | null
+          profile_id: string
+          state: string | null
+          target_price_per_kg: number | null
+          updated_at: string | null
+          variety: string | null
+          watch_type: string
+          weekly_change_pct: number | null
+        }
+        Insert: {
+          above_price?: number | null
+          below_price?: number | null
+          commodity: string
+          created_at?: string | null
+          district?: string | null
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_weekly_alert_at?: string | null
+          profile_id: string
+          state?: string | null
+          target_price_per_kg?: number | null
+          updated_at?: string | null
+          variety?: string | null
+          watch_type: string
+          weekly_change_pct?: number | null
+        }
+        Update: {
+          above_price?: number | null
+          below_price?: number | null
+          commodity?: string
+          created_at?: string | null
+          district?: string | null
+          id?: string
+          is_active?: boolean
+          last_checked_at?: string | null
+          last_weekly_alert_at?: string | null
+          profile_id?: string
+          state?: string | null
+          target_price_per_kg?: number | null
+          updated_at?: string | null
+          variety?: string | null
+          watch_type?: string
+          weekly_change_pct?: number | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          id: string
+          user_id: string | null
+          full_name: string | null
+          email: string | null
+          user_type: string | null
+          farm_location: string | null
+          wallet_address: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          full_name?: string | null
+          email?: string | null
+          user_type?: string | null
+          farm_location?: string | null
+          wallet_address?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          full_name?: string | null
+          email?: string | null
+          user_type?: string | null
+          farm_location?: string | null
+          wallet_address?: string | null
+        }
+        Relationships: []
+      }
+      purchase_escrows: {
+        Row: {
+          id: string
+          escrow_id: number
+          chain_id: number
+          blockchain_batch_id: number
+          batch_id: string
+          transaction_id: string | null
+          delivery_request_id: string | null
+          buyer_id: string
+          seller_id: string
+          buyer_address: string
+          seller_address: string
+          amount_wei: string
+          amount_inr: number
+          quantity: number
+          status: string
+          deadline: string
+          delivery_proof_hash: string | null
+          create_tx_hash: string
+          release_tx_hash: string | null
+          refund_tx_hash: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          escrow_id: number
+          chain_id: number
+          blockchain_batch_id: number
+          batch_id: string
+          transaction_id?: string | null
+          delivery_request_id?: string | null
+          buyer_id: string
+          seller_id: string
+          buyer_address: string
+          seller_address: string
+          amount_wei: string
+          amount_inr: number
+          quantity: number
+          status: string
+          deadline: string
+          delivery_proof_hash?: string | null
+          create_tx_hash: string
+          release_tx_hash?: string | null
+          refund_tx_hash?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          escrow_id?: number
+          chain_id?: number
+          blockchain_batch_id?: number
+          batch_id?: string
+          transaction_id?: string | null
+          delivery_request_id?: string | null
+          buyer_id?: string
+          seller_id?: string
+          buyer_address?: string
+          seller_address?: string
+          amount_wei?: string
+          amount_inr?: number
+          quantity?: number
+          status?: string
+          deadline?: string
+          delivery_proof_hash?: string | null
+          create_tx_hash?: string
+          release_tx_hash?: string | null
+          refund_tx_hash?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      purchase_inspections: {
+        Row: {
+          id: string
+          delivery_request_id: string
+          transaction_id: string | null
+          batch_id: string
+          buyer_id: string
+          seller_id: string
+          declared_grading: string | null
+          inspected_grading: string | null
+          expected_quantity: number
+          accepted_quantity: number
+          rejected_quantity: number
+          disputed_quantity: number
+          notes: string | null
+          inspected_at: string
+        }
+        Insert: {
+          id?: string
+          delivery_request_id: string
+          transaction_id?: string | null
+          batch_id: string
+          buyer_id: string
+          seller_id: string
+          declared_grading?: string | null
+          inspected_grading?: string | null
+          expected_quantity: number
+          accepted_quantity: number
+          rejected_quantity?: number
+          disputed_quantity?: number
+          notes?: string | null
+          inspected_at?: string
+        }
+        Update: {
+          id?: string
+          delivery_request_id?: string
+          transaction_id?: string | null
+          batch_id?: string
+          buyer_id?: string
+          seller_id?: string
+          declared_grading?: string | null
+          inspected_grading?: string | null
+          expected_quantity?: number
+          accepted_quantity?: number
+          rejected_quantity?: number
+          disputed_quantity?: number
+          notes?: string | null
+          inspected_at?: string
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          order_id: string
+          line_no: number
+          batch_id: string
+          marketplace_id: number
+          seller_id: string | null
+          quantity: number
+          unit_price: number
+          subtotal: number
+          transaction_id: string
+          receipt_id: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          line_no: number
+          batch_id: string
+          marketplace_id: number
+          seller_id?: string | null
+          quantity: number
+          unit_price: number
+          subtotal: number
+          transaction_id: string
+          receipt_id: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          line_no?: number
+          batch_id?: string
+          marketplace_id?: number
+          seller_id?: string | null
+          quantity?: number
+          unit_price?: number
+          subtotal?: number
+          transaction_id?: string
+          receipt_id?: string
+        }
+        Relationships: []
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          idempotency_key: string
+          buyer_id: string
+          delivery_address: string
+          request: Json
+          subtotal: number
+          delivery_fee: number
+          total: number
+          summary: Json
           created_at: string | null
         }
         Insert: {
           id?: string
-          group_id?: string | null
-          farmer_id?: string | null
-          user_id?: string | null
-          crop_type?: string | null
-          variety?: string | null
-          grading?: string | null
-          harvest_date?: string | null
+          idempotency_key: string
+          buyer_id: string
+          delivery_address: string
+          request: Json
+          subtotal: number
+          delivery_fee: number
+          total: number
+          summary: Json
           created_at?: string | null
         }
         Update: {
           id?: string
-          group_id?: string | null
-          farmer_id?: string | null
-          user_id?: string | null
-          crop_type?: string | null
-          variety?: string | null
-          grading?: string | null
-          harvest_date?: string | null
+          idempotency_key?: string
+          buyer_id?: string
+          delivery_address?: string
+          request?: Json
+          subtotal?: number
+          delivery_fee?: number
+          total?: number
+          summary?: Json
           created_at?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "batches_farmer_id_fkey"
-            columns: ["farmer_id"]
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "batches_user_id_fkey"
-            columns: ["user_id"]
-            referencedRelation: "profiles"
-            referencedColumns: ["user_id"]
-          }
-        ]
+        Relationships: []
       }
-      group_files: {
+      purchase_receipts: {
         Row: {
           id: string
-          batch_id: string | null
-          group_id: string | null
-          transaction_type: string | null
-          metadata: Json | string | null
-          ipfs_hash: string | null
-          created_at: string | null
+          idempotency_key: string
+          buyer_id: string
+          seller_id: string | null
+          batch_id: string
+          transaction_id: string
+          quantity: number
+          receipt: Json
+          created_at: string
         }
         Insert: {
           id?: string
-          batch_id?: string | null
-          group_id?: string | null
-          transaction_type?: string | null
-          metadata?: Json | string | null
-          ipfs_hash?: string | null
-          created_at?: string | null
+          idempotency_key: string
+          buyer_id: string
+          seller_id?: string | null
+          batch_id: string
+          transaction_id: string
+          quantity: number
+          receipt: Json
+          created_at?: string
         }
         Update: {
           id?: string
-          batch_id?: string | null
-          group_id?: string | null
-          transaction_type?: string | null
-          metadata?: Json | string | null
-          ipfs_hash?: string | null
-          created_at?: string | null
+          idempotency_key?: string
+          buyer_id?: string
+          seller_id?: string | null
+          batch_id?: string
+          transaction_id?: string
+          quantity?: number
+          receipt?: Json
+          created_at?: string
         }
         Relationships: []
       }
-      profiles: {
+      quantity_reservations: {
         Row: {
           id: string
-          user_id: string | null
-          full_name: string | null
-          email: string | null
-          user_type: string | null
-          farm_location: string | null
+          marketplace_id: number
+          batch_id: string
+          buyer_id: string
+          quantity: number
+          status: string
+          expires_at: string
+          purchase_receipt_id: string | null
+          auction_id: string | null
+          offer_id: string | null
+          contract_id: string | null
+          quote_id: string | null
+          unit_price: number | null
+          created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
-          user_id?: string | null
-          full_name?: string | null
-          email?: string | null
-          user_type?: string | null
-          farm_location?: string | null
+          marketplace_id: number
+          batch_id: string
+          buyer_id: string
+          quantity: number
+          status?: string
+          expires_at: string
+          purchase_receipt_id?: string | null
+          auction_id?: string | null
+          offer_id?: string | null
+          contract_id?: string | null
+          quote_id?: string | null
+          unit_price?: number | null
+          created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
-          user_id?: string | null
-          full_name?: string | null
-          email?: string | null
-          user_type?: string | null
-          farm_location?: string | null
+          marketplace_id?: number
+          batch_id?: string
+          buyer_id?: string
+          quantity?: number
+          status?: string
+          expires_at?: string
+          purchase_receipt_id?: string | null
+          auction_id?: string | null
+          offer_id?: string | null
+          contract_id?: string | null
+          quote_id?: string | null
+          unit_price?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      reputation_scores: {
+        Row: {
+          profile_id: string
+          score: number
+          breakdown: Json
+          algorithm_version: number
+          computed_at: string
+        }
+        Insert: {
+          profile_id: string
+          score: number
+          breakdown: Json
+          algorithm_version: number
+          computed_at?: string
+        }
+        Update: {
+          profile_id?: string
+          score?: number
+          breakdown?: Json
+          algorithm_version?: number
+          computed_at?: string
+        }
+        Relationships: []
+      }
+      staff_roles: {
+        Row: {
+          profile_id: string
+          role: string
+          granted_by: string | null
+          revoked_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          profile_id: string
+          role: string
+          granted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          profile_id?: string
+          role?: string
+          granted_by?: string | null
+          revoked_at?: string | null
+          created_at?: string | null
         }
         Relationships: []
       }
@@ -133,6 +1535,13 @@ export type Database = {
           product_details: Json | null
           metadata: Json | null
           blockchain_hash: string | null
+          content_hash: string | null
+          previous_content_hash: string | null
+          anchor_root: string | null
+          anchor_tx_hash: string | null
+          anchor_leaf_index: number | null
+          anchor_proof: Json | null
+          attestation: Json | null
         }
         Insert: {
           transaction_id: string
@@ -148,6 +1557,13 @@ export type Database = {
           product_details?: Json | null
           metadata?: Json | null
           blockchain_hash?: string | null
+          content_hash?: string | null
+          previous_content_hash?: string | null
+          anchor_root?: string | null
+          anchor_tx_hash?: string | null
+          anchor_leaf_index?: number | null
+          anchor_proof?: Json | null
+          attestation?: Json | null
         }
         Update: {
           transaction_id?: string
@@ -163,6 +1579,13 @@ export type Database = {
           product_details?: Json | null
           metadata?: Json | null
           blockchain_hash?: string | null
+          content_hash?: string | null
+          previous_content_hash?: string | null
+          anchor_root?: string | null
+          anchor_tx_hash?: string | null
+          anchor_leaf_index?: number | null
+          anchor_proof?: Json | null
+          attestation?: Json | null
         }
         Relationships: [
           {
@@ -173,12 +1596,514 @@ export type Database = {
           }
         ]
       }
+      wallet_signing_consents: {
+        Row: {
+          id: string
+          profile_id: string
+          consent_reference: string
+          consent_method: string
+          purpose: string
+          granted_to: string
+          expires_at: string
+          revoked_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          profile_id: string
+          consent_reference: string
+          consent_method: string
+          purpose: string
+          granted_to: string
+          expires_at: string
+          revoked_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          profile_id?: string
+          consent_reference?: string
+          consent_method?: string
+          purpose?: string
+          granted_to?: string
+          expires_at?: string
+          revoked_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      auction_overview: {
+        Row: {
+          id: string | null
+          marketplace_id: number | null
+          batch_id: string | null
+          seller_id: string | null
+          mode: string | null
+          quantity: number | null
+          starting_price: number | null
+          reserve_price: number | null
+          min_increment: number | null
+          ends_at: string | null
+          extension_seconds: number | null
+          status: string | null
+          winning_bid_id: string | null
+          award_reservation_id: string | null
+          created_at: string | null
+          crop_type: string | null
+          variety: string | null
+          grading: string | null
+          seller_name: string | null
+          bid_count: number | null
+          bidder_count: number | null
+          highest_bid: number | null
+        }
+        Relationships: []
+      }
+      contract_allocation_overview: {
+        Row: {
+          id: string | null
+          contract_id: string | null
+          batch_id: string | null
+          quantity: number | null
+          price_per_kg: number | null
+          reservation_id: string | null
+          created_at: string | null
+          crop_type: string | null
+          variety: string | null
+          harvest_date: string | null
+          hold_status: string | null
+          hold_expires_at: string | null
+        }
+        Relationships: []
+      }
+      demand_quote_overview: {
+        Row: {
+          id: string | null
+          request_id: string | null
+          buyer_id: string | null
+          farmer_id: string | null
+          batch_id: string | null
+          marketplace_id: number | null
+          available_from: string | null
+          price_per_kg: number | null
+          quantity: number | null
+          message: string | null
+          status: string | null
+          reservation_id: string | null
+          contract_id: string | null
+          created_at: string | null
+          updated_at: string | null
+          crop_type: string | null
+          delivery_location: string | null
+          needed_by: string | null
+          farmer_name: string | null
+          batch_variety: string | null
+          batch_grading: string | null
+          harvest_date: string | null
+          hold_status: string | null
+          hold_expires_at: string | null
+        }
+        Relationships: []
+      }
+      demand_request_overview: {
+        Row: {
+          id: string | null
+          buyer_id: string | null
+          crop_type: string | null
+          variety: string | null
+          grading: string | null
+          quantity: number | null
+          max_price_per_kg: number | null
+          delivery_location: string | null
+          needed_by: string | null
+          notes: string | null
+          status: string | null
+          filled_quantity: number | null
+          created_at: string | null
+          updated_at: string | null
+          buyer_name: string | null
+          pending_quotes: number | null
+        }
+        Relationships: []
+      }
+      forward_contract_overview: {
+        Row: {
+          id: string | null
+          buyer_id: string | null
+          farmer_id: string | null
+          proposed_by: string | null
+          crop_type: string | null
+          variety: string | null
+          grading: string | null
+          min_quantity: number | null
+          max_quantity: number | null
+          price_per_kg: number | null
+          delivery_start: string | null
+          delivery_end: string | null
+          shortfall_penalty_per_kg: number | null
+          status: string | null
+          allocated_quantity: number | null
+          delivered_quantity: number | null
+          penalty_amount: number | null
+          notes: string | null
+          settled_at: string | null
+          created_at: string | null
+          updated_at: string | null
+          buyer_name: string | null
+          farmer_name: string | null
+        }
+        Relationships: []
+      }
+      marketplace_holds: {
+        Row: {
+          marketplace_id: number | null
+          held_quantity: number | null
+        }
+        Relationships: []
+      }
+      marketplace_listings: {
+        Row: {
+          id: number | null
+          batch_id: string | null
+          current_seller_id: string | null
+          current_seller_type: string | null
+          price: number | null
+          status: string | null
+          created_at: string | null
+          listed_quantity: number | null
+          quantity: number | null
+          crop_type: string | null
+          variety: string | null
+          grading: string | null
+          certification: string | null
+          harvest_date: string | null
+          freshness_duration: number | null
+          freshness_remaining: number | null
+          group_id: string | null
+          farmer_id: string | null
+          current_owner: string | null
+          price_per_kg: number | null
+          harvest_quantity: number | null
+          seller_name: string | null
+          seller_user_type: string | null
+          farm_location: string | null
+          wallet_address: string | null
+          district: string | null
+          search_vector: unknown | null
+        }
+        Relationships: []
+      }
+      offer_overview: {
+        Row: {
+          id: string | null
+          marketplace_id: number | null
+          batch_id: string | null
+          buyer_id: string | null
+          seller_id: string | null
+          price_per_kg: number | null
+          quantity: number | null
+          status: string | null
+          awaiting: string | null
+          expires_at: string | null
+          reservation_id: string | null
+          created_at: string | null
+          updated_at: string | null
+          crop_type: string | null
+          variety: string | null
+          list_price: number | null
+          listed_quantity: number | null
+          buyer_name: string | null
+          seller_name: string | null
+          hold_status: string | null
+          hold_expires_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      allocate_batch_to_contracts: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Json
+      }
+      cancel_auction: {
+        Args: {
+          p_auction_id: string
+        }
+        Returns: undefined
+      }
+      checkout_order: {
+        Args: {
+          p_idempotency_key: string
+          p_lines: Json
+          p_delivery_address: string
+        }
+        Returns: Json
+      }
+      close_demand_request: {
+        Args: {
+          p_request_id: string
+        }
+        Returns: undefined
+      }
+      compute_reputation: {
+        Args: {
+          p_profile_id: string
+        }
+        Returns: Json
+      }
+      create_auction: {
+        Args: {
+          p_batch_id: string
+          p_mode: string
+          p_starting_price: number
+          p_reserve_price: number | null
+          p_min_increment: number
+          p_ends_at: string
+          p_extension_seconds: number
+        }
+        Returns: string
+      }
+      demand_fits: {
+        Args: {
+          p_request_crop: string
+          p_request_variety: string | null
+          p_request_grading: string | null
+          p_needed_by: string
+          p_batch_crop: string
+          p_batch_variety: string | null
+          p_batch_grading: string | null
+          p_harvest_date: string
+        }
+        Returns: boolean
+      }
+      evaluate_listing_watches: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      expire_demand_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      expire_offers: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      has_staff_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      location_district: {
+        Args: {
+          p_location: string | null
+        }
+        Returns: string | null
+      }
+      make_offer: {
+        Args: {
+          p_batch_id: string
+          p_price_per_kg: number
+          p_quantity: number
+          p_message?: string | null
+          p_valid_hours?: number
+        }
+        Returns: string
+      }
+      merge_batches: {
+        Args: {
+          p_sources: Json
+          p_grading: string | null
+          p_label: string | null
+        }
+        Returns: Json
+      }
+      notify_demand_matches: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: number
+      }
+      place_bid: {
+        Args: {
+          p_auction_id: string
+          p_amount_per_kg: number
+        }
+        Returns: Json
+      }
+      post_demand_request: {
+        Args: {
+          p_crop_type: string
+          p_variety: string | null
+          p_grading: string | null
+          p_quantity: number
+          p_max_price_per_kg: number
+          p_delivery_location: string
+          p_needed_by: string
+          p_notes?: string | null
+        }
+        Returns: Json
+      }
+      propose_forward_contract: {
+        Args: {
+          p_counterparty_id: string
+          p_crop_type: string
+          p_variety: string | null
+          p_grading: string | null
+          p_min_quantity: number
+          p_max_quantity: number
+          p_price_per_kg: number
+          p_delivery_start: string
+          p_delivery_end: string
+          p_shortfall_penalty_per_kg?: number
+          p_notes?: string | null
+        }
+        Returns: string
+      }
+      purchase_batch: {
+        Args: {
+          p_idempotency_key: string
+          p_batch_id: string
+          p_quantity: number
+          p_unit_price: number | null
+          p_delivery_address: string
+          p_reservation_id: string
+        }
+        Returns: Json
+      }
+      record_audit_log: {
+        Args: {
+          p_action: string
+          p_status: string
+          p_details: Json
+        }
+        Returns: string
+      }
+      record_mandi_price: {
+        Args: {
+          p_commodity: string
+          p_state: string
+          p_district: string
+          p_market: string | null
+          p_min_price: number | null
+          p_max_price: number | null
+          p_modal_price: number
+          p_price_date: string
+        }
+        Returns: number
+      }
+      release_reservation: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: undefined
+      }
+      reputation_component: {
+        Args: {
+          p_successes: number
+          p_samples: number
+          p_weight: number
+        }
+        Returns: Json
+      }
+      reputation_grade_rank: {
+        Args: {
+          p_grading: string
+        }
+        Returns: number
+      }
+      respond_to_demand_quote: {
+        Args: {
+          p_quote_id: string
+          p_action: string
+        }
+        Returns: Json
+      }
+      respond_to_forward_contract: {
+        Args: {
+          p_contract_id: string
+          p_action: string
+        }
+        Returns: Json
+      }
+      respond_to_offer: {
+        Args: {
+          p_offer_id: string
+          p_action: string
+          p_price_per_kg?: number | null
+          p_quantity?: number | null
+          p_message?: string | null
+          p_valid_hours?: number
+        }
+        Returns: Json
+      }
+      reserve_quantity: {
+        Args: {
+          p_batch_id: string
+          p_quantity: number
+          p_hold_seconds?: number
+        }
+        Returns: Json
+      }
+      search_marketplace: {
+        Args: {
+          p_query?: string | null
+          p_grades?: string[] | null
+          p_certifications?: string[] | null
+          p_districts?: string[] | null
+          p_seller_types?: string[] | null
+          p_min_price?: number | null
+          p_max_price?: number | null
+          p_min_freshness_days?: number | null
+          p_farmer_id?: string | null
+          p_exclude_seller_id?: string | null
+          p_sort?: string
+          p_cursor?: string | null
+          p_limit?: number
+        }
+        Returns: Json
+      }
+      settle_auction: {
+        Args: {
+          p_auction_id: string
+        }
+        Returns: Json
+      }
+      settle_forward_contracts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      split_batch: {
+        Args: {
+          p_batch_id: string
+          p_children: Json
+          p_previous_hash: string | null
+        }
+        Returns: Json
+      }
+      submit_demand_quote: {
+        Args: {
+          p_request_id: string
+          p_price_per_kg: number
+          p_quantity: number
+          p_batch_id?: string | null
+          p_available_from?: string | null
+          p_message?: string | null
+        }
+        Returns: string
+      }
+      track_mandi_market: {
+        Args: {
+          p_commodity: string
+          p_state: string
+          p_district: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
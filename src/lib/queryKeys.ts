@@ -0,0 +1,15 @@
+/**
+ * React Query keys shared between pages and the live contract event layer that invalidates them
+ */
+export const queryKeys = {
+  marketplace: ['marketplace'] as const,
+  inventory: ['inventory'] as const,
+  batchHistory: (blockchainBatchId: string | number) => ['batch-history', String(blockchainBatchId)] as const,
+  allBatchHistory: ['batch-history'] as const,
+  auctions: ['auctions'] as const,
+  offers: ['offers'] as const,
+  forwardContracts: ['forward-contracts'] as const,
+  demand: ['demand'] as const,
+  priceWatches: ['price-watches'] as const,
+  mandiHistory: ['mandi-history'] as const
+};
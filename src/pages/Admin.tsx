@@ -26,6 +26,9 @@ import { useState, useEffect, lazy, Suspense } from 'react';
 import { Tables } from '@/integrations/supabase/types';
 import { logger } from '@/lib/logger';
 import { sanitizeError } from '@/lib/security';
+import { MerkleAnchorPanel } from '@/features/blockchain/components/MerkleAnchorPanel';
+import { RoleManagementPanel } from '@/features/blockchain/components/RoleManagementPanel';
+import { ContractMigrationPanel } from '@/features/blockchain/components/ContractMigrationPanel';
 
 // Debug components - lazy loaded only in development
 const DataCleanupButton = import.meta.env.DEV 
@@ -205,12 +208,14 @@ export const Admin = () => {
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <div className="bg-muted rounded-lg p-1">
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="roles">Roles</TabsTrigger>
               <TabsTrigger value="batches">Batches</TabsTrigger>
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
               <TabsTrigger value="audit">Audit Logs</TabsTrigger>
+              <TabsTrigger value="migration">Migration</TabsTrigger>
               <TabsTrigger value="settings">Settings</TabsTrigger>
             </TabsList>
           </div>
@@ -411,6 +416,14 @@ export const Admin = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="roles" className="space-y-6">
+            {activeTab === 'roles' && <RoleManagementPanel />}
+          </TabsContent>
+
+          <TabsContent value="migration" className="space-y-6">
+            {activeTab === 'migration' && <ContractMigrationPanel />}
+          </TabsContent>
+
           <TabsContent value="batches" className="space-y-6">
             <Card className="govt-card shadow-large">
               <CardHeader>
@@ -581,7 +594,9 @@ export const Admin = () => {
                         <TableCell>{log.timestamp}</TableCell>
                         <TableCell>
                           <Badge variant="outline">
-                            <CheckCircle className="h-3 w-3 mr-1 text-green-600" />
+                            {log.status === 'failed'
+                              ? <XCircle className="h-3 w-3 mr-1 text-red-600" />
+                              : <CheckCircle className="h-3 w-3 mr-1 text-green-600" />}
                             {log.status}
                           </Badge>
                         </TableCell>
@@ -645,6 +660,7 @@ export const Admin = () => {
                         <span className="text-sm">Gas price settings</span>
                         <Button variant="outline" size="sm">Configure</Button>
                       </div>
+                      <MerkleAnchorPanel />
                     </CardContent>
                   </Card>
                 </div>
@@ -11,6 +11,8 @@ import { useToast } from '@/components/ui/use-toast';
 import { fetchVoiceGenieCalls, validateVoiceGenieData, type VoiceGenieCall } from '@/features/batch-registration/services/voicegenieService';
 import { registerBatchFromVoiceGenie } from '@/features/batch-registration/services/voicegenieBatchRegistration';
 import { useWeb3 } from '@/features/blockchain/contexts/Web3Context';
+import { metaTransactionRelayer } from '@/features/blockchain/utils/metaTransactionRelayer';
+import { CustodialWalletPanel } from '@/features/wallet-vault/components/CustodialWalletPanel';
 import { 
   Phone, 
   User, 
@@ -36,6 +38,9 @@ import {
 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 
 export const HelperDesk = () => {
   const { user, profile } = useAuth();
@@ -47,6 +52,8 @@ export const HelperDesk = () => {
   const [selectedCall, setSelectedCall] = useState<VoiceGenieCall | null>(null);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [processingCallId, setProcessingCallId] = useState<string | null>(null);
+  // Farmer's consent, given on the call, for the helper desk to sign with their custodial wallet
+  const [signingConsent, setSigningConsent] = useState<{ callId: string; reference: string } | null>(null);
   const isFetchingRef = useRef(false); // Prevent multiple simultaneous fetches
 
   // Removed automatic refresh - user must manually click refresh button
@@ -143,13 +150,18 @@ export const HelperDesk = () => {
     try {
       setProcessingCallId(call.id);
       
+      const consent = signingConsent?.callId === call.id && signingConsent.reference.trim()
+        ? { reference: signingConsent.reference, method: 'voice_call' as const }
+        : null;
+
       // Register batch on blockchain and Pinata
       const result = await registerBatchFromVoiceGenie(
         call.collectedData,
         call.phone,
         call.farmerName || 'Unknown Farmer',
         call.farmerLocation,
-        signer
+        signer,
+        consent
       );
 
       // Save submission record to database
@@ -445,6 +457,11 @@ export const HelperDesk = () => {
           </Card>
         </div>
 
+        {/* Custodial wallets */}
+        <div className="mb-8">
+          <CustodialWalletPanel />
+        </div>
+
         {/* Error Display */}
         {error && (
           <Alert variant="destructive" className="mb-6">
@@ -1014,6 +1031,36 @@ export const HelperDesk = () => {
                 </Card>
               )}
 
+              {/* Custodial signing consent */}
+              {metaTransactionRelayer.isEnabled() && (
+                <Card className="govt-card">
+                  <CardContent className="p-4 space-y-3">
+                    <label className="flex items-start gap-2 text-sm">
+                      <Checkbox
+                        className="mt-1"
+                        checked={signingConsent?.callId === selectedCall.id}
+                        onCheckedChange={checked => setSigningConsent(checked === true ? { callId: selectedCall.id, reference: selectedCall.id } : null)}
+                      />
+                      <span>
+                        The farmer agreed on this call to let the helper desk sign this registration with their wallet,
+                        so the batch is registered to the farmer's own address.
+                      </span>
+                    </label>
+                    {signingConsent?.callId === selectedCall.id && (
+                      <div>
+                        <Label htmlFor="signing-consent-reference">Consent reference</Label>
+                        <Input
+                          id="signing-consent-reference"
+                          value={signingConsent.reference}
+                          onChange={e => setSigningConsent({ callId: selectedCall.id, reference: e.target.value })}
+                          placeholder="Call ID or recording link"
+                        />
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Actions */}
               <div className="flex flex-col sm:flex-row gap-3 pt-4 border-t">
                 <Button
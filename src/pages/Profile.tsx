@@ -38,6 +38,9 @@ import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/components/ui/use-toast';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { analyzeCropHealth, type CropHealthAnalysis } from '@/features/ai-services/services/cropHealthService';
+import { reputationService, ReputationBreakdown } from '@/features/reputation/utils/reputationService';
+import { ReputationBreakdownList } from '@/features/reputation/components/ReputationBreakdown';
+import { getReputationFromContract, getReadOnlyProvider } from '@/features/blockchain/utils/contractUtils';
 
 export const Profile = () => {
   const { user } = useAuth();
@@ -59,6 +62,8 @@ export const Profile = () => {
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<CropHealthAnalysis | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [reputation, setReputation] = useState<ReputationBreakdown | null>(null);
+  const [tipPoints, setTipPoints] = useState(0);
 
   useEffect(() => {
     if (user) {
@@ -83,12 +88,26 @@ export const Profile = () => {
         farmLocation: data?.farm_location || '',
         bio: ''
       });
+      if (data) {
+        loadReputation(data);
+      }
     } catch (error) {
       logger.error('Error fetching profile', error);
     } finally {
       setLoading(false);
     }
   };
+
+  const loadReputation = async (loaded: Tables<'profiles'>) => {
+    try {
+      setReputation(await reputationService.getReputation(loaded.id));
+    } catch (error) {
+      logger.error('Error loading reputation', error);
+    }
+    if (loaded.wallet_address) {
+      setTipPoints(await getReputationFromContract(loaded.wallet_address, getReadOnlyProvider()));
+    }
+  };
   
   if (loading) {
     return (
@@ -229,7 +248,7 @@ export const Profile = () => {
                   </Badge>
                   <div className="flex items-center text-sm text-muted-foreground">
                     <Star className="h-4 w-4 mr-1 text-yellow-500" />
-                    {profile?.reputation_score || 0} points
+                    {tipPoints} tip points
                   </div>
                 </div>
                 <div className="flex items-center text-sm text-muted-foreground">
@@ -243,12 +262,21 @@ export const Profile = () => {
               </div>
 
               <div className="text-center">
-                <div className="text-lg font-bold">{profile?.reputation_score || 0}/100</div>
-                <div className="text-sm text-muted-foreground">Reputation</div>
-                <Progress value={profile?.reputation_score || 0} className="mt-2" />
+                <div className="text-lg font-bold">{reputation?.score ?? '—'}/100</div>
+                <div className="text-sm text-muted-foreground">Trust score</div>
+                <Progress value={reputation?.score ?? 0} className="mt-2" />
               </div>
             </div>
 
+            {reputation && (
+              <div className="mt-6">
+                <h3 className="font-semibold mb-3">Trust score breakdown</h3>
+                {reputation.score === null
+                  ? <p className="text-sm text-muted-foreground">No deliveries, inspections or sales yet.</p>
+                  : <ReputationBreakdownList reputation={reputation} />}
+              </div>
+            )}
+
             {/* Achievements */}
             <div className="mt-6">
               <h3 className="font-semibold mb-3">Achievements</h3>
@@ -26,9 +26,113 @@ export interface SupplyChainTransaction {
     qualityScore?: number;
     storageConditions?: string;
     processingDetails?: string;
+    lineage?: BatchLineage;
   };
   ipfsHash: string;
   blockchainHash?: string;
+  contentHash?: string;
+  previousContentHash?: string;
+  anchor?: TransactionAnchor;
+  attestation?: TransferAttestation;
+}
+
+/**
+ * On-chain anchor for a transaction: the Merkle root written to the contract
+ * and the proof linking this transaction's content hash to it
+ */
+export interface TransactionAnchor {
+  merkleRoot: string;
+  anchorTxHash: string;
+  leafIndex: number;
+  siblings: string[];
+}
+
+/**
+ * EIP-712 message signed by both parties of a transfer.
+ * Quantity is in grams and price in paise so both fit uint256 exactly.
+ */
+export interface TransferAttestationMessage {
+  transactionId: string;
+  batchId: string;
+  seller: string;
+  buyer: string;
+  quantity: string;
+  price: string;
+  previousHash: string;
+}
+
+export interface AttestationSignature {
+  address: string;
+  signature: string;
+  signedAt: string;
+}
+
+/**
+ * Typed-data attestation of a transfer with whichever party signatures have been collected
+ */
+export interface TransferAttestation {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+  message: TransferAttestationMessage;
+  sellerSignature?: AttestationSignature;
+  buyerSignature?: AttestationSignature;
+  ipfsHash?: string;
+}
+
+/**
+ * Merkle inclusion proof for a single transaction in its batch
+ * Lets a third party check one transaction against the batch root without the full history
+ */
+export interface TransactionInclusionProof {
+  transactionId: string;
+  batchId: string;
+  contentHash: string;
+  leafIndex: number;
+  siblings: string[];
+  merkleRoot: string;
+}
+
+/**
+ * Lineage marker carried by PROCESSING transactions that split or merge batches.
+ * OUT is recorded on the source batch, IN opens the derived batch.
+ */
+export interface BatchLineage {
+  operation: 'SPLIT' | 'MERGE';
+  direction: 'OUT' | 'IN';
+  parentBatchIds: string[];
+  childBatchIds: string[];
+}
+
+export interface LineageEdge {
+  parentBatchId: string;
+  childBatchId: string;
+  operation: BatchLineage['operation'];
+  quantity: number;
+  transactionId: string;
+  createdAt: string;
+}
+
+export interface LineageNode {
+  batchId: string;
+  crop: string;
+  variety: string;
+  grading?: string;
+  harvestDate?: string;
+  isSourceHarvest: boolean;
+}
+
+/**
+ * Parent/child graph of batches reachable from a batch, down to every source harvest
+ */
+export interface LineageGraph {
+  rootBatchId: string;
+  nodes: { [batchId: string]: LineageNode };
+  edges: LineageEdge[];
+  sourceHarvestIds: string[];
 }
 
 export interface TransactionChain {
@@ -42,6 +146,7 @@ export interface TransactionChain {
   };
   totalQuantity: number;
   availableQuantity: number;
+  merkleRoot?: string;
 }
 
 export interface OwnershipRecord {
@@ -66,6 +171,7 @@ export interface CertificateData {
     [owner: string]: number;
   };
   transactionChain: SupplyChainTransaction[];
+  lineage?: LineageGraph;
   totalQuantity: number;
   availableQuantity: number;
   createdAt: string;
@@ -4,11 +4,27 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_IOT_PROXY_TARGET?: string;
-  readonly VITE_CONTRACT_ADDRESS: string;
+  // Deployment on VITE_DEFAULT_NETWORK; per-network VITE_<NETWORK>_* values take precedence
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  readonly VITE_CONTRACT_DEPLOY_BLOCK?: string;
+  readonly VITE_FORWARDER_ADDRESS?: string;
+  readonly VITE_ESCROW_INR_PER_ETH?: string;
   readonly VITE_SEPOLIA_RPC_URL: string;
+  readonly VITE_SEPOLIA_RPC_FALLBACKS?: string;
   readonly VITE_SEPOLIA_EXPLORER?: string;
+  readonly VITE_SEPOLIA_CONTRACT_ADDRESS?: string;
+  readonly VITE_SEPOLIA_DEPLOY_BLOCK?: string;
+  readonly VITE_SEPOLIA_FORWARDER_ADDRESS?: string;
   readonly VITE_MONAD_RPC_URL: string;
+  readonly VITE_MONAD_RPC_FALLBACKS?: string;
   readonly VITE_MONAD_EXPLORER?: string;
+  readonly VITE_MONAD_CONTRACT_ADDRESS?: string;
+  readonly VITE_MONAD_DEPLOY_BLOCK?: string;
+  readonly VITE_MONAD_FORWARDER_ADDRESS?: string;
+  readonly VITE_LOCALHOST_RPC_URL?: string;
+  readonly VITE_LOCALHOST_CONTRACT_ADDRESS?: string;
+  readonly VITE_LOCALHOST_DEPLOY_BLOCK?: string;
+  readonly VITE_LOCALHOST_FORWARDER_ADDRESS?: string;
   readonly VITE_DEFAULT_NETWORK?: string;
   readonly VITE_PINATA_API_KEY: string;
   readonly VITE_PINATA_API_SECRET: string;
@@ -0,0 +1,356 @@
+// Scheduled chain event indexer, called every minute by pg_cron (see scheduleChainIndexer).
+//
+// Copies AgriTrace contract events into chain_events with real block timestamps, so history pages,
+// role lists and the wallet vault read from Supabase instead of each browser scanning logs over RPC.
+// A cursor per chain/contract (chain_indexer_cursors) records the last indexed block and its hash;
+// when that hash changes the indexer rewinds and re-indexes. Each run indexes a bounded number of
+// blocks per deployment and picks up from the cursor on the next run.
+//
+// Secrets: CHAIN_INDEXER_SECRET (the bearer token the scheduler sends), AGRITRACE_DEPLOYMENTS (JSON
+// array of { "rpcUrl", "contractAddress", "deployBlock" }, one per indexed deployment),
+// SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ethers } from 'npm:ethers@6';
+
+interface Deployment {
+  rpcUrl: string;
+  contractAddress: string;
+  deployBlock: number;
+}
+
+interface ChainSyncResult {
+  chainId: number;
+  contractAddress: string;
+  fromBlock: number;
+  toBlock: number;
+  eventCount: number;
+  reorgDetected: boolean;
+}
+
+type ChainEventRow = Record<string, unknown>;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+// Contract events mirrored into Supabase
+const AGRITRACE_ABI = [
+  'event BatchRegistered(uint256 indexed batchId, address indexed farmer, string crop, string ipfsHash, uint256 price)',
+  'event PurchaseRecorded(uint256 indexed batchId, address indexed from, address indexed to, uint256 quantity, uint256 price)',
+  'event BatchOwnershipTransferred(uint256 indexed batchId, address indexed from, address indexed to)',
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event PriceUpdated(uint256 indexed batchId, uint256 newPrice)',
+  'event Tipped(address indexed from, address indexed farmer, uint256 amount)',
+  'event EscrowCreated(uint256 indexed escrowId, uint256 indexed batchId, address indexed buyer, address seller, uint256 amount, uint256 quantity, uint256 deadline)',
+  'event EscrowDelivered(uint256 indexed escrowId, uint256 indexed batchId, bytes32 deliveryProof)',
+  'event EscrowReleased(uint256 indexed escrowId, uint256 indexed batchId, address indexed seller, uint256 amount)',
+  'event EscrowRefunded(uint256 indexed escrowId, uint256 indexed batchId, address indexed buyer, uint256 amount)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event BatchMigrated(uint256 indexed batchId, uint256 indexed legacyChainId, address indexed legacyContract, uint256 legacyBatchId)',
+  'function totalQuantity(uint256 batchId) view returns (uint256)'
+];
+
+// Blocks behind the head before an event is indexed, and how far to rewind when the cursor's block was replaced
+const CONFIRMATIONS = 3;
+const REORG_DEPTH = 12;
+const BLOCK_CHUNK_SIZE = 2000;
+// Keeps one run inside the function's time limit; the next run continues from the cursor
+const MAX_BLOCKS_PER_RUN = 20000;
+// Without a configured deploy block, only scan this far back on the first run
+const DEFAULT_LOOKBACK_BLOCKS = 10000;
+const GRAMS_PER_KG = 1000;
+
+class IndexerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+const fromOnChainQuantity = (grams: bigint) => Number(grams) / GRAMS_PER_KG;
+
+function authorize(request: Request) {
+  const secret = Deno.env.get('CHAIN_INDEXER_SECRET');
+  if (!secret) {
+    throw new IndexerError('Chain indexer secret is not configured', 500);
+  }
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== secret) {
+    throw new IndexerError('Invalid authorization', 401);
+  }
+}
+
+function getDeployments(): Deployment[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Deno.env.get('AGRITRACE_DEPLOYMENTS') || '[]');
+  } catch {
+    throw new IndexerError('AGRITRACE_DEPLOYMENTS is not valid JSON', 500);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new IndexerError('AGRITRACE_DEPLOYMENTS must be an array', 500);
+  }
+
+  return parsed.map(entry => {
+    if (typeof entry?.rpcUrl !== 'string' || !ethers.isAddress(entry?.contractAddress)) {
+      throw new IndexerError('Each deployment needs an rpcUrl and a contractAddress', 500);
+    }
+    return { rpcUrl: entry.rpcUrl, contractAddress: entry.contractAddress, deployBlock: Number(entry.deployBlock) || 0 };
+  });
+}
+
+async function getCursor(admin: SupabaseClient, chainId: number, contractAddress: string) {
+  const { data, error } = await admin
+    .from('chain_indexer_cursors')
+    .select('last_block, last_block_hash')
+    .eq('chain_id', chainId)
+    .eq('contract_address', contractAddress)
+    .maybeSingle();
+  if (error) {
+    throw new IndexerError('Failed to read indexer cursor', 500);
+  }
+  return data as { last_block: number; last_block_hash: string | null } | null;
+}
+
+async function saveCursor(admin: SupabaseClient, chainId: number, contractAddress: string, lastBlock: number, lastBlockHash: string | null) {
+  const { error } = await admin
+    .from('chain_indexer_cursors')
+    .upsert({
+      chain_id: chainId,
+      contract_address: contractAddress,
+      last_block: lastBlock,
+      last_block_hash: lastBlockHash,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'chain_id,contract_address' });
+  if (error) {
+    throw new IndexerError('Failed to save indexer cursor', 500);
+  }
+}
+
+async function deleteEventsFrom(admin: SupabaseClient, chainId: number, contractAddress: string, fromBlock: number) {
+  const { error } = await admin
+    .from('chain_events')
+    .delete()
+    .eq('chain_id', chainId)
+    .eq('contract_address', contractAddress)
+    .gte('block_number', fromBlock);
+  if (error) {
+    throw new IndexerError('Failed to remove reorganised chain events', 500);
+  }
+}
+
+async function toEventRow(
+  contract: ethers.Contract,
+  log: ethers.Log,
+  chainId: number,
+  contractAddress: string,
+  provider: ethers.Provider,
+  blockCache: Map<number, ethers.Block>
+): Promise<ChainEventRow | null> {
+  const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) {
+    return null;
+  }
+
+  let block = blockCache.get(log.blockNumber);
+  if (!block) {
+    block = (await provider.getBlock(log.blockNumber)) || undefined;
+    if (!block) {
+      throw new Error(`Block ${log.blockNumber} not found`);
+    }
+    blockCache.set(log.blockNumber, block);
+  }
+
+  const args = parsed.args;
+  const row: ChainEventRow = {
+    chain_id: chainId,
+    contract_address: contractAddress,
+    block_number: log.blockNumber,
+    block_hash: log.blockHash,
+    block_timestamp: new Date(block.timestamp * 1000).toISOString(),
+    transaction_hash: log.transactionHash,
+    log_index: log.index,
+    event_name: parsed.name,
+    args: Object.fromEntries(parsed.fragment.inputs.map((input, i) => [input.name, String(args[i])]))
+  };
+
+  switch (parsed.name) {
+    case 'BatchRegistered': {
+      row.batch_id = Number(args.batchId);
+      row.from_address = args.farmer.toLowerCase();
+      row.to_address = args.farmer.toLowerCase();
+      row.price = Number(args.price);
+      row.ipfs_hash = args.ipfsHash;
+      // The event does not carry the quantity; read the minted total from the contract
+      try {
+        row.quantity = fromOnChainQuantity(await contract.totalQuantity(args.batchId));
+      } catch {
+        console.warn(`Could not read harvest quantity for indexed batch ${row.batch_id}`);
+      }
+      break;
+    }
+    case 'PurchaseRecorded':
+      row.batch_id = Number(args.batchId);
+      row.from_address = args.from.toLowerCase();
+      row.to_address = args.to.toLowerCase();
+      row.quantity = fromOnChainQuantity(args.quantity);
+      row.price = Number(args.price);
+      break;
+    case 'BatchOwnershipTransferred':
+      row.batch_id = Number(args.batchId);
+      row.from_address = args.from.toLowerCase();
+      row.to_address = args.to.toLowerCase();
+      break;
+    case 'TransferSingle':
+      row.batch_id = Number(args.id);
+      row.from_address = args.from.toLowerCase();
+      row.to_address = args.to.toLowerCase();
+      row.quantity = fromOnChainQuantity(args.value);
+      break;
+    case 'PriceUpdated':
+      row.batch_id = Number(args.batchId);
+      row.price = Number(args.newPrice);
+      break;
+    case 'Tipped':
+      row.from_address = args.from.toLowerCase();
+      row.to_address = args.farmer.toLowerCase();
+      row.amount = String(args.amount);
+      break;
+    case 'EscrowCreated':
+      row.batch_id = Number(args.batchId);
+      row.from_address = args.buyer.toLowerCase();
+      row.to_address = args.seller.toLowerCase();
+      row.quantity = fromOnChainQuantity(args.quantity);
+      row.amount = String(args.amount);
+      break;
+    case 'EscrowDelivered':
+      row.batch_id = Number(args.batchId);
+      break;
+    case 'EscrowReleased':
+      row.batch_id = Number(args.batchId);
+      row.to_address = args.seller.toLowerCase();
+      row.amount = String(args.amount);
+      break;
+    case 'EscrowRefunded':
+      row.batch_id = Number(args.batchId);
+      row.to_address = args.buyer.toLowerCase();
+      row.amount = String(args.amount);
+      break;
+    case 'BatchMigrated':
+      row.batch_id = Number(args.batchId);
+      break;
+    case 'RoleGranted':
+    case 'RoleRevoked':
+      row.from_address = args.sender.toLowerCase();
+      row.to_address = args.account.toLowerCase();
+      break;
+  }
+
+  return row;
+}
+
+// Index new events of one deployment up to the confirmed head, or MAX_BLOCKS_PER_RUN past the cursor
+async function syncDeployment(admin: SupabaseClient, deployment: Deployment): Promise<ChainSyncResult> {
+  const provider = new ethers.JsonRpcProvider(deployment.rpcUrl);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const contractAddress = deployment.contractAddress.toLowerCase();
+  const latestBlock = await provider.getBlockNumber();
+
+  const cursor = await getCursor(admin, chainId, contractAddress);
+  let fromBlock = cursor
+    ? cursor.last_block + 1
+    : deployment.deployBlock || Math.max(0, latestBlock - DEFAULT_LOOKBACK_BLOCKS);
+  let reorgDetected = false;
+
+  if (cursor?.last_block_hash) {
+    const block = await provider.getBlock(cursor.last_block);
+    if (!block || block.hash !== cursor.last_block_hash) {
+      reorgDetected = true;
+      fromBlock = Math.max(deployment.deployBlock, cursor.last_block - REORG_DEPTH);
+      console.warn(`Chain reorganisation detected on chain ${chainId}, re-indexing from block ${fromBlock}`);
+      await deleteEventsFrom(admin, chainId, contractAddress, fromBlock);
+    }
+  }
+
+  const toBlock = Math.min(latestBlock - CONFIRMATIONS, fromBlock + MAX_BLOCKS_PER_RUN - 1);
+  if (fromBlock > toBlock) {
+    return { chainId, contractAddress, fromBlock, toBlock, eventCount: 0, reorgDetected };
+  }
+
+  const contract = new ethers.Contract(deployment.contractAddress, AGRITRACE_ABI, provider);
+  const topics: string[] = [];
+  contract.interface.forEachEvent(event => topics.push(event.topicHash));
+  const blockCache = new Map<number, ethers.Block>();
+  let eventCount = 0;
+
+  for (let start = fromBlock; start <= toBlock; start += BLOCK_CHUNK_SIZE) {
+    const end = Math.min(start + BLOCK_CHUNK_SIZE - 1, toBlock);
+    const logs = await provider.getLogs({
+      address: deployment.contractAddress,
+      fromBlock: start,
+      toBlock: end,
+      topics: [topics]
+    });
+
+    const rows: ChainEventRow[] = [];
+    for (const log of logs) {
+      const row = await toEventRow(contract, log, chainId, contractAddress, provider, blockCache);
+      if (row) {
+        rows.push(row);
+      }
+    }
+
+    if (rows.length > 0) {
+      const { error } = await admin
+        .from('chain_events')
+        .upsert(rows, { onConflict: 'chain_id,transaction_hash,log_index' });
+      if (error) {
+        throw new IndexerError('Failed to store chain events', 500);
+      }
+      eventCount += rows.length;
+    }
+
+    const endBlock = blockCache.get(end) || (await provider.getBlock(end));
+    await saveCursor(admin, chainId, contractAddress, end, endBlock?.hash || null);
+  }
+
+  return { chainId, contractAddress, fromBlock, toBlock, eventCount, reorgDetected };
+}
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    authorize(request);
+    const synced: ChainSyncResult[] = [];
+    const failed: string[] = [];
+
+    // One deployment failing (an RPC outage) does not hold back the others
+    for (const deployment of getDeployments()) {
+      try {
+        synced.push(await syncDeployment(admin, deployment));
+      } catch (error) {
+        console.error(`Chain event sync failed for ${deployment.contractAddress}`, error instanceof Error ? error.message : error);
+        failed.push(deployment.contractAddress);
+      }
+    }
+    return json({ synced, failed });
+  } catch (error) {
+    const status = error instanceof IndexerError ? error.status : 500;
+    const message = error instanceof IndexerError ? error.message : 'Chain indexer run failed';
+    if (!(error instanceof IndexerError)) {
+      console.error('Chain indexer error', error);
+    }
+    return json({ error: message }, status);
+  }
+});
@@ -0,0 +1,205 @@
+// Scheduled Merkle anchoring, called every ten minutes by pg_cron (see scheduleMerkleAnchoring).
+//
+// Hashed transactions that are not yet on-chain (purchases hashed by purchase_batch, client-written
+// harvest and processing records) are anchored together: once enough are waiting, or the oldest has
+// waited long enough, one Merkle root is written with anchorMerkleRoot from a single service wallet and
+// each transaction gets its inclusion proof. Buyers and farmers never pay for anchoring, and a single
+// job means no two callers race to anchor the same root.
+//
+// Secrets: MERKLE_ANCHOR_SECRET (the bearer token the scheduler sends), MERKLE_ANCHOR_PRIVATE_KEY (a
+// wallet holding an AgriTrace role, which pays the gas), AGRITRACE_RPC_URL, AGRITRACE_CONTRACT_ADDRESS,
+// SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ethers } from 'npm:ethers@6';
+
+interface PendingTransaction {
+  transaction_id: string;
+  content_hash: string;
+  transaction_timestamp: string | null;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const AGRITRACE_ABI = [
+  'function anchorMerkleRoot(bytes32 root, uint256 leafCount, string uri)',
+  'function merkleAnchors(bytes32 root) view returns (address submitter, uint256 anchoredAt, uint256 leafCount, string uri)',
+  'event MerkleRootAnchored(bytes32 indexed root, address indexed submitter, uint256 leafCount, string uri)'
+];
+
+// Anchor once enough transactions are waiting, or when the oldest has waited this long
+const ANCHOR_BATCH_SIZE = 16;
+const ANCHOR_MAX_WAIT_MS = 6 * 60 * 60 * 1000;
+const MAX_LEAVES_PER_ANCHOR = 512;
+
+class AnchorError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+function authorize(request: Request) {
+  const secret = Deno.env.get('MERKLE_ANCHOR_SECRET');
+  if (!secret) {
+    throw new AnchorError('Merkle anchor secret is not configured', 500);
+  }
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== secret) {
+    throw new AnchorError('Invalid authorization', 401);
+  }
+}
+
+function getAnchorContract() {
+  const rpcUrl = Deno.env.get('AGRITRACE_RPC_URL');
+  const contractAddress = Deno.env.get('AGRITRACE_CONTRACT_ADDRESS');
+  const privateKey = Deno.env.get('MERKLE_ANCHOR_PRIVATE_KEY');
+  if (!rpcUrl || !contractAddress || !ethers.isAddress(contractAddress) || !privateKey) {
+    throw new AnchorError('Chain access is not configured for anchoring', 500);
+  }
+  const signer = new ethers.Wallet(privateKey, new ethers.JsonRpcProvider(rpcUrl));
+  return { signer, contract: new ethers.Contract(contractAddress, AGRITRACE_ABI, signer) };
+}
+
+// Sorted pairs, as in transactionHashing.ts, so proofs verify with the contract's MerkleProof
+function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase()
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+function buildMerkleLevels(leaves: string[]): string[][] {
+  const levels: string[][] = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+function getMerkleProof(levels: string[][], leafIndex: number): string[] {
+  const siblings: string[] = [];
+  let index = leafIndex;
+  for (let level = 0; level < levels.length - 1; level++) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < levels[level].length) {
+      siblings.push(levels[level][siblingIndex]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return siblings;
+}
+
+async function getPendingTransactions(admin: SupabaseClient): Promise<PendingTransaction[]> {
+  const { data, error } = await admin
+    .from('transactions')
+    .select('transaction_id, content_hash, transaction_timestamp')
+    .not('content_hash', 'is', null)
+    .is('anchor_tx_hash', null)
+    .order('transaction_timestamp', { ascending: true })
+    .limit(MAX_LEAVES_PER_ANCHOR);
+  if (error) {
+    throw new AnchorError('Failed to read pending transactions', 500);
+  }
+  return (data ?? []) as PendingTransaction[];
+}
+
+// The transaction that anchored a root, when an earlier run anchored it but did not get to record it
+async function findAnchorTransaction(contract: ethers.Contract, root: string) {
+  const logs = await contract.queryFilter(contract.filters.MerkleRootAnchored(root));
+  const log = logs[logs.length - 1];
+  if (!log) {
+    throw new AnchorError(`Root ${root} is anchored but its transaction was not found`, 500);
+  }
+  return { hash: log.transactionHash, blockNumber: log.blockNumber };
+}
+
+async function anchorPending(admin: SupabaseClient) {
+  const pending = await getPendingTransactions(admin);
+  if (pending.length === 0) {
+    return { anchored: false, pending: 0 };
+  }
+
+  const oldest = new Date(pending[0].transaction_timestamp || Date.now()).getTime();
+  if (pending.length < ANCHOR_BATCH_SIZE && Date.now() - oldest < ANCHOR_MAX_WAIT_MS) {
+    return { anchored: false, pending: pending.length };
+  }
+
+  const leaves = pending.map(row => row.content_hash);
+  const levels = buildMerkleLevels(leaves);
+  const merkleRoot = levels[levels.length - 1][0];
+  const { signer, contract } = getAnchorContract();
+
+  const existing = await contract.merkleAnchors(merkleRoot);
+  let anchorTx: { hash: string; blockNumber: number };
+  if (existing.anchoredAt > 0n) {
+    anchorTx = await findAnchorTransaction(contract, merkleRoot);
+  } else {
+    const tx = await contract.anchorMerkleRoot(merkleRoot, leaves.length, '');
+    const receipt = await tx.wait();
+    anchorTx = { hash: receipt.hash, blockNumber: receipt.blockNumber };
+  }
+
+  const network = await signer.provider!.getNetwork();
+  const { error: anchorError } = await admin
+    .from('merkle_anchors')
+    .upsert({
+      merkle_root: merkleRoot,
+      anchor_tx_hash: anchorTx.hash,
+      chain_id: Number(network.chainId),
+      block_number: anchorTx.blockNumber,
+      leaf_count: leaves.length,
+      submitted_by: await signer.getAddress()
+    }, { onConflict: 'merkle_root' });
+  if (anchorError) {
+    throw new AnchorError('Failed to store merkle anchor', 500);
+  }
+
+  // Each transaction keeps its own proof so it can be checked without the rest of the tree
+  for (let leafIndex = 0; leafIndex < pending.length; leafIndex++) {
+    const { error } = await admin
+      .from('transactions')
+      .update({
+        anchor_root: merkleRoot,
+        anchor_tx_hash: anchorTx.hash,
+        anchor_leaf_index: leafIndex,
+        anchor_proof: getMerkleProof(levels, leafIndex)
+      })
+      .eq('transaction_id', pending[leafIndex].transaction_id);
+    if (error) {
+      throw new AnchorError(`Failed to store the anchor proof of ${pending[leafIndex].transaction_id}`, 500);
+    }
+  }
+
+  return { anchored: true, merkleRoot, anchorTxHash: anchorTx.hash, leafCount: leaves.length };
+}
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    authorize(request);
+    return json(await anchorPending(admin));
+  } catch (error) {
+    const status = error instanceof AnchorError ? error.status : 500;
+    const message = error instanceof AnchorError ? error.message : 'Merkle anchor run failed';
+    if (!(error instanceof AnchorError)) {
+      console.error('Merkle anchor error', error);
+    }
+    return json({ error: message }, status);
+  }
+});
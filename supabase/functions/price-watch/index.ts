@@ -0,0 +1,196 @@
+// Scheduled price-watch job, called hourly by pg_cron (see createPriceWatchlists).
+//
+// Fetches the mandi price for every commodity and district someone is watching or has looked up
+// recently (mandi_markets), and records it with record_mandi_price. That builds the daily price
+// history the app charts and forecasts from, and raises threshold and weekly-move alerts. It then
+// raises alerts for new marketplace listings under buyers' target prices with
+// evaluate_listing_watches. Alerts land in price_alert_notifications, which the app shows and
+// toasts in realtime.
+//
+// Secrets: PRICE_WATCH_SECRET (the bearer token the scheduler sends), MANDI_PRICE_API_URL (optional),
+// SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface MarketKey {
+  commodity: string;
+  state: string;
+  district: string;
+}
+
+interface MandiPrice {
+  market: string | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  modalPrice: number;
+  date: string;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const DEFAULT_MANDI_API_URL = 'https://agriinfoextractor.onrender.com/api/mandi/price';
+const FETCH_TIMEOUT_MS = 15_000;
+// Looked-up markets keep being ingested for this long after the last look
+const TRACKED_MARKET_DAYS = 180;
+
+class PriceWatchError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+const toPrice = (value: unknown): number | null => {
+  const price = Number(value);
+  return Number.isFinite(price) && price > 0 ? price : null;
+};
+
+// The API has returned both ISO and dd/mm/yyyy dates; anything else is taken as today's price
+const toPriceDate = (value: unknown): string => {
+  const text = String(value ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    return text.slice(0, 10);
+  }
+  const dayFirst = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (dayFirst) {
+    return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+  return new Date().toISOString().slice(0, 10);
+};
+
+function authorize(request: Request) {
+  const secret = Deno.env.get('PRICE_WATCH_SECRET');
+  if (!secret) {
+    throw new PriceWatchError('Price watch secret is not configured', 500);
+  }
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== secret) {
+    throw new PriceWatchError('Invalid authorization', 401);
+  }
+}
+
+// Each watched or recently looked-up commodity and district once
+async function marketsToIngest(admin: SupabaseClient): Promise<MarketKey[]> {
+  const since = new Date(Date.now() - TRACKED_MARKET_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const [watched, tracked] = await Promise.all([
+    admin
+      .from('price_watches')
+      .select('commodity, state, district')
+      .eq('watch_type', 'mandi_price')
+      .eq('is_active', true),
+    admin
+      .from('mandi_markets')
+      .select('commodity, state, district')
+      .gte('last_requested_at', since)
+  ]);
+  if (watched.error || tracked.error) {
+    throw new PriceWatchError('Failed to load markets to ingest', 500);
+  }
+
+  const markets = new Map<string, MarketKey>();
+  for (const market of [...(watched.data ?? []), ...(tracked.data ?? [])]) {
+    const key = [market.commodity, market.state, market.district].map(part => String(part).toLowerCase()).join('|');
+    if (!markets.has(key)) {
+      markets.set(key, { commodity: market.commodity, state: market.state, district: market.district });
+    }
+  }
+  return [...markets.values()];
+}
+
+async function fetchMandiPrice(market: MarketKey): Promise<MandiPrice | null> {
+  const params = new URLSearchParams({ state: market.state, district: market.district, commodity: market.commodity });
+  const response = await fetch(`${Deno.env.get('MANDI_PRICE_API_URL') || DEFAULT_MANDI_API_URL}?${params}`, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Mandi price API returned ${response.status}`);
+  }
+
+  const body = await response.json();
+  const modalPrice = toPrice(body?.modalPrice);
+  if (modalPrice === null) {
+    return null;
+  }
+  return {
+    market: typeof body.market === 'string' ? body.market : null,
+    minPrice: toPrice(body.minPrice),
+    maxPrice: toPrice(body.maxPrice),
+    modalPrice,
+    date: toPriceDate(body.date)
+  };
+}
+
+async function ingestMandiPrices(admin: SupabaseClient) {
+  const markets = await marketsToIngest(admin);
+  let recorded = 0;
+  let alerts = 0;
+  const failed: string[] = [];
+
+  // One market at a time keeps the free mandi API from throttling the run
+  for (const market of markets) {
+    const label = `${market.commodity} / ${market.district}, ${market.state}`;
+    try {
+      const price = await fetchMandiPrice(market);
+      if (!price) {
+        continue;
+      }
+      const { data, error } = await admin.rpc('record_mandi_price', {
+        p_commodity: market.commodity,
+        p_state: market.state,
+        p_district: market.district,
+        p_market: price.market,
+        p_min_price: price.minPrice,
+        p_max_price: price.maxPrice,
+        p_modal_price: price.modalPrice,
+        p_price_date: price.date
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      recorded += 1;
+      alerts += Number(data) || 0;
+    } catch (error) {
+      console.error(`Price watch failed for ${label}`, error instanceof Error ? error.message : error);
+      failed.push(label);
+    }
+  }
+
+  return { markets: markets.length, recorded, alerts, failed };
+}
+
+async function evaluateListingWatches(admin: SupabaseClient): Promise<number> {
+  const { data, error } = await admin.rpc('evaluate_listing_watches');
+  if (error) {
+    throw new PriceWatchError('Failed to evaluate listing watches', 500);
+  }
+  return Number(data) || 0;
+}
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+  try {
+    authorize(request);
+    // Listing alerts do not wait on the mandi API
+    const [mandi, listingAlerts] = await Promise.all([ingestMandiPrices(admin), evaluateListingWatches(admin)]);
+    return json({ mandi, listingAlerts });
+  } catch (error) {
+    const status = error instanceof PriceWatchError ? error.status : 500;
+    const message = error instanceof PriceWatchError ? error.message : 'Price watch run failed';
+    if (!(error instanceof PriceWatchError)) {
+      console.error('Price watch error', error);
+    }
+    return json({ error: message }, status);
+  }
+});
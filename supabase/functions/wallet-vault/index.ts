@@ -0,0 +1,541 @@
+// Custodial wallet vault for farmers who register by phone and have no wallet of their own.
+//
+// Keys are generated here, encrypted with AES-256-GCM under WALLET_VAULT_KEY (base64, 32 bytes) and
+// never leave the function except through an explicit, consented export. Helpers and admins granted
+// a staff role (staff_roles, set by an admin with the service role) can sign EIP-712 payloads for the
+// AgriTrace attestation and forwarder domains only, on behalf of a farmer and only against a recorded,
+// unexpired consent for that farmer. Every action is written to audit_logs. Hand-over only destroys
+// the key once the chain shows nothing is left behind at the custodial address.
+//
+// Secrets: WALLET_VAULT_KEY, WALLET_VAULT_KEY_VERSION (default 1), AGRITRACE_RPC_URL,
+// AGRITRACE_CONTRACT_ADDRESS, AGRITRACE_FORWARDER_ADDRESS, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ethers } from 'npm:ethers@6';
+
+type ConsentPurpose = 'sign_transactions' | 'export' | 'hand_over';
+type ConsentMethod = 'voice_call' | 'in_person' | 'sms_otp' | 'written';
+
+interface Caller {
+  profileId: string;
+  email: string | null;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const CONSENT_METHODS: ConsentMethod[] = ['voice_call', 'in_person', 'sms_otp', 'written'];
+const CONSENT_PURPOSES: ConsentPurpose[] = ['sign_transactions', 'export', 'hand_over'];
+const VAULT_ROLES = ['helper', 'admin'];
+const MAX_CONSENT_HOURS = 24 * 30;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+const AGRITRACE_ABI = [
+  'function FARMER_ROLE() view returns (bytes32)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function balanceOf(address account, uint256 batchId) view returns (uint256)'
+];
+const ETH_TRANSFER_GAS = 21000n;
+// EIP-712 domains the vault signs for, matching transferAttestation.ts and metaTransactionRelayer.ts
+const ATTESTATION_DOMAIN = { name: 'AgriTrace', version: '1' };
+const FORWARDER_DOMAIN = { name: 'MinimalForwarder', version: '0.0.1' };
+
+class VaultError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+const requireUUID = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+    throw new VaultError(`${field} must be a UUID`);
+  }
+  return value;
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function getVaultKey(): Promise<CryptoKey> {
+  const raw = Deno.env.get('WALLET_VAULT_KEY');
+  if (!raw) {
+    throw new VaultError('Wallet vault key is not configured', 500);
+  }
+  const bytes = fromBase64(raw);
+  if (bytes.length !== 32) {
+    throw new VaultError('Wallet vault key must be 32 bytes', 500);
+  }
+  return crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+const keyVersion = () => Number(Deno.env.get('WALLET_VAULT_KEY_VERSION') || '1');
+
+// The profile id is bound as additional data so a ciphertext cannot be moved to another farmer's row
+async function encryptPrivateKey(privateKey: string, profileId: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(profileId) },
+    await getVaultKey(),
+    new TextEncoder().encode(privateKey)
+  );
+  return { encrypted: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+}
+
+async function decryptPrivateKey(encrypted: string, iv: string, profileId: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(profileId) },
+    await getVaultKey(),
+    fromBase64(encrypted)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function authenticate(admin: SupabaseClient, request: Request): Promise<Caller> {
+  const token = request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new VaultError('Missing authorization', 401);
+  }
+
+  const { data: { user }, error } = await admin.auth.getUser(token);
+  if (error || !user) {
+    throw new VaultError('Invalid session', 401);
+  }
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  // profiles.user_type is self-selected at signup, so access comes from the admin-granted staff role
+  const { data: staff } = profile
+    ? await admin
+      .from('staff_roles')
+      .select('role')
+      .eq('profile_id', profile.id)
+      .is('revoked_at', null)
+      .maybeSingle()
+    : { data: null };
+
+  if (!profile || !staff || !VAULT_ROLES.includes(staff.role)) {
+    throw new VaultError('Only helpers and admins can use the wallet vault', 403);
+  }
+
+  return { profileId: profile.id, email: user.email ?? null };
+}
+
+async function audit(admin: SupabaseClient, caller: Caller, action: string, details: Record<string, unknown>, status = 'success') {
+  const { error } = await admin.from('audit_logs').insert({
+    action,
+    user: caller.email ?? caller.profileId,
+    status,
+    details: { ...details, actorProfileId: caller.profileId }
+  });
+  if (error) {
+    console.error('Failed to write wallet vault audit log', error.message);
+  }
+}
+
+async function getWallet(admin: SupabaseClient, profileId: string) {
+  const { data, error } = await admin.from('farmer_wallets').select('*').eq('profile_id', profileId).maybeSingle();
+  if (error) {
+    throw new VaultError('Failed to read farmer wallet', 500);
+  }
+  return data;
+}
+
+async function getActiveWallet(admin: SupabaseClient, profileId: string) {
+  const wallet = await getWallet(admin, profileId);
+  if (!wallet) {
+    throw new VaultError('Farmer has no custodial wallet', 404);
+  }
+  if (wallet.status !== 'active' || !wallet.encrypted_private_key) {
+    throw new VaultError('Custodial wallet has been handed over to the farmer');
+  }
+  return wallet;
+}
+
+async function loadSigner(admin: SupabaseClient, profileId: string) {
+  const wallet = await getActiveWallet(admin, profileId);
+  const privateKey = await decryptPrivateKey(wallet.encrypted_private_key, wallet.encryption_iv, profileId);
+  return { wallet, signer: new ethers.Wallet(privateKey) };
+}
+
+// A consent must belong to the farmer, be granted to the caller, cover the purpose, and be neither expired nor revoked
+async function requireConsent(
+  admin: SupabaseClient,
+  caller: Caller,
+  profileId: string,
+  consentId: unknown,
+  purposes: ConsentPurpose[]
+) {
+  const id = requireUUID(consentId, 'consentId');
+  const { data: consent } = await admin.from('wallet_signing_consents').select('*').eq('id', id).maybeSingle();
+
+  if (!consent || consent.profile_id !== profileId) {
+    throw new VaultError('Consent not found for this farmer', 403);
+  }
+  if (consent.granted_to !== caller.profileId) {
+    throw new VaultError('Consent was granted to another helper', 403);
+  }
+  if (!purposes.includes(consent.purpose)) {
+    throw new VaultError(`Consent does not cover ${purposes.join(' or ')}`, 403);
+  }
+  if (consent.revoked_at) {
+    throw new VaultError('Consent has been revoked', 403);
+  }
+  if (new Date(consent.expires_at).getTime() <= Date.now()) {
+    throw new VaultError('Consent has expired', 403);
+  }
+  return consent;
+}
+
+function getChain() {
+  const rpcUrl = Deno.env.get('AGRITRACE_RPC_URL');
+  const contractAddress = Deno.env.get('AGRITRACE_CONTRACT_ADDRESS');
+  if (!rpcUrl || !contractAddress || !ethers.isAddress(contractAddress)) {
+    throw new VaultError('Chain access is not configured for the wallet vault', 500);
+  }
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  return { provider, contractAddress: ethers.getAddress(contractAddress), contract: new ethers.Contract(contractAddress, AGRITRACE_ABI, provider) };
+}
+
+// A farmer's key signs only AgriTrace attestations and forward requests to the AgriTrace forwarder on the configured chain
+async function requireAllowedDomain(domain: ethers.TypedDataDomain) {
+  const { provider, contractAddress } = getChain();
+  const forwarderAddress = Deno.env.get('AGRITRACE_FORWARDER_ADDRESS');
+  const allowed = [{ ...ATTESTATION_DOMAIN, verifyingContract: contractAddress }];
+  if (forwarderAddress && ethers.isAddress(forwarderAddress)) {
+    allowed.push({ ...FORWARDER_DOMAIN, verifyingContract: ethers.getAddress(forwarderAddress) });
+  }
+
+  const verifyingContract = typeof domain.verifyingContract === 'string' && ethers.isAddress(domain.verifyingContract)
+    ? ethers.getAddress(domain.verifyingContract)
+    : null;
+  const known = allowed.some(d => d.name === domain.name && d.version === domain.version && d.verifyingContract === verifyingContract);
+  const { chainId } = await provider.getNetwork();
+
+  if (!known || domain.salt != null || domain.chainId == null || BigInt(domain.chainId) !== chainId) {
+    throw new VaultError('The vault only signs AgriTrace attestations and forwarder requests', 403);
+  }
+}
+
+// Batches the custodial address may hold: the farmer's own batches and every indexed transfer to the address
+async function getCandidateBatchIds(admin: SupabaseClient, profileId: string, address: string, contractAddress: string): Promise<number[]> {
+  const [{ data: batches, error: batchError }, { data: events, error: eventError }] = await Promise.all([
+    admin
+      .from('batches')
+      .select('blockchain_batch_id')
+      .or(`farmer_id.eq.${profileId},current_owner.eq.${profileId}`)
+      .not('blockchain_batch_id', 'is', null),
+    admin
+      .from('chain_events')
+      .select('batch_id')
+      .eq('contract_address', contractAddress.toLowerCase())
+      .eq('event_name', 'TransferSingle')
+      .eq('to_address', address.toLowerCase())
+  ]);
+  if (batchError || eventError) {
+    throw new VaultError('Failed to read the farmer\'s batches', 500);
+  }
+
+  return [...new Set([
+    ...(batches ?? []).map(row => Number(row.blockchain_batch_id)),
+    ...(events ?? []).filter(row => row.batch_id !== null).map(row => Number(row.batch_id))
+  ])];
+}
+
+// Confirm on-chain that the custodial address holds no batch quantity and that the new address has the
+// farmer role, then sweep any ETH to the new address. Throws while anything would be stranded with the key.
+async function moveHoldings(admin: SupabaseClient, profileId: string, privateKey: string, from: string, to: string) {
+  const { provider, contractAddress, contract } = getChain();
+
+  const held: number[] = [];
+  for (const batchId of await getCandidateBatchIds(admin, profileId, from, contractAddress)) {
+    if ((await contract.balanceOf(from, batchId)) > 0n) {
+      held.push(batchId);
+    }
+  }
+  if (held.length > 0) {
+    throw new VaultError(`Move the balances of batches ${held.join(', ')} to the new address before handing over`, 409);
+  }
+
+  const farmerRole = await contract.FARMER_ROLE();
+  if ((await contract.hasRole(farmerRole, from)) && !(await contract.hasRole(farmerRole, to))) {
+    throw new VaultError('An admin must grant the farmer role to the new address before handing over', 409);
+  }
+
+  const balance = await provider.getBalance(from);
+  const { maxFeePerGas, maxPriorityFeePerGas, gasPrice } = await provider.getFeeData();
+  const feePerGas = maxFeePerGas ?? gasPrice ?? 0n;
+  const fee = ETH_TRANSFER_GAS * feePerGas;
+  if (feePerGas === 0n || balance <= fee) {
+    // Nothing worth sweeping; less than the fee stays behind
+    return null;
+  }
+
+  const signer = new ethers.Wallet(privateKey, provider);
+  const tx = await signer.sendTransaction({
+    to,
+    value: balance - fee,
+    gasLimit: ETH_TRANSFER_GAS,
+    ...(maxFeePerGas ? { maxFeePerGas, maxPriorityFeePerGas: maxPriorityFeePerGas ?? 0n } : { gasPrice: feePerGas })
+  });
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new VaultError('Moving the remaining ETH to the new address failed', 502);
+  }
+  return { transactionHash: receipt.hash, amount: (balance - fee).toString() };
+}
+
+const actions: Record<string, (admin: SupabaseClient, caller: Caller, body: Record<string, unknown>) => Promise<unknown>> = {
+  async status(admin, _caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const wallet = await getWallet(admin, profileId);
+    const { data: consents } = await admin
+      .from('wallet_signing_consents')
+      .select('id, consent_reference, consent_method, purpose, granted_to, expires_at, revoked_at, created_at')
+      .eq('profile_id', profileId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    return {
+      wallet: wallet && {
+        address: wallet.address,
+        status: wallet.status,
+        keyVersion: wallet.key_version,
+        handedOverTo: wallet.handed_over_to,
+        handedOverAt: wallet.handed_over_at,
+        exportedAt: wallet.exported_at,
+        createdAt: wallet.created_at
+      },
+      consents: consents ?? []
+    };
+  },
+
+  async create(admin, caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const existing = await getWallet(admin, profileId);
+    if (existing) {
+      return { address: existing.address, status: existing.status, created: false };
+    }
+
+    const { data: profile } = await admin.from('profiles').select('id, user_type, wallet_address').eq('id', profileId).maybeSingle();
+    if (!profile) {
+      throw new VaultError('Farmer profile not found', 404);
+    }
+    if (profile.user_type !== 'farmer') {
+      throw new VaultError('Custodial wallets are only for farmers');
+    }
+    if (profile.wallet_address) {
+      throw new VaultError('Farmer already has a self-custody wallet address');
+    }
+
+    const generated = ethers.Wallet.createRandom();
+    const { encrypted, iv } = await encryptPrivateKey(generated.privateKey, profileId);
+
+    const { error } = await admin.from('farmer_wallets').insert({
+      profile_id: profileId,
+      address: generated.address,
+      encrypted_private_key: encrypted,
+      encryption_iv: iv,
+      key_version: keyVersion(),
+      created_by: caller.profileId
+    });
+    if (error) {
+      // Another helper created the wallet concurrently
+      if (error.code === '23505') {
+        const wallet = await getWallet(admin, profileId);
+        return { address: wallet.address, status: wallet.status, created: false };
+      }
+      throw new VaultError('Failed to store farmer wallet', 500);
+    }
+
+    await admin.from('profiles').update({ wallet_address: generated.address }).eq('id', profileId);
+    await audit(admin, caller, 'wallet_vault.create', { profileId, address: generated.address });
+
+    return { address: generated.address, status: 'active', created: true };
+  },
+
+  async recordConsent(admin, caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const reference = typeof body.consentReference === 'string' ? body.consentReference.trim().slice(0, 500) : '';
+    const method = body.consentMethod as ConsentMethod;
+    const purpose = body.purpose as ConsentPurpose;
+    const hours = Number(body.expiresInHours ?? 24);
+
+    if (!reference) {
+      throw new VaultError('A consent reference (call ID, recording or form number) is required');
+    }
+    if (!CONSENT_METHODS.includes(method)) {
+      throw new VaultError('Unknown consent method');
+    }
+    if (!CONSENT_PURPOSES.includes(purpose)) {
+      throw new VaultError('Unknown consent purpose');
+    }
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_CONSENT_HOURS) {
+      throw new VaultError(`Consent must expire within ${MAX_CONSENT_HOURS} hours`);
+    }
+
+    await getActiveWallet(admin, profileId);
+
+    const { data: consent, error } = await admin
+      .from('wallet_signing_consents')
+      .insert({
+        profile_id: profileId,
+        consent_reference: reference,
+        consent_method: method,
+        purpose,
+        granted_to: caller.profileId,
+        expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+      })
+      .select()
+      .single();
+    if (error) {
+      throw new VaultError('Failed to record consent', 500);
+    }
+
+    await audit(admin, caller, 'wallet_vault.consent', { profileId, consentId: consent.id, purpose, method, reference });
+    return consent;
+  },
+
+  async revokeConsent(admin, caller, body) {
+    const consentId = requireUUID(body.consentId, 'consentId');
+    const { data: consent, error } = await admin
+      .from('wallet_signing_consents')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', consentId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle();
+    if (error || !consent) {
+      throw new VaultError('Consent not found or already revoked', 404);
+    }
+
+    await audit(admin, caller, 'wallet_vault.revoke_consent', { profileId: consent.profile_id, consentId });
+    return consent;
+  },
+
+  async signTypedData(admin, caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const consent = await requireConsent(admin, caller, profileId, body.consentId, ['sign_transactions', 'hand_over']);
+    const { domain, types, message } = body as {
+      domain: ethers.TypedDataDomain;
+      types: Record<string, ethers.TypedDataField[]>;
+      message: Record<string, unknown>;
+    };
+    if (!domain || !types || !message) {
+      throw new VaultError('domain, types and message are required');
+    }
+    await requireAllowedDomain(domain);
+
+    const { wallet, signer } = await loadSigner(admin, profileId);
+    const primaryType = ethers.TypedDataEncoder.getPrimaryType(types);
+    const signature = await signer.signTypedData(domain, types, message);
+
+    await audit(admin, caller, 'wallet_vault.sign', {
+      profileId,
+      consentId: consent.id,
+      address: wallet.address,
+      primaryType,
+      domain: { name: domain.name, chainId: domain.chainId?.toString(), verifyingContract: domain.verifyingContract },
+      digest: ethers.TypedDataEncoder.hash(domain, types, message)
+    });
+
+    return { address: wallet.address, signature };
+  },
+
+  async export(admin, caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const consent = await requireConsent(admin, caller, profileId, body.consentId, ['export']);
+    const { wallet, signer } = await loadSigner(admin, profileId);
+
+    await admin.from('farmer_wallets').update({ exported_at: new Date().toISOString(), updated_at: new Date().toISOString() }).eq('id', wallet.id);
+    // Export consents are single-use
+    await admin.from('wallet_signing_consents').update({ revoked_at: new Date().toISOString() }).eq('id', consent.id);
+    await audit(admin, caller, 'wallet_vault.export', { profileId, consentId: consent.id, address: wallet.address });
+
+    return { address: wallet.address, privateKey: signer.privateKey };
+  },
+
+  async handOver(admin, caller, body) {
+    const profileId = requireUUID(body.profileId, 'profileId');
+    const consent = await requireConsent(admin, caller, profileId, body.consentId, ['hand_over']);
+    if (typeof body.newAddress !== 'string' || !ethers.isAddress(body.newAddress)) {
+      throw new VaultError('newAddress must be a wallet address');
+    }
+    const newAddress = ethers.getAddress(body.newAddress);
+    const { wallet, signer } = await loadSigner(admin, profileId);
+    if (newAddress === ethers.getAddress(wallet.address)) {
+      throw new VaultError('New address must differ from the custodial address');
+    }
+
+    const sweep = await moveHoldings(admin, profileId, signer.privateKey, wallet.address, newAddress);
+
+    // Nothing is left at the custodial address, so the key is destroyed; from here on the farmer signs with their own wallet
+    const now = new Date().toISOString();
+    const { error } = await admin
+      .from('farmer_wallets')
+      .update({
+        status: 'handed_over',
+        handed_over_to: newAddress,
+        handed_over_at: now,
+        encrypted_private_key: null,
+        encryption_iv: null,
+        updated_at: now
+      })
+      .eq('id', wallet.id);
+    if (error) {
+      throw new VaultError('Failed to hand over wallet', 500);
+    }
+
+    await admin.from('profiles').update({ wallet_address: newAddress }).eq('id', profileId);
+    await admin.from('wallet_signing_consents').update({ revoked_at: now }).eq('profile_id', profileId).is('revoked_at', null);
+    await audit(admin, caller, 'wallet_vault.hand_over', {
+      profileId,
+      consentId: consent.id,
+      from: wallet.address,
+      to: newAddress,
+      ethSweep: sweep
+    });
+
+    return { previousAddress: wallet.address, address: newAddress, status: 'handed_over', ethSweep: sweep };
+  }
+};
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+  let caller: Caller | null = null;
+  let action = 'unknown';
+  try {
+    caller = await authenticate(admin, request);
+    const body = await request.json();
+    action = String(body.action);
+
+    if (!Object.hasOwn(actions, action)) {
+      throw new VaultError(`Unknown action ${action}`);
+    }
+    return json(await actions[action](admin, caller, body));
+  } catch (error) {
+    const status = error instanceof VaultError ? error.status : 500;
+    const message = error instanceof VaultError ? error.message : 'Wallet vault request failed';
+    if (caller) {
+      await audit(admin, caller, `wallet_vault.${action}`, { error: message }, 'failed');
+    }
+    if (!(error instanceof VaultError)) {
+      console.error('Wallet vault error', error);
+    }
+    return json({ error: message }, status);
+  }
+});